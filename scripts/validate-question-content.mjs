@@ -0,0 +1,175 @@
+// scripts/validate-question-content.mjs
+// Checks the question content JSON in seed files against the runtime
+// schemas in src/lib/questionSchemas.ts before they are deployed.
+//
+//   npm run validate:content                       (every .sql in supabase/migrations)
+//   npm run validate:content -- path/to/seed.sql   (specific .sql or .json files)
+//
+// .sql files: every JSON string literal that looks like a content block or
+// option array is checked. .json files: an array of question rows.
+// Exits with code 1 when anything would not render.
+// ============================================
+
+import { readFileSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { createServer } from "vite";
+
+const MIGRATIONS_DIR = "supabase/migrations";
+
+// ============================================
+// SQL STRING LITERALS
+// ============================================
+
+/**
+ * Single-quoted literals with the line they start on, skipping -- comments
+ * (which often contain apostrophes) and unescaping ''
+ */
+function extractStringLiterals(sql) {
+  const literals = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    if (ch === "\n") line++;
+
+    if (ch === "-" && sql[i + 1] === "-") {
+      while (i < sql.length && sql[i] !== "\n") i++;
+      continue;
+    }
+
+    if (ch === "'") {
+      const startLine = line;
+      let value = "";
+      i++;
+      while (i < sql.length) {
+        if (sql[i] === "'" && sql[i + 1] === "'") {
+          value += "'";
+          i += 2;
+        } else if (sql[i] === "'") {
+          break;
+        } else {
+          if (sql[i] === "\n") line++;
+          value += sql[i++];
+        }
+      }
+      literals.push({ line: startLine, value });
+    }
+    i++;
+  }
+  return literals;
+}
+
+function isBlockArray(value) {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((item) => item && typeof item === "object" && "type" in item)
+  );
+}
+
+function isOptionArray(value) {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every(
+      (item) =>
+        item &&
+        typeof item === "object" &&
+        "id" in item &&
+        ("text" in item || "content" in item),
+    )
+  );
+}
+
+// ============================================
+// FILE CHECKS
+// ============================================
+
+function checkSqlFile(file, schemas) {
+  const problems = [];
+
+  for (const { line, value } of extractStringLiterals(readFileSync(file, "utf8"))) {
+    const trimmed = value.trim();
+    if (!/^[[{]/.test(trimmed)) continue;
+
+    let json;
+    try {
+      json = JSON.parse(trimmed);
+    } catch (err) {
+      // Only report literals that were clearly meant to be JSON
+      if (/^(\[\s*\{|\{\s*")/.test(trimmed)) {
+        problems.push(`${file}:${line}  invalid JSON: ${err.message}`);
+      }
+      continue;
+    }
+
+    const { issues } = isBlockArray(json)
+      ? schemas.validateContentBlocks(json, "blocks")
+      : isOptionArray(json)
+        ? schemas.validateOptions(json, "options")
+        : { issues: [] };
+
+    issues.forEach((issue) =>
+      problems.push(`${file}:${line}  ${issue.path}: ${issue.message}`),
+    );
+  }
+  return problems;
+}
+
+function checkJsonFile(file, schemas) {
+  let rows;
+  try {
+    rows = JSON.parse(readFileSync(file, "utf8"));
+  } catch (err) {
+    return [`${file}  invalid JSON: ${err.message}`];
+  }
+  if (!Array.isArray(rows)) {
+    return [`${file}  expected an array of question rows`];
+  }
+
+  return rows.flatMap((row) =>
+    schemas
+      .validateQuestionContent(row)
+      .issues.map((issue) => `${file}${schemas.formatContentIssue(issue)}`),
+  );
+}
+
+// ============================================
+// MAIN
+// ============================================
+
+const files =
+  process.argv.length > 2
+    ? process.argv.slice(2)
+    : readdirSync(MIGRATIONS_DIR)
+        .filter((name) => name.endsWith(".sql"))
+        .map((name) => path.join(MIGRATIONS_DIR, name));
+
+// Vite compiles the TypeScript schemas so the app and this script share them
+const server = await createServer({
+  configFile: false,
+  logLevel: "error",
+  appType: "custom",
+  server: { middlewareMode: true, hmr: false },
+});
+
+let problems = [];
+try {
+  const schemas = await server.ssrLoadModule("/src/lib/questionSchemas.ts");
+  problems = files.flatMap((file) =>
+    file.endsWith(".json")
+      ? checkJsonFile(file, schemas)
+      : checkSqlFile(file, schemas),
+  );
+} finally {
+  await server.close();
+}
+
+if (problems.length > 0) {
+  console.error(problems.join("\n"));
+  console.error(`\n${problems.length} content problem(s) found`);
+  process.exit(1);
+}
+
+console.log(`Question content OK (${files.length} file(s) checked)`);
@@ -0,0 +1,50 @@
+import { Award } from "lucide-react";
+import {
+  PROFICIENCY_LABELS,
+  type ProficiencyLevel,
+  type ScaledResult,
+} from "@/lib/naplanScale";
+
+interface ProficiencyBadgeProps {
+  result: ScaledResult;
+  size?: "sm" | "md";
+  showScaledScore?: boolean;
+}
+
+export const PROFICIENCY_COLORS: Record<ProficiencyLevel, string> = {
+  exceeding: "bg-emerald-100 text-emerald-700",
+  strong: "bg-blue-100 text-blue-700",
+  developing: "bg-amber-100 text-amber-700",
+  needs_support: "bg-red-100 text-red-700",
+};
+
+export default function ProficiencyBadge({
+  result,
+  size = "md",
+  showScaledScore = true,
+}: ProficiencyBadgeProps) {
+  const sizeClasses = {
+    sm: "px-2 py-1 text-xs",
+    md: "px-3 py-1 text-sm",
+  };
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 rounded-full font-semibold ${sizeClasses[size]} ${
+        result.proficiency
+          ? PROFICIENCY_COLORS[result.proficiency]
+          : "bg-gray-100 text-gray-700"
+      }`}
+      title={`Estimated NAPLAN scaled score: ${result.scaledScore}`}
+    >
+      <Award className={size === "sm" ? "w-3 h-3" : "w-4 h-4"} />
+      <span>
+        {result.proficiency
+          ? PROFICIENCY_LABELS[result.proficiency]
+          : "NAPLAN estimate"}
+        {result.band !== null && ` • Band ${result.band}`}
+        {showScaledScore && ` • ${result.scaledScore}`}
+      </span>
+    </span>
+  );
+}
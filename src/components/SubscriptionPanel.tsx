@@ -0,0 +1,421 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  AlertCircle,
+  ArrowRightLeft,
+  CreditCard,
+  Crown,
+  Building2,
+  Loader2,
+  RotateCcw,
+  XCircle,
+} from "lucide-react";
+import { ROUTES } from "@/data/constants";
+import { formatDate } from "@/utils/helpers";
+import PremiumBadge from "@/components/PremiumBadge";
+import {
+  getPlanById,
+  isPremiumUser,
+  type UserSubscription,
+} from "@/lib/stripe";
+import {
+  cancelSubscription,
+  changePlan,
+  createPortalSession,
+  fetchUserSubscription,
+  previewPlanChange,
+  reactivateSubscription,
+  type PlanChangePreview,
+} from "@/lib/subscription";
+import {
+  fetchMySeatInvites,
+  fetchSeatOrganisation,
+  respondToSeatInvite,
+  type MySeatInvite,
+  type Organisation,
+} from "@/lib/organisations";
+
+interface SubscriptionPanelProps {
+  userId: string;
+}
+
+// Stripe amounts are in the smallest currency unit
+function formatAmount(amount: number, currency: string): string {
+  return new Intl.NumberFormat("en-AU", {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(amount / 100);
+}
+
+export default function SubscriptionPanel({ userId }: SubscriptionPanelProps) {
+  const [subscription, setSubscription] = useState<UserSubscription | null>(
+    null,
+  );
+  const [seatOrganisation, setSeatOrganisation] = useState<Organisation | null>(
+    null,
+  );
+  const [seatInvites, setSeatInvites] = useState<MySeatInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [preview, setPreview] = useState<PlanChangePreview | null>(null);
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+
+  const loadSubscription = useCallback(async () => {
+    const [current, organisation, invites] = await Promise.all([
+      fetchUserSubscription(userId),
+      fetchSeatOrganisation(userId),
+      fetchMySeatInvites(),
+    ]);
+    setSubscription(current);
+    setSeatOrganisation(organisation);
+    setSeatInvites(invites);
+  }, [userId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadSubscription().finally(() => setIsLoading(false));
+  }, [loadSubscription]);
+
+  // Runs one of the actions below, showing its error or notice
+  const run = async <T,>(
+    action: string,
+    request: () => Promise<T | { error: string }>,
+    onSuccess: (result: T) => Promise<void> | void,
+  ) => {
+    setBusyAction(action);
+    setError(null);
+    setNotice(null);
+    const result = await request();
+    if (result && typeof result === "object" && "error" in result) {
+      setError(result.error);
+    } else {
+      await onSuccess(result as T);
+    }
+    setBusyAction(null);
+  };
+
+  const handlePreview = (planId: "monthly" | "yearly") =>
+    run("preview", () => previewPlanChange(planId), setPreview);
+
+  const handleChangePlan = () => {
+    if (!preview) return;
+    run(
+      "change",
+      () => changePlan(preview.planId, preview.prorationDate),
+      async (result) => {
+        setPreview(null);
+        setNotice(
+          `You're now on ${getPlanById(preview.planId)?.name || "the new plan"}. It renews on ${formatDate(result.nextRenewal)}.`,
+        );
+        await loadSubscription();
+      },
+    );
+  };
+
+  const handleCancel = () =>
+    run("cancel", cancelSubscription, async (result) => {
+      setConfirmingCancel(false);
+      setNotice(
+        `Your subscription is cancelled. You keep Premium until ${formatDate(result.effectiveDate)}.`,
+      );
+      await loadSubscription();
+    });
+
+  const handleReactivate = () =>
+    run("reactivate", reactivateSubscription, async (result) => {
+      setNotice(
+        `Welcome back! Your subscription renews on ${formatDate(result.effectiveDate)}.`,
+      );
+      await loadSubscription();
+    });
+
+  const handleSeatInvite = (invite: MySeatInvite, accept: boolean) =>
+    run(
+      "seat",
+      () => respondToSeatInvite(invite.organisation_id, accept),
+      async () => {
+        setNotice(
+          accept
+            ? `You have Premium through ${invite.organisation_name}.`
+            : `You declined the seat from ${invite.organisation_name}.`,
+        );
+        await loadSubscription();
+      },
+    );
+
+  const handleManageBilling = () =>
+    run(
+      "portal",
+      () => createPortalSession(userId),
+      (result) => {
+        window.location.href = result.url;
+      },
+    );
+
+  if (isLoading) {
+    return (
+      <div className="bg-white rounded-3xl shadow-xl p-8 border-4 border-gray-100 flex justify-center">
+        <Loader2 className="w-8 h-8 text-primary-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const plan = subscription ? getPlanById(subscription.plan_id) : undefined;
+  const otherPlanId = subscription?.plan_id === "yearly" ? "monthly" : "yearly";
+  const otherPlan = getPlanById(otherPlanId);
+  const isPremium = isPremiumUser(subscription);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ delay: 0.3 }}
+      className="mt-6 bg-white rounded-3xl shadow-xl p-8 border-4 border-gray-100"
+    >
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-2xl font-black text-gray-800">Subscription 💳</h3>
+        {subscription && <PremiumBadge status={subscription.status} />}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-2 border-red-200 rounded-xl p-4 mb-6 flex items-center space-x-3">
+          <AlertCircle className="w-5 h-5 text-red-500 shrink-0" />
+          <p className="text-red-700 font-medium">{error}</p>
+        </div>
+      )}
+      {notice && (
+        <div className="bg-green-50 border-2 border-green-200 rounded-xl p-4 mb-6">
+          <p className="text-green-700 font-medium">{notice}</p>
+        </div>
+      )}
+
+      {seatInvites.map((invite) => (
+        <div
+          key={invite.organisation_id}
+          className="bg-indigo-50 border-2 border-indigo-200 rounded-xl p-4 mb-6 space-y-3"
+        >
+          <p className="flex items-center gap-2 font-bold text-indigo-800">
+            <Building2 className="w-5 h-5 shrink-0" />
+            {invite.organisation_name} is offering you a Premium seat
+          </p>
+          <p className="text-sm text-indigo-700">
+            If you accept, its admins can see your name, email and how you're
+            practising - exams completed, scores and time studied.
+          </p>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleSeatInvite(invite, true)}
+              disabled={!!busyAction}
+              className="px-4 py-2 rounded-xl font-bold bg-primary-500 text-white hover:bg-primary-600 transition-colors disabled:opacity-50"
+            >
+              Accept seat
+            </button>
+            <button
+              onClick={() => handleSeatInvite(invite, false)}
+              disabled={!!busyAction}
+              className="px-4 py-2 rounded-xl font-bold text-gray-600 hover:bg-gray-100 transition-colors disabled:opacity-50"
+            >
+              Decline
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {!isPremium ? (
+        <div className="space-y-4">
+          <p className="text-gray-600">
+            {seatOrganisation
+              ? `You have Premium through ${seatOrganisation.name}.`
+              : subscription?.status === "past_due"
+                ? "Your last payment didn't go through. Update your card to keep Premium."
+                : "You're on the Free plan."}
+          </p>
+          {subscription?.status === "past_due" ? (
+            <button
+              onClick={handleManageBilling}
+              disabled={!!busyAction}
+              className="flex items-center space-x-2 px-6 py-3 rounded-xl font-bold bg-primary-500 text-white hover:bg-primary-600 transition-colors disabled:opacity-50"
+            >
+              <CreditCard className="w-5 h-5" />
+              <span>Update payment details</span>
+            </button>
+          ) : (
+            !seatOrganisation && (
+              <Link
+                to={ROUTES.PRICING}
+                className="inline-flex items-center space-x-2 px-6 py-3 rounded-xl font-bold bg-gradient-to-r from-yellow-400 to-orange-500 text-white shadow-lg hover:shadow-xl transition-all"
+              >
+                <Crown className="w-5 h-5" />
+                <span>Upgrade to Premium</span>
+              </Link>
+            )
+          )}
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="px-4 py-3 bg-gray-50 rounded-xl">
+              <p className="text-sm font-bold text-gray-500">Plan</p>
+              <p className="font-semibold text-gray-800">
+                {plan?.name || "Premium"}
+              </p>
+            </div>
+            {subscription?.current_period_end && (
+              <div className="px-4 py-3 bg-gray-50 rounded-xl">
+                <p className="text-sm font-bold text-gray-500">
+                  {subscription.cancel_at_period_end
+                    ? "Premium ends"
+                    : "Renews"}
+                </p>
+                <p className="font-semibold text-gray-800">
+                  {formatDate(subscription.current_period_end)}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Plan change preview */}
+          {preview && (
+            <div className="p-5 rounded-2xl border-2 border-primary-200 bg-primary-50 space-y-3">
+              <p className="font-black text-gray-800">
+                Switch to {getPlanById(preview.planId)?.name}
+              </p>
+              <ul className="text-sm text-gray-600 space-y-1">
+                {preview.lines.map((line, i) => (
+                  <li key={i} className="flex justify-between gap-4">
+                    <span>{line.description}</span>
+                    <span className="font-semibold">
+                      {formatAmount(line.amount, preview.currency)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <div className="pt-3 border-t border-primary-200 text-gray-800">
+                <p>
+                  Takes effect{" "}
+                  <strong>{formatDate(preview.effectiveDate)}</strong>. You'll
+                  be charged{" "}
+                  <strong>
+                    {formatAmount(preview.amountDue, preview.currency)}
+                  </strong>{" "}
+                  today
+                  {preview.nextRenewal &&
+                    `, then it renews on ${formatDate(preview.nextRenewal)}`}
+                  .
+                </p>
+                {preview.credit > 0 && (
+                  <p className="text-sm text-gray-600 mt-1">
+                    {formatAmount(preview.credit, preview.currency)} of unused
+                    time is kept as credit towards future invoices.
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={handleChangePlan}
+                  disabled={!!busyAction}
+                  className="flex items-center space-x-2 px-6 py-3 rounded-xl font-bold bg-primary-500 text-white hover:bg-primary-600 transition-colors disabled:opacity-50"
+                >
+                  {busyAction === "change" && (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  )}
+                  <span>Confirm switch</span>
+                </button>
+                <button
+                  onClick={() => setPreview(null)}
+                  className="px-4 py-2 text-gray-600 font-bold"
+                >
+                  Keep my plan
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Cancel confirmation */}
+          {confirmingCancel && subscription?.current_period_end && (
+            <div className="p-5 rounded-2xl border-2 border-red-200 bg-red-50 space-y-3">
+              <p className="text-gray-800">
+                Your subscription will stop renewing. You keep Premium until{" "}
+                <strong>{formatDate(subscription.current_period_end)}</strong>{" "}
+                and won't be charged again.
+              </p>
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={handleCancel}
+                  disabled={!!busyAction}
+                  className="flex items-center space-x-2 px-6 py-3 rounded-xl font-bold bg-red-500 text-white hover:bg-red-600 transition-colors disabled:opacity-50"
+                >
+                  {busyAction === "cancel" && (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  )}
+                  <span>Cancel subscription</span>
+                </button>
+                <button
+                  onClick={() => setConfirmingCancel(false)}
+                  className="px-4 py-2 text-gray-600 font-bold"
+                >
+                  Keep Premium
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!preview && !confirmingCancel && (
+            <div className="flex flex-wrap gap-3">
+              {subscription?.cancel_at_period_end ? (
+                <button
+                  onClick={handleReactivate}
+                  disabled={!!busyAction}
+                  className="flex items-center space-x-2 px-4 py-2 rounded-xl bg-primary-100 text-primary-700 font-bold hover:bg-primary-200 transition-colors disabled:opacity-50"
+                >
+                  {busyAction === "reactivate" ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-4 h-4" />
+                  )}
+                  <span>Resume subscription</span>
+                </button>
+              ) : (
+                <>
+                  {otherPlan && (
+                    <button
+                      onClick={() => handlePreview(otherPlanId)}
+                      disabled={!!busyAction}
+                      className="flex items-center space-x-2 px-4 py-2 rounded-xl bg-primary-100 text-primary-700 font-bold hover:bg-primary-200 transition-colors disabled:opacity-50"
+                    >
+                      {busyAction === "preview" ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <ArrowRightLeft className="w-4 h-4" />
+                      )}
+                      <span>Switch to {otherPlan.interval}ly billing</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setConfirmingCancel(true)}
+                    disabled={!!busyAction}
+                    className="flex items-center space-x-2 px-4 py-2 rounded-xl bg-gray-100 text-gray-700 font-bold hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  >
+                    <XCircle className="w-4 h-4" />
+                    <span>Cancel</span>
+                  </button>
+                </>
+              )}
+              <button
+                onClick={handleManageBilling}
+                disabled={!!busyAction}
+                className="flex items-center space-x-2 px-4 py-2 rounded-xl bg-gray-100 text-gray-700 font-bold hover:bg-gray-200 transition-colors disabled:opacity-50"
+              >
+                <CreditCard className="w-4 h-4" />
+                <span>Billing details</span>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -101,7 +101,7 @@ export default function SupabaseDiagnostic() {
 
       // Test 4: Count questions
       try {
-        const { data, error } = await supabase.from("questions").select("*");
+        const { data, error } = await supabase.from("questions").select("id");
 
         if (error) {
           results.questionsError = error.message;
@@ -0,0 +1,955 @@
+// src/components/admin/ContentBlockEditor.tsx
+// Block-by-block editor for ContentBlock arrays (question content, hints,
+// explanations and rich options). Nested lists use one-line text formats
+// so authors never have to write JSON.
+
+import React, { useState } from "react";
+import {
+  ChevronUp,
+  ChevronDown,
+  Trash2,
+  Plus,
+  Upload,
+  Loader2,
+} from "lucide-react";
+import { uploadQuestionMedia } from "../../lib/mediaStorage";
+import type {
+  ContentBlock,
+  ContentBlockType,
+  TallyData,
+} from "../../types/question";
+
+// ============================================
+// BLOCK DEFAULTS
+// ============================================
+
+export const BLOCK_TYPE_LABELS: Record<ContentBlockType, string> = {
+  text: "Text",
+  image: "Image",
+  table: "Table",
+  math: "Math",
+  grid: "Grid",
+  "number-line": "Number line",
+  chart: "Chart",
+  shape: "Shape",
+  tally: "Tally",
+  clock: "Clock",
+  money: "Money",
+  fraction: "Fraction",
+  spacer: "Spacer",
+};
+
+function createBlock(type: ContentBlockType): ContentBlock {
+  const id = Math.random().toString(36).slice(2, 8);
+  switch (type) {
+    case "text":
+      return { id, type, content: "" };
+    case "image":
+      return { id, type, alt: "", alignment: "center" };
+    case "table":
+      return { id, type, headers: ["", ""], rows: [["", ""]] };
+    case "math":
+      return { id, type, latex: "", display: "block" };
+    case "grid":
+      return { id, type, rows: 5, cols: 5 };
+    case "number-line":
+      return { id, type, min: 0, max: 10, step: 1, showTicks: true };
+    case "chart":
+      return {
+        id,
+        type,
+        chartType: "bar",
+        data: { labels: ["A", "B"], values: [1, 2] },
+      };
+    case "shape":
+      return { id, type, shapeType: "rectangle", dimensions: {} };
+    case "tally":
+      return { id, type, count: 5 };
+    case "clock":
+      return { id, type, hours: 3, minutes: 0 };
+    case "money":
+      return { id, type, amount: 0, currency: "AUD" };
+    case "fraction":
+      return { id, type, numerator: 1, denominator: 2, display: "numeric" };
+    case "spacer":
+      return { id, type, height: 16 };
+  }
+}
+
+// ============================================
+// ONE-LINE FORMATS
+// ============================================
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((v) => v.trim())
+    .filter((v) => v !== "");
+
+const joinList = (values?: Array<string | number>) => (values || []).join(", ");
+
+// "width=4, height=3"
+const parsePairs = (value: string): Record<string, string> =>
+  Object.fromEntries(
+    splitList(value)
+      .map((pair) => pair.split("=").map((p) => p.trim()))
+      .filter(([key, val]) => key && val !== undefined),
+  );
+
+const joinPairs = (record?: Record<string, string | number>) =>
+  Object.entries(record || {})
+    .map(([key, val]) => `${key}=${val}`)
+    .join(", ");
+
+// Table cells: "|" between cells, one row per line, "tally:7" for tallies
+const parseCell = (cell: string): string | number | TallyData => {
+  const trimmed = cell.trim();
+  const tally = trimmed.match(/^tally:(\d+)$/);
+  if (tally) return { type: "tally", count: Number(tally[1]) };
+  return trimmed;
+};
+
+const formatCell = (cell: string | number | TallyData) =>
+  typeof cell === "object" ? `tally:${cell.count}` : String(cell);
+
+// ============================================
+// MAIN EDITOR
+// ============================================
+
+interface ContentBlockEditorProps {
+  blocks: ContentBlock[];
+  onChange: (blocks: ContentBlock[]) => void;
+  // Storage folder for uploaded images, e.g. "year5/numeracy"
+  mediaFolder: string;
+  allowedTypes?: ContentBlockType[];
+}
+
+export const ContentBlockEditor: React.FC<ContentBlockEditorProps> = ({
+  blocks,
+  onChange,
+  mediaFolder,
+  allowedTypes = Object.keys(BLOCK_TYPE_LABELS) as ContentBlockType[],
+}) => {
+  const [newType, setNewType] = useState<ContentBlockType>(allowedTypes[0]);
+
+  const update = (index: number, block: ContentBlock) =>
+    onChange(blocks.map((b, i) => (i === index ? block : b)));
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= blocks.length) return;
+    const next = [...blocks];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      {blocks.map((block, index) => (
+        <div
+          key={block.id || index}
+          className="border-2 border-gray-200 rounded-lg p-3 bg-white"
+        >
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-semibold uppercase tracking-wide text-indigo-600">
+              {BLOCK_TYPE_LABELS[block.type]}
+            </span>
+            <div className="flex items-center gap-1">
+              <IconButton
+                label="Move up"
+                disabled={index === 0}
+                onClick={() => move(index, index - 1)}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </IconButton>
+              <IconButton
+                label="Move down"
+                disabled={index === blocks.length - 1}
+                onClick={() => move(index, index + 1)}
+              >
+                <ChevronDown className="w-4 h-4" />
+              </IconButton>
+              <IconButton
+                label="Remove block"
+                onClick={() => onChange(blocks.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </IconButton>
+            </div>
+          </div>
+          <BlockFields
+            block={block}
+            onChange={(b) => update(index, b)}
+            mediaFolder={mediaFolder}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={newType}
+          onChange={(e) => setNewType(e.target.value as ContentBlockType)}
+          className="p-2 border-2 border-gray-200 rounded-lg text-sm"
+        >
+          {allowedTypes.map((type) => (
+            <option key={type} value={type}>
+              {BLOCK_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => onChange([...blocks, createBlock(newType)])}
+          className="flex items-center gap-1 px-3 py-2 text-sm bg-indigo-50 text-indigo-700 rounded-lg hover:bg-indigo-100"
+        >
+          <Plus className="w-4 h-4" /> Add block
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// ============================================
+// PER-VARIANT FIELDS
+// ============================================
+
+const BlockFields: React.FC<{
+  block: ContentBlock;
+  onChange: (block: ContentBlock) => void;
+  mediaFolder: string;
+}> = ({ block, onChange, mediaFolder }) => {
+  switch (block.type) {
+    case "text":
+      return (
+        <div className="space-y-2">
+          <TextArea
+            label="Text (HTML allowed, {{blank:id}} for blanks)"
+            value={block.content}
+            onChange={(content) => onChange({ ...block, content })}
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              label="Style"
+              value={block.style || "normal"}
+              options={["normal", "bold", "italic", "heading"]}
+              onChange={(style) =>
+                onChange({ ...block, style: style as typeof block.style })
+              }
+            />
+            <Select
+              label="Alignment"
+              value={block.alignment || "left"}
+              options={["left", "center", "right"]}
+              onChange={(alignment) =>
+                onChange({
+                  ...block,
+                  alignment: alignment as typeof block.alignment,
+                })
+              }
+            />
+          </div>
+        </div>
+      );
+
+    case "image":
+      return (
+        <div className="space-y-2">
+          <MediaUpload
+            folder={mediaFolder}
+            accept="image/*"
+            current={block.path || block.url}
+            onUploaded={({ bucket, path }) =>
+              onChange({ ...block, bucket, path, url: undefined })
+            }
+          />
+          <Field
+            label="Or public URL"
+            value={block.url || ""}
+            onChange={(url) =>
+              onChange({
+                ...block,
+                url: url || undefined,
+                bucket: url ? undefined : block.bucket,
+                path: url ? undefined : block.path,
+              })
+            }
+          />
+          <Field
+            label="Alt text"
+            value={block.alt}
+            onChange={(alt) => onChange({ ...block, alt })}
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField
+              label="Width (px)"
+              value={block.width}
+              onChange={(width) => onChange({ ...block, width })}
+            />
+            <Select
+              label="Alignment"
+              value={block.alignment || "center"}
+              options={["left", "center", "right"]}
+              onChange={(alignment) =>
+                onChange({
+                  ...block,
+                  alignment: alignment as typeof block.alignment,
+                })
+              }
+            />
+            <Field
+              label="Caption"
+              value={block.caption || ""}
+              onChange={(caption) =>
+                onChange({ ...block, caption: caption || undefined })
+              }
+            />
+          </div>
+        </div>
+      );
+
+    case "table":
+      return (
+        <div className="space-y-2">
+          <Field
+            label="Headers (comma separated)"
+            value={joinList(block.headers)}
+            onChange={(headers) =>
+              onChange({ ...block, headers: splitList(headers) })
+            }
+          />
+          <TextArea
+            label='Rows - one per line, cells separated by "|", tally:7 for tally marks'
+            value={block.rows
+              .map((row) => row.map(formatCell).join(" | "))
+              .join("\n")}
+            onChange={(rows) =>
+              onChange({
+                ...block,
+                rows: rows
+                  .split("\n")
+                  .filter((line) => line.trim() !== "")
+                  .map((line) => line.split("|").map(parseCell)),
+              })
+            }
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Field
+              label="Caption"
+              value={block.caption || ""}
+              onChange={(caption) =>
+                onChange({ ...block, caption: caption || undefined })
+              }
+            />
+            <Select
+              label="Header style"
+              value={block.headerStyle || "blue"}
+              options={["blue", "gray", "none"]}
+              onChange={(headerStyle) =>
+                onChange({
+                  ...block,
+                  headerStyle: headerStyle as typeof block.headerStyle,
+                })
+              }
+            />
+          </div>
+        </div>
+      );
+
+    case "math":
+      return (
+        <div className="grid grid-cols-3 gap-2">
+          <div className="col-span-2">
+            <Field
+              label="LaTeX"
+              value={block.latex}
+              onChange={(latex) => onChange({ ...block, latex })}
+            />
+          </div>
+          <Select
+            label="Display"
+            value={block.display || "block"}
+            options={["inline", "block"]}
+            onChange={(display) =>
+              onChange({ ...block, display: display as typeof block.display })
+            }
+          />
+        </div>
+      );
+
+    case "grid":
+      return (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField
+              label="Rows"
+              value={block.rows}
+              onChange={(rows) => onChange({ ...block, rows: rows ?? 1 })}
+            />
+            <NumberField
+              label="Columns"
+              value={block.cols}
+              onChange={(cols) => onChange({ ...block, cols: cols ?? 1 })}
+            />
+            <NumberField
+              label="Cell size (px)"
+              value={block.cellSize}
+              onChange={(cellSize) => onChange({ ...block, cellSize })}
+            />
+          </div>
+          <Field
+            label='Filled cells - "row:col" list, e.g. 0:1, 2:3'
+            value={(block.filledCells || [])
+              .map((c) => `${c.row}:${c.col}`)
+              .join(", ")}
+            onChange={(value) =>
+              onChange({
+                ...block,
+                filledCells: splitList(value).map((cell) => {
+                  const [row, col] = cell.split(":").map(Number);
+                  return { row: row || 0, col: col || 0 };
+                }),
+              })
+            }
+          />
+          <Field
+            label='Markers - "x:y:label:icon" list'
+            value={(block.markers || [])
+              .map((m) => [m.x, m.y, m.label || "", m.icon || ""].join(":"))
+              .join(", ")}
+            onChange={(value) =>
+              onChange({
+                ...block,
+                markers: splitList(value).map((marker) => {
+                  const [x, y, label, icon] = marker.split(":");
+                  return {
+                    x: Number(x) || 0,
+                    y: Number(y) || 0,
+                    label: label || undefined,
+                    icon: icon || undefined,
+                  };
+                }),
+              })
+            }
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Field
+              label="X labels (comma separated)"
+              value={joinList(block.labels?.x)}
+              onChange={(x) =>
+                onChange({
+                  ...block,
+                  labels: { ...block.labels, x: splitList(x) },
+                })
+              }
+            />
+            <Field
+              label="Y labels (comma separated)"
+              value={joinList(block.labels?.y)}
+              onChange={(y) =>
+                onChange({
+                  ...block,
+                  labels: { ...block.labels, y: splitList(y) },
+                })
+              }
+            />
+          </div>
+          <Checkbox
+            label="Show axes"
+            checked={!!block.showAxes}
+            onChange={(showAxes) => onChange({ ...block, showAxes })}
+          />
+        </div>
+      );
+
+    case "number-line":
+      return (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField
+              label="Min"
+              value={block.min}
+              onChange={(min) => onChange({ ...block, min: min ?? 0 })}
+            />
+            <NumberField
+              label="Max"
+              value={block.max}
+              onChange={(max) => onChange({ ...block, max: max ?? 10 })}
+            />
+            <NumberField
+              label="Step"
+              value={block.step}
+              onChange={(step) => onChange({ ...block, step })}
+            />
+          </div>
+          <Field
+            label='Markers - "value:label:icon" list'
+            value={(block.markers || [])
+              .map((m) => [m.value, m.label || "", m.icon || ""].join(":"))
+              .join(", ")}
+            onChange={(value) =>
+              onChange({
+                ...block,
+                markers: splitList(value).map((marker) => {
+                  const [val, label, icon] = marker.split(":");
+                  return {
+                    value: Number(val) || 0,
+                    label: label || undefined,
+                    icon: icon || undefined,
+                  };
+                }),
+              })
+            }
+          />
+          <Checkbox
+            label="Show ticks"
+            checked={block.showTicks !== false}
+            onChange={(showTicks) => onChange({ ...block, showTicks })}
+          />
+        </div>
+      );
+
+    case "chart":
+      return (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              label="Chart type"
+              value={block.chartType}
+              options={["bar", "pie", "line", "dot-plot", "pictograph"]}
+              onChange={(chartType) =>
+                onChange({
+                  ...block,
+                  chartType: chartType as typeof block.chartType,
+                })
+              }
+            />
+            <Field
+              label="Title"
+              value={block.title || ""}
+              onChange={(title) =>
+                onChange({ ...block, title: title || undefined })
+              }
+            />
+          </div>
+          <Field
+            label="Labels (comma separated)"
+            value={joinList(block.data.labels)}
+            onChange={(labels) =>
+              onChange({
+                ...block,
+                data: { ...block.data, labels: splitList(labels) },
+              })
+            }
+          />
+          <Field
+            label="Values (comma separated)"
+            value={joinList(block.data.values)}
+            onChange={(values) =>
+              onChange({
+                ...block,
+                data: {
+                  ...block.data,
+                  values: splitList(values).map((v) => Number(v) || 0),
+                },
+              })
+            }
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <Field
+              label="X axis label"
+              value={block.xLabel || ""}
+              onChange={(xLabel) =>
+                onChange({ ...block, xLabel: xLabel || undefined })
+              }
+            />
+            <Field
+              label="Y axis label"
+              value={block.yLabel || ""}
+              onChange={(yLabel) =>
+                onChange({ ...block, yLabel: yLabel || undefined })
+              }
+            />
+          </div>
+        </div>
+      );
+
+    case "shape":
+      return (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Select
+              label="Shape"
+              value={block.shapeType}
+              options={[
+                "rectangle",
+                "square",
+                "triangle",
+                "circle",
+                "polygon",
+                "composite",
+                "custom-svg",
+              ]}
+              onChange={(shapeType) =>
+                onChange({
+                  ...block,
+                  shapeType: shapeType as typeof block.shapeType,
+                })
+              }
+            />
+            <Field
+              label="Colour"
+              value={block.color || ""}
+              onChange={(color) =>
+                onChange({ ...block, color: color || undefined })
+              }
+            />
+          </div>
+          <Field
+            label='Dimensions - "name=value" list, e.g. width=4, height=3'
+            value={joinPairs(block.dimensions)}
+            onChange={(value) =>
+              onChange({
+                ...block,
+                dimensions: Object.fromEntries(
+                  Object.entries(parsePairs(value)).map(([k, v]) => [
+                    k,
+                    Number(v) || 0,
+                  ]),
+                ),
+              })
+            }
+          />
+          <Field
+            label='Labels - "name=text" list'
+            value={joinPairs(block.labels)}
+            onChange={(value) =>
+              onChange({ ...block, labels: parsePairs(value) })
+            }
+          />
+          {block.shapeType === "custom-svg" && (
+            <TextArea
+              label="SVG markup"
+              value={block.svg || ""}
+              onChange={(svg) => onChange({ ...block, svg })}
+            />
+          )}
+        </div>
+      );
+
+    case "tally":
+      return (
+        <NumberField
+          label="Count"
+          value={block.count}
+          onChange={(count) => onChange({ ...block, count: count ?? 0 })}
+        />
+      );
+
+    case "clock":
+      return (
+        <div className="grid grid-cols-3 gap-2">
+          <NumberField
+            label="Hours"
+            value={block.hours}
+            onChange={(hours) => onChange({ ...block, hours: hours ?? 0 })}
+          />
+          <NumberField
+            label="Minutes"
+            value={block.minutes}
+            onChange={(minutes) =>
+              onChange({ ...block, minutes: minutes ?? 0 })
+            }
+          />
+          <Checkbox
+            label="Show digital"
+            checked={!!block.showDigital}
+            onChange={(showDigital) => onChange({ ...block, showDigital })}
+          />
+        </div>
+      );
+
+    case "money":
+      return (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <NumberField
+              label="Amount"
+              value={block.amount}
+              onChange={(amount) => onChange({ ...block, amount: amount ?? 0 })}
+            />
+            <Select
+              label="Currency"
+              value={block.currency || "AUD"}
+              options={["AUD", "USD"]}
+              onChange={(currency) =>
+                onChange({
+                  ...block,
+                  currency: currency as typeof block.currency,
+                })
+              }
+            />
+            <Checkbox
+              label="Show coins"
+              checked={!!block.showCoins}
+              onChange={(showCoins) => onChange({ ...block, showCoins })}
+            />
+          </div>
+          {block.showCoins && (
+            <Field
+              label='Coins - "value=count" list, e.g. 0.5=2, 1=3'
+              value={joinPairs(
+                Object.fromEntries(
+                  (block.coins || []).map((c) => [c.value, c.count]),
+                ),
+              )}
+              onChange={(value) =>
+                onChange({
+                  ...block,
+                  coins: Object.entries(parsePairs(value)).map(([v, c]) => ({
+                    value: Number(v) || 0,
+                    count: Number(c) || 0,
+                  })),
+                })
+              }
+            />
+          )}
+        </div>
+      );
+
+    case "fraction":
+      return (
+        <div className="grid grid-cols-4 gap-2">
+          <NumberField
+            label="Numerator"
+            value={block.numerator}
+            onChange={(numerator) =>
+              onChange({ ...block, numerator: numerator ?? 0 })
+            }
+          />
+          <NumberField
+            label="Denominator"
+            value={block.denominator}
+            onChange={(denominator) =>
+              onChange({ ...block, denominator: denominator ?? 1 })
+            }
+          />
+          <Select
+            label="Display"
+            value={block.display || "numeric"}
+            options={["numeric", "visual-circle", "visual-bar"]}
+            onChange={(display) =>
+              onChange({ ...block, display: display as typeof block.display })
+            }
+          />
+          <NumberField
+            label="Shaded"
+            value={block.shaded}
+            onChange={(shaded) => onChange({ ...block, shaded })}
+          />
+        </div>
+      );
+
+    case "spacer":
+      return (
+        <NumberField
+          label="Height (px)"
+          value={block.height}
+          onChange={(height) => onChange({ ...block, height })}
+        />
+      );
+  }
+};
+
+// ============================================
+// MEDIA UPLOAD
+// ============================================
+
+export const MediaUpload: React.FC<{
+  folder: string;
+  accept: string;
+  current?: string | null;
+  onUploaded: (media: { bucket: string; path: string }) => void;
+}> = ({ folder, accept, current, onUploaded }) => {
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setUploading(true);
+    setError(null);
+    const media = await uploadQuestionMedia(file, folder);
+    setUploading(false);
+    if (media) {
+      onUploaded(media);
+    } else {
+      setError("Upload failed - check you are signed in as an admin");
+    }
+  };
+
+  return (
+    <div>
+      <label className="inline-flex items-center gap-2 px-3 py-2 text-sm bg-gray-100 rounded-lg cursor-pointer hover:bg-gray-200">
+        {uploading ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          <Upload className="w-4 h-4" />
+        )}
+        Upload to question-media
+        <input
+          type="file"
+          accept={accept}
+          className="hidden"
+          disabled={uploading}
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </label>
+      {current && (
+        <span className="ml-2 text-xs text-gray-500 break-all">{current}</span>
+      )}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+// ============================================
+// FORM FIELDS
+// ============================================
+
+const fieldClass =
+  "w-full p-2 border-2 border-gray-200 rounded-lg text-sm outline-none focus:border-indigo-500";
+
+/**
+ * Shows the raw text while the field has focus. The one-line formats are
+ * parsed on every keystroke, so echoing the re-joined value back would eat
+ * a trailing comma or newline before the next item is typed.
+ */
+function useDraft(value: string, onChange: (value: string) => void) {
+  const [draft, setDraft] = useState<string | null>(null);
+  return {
+    value: draft ?? value,
+    onFocus: () => setDraft(value),
+    onBlur: () => setDraft(null),
+    onChange: (
+      e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>,
+    ) => {
+      setDraft(e.target.value);
+      onChange(e.target.value);
+    },
+  };
+}
+
+export const Field: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}> = ({ label, value, onChange, placeholder }) => {
+  const draft = useDraft(value, onChange);
+  return (
+    <label className="block text-xs font-medium text-gray-600">
+      {label}
+      <input
+        type="text"
+        placeholder={placeholder}
+        {...draft}
+        className={`mt-1 ${fieldClass}`}
+      />
+    </label>
+  );
+};
+
+export const TextArea: React.FC<{
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  rows?: number;
+}> = ({ label, value, onChange, rows = 3 }) => {
+  const draft = useDraft(value, onChange);
+  return (
+    <label className="block text-xs font-medium text-gray-600">
+      {label}
+      <textarea
+        rows={rows}
+        {...draft}
+        className={`mt-1 font-mono ${fieldClass}`}
+      />
+    </label>
+  );
+};
+
+export const NumberField: React.FC<{
+  label: string;
+  value?: number | null;
+  onChange: (value: number | undefined) => void;
+}> = ({ label, value, onChange }) => (
+  <label className="block text-xs font-medium text-gray-600">
+    {label}
+    <input
+      type="number"
+      value={value ?? ""}
+      onChange={(e) =>
+        onChange(e.target.value === "" ? undefined : Number(e.target.value))
+      }
+      className={`mt-1 ${fieldClass}`}
+    />
+  </label>
+);
+
+export const Select: React.FC<{
+  label: string;
+  value: string;
+  options: string[];
+  onChange: (value: string) => void;
+  // Display text per option value; defaults to the value itself
+  optionLabels?: Record<string, string>;
+}> = ({ label, value, options, onChange, optionLabels }) => (
+  <label className="block text-xs font-medium text-gray-600">
+    {label}
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className={`mt-1 ${fieldClass}`}
+    >
+      {options.map((option) => (
+        <option key={option} value={option}>
+          {optionLabels?.[option] ?? option}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+export const Checkbox: React.FC<{
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}> = ({ label, checked, onChange }) => (
+  <label className="flex items-center gap-2 text-sm text-gray-700 pt-5">
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+    />
+    {label}
+  </label>
+);
+
+const IconButton: React.FC<{
+  label: string;
+  onClick: () => void;
+  disabled?: boolean;
+  children: React.ReactNode;
+}> = ({ label, onClick, disabled, children }) => (
+  <button
+    type="button"
+    aria-label={label}
+    title={label}
+    onClick={onClick}
+    disabled={disabled}
+    className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+  >
+    {children}
+  </button>
+);
+
+export default ContentBlockEditor;
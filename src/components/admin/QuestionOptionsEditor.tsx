@@ -0,0 +1,357 @@
+// src/components/admin/QuestionOptionsEditor.tsx
+// Options, match targets and the answer key for the question editor. The
+// key is picked with the same widgets students answer with, so it is always
+// stored in the format grade_question() expects.
+
+import React, { useState } from "react";
+import { Plus, Trash2, Layers } from "lucide-react";
+import ContentBlockEditor, {
+  Field,
+  NumberField,
+  Select,
+} from "./ContentBlockEditor";
+import { QuestionAnswerInput } from "../exam/QuestionAnswerInput";
+import { extractBlankIds, serializeAnswerMap } from "../../lib/questionAnswers";
+import { OPTION_LETTERS } from "../../lib/questionContent";
+import { WRITING_CRITERIA, WRITING_MAX_SCORE } from "../../lib/writing";
+import {
+  SPELLING_PATTERN_LABELS,
+  getSpellingPatternLabel,
+} from "../../lib/spelling";
+import type { AdminQuestion } from "../../lib/admin";
+import type { QuestionOption } from "../../types/question";
+
+// ============================================
+// HELPERS
+// ============================================
+
+const OPTION_TYPES = [
+  "multiple-choice",
+  "multiple-select",
+  "drag-drop",
+  "matching",
+];
+
+/**
+ * Blank ids from the plain question text and any text blocks
+ */
+export function getAuthoredBlankIds(question: AdminQuestion): string[] {
+  const texts = [
+    question.question_text,
+    ...question.content.map((block) =>
+      block.type === "text" ? block.content : "",
+    ),
+  ];
+  return [...new Set(texts.flatMap((text) => extractBlankIds(text)))];
+}
+
+// ============================================
+// MAIN EDITOR
+// ============================================
+
+interface QuestionOptionsEditorProps {
+  question: AdminQuestion;
+  onChange: (patch: Partial<AdminQuestion>) => void;
+  mediaFolder: string;
+}
+
+export const QuestionOptionsEditor: React.FC<QuestionOptionsEditorProps> = ({
+  question,
+  onChange,
+  mediaFolder,
+}) => {
+  const type = question.question_type;
+
+  return (
+    <div className="space-y-6">
+      {OPTION_TYPES.includes(type) && (
+        <OptionListEditor
+          title={type === "matching" ? "Items to match" : "Options"}
+          options={question.options_data}
+          idFor={(i) => OPTION_LETTERS[i] || String(i + 1)}
+          onChange={(options_data) => onChange({ options_data })}
+          mediaFolder={mediaFolder}
+        />
+      )}
+
+      {type === "matching" && (
+        <OptionListEditor
+          title="Match targets"
+          options={question.match_targets}
+          idFor={(i) => String(i + 1)}
+          onChange={(match_targets) => onChange({ match_targets })}
+          mediaFolder={mediaFolder}
+        />
+      )}
+
+      <div>
+        <h3 className="font-bold text-gray-900 mb-2">Correct answer</h3>
+        <AnswerKeyEditor question={question} onChange={onChange} />
+      </div>
+    </div>
+  );
+};
+
+// ============================================
+// OPTIONS
+// ============================================
+
+const OptionListEditor: React.FC<{
+  title: string;
+  options: QuestionOption[];
+  idFor: (index: number) => string;
+  onChange: (options: QuestionOption[]) => void;
+  mediaFolder: string;
+}> = ({ title, options, idFor, onChange, mediaFolder }) => {
+  const [richOption, setRichOption] = useState<string | null>(null);
+
+  const update = (index: number, patch: Partial<QuestionOption>) =>
+    onChange(options.map((o, i) => (i === index ? { ...o, ...patch } : o)));
+
+  // Ids follow position so answers keep using A, B, C... after a removal
+  const remove = (index: number) =>
+    onChange(
+      options
+        .filter((_, i) => i !== index)
+        .map((o, i) => ({ ...o, id: idFor(i) })),
+    );
+
+  return (
+    <div>
+      <h3 className="font-bold text-gray-900 mb-2">{title}</h3>
+      <div className="space-y-2">
+        {options.map((option, index) => (
+          <div
+            key={option.id}
+            className="border-2 border-gray-200 rounded-lg p-2"
+          >
+            <div className="flex items-center gap-2">
+              <span className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center font-bold text-sm shrink-0">
+                {option.id}
+              </span>
+              <input
+                type="text"
+                value={option.text || ""}
+                onChange={(e) => update(index, { text: e.target.value })}
+                placeholder="Option text"
+                className="flex-1 p-2 border-2 border-gray-200 rounded-lg text-sm outline-none focus:border-indigo-500"
+              />
+              <button
+                type="button"
+                title="Rich content"
+                onClick={() =>
+                  setRichOption(richOption === option.id ? null : option.id)
+                }
+                className={`p-2 rounded-lg ${option.content?.length ? "text-indigo-600" : "text-gray-400"} hover:bg-gray-100`}
+              >
+                <Layers className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                title="Remove option"
+                onClick={() => remove(index)}
+                className="p-2 rounded-lg text-red-500 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            {richOption === option.id && (
+              <div className="mt-2 pl-10">
+                <ContentBlockEditor
+                  blocks={option.content || []}
+                  onChange={(content) =>
+                    update(index, {
+                      content: content.length ? content : undefined,
+                    })
+                  }
+                  mediaFolder={mediaFolder}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <button
+        type="button"
+        onClick={() =>
+          onChange([...options, { id: idFor(options.length), text: "" }])
+        }
+        className="mt-2 flex items-center gap-1 px-3 py-2 text-sm bg-indigo-50 text-indigo-700 rounded-lg hover:bg-indigo-100"
+      >
+        <Plus className="w-4 h-4" /> Add
+      </button>
+    </div>
+  );
+};
+
+// ============================================
+// ANSWER KEY
+// ============================================
+
+const AnswerKeyEditor: React.FC<{
+  question: AdminQuestion;
+  onChange: (patch: Partial<AdminQuestion>) => void;
+}> = ({ question, onChange }) => {
+  switch (question.question_type) {
+    case "short-answer":
+      return (
+        <Field
+          label="Accepted answer (case and spacing are ignored)"
+          value={question.correct_answer}
+          onChange={(correct_answer) => onChange({ correct_answer })}
+        />
+      );
+
+    case "numeric":
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <Field
+            label="Answer"
+            value={question.correct_answer}
+            onChange={(correct_answer) => onChange({ correct_answer })}
+          />
+          <NumberField
+            label="Tolerance (±)"
+            value={question.numeric_tolerance}
+            onChange={(tolerance) =>
+              onChange({ numeric_tolerance: tolerance ?? null })
+            }
+          />
+        </div>
+      );
+
+    case "fill-in-blank":
+      return <BlanksEditor question={question} onChange={onChange} />;
+
+    case "dictation":
+      return <DictationEditor question={question} onChange={onChange} />;
+
+    case "extended-response":
+      return (
+        <p className="text-sm text-gray-600">
+          No answer key - a parent or teacher marks the response against the{" "}
+          {WRITING_CRITERIA.length} NAPLAN writing criteria (out of{" "}
+          {WRITING_MAX_SCORE}) from the results page. The exam's time limit
+          times the prompt.
+        </p>
+      );
+
+    default:
+      return (
+        <div>
+          {question.question_type === "drag-drop" && (
+            <p className="text-xs text-gray-500 mb-2">
+              Arrange the options in the correct order.
+            </p>
+          )}
+          <QuestionAnswerInput
+            question={{ ...question, id: question.id || "new" }}
+            value={question.correct_answer}
+            onChange={(correct_answer) => onChange({ correct_answer })}
+          />
+        </div>
+      );
+  }
+};
+
+const DictationEditor: React.FC<{
+  question: AdminQuestion;
+  onChange: (patch: Partial<AdminQuestion>) => void;
+}> = ({ question, onChange }) => {
+  const pattern = question.spelling_pattern || "";
+  // Keep a pattern typed in SQL selectable alongside the suggested ones
+  const patterns = [
+    "",
+    ...Object.keys(SPELLING_PATTERN_LABELS),
+    ...(pattern && !SPELLING_PATTERN_LABELS[pattern] ? [pattern] : []),
+  ];
+
+  return (
+    <div className="space-y-2">
+      <Field
+        label="Word (graded exactly; capitals only count if the word has them)"
+        value={question.correct_answer}
+        onChange={(correct_answer) => onChange({ correct_answer })}
+      />
+      <Field
+        label="Spoken prompt - read by text-to-speech when there is no audio recording"
+        value={question.dictation_text || ""}
+        placeholder="beautiful. The garden looked beautiful in spring. beautiful."
+        onChange={(text) => onChange({ dictation_text: text || null })}
+      />
+      <Select
+        label="Spelling pattern"
+        value={pattern}
+        options={patterns}
+        optionLabels={{
+          "": "None",
+          ...Object.fromEntries(
+            patterns.slice(1).map((p) => [p, getSpellingPatternLabel(p)]),
+          ),
+        }}
+        onChange={(value) => onChange({ spelling_pattern: value || null })}
+      />
+    </div>
+  );
+};
+
+const BlanksEditor: React.FC<{
+  question: AdminQuestion;
+  onChange: (patch: Partial<AdminQuestion>) => void;
+}> = ({ question, onChange }) => {
+  const blankIds = getAuthoredBlankIds(question);
+
+  if (blankIds.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        Add {"{{blank:id}}"} to the question text to create blanks.
+      </p>
+    );
+  }
+
+  const blanks = blankIds.map(
+    (id) => question.blanks.find((b) => b.id === id) || { id, correct: "" },
+  );
+
+  const update = (id: string, patch: Partial<AdminQuestion["blanks"][0]>) => {
+    const next = blanks.map((b) => (b.id === id ? { ...b, ...patch } : b));
+    onChange({
+      blanks: next,
+      correct_answer: serializeAnswerMap(
+        Object.fromEntries(next.map((b) => [b.id, b.correct])),
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {blanks.map((blank) => (
+        <div key={blank.id} className="grid grid-cols-3 gap-2 items-end">
+          <span className="text-sm font-mono text-gray-600 pb-2">
+            {blank.id}
+          </span>
+          <Field
+            label="Correct"
+            value={blank.correct}
+            onChange={(correct) => update(blank.id, { correct })}
+          />
+          <Field
+            label="Also accept (comma separated)"
+            value={(blank.accept || []).join(", ")}
+            onChange={(value) => {
+              const accept = value
+                .split(",")
+                .map((v) => v.trim())
+                .filter(Boolean);
+              update(blank.id, {
+                accept: accept.length ? accept : undefined,
+              });
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QuestionOptionsEditor;
@@ -0,0 +1,173 @@
+// src/components/admin/TestletEditor.tsx
+// One testlet of an adaptive exam - its stage, level, weight and the
+// routing rules that pick the next testlet from the running score.
+// Questions join a testlet from the question editor.
+
+import React from "react";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { NumberField, Select, Field } from "./ContentBlockEditor";
+import { TESTLET_LEVEL_LABELS } from "../../lib/testlets";
+import type { AdminTestlet } from "../../lib/admin";
+import type { TestletLevel, TestletRoute } from "../../types/question";
+
+interface TestletEditorProps {
+  testlet: AdminTestlet;
+  // Saved testlets of the exam, for the routing targets
+  testlets: AdminTestlet[];
+  questionCount: number;
+  isSaving?: boolean;
+  onChange: (testlet: AdminTestlet) => void;
+  onSave: () => void;
+  onDelete: () => void;
+}
+
+export function getTestletName(testlet: AdminTestlet): string {
+  return `${testlet.label || `Stage ${testlet.stage}`} (${TESTLET_LEVEL_LABELS[testlet.level]})`;
+}
+
+export const TestletEditor: React.FC<TestletEditorProps> = ({
+  testlet,
+  testlets,
+  questionCount,
+  isSaving = false,
+  onChange,
+  onSave,
+  onDelete,
+}) => {
+  const update = (patch: Partial<AdminTestlet>) =>
+    onChange({ ...testlet, ...patch });
+
+  // Routing only moves forward, so a path can't loop
+  const targets = testlets.filter((t) => t.id && t.stage > testlet.stage);
+
+  const updateRoute = (index: number, patch: Partial<TestletRoute>) =>
+    update({
+      routing: testlet.routing.map((route, i) =>
+        i === index ? { ...route, ...patch } : route,
+      ),
+    });
+
+  const addRoute = () =>
+    update({
+      routing: [
+        ...testlet.routing,
+        { min_percent: 0, next: (targets[0]?.id as string) || "" },
+      ],
+    });
+
+  const removeRoute = (index: number) =>
+    update({ routing: testlet.routing.filter((_, i) => i !== index) });
+
+  return (
+    <div className="border-2 border-gray-100 rounded-xl p-4 space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <NumberField
+          label="Stage"
+          value={testlet.stage}
+          onChange={(stage) => update({ stage: Math.max(1, stage ?? 1) })}
+        />
+        <Field
+          label="Label"
+          value={testlet.label}
+          placeholder={`Stage ${testlet.stage}`}
+          onChange={(label) => update({ label })}
+        />
+        <Select
+          label="Level"
+          value={testlet.level}
+          options={Object.keys(TESTLET_LEVEL_LABELS)}
+          optionLabels={TESTLET_LEVEL_LABELS}
+          onChange={(level) => update({ level: level as TestletLevel })}
+        />
+        <NumberField
+          label="Weight (points multiplier)"
+          value={testlet.weight}
+          onChange={(weight) => update({ weight: weight ?? 1 })}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-gray-600">
+          Next testlet - the highest minimum the running score reaches wins
+          (below them all, the lowest)
+        </p>
+        {testlet.routing.map((route, index) => (
+          <div key={index} className="flex items-end gap-2">
+            <div className="w-40">
+              <NumberField
+                label="Score at least (%)"
+                value={route.min_percent}
+                onChange={(min_percent) =>
+                  updateRoute(index, { min_percent: min_percent ?? 0 })
+                }
+              />
+            </div>
+            <div className="flex-1">
+              <Select
+                label="Go to"
+                value={route.next}
+                options={["", ...targets.map((t) => t.id as string)]}
+                optionLabels={Object.fromEntries([
+                  ["", "Choose a testlet"],
+                  ...targets.map((t) => [t.id as string, getTestletName(t)]),
+                ])}
+                onChange={(next) => updateRoute(index, { next })}
+              />
+            </div>
+            <button
+              type="button"
+              aria-label="Remove rule"
+              onClick={() => removeRoute(index)}
+              className="p-2 rounded hover:bg-red-50"
+            >
+              <Trash2 className="w-4 h-4 text-red-500" />
+            </button>
+          </div>
+        ))}
+        {testlet.routing.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No rules - the exam ends after this testlet.
+          </p>
+        )}
+        <button
+          type="button"
+          onClick={addRoute}
+          disabled={targets.length === 0}
+          className="flex items-center gap-1 text-sm text-indigo-600 font-semibold disabled:opacity-40"
+        >
+          <Plus className="w-4 h-4" /> Add rule
+        </button>
+      </div>
+
+      <div className="flex items-center justify-between pt-2 border-t">
+        <span className="text-xs text-gray-500">
+          {questionCount} {questionCount === 1 ? "question" : "questions"}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onDelete}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-red-600 rounded-lg hover:bg-red-50"
+          >
+            <Trash2 className="w-4 h-4" /> Delete
+          </button>
+          <button
+            type="button"
+            onClick={onSave}
+            disabled={isSaving}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isSaving ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              <Save className="w-4 h-4" />
+            )}
+            Save testlet
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TestletEditor;
@@ -0,0 +1,484 @@
+// src/components/exam/QuestionAnswerInput.tsx
+// Answer widgets for every question type. Each widget reads and writes the
+// serialised answer string described in lib/questionAnswers.ts
+
+import React, { useState } from "react";
+import {
+  CheckCircle,
+  ChevronUp,
+  ChevronDown,
+  GripVertical,
+} from "lucide-react";
+import { QuestionOptionContent } from "./QuestionContentRenderer";
+import { WritingEditor } from "./WritingEditor";
+import { ReadAloudButton } from "./ReadAloudButton";
+import {
+  extractBlankIds,
+  normalizeQuestionType,
+  parseAnswerList,
+  parseAnswerMap,
+  serializeAnswerList,
+  serializeAnswerMap,
+} from "../../lib/questionAnswers";
+import {
+  getMatchTargets,
+  getQuestionOptions,
+  hasContentBlocks,
+} from "../../lib/questionContent";
+import type { QuestionOption } from "../../types/question";
+
+// ============================================
+// MAIN INPUT
+// ============================================
+
+export interface AnswerableQuestion {
+  id: string;
+  question_type: string;
+  question_text: string;
+  options?: unknown;
+  options_data?: unknown;
+  match_targets?: unknown;
+  content?: unknown;
+  // dictation prompt: the recording is preferred over text-to-speech
+  audio_path?: string | null;
+  dictation_text?: string | null;
+}
+
+interface QuestionAnswerInputProps {
+  question: AnswerableQuestion;
+  value: string;
+  onChange: (value: string) => void;
+  highContrast?: boolean;
+}
+
+export const QuestionAnswerInput: React.FC<QuestionAnswerInputProps> = ({
+  question,
+  value,
+  onChange,
+  highContrast = false,
+}) => {
+  const options = getQuestionOptions(question);
+
+  switch (normalizeQuestionType(question.question_type)) {
+    case "multiple-select":
+      return (
+        <OptionList
+          options={options}
+          selected={parseAnswerList(value)}
+          multiple
+          onToggle={(id) => {
+            const current = parseAnswerList(value);
+            const next = current.includes(id)
+              ? current.filter((v) => v !== id)
+              : [...current, id];
+            // Keep the option order so the stored answer is stable
+            onChange(
+              serializeAnswerList(
+                options.map((o) => o.id).filter((o) => next.includes(o)),
+              ),
+            );
+          }}
+          highContrast={highContrast}
+        />
+      );
+
+    case "short-answer":
+    case "numeric":
+      return (
+        <TextAnswer
+          value={value}
+          numeric={normalizeQuestionType(question.question_type) === "numeric"}
+          onChange={onChange}
+          highContrast={highContrast}
+        />
+      );
+
+    case "fill-in-blank":
+      // Blanks inside rich content are rendered in place by the page
+      if (hasContentBlocks(question.content)) return null;
+      return (
+        <BlankList
+          blankIds={extractBlankIds(question.question_text)}
+          value={value}
+          onChange={onChange}
+          highContrast={highContrast}
+        />
+      );
+
+    case "drag-drop":
+      return (
+        <OrderList
+          options={options}
+          value={value}
+          onChange={onChange}
+          highContrast={highContrast}
+        />
+      );
+
+    case "matching":
+      return (
+        <MatchingList
+          options={options}
+          targets={getMatchTargets(question)}
+          value={value}
+          onChange={onChange}
+          highContrast={highContrast}
+        />
+      );
+
+    case "dictation":
+      return (
+        <DictationAnswer
+          audioPath={question.audio_path}
+          promptText={question.dictation_text}
+          value={value}
+          onChange={onChange}
+          highContrast={highContrast}
+        />
+      );
+
+    case "extended-response":
+      return (
+        <WritingEditor
+          value={value}
+          onChange={onChange}
+          highContrast={highContrast}
+        />
+      );
+
+    default:
+      return (
+        <OptionList
+          options={options}
+          selected={value ? [value] : []}
+          onToggle={(id) => onChange(id)}
+          highContrast={highContrast}
+        />
+      );
+  }
+};
+
+// ============================================
+// MULTIPLE CHOICE / MULTIPLE SELECT
+// ============================================
+
+const OptionList: React.FC<{
+  options: QuestionOption[];
+  selected: string[];
+  multiple?: boolean;
+  onToggle: (id: string) => void;
+  highContrast: boolean;
+}> = ({ options, selected, multiple = false, onToggle, highContrast }) => (
+  <div className="grid grid-cols-1 lg:grid-cols-2 gap-2.5">
+    {options.map((opt) => {
+      const sel = selected.includes(opt.id);
+      return (
+        <button
+          key={opt.id}
+          onClick={() => onToggle(opt.id)}
+          role={multiple ? "checkbox" : "radio"}
+          aria-checked={sel}
+          className={`p-3 rounded-lg border-2 text-left transition flex items-start gap-2.5 ${
+            sel
+              ? highContrast
+                ? "border-indigo-400 bg-indigo-900/50"
+                : "border-indigo-500 bg-indigo-50"
+              : highContrast
+                ? "border-gray-700 bg-gray-800"
+                : "border-gray-200 hover:border-indigo-300"
+          }`}
+        >
+          <span
+            className={`w-8 h-8 ${multiple ? "rounded-md" : "rounded-full"} flex items-center justify-center font-bold text-sm shrink-0 ${sel ? "bg-indigo-600 text-white" : highContrast ? "bg-gray-700 text-gray-300" : "bg-gray-100"}`}
+          >
+            {opt.id}
+          </span>
+          <QuestionOptionContent
+            option={opt}
+            className={`flex-1 pt-0.5 ${sel ? (highContrast ? "text-indigo-300" : "text-indigo-700") : highContrast ? "text-gray-300" : "text-gray-700"}`}
+          />
+          {sel && <CheckCircle className="w-5 h-5 text-indigo-500 shrink-0" />}
+        </button>
+      );
+    })}
+  </div>
+);
+
+// ============================================
+// SHORT ANSWER / NUMERIC
+// ============================================
+
+const TextAnswer: React.FC<{
+  value: string;
+  numeric: boolean;
+  onChange: (value: string) => void;
+  highContrast: boolean;
+}> = ({ value, numeric, onChange, highContrast }) => (
+  <div className="space-y-2">
+    <label
+      className={`block ${highContrast ? "text-gray-300" : "text-gray-700"} font-medium text-sm`}
+    >
+      Your Answer:
+    </label>
+    <input
+      type="text"
+      inputMode={numeric ? "decimal" : "text"}
+      value={value}
+      onChange={(e) =>
+        onChange(
+          numeric ? e.target.value.replace(/[^\d.,\-$ ]/g, "") : e.target.value,
+        )
+      }
+      placeholder={numeric ? "Type a number..." : "Type here..."}
+      className={`w-full max-w-md p-3 border-2 rounded-lg outline-none ${highContrast ? "bg-gray-800 border-gray-600 text-white" : "border-gray-200 focus:border-indigo-500"}`}
+    />
+    {value && (
+      <p className="text-green-600 text-sm flex items-center gap-1">
+        <CheckCircle className="w-4 h-4" />
+        Saved
+      </p>
+    )}
+  </div>
+);
+
+// ============================================
+// DICTATION
+// ============================================
+
+const DictationAnswer: React.FC<{
+  audioPath?: string | null;
+  promptText?: string | null;
+  value: string;
+  onChange: (value: string) => void;
+  highContrast: boolean;
+}> = ({ audioPath, promptText, value, onChange, highContrast }) => (
+  <div className="space-y-3">
+    {audioPath || promptText ? (
+      <ReadAloudButton
+        audioPath={audioPath}
+        plainText={promptText || undefined}
+        size="lg"
+        variant="primary"
+      />
+    ) : (
+      <p className="text-sm text-red-600">
+        This word has no recording to play.
+      </p>
+    )}
+    <label
+      className={`block ${highContrast ? "text-gray-300" : "text-gray-700"} font-medium text-sm`}
+    >
+      Write the word you hear:
+    </label>
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      // The browser must not fix the spelling
+      spellCheck={false}
+      autoComplete="off"
+      autoCorrect="off"
+      autoCapitalize="off"
+      className={`w-full max-w-xs p-3 border-2 rounded-lg outline-none text-lg ${highContrast ? "bg-gray-800 border-gray-600 text-white" : "border-gray-200 focus:border-indigo-500"}`}
+    />
+  </div>
+);
+
+// ============================================
+// FILL IN THE BLANK
+// ============================================
+
+interface BlankInputProps {
+  blankId: string;
+  value: string;
+  onChange: (value: string) => void;
+  highContrast?: boolean;
+}
+
+/**
+ * A single inline blank - also used by the page to render blanks inside
+ * rich content via QuestionContentRenderer's renderBlank
+ */
+export const BlankInput: React.FC<BlankInputProps> = ({
+  blankId,
+  value,
+  onChange,
+  highContrast = false,
+}) => (
+  <input
+    type="text"
+    aria-label={`Blank ${blankId}`}
+    value={parseAnswerMap(value)[blankId] || ""}
+    onChange={(e) =>
+      onChange(
+        serializeAnswerMap({
+          ...parseAnswerMap(value),
+          [blankId]: e.target.value,
+        }),
+      )
+    }
+    className={`inline-block w-28 mx-1 px-2 py-0.5 border-b-2 rounded-sm outline-none text-center ${highContrast ? "bg-gray-800 border-gray-500 text-white" : "bg-indigo-50 border-indigo-400 focus:border-indigo-600"}`}
+  />
+);
+
+const BlankList: React.FC<{
+  blankIds: string[];
+  value: string;
+  onChange: (value: string) => void;
+  highContrast: boolean;
+}> = ({ blankIds, value, onChange, highContrast }) => (
+  <div className="space-y-2">
+    {blankIds.map((blankId, i) => (
+      <label
+        key={blankId}
+        className={`flex items-center gap-2 text-sm ${highContrast ? "text-gray-300" : "text-gray-700"}`}
+      >
+        <span className="font-medium w-16">Blank {i + 1}</span>
+        <BlankInput
+          blankId={blankId}
+          value={value}
+          onChange={onChange}
+          highContrast={highContrast}
+        />
+      </label>
+    ))}
+  </div>
+);
+
+// ============================================
+// DRAG AND DROP (ORDERING)
+// ============================================
+
+const OrderList: React.FC<{
+  options: QuestionOption[];
+  value: string;
+  onChange: (value: string) => void;
+  highContrast: boolean;
+}> = ({ options, value, onChange, highContrast }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  // Until the student moves something the options show in authored order
+  const saved = parseAnswerList(value);
+  const order =
+    saved.length === options.length &&
+    options.every((o) => saved.includes(o.id))
+      ? saved
+      : options.map((o) => o.id);
+  const byId = new Map(options.map((o) => [o.id, o]));
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= order.length || from === to) return;
+    const next = [...order];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(serializeAnswerList(next));
+  };
+
+  return (
+    <div className="space-y-2">
+      {order.map((id, i) => {
+        const opt = byId.get(id);
+        if (!opt) return null;
+        return (
+          <div
+            key={id}
+            draggable
+            onDragStart={() => setDragIndex(i)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => {
+              if (dragIndex !== null) move(dragIndex, i);
+              setDragIndex(null);
+            }}
+            onDragEnd={() => setDragIndex(null)}
+            className={`p-3 rounded-lg border-2 flex items-center gap-2.5 cursor-move transition ${
+              dragIndex === i
+                ? "border-indigo-500 opacity-50"
+                : highContrast
+                  ? "border-gray-700 bg-gray-800 text-gray-300"
+                  : "border-gray-200 bg-white"
+            }`}
+          >
+            <GripVertical className="w-4 h-4 text-gray-400 shrink-0" />
+            <span className="w-6 text-sm font-bold text-gray-400">{i + 1}</span>
+            <QuestionOptionContent option={opt} className="flex-1" />
+            <div className="flex flex-col">
+              <button
+                onClick={() => move(i, i - 1)}
+                disabled={i === 0}
+                aria-label="Move up"
+                className="p-0.5 text-gray-500 disabled:opacity-30"
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => move(i, i + 1)}
+                disabled={i === order.length - 1}
+                aria-label="Move down"
+                className="p-0.5 text-gray-500 disabled:opacity-30"
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      {!value && (
+        <button
+          onClick={() => onChange(serializeAnswerList(order))}
+          className="text-sm text-indigo-600 font-medium hover:underline"
+        >
+          Keep this order
+        </button>
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// MATCHING
+// ============================================
+
+const MatchingList: React.FC<{
+  options: QuestionOption[];
+  targets: QuestionOption[];
+  value: string;
+  onChange: (value: string) => void;
+  highContrast: boolean;
+}> = ({ options, targets, value, onChange, highContrast }) => {
+  const pairs = parseAnswerMap(value);
+
+  return (
+    <div className="space-y-2">
+      {options.map((opt) => (
+        <div
+          key={opt.id}
+          className={`p-3 rounded-lg border-2 flex flex-col sm:flex-row sm:items-center gap-2.5 ${
+            highContrast
+              ? "border-gray-700 bg-gray-800 text-gray-300"
+              : "border-gray-200"
+          }`}
+        >
+          <QuestionOptionContent option={opt} className="flex-1" />
+          <select
+            value={pairs[opt.id] || ""}
+            onChange={(e) =>
+              onChange(
+                serializeAnswerMap({ ...pairs, [opt.id]: e.target.value }),
+              )
+            }
+            className={`sm:w-56 p-2 border-2 rounded-lg outline-none ${highContrast ? "bg-gray-900 border-gray-600 text-white" : "border-gray-200 focus:border-indigo-500"}`}
+          >
+            <option value="">Choose a match...</option>
+            {targets.map((target) => (
+              <option key={target.id} value={target.id}>
+                {target.text?.replace(/<[^>]*>/g, "") || target.id}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QuestionAnswerInput;
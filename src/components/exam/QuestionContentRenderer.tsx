@@ -2,10 +2,15 @@
 // Enhanced renderer with signed URL support and proper image handling
 // Supports: text, images, tables, math, grids, charts, shapes, etc.
 
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { motion } from "framer-motion";
-import { ImageOff, Loader2 } from "lucide-react";
+import { AlertTriangle, ImageOff, Loader2 } from "lucide-react";
 import { resolveMediaUrl } from "../../lib/mediaStorage";
+import { latexToMathML } from "../../lib/latexMath";
+import {
+  parseContentBlock,
+  type ContentIssue,
+} from "../../lib/questionSchemas";
 import type {
   ContentBlock,
   TextBlock,
@@ -21,43 +26,160 @@ import type {
   MoneyBlock,
   FractionBlock,
   TallyData,
+  QuestionOption,
 } from "../../types/question";
 
 // ============================================
 // MAIN RENDERER
 // ============================================
 
+// Text may contain {{blank:<id>}} markers for fill-in-blank questions
+type RenderBlank = (blankId: string) => React.ReactNode;
+
 interface QuestionContentRendererProps {
   blocks: ContentBlock[];
   className?: string;
+  renderBlank?: RenderBlank;
 }
 
 export const QuestionContentRenderer: React.FC<
   QuestionContentRendererProps
-> = ({ blocks, className = "" }) => {
+> = ({ blocks, className = "", renderBlank }) => {
   return (
     <div className={`question-content space-y-3 ${className}`}>
       {blocks.map((block, index) => (
-        <ContentBlockRenderer key={block.id || index} block={block} />
+        <BlockErrorBoundary key={block?.id || index}>
+          <ValidatedBlock block={block} renderBlank={renderBlank} />
+        </BlockErrorBoundary>
       ))}
     </div>
   );
 };
 
+// ============================================
+// OPTION RENDERER
+// ============================================
+// Rich options render their content blocks; legacy options fall back to
+// the (HTML) text plus an optional image.
+
+interface QuestionOptionContentProps {
+  option: QuestionOption;
+  className?: string;
+}
+
+export const QuestionOptionContent: React.FC<QuestionOptionContentProps> = ({
+  option,
+  className = "",
+}) => {
+  if (option.content && option.content.length > 0) {
+    return (
+      <QuestionContentRenderer blocks={option.content} className={className} />
+    );
+  }
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {option.imageUrl && (
+        <ImageBlockRenderer
+          block={{
+            id: `${option.id}-image`,
+            type: "image",
+            url: option.imageUrl,
+            alt: `Option ${option.id}`,
+            alignment: "left",
+          }}
+        />
+      )}
+      {option.text && (
+        <span dangerouslySetInnerHTML={{ __html: option.text }} />
+      )}
+    </div>
+  );
+};
+
+// ============================================
+// BLOCK VALIDATION AND ERROR BOUNDARY
+// ============================================
+// A malformed block (bad seed JSON) or a renderer crash only replaces that
+// block with a notice - the rest of the question still renders.
+
+const ValidatedBlock: React.FC<{
+  block: ContentBlock;
+  renderBlank?: RenderBlank;
+}> = ({ block, renderBlank }) => {
+  const parsed = useMemo(() => parseContentBlock(block), [block]);
+
+  if (!parsed.block) {
+    return <InvalidBlockNotice issues={parsed.issues} />;
+  }
+  return (
+    <ContentBlockRenderer block={parsed.block} renderBlank={renderBlank} />
+  );
+};
+
+class BlockErrorBoundary extends React.Component<
+  { children: React.ReactNode },
+  { error: Error | null }
+> {
+  state: { error: Error | null } = { error: null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    console.error("Error rendering content block:", error, info.componentStack);
+  }
+
+  render() {
+    if (this.state.error) {
+      return (
+        <InvalidBlockNotice
+          issues={[{ path: "", message: this.state.error.message }]}
+        />
+      );
+    }
+    return this.props.children;
+  }
+}
+
+const InvalidBlockNotice: React.FC<{ issues: ContentIssue[] }> = ({
+  issues,
+}) => (
+  <div className="flex items-start gap-2 p-3 rounded-lg border-2 border-dashed border-amber-300 bg-amber-50 text-sm text-amber-800">
+    <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+    <div>
+      <p>This part of the question couldn't be displayed.</p>
+      {import.meta.env.DEV && (
+        <ul className="mt-1 text-xs font-mono">
+          {issues.map((issue, i) => (
+            <li key={i}>
+              {issue.path && `${issue.path}: `}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  </div>
+);
+
 // ============================================
 // BLOCK RENDERER (SWITCH)
 // ============================================
 
 interface ContentBlockRendererProps {
   block: ContentBlock;
+  renderBlank?: RenderBlank;
 }
 
 const ContentBlockRenderer: React.FC<ContentBlockRendererProps> = ({
   block,
+  renderBlank,
 }) => {
   switch (block.type) {
     case "text":
-      return <TextBlockRenderer block={block} />;
+      return <TextBlockRenderer block={block} renderBlank={renderBlank} />;
     case "image":
       return <ImageBlockRenderer block={block} />;
     case "table":
@@ -91,7 +213,10 @@ const ContentBlockRenderer: React.FC<ContentBlockRendererProps> = ({
 // TEXT BLOCK
 // ============================================
 
-const TextBlockRenderer: React.FC<{ block: TextBlock }> = ({ block }) => {
+const TextBlockRenderer: React.FC<{
+  block: TextBlock;
+  renderBlank?: RenderBlank;
+}> = ({ block, renderBlank }) => {
   const alignmentClass = {
     left: "text-left",
     center: "text-center",
@@ -105,9 +230,28 @@ const TextBlockRenderer: React.FC<{ block: TextBlock }> = ({ block }) => {
     heading: "text-gray-900 font-bold text-lg",
   }[block.style || "normal"];
 
+  // split() with a capture group alternates text and blank ids
+  const parts = block.content.split(/\{\{blank:([\w-]+)\}\}/);
+
   return (
     <p className={`${styleClass} ${alignmentClass} leading-relaxed`}>
-      {block.content}
+      {parts.length === 1
+        ? block.content
+        : parts.map((part, i) =>
+            i % 2 === 0 ? (
+              <React.Fragment key={i}>{part}</React.Fragment>
+            ) : (
+              <React.Fragment key={i}>
+                {renderBlank ? (
+                  renderBlank(part)
+                ) : (
+                  <span className="inline-block min-w-[4rem] border-b-2 border-gray-400 mx-1">
+                    &nbsp;
+                  </span>
+                )}
+              </React.Fragment>
+            ),
+          )}
     </p>
   );
 };
@@ -116,15 +260,7 @@ const TextBlockRenderer: React.FC<{ block: TextBlock }> = ({ block }) => {
 // IMAGE BLOCK (Enhanced with signed URLs)
 // ============================================
 
-interface EnhancedImageBlock extends Omit<ImageBlock, "url"> {
-  url?: string;
-  bucket?: string;
-  path?: string;
-}
-
-const ImageBlockRenderer: React.FC<{ block: EnhancedImageBlock }> = ({
-  block,
-}) => {
+const ImageBlockRenderer: React.FC<{ block: ImageBlock }> = ({ block }) => {
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState(false);
@@ -330,33 +466,26 @@ const TallyBlockRenderer: React.FC<{ block: TallyBlock }> = ({ block }) => {
 // ============================================
 
 const MathBlockRenderer: React.FC<{ block: MathBlock }> = ({ block }) => {
-  const renderBasicMath = (latex: string): string => {
-    return latex
-      .replace(
-        /\\frac\{(\d+)\}\{(\d+)\}/g,
-        '<span class="inline-flex flex-col items-center mx-1 text-center"><span class="border-b border-gray-800 px-1">$1</span><span class="px-1">$2</span></span>',
-      )
-      .replace(/\\times/g, "×")
-      .replace(/\\div/g, "÷")
-      .replace(/\\pm/g, "±")
-      .replace(/\\sqrt\{([^}]+)\}/g, "√$1")
-      .replace(/\^(\d+)/g, "<sup>$1</sup>")
-      .replace(/_(\d+)/g, "<sub>$1</sub>");
-  };
+  const display = block.display === "block" ? "block" : "inline";
+  // Output is escaped MathML built from the parse tree, never raw HTML
+  const mathml = useMemo(
+    () => latexToMathML(block.latex, display),
+    [block.latex, display],
+  );
 
-  if (block.display === "block") {
+  if (display === "block") {
     return (
       <div
-        className="text-center text-xl py-2"
-        dangerouslySetInnerHTML={{ __html: renderBasicMath(block.latex) }}
+        className="math-block text-center text-xl py-2"
+        dangerouslySetInnerHTML={{ __html: mathml }}
       />
     );
   }
 
   return (
     <span
-      className="inline-block"
-      dangerouslySetInnerHTML={{ __html: renderBasicMath(block.latex) }}
+      className="math-inline inline-block"
+      dangerouslySetInnerHTML={{ __html: mathml }}
     />
   );
 };
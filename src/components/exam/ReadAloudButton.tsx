@@ -100,7 +100,7 @@ export const ReadAloudButton: React.FC<ReadAloudButtonProps> = ({
     return () => {
       handleStop();
     };
-  }, [content, audioPath]);
+  }, [content, plainText, audioPath]);
 
   const handlePlayTTS = () => {
     if (!isTTSSupported()) {
@@ -0,0 +1,167 @@
+// src/components/exam/StimulusPanel.tsx
+// Shared passage, poem or infographic shown beside its linked questions.
+// Text blocks get a line-number gutter; the scroll position is kept per
+// stimulus so moving between linked questions doesn't lose the reader's place.
+
+import React, { useLayoutEffect, useMemo, useRef } from "react";
+import { BookOpen } from "lucide-react";
+import { QuestionContentRenderer } from "./QuestionContentRenderer";
+import { STIMULUS_TYPE_LABELS } from "../../lib/stimuli";
+import type { ContentBlock, Stimulus, TextBlock } from "../../types/question";
+
+// Printed NAPLAN passages label every fifth line
+const LINE_NUMBER_INTERVAL = 5;
+
+interface StimulusPanelProps {
+  stimulus: Stimulus;
+  // e.g. "Questions 3–6" from formatQuestionRange()
+  linkedLabel?: string;
+  // Owned by the page so positions survive the panel unmounting
+  scrollPositions?: React.MutableRefObject<Record<string, number>>;
+  highContrast?: boolean;
+  className?: string;
+}
+
+type NumberedBlock =
+  | { kind: "lines"; block: TextBlock; lines: string[]; firstLine: number }
+  | { kind: "block"; block: ContentBlock };
+
+export const StimulusPanel: React.FC<StimulusPanelProps> = ({
+  stimulus,
+  linkedLabel,
+  scrollPositions,
+  highContrast = false,
+  className = "",
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Line numbers run on across text blocks; headings are not counted
+  const numbered = useMemo(() => {
+    let line = 1;
+    return stimulus.content.map((block): NumberedBlock => {
+      if (
+        !stimulus.show_line_numbers ||
+        block?.type !== "text" ||
+        block.style === "heading"
+      ) {
+        return { kind: "block", block };
+      }
+      const lines = block.content.split("\n");
+      const entry: NumberedBlock = {
+        kind: "lines",
+        block,
+        lines,
+        firstLine: line,
+      };
+      line += lines.length;
+      return entry;
+    });
+  }, [stimulus.content, stimulus.show_line_numbers]);
+
+  useLayoutEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollPositions?.current[stimulus.id] ?? 0;
+    }
+  }, [stimulus.id, scrollPositions]);
+
+  const handleScroll = () => {
+    if (scrollPositions && scrollRef.current) {
+      scrollPositions.current[stimulus.id] = scrollRef.current.scrollTop;
+    }
+  };
+
+  return (
+    <section
+      aria-label={
+        stimulus.title || STIMULUS_TYPE_LABELS[stimulus.stimulus_type]
+      }
+      className={`flex flex-col min-h-0 ${highContrast ? "bg-gray-900" : "bg-white"} rounded-xl shadow-sm border ${className}`}
+    >
+      <div
+        className={`flex items-center justify-between gap-2 px-4 py-2.5 border-b shrink-0 ${highContrast ? "border-gray-700" : ""}`}
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          <BookOpen
+            className={`w-4 h-4 shrink-0 ${highContrast ? "text-indigo-300" : "text-indigo-600"}`}
+          />
+          <span
+            className={`font-semibold truncate ${highContrast ? "text-white" : "text-gray-800"}`}
+          >
+            {stimulus.title || STIMULUS_TYPE_LABELS[stimulus.stimulus_type]}
+          </span>
+        </div>
+        {linkedLabel && (
+          <span
+            className={`text-xs shrink-0 ${highContrast ? "text-gray-400" : "text-gray-500"}`}
+          >
+            {linkedLabel}
+          </span>
+        )}
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={handleScroll}
+        className="flex-1 overflow-y-auto p-5"
+      >
+        <div
+          className={`space-y-3 ${highContrast ? "bg-white rounded-lg p-3" : ""}`}
+        >
+          {numbered.map((entry, index) =>
+            entry.kind === "lines" ? (
+              <NumberedTextBlock
+                key={entry.block.id || index}
+                block={entry.block}
+                lines={entry.lines}
+                firstLine={entry.firstLine}
+              />
+            ) : (
+              <QuestionContentRenderer
+                key={entry.block?.id || index}
+                blocks={[entry.block]}
+              />
+            ),
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+// ============================================
+// NUMBERED TEXT
+// ============================================
+
+const NumberedTextBlock: React.FC<{
+  block: TextBlock;
+  lines: string[];
+  firstLine: number;
+}> = ({ block, lines, firstLine }) => {
+  const styleClass = {
+    normal: "text-gray-700",
+    bold: "text-gray-800 font-semibold",
+    italic: "text-gray-700 italic",
+    heading: "text-gray-900 font-bold text-lg",
+  }[block.style || "normal"];
+
+  return (
+    <div className={`${styleClass} leading-relaxed`}>
+      {lines.map((line, i) => {
+        const number = firstLine + i;
+        return (
+          <div key={i} className="flex">
+            <span
+              aria-hidden="true"
+              className="w-8 shrink-0 pr-3 text-right text-xs leading-relaxed text-gray-400 select-none pt-[0.2em] font-normal not-italic"
+            >
+              {number % LINE_NUMBER_INTERVAL === 0 ? number : ""}
+            </span>
+            <span className="flex-1 min-w-0">{line || "\u00a0"}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default StimulusPanel;
@@ -0,0 +1,94 @@
+// src/components/exam/WritingEditor.tsx
+// Rich text editor for extended-response (NAPLAN Writing) questions.
+// Bold, italic, underline and paragraphs only; the value is sanitised HTML
+// and autosaves with the rest of the attempt's answers.
+
+import React, { useEffect, useRef } from "react";
+import { Bold, Italic, Underline } from "lucide-react";
+import { countWords, sanitizeWritingHtml } from "../../lib/writing";
+
+interface WritingEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  highContrast?: boolean;
+}
+
+const FORMAT_BUTTONS = [
+  { command: "bold", label: "Bold", Icon: Bold },
+  { command: "italic", label: "Italic", Icon: Italic },
+  { command: "underline", label: "Underline", Icon: Underline },
+];
+
+export const WritingEditor: React.FC<WritingEditorProps> = ({
+  value,
+  onChange,
+  highContrast = false,
+}) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  // Only write the DOM when the value changes from outside (loading a saved
+  // attempt) - rewriting it while typing would move the caret
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (editor && sanitizeWritingHtml(editor.innerHTML) !== value) {
+      editor.innerHTML = value;
+    }
+  }, [value]);
+
+  const handleInput = () => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const html = sanitizeWritingHtml(editor.innerHTML);
+    onChange(countWords(html) > 0 ? html : "");
+  };
+
+  const applyFormat = (command: string) => {
+    editorRef.current?.focus();
+    document.execCommand(command);
+    handleInput();
+  };
+
+  const words = countWords(value);
+
+  return (
+    <div
+      className={`rounded-lg border-2 ${highContrast ? "border-gray-600 bg-gray-800" : "border-gray-200 bg-white focus-within:border-indigo-500"}`}
+    >
+      <div
+        className={`flex items-center gap-1 px-2 py-1.5 border-b ${highContrast ? "border-gray-700" : "border-gray-100"}`}
+      >
+        {FORMAT_BUTTONS.map(({ command, label, Icon }) => (
+          <button
+            key={command}
+            type="button"
+            // Keep the selection in the editor
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => applyFormat(command)}
+            aria-label={label}
+            title={label}
+            className={`p-1.5 rounded ${highContrast ? "text-gray-300 hover:bg-gray-700" : "text-gray-600 hover:bg-gray-100"}`}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        ))}
+        <span
+          className={`ml-auto text-sm ${highContrast ? "text-gray-400" : "text-gray-500"}`}
+          aria-live="polite"
+        >
+          {words} {words === 1 ? "word" : "words"}
+        </span>
+      </div>
+      <div
+        ref={editorRef}
+        contentEditable
+        role="textbox"
+        aria-multiline="true"
+        aria-label="Your writing"
+        // Spelling is one of the marked criteria
+        spellCheck={false}
+        onInput={handleInput}
+        className={`min-h-[24rem] max-h-[60vh] overflow-y-auto p-4 outline-none select-text leading-relaxed [&_p]:mb-3 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6 ${highContrast ? "text-white" : "text-gray-800"}`}
+      />
+    </div>
+  );
+};
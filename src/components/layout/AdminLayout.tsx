@@ -0,0 +1,35 @@
+// src/components/layout/AdminLayout.tsx
+// Guards the /admin routes - nested inside ProtectedLayout, so the user is
+// already signed in; only profiles with role "admin" get through
+// ============================================
+
+import { useEffect } from "react";
+import { Outlet, Navigate } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { useAuthStore } from "@/store";
+import { ROUTES } from "@/data/constants";
+
+export default function AdminLayout() {
+  const { user, profile, fetchProfile } = useAuthStore();
+
+  useEffect(() => {
+    if (user && !profile) {
+      fetchProfile(user.id);
+    }
+  }, [user, profile, fetchProfile]);
+
+  if (!profile) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  // The database enforces this too (migration 013); this only hides the UI
+  if (profile.role !== "admin") {
+    return <Navigate to={ROUTES.DASHBOARD} replace />;
+  }
+
+  return <Outlet />;
+}
@@ -2,7 +2,7 @@
 // Navigation bar with Pricing link added
 // ============================================
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Link, useLocation, useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -17,9 +17,19 @@ import {
   ChevronDown,
   Sparkles,
   CreditCard,
+  PenTool,
+  Users,
+  Check,
+  GraduationCap,
+  Building2,
 } from "lucide-react";
-import { useAuthStore } from "@/store";
+import { useAuthStore, useFamilyStore } from "@/store";
 import { ROUTES } from "@/data/constants";
+import { getChildName } from "@/lib/family";
+import {
+  fetchManagedOrganisations,
+  fetchMyAdminInvites,
+} from "@/lib/organisations";
 
 export default function Navbar() {
   const { user, profile, logout } = useAuthStore();
@@ -27,8 +37,41 @@ export default function Navbar() {
   const navigate = useNavigate();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [profileDropdownOpen, setProfileDropdownOpen] = useState(false);
+  const { children, activeChildId, loadChildren, setActiveChild } =
+    useFamilyStore();
+  const [managesOrganisation, setManagesOrganisation] = useState(false);
 
   const isAuthenticated = !!user;
+  const isParent = profile?.role === "parent";
+  const activeChild = isParent
+    ? children.find((c) => c.id === activeChildId) || null
+    : null;
+
+  // Parent accounts switch between their children's profiles
+  useEffect(() => {
+    if (user && isParent) {
+      loadChildren(user.id);
+    }
+  }, [user, isParent, loadChildren]);
+
+  // Org admins (and people invited to be one) get a link to their school's
+  // seats; platform admins to all
+  useEffect(() => {
+    if (!user || isParent) {
+      setManagesOrganisation(false);
+      return;
+    }
+    if (profile?.role === "admin") {
+      setManagesOrganisation(true);
+      return;
+    }
+    Promise.all([
+      fetchManagedOrganisations(user.id),
+      fetchMyAdminInvites(),
+    ]).then(([organisations, invites]) =>
+      setManagesOrganisation(organisations.length > 0 || invites.length > 0),
+    );
+  }, [user, isParent, profile?.role]);
 
   // Get display name and initials
   const displayName =
@@ -44,23 +87,40 @@ export default function Navbar() {
     .toUpperCase()
     .slice(0, 2);
 
+  const switchProfile = (childId: string | null) => {
+    setActiveChild(childId);
+    setProfileDropdownOpen(false);
+    navigate(ROUTES.FAMILY);
+  };
+
   const handleLogout = async () => {
     await logout();
     navigate(ROUTES.HOME);
   };
 
   // Navigation links for authenticated users
-  const navLinks = [
-    { path: ROUTES.DASHBOARD, label: "Dashboard", icon: Home },
-    { path: ROUTES.EXAMS, label: "Exams", icon: FileText },
-    { path: ROUTES.RESULTS, label: "Results", icon: BarChart3 },
-  ];
+  const navLinks = isParent
+    ? [{ path: ROUTES.FAMILY, label: "My Family", icon: Users }]
+    : profile?.role === "teacher"
+      ? [
+          { path: ROUTES.CLASSES, label: "Classes", icon: GraduationCap },
+          { path: ROUTES.EXAMS, label: "Exams", icon: FileText },
+        ]
+      : [
+          { path: ROUTES.DASHBOARD, label: "Dashboard", icon: Home },
+          { path: ROUTES.EXAMS, label: "Exams", icon: FileText },
+          { path: ROUTES.CLASSES, label: "Classes", icon: GraduationCap },
+          { path: ROUTES.RESULTS, label: "Results", icon: BarChart3 },
+          ...(profile?.role === "admin"
+            ? [{ path: ROUTES.ADMIN, label: "Admin", icon: PenTool }]
+            : []),
+        ];
 
   // Check if current path matches
   const isActive = (path: string) => location.pathname === path;
 
   return (
-    <nav className="bg-white shadow-md sticky top-0 z-40">
+    <nav className="bg-white shadow-md sticky top-0 z-40 print:hidden">
       <div className="container-custom">
         <div className="flex items-center justify-between h-16">
           {/* Logo */}
@@ -140,10 +200,18 @@ export default function Navbar() {
                       <p className="font-bold text-gray-800 text-sm">
                         {displayName}
                       </p>
-                      {profile?.year_level && (
+                      {isParent ? (
                         <p className="text-xs text-gray-500">
-                          Year {profile.year_level}
+                          {activeChild
+                            ? `Viewing ${getChildName(activeChild)}`
+                            : "Parent"}
                         </p>
+                      ) : (
+                        profile?.year_level && (
+                          <p className="text-xs text-gray-500">
+                            Year {profile.year_level}
+                          </p>
+                        )
                       )}
                     </div>
                     <ChevronDown
@@ -165,10 +233,39 @@ export default function Navbar() {
                             {displayName}
                           </p>
                           <p className="text-sm text-gray-500 truncate">
-                            {user?.email}
+                            {profile?.username || user?.email}
                           </p>
                         </div>
 
+                        {/* Profile Switcher */}
+                        {isParent && (
+                          <div className="py-2 border-b">
+                            <p className="px-4 pb-1 text-xs font-bold text-gray-400 uppercase">
+                              Switch profile
+                            </p>
+                            {[
+                              { id: null, name: "Family overview" },
+                              ...children.map((child) => ({
+                                id: child.id,
+                                name: getChildName(child),
+                              })),
+                            ].map((option) => (
+                              <button
+                                key={option.id ?? "family"}
+                                onClick={() => switchProfile(option.id)}
+                                className="flex items-center justify-between gap-3 px-4 py-2 hover:bg-gray-50 transition w-full text-left"
+                              >
+                                <span className="font-medium text-gray-700">
+                                  {option.name}
+                                </span>
+                                {(activeChild?.id ?? null) === option.id && (
+                                  <Check className="w-4 h-4 text-indigo-500" />
+                                )}
+                              </button>
+                            ))}
+                          </div>
+                        )}
+
                         <Link
                           to={ROUTES.PROFILE}
                           onClick={() => setProfileDropdownOpen(false)}
@@ -180,6 +277,19 @@ export default function Navbar() {
                           </span>
                         </Link>
 
+                        {managesOrganisation && (
+                          <Link
+                            to={ROUTES.ORGANISATIONS}
+                            onClick={() => setProfileDropdownOpen(false)}
+                            className="flex items-center gap-3 px-4 py-3 hover:bg-gray-50 transition"
+                          >
+                            <Building2 className="w-5 h-5 text-gray-400" />
+                            <span className="font-medium text-gray-700">
+                              School Seats
+                            </span>
+                          </Link>
+                        )}
+
                         <Link
                           to={ROUTES.PRICING}
                           onClick={() => setProfileDropdownOpen(false)}
@@ -296,6 +406,17 @@ export default function Navbar() {
                       My Profile
                     </Link>
 
+                    {managesOrganisation && (
+                      <Link
+                        to={ROUTES.ORGANISATIONS}
+                        onClick={() => setMobileMenuOpen(false)}
+                        className="flex items-center gap-3 px-4 py-3 rounded-xl font-semibold text-gray-600 hover:bg-gray-100 transition"
+                      >
+                        <Building2 className="w-5 h-5" />
+                        School Seats
+                      </Link>
+                    )}
+
                     <button
                       onClick={() => {
                         setMobileMenuOpen(false);
@@ -13,13 +13,30 @@ export const ROUTES = {
   FORGOT_PASSWORD: "/forgot-password",
   DASHBOARD: "/dashboard",
   EXAMS: "/exams",
+  PRACTICE_BUILDER: "/practice",
+  REVIEW: "/review",
+  STUDY_PLAN: "/study-plan",
+  FAMILY: "/family",
+  PROGRESS_REPORT: "/report/:studentId",
+  CLASSES: "/classes",
+  CLASS: "/classes/:classId",
+  ORGANISATIONS: "/organisations",
+  ORGANISATION: "/organisations/:organisationId",
   EXAM_START: "/exam/:examId/start",
   EXAM_TAKE: "/exam/:examId/take/:attemptId",
   EXAM_RESULTS: "/exam/:examId/results/:attemptId",
+  WRITING_MARKING: "/exam/:examId/results/:attemptId/writing/:questionId",
   RESULTS: "/results",
   PROFILE: "/profile",
   PRICING: "/pricing",
   SUBSCRIPTION_SUCCESS: "/subscription/success",
+  ADMIN: "/admin",
+  ADMIN_EXAM: "/admin/exams/:examId",
+  // questionId "new" opens a blank question
+  ADMIN_QUESTION: "/admin/exams/:examId/questions/:questionId",
+  // stimulusId "new" opens a blank stimulus
+  ADMIN_STIMULUS: "/admin/exams/:examId/stimuli/:stimulusId",
+  ADMIN_STRIPE_EVENTS: "/admin/stripe-events",
 } as const;
 
 // ============================================
@@ -0,0 +1,506 @@
+// Admin authoring service - exams, questions, stimuli and testlets are written
+// directly under the admin RLS policies; the answer key is read through
+// admin_get_exam_questions() (see migration 013)
+// ============================================
+
+import { supabase } from "./supabase";
+import type {
+  ContentBlock,
+  QuestionOption,
+  QuestionType,
+  Stimulus,
+  Testlet,
+} from "../types/question";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AdminExam {
+  id: string;
+  title: string;
+  description: string | null;
+  exam_type: "NAPLAN" | "ICAS";
+  subject: string;
+  year_level: number;
+  duration_minutes: number;
+  total_questions: number;
+  difficulty: "Easy" | "Medium" | "Hard" | null;
+  is_free: boolean;
+  is_active: boolean;
+  allow_pause: boolean;
+  violation_policy: "warn" | "auto_submit";
+  max_tab_switches: number;
+  is_adaptive: boolean;
+}
+
+export interface AdminQuestion {
+  id?: string;
+  exam_id: string;
+  question_number: number;
+  question_type: QuestionType;
+  question_text: string;
+  content: ContentBlock[];
+  options_data: QuestionOption[];
+  match_targets: QuestionOption[];
+  correct_answer: string;
+  blanks: { id: string; correct: string; accept?: string[] }[];
+  numeric_tolerance: number | null;
+  explanation: string | null;
+  answer_explanation: ContentBlock[];
+  hint: string | null;
+  hint_content: ContentBlock[];
+  points: number;
+  difficulty: "easy" | "medium" | "hard";
+  topic: string | null;
+  skill: string | null;
+  audio_path: string | null;
+  stimulus_id: string | null;
+  dictation_text: string | null;
+  spelling_pattern: string | null;
+  testlet_id: string | null;
+}
+
+export type AdminStimulus = Omit<Stimulus, "id"> & { id?: string };
+
+export type AdminTestlet = Omit<Testlet, "id"> & { id?: string };
+
+export const EMPTY_EXAM: AdminExam = {
+  id: "",
+  title: "",
+  description: null,
+  exam_type: "NAPLAN",
+  subject: "Mathematics",
+  year_level: 5,
+  duration_minutes: 45,
+  total_questions: 0,
+  difficulty: null,
+  is_free: false,
+  is_active: false,
+  allow_pause: false,
+  violation_policy: "warn",
+  max_tab_switches: 3,
+  is_adaptive: false,
+};
+
+export function createEmptyQuestion(
+  examId: string,
+  questionNumber: number,
+): AdminQuestion {
+  return {
+    exam_id: examId,
+    question_number: questionNumber,
+    question_type: "multiple-choice",
+    question_text: "",
+    content: [],
+    options_data: ["A", "B", "C", "D"].map((id) => ({ id, text: "" })),
+    match_targets: [],
+    correct_answer: "",
+    blanks: [],
+    numeric_tolerance: null,
+    explanation: null,
+    answer_explanation: [],
+    hint: null,
+    hint_content: [],
+    points: 1,
+    difficulty: "medium",
+    topic: null,
+    skill: null,
+    audio_path: null,
+    stimulus_id: null,
+    dictation_text: null,
+    spelling_pattern: null,
+    testlet_id: null,
+  };
+}
+
+export function createEmptyStimulus(examId: string): AdminStimulus {
+  return {
+    exam_id: examId,
+    title: "",
+    stimulus_type: "passage",
+    content: [],
+    show_line_numbers: true,
+  };
+}
+
+export function createEmptyTestlet(
+  examId: string,
+  stage: number,
+): AdminTestlet {
+  return {
+    exam_id: examId,
+    stage,
+    label: "",
+    level: "standard",
+    weight: 1,
+    routing: [],
+  };
+}
+
+// ============================================
+// EXAMS
+// ============================================
+
+export async function fetchAdminExams(): Promise<AdminExam[]> {
+  try {
+    const { data, error } = await supabase
+      .from("exams")
+      .select("*")
+      // Students' practice sets (migration 019) aren't authored here
+      .is("owner_id", null)
+      .order("year_level")
+      .order("title");
+
+    if (error) {
+      console.error("Error fetching exams:", error);
+      return [];
+    }
+
+    return (data || []) as AdminExam[];
+  } catch (err) {
+    console.error("Error in fetchAdminExams:", err);
+    return [];
+  }
+}
+
+export async function fetchAdminExam(
+  examId: string,
+): Promise<AdminExam | null> {
+  try {
+    const { data, error } = await supabase
+      .from("exams")
+      .select("*")
+      .eq("id", examId)
+      .single();
+
+    if (error) {
+      console.error("Error fetching exam:", error);
+      return null;
+    }
+
+    return data as AdminExam;
+  } catch (err) {
+    console.error("Error in fetchAdminExam:", err);
+    return null;
+  }
+}
+
+export async function saveExam(
+  exam: AdminExam,
+): Promise<{ error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from("exams")
+      .upsert({ ...exam, updated_at: new Date().toISOString() } as never);
+
+    if (error) {
+      console.error("Error saving exam:", error);
+      return { error: error.message };
+    }
+    return { error: null };
+  } catch (err) {
+    console.error("Error in saveExam:", err);
+    return { error: "Failed to save exam" };
+  }
+}
+
+export async function deleteExam(
+  examId: string,
+): Promise<{ error: string | null }> {
+  try {
+    const { error } = await supabase.from("exams").delete().eq("id", examId);
+
+    if (error) {
+      console.error("Error deleting exam:", error);
+      return { error: error.message };
+    }
+    return { error: null };
+  } catch (err) {
+    console.error("Error in deleteExam:", err);
+    return { error: "Failed to delete exam" };
+  }
+}
+
+// ============================================
+// QUESTIONS
+// ============================================
+
+export async function fetchAdminQuestions(
+  examId: string,
+): Promise<AdminQuestion[]> {
+  try {
+    const { data, error } = await supabase.rpc("admin_get_exam_questions", {
+      p_exam_id: examId,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching questions:", error);
+      return [];
+    }
+
+    return ((data || []) as Record<string, unknown>[]).map(toAdminQuestion);
+  } catch (err) {
+    console.error("Error in fetchAdminQuestions:", err);
+    return [];
+  }
+}
+
+/**
+ * Inserts or updates a question; returns the saved question's id
+ */
+export async function saveQuestion(
+  question: AdminQuestion,
+): Promise<{ id: string | null; error: string | null }> {
+  try {
+    const { id, ...fields } = question;
+    const row = {
+      ...fields,
+      // Legacy column read by older rows and the seed scripts
+      options:
+        question.options_data.length > 0
+          ? question.options_data.map((o) => o.text || "")
+          : null,
+      blanks: question.blanks.length > 0 ? question.blanks : null,
+      match_targets:
+        question.match_targets.length > 0 ? question.match_targets : null,
+    };
+
+    const { data, error } = id
+      ? await supabase
+          .from("questions")
+          .update(row as never)
+          .eq("id", id)
+          .select("id")
+          .single()
+      : await supabase
+          .from("questions")
+          .insert(row as never)
+          .select("id")
+          .single();
+
+    if (error) {
+      console.error("Error saving question:", error);
+      return { id: null, error: error.message };
+    }
+
+    return { id: (data as { id: string }).id, error: null };
+  } catch (err) {
+    console.error("Error in saveQuestion:", err);
+    return { id: null, error: "Failed to save question" };
+  }
+}
+
+export async function deleteQuestion(
+  questionId: string,
+): Promise<{ error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from("questions")
+      .delete()
+      .eq("id", questionId);
+
+    if (error) {
+      console.error("Error deleting question:", error);
+      return { error: error.message };
+    }
+    return { error: null };
+  } catch (err) {
+    console.error("Error in deleteQuestion:", err);
+    return { error: "Failed to delete question" };
+  }
+}
+
+/**
+ * Rewrites question_number so the list stays 1..n after a move or delete
+ */
+export async function renumberQuestions(
+  questions: AdminQuestion[],
+): Promise<{ error: string | null }> {
+  const changed = questions
+    .map((q, index) => ({ q, number: index + 1 }))
+    .filter(({ q, number }) => q.id && q.question_number !== number);
+
+  for (const { q, number } of changed) {
+    const { error } = await supabase
+      .from("questions")
+      .update({ question_number: number } as never)
+      .eq("id", q.id as string);
+    if (error) {
+      console.error("Error renumbering questions:", error);
+      return { error: error.message };
+    }
+  }
+  return { error: null };
+}
+
+// Rows written by SQL seeds may have nulls or legacy option arrays
+function toAdminQuestion(row: Record<string, unknown>): AdminQuestion {
+  const base = createEmptyQuestion(
+    row.exam_id as string,
+    row.question_number as number,
+  );
+  const legacyOptions = Array.isArray(row.options)
+    ? (row.options as string[]).map((text, i) => ({
+        id: String.fromCharCode(65 + i),
+        text,
+      }))
+    : [];
+
+  return {
+    ...base,
+    id: row.id as string,
+    question_type: ((row.question_type as string) || "multiple-choice")
+      .toLowerCase()
+      .replace(/_/g, "-") as QuestionType,
+    question_text: (row.question_text as string) || "",
+    content: (row.content as ContentBlock[]) || [],
+    options_data: (row.options_data as QuestionOption[]) || legacyOptions,
+    match_targets: (row.match_targets as QuestionOption[]) || [],
+    correct_answer: (row.correct_answer as string) || "",
+    blanks: (row.blanks as AdminQuestion["blanks"]) || [],
+    numeric_tolerance: (row.numeric_tolerance as number | null) ?? null,
+    explanation: (row.explanation as string | null) ?? null,
+    answer_explanation: (row.answer_explanation as ContentBlock[]) || [],
+    hint: (row.hint as string | null) ?? null,
+    hint_content: (row.hint_content as ContentBlock[]) || [],
+    points: (row.points as number) ?? 1,
+    difficulty:
+      ((row.difficulty as string | null)?.toLowerCase() as
+        AdminQuestion["difficulty"] | undefined) || "medium",
+    topic: (row.topic as string | null) ?? null,
+    skill: (row.skill as string | null) ?? null,
+    audio_path: (row.audio_path as string | null) ?? null,
+    stimulus_id: (row.stimulus_id as string | null) ?? null,
+    dictation_text: (row.dictation_text as string | null) ?? null,
+    spelling_pattern: (row.spelling_pattern as string | null) ?? null,
+    testlet_id: (row.testlet_id as string | null) ?? null,
+  };
+}
+
+// ============================================
+// STIMULI
+// ============================================
+// Read with fetchExamStimuli() in stimuli.ts - stimuli have no hidden columns
+
+/**
+ * Inserts or updates a stimulus; returns the saved stimulus's id
+ */
+export async function saveStimulus(
+  stimulus: AdminStimulus,
+): Promise<{ id: string | null; error: string | null }> {
+  try {
+    const { id, ...fields } = stimulus;
+    const row = { ...fields, updated_at: new Date().toISOString() };
+
+    const { data, error } = id
+      ? await supabase
+          .from("stimuli")
+          .update(row as never)
+          .eq("id", id)
+          .select("id")
+          .single()
+      : await supabase
+          .from("stimuli")
+          .insert(row as never)
+          .select("id")
+          .single();
+
+    if (error) {
+      console.error("Error saving stimulus:", error);
+      return { id: null, error: error.message };
+    }
+
+    return { id: (data as { id: string }).id, error: null };
+  } catch (err) {
+    console.error("Error in saveStimulus:", err);
+    return { id: null, error: "Failed to save stimulus" };
+  }
+}
+
+/**
+ * Linked questions keep their content; their stimulus_id is cleared
+ */
+export async function deleteStimulus(
+  stimulusId: string,
+): Promise<{ error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from("stimuli")
+      .delete()
+      .eq("id", stimulusId);
+
+    if (error) {
+      console.error("Error deleting stimulus:", error);
+      return { error: error.message };
+    }
+    return { error: null };
+  } catch (err) {
+    console.error("Error in deleteStimulus:", err);
+    return { error: "Failed to delete stimulus" };
+  }
+}
+
+// ============================================
+// TESTLETS
+// ============================================
+// Read with fetchExamTestlets() in testlets.ts
+
+/**
+ * Inserts or updates a testlet; returns the saved testlet's id
+ */
+export async function saveTestlet(
+  testlet: AdminTestlet,
+): Promise<{ id: string | null; error: string | null }> {
+  try {
+    const { id, ...fields } = testlet;
+    const row = { ...fields, updated_at: new Date().toISOString() };
+
+    const { data, error } = id
+      ? await supabase
+          .from("testlets")
+          .update(row as never)
+          .eq("id", id)
+          .select("id")
+          .single()
+      : await supabase
+          .from("testlets")
+          .insert(row as never)
+          .select("id")
+          .single();
+
+    if (error) {
+      console.error("Error saving testlet:", error);
+      return { id: null, error: error.message };
+    }
+
+    return { id: (data as { id: string }).id, error: null };
+  } catch (err) {
+    console.error("Error in saveTestlet:", err);
+    return { id: null, error: "Failed to save testlet" };
+  }
+}
+
+/**
+ * The testlet's questions are kept but left out of the adaptive exam until
+ * they are moved to another testlet
+ */
+export async function deleteTestlet(
+  testletId: string,
+): Promise<{ error: string | null }> {
+  try {
+    const { error } = await supabase
+      .from("testlets")
+      .delete()
+      .eq("id", testletId);
+
+    if (error) {
+      console.error("Error deleting testlet:", error);
+      return { error: error.message };
+    }
+    return { error: null };
+  } catch (err) {
+    console.error("Error in deleteTestlet:", err);
+    return { error: "Failed to delete testlet" };
+  }
+}
@@ -14,6 +14,9 @@ export interface SignUpData {
   password: string;
   fullName: string;
   yearLevel?: number;
+  // "parent" signs up a family account (migration 023), "teacher" asks
+  // for a teacher account, which an admin approves (migration 025)
+  accountType?: "student" | "parent" | "teacher";
 }
 
 export interface SignInData {
@@ -42,6 +45,7 @@ export async function signUp(data: SignUpData): Promise<AuthResult> {
         data: {
           full_name: data.fullName,
           year_level: data.yearLevel,
+          account_type: data.accountType || "student",
         },
         // Redirect after email confirmation
         emailRedirectTo: `${window.location.origin}/login?verified=true`,
@@ -0,0 +1,827 @@
+// Teacher classes (migration 025) - teachers run classes, students join by
+// code or accept an invite from a CSV roster, and assignments set an exam or practice set
+// with open/close dates and an attempt limit
+// ============================================
+
+import { supabase } from "./supabase";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SchoolClass {
+  id: string;
+  teacher_id: string;
+  name: string;
+  subject: string | null;
+  year_level: number | null;
+  join_code: string;
+  archived_at: string | null;
+  created_at: string;
+}
+
+export interface TeacherClass extends SchoolClass {
+  studentCount: number;
+}
+
+export interface NewSchoolClass {
+  name: string;
+  subject: string | null;
+  yearLevel: number | null;
+}
+
+export interface ClassStudent {
+  id: string;
+  email: string;
+  full_name: string | null;
+  display_name: string | null;
+  year_level: number | null;
+  joined_at: string;
+}
+
+export interface RosterInvite {
+  email: string;
+  full_name: string | null;
+  created_at: string;
+}
+
+export interface RosterRow {
+  email: string;
+  full_name: string | null;
+}
+
+export interface RosterImportResult {
+  invited: number;
+  skipped: number;
+}
+
+/** A roster invite waiting for the signed-in student's answer */
+export interface ClassInvite {
+  class_id: string;
+  class_name: string;
+  subject: string | null;
+  year_level: number | null;
+  teacher_name: string | null;
+  invited_at: string;
+}
+
+export interface ClassAssignment {
+  id: string;
+  class_id: string;
+  exam_id: string;
+  opens_at: string;
+  closes_at: string | null;
+  max_attempts: number | null;
+  created_at: string;
+  exam: {
+    title: string;
+    subject: string;
+    year_level: number;
+    total_questions: number;
+    duration_minutes: number;
+  } | null;
+}
+
+export interface NewAssignment {
+  examId: string;
+  opensAt: string;
+  closesAt: string | null;
+  maxAttempts: number | null;
+}
+
+export type AssignmentStatus = "upcoming" | "open" | "closed";
+
+// An assignment as the student sees it
+export interface StudentAssignment extends ClassAssignment {
+  className: string;
+  attemptsUsed: number;
+  bestPercentage: number | null;
+}
+
+// A catalogue exam or one of the teacher's practice sets
+export interface AssignableExam {
+  id: string;
+  title: string;
+  subject: string;
+  year_level: number;
+  owner_id: string | null;
+}
+
+export interface GradebookEntry {
+  student_id: string;
+  assignment_id: string;
+  attempts: number;
+  completed: number;
+  best_percentage: number | null;
+  latest_percentage: number | null;
+  last_completed_at: string | null;
+}
+
+export interface AssignmentQuestionStat {
+  question_id: string;
+  question_number: number;
+  question_text: string;
+  topic: string | null;
+  answered: number;
+  correct: number;
+  // 0-100, average share of the question's points earned
+  average_credit: number | null;
+}
+
+// An extended response in an assignment attempt, for marking
+export interface AssignmentWriting {
+  attempt_id: string;
+  student_id: string;
+  exam_id: string;
+  question_id: string;
+  question_number: number;
+  completed_at: string | null;
+  marked: boolean;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Keep in step with generate_class_join_code() in migration 025
+export const CLASS_JOIN_CODE_LENGTH = 6;
+// Also enforced by import_class_roster()
+export const MAX_ROSTER_IMPORT = 500;
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function getStudentName(student: ClassStudent): string {
+  return student.display_name || student.full_name || student.email;
+}
+
+export function getAssignmentStatus(
+  assignment: Pick<ClassAssignment, "opens_at" | "closes_at">,
+  now: Date = new Date(),
+): AssignmentStatus {
+  if (now < new Date(assignment.opens_at)) return "upcoming";
+  if (assignment.closes_at && now >= new Date(assignment.closes_at)) {
+    return "closed";
+  }
+  return "open";
+}
+
+/**
+ * Attempts the student has left, or null when there's no limit
+ */
+export function getAttemptsLeft(
+  assignment: Pick<ClassAssignment, "max_attempts">,
+  attemptsUsed: number,
+): number | null {
+  if (assignment.max_attempts === null) return null;
+  return Math.max(0, assignment.max_attempts - attemptsUsed);
+}
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Reads a roster CSV. A header row naming "email" and "name" columns is
+ * optional - without one, the field with an @ is the email and the first
+ * other field is the name.
+ */
+export function parseRosterCsv(text: string): {
+  rows: RosterRow[];
+  errors: string[];
+} {
+  const lines = text.split(/\r?\n/);
+  const rows: RosterRow[] = [];
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  let emailColumn = -1;
+  let nameColumn = -1;
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const fields = splitCsvLine(line);
+
+    if (index === 0 && !fields.some((f) => f.includes("@"))) {
+      const headers = fields.map((f) => f.toLowerCase());
+      emailColumn = headers.findIndex((h) => h.includes("email"));
+      nameColumn = headers.findIndex((h) => h.includes("name"));
+      if (emailColumn >= 0) return;
+    }
+
+    const emailAt =
+      emailColumn >= 0 ? emailColumn : fields.findIndex((f) => f.includes("@"));
+    const email = (fields[emailAt] || "").toLowerCase();
+    if (!EMAIL_PATTERN.test(email)) {
+      errors.push(`Line ${index + 1}: no valid email address`);
+      return;
+    }
+    if (seen.has(email)) return;
+    seen.add(email);
+
+    const nameAt =
+      nameColumn >= 0 ? nameColumn : fields.findIndex((_, i) => i !== emailAt);
+    rows.push({ email, full_name: fields[nameAt] || null });
+  });
+
+  if (rows.length > MAX_ROSTER_IMPORT) {
+    errors.push(`Import up to ${MAX_ROSTER_IMPORT} students at a time`);
+  }
+
+  return { rows, errors };
+}
+
+// ============================================
+// CLASSES
+// ============================================
+
+export async function fetchTeacherClasses(
+  teacherId: string,
+): Promise<TeacherClass[]> {
+  try {
+    const { data, error } = await supabase
+      .from("classes")
+      .select("*, class_members(count)")
+      .eq("teacher_id", teacherId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching classes:", error);
+      return [];
+    }
+
+    return (
+      (data || []) as (SchoolClass & {
+        class_members: { count: number }[];
+      })[]
+    ).map(({ class_members, ...schoolClass }) => ({
+      ...schoolClass,
+      studentCount: class_members[0]?.count || 0,
+    }));
+  } catch (err) {
+    console.error("Error in fetchTeacherClasses:", err);
+    return [];
+  }
+}
+
+export async function fetchClass(classId: string): Promise<SchoolClass | null> {
+  try {
+    const { data, error } = await supabase
+      .from("classes")
+      .select("*")
+      .eq("id", classId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching class:", error);
+      return null;
+    }
+
+    return data as SchoolClass | null;
+  } catch (err) {
+    console.error("Error in fetchClass:", err);
+    return null;
+  }
+}
+
+export async function createClass(
+  teacherId: string,
+  newClass: NewSchoolClass,
+): Promise<{ classId: string } | { error: string }> {
+  if (!newClass.name.trim()) {
+    return { error: "Please give the class a name" };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("classes")
+      .insert({
+        teacher_id: teacherId,
+        name: newClass.name.trim(),
+        subject: newClass.subject,
+        year_level: newClass.yearLevel,
+      } as never)
+      .select("id")
+      .single();
+
+    if (error || !data) {
+      console.error("Error creating class:", error);
+      return { error: "Failed to create the class" };
+    }
+
+    return { classId: (data as { id: string }).id };
+  } catch (err) {
+    console.error("Error in createClass:", err);
+    return { error: "Failed to create the class" };
+  }
+}
+
+/**
+ * Archived classes keep their gradebook but can't be joined
+ */
+export async function setClassArchived(
+  classId: string,
+  archived: boolean,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("classes")
+      .update({
+        archived_at: archived ? new Date().toISOString() : null,
+      } as never)
+      .eq("id", classId);
+
+    if (error) {
+      console.error("Error archiving class:", error);
+      return { success: false, error: "Failed to update the class" };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in setClassArchived:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// ============================================
+// ROSTER
+// ============================================
+
+export async function fetchClassRoster(
+  classId: string,
+): Promise<{ students: ClassStudent[]; invites: RosterInvite[] }> {
+  try {
+    const [{ data: members, error }, { data: invites }] = await Promise.all([
+      supabase.rpc("get_class_students", { p_class_id: classId } as never),
+      supabase
+        .from("class_roster_invites")
+        .select("email, full_name, created_at")
+        .eq("class_id", classId)
+        .order("email"),
+    ]);
+
+    if (error) {
+      console.error("Error fetching class members:", error);
+      return { students: [], invites: [] };
+    }
+
+    const students = ((members || []) as ClassStudent[]).sort((a, b) =>
+      getStudentName(a).localeCompare(getStudentName(b)),
+    );
+
+    return { students, invites: (invites || []) as RosterInvite[] };
+  } catch (err) {
+    console.error("Error in fetchClassRoster:", err);
+    return { students: [], invites: [] };
+  }
+}
+
+export async function importClassRoster(
+  classId: string,
+  rows: RosterRow[],
+): Promise<RosterImportResult | { error: string }> {
+  if (rows.length === 0) return { error: "No students to import" };
+  if (rows.length > MAX_ROSTER_IMPORT) {
+    return { error: `Import up to ${MAX_ROSTER_IMPORT} students at a time` };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc("import_class_roster", {
+      p_class_id: classId,
+      p_students: rows,
+    } as never);
+
+    if (error) {
+      console.error("Error importing roster:", error);
+      return { error: error.message || "Failed to import the roster" };
+    }
+
+    return data as unknown as RosterImportResult;
+  } catch (err) {
+    console.error("Error in importClassRoster:", err);
+    return { error: "Failed to import the roster" };
+  }
+}
+
+/**
+ * Takes a student out of a class - a teacher removing them, or the
+ * student leaving. Their attempts are kept.
+ */
+export async function removeClassMember(
+  classId: string,
+  studentId: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("class_members")
+      .delete()
+      .eq("class_id", classId)
+      .eq("student_id", studentId);
+
+    if (error) {
+      console.error("Error removing class member:", error);
+      return { success: false, error: "Failed to remove the student" };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in removeClassMember:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export async function cancelRosterInvite(
+  classId: string,
+  email: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("class_roster_invites")
+      .delete()
+      .eq("class_id", classId)
+      .eq("email", email);
+
+    if (error) {
+      console.error("Error cancelling roster invite:", error);
+      return { success: false, error: "Failed to cancel the invite" };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in cancelRosterInvite:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Roster invites to the signed-in user's confirmed email
+ */
+export async function fetchMyClassInvites(): Promise<ClassInvite[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_my_class_invites");
+
+    if (error) {
+      console.error("Error fetching class invites:", error);
+      return [];
+    }
+
+    return (data || []) as ClassInvite[];
+  } catch (err) {
+    console.error("Error in fetchMyClassInvites:", err);
+    return [];
+  }
+}
+
+/**
+ * Accept (join the class) or decline a roster invite
+ */
+export async function respondToClassInvite(
+  classId: string,
+  accept: boolean,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc("respond_to_class_invite", {
+      p_class_id: classId,
+      p_accept: accept,
+    } as never);
+
+    if (error) {
+      console.error("Error answering class invite:", error);
+      return {
+        success: false,
+        error: error.message || "Failed to answer the invite",
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in respondToClassInvite:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export async function joinClass(
+  joinCode: string,
+): Promise<{ classId: string } | { error: string }> {
+  const code = joinCode.trim().toUpperCase();
+  if (code.length !== CLASS_JOIN_CODE_LENGTH) {
+    return {
+      error: `Class codes are ${CLASS_JOIN_CODE_LENGTH} letters and numbers`,
+    };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc("join_class", {
+      p_join_code: code,
+    } as never);
+
+    if (error) {
+      console.error("Error joining class:", error);
+      return { error: error.message || "Failed to join the class" };
+    }
+
+    return { classId: data as unknown as string };
+  } catch (err) {
+    console.error("Error in joinClass:", err);
+    return { error: "Failed to join the class" };
+  }
+}
+
+// ============================================
+// ASSIGNMENTS
+// ============================================
+
+const ASSIGNMENT_SELECT =
+  "*, exam:exams(title, subject, year_level, total_questions, duration_minutes)";
+
+export async function fetchClassAssignments(
+  classId: string,
+): Promise<ClassAssignment[]> {
+  try {
+    const { data, error } = await supabase
+      .from("class_assignments")
+      .select(ASSIGNMENT_SELECT)
+      .eq("class_id", classId)
+      .order("opens_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching assignments:", error);
+      return [];
+    }
+
+    return (data || []) as unknown as ClassAssignment[];
+  } catch (err) {
+    console.error("Error in fetchClassAssignments:", err);
+    return [];
+  }
+}
+
+export async function fetchAssignableExams(
+  teacherId: string,
+): Promise<AssignableExam[]> {
+  try {
+    const { data, error } = await supabase
+      .from("exams")
+      .select("id, title, subject, year_level, owner_id")
+      .eq("is_active", true)
+      .or(`owner_id.is.null,owner_id.eq.${teacherId}`)
+      .order("subject")
+      .order("year_level")
+      .order("title");
+
+    if (error) {
+      console.error("Error fetching assignable exams:", error);
+      return [];
+    }
+
+    return (data || []) as AssignableExam[];
+  } catch (err) {
+    console.error("Error in fetchAssignableExams:", err);
+    return [];
+  }
+}
+
+export async function createAssignment(
+  classId: string,
+  assignment: NewAssignment,
+): Promise<{ assignmentId: string } | { error: string }> {
+  if (!assignment.examId) return { error: "Choose an exam to assign" };
+  if (
+    assignment.closesAt &&
+    new Date(assignment.closesAt) <= new Date(assignment.opensAt)
+  ) {
+    return { error: "The close date must be after the open date" };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("class_assignments")
+      .insert({
+        class_id: classId,
+        exam_id: assignment.examId,
+        opens_at: assignment.opensAt,
+        closes_at: assignment.closesAt,
+        max_attempts: assignment.maxAttempts,
+      } as never)
+      .select("id")
+      .single();
+
+    if (error || !data) {
+      console.error("Error creating assignment:", error);
+      return { error: "Failed to create the assignment" };
+    }
+
+    return { assignmentId: (data as { id: string }).id };
+  } catch (err) {
+    console.error("Error in createAssignment:", err);
+    return { error: "Failed to create the assignment" };
+  }
+}
+
+export async function deleteAssignment(
+  assignmentId: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("class_assignments")
+      .delete()
+      .eq("id", assignmentId);
+
+    if (error) {
+      console.error("Error deleting assignment:", error);
+      return { success: false, error: "Failed to delete the assignment" };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in deleteAssignment:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * The student's classes and everything assigned in them, with the
+ * attempts they've used
+ */
+export async function fetchStudentAssignments(studentId: string): Promise<{
+  classes: SchoolClass[];
+  assignments: StudentAssignment[];
+}> {
+  try {
+    const { data: memberships, error } = await supabase
+      .from("class_members")
+      .select("class:classes(*)")
+      .eq("student_id", studentId);
+
+    if (error) {
+      console.error("Error fetching student classes:", error);
+      return { classes: [], assignments: [] };
+    }
+
+    const classes = (
+      (memberships || []) as unknown as {
+        class: SchoolClass | null;
+      }[]
+    )
+      .map((m) => m.class)
+      .filter((c): c is SchoolClass => !!c && !c.archived_at);
+
+    if (classes.length === 0) return { classes, assignments: [] };
+
+    const { data: assigned } = await supabase
+      .from("class_assignments")
+      .select(ASSIGNMENT_SELECT)
+      .in(
+        "class_id",
+        classes.map((c) => c.id),
+      );
+
+    const assignments = (assigned || []) as unknown as ClassAssignment[];
+    if (assignments.length === 0) return { classes, assignments: [] };
+
+    const { data: attempts } = await supabase
+      .from("exam_attempts")
+      .select("assignment_id, status, percentage")
+      .eq("user_id", studentId)
+      .in(
+        "assignment_id",
+        assignments.map((a) => a.id),
+      );
+
+    const used = (attempts || []) as {
+      assignment_id: string;
+      status: string;
+      percentage: number | null;
+    }[];
+
+    return {
+      classes,
+      assignments: assignments.map((assignment) => {
+        const mine = used.filter((a) => a.assignment_id === assignment.id);
+        const scores = mine
+          .filter((a) => a.status === "completed" && a.percentage !== null)
+          .map((a) => a.percentage as number);
+
+        return {
+          ...assignment,
+          className:
+            classes.find((c) => c.id === assignment.class_id)?.name || "",
+          attemptsUsed: mine.length,
+          bestPercentage: scores.length ? Math.max(...scores) : null,
+        };
+      }),
+    };
+  } catch (err) {
+    console.error("Error in fetchStudentAssignments:", err);
+    return { classes: [], assignments: [] };
+  }
+}
+
+// ============================================
+// GRADEBOOK
+// ============================================
+
+export async function fetchClassGradebook(
+  classId: string,
+): Promise<GradebookEntry[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_class_gradebook", {
+      p_class_id: classId,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching gradebook:", error);
+      return [];
+    }
+
+    return ((data || []) as GradebookEntry[]).map((entry) => ({
+      ...entry,
+      best_percentage:
+        entry.best_percentage === null ? null : Number(entry.best_percentage),
+      latest_percentage:
+        entry.latest_percentage === null
+          ? null
+          : Number(entry.latest_percentage),
+    }));
+  } catch (err) {
+    console.error("Error in fetchClassGradebook:", err);
+    return [];
+  }
+}
+
+/**
+ * Extended responses in the assignment's attempts, for the teacher to mark
+ */
+export async function fetchAssignmentWriting(
+  assignmentId: string,
+): Promise<AssignmentWriting[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_assignment_writing", {
+      p_assignment_id: assignmentId,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching assignment writing:", error);
+      return [];
+    }
+
+    return (data || []) as AssignmentWriting[];
+  } catch (err) {
+    console.error("Error in fetchAssignmentWriting:", err);
+    return [];
+  }
+}
+
+export async function fetchAssignmentQuestionStats(
+  assignmentId: string,
+): Promise<AssignmentQuestionStat[]> {
+  try {
+    const { data, error } = await supabase.rpc(
+      "get_assignment_question_stats",
+      { p_assignment_id: assignmentId } as never,
+    );
+
+    if (error) {
+      console.error("Error fetching question stats:", error);
+      return [];
+    }
+
+    return ((data || []) as AssignmentQuestionStat[]).map((stat) => ({
+      ...stat,
+      average_credit:
+        stat.average_credit === null ? null : Number(stat.average_credit),
+    }));
+  } catch (err) {
+    console.error("Error in fetchAssignmentQuestionStats:", err);
+    return [];
+  }
+}
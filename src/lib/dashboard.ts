@@ -1,6 +1,17 @@
 // Dashboard service - fetches real user statistics from Supabase
 import { supabase } from "./supabase";
 import { ExamAttempt } from "../types/supabase";
+import {
+  type ScaledResult,
+  estimateScaledResult,
+  fetchScoreScales,
+} from "./naplanScale";
+import { fetchDueReviewCount } from "./reviewQueue";
+import {
+  type TopicMastery,
+  fetchSkillMastery,
+  rankTopicMastery,
+} from "./mastery";
 
 // ============================================
 // TYPES
@@ -36,6 +47,8 @@ export interface RecentAttemptWithExam {
     duration_minutes: number;
     total_questions: number;
   };
+  // Estimated NAPLAN result when the exam has a score scale
+  scaled?: ScaledResult | null;
 }
 
 export interface TopicPerformance {
@@ -48,8 +61,11 @@ export interface TopicPerformance {
 export interface DashboardData {
   stats: DashboardStats;
   recentAttempts: RecentAttemptWithExam[];
-  strongTopics: string[];
-  weakTopics: string[];
+  // From the skill mastery estimates (migration 021)
+  strongTopics: TopicMastery[];
+  weakTopics: TopicMastery[];
+  // Review deck items due by the end of today (migration 020)
+  dueReviewCount: number;
   isLoading: boolean;
   error: string | null;
 }
@@ -171,10 +187,23 @@ export async function fetchRecentAttempts(
 
     // Transform the data to match our type
     const typedAttempts = (attempts || []) as RecentAttemptWithExam[];
-    return typedAttempts.map((attempt) => ({
-      ...attempt,
-      exam: attempt.exam,
-    }));
+    const scoreScales = await fetchScoreScales(
+      typedAttempts.map((a) => a.exam_id),
+    );
+    return typedAttempts.map((attempt) => {
+      const scale = scoreScales.get(attempt.exam_id);
+      return {
+        ...attempt,
+        exam: attempt.exam,
+        scaled: scale
+          ? estimateScaledResult(
+              scale,
+              attempt.score || 0,
+              attempt.total_points,
+            )
+          : null,
+      };
+    });
   } catch (err) {
     console.error("Error in fetchRecentAttempts:", err);
     return [];
@@ -187,54 +216,9 @@ export async function fetchRecentAttempts(
 
 export async function fetchTopicPerformance(
   userId: string,
-): Promise<{ strongTopics: string[]; weakTopics: string[] }> {
+): Promise<{ strongTopics: TopicMastery[]; weakTopics: TopicMastery[] }> {
   try {
-    // Fetch user progress data grouped by subject
-    const { data: progress, error } = await supabase
-      .from("user_progress")
-      .select("*")
-      .eq("user_id", userId);
-
-    if (error) {
-      console.error("Error fetching progress:", error);
-      return { strongTopics: [], weakTopics: [] };
-    }
-
-    if (!progress || progress.length === 0) {
-      // If no progress data, derive from exam attempts
-      return deriveTopicsFromAttempts(userId);
-    }
-
-    // Calculate performance by subject
-    const typedProgress = progress as Array<{
-      subject: string;
-      total_questions_answered: number;
-      correct_answers: number;
-    }>;
-    const subjectPerformance = typedProgress.map((p) => ({
-      subject: p.subject,
-      percentage:
-        p.total_questions_answered > 0
-          ? Math.round((p.correct_answers / p.total_questions_answered) * 100)
-          : 0,
-    }));
-
-    // Sort by percentage
-    subjectPerformance.sort((a, b) => b.percentage - a.percentage);
-
-    // Strong topics: >= 70% correct
-    const strongTopics = subjectPerformance
-      .filter((p) => p.percentage >= 70)
-      .map((p) => formatSubjectName(p.subject))
-      .slice(0, 3);
-
-    // Weak topics: < 60% correct
-    const weakTopics = subjectPerformance
-      .filter((p) => p.percentage < 60 && p.percentage > 0)
-      .map((p) => formatSubjectName(p.subject))
-      .slice(0, 3);
-
-    return { strongTopics, weakTopics };
+    return rankTopicMastery(await fetchSkillMastery(userId));
   } catch (err) {
     console.error("Error in fetchTopicPerformance:", err);
     return { strongTopics: [], weakTopics: [] };
@@ -369,10 +353,11 @@ export async function fetchDashboardData(
 ): Promise<DashboardData> {
   try {
     // Fetch all data in parallel
-    const [stats, recentAttempts, topics] = await Promise.all([
+    const [stats, recentAttempts, topics, dueReviewCount] = await Promise.all([
       fetchDashboardStats(userId),
       fetchRecentAttempts(userId, 5),
       fetchTopicPerformance(userId),
+      fetchDueReviewCount(userId),
     ]);
 
     return {
@@ -380,6 +365,7 @@ export async function fetchDashboardData(
       recentAttempts,
       strongTopics: topics.strongTopics,
       weakTopics: topics.weakTopics,
+      dueReviewCount,
       isLoading: false,
       error: null,
     };
@@ -390,6 +376,7 @@ export async function fetchDashboardData(
       recentAttempts: [],
       strongTopics: [],
       weakTopics: [],
+      dueReviewCount: 0,
       isLoading: false,
       error: "Failed to load dashboard data",
     };
@@ -454,71 +441,6 @@ function calculateImprovement(attempts: AttemptWithTimestamp[]): number {
   return improvement;
 }
 
-async function deriveTopicsFromAttempts(
-  userId: string,
-): Promise<{ strongTopics: string[]; weakTopics: string[] }> {
-  try {
-    // Fetch completed attempts with exam details
-    const { data: attempts, error } = await supabase
-      .from("exam_attempts")
-      .select(
-        `
-        percentage,
-        exam:exams(subject)
-      `,
-      )
-      .eq("user_id", userId)
-      .eq("status", "completed");
-
-    if (error || !attempts || attempts.length === 0) {
-      return { strongTopics: [], weakTopics: [] };
-    }
-
-    // Group by subject
-    const subjectScores: Record<string, number[]> = {};
-
-    const typedAttempts = attempts as Array<{
-      percentage: number | null;
-      exam: { subject?: string };
-    }>;
-    typedAttempts.forEach((attempt) => {
-      const subject = attempt.exam?.subject;
-      if (subject && attempt.percentage !== null) {
-        if (!subjectScores[subject]) {
-          subjectScores[subject] = [];
-        }
-        subjectScores[subject].push(attempt.percentage);
-      }
-    });
-
-    // Calculate average per subject
-    const subjectAverages = Object.entries(subjectScores).map(
-      ([subject, scores]) => ({
-        subject,
-        average: Math.round(scores.reduce((a, b) => a + b, 0) / scores.length),
-      }),
-    );
-
-    // Sort by average
-    subjectAverages.sort((a, b) => b.average - a.average);
-
-    const strongTopics = subjectAverages
-      .filter((s) => s.average >= 70)
-      .map((s) => formatSubjectName(s.subject))
-      .slice(0, 3);
-
-    const weakTopics = subjectAverages
-      .filter((s) => s.average < 60 && s.average > 0)
-      .map((s) => formatSubjectName(s.subject))
-      .slice(0, 3);
-
-    return { strongTopics, weakTopics };
-  } catch (err) {
-    console.error("Error deriving topics:", err);
-    return { strongTopics: [], weakTopics: [] };
-  }
-}
-
 function formatSubjectName(subject: string): string {
   // Convert database subject names to display names
   const subjectMap: Record<string, string> = {
@@ -544,12 +466,17 @@ function formatSubjectName(subject: string): string {
 // ============================================
 // UPDATE USER PROGRESS AFTER EXAM
 // ============================================
+// Activity totals per subject / exam type. correct_answers and
+// total_questions_answered count questions, so average_score is the share
+// of questions answered correctly; best_score is the best attempt
+// percentage (points based). Strengths come from skill mastery instead.
 
 export async function updateUserProgress(
   userId: string,
   examId: string,
-  score: number,
-  totalQuestions: number,
+  correctCount: number,
+  questionCount: number,
+  percentage: number,
   timeSpent: number,
 ): Promise<void> {
   try {
@@ -593,17 +520,16 @@ export async function updateUserProgress(
       return;
     }
 
-    const percentage = Math.round((score / totalQuestions) * 100);
-
     if (existingProgress) {
       // Update existing progress
       const newTotalAttempts = existingProgress.total_attempts + 1;
       const newTotalQuestions =
-        existingProgress.total_questions_answered + totalQuestions;
-      const newCorrectAnswers = existingProgress.correct_answers + score;
-      const newAverageScore = Math.round(
-        (newCorrectAnswers / newTotalQuestions) * 100,
-      );
+        existingProgress.total_questions_answered + questionCount;
+      const newCorrectAnswers = existingProgress.correct_answers + correctCount;
+      const newAverageScore =
+        newTotalQuestions > 0
+          ? Math.round((newCorrectAnswers / newTotalQuestions) * 100)
+          : 0;
       const newBestScore = Math.max(
         existingProgress.best_score || 0,
         percentage,
@@ -630,9 +556,12 @@ export async function updateUserProgress(
         subject: exam.subject,
         exam_type: exam.exam_type,
         total_attempts: 1,
-        total_questions_answered: totalQuestions,
-        correct_answers: score,
-        average_score: percentage,
+        total_questions_answered: questionCount,
+        correct_answers: correctCount,
+        average_score:
+          questionCount > 0
+            ? Math.round((correctCount / questionCount) * 100)
+            : 0,
         best_score: percentage,
         total_time_spent_seconds: timeSpent,
         last_activity_at: new Date().toISOString(),
@@ -0,0 +1,109 @@
+// Exam timer service - the attempt clock is owned by the server
+// (deadline_at on exam_attempts, see migration 007). The client only
+// displays it, correcting for the difference between device and server time.
+// ============================================
+
+import { supabase } from "./supabase";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AttemptClock {
+  attempt_id: string;
+  status: "in_progress" | "completed" | "abandoned";
+  server_now: string;
+  started_at: string;
+  deadline_at: string | null;
+  paused_at: string | null;
+  duration_seconds: number | null;
+  extension_seconds: number;
+  remaining_seconds: number;
+  // Server time minus device time when the clock was fetched
+  offsetMs: number;
+}
+
+// ============================================
+// FETCH CLOCK
+// ============================================
+
+async function callClockRpc(
+  fn: "get_attempt_clock" | "pause_exam_attempt" | "resume_exam_attempt",
+  attemptId: string,
+): Promise<AttemptClock | null> {
+  try {
+    const requestedAt = Date.now();
+    const { data, error } = await supabase.rpc(fn, {
+      p_attempt_id: attemptId,
+    } as never);
+
+    if (error) {
+      console.error(`Error calling ${fn}:`, error);
+      return null;
+    }
+
+    if (!data) return null;
+
+    // Assume the server read its clock halfway through the round trip
+    const receivedAt = Date.now();
+    const clock = data as unknown as Omit<AttemptClock, "offsetMs">;
+    const offsetMs =
+      new Date(clock.server_now).getTime() - (requestedAt + receivedAt) / 2;
+
+    return { ...clock, offsetMs };
+  } catch (err) {
+    console.error(`Error in ${fn}:`, err);
+    return null;
+  }
+}
+
+export function fetchAttemptClock(
+  attemptId: string,
+): Promise<AttemptClock | null> {
+  return callClockRpc("get_attempt_clock", attemptId);
+}
+
+// ============================================
+// PAUSE / RESUME (exams with allow_pause only)
+// ============================================
+
+export function pauseAttempt(attemptId: string): Promise<AttemptClock | null> {
+  return callClockRpc("pause_exam_attempt", attemptId);
+}
+
+export function resumeAttempt(
+  attemptId: string,
+): Promise<AttemptClock | null> {
+  return callClockRpc("resume_exam_attempt", attemptId);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Seconds left on the attempt clock, using server time
+ */
+export function getRemainingSeconds(clock: AttemptClock): number {
+  if (clock.status !== "in_progress" || !clock.deadline_at) return 0;
+
+  const deadline = new Date(clock.deadline_at).getTime();
+  const now = clock.paused_at
+    ? new Date(clock.paused_at).getTime()
+    : Date.now() + clock.offsetMs;
+
+  return Math.max(0, Math.floor((deadline - now) / 1000));
+}
+
+/**
+ * True when a save was rejected because the attempt's deadline has passed
+ */
+export function isDeadlineError(
+  error: { message?: string; hint?: string } | null,
+): boolean {
+  if (!error) return false;
+  return (
+    error.hint === "deadline_passed" ||
+    (error.message || "").includes("Time is up")
+  );
+}
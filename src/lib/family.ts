@@ -0,0 +1,196 @@
+// Family accounts (migration 023) - a parent account owns child profiles,
+// each a login of its own with a username and PIN. Child logins are
+// created and changed by the manage-child-account edge function.
+// ============================================
+
+import { supabase } from "./supabase";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ChildProfile {
+  id: string;
+  full_name: string | null;
+  display_name: string | null;
+  username: string;
+  year_level: number | null;
+  created_at: string;
+}
+
+export interface NewChildProfile {
+  fullName: string;
+  username: string;
+  pin: string;
+  yearLevel: number | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Keep in step with the manage-child-account edge function
+export const CHILD_LOGIN_DOMAIN = "children.eduassess.local";
+// Also enforced by check_child_profile_limit() in migration 023
+export const MAX_CHILD_PROFILES = 3;
+export const CHILD_PIN_LENGTH = 6;
+
+const USERNAME_PATTERN = /^[a-z0-9_]{3,20}$/;
+
+// ============================================
+// LOGIN
+// ============================================
+
+/**
+ * The auth address behind a child's username
+ */
+export function childLoginEmail(username: string): string {
+  return `${username.trim().toLowerCase()}@${CHILD_LOGIN_DOMAIN}`;
+}
+
+/**
+ * Problem with a new child's details, or null when they are fine
+ */
+export function validateChildProfile(child: NewChildProfile): string | null {
+  if (!child.fullName.trim()) return "Please enter your child's name";
+  if (!USERNAME_PATTERN.test(child.username.trim().toLowerCase())) {
+    return "Usernames are 3-20 lowercase letters, numbers or underscores";
+  }
+  return validateChildPin(child.pin);
+}
+
+export function validateChildPin(pin: string): string | null {
+  return new RegExp(`^\\d{${CHILD_PIN_LENGTH}}$`).test(pin)
+    ? null
+    : `The PIN must be ${CHILD_PIN_LENGTH} digits`;
+}
+
+// ============================================
+// FETCH
+// ============================================
+
+export async function fetchChildProfiles(
+  parentId: string,
+): Promise<ChildProfile[]> {
+  try {
+    const { data, error } = await supabase
+      .from("user_profiles")
+      .select("id, full_name, display_name, username, year_level, created_at")
+      .eq("parent_id", parentId)
+      .order("created_at");
+
+    if (error) {
+      console.error("Error fetching child profiles:", error);
+      return [];
+    }
+
+    return (data || []) as ChildProfile[];
+  } catch (err) {
+    console.error("Error in fetchChildProfiles:", err);
+    return [];
+  }
+}
+
+export function getChildName(child: ChildProfile): string {
+  return child.display_name || child.full_name?.split(" ")[0] || child.username;
+}
+
+// ============================================
+// MANAGE
+// ============================================
+
+/**
+ * Turns the signed-in student's own account into a parent account
+ */
+export async function becomeParentAccount(
+  userId: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("user_profiles")
+      .update({ role: "parent", updated_at: new Date().toISOString() } as never)
+      .eq("id", userId);
+
+    if (error) {
+      console.error("Error switching to a parent account:", error);
+      return { success: false, error: "Failed to set up a family account" };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in becomeParentAccount:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export async function createChildProfile(
+  child: NewChildProfile,
+): Promise<{ childId: string } | { error: string }> {
+  const invalid = validateChildProfile(child);
+  if (invalid) return { error: invalid };
+
+  return invokeManageChild(
+    {
+      action: "create",
+      fullName: child.fullName.trim(),
+      username: child.username.trim().toLowerCase(),
+      pin: child.pin,
+      yearLevel: child.yearLevel,
+    },
+    "Failed to add child profile",
+  );
+}
+
+export async function resetChildPin(
+  childId: string,
+  pin: string,
+): Promise<{ childId: string } | { error: string }> {
+  const invalid = validateChildPin(pin);
+  if (invalid) return { error: invalid };
+
+  return invokeManageChild(
+    { action: "reset-pin", childId, pin },
+    "Failed to change the PIN",
+  );
+}
+
+export async function removeChildProfile(
+  childId: string,
+): Promise<{ childId: string } | { error: string }> {
+  return invokeManageChild(
+    { action: "remove", childId },
+    "Failed to remove child profile",
+  );
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+async function invokeManageChild(
+  body: Record<string, unknown>,
+  fallbackError: string,
+): Promise<{ childId: string } | { error: string }> {
+  try {
+    const { data, error } = await supabase.functions.invoke(
+      "manage-child-account",
+      { body },
+    );
+
+    if (error) {
+      console.error("Manage child account error:", error);
+      // Non-2xx responses carry the function's own message
+      const details = await error.context?.json?.().catch(() => null);
+      return { error: details?.error || fallbackError };
+    }
+
+    if (!data?.childId) {
+      return { error: fallbackError };
+    }
+
+    return { childId: data.childId };
+  } catch (err) {
+    console.error("Error in manage-child-account:", err);
+    return { error: "An unexpected error occurred" };
+  }
+}
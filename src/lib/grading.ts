@@ -0,0 +1,146 @@
+// Grading service - exam attempts are scored server-side by the
+// grade_exam_attempt() Postgres function (see migration 006)
+// ============================================
+
+import { supabase } from "./supabase";
+import type { AttemptQuestionResult } from "../types/supabase";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface GradeResult {
+  attempt_id: string;
+  score: number;
+  total_points: number;
+  percentage: number;
+  correct_count: number;
+  question_count: number;
+  time_spent_seconds: number;
+  already_graded: boolean;
+}
+
+export interface AnswerKeyEntry {
+  question_id: string;
+  correct_answer: string;
+  explanation: string | null;
+  answer_explanation: unknown;
+  blanks: unknown;
+}
+
+// ============================================
+// QUESTION COLUMNS VISIBLE TO STUDENTS
+// ============================================
+
+// correct_answer, explanation and answer_explanation are not granted to
+// students, so `select("*")` on questions fails. Use this list instead.
+export const PLAYER_QUESTION_COLUMNS = [
+  "id",
+  "exam_id",
+  "question_number",
+  "question_text",
+  "question_type",
+  "options",
+  "points",
+  "image_url",
+  "hint",
+  "content",
+  "options_data",
+  "match_targets",
+  "hint_content",
+  "difficulty",
+  "topic",
+  "skill",
+  "numeric_tolerance",
+  "audio_path",
+  "stimulus_id",
+  "spelling_pattern",
+  "testlet_id",
+].join(", ");
+
+// ============================================
+// SUBMIT ATTEMPT FOR GRADING
+// ============================================
+
+export async function submitAttemptForGrading(
+  attemptId: string,
+): Promise<{ result: GradeResult } | { error: string }> {
+  try {
+    const { data, error } = await supabase.rpc("grade_exam_attempt", {
+      p_attempt_id: attemptId,
+    } as never);
+
+    if (error) {
+      console.error("Grading error:", error);
+      return { error: error.message || "Failed to grade exam" };
+    }
+
+    if (!data) {
+      return { error: "No grading result returned" };
+    }
+
+    return { result: data as unknown as GradeResult };
+  } catch (err) {
+    console.error("Error in submitAttemptForGrading:", err);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+// ============================================
+// FETCH ANSWER KEY (completed attempts only)
+// ============================================
+
+export async function fetchAnswerKey(
+  attemptId: string,
+): Promise<Map<string, AnswerKeyEntry>> {
+  const answerKey = new Map<string, AnswerKeyEntry>();
+
+  try {
+    const { data, error } = await supabase.rpc("get_attempt_answer_key", {
+      p_attempt_id: attemptId,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching answer key:", error);
+      return answerKey;
+    }
+
+    ((data || []) as AnswerKeyEntry[]).forEach((entry) => {
+      answerKey.set(entry.question_id, entry);
+    });
+  } catch (err) {
+    console.error("Error in fetchAnswerKey:", err);
+  }
+
+  return answerKey;
+}
+
+// ============================================
+// FETCH PER-QUESTION RESULTS
+// ============================================
+
+export async function fetchQuestionResults(
+  attemptId: string,
+): Promise<Map<string, AttemptQuestionResult>> {
+  const results = new Map<string, AttemptQuestionResult>();
+
+  try {
+    const { data, error } = await supabase
+      .from("attempt_question_results")
+      .select("*")
+      .eq("attempt_id", attemptId);
+
+    if (error) {
+      console.error("Error fetching question results:", error);
+      return results;
+    }
+
+    ((data || []) as AttemptQuestionResult[]).forEach((row) => {
+      results.set(row.question_id, row);
+    });
+  } catch (err) {
+    console.error("Error in fetchQuestionResults:", err);
+  }
+
+  return results;
+}
@@ -0,0 +1,158 @@
+// Exam integrity service - anti-cheating events are appended live to
+// exam_violations and the exam's policy is applied server-side
+// (log_exam_violation(), see migration 009)
+// ============================================
+
+import { supabase } from "./supabase";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ViolationType =
+  "tab_switch" | "copy" | "paste" | "right_click" | "other";
+
+export type ViolationPolicy = "warn" | "auto_submit";
+
+export interface ExamViolation {
+  id: string;
+  attempt_id: string;
+  violation_type: ViolationType;
+  occurred_at: string;
+  ended_at: string | null;
+  question_id: string | null;
+  details: Record<string, unknown>;
+}
+
+export interface ViolationLogResult {
+  violation_id: string;
+  tab_switches: number;
+  max_tab_switches: number;
+  policy: ViolationPolicy;
+  action: "warn" | "auto_submitted";
+}
+
+export interface IntegritySummary {
+  total: number;
+  counts: Record<ViolationType, number>;
+  tabSwitches: number;
+  timeAwaySeconds: number;
+  timeline: ExamViolation[];
+}
+
+export const VIOLATION_LABELS: Record<ViolationType, string> = {
+  tab_switch: "Left the exam tab",
+  copy: "Tried to copy",
+  paste: "Tried to paste",
+  right_click: "Right-clicked",
+  other: "Blocked shortcut",
+};
+
+// ============================================
+// LOG VIOLATIONS
+// ============================================
+
+export async function recordViolation(
+  attemptId: string,
+  type: ViolationType,
+  questionId?: string,
+): Promise<ViolationLogResult | null> {
+  try {
+    const { data, error } = await supabase.rpc("log_exam_violation", {
+      p_attempt_id: attemptId,
+      p_type: type,
+      p_question_id: questionId ?? null,
+    } as never);
+
+    if (error) {
+      console.error("Error logging violation:", error);
+      return null;
+    }
+
+    return data as unknown as ViolationLogResult;
+  } catch (err) {
+    console.error("Error in recordViolation:", err);
+    return null;
+  }
+}
+
+/**
+ * Marks the end of a tab switch so the time away can be reported
+ */
+export async function endViolation(violationId: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc("end_exam_violation", {
+      p_violation_id: violationId,
+    } as never);
+
+    if (error) {
+      console.error("Error ending violation:", error);
+    }
+  } catch (err) {
+    console.error("Error in endViolation:", err);
+  }
+}
+
+// ============================================
+// FETCH VIOLATIONS
+// ============================================
+
+export async function fetchViolations(
+  attemptId: string,
+): Promise<ExamViolation[]> {
+  try {
+    const { data, error } = await supabase
+      .from("exam_violations")
+      .select("*")
+      .eq("attempt_id", attemptId)
+      .order("occurred_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching violations:", error);
+      return [];
+    }
+
+    return (data || []) as ExamViolation[];
+  } catch (err) {
+    console.error("Error in fetchViolations:", err);
+    return [];
+  }
+}
+
+// ============================================
+// SUMMARY
+// ============================================
+
+export function summarizeViolations(
+  violations: ExamViolation[],
+): IntegritySummary {
+  const counts: Record<ViolationType, number> = {
+    tab_switch: 0,
+    copy: 0,
+    paste: 0,
+    right_click: 0,
+    other: 0,
+  };
+  let timeAwaySeconds = 0;
+
+  violations.forEach((v) => {
+    counts[v.violation_type] = (counts[v.violation_type] || 0) + 1;
+    if (v.violation_type === "tab_switch" && v.ended_at) {
+      timeAwaySeconds += Math.max(
+        0,
+        Math.round(
+          (new Date(v.ended_at).getTime() - new Date(v.occurred_at).getTime()) /
+            1000,
+        ),
+      );
+    }
+  });
+
+  return {
+    total: violations.length,
+    counts,
+    tabSwitches: counts.tab_switch,
+    timeAwaySeconds,
+    timeline: violations,
+  };
+}
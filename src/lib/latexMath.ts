@@ -0,0 +1,729 @@
+// LaTeX maths for math content blocks - one parse tree drives both the
+// MathML shown on screen (native browser MathML, so screen readers get real
+// maths) and the words read aloud by textToSpeech.ts
+// ============================================
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MathNode =
+  | { type: "number"; value: string }
+  | { type: "identifier"; value: string; speech?: string }
+  | { type: "operator"; value: string }
+  | { type: "row"; children: MathNode[] }
+  | { type: "frac"; numerator: MathNode; denominator: MathNode }
+  | { type: "sqrt"; radicand: MathNode; index?: MathNode }
+  | { type: "scripts"; base: MathNode; sub?: MathNode; sup?: MathNode }
+  | { type: "text"; value: string }
+  | { type: "fenced"; open: string; close: string; body: MathNode }
+  | { type: "space"; width: number }
+  | { type: "table"; environment: string; rows: MathNode[][] }
+  | { type: "accent"; accent: AccentKind; base: MathNode }
+  | { type: "error"; value: string };
+
+type AccentKind = "overline" | "underline" | "bar" | "vec" | "hat";
+
+// ============================================
+// SYMBOL TABLES
+// ============================================
+
+const OPERATOR_COMMANDS: Record<string, string> = {
+  times: "×",
+  div: "÷",
+  pm: "±",
+  mp: "∓",
+  cdot: "⋅",
+  le: "≤",
+  leq: "≤",
+  ge: "≥",
+  geq: "≥",
+  ne: "≠",
+  neq: "≠",
+  lt: "<",
+  gt: ">",
+  approx: "≈",
+  equiv: "≡",
+  sim: "∼",
+  propto: "∝",
+  to: "→",
+  rightarrow: "→",
+  leftarrow: "←",
+  Rightarrow: "⇒",
+  Leftrightarrow: "⇔",
+  angle: "∠",
+  triangle: "△",
+  parallel: "∥",
+  perp: "⊥",
+  circ: "∘",
+  degree: "°",
+  therefore: "∴",
+  because: "∵",
+  in: "∈",
+  notin: "∉",
+  cup: "∪",
+  cap: "∩",
+  subset: "⊂",
+  ldots: "…",
+  cdots: "⋯",
+  dots: "…",
+  sum: "∑",
+  prod: "∏",
+  int: "∫",
+  colon: ":",
+  mid: "|",
+  "%": "%",
+  $: "$",
+  "#": "#",
+  "&": "&",
+  _: "_",
+  "{": "{",
+  "}": "}",
+};
+
+const IDENTIFIER_COMMANDS: Record<string, [string, string]> = {
+  alpha: ["α", "alpha"],
+  beta: ["β", "beta"],
+  gamma: ["γ", "gamma"],
+  delta: ["δ", "delta"],
+  epsilon: ["ϵ", "epsilon"],
+  theta: ["θ", "theta"],
+  lambda: ["λ", "lambda"],
+  mu: ["μ", "mu"],
+  pi: ["π", "pi"],
+  rho: ["ρ", "rho"],
+  sigma: ["σ", "sigma"],
+  tau: ["τ", "tau"],
+  phi: ["ϕ", "phi"],
+  omega: ["ω", "omega"],
+  Gamma: ["Γ", "capital gamma"],
+  Delta: ["Δ", "capital delta"],
+  Theta: ["Θ", "capital theta"],
+  Pi: ["Π", "capital pi"],
+  Sigma: ["Σ", "capital sigma"],
+  Omega: ["Ω", "capital omega"],
+  infty: ["∞", "infinity"],
+  emptyset: ["∅", "the empty set"],
+};
+
+const FUNCTION_NAMES = [
+  "sin",
+  "cos",
+  "tan",
+  "sec",
+  "csc",
+  "cot",
+  "log",
+  "ln",
+  "exp",
+  "min",
+  "max",
+  "lim",
+];
+
+const TEXT_COMMANDS = [
+  "text",
+  "textrm",
+  "textit",
+  "textbf",
+  "mathrm",
+  "mathit",
+  "mathbf",
+  "mbox",
+  "operatorname",
+];
+
+const SPACE_COMMANDS: Record<string, number> = {
+  ",": 0.167,
+  ":": 0.222,
+  ">": 0.222,
+  ";": 0.278,
+  " ": 0.25,
+  quad: 1,
+  qquad: 2,
+  "!": 0,
+};
+
+const ACCENT_COMMANDS: Record<string, AccentKind> = {
+  overline: "overline",
+  underline: "underline",
+  bar: "bar",
+  vec: "vec",
+  overrightarrow: "vec",
+  hat: "hat",
+  widehat: "hat",
+};
+
+// Style switches with no effect on the tree
+const IGNORED_COMMANDS = [
+  "displaystyle",
+  "textstyle",
+  "limits",
+  "nolimits",
+  "left.",
+];
+
+const DELIMITERS: Record<string, string> = {
+  "(": "(",
+  ")": ")",
+  "[": "[",
+  "]": "]",
+  "|": "|",
+  ".": "",
+  "\\{": "{",
+  "\\}": "}",
+  "\\|": "‖",
+  "\\langle": "⟨",
+  "\\rangle": "⟩",
+  "\\lbrace": "{",
+  "\\rbrace": "}",
+  "\\vert": "|",
+};
+
+const OPERATOR_CHARS = "+-=<>()[]|,;:!/*'°%$×÷±≤≥≠≈";
+
+// ============================================
+// PARSER
+// ============================================
+
+/**
+ * Parse a LaTeX maths string into a MathNode tree. Never throws - unknown
+ * commands become error nodes so the rest of the expression still renders.
+ */
+export function parseLatex(latex: string): MathNode {
+  let pos = 0;
+
+  const skipSpace = () => {
+    while (pos < latex.length && /\s/.test(latex[pos])) pos++;
+  };
+
+  const isLetter = (ch: string | undefined) => !!ch && /[a-zA-Z]/.test(ch);
+
+  // Name of the command at pos (without the backslash), without consuming
+  const peekCommand = (): string | null => {
+    if (latex[pos] !== "\\") return null;
+    let end = pos + 1;
+    if (isLetter(latex[end])) {
+      while (isLetter(latex[end])) end++;
+    } else {
+      end++;
+    }
+    return latex.slice(pos + 1, end);
+  };
+
+  const readCommand = (): string => {
+    const name = peekCommand() ?? "";
+    pos += name.length + 1;
+    return name;
+  };
+
+  // Raw contents of a {...} group (for \text and \begin), or one character
+  const readRawGroup = (): string => {
+    skipSpace();
+    if (latex[pos] !== "{") return latex[pos++] ?? "";
+    let depth = 1;
+    const start = ++pos;
+    while (pos < latex.length && depth > 0) {
+      if (latex[pos] === "\\") pos++;
+      else if (latex[pos] === "{") depth++;
+      else if (latex[pos] === "}") depth--;
+      pos++;
+    }
+    return latex.slice(start, pos - 1);
+  };
+
+  const atTerminator = (terminators: string[]): boolean =>
+    terminators.some((t) => {
+      if (!latex.startsWith(t, pos)) return false;
+      // "\right" must not match "\rightarrow"
+      return !(
+        t.startsWith("\\") &&
+        isLetter(t[1]) &&
+        isLetter(latex[pos + t.length])
+      );
+    });
+
+  const toRow = (children: MathNode[]): MathNode =>
+    children.length === 1 ? children[0] : { type: "row", children };
+
+  const parseRow = (terminators: string[]): MathNode[] => {
+    const children: MathNode[] = [];
+    for (;;) {
+      skipSpace();
+      if (pos >= latex.length || atTerminator(terminators)) break;
+      const node = parseWithScripts();
+      if (node) children.push(node);
+    }
+    return children;
+  };
+
+  const parseGroup = (): MathNode => {
+    pos++; // {
+    const children = parseRow(["}"]);
+    if (latex[pos] === "}") pos++;
+    return { type: "row", children };
+  };
+
+  // Argument of \frac, ^, _ etc: a group, a command or a single character
+  const parseArgument = (): MathNode => {
+    skipSpace();
+    if (latex[pos] === "{") return parseGroup();
+    if (latex[pos] === "\\")
+      return parseAtom() ?? { type: "row", children: [] };
+    const ch = latex[pos++];
+    if (ch === undefined) return { type: "row", children: [] };
+    if (/[0-9]/.test(ch)) return { type: "number", value: ch };
+    return charNode(ch);
+  };
+
+  const parseWithScripts = (): MathNode | null => {
+    let base = parseAtom();
+    if (!base) return null;
+
+    for (;;) {
+      skipSpace();
+      const ch = latex[pos];
+      if (ch !== "^" && ch !== "_" && ch !== "'") break;
+      pos++;
+
+      const scripts: { sub?: MathNode; sup?: MathNode } =
+        base.type === "scripts" ? { sub: base.sub, sup: base.sup } : {};
+      const inner: MathNode = base.type === "scripts" ? base.base : base;
+
+      if (ch === "'") scripts.sup = { type: "operator", value: "′" };
+      else if (ch === "^") scripts.sup = parseArgument();
+      else scripts.sub = parseArgument();
+
+      base = { type: "scripts", base: inner, ...scripts };
+    }
+    return base;
+  };
+
+  const readDelimiter = (): string => {
+    skipSpace();
+    if (latex[pos] === "\\") {
+      const name = "\\" + readCommand();
+      return DELIMITERS[name] ?? "";
+    }
+    const ch = latex[pos++] ?? "";
+    return DELIMITERS[ch] ?? ch;
+  };
+
+  const parseEnvironment = (environment: string): MathNode => {
+    const rows: MathNode[][] = [];
+    let row: MathNode[] = [];
+    for (;;) {
+      row.push(toRow(parseRow(["&", "\\\\", "\\end"])));
+      if (latex.startsWith("&", pos)) {
+        pos++;
+      } else if (latex.startsWith("\\\\", pos)) {
+        pos += 2;
+        rows.push(row);
+        row = [];
+      } else {
+        break;
+      }
+    }
+    rows.push(row);
+    if (peekCommand() === "end") {
+      readCommand();
+      readRawGroup();
+    }
+    return { type: "table", environment, rows };
+  };
+
+  const parseCommand = (): MathNode | null => {
+    const name = readCommand();
+
+    if (["frac", "dfrac", "tfrac", "cfrac"].includes(name)) {
+      const numerator = parseArgument();
+      return { type: "frac", numerator, denominator: parseArgument() };
+    }
+
+    if (name === "sqrt") {
+      skipSpace();
+      let index: MathNode | undefined;
+      if (latex[pos] === "[") {
+        pos++;
+        index = toRow(parseRow(["]"]));
+        if (latex[pos] === "]") pos++;
+      }
+      return { type: "sqrt", radicand: parseArgument(), index };
+    }
+
+    if (TEXT_COMMANDS.includes(name)) {
+      return { type: "text", value: readRawGroup() };
+    }
+
+    if (name === "left") {
+      const open = readDelimiter();
+      const body = toRow(parseRow(["\\right"]));
+      let close = "";
+      if (peekCommand() === "right") {
+        readCommand();
+        close = readDelimiter();
+      }
+      return { type: "fenced", open, close, body };
+    }
+
+    if (name === "begin") {
+      return parseEnvironment(readRawGroup());
+    }
+
+    if (name in ACCENT_COMMANDS) {
+      return {
+        type: "accent",
+        accent: ACCENT_COMMANDS[name],
+        base: parseArgument(),
+      };
+    }
+
+    if (name in SPACE_COMMANDS) {
+      return { type: "space", width: SPACE_COMMANDS[name] };
+    }
+
+    if (name in OPERATOR_COMMANDS) {
+      return { type: "operator", value: OPERATOR_COMMANDS[name] };
+    }
+
+    if (name in IDENTIFIER_COMMANDS) {
+      const [value, speech] = IDENTIFIER_COMMANDS[name];
+      return { type: "identifier", value, speech };
+    }
+
+    if (FUNCTION_NAMES.includes(name)) {
+      return { type: "identifier", value: name };
+    }
+
+    // Line breaks outside an environment and style switches
+    if (name === "\\" || IGNORED_COMMANDS.includes(name)) return null;
+
+    return { type: "error", value: "\\" + name };
+  };
+
+  const parseAtom = (): MathNode | null => {
+    skipSpace();
+    const ch = latex[pos];
+    if (ch === undefined) return null;
+
+    if (ch === "\\") return parseCommand();
+    if (ch === "{") return parseGroup();
+
+    if (
+      /[0-9]/.test(ch) ||
+      (ch === "." && /[0-9]/.test(latex[pos + 1] ?? ""))
+    ) {
+      // Trailing point allowed so 0.\overline{3} keeps "0." together
+      const match = latex.slice(pos).match(/^[0-9]*\.?[0-9]*/);
+      const value = match ? match[0] : ch;
+      pos += value.length;
+      return { type: "number", value };
+    }
+
+    pos++;
+    if (ch === "}" || ch === "&") return null;
+    if (ch === "~") return { type: "space", width: 0.25 };
+    return charNode(ch);
+  };
+
+  const root = parseRow([]);
+  return { type: "row", children: root };
+}
+
+function charNode(ch: string): MathNode {
+  if (ch === "-") return { type: "operator", value: "−" };
+  if (ch === "*") return { type: "operator", value: "×" };
+  if (OPERATOR_CHARS.includes(ch)) return { type: "operator", value: ch };
+  return { type: "identifier", value: ch };
+}
+
+// ============================================
+// MATHML
+// ============================================
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const ACCENT_MARKS: Record<AccentKind, string> = {
+  overline: "‾",
+  underline: "_",
+  bar: "¯",
+  vec: "→",
+  hat: "^",
+};
+
+const TABLE_FENCES: Record<string, [string, string]> = {
+  pmatrix: ["(", ")"],
+  bmatrix: ["[", "]"],
+  vmatrix: ["|", "|"],
+  cases: ["{", ""],
+};
+
+export function mathToMathML(node: MathNode): string {
+  switch (node.type) {
+    case "number":
+      return `<mn>${escapeXml(node.value)}</mn>`;
+    case "identifier":
+      return `<mi>${escapeXml(node.value)}</mi>`;
+    case "operator":
+      return `<mo>${escapeXml(node.value)}</mo>`;
+    case "text":
+      return `<mtext>${escapeXml(node.value)}</mtext>`;
+    case "space":
+      return `<mspace width="${node.width}em"></mspace>`;
+    case "error":
+      return `<merror><mtext>${escapeXml(node.value)}</mtext></merror>`;
+    case "row":
+      return `<mrow>${node.children.map(mathToMathML).join("")}</mrow>`;
+    case "frac":
+      return `<mfrac>${mathToMathML(node.numerator)}${mathToMathML(node.denominator)}</mfrac>`;
+    case "sqrt":
+      return node.index
+        ? `<mroot>${mathToMathML(node.radicand)}${mathToMathML(node.index)}</mroot>`
+        : `<msqrt>${mathToMathML(node.radicand)}</msqrt>`;
+    case "scripts": {
+      const base = mathToMathML(node.base);
+      if (node.sub && node.sup) {
+        return `<msubsup>${base}${mathToMathML(node.sub)}${mathToMathML(node.sup)}</msubsup>`;
+      }
+      if (node.sup) return `<msup>${base}${mathToMathML(node.sup)}</msup>`;
+      return `<msub>${base}${mathToMathML(node.sub as MathNode)}</msub>`;
+    }
+    case "fenced":
+      return `<mrow>${fence(node.open)}${mathToMathML(node.body)}${fence(node.close)}</mrow>`;
+    case "accent": {
+      const mark = `<mo stretchy="true">${escapeXml(ACCENT_MARKS[node.accent])}</mo>`;
+      return node.accent === "underline"
+        ? `<munder accentunder="true">${mathToMathML(node.base)}${mark}</munder>`
+        : `<mover accent="true">${mathToMathML(node.base)}${mark}</mover>`;
+    }
+    case "table": {
+      const align = node.environment === "cases" ? ' columnalign="left"' : "";
+      const table = `<mtable${align}>${node.rows
+        .map(
+          (row) =>
+            `<mtr>${row.map((cell) => `<mtd>${mathToMathML(cell)}</mtd>`).join("")}</mtr>`,
+        )
+        .join("")}</mtable>`;
+      const [open, close] = TABLE_FENCES[node.environment] ?? ["", ""];
+      return `<mrow>${fence(open)}${table}${fence(close)}</mrow>`;
+    }
+  }
+}
+
+function fence(delimiter: string): string {
+  return delimiter
+    ? `<mo fence="true" stretchy="true">${escapeXml(delimiter)}</mo>`
+    : "";
+}
+
+/**
+ * Complete <math> element. The LaTeX source is kept as an annotation and
+ * the spoken form as alttext for assistive tech without MathML support.
+ */
+export function latexToMathML(
+  latex: string,
+  display: "inline" | "block" = "inline",
+): string {
+  const tree = parseLatex(latex);
+  return (
+    `<math xmlns="http://www.w3.org/1998/Math/MathML" display="${display}"` +
+    ` alttext="${escapeXml(mathToSpeech(tree))}">` +
+    `<semantics>${mathToMathML(tree)}` +
+    `<annotation encoding="application/x-tex">${escapeXml(latex)}</annotation>` +
+    `</semantics></math>`
+  );
+}
+
+// ============================================
+// SPEECH
+// ============================================
+
+const OPERATOR_SPEECH: Record<string, string> = {
+  "+": "plus",
+  "−": "minus",
+  "=": "equals",
+  "<": "is less than",
+  ">": "is greater than",
+  "×": "times",
+  "⋅": "times",
+  "÷": "divided by",
+  "/": "divided by",
+  "±": "plus or minus",
+  "∓": "minus or plus",
+  "≤": "is less than or equal to",
+  "≥": "is greater than or equal to",
+  "≠": "is not equal to",
+  "≈": "is approximately equal to",
+  "≡": "is equivalent to",
+  "∝": "is proportional to",
+  "(": "open bracket",
+  ")": "close bracket",
+  "[": "open bracket",
+  "]": "close bracket",
+  "{": "",
+  "}": "",
+  "|": "",
+  "%": "percent",
+  "°": "degrees",
+  ":": "to",
+  "!": "factorial",
+  "′": "prime",
+  "∠": "angle",
+  "△": "triangle",
+  "∥": "is parallel to",
+  "⊥": "is perpendicular to",
+  "→": "to",
+  "∴": "therefore",
+  "…": "and so on",
+  "⋯": "and so on",
+  "∈": "is in",
+  "∪": "union",
+  "∩": "intersection",
+};
+
+const UNIT_SPEECH: Record<string, string> = {
+  mm: "millimetres",
+  cm: "centimetres",
+  m: "metres",
+  km: "kilometres",
+  mg: "milligrams",
+  g: "grams",
+  kg: "kilograms",
+  t: "tonnes",
+  mL: "millilitres",
+  L: "litres",
+  kL: "kilolitres",
+  s: "seconds",
+  min: "minutes",
+  h: "hours",
+  ha: "hectares",
+};
+
+const ORDINAL_ROOTS: Record<string, string> = {
+  "2": "square",
+  "3": "cube",
+};
+
+// Plain numbers and letters read naturally without "the fraction ... end"
+function isSimple(node: MathNode): boolean {
+  if (node.type === "row") {
+    return node.children.length === 1 && isSimple(node.children[0]);
+  }
+  return node.type === "number" || node.type === "identifier";
+}
+
+function plainValue(node: MathNode): string | null {
+  if (node.type === "row" && node.children.length === 1) {
+    return plainValue(node.children[0]);
+  }
+  if (node.type === "number" || node.type === "operator") return node.value;
+  return null;
+}
+
+function speakRow(children: MathNode[]): string[] {
+  return children.map((child, i) => {
+    const previous = children[i - 1];
+    // A leading minus, or one straight after another operator, is a sign
+    if (
+      child.type === "operator" &&
+      child.value === "−" &&
+      (!previous ||
+        (previous.type === "operator" && !")]".includes(previous.value)))
+    ) {
+      return "negative";
+    }
+    return mathToSpeech(child);
+  });
+}
+
+function joinWords(words: string[]): string {
+  return words
+    .filter((word) => word !== "")
+    .join(" ")
+    .replace(/\$ /g, "$")
+    .replace(/ ,/g, ",")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function mathToSpeech(node: MathNode): string {
+  switch (node.type) {
+    case "number":
+      return node.value.endsWith(".")
+        ? `${node.value.slice(0, -1)} point`
+        : node.value;
+    case "identifier":
+      return node.speech ?? node.value;
+    case "operator":
+      return OPERATOR_SPEECH[node.value] ?? node.value;
+    case "text":
+      return UNIT_SPEECH[node.value.trim()] ?? node.value.trim();
+    case "space":
+      return "";
+    case "error":
+      return node.value.replace(/\\/g, "");
+    case "row":
+      return joinWords(speakRow(node.children));
+    case "frac": {
+      const top = mathToSpeech(node.numerator);
+      const bottom = mathToSpeech(node.denominator);
+      return isSimple(node.numerator) && isSimple(node.denominator)
+        ? `${top} over ${bottom}`
+        : `the fraction ${top}, over ${bottom}, end fraction`;
+    }
+    case "sqrt": {
+      const index = node.index ? plainValue(node.index) : "2";
+      const root = index
+        ? (ORDINAL_ROOTS[index] ?? `${index}th`)
+        : mathToSpeech(node.index as MathNode);
+      const radicand = mathToSpeech(node.radicand);
+      return isSimple(node.radicand)
+        ? `the ${root} root of ${radicand}`
+        : `the ${root} root of ${radicand}, end root`;
+    }
+    case "scripts": {
+      const words = [mathToSpeech(node.base)];
+      if (node.sub) words.push("sub", mathToSpeech(node.sub));
+      if (node.sup) {
+        const power = plainValue(node.sup);
+        if (power === "2") words.push("squared");
+        else if (power === "3") words.push("cubed");
+        else if (power === "∘" || power === "°") words.push("degrees");
+        else if (power === "′") words.push("prime");
+        else words.push("to the power of", mathToSpeech(node.sup));
+      }
+      return joinWords(words);
+    }
+    case "fenced": {
+      const open = OPERATOR_SPEECH[node.open] ?? "";
+      const close = OPERATOR_SPEECH[node.close] ?? "";
+      return joinWords([open, mathToSpeech(node.body), close]);
+    }
+    case "accent": {
+      const base = mathToSpeech(node.base);
+      if (node.accent === "overline") {
+        // 0.\overline{3} is a recurring decimal, \overline{AB} a segment
+        return /^[0-9]+$/.test(plainValue(node.base) ?? "")
+          ? `${base} recurring`
+          : `line segment ${base}`;
+      }
+      if (node.accent === "vec") return `vector ${base}`;
+      if (node.accent === "hat") return `${base} hat`;
+      if (node.accent === "bar") return `${base} bar`;
+      return base;
+    }
+    case "table":
+      return node.rows
+        .map((row) => row.map(mathToSpeech).filter(Boolean).join(", "))
+        .join("; ");
+  }
+}
+
+export function latexToSpeech(latex: string): string {
+  return mathToSpeech(parseLatex(latex));
+}
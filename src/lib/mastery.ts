@@ -0,0 +1,153 @@
+// Skill mastery (migration 021) - a Bayesian knowledge tracing estimate
+// per topic and skill, updated on the server from every graded question
+// ============================================
+
+import { supabase } from "./supabase";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MasteryConfidence = "low" | "medium" | "high";
+
+export interface SkillMastery {
+  subject: string;
+  topic: string;
+  // null for the topic as a whole
+  skill: string | null;
+  // 0-100, the chance the skill is known
+  mastery: number;
+  observations: number;
+  correctCredit: number;
+  confidence: MasteryConfidence;
+  lastPracticedAt: string | null;
+}
+
+export interface TopicMastery extends SkillMastery {
+  // The topic's least mastered skill, when its skills are tagged
+  weakestSkill: SkillMastery | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Observations needed for each confidence level
+export const MASTERY_CONFIDENCE: Record<MasteryConfidence, number> = {
+  low: 0,
+  medium: 5,
+  high: 12,
+};
+
+export const MASTERY_CONFIDENCE_LABELS: Record<MasteryConfidence, string> = {
+  low: "Early estimate",
+  medium: "Fairly sure",
+  high: "Confident",
+};
+
+// Topics need this many graded questions before they are called strong/weak
+export const MIN_MASTERY_OBSERVATIONS = 3;
+
+export const STRONG_MASTERY = 80;
+export const WEAK_MASTERY = 50;
+
+export function getMasteryConfidence(observations: number): MasteryConfidence {
+  if (observations >= MASTERY_CONFIDENCE.high) return "high";
+  if (observations >= MASTERY_CONFIDENCE.medium) return "medium";
+  return "low";
+}
+
+// ============================================
+// FETCH
+// ============================================
+
+export async function fetchSkillMastery(
+  userId: string,
+): Promise<SkillMastery[]> {
+  try {
+    const { data, error } = await supabase
+      .from("skill_mastery")
+      .select(
+        "subject, topic, skill, p_mastery, observations, correct_credit, last_practiced_at",
+      )
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error fetching skill mastery:", error);
+      return [];
+    }
+
+    return ((data || []) as Record<string, unknown>[]).map((row) => {
+      const observations = Number(row.observations) || 0;
+      return {
+        subject: row.subject as string,
+        topic: row.topic as string,
+        skill: (row.skill as string) || null,
+        mastery: Math.round((Number(row.p_mastery) || 0) * 100),
+        observations,
+        correctCredit: Number(row.correct_credit) || 0,
+        confidence: getMasteryConfidence(observations),
+        lastPracticedAt: (row.last_practiced_at as string) || null,
+      };
+    });
+  } catch (err) {
+    console.error("Error in fetchSkillMastery:", err);
+    return [];
+  }
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+/**
+ * Topic-level estimates, each with its weakest skill
+ */
+export function getTopicMastery(rows: SkillMastery[]): TopicMastery[] {
+  return rows
+    .filter((row) => row.skill === null)
+    .map((topic) => {
+      const skills = rows
+        .filter(
+          (row) =>
+            row.skill !== null &&
+            row.subject === topic.subject &&
+            row.topic === topic.topic &&
+            row.observations >= MIN_MASTERY_OBSERVATIONS,
+        )
+        .sort((a, b) => a.mastery - b.mastery);
+      return { ...topic, weakestSkill: skills[0] || null };
+    });
+}
+
+/**
+ * Strongest and weakest topics with enough evidence to say so. Ties go to
+ * the estimate we are surer of.
+ */
+export function rankTopicMastery(
+  rows: SkillMastery[],
+  limit: number = 3,
+): { strongTopics: TopicMastery[]; weakTopics: TopicMastery[] } {
+  const topics = getTopicMastery(rows).filter(
+    (t) => t.observations >= MIN_MASTERY_OBSERVATIONS,
+  );
+
+  const strongTopics = topics
+    .filter((t) => t.mastery >= STRONG_MASTERY)
+    .sort((a, b) => b.mastery - a.mastery || b.observations - a.observations)
+    .slice(0, limit);
+
+  const weakTopics = topics
+    .filter((t) => t.mastery < WEAK_MASTERY)
+    .sort((a, b) => a.mastery - b.mastery || b.observations - a.observations)
+    .slice(0, limit);
+
+  return { strongTopics, weakTopics };
+}
+
+/**
+ * e.g. "Fractions › Equivalent fractions"
+ */
+export function formatMasteryName(row: SkillMastery): string {
+  return row.skill ? `${row.topic} › ${row.skill}` : row.topic;
+}
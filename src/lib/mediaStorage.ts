@@ -158,3 +158,33 @@ export function parseSupabaseStorageUrl(
   }
   return null;
 }
+
+export const QUESTION_MEDIA_BUCKET = "question-media";
+
+/**
+ * Upload a file to the private question-media bucket (admins only, see
+ * migration 013). Returns the bucket/path pair stored on content blocks.
+ */
+export async function uploadQuestionMedia(
+  file: File,
+  folder: string,
+): Promise<{ bucket: string; path: string } | null> {
+  const safeName = file.name.toLowerCase().replace(/[^a-z0-9.]+/g, "-");
+  const path = `${folder.replace(/\/+$/, "")}/${Date.now()}-${safeName}`;
+
+  try {
+    const { error } = await supabase.storage
+      .from(QUESTION_MEDIA_BUCKET)
+      .upload(path, file, { contentType: file.type, upsert: false });
+
+    if (error) {
+      console.error("Error uploading media:", error);
+      return null;
+    }
+
+    return { bucket: QUESTION_MEDIA_BUCKET, path };
+  } catch (err) {
+    console.error("Error in uploadQuestionMedia:", err);
+    return null;
+  }
+}
@@ -0,0 +1,167 @@
+// NAPLAN score scales - converts a raw mark to an estimated scaled score,
+// band and proficiency level using the exam's row in exam_score_scales
+// (see migration 012)
+// ============================================
+
+import { supabase } from "./supabase";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ProficiencyLevel =
+  "exceeding" | "strong" | "developing" | "needs_support";
+
+export interface ScoreScale {
+  exam_id: string;
+  raw_to_scaled: Array<[number, number]>;
+  band_cutoffs: Array<{ band: number; min_scaled: number }>;
+  proficiency_cutoffs: Array<{ level: ProficiencyLevel; min_scaled: number }>;
+  national_mean_scaled: number | null;
+  source: string | null;
+}
+
+export interface ScaledResult {
+  scaledScore: number;
+  band: number | null;
+  proficiency: ProficiencyLevel | null;
+  nationalMean: number | null;
+}
+
+export const PROFICIENCY_LABELS: Record<ProficiencyLevel, string> = {
+  exceeding: "Exceeding",
+  strong: "Strong",
+  developing: "Developing",
+  needs_support: "Needs additional support",
+};
+
+// ============================================
+// FETCH SCALES
+// ============================================
+
+export async function fetchScoreScale(
+  examId: string,
+): Promise<ScoreScale | null> {
+  try {
+    const { data, error } = await supabase
+      .from("exam_score_scales")
+      .select("*")
+      .eq("exam_id", examId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching score scale:", error);
+      return null;
+    }
+
+    return normalizeScoreScale(data);
+  } catch (err) {
+    console.error("Error in fetchScoreScale:", err);
+    return null;
+  }
+}
+
+/**
+ * Scales for several exams at once, keyed by exam id (history/dashboard)
+ */
+export async function fetchScoreScales(
+  examIds: string[],
+): Promise<Map<string, ScoreScale>> {
+  const scales = new Map<string, ScoreScale>();
+  if (examIds.length === 0) return scales;
+
+  try {
+    const { data, error } = await supabase
+      .from("exam_score_scales")
+      .select("*")
+      .in("exam_id", [...new Set(examIds)]);
+
+    if (error) {
+      console.error("Error fetching score scales:", error);
+      return scales;
+    }
+
+    (data || []).forEach((row) => {
+      const scale = normalizeScoreScale(row);
+      if (scale) scales.set(scale.exam_id, scale);
+    });
+    return scales;
+  } catch (err) {
+    console.error("Error in fetchScoreScales:", err);
+    return scales;
+  }
+}
+
+function normalizeScoreScale(row: unknown): ScoreScale | null {
+  if (!row || typeof row !== "object") return null;
+  const scale = row as ScoreScale;
+  if (!Array.isArray(scale.raw_to_scaled) || scale.raw_to_scaled.length < 2) {
+    return null;
+  }
+  return {
+    ...scale,
+    raw_to_scaled: [...scale.raw_to_scaled].sort((a, b) => a[0] - b[0]),
+    band_cutoffs: Array.isArray(scale.band_cutoffs) ? scale.band_cutoffs : [],
+    proficiency_cutoffs: Array.isArray(scale.proficiency_cutoffs)
+      ? scale.proficiency_cutoffs
+      : [],
+  };
+}
+
+// ============================================
+// ESTIMATION
+// ============================================
+
+/**
+ * Linear interpolation between the scale's anchor points. When the attempt
+ * was marked out of a different total (exam edited since the scale was
+ * set) the raw mark is rescaled to the scale's maximum first.
+ */
+export function toScaledScore(
+  scale: ScoreScale,
+  rawScore: number,
+  totalPoints?: number | null,
+): number {
+  const anchors = scale.raw_to_scaled;
+  const maxRaw = anchors[anchors.length - 1][0];
+  const raw =
+    totalPoints && totalPoints > 0 && totalPoints !== maxRaw
+      ? (rawScore / totalPoints) * maxRaw
+      : rawScore;
+
+  if (raw <= anchors[0][0]) return anchors[0][1];
+  for (let i = 1; i < anchors.length; i++) {
+    const [x1, y1] = anchors[i];
+    if (raw <= x1) {
+      const [x0, y0] = anchors[i - 1];
+      return Math.round(y0 + ((raw - x0) / (x1 - x0)) * (y1 - y0));
+    }
+  }
+  return anchors[anchors.length - 1][1];
+}
+
+function findCutoff<T extends { min_scaled: number }>(
+  cutoffs: T[],
+  scaledScore: number,
+): T | null {
+  return (
+    [...cutoffs]
+      .sort((a, b) => b.min_scaled - a.min_scaled)
+      .find((c) => scaledScore >= c.min_scaled) || null
+  );
+}
+
+export function estimateScaledResult(
+  scale: ScoreScale,
+  rawScore: number,
+  totalPoints?: number | null,
+): ScaledResult {
+  const scaledScore = toScaledScore(scale, rawScore, totalPoints);
+  return {
+    scaledScore,
+    band: findCutoff(scale.band_cutoffs, scaledScore)?.band ?? null,
+    proficiency:
+      findCutoff(scale.proficiency_cutoffs, scaledScore)?.level ?? null,
+    nationalMean: scale.national_mean_scaled,
+  };
+}
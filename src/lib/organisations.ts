@@ -0,0 +1,737 @@
+// Organisation licensing (migration 026) - a school buys a pool of Premium
+// seats and its org admins offer them to students and staff by email; a
+// seat is taken when the person accepts. Org admins are invited the same
+// way. A seat counts for Premium alongside a personal subscription.
+// ============================================
+
+import { supabase } from "./supabase";
+import type { SubscriptionStatus } from "./stripe";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type OrganisationStatus = Exclude<SubscriptionStatus, "free">;
+
+export interface Organisation {
+  id: string;
+  name: string;
+  seat_limit: number;
+  status: OrganisationStatus;
+  current_period_end: string | null;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ManagedOrganisation extends Organisation {
+  seatsUsed: number;
+}
+
+export interface OrganisationPerson {
+  user_id: string;
+  email: string;
+  full_name: string | null;
+  display_name: string | null;
+}
+
+// get_organisation_admins() - only a name and email each
+export interface OrganisationAdmin {
+  user_id: string;
+  name: string;
+  email: string;
+}
+
+export interface OrganisationSeat extends OrganisationPerson {
+  id: string;
+  assigned_at: string;
+}
+
+// Offered and not answered yet - holds a seat
+export interface SeatInvite {
+  email: string;
+  created_at: string;
+}
+
+// An org admin invited and not answered yet
+export type AdminInvite = SeatInvite;
+
+// Same for every email, account or not
+export interface SeatInviteResult {
+  invited: number;
+  already_seated: string[];
+  // Didn't fit in the seats left
+  no_seat: string[];
+}
+
+// A seat offered to the signed-in user
+export interface MySeatInvite {
+  organisation_id: string;
+  organisation_name: string;
+  invited_at: string;
+}
+
+// An organisation asking the signed-in user to be one of its admins
+export type MyAdminInvite = MySeatInvite;
+
+export interface MemberUsage {
+  seat_id: string;
+  user_id: string;
+  name: string;
+  email: string;
+  assigned_at: string;
+  last_active_at: string | null;
+  exams_completed: number;
+  average_score: number | null;
+  time_spent_seconds: number;
+}
+
+// get_organisation_usage() - current seat holders over the last `days`
+export interface OrganisationUsage {
+  organisation_id: string;
+  name: string;
+  days: number;
+  seat_limit: number;
+  seats_used: number;
+  active_users: number;
+  exams_completed: number;
+  average_score: number | null;
+  time_spent_seconds: number;
+  members: MemberUsage[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Also enforced by invite_organisation_seats()
+export const MAX_SEAT_INVITES = 500;
+export const USAGE_PERIODS = [7, 30, 90] as const;
+
+const EMAIL_PATTERN = /^[^@\s]+@[^@\s]+\.[^@\s]+$/;
+
+// ============================================
+// HELPERS
+// ============================================
+
+export function getPersonName(person: OrganisationPerson): string {
+  return person.display_name || person.full_name || person.email;
+}
+
+// Same rule as has_premium_access() in migration 026
+export function isLicenceCurrent(organisation: Organisation): boolean {
+  return (
+    (organisation.status === "active" || organisation.status === "trialing") &&
+    (!organisation.current_period_end ||
+      new Date(organisation.current_period_end) > new Date())
+  );
+}
+
+/**
+ * Splits pasted text - one per line, or separated by commas, semicolons
+ * or spaces - into unique lowercase emails, and whatever didn't look like
+ * one.
+ */
+export function parseEmailList(text: string): {
+  emails: string[];
+  invalid: string[];
+} {
+  const emails = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const entry of text.split(/[\s,;]+/)) {
+    const email = entry.trim().toLowerCase();
+    if (!email) continue;
+    if (EMAIL_PATTERN.test(email)) {
+      emails.add(email);
+    } else {
+      invalid.push(entry.trim());
+    }
+  }
+
+  return { emails: [...emails], invalid };
+}
+
+// Seats point at auth.users, so profiles come separately
+async function fetchPeople(
+  userIds: string[],
+): Promise<(Omit<OrganisationPerson, "user_id"> & { id: string })[]> {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("user_profiles")
+    .select("id, email, full_name, display_name")
+    .in("id", userIds);
+
+  if (error) {
+    console.error("Error fetching organisation members:", error);
+    return [];
+  }
+
+  return (data || []) as (Omit<OrganisationPerson, "user_id"> & {
+    id: string;
+  })[];
+}
+
+// ============================================
+// ORGANISATIONS
+// ============================================
+
+/**
+ * The organisations a user manages, with their seats in use. Platform
+ * admins pass `all` to see every organisation.
+ */
+export async function fetchManagedOrganisations(
+  userId: string,
+  all = false,
+): Promise<ManagedOrganisation[]> {
+  try {
+    let query = supabase
+      .from("organisations")
+      .select(
+        all
+          ? "*, organisation_seats(count)"
+          : "*, organisation_admins!inner(user_id), organisation_seats(count)",
+      )
+      .is("organisation_seats.revoked_at", null)
+      .order("name");
+
+    if (!all) {
+      query = query.eq("organisation_admins.user_id", userId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching organisations:", error);
+      return [];
+    }
+
+    return (
+      (data || []) as unknown as (Organisation & {
+        organisation_admins?: unknown;
+        organisation_seats: { count: number }[];
+      })[]
+    ).map(
+      ({
+        organisation_admins: _admins,
+        organisation_seats,
+        ...organisation
+      }) => ({
+        ...organisation,
+        seatsUsed: organisation_seats[0]?.count || 0,
+      }),
+    );
+  } catch (err) {
+    console.error("Error in fetchManagedOrganisations:", err);
+    return [];
+  }
+}
+
+export async function fetchOrganisation(
+  organisationId: string,
+): Promise<Organisation | null> {
+  try {
+    const { data, error } = await supabase
+      .from("organisations")
+      .select("*")
+      .eq("id", organisationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching organisation:", error);
+      return null;
+    }
+
+    return data as Organisation | null;
+  } catch (err) {
+    console.error("Error in fetchOrganisation:", err);
+    return null;
+  }
+}
+
+/**
+ * The organisation whose seat gives this user Premium, if any - for
+ * showing where their Premium comes from.
+ */
+export async function fetchSeatOrganisation(
+  userId: string,
+): Promise<Organisation | null> {
+  try {
+    const { data, error } = await supabase
+      .from("organisation_seats")
+      .select("organisations(*)")
+      .eq("user_id", userId)
+      .is("revoked_at", null);
+
+    if (error) {
+      console.error("Error fetching seat organisation:", error);
+      return null;
+    }
+
+    const organisations = (
+      (data || []) as unknown as { organisations: Organisation | null }[]
+    )
+      .map((seat) => seat.organisations)
+      .filter((o): o is Organisation => !!o);
+
+    return organisations.find(isLicenceCurrent) || null;
+  } catch (err) {
+    console.error("Error in fetchSeatOrganisation:", err);
+    return null;
+  }
+}
+
+/**
+ * Platform admins only. The first org admin gets an invite, like any other.
+ */
+export async function createOrganisation(
+  name: string,
+  seatLimit: number,
+  adminEmail: string,
+): Promise<{ organisationId: string } | { error: string }> {
+  if (!name.trim()) return { error: "Give the organisation a name" };
+  if (!Number.isInteger(seatLimit) || seatLimit < 0) {
+    return { error: "Seats must be a whole number" };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc("create_organisation", {
+      p_name: name.trim(),
+      p_seat_limit: seatLimit,
+      p_admin_email: adminEmail.trim(),
+    } as never);
+
+    if (error) {
+      console.error("Error creating organisation:", error);
+      return { error: error.message || "Failed to create the organisation" };
+    }
+
+    return { organisationId: data as unknown as string };
+  } catch (err) {
+    console.error("Error in createOrganisation:", err);
+    return { error: "Failed to create the organisation" };
+  }
+}
+
+// Platform admins only - a Stripe-billed licence is kept in step by the
+// webhook instead
+export async function updateSeatLimit(
+  organisationId: string,
+  seatLimit: number,
+): Promise<{ success: boolean; error?: string }> {
+  if (!Number.isInteger(seatLimit) || seatLimit < 0) {
+    return { success: false, error: "Seats must be a whole number" };
+  }
+
+  try {
+    const { error } = await supabase
+      .from("organisations")
+      .update({ seat_limit: seatLimit } as never)
+      .eq("id", organisationId);
+
+    if (error) {
+      console.error("Error updating seat limit:", error);
+      return { success: false, error: "Failed to update the seat limit" };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in updateSeatLimit:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// ============================================
+// ORG ADMINS
+// ============================================
+
+/**
+ * Empty for anyone who isn't one of them (or a platform admin)
+ */
+export async function fetchOrganisationAdmins(
+  organisationId: string,
+): Promise<OrganisationAdmin[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_organisation_admins", {
+      p_organisation_id: organisationId,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching organisation admins:", error);
+      return [];
+    }
+
+    return (data || []) as OrganisationAdmin[];
+  } catch (err) {
+    console.error("Error in fetchOrganisationAdmins:", err);
+    return [];
+  }
+}
+
+export async function fetchAdminInvites(
+  organisationId: string,
+): Promise<AdminInvite[]> {
+  try {
+    const { data, error } = await supabase
+      .from("organisation_admin_invites")
+      .select("email, created_at")
+      .eq("organisation_id", organisationId)
+      .order("email");
+
+    if (error) {
+      console.error("Error fetching admin invites:", error);
+      return [];
+    }
+
+    return (data || []) as AdminInvite[];
+  } catch (err) {
+    console.error("Error in fetchAdminInvites:", err);
+    return [];
+  }
+}
+
+/**
+ * Invites someone to help manage the organisation. They become an admin
+ * by accepting; the answer is the same whether or not the email has an
+ * account.
+ */
+export async function inviteOrganisationAdmin(
+  organisationId: string,
+  email: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc("invite_organisation_admin", {
+      p_organisation_id: organisationId,
+      p_email: email.trim(),
+    } as never);
+
+    if (error) {
+      console.error("Error inviting organisation admin:", error);
+      return {
+        success: false,
+        error: error.message || "Failed to send the invite",
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in inviteOrganisationAdmin:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+export async function cancelAdminInvite(
+  organisationId: string,
+  email: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("organisation_admin_invites")
+      .delete()
+      .eq("organisation_id", organisationId)
+      .eq("email", email);
+
+    if (error) {
+      console.error("Error cancelling admin invite:", error);
+      return { success: false, error: "Failed to cancel the invite" };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in cancelAdminInvite:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Admin invites to the signed-in user's confirmed email
+ */
+export async function fetchMyAdminInvites(): Promise<MyAdminInvite[]> {
+  try {
+    const { data, error } = await supabase.rpc(
+      "get_my_organisation_admin_invites",
+    );
+
+    if (error) {
+      console.error("Error fetching admin invites:", error);
+      return [];
+    }
+
+    return (data || []) as MyAdminInvite[];
+  } catch (err) {
+    console.error("Error in fetchMyAdminInvites:", err);
+    return [];
+  }
+}
+
+/**
+ * Accept (become an org admin) or decline an admin invite
+ */
+export async function respondToAdminInvite(
+  organisationId: string,
+  accept: boolean,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc(
+      "respond_to_organisation_admin_invite",
+      {
+        p_organisation_id: organisationId,
+        p_accept: accept,
+      } as never,
+    );
+
+    if (error) {
+      console.error("Error answering admin invite:", error);
+      return {
+        success: false,
+        error: error.message || "Failed to answer the invite",
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in respondToAdminInvite:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// Org admins can't remove themselves (see the policy in migration 026)
+export async function removeOrganisationAdmin(
+  organisationId: string,
+  userId: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("organisation_admins")
+      .delete()
+      .eq("organisation_id", organisationId)
+      .eq("user_id", userId);
+
+    if (error) {
+      console.error("Error removing organisation admin:", error);
+      return { success: false, error: "Failed to remove the admin" };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in removeOrganisationAdmin:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// ============================================
+// SEATS
+// ============================================
+
+export async function fetchOrganisationSeats(
+  organisationId: string,
+): Promise<OrganisationSeat[]> {
+  try {
+    const { data, error } = await supabase
+      .from("organisation_seats")
+      .select("id, user_id, assigned_at")
+      .eq("organisation_id", organisationId)
+      .is("revoked_at", null);
+
+    if (error) {
+      console.error("Error fetching seats:", error);
+      return [];
+    }
+
+    const seats = (data || []) as {
+      id: string;
+      user_id: string;
+      assigned_at: string;
+    }[];
+    const people = await fetchPeople(seats.map((s) => s.user_id));
+
+    return seats
+      .map((seat) => {
+        const person = people.find((p) => p.id === seat.user_id);
+        return {
+          ...seat,
+          email: person?.email || "",
+          full_name: person?.full_name ?? null,
+          display_name: person?.display_name ?? null,
+        };
+      })
+      .sort((a, b) => getPersonName(a).localeCompare(getPersonName(b)));
+  } catch (err) {
+    console.error("Error in fetchOrganisationSeats:", err);
+    return [];
+  }
+}
+
+export async function fetchSeatInvites(
+  organisationId: string,
+): Promise<SeatInvite[]> {
+  try {
+    const { data, error } = await supabase
+      .from("organisation_seat_invites")
+      .select("email, created_at")
+      .eq("organisation_id", organisationId)
+      .order("email");
+
+    if (error) {
+      console.error("Error fetching seat invites:", error);
+      return [];
+    }
+
+    return (data || []) as SeatInvite[];
+  } catch (err) {
+    console.error("Error in fetchSeatInvites:", err);
+    return [];
+  }
+}
+
+/**
+ * Offers seats by email. Each person takes theirs by accepting the invite.
+ */
+export async function inviteToSeats(
+  organisationId: string,
+  emails: string[],
+): Promise<SeatInviteResult | { error: string }> {
+  if (emails.length === 0) return { error: "No emails to invite" };
+  if (emails.length > MAX_SEAT_INVITES) {
+    return { error: `Invite up to ${MAX_SEAT_INVITES} people at a time` };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc("invite_organisation_seats", {
+      p_organisation_id: organisationId,
+      p_emails: emails,
+    } as never);
+
+    if (error) {
+      console.error("Error inviting to seats:", error);
+      return { error: error.message || "Failed to send the invites" };
+    }
+
+    return data as unknown as SeatInviteResult;
+  } catch (err) {
+    console.error("Error in inviteToSeats:", err);
+    return { error: "Failed to send the invites" };
+  }
+}
+
+export async function cancelSeatInvite(
+  organisationId: string,
+  email: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from("organisation_seat_invites")
+      .delete()
+      .eq("organisation_id", organisationId)
+      .eq("email", email);
+
+    if (error) {
+      console.error("Error cancelling seat invite:", error);
+      return { success: false, error: "Failed to cancel the invite" };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in cancelSeatInvite:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Seats offered to the signed-in user's confirmed email
+ */
+export async function fetchMySeatInvites(): Promise<MySeatInvite[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_my_seat_invites");
+
+    if (error) {
+      console.error("Error fetching seat invites:", error);
+      return [];
+    }
+
+    return (data || []) as MySeatInvite[];
+  } catch (err) {
+    console.error("Error in fetchMySeatInvites:", err);
+    return [];
+  }
+}
+
+/**
+ * Accept (take the seat) or decline a seat invite
+ */
+export async function respondToSeatInvite(
+  organisationId: string,
+  accept: boolean,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc("respond_to_seat_invite", {
+      p_organisation_id: organisationId,
+      p_accept: accept,
+    } as never);
+
+    if (error) {
+      console.error("Error answering seat invite:", error);
+      return {
+        success: false,
+        error: error.message || "Failed to answer the invite",
+      };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in respondToSeatInvite:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Frees a seat for someone else. The holder loses Premium unless they
+ * subscribe themselves; their work is kept.
+ */
+export async function revokeSeat(
+  seatId: string,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase.rpc("revoke_organisation_seat", {
+      p_seat_id: seatId,
+    } as never);
+
+    if (error) {
+      console.error("Error revoking seat:", error);
+      return { success: false, error: "Failed to revoke the seat" };
+    }
+
+    return { success: true };
+  } catch (err) {
+    console.error("Error in revokeSeat:", err);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// ============================================
+// USAGE
+// ============================================
+
+export async function fetchOrganisationUsage(
+  organisationId: string,
+  days: number,
+): Promise<OrganisationUsage | { error: string }> {
+  try {
+    const { data, error } = await supabase.rpc("get_organisation_usage", {
+      p_organisation_id: organisationId,
+      p_days: days,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching organisation usage:", error);
+      return { error: "Failed to load usage" };
+    }
+
+    return data as unknown as OrganisationUsage;
+  } catch (err) {
+    console.error("Error in fetchOrganisationUsage:", err);
+    return { error: "Failed to load usage" };
+  }
+}
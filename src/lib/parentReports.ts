@@ -0,0 +1,114 @@
+// Weekly parent progress reports (migration 024) - the same report the
+// send-weekly-reports edge function emails, for the printable report page
+// ============================================
+
+import { supabase } from "./supabase";
+import { addDays } from "./studyPlan";
+
+// ============================================
+// TYPES
+// ============================================
+// Mirrors get_weekly_report() - keep in step with WeeklyReport in
+// supabase/functions/_shared/weeklyReport.ts
+
+export interface WeeklyReportExam {
+  attempt_id: string;
+  exam_id: string;
+  title: string;
+  subject: string;
+  percentage: number | null;
+  completed_at: string;
+  time_spent_seconds: number;
+  // Integrity violations logged during the attempt
+  flags: number;
+}
+
+export interface WeeklyReportTrendWeek {
+  week_start: string;
+  exams: number;
+  average_score: number | null;
+}
+
+export interface WeeklyReportSkill {
+  subject: string;
+  topic: string;
+  // null when the topic's questions aren't tagged with skills
+  skill: string | null;
+  mastery: number;
+  observations: number;
+}
+
+export interface WeeklyReportIntegrity {
+  total: number;
+  tab_switches: number;
+  copy_paste: number;
+  other: number;
+  time_away_seconds: number;
+  attempts_flagged: number;
+}
+
+export interface WeeklyReport {
+  student: {
+    id: string;
+    name: string;
+    year_level: number | null;
+    has_parent_account: boolean;
+  };
+  // Monday to Sunday, YYYY-MM-DD in Melbourne time
+  week_start: string;
+  week_end: string;
+  exams_taken: number;
+  average_score: number | null;
+  time_studied_seconds: number;
+  exams: WeeklyReportExam[];
+  // Oldest first, ending with this week
+  score_trend: WeeklyReportTrendWeek[];
+  weakest_skills: WeeklyReportSkill[];
+  integrity: WeeklyReportIntegrity;
+}
+
+// ============================================
+// WEEKS
+// ============================================
+
+export function previousReportWeek(weekStart: string): string {
+  return addDays(weekStart, -7);
+}
+
+export function nextReportWeek(weekStart: string): string {
+  return addDays(weekStart, 7);
+}
+
+// ============================================
+// FETCH
+// ============================================
+
+/**
+ * A student's report for the week starting weekStart (a Monday), or the
+ * last full week when not given
+ */
+export async function fetchWeeklyReport(
+  studentId: string,
+  weekStart?: string | null,
+): Promise<WeeklyReport | { error: string }> {
+  try {
+    const { data, error } = await supabase.rpc("get_weekly_report", {
+      p_student_id: studentId,
+      p_week_start: weekStart || null,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching weekly report:", error);
+      return { error: error.message || "Failed to load the report" };
+    }
+
+    return data as unknown as WeeklyReport;
+  } catch (err) {
+    console.error("Error in fetchWeeklyReport:", err);
+    return { error: "Failed to load the report" };
+  }
+}
+
+export function getReportSkillName(skill: WeeklyReportSkill): string {
+  return skill.skill ? `${skill.topic} › ${skill.skill}` : skill.topic;
+}
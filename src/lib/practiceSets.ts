@@ -0,0 +1,152 @@
+// Custom practice sets (migration 019) - Premium users pick topics, skills
+// and difficulty, and the server copies matching bank questions into a
+// personal exam that is taken like any other
+// ============================================
+
+import { supabase } from "./supabase";
+
+// ============================================
+// TYPES
+// ============================================
+
+// One row per subject, year level, topic, skill and difficulty
+export interface PracticeBankEntry {
+  subject: string;
+  year_level: number;
+  topic: string;
+  skill: string | null;
+  difficulty: string | null;
+  question_count: number;
+}
+
+export interface PracticeSetOptions {
+  title: string;
+  subject: string;
+  yearLevel: number | null;
+  topics: string[];
+  skills: string[];
+  difficulty: string;
+  questionCount: number;
+  durationMinutes: number;
+}
+
+export interface PracticeSet {
+  id: string;
+  title: string;
+  description: string | null;
+  subject: string;
+  year_level: number;
+  total_questions: number;
+  duration_minutes: number;
+  created_at: string;
+}
+
+// Keep in step with create_practice_set() in migration 019
+export const PRACTICE_QUESTION_LIMITS = { min: 5, max: 50 };
+export const PRACTICE_DURATION_LIMITS = { min: 5, max: 120 };
+
+// ============================================
+// BANK
+// ============================================
+
+export async function fetchPracticeBank(): Promise<PracticeBankEntry[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_practice_bank");
+
+    if (error) {
+      console.error("Error fetching practice bank:", error);
+      return [];
+    }
+
+    return ((data || []) as PracticeBankEntry[]).map((row) => ({
+      ...row,
+      question_count: Number(row.question_count) || 0,
+    }));
+  } catch (err) {
+    console.error("Error in fetchPracticeBank:", err);
+    return [];
+  }
+}
+
+/**
+ * Questions in the bank that match the options - the most a set can hold
+ */
+export function countMatchingQuestions(
+  bank: PracticeBankEntry[],
+  options: Pick<
+    PracticeSetOptions,
+    "subject" | "yearLevel" | "topics" | "skills" | "difficulty"
+  >,
+): number {
+  return bank
+    .filter(
+      (entry) =>
+        (!options.subject ||
+          entry.subject.toLowerCase() === options.subject.toLowerCase()) &&
+        (options.yearLevel === null ||
+          entry.year_level === options.yearLevel) &&
+        (options.topics.length === 0 || options.topics.includes(entry.topic)) &&
+        (options.skills.length === 0 ||
+          (!!entry.skill && options.skills.includes(entry.skill))) &&
+        (!options.difficulty || entry.difficulty === options.difficulty),
+    )
+    .reduce((sum, entry) => sum + entry.question_count, 0);
+}
+
+// ============================================
+// PRACTICE SETS
+// ============================================
+
+/**
+ * Builds the set and returns the new exam's id
+ */
+export async function createPracticeSet(
+  options: PracticeSetOptions,
+): Promise<{ examId: string } | { error: string }> {
+  try {
+    const { data, error } = await supabase.rpc("create_practice_set", {
+      p_title: options.title,
+      p_subject: options.subject,
+      p_year_level: options.yearLevel,
+      p_topics: options.topics,
+      p_skills: options.skills,
+      p_difficulty: options.difficulty,
+      p_question_count: options.questionCount,
+      p_duration_minutes: options.durationMinutes,
+    } as never);
+
+    if (error) {
+      console.error("Error creating practice set:", error);
+      return { error: error.message || "Failed to create practice set" };
+    }
+
+    return { examId: data as string };
+  } catch (err) {
+    console.error("Error in createPracticeSet:", err);
+    return { error: "Failed to create practice set" };
+  }
+}
+
+export async function fetchMyPracticeSets(
+  userId: string,
+): Promise<PracticeSet[]> {
+  try {
+    const { data, error } = await supabase
+      .from("exams")
+      .select(
+        "id, title, description, subject, year_level, total_questions, duration_minutes, created_at",
+      )
+      .eq("owner_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching practice sets:", error);
+      return [];
+    }
+
+    return (data || []) as PracticeSet[];
+  } catch (err) {
+    console.error("Error in fetchMyPracticeSets:", err);
+    return [];
+  }
+}
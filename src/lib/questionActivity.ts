@@ -0,0 +1,171 @@
+// Question activity - dwell time, visits and answer changes per question,
+// saved on exam_attempts.question_activity (see migration 010)
+// ============================================
+
+import { supabase } from "./supabase";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AnswerChange {
+  answer: string;
+  at: string;
+}
+
+export interface QuestionActivity {
+  time_spent_seconds: number;
+  visits: number;
+  changes: AnswerChange[];
+}
+
+export type QuestionActivityMap = Record<string, QuestionActivity>;
+
+export interface GradedAnswerChange {
+  question_id: string;
+  change_index: number;
+  answer: string;
+  changed_at: string;
+  credit: number;
+}
+
+export interface AnswerChangeInsights {
+  // Had the right answer at some point, submitted a wrong one
+  rightToWrong: string[];
+  // Fixed a wrong answer
+  wrongToRight: string[];
+  // Changed between wrong answers
+  wrongToWrong: string[];
+  totalChanges: number;
+}
+
+// Keystrokes in a text answer within this window count as one change
+const CHANGE_MERGE_WINDOW_MS = 3000;
+
+// ============================================
+// RECORDING (pure updaters used by the player)
+// ============================================
+
+function getActivity(
+  activity: QuestionActivityMap,
+  questionId: string,
+): QuestionActivity {
+  return (
+    activity[questionId] || { time_spent_seconds: 0, visits: 0, changes: [] }
+  );
+}
+
+export function recordVisit(
+  activity: QuestionActivityMap,
+  questionId: string,
+): QuestionActivityMap {
+  const current = getActivity(activity, questionId);
+  return {
+    ...activity,
+    [questionId]: { ...current, visits: current.visits + 1 },
+  };
+}
+
+export function recordTimeSpent(
+  activity: QuestionActivityMap,
+  questionId: string,
+  seconds: number,
+): QuestionActivityMap {
+  if (seconds <= 0) return activity;
+  const current = getActivity(activity, questionId);
+  return {
+    ...activity,
+    [questionId]: {
+      ...current,
+      time_spent_seconds:
+        Math.round((current.time_spent_seconds + seconds) * 10) / 10,
+    },
+  };
+}
+
+export function recordAnswerChange(
+  activity: QuestionActivityMap,
+  questionId: string,
+  answer: string,
+): QuestionActivityMap {
+  const current = getActivity(activity, questionId);
+  const now = new Date();
+  const last = current.changes[current.changes.length - 1];
+
+  const changes =
+    last && now.getTime() - new Date(last.at).getTime() < CHANGE_MERGE_WINDOW_MS
+      ? [...current.changes.slice(0, -1), { answer, at: now.toISOString() }]
+      : [...current.changes, { answer, at: now.toISOString() }];
+
+  return { ...activity, [questionId]: { ...current, changes } };
+}
+
+// ============================================
+// FETCH GRADED HISTORY (completed attempts only)
+// ============================================
+
+export async function fetchAnswerHistory(
+  attemptId: string,
+): Promise<GradedAnswerChange[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_attempt_answer_history", {
+      p_attempt_id: attemptId,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching answer history:", error);
+      return [];
+    }
+
+    return (data || []) as GradedAnswerChange[];
+  } catch (err) {
+    console.error("Error in fetchAnswerHistory:", err);
+    return [];
+  }
+}
+
+// ============================================
+// INSIGHTS
+// ============================================
+
+export function analyzeAnswerChanges(
+  history: GradedAnswerChange[],
+): AnswerChangeInsights {
+  const byQuestion = new Map<string, GradedAnswerChange[]>();
+  history.forEach((change) => {
+    const list = byQuestion.get(change.question_id) || [];
+    list.push(change);
+    byQuestion.set(change.question_id, list);
+  });
+
+  const insights: AnswerChangeInsights = {
+    rightToWrong: [],
+    wrongToRight: [],
+    wrongToWrong: [],
+    totalChanges: 0,
+  };
+
+  byQuestion.forEach((changes, questionId) => {
+    // Ignore cleared answers - only real answers count as a change
+    const answered = changes
+      .filter((c) => c.answer)
+      .sort((a, b) => a.change_index - b.change_index);
+    if (answered.length < 2) return;
+
+    insights.totalChanges += answered.length - 1;
+    const final = answered[answered.length - 1];
+    const earlier = answered.slice(0, -1);
+
+    if (final.credit >= 1) {
+      if (earlier.some((c) => c.credit < 1)) {
+        insights.wrongToRight.push(questionId);
+      }
+    } else if (earlier.some((c) => c.credit >= 1)) {
+      insights.rightToWrong.push(questionId);
+    } else {
+      insights.wrongToWrong.push(questionId);
+    }
+  });
+
+  return insights;
+}
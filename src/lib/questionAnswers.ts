@@ -0,0 +1,180 @@
+// Answer formats for each question type. Answers are stored as strings in
+// exam_attempts.answers and graded by grade_question() (see migration 008),
+// so the formats here must match the SQL parsers.
+// ============================================
+
+import type { QuestionOption, QuestionType } from "../types/question";
+
+// ============================================
+// QUESTION TYPES
+// ============================================
+
+/**
+ * Map legacy spellings (multiple_choice, true_false, mcq...) onto
+ * the RichQuestion question types
+ */
+export function normalizeQuestionType(type?: string | null): QuestionType {
+  const normalized = (type || "multiple-choice")
+    .toLowerCase()
+    .replace(/_/g, "-");
+
+  switch (normalized) {
+    case "multiple-select":
+    case "short-answer":
+    case "numeric":
+    case "fill-in-blank":
+    case "drag-drop":
+    case "matching":
+    case "extended-response":
+    case "dictation":
+      return normalized;
+    default:
+      // mcq, true-false and anything unknown are answered by picking an option
+      return "multiple-choice";
+  }
+}
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  "multiple-choice": "🔘 Choose one",
+  "multiple-select": "☑️ Choose all that apply",
+  "short-answer": "📝 Type answer",
+  numeric: "🔢 Type a number",
+  "fill-in-blank": "✏️ Fill in the blanks",
+  "drag-drop": "↕️ Put in order",
+  matching: "🔗 Match the pairs",
+  "extended-response": "✍️ Write a response",
+  dictation: "🎧 Spell the word",
+};
+
+// ============================================
+// SERIALISATION
+// ============================================
+
+/**
+ * multiple-select / drag-drop: JSON array of option ids
+ */
+export function parseAnswerList(answer?: string | null): string[] {
+  if (!answer) return [];
+  try {
+    const parsed = JSON.parse(answer);
+    if (Array.isArray(parsed)) return parsed.map(String);
+  } catch {
+    // Fall through to comma separated
+  }
+  return answer
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+export function serializeAnswerList(values: string[]): string {
+  return values.length > 0 ? JSON.stringify(values) : "";
+}
+
+/**
+ * fill-in-blank / matching: JSON object keyed by blank id or option id
+ */
+export function parseAnswerMap(answer?: string | null): Record<string, string> {
+  if (!answer) return {};
+  try {
+    const parsed = JSON.parse(answer);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return Object.fromEntries(
+        Object.entries(parsed).map(([key, value]) => [key, String(value)]),
+      );
+    }
+  } catch {
+    // Not a map - treat as unanswered
+  }
+  return {};
+}
+
+export function serializeAnswerMap(values: Record<string, string>): string {
+  const filled = Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value.trim() !== ""),
+  );
+  return Object.keys(filled).length > 0 ? JSON.stringify(filled) : "";
+}
+
+// ============================================
+// FILL IN THE BLANK
+// ============================================
+
+// Blanks are placed in question text with {{blank:<id>}}
+export const BLANK_PATTERN = /\{\{blank:([\w-]+)\}\}/g;
+
+export function extractBlankIds(text: string): string[] {
+  return Array.from(text.matchAll(BLANK_PATTERN), (match) => match[1]);
+}
+
+/**
+ * Legacy HTML question text: show numbered gaps matching "Blank 1, 2..."
+ */
+export function numberBlanks(html: string): string {
+  let count = 0;
+  return html.replace(BLANK_PATTERN, () => `<u>&nbsp;(${++count})&nbsp;</u>`);
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+
+/**
+ * Human readable answer for results and review screens
+ */
+export function formatAnswer(
+  question: {
+    question_type: string;
+    match_targets?: QuestionOption[];
+  },
+  answer?: string | null,
+): string {
+  if (!answer) return "";
+
+  const targetLabel = (id: string) => {
+    const target = question.match_targets?.find((t) => t.id === id);
+    return target?.text ? target.text.replace(/<[^>]*>/g, "") : id;
+  };
+
+  switch (normalizeQuestionType(question.question_type)) {
+    case "multiple-select":
+      return parseAnswerList(answer).join(", ");
+    case "drag-drop":
+      return parseAnswerList(answer).join(" → ");
+    case "fill-in-blank":
+      return Object.values(parseAnswerMap(answer)).join(", ");
+    case "matching":
+      return Object.entries(parseAnswerMap(answer))
+        .map(([optionId, targetId]) => `${optionId} → ${targetLabel(targetId)}`)
+        .join(", ");
+    case "extended-response":
+      // Sanitised editor HTML - show the words only
+      return answer
+        .replace(/<\/(p|div|li)>|<br\s*\/?>/gi, " ")
+        .replace(/<[^>]*>/g, "")
+        .replace(/&nbsp;/g, " ")
+        .trim();
+    default:
+      return answer;
+  }
+}
+
+/**
+ * The answer key in the same readable form as formatAnswer()
+ */
+export function formatCorrectAnswer(question: {
+  question_type: string;
+  correct_answer: string;
+  blanks?: unknown;
+  match_targets?: QuestionOption[];
+}): string {
+  if (
+    normalizeQuestionType(question.question_type) === "fill-in-blank" &&
+    Array.isArray(question.blanks)
+  ) {
+    return (question.blanks as { correct?: string }[])
+      .map((blank) => blank.correct || "")
+      .join(", ");
+  }
+  return formatAnswer(question, question.correct_answer);
+}
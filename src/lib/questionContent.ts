@@ -0,0 +1,99 @@
+// Question content helpers - normalise rich (migration 004) and legacy
+// question rows so the player and results pages render both the same way
+// ============================================
+
+import type { ContentBlock, QuestionOption } from "../types/question";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const OPTION_LETTERS = ["A", "B", "C", "D", "E", "F", "G", "H"];
+
+// ============================================
+// CONTENT BLOCKS
+// ============================================
+
+/**
+ * JSONB content columns come back as unknown - only accept block arrays
+ */
+export function toContentBlocks(value: unknown): ContentBlock[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(
+    (block): block is ContentBlock =>
+      typeof block === "object" && block !== null && "type" in block,
+  );
+}
+
+export function hasContentBlocks(value: unknown): boolean {
+  return toContentBlocks(value).length > 0;
+}
+
+// ============================================
+// OPTIONS
+// ============================================
+
+/**
+ * Options for a question, preferring rich options_data over the legacy
+ * options column. Legacy options get letter ids (A, B, C...) which is
+ * what stored answers and correct_answer use.
+ */
+export function getQuestionOptions(question: {
+  options?: unknown;
+  options_data?: unknown;
+}): QuestionOption[] {
+  if (Array.isArray(question.options_data) && question.options_data.length) {
+    return (question.options_data as Partial<QuestionOption>[]).map(
+      (opt, i) => ({
+        ...opt,
+        id: opt.id || OPTION_LETTERS[i],
+        content: toContentBlocks(opt.content),
+      }),
+    );
+  }
+
+  return parseLegacyOptions(question.options).map((text, i) => ({
+    id: OPTION_LETTERS[i],
+    text,
+  }));
+}
+
+/**
+ * Right-hand items for matching questions
+ */
+export function getMatchTargets(question: {
+  match_targets?: unknown;
+}): QuestionOption[] {
+  if (!Array.isArray(question.match_targets)) return [];
+  return (question.match_targets as Partial<QuestionOption>[]).map(
+    (target, i) => ({
+      ...target,
+      id: target.id || String(i + 1),
+      content: toContentBlocks(target.content),
+    }),
+  );
+}
+
+/**
+ * Legacy options column - an array of strings / {text} objects, or a
+ * JSON / comma separated string on very old rows
+ */
+function parseLegacyOptions(options: unknown): string[] {
+  if (!options) return [];
+  if (Array.isArray(options)) {
+    return options.map((o) =>
+      typeof o === "string" ? o : String(o?.text ?? o?.value ?? ""),
+    );
+  }
+  if (typeof options === "string") {
+    try {
+      const parsed = JSON.parse(options);
+      return Array.isArray(parsed) ? parseLegacyOptions(parsed) : [options];
+    } catch {
+      return options.includes(",")
+        ? options.split(",").map((o) => o.trim())
+        : [options];
+    }
+  }
+  return [];
+}
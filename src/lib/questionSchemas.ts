@@ -0,0 +1,398 @@
+// Runtime schemas for question content JSON - mirror the ContentBlock and
+// QuestionOption types in types/question.ts. JSONB from Supabase (and seed
+// files) is checked here before it reaches the renderer.
+// ============================================
+
+import { z } from "zod";
+import type { ContentBlock, QuestionOption } from "../types/question";
+
+// ============================================
+// SHARED FIELDS
+// ============================================
+
+// Seeds sometimes write numbers as strings ("numerator": "3")
+const num = z.preprocess(
+  (value) =>
+    typeof value === "string" && value.trim() !== "" ? Number(value) : value,
+  z.number(),
+);
+const optionalNum = num.optional();
+
+// Block ids are optional in practice - the renderer falls back to the index
+const blockId = z.union([z.string(), z.number()]).transform(String).default("");
+
+const alignment = z.enum(["left", "center", "right"]).optional();
+
+const tallySchema = z.object({
+  type: z.literal("tally"),
+  count: num,
+});
+
+// ============================================
+// CONTENT BLOCK SCHEMAS
+// ============================================
+
+const textBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("text"),
+  content: z.string(),
+  style: z.enum(["normal", "bold", "italic", "heading"]).optional(),
+  alignment,
+});
+
+const imageBlockSchema = z
+  .object({
+    id: blockId,
+    type: z.literal("image"),
+    url: z.string().optional(),
+    bucket: z.string().optional(),
+    path: z.string().optional(),
+    alt: z.string().default(""),
+    width: optionalNum,
+    height: optionalNum,
+    caption: z.string().optional(),
+    alignment,
+  })
+  .refine((block) => block.url || (block.bucket && block.path), {
+    message: "Image needs a url or a bucket and path",
+  });
+
+const tableBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("table"),
+  headers: z.array(z.string()).optional(),
+  rows: z.array(z.array(z.union([z.string(), z.number(), tallySchema]))),
+  caption: z.string().optional(),
+  headerStyle: z.enum(["blue", "gray", "none"]).optional(),
+});
+
+const mathBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("math"),
+  latex: z.string(),
+  display: z.enum(["inline", "block"]).optional(),
+});
+
+const gridBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("grid"),
+  rows: num,
+  cols: num,
+  cellSize: optionalNum,
+  filledCells: z
+    .array(z.object({ row: num, col: num, color: z.string().optional() }))
+    .optional(),
+  showAxes: z.boolean().optional(),
+  labels: z
+    .object({
+      x: z.array(z.string()).optional(),
+      y: z.array(z.string()).optional(),
+    })
+    .optional(),
+  markers: z
+    .array(
+      z.object({
+        x: num,
+        y: num,
+        label: z.string().optional(),
+        icon: z.string().optional(),
+      }),
+    )
+    .optional(),
+});
+
+const numberLineBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("number-line"),
+  min: num,
+  max: num,
+  step: optionalNum,
+  markers: z
+    .array(
+      z.object({
+        value: num,
+        label: z.string().optional(),
+        icon: z.string().optional(),
+      }),
+    )
+    .optional(),
+  showTicks: z.boolean().optional(),
+});
+
+const chartBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("chart"),
+  chartType: z.enum(["bar", "pie", "line", "dot-plot", "pictograph"]),
+  data: z
+    .object({
+      labels: z.array(z.string()),
+      values: z.array(num),
+      colors: z.array(z.string()).optional(),
+    })
+    .refine((data) => data.labels.length === data.values.length, {
+      message: "Chart needs one value per label",
+    }),
+  title: z.string().optional(),
+  xLabel: z.string().optional(),
+  yLabel: z.string().optional(),
+});
+
+const shapeBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("shape"),
+  shapeType: z.enum([
+    "rectangle",
+    "square",
+    "triangle",
+    "circle",
+    "polygon",
+    "composite",
+    "custom-svg",
+  ]),
+  dimensions: z.record(z.string(), num).optional(),
+  labels: z.record(z.string(), z.string()).optional(),
+  svg: z.string().optional(),
+  color: z.string().optional(),
+  showGrid: z.boolean().optional(),
+});
+
+const tallyBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("tally"),
+  count: num,
+});
+
+const clockBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("clock"),
+  hours: num,
+  minutes: num,
+  showDigital: z.boolean().optional(),
+});
+
+const moneyBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("money"),
+  amount: num,
+  currency: z.enum(["AUD", "USD"]).optional(),
+  showCoins: z.boolean().optional(),
+  coins: z.array(z.object({ value: num, count: num })).optional(),
+});
+
+const fractionBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("fraction"),
+  numerator: num,
+  denominator: num.refine((n) => n !== 0, {
+    message: "Denominator cannot be 0",
+  }),
+  display: z.enum(["numeric", "visual-circle", "visual-bar"]).optional(),
+  shaded: optionalNum,
+});
+
+const spacerBlockSchema = z.object({
+  id: blockId,
+  type: z.literal("spacer"),
+  height: optionalNum,
+});
+
+export const contentBlockSchema = z.discriminatedUnion(
+  "type",
+  [
+    textBlockSchema,
+    imageBlockSchema,
+    tableBlockSchema,
+    mathBlockSchema,
+    gridBlockSchema,
+    numberLineBlockSchema,
+    chartBlockSchema,
+    shapeBlockSchema,
+    tallyBlockSchema,
+    clockBlockSchema,
+    moneyBlockSchema,
+    fractionBlockSchema,
+    spacerBlockSchema,
+  ],
+  { error: "Unknown content block type" },
+);
+
+export const questionOptionSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String).optional(),
+  text: z.string().optional(),
+  imageUrl: z.string().optional(),
+  content: z.array(z.unknown()).optional(),
+  isCorrect: z.boolean().optional(),
+});
+
+// ============================================
+// VALIDATION
+// ============================================
+
+export interface ContentIssue {
+  // e.g. "content[2].rows" or "options_data[1].content[0].numerator"
+  path: string;
+  message: string;
+}
+
+function toIssues(error: z.ZodError, path: string): ContentIssue[] {
+  return error.issues.map((issue) => ({
+    path: [path, ...issue.path.map(String)].filter(Boolean).join("."),
+    message: issue.message,
+  }));
+}
+
+/**
+ * One block - returns the coerced block, or null with the reasons it
+ * cannot be rendered
+ */
+export function parseContentBlock(
+  value: unknown,
+  path = "",
+): { block: ContentBlock | null; issues: ContentIssue[] } {
+  const result = contentBlockSchema.safeParse(value);
+  if (!result.success) {
+    return { block: null, issues: toIssues(result.error, path) };
+  }
+  const block: ContentBlock = result.data;
+  return { block, issues: [] };
+}
+
+/**
+ * A JSONB block array. Invalid blocks are kept as-is so the renderer can
+ * show its per-block fallback in their place.
+ */
+export function validateContentBlocks(
+  value: unknown,
+  path = "content",
+): { blocks: unknown[]; issues: ContentIssue[] } {
+  if (value === null || value === undefined) return { blocks: [], issues: [] };
+  if (!Array.isArray(value)) {
+    return {
+      blocks: [],
+      issues: [{ path, message: "Expected an array of content blocks" }],
+    };
+  }
+
+  const issues: ContentIssue[] = [];
+  const blocks = value.map((raw, i) => {
+    const parsed = parseContentBlock(raw, `${path}[${i}]`);
+    issues.push(...parsed.issues);
+    return parsed.block ?? raw;
+  });
+  return { blocks, issues };
+}
+
+export function validateOptions(
+  value: unknown,
+  path = "options_data",
+): { options: unknown[]; issues: ContentIssue[] } {
+  if (value === null || value === undefined) return { options: [], issues: [] };
+  if (!Array.isArray(value)) {
+    return { options: [], issues: [{ path, message: "Expected an array" }] };
+  }
+
+  const issues: ContentIssue[] = [];
+  const options = value.map((raw, i) => {
+    const result = questionOptionSchema.safeParse(raw);
+    if (!result.success) {
+      issues.push(...toIssues(result.error, `${path}[${i}]`));
+      return raw;
+    }
+    const content = validateContentBlocks(
+      result.data.content,
+      `${path}[${i}].content`,
+    );
+    issues.push(...content.issues);
+    const option: Partial<QuestionOption> = {
+      ...result.data,
+      content: result.data.content
+        ? (content.blocks as ContentBlock[])
+        : undefined,
+    };
+    return option;
+  });
+  return { options, issues };
+}
+
+// ============================================
+// QUESTION ROWS
+// ============================================
+
+const BLOCK_COLUMNS = ["content", "hint_content", "answer_explanation"];
+const OPTION_COLUMNS = ["options_data", "match_targets"];
+
+export interface QuestionContentIssue extends ContentIssue {
+  questionId: string | null;
+  questionNumber: number | null;
+}
+
+/**
+ * Validate every JSON column of a question row, returning the row with
+ * coerced values (e.g. "3" -> 3) alongside any problems found
+ */
+export function validateQuestionContent<T extends object>(
+  row: T,
+): { question: T; issues: QuestionContentIssue[] } {
+  const record = row as Record<string, unknown>;
+  const next: Record<string, unknown> = { ...record };
+  const issues: ContentIssue[] = [];
+
+  BLOCK_COLUMNS.forEach((column) => {
+    if (record[column] == null) return;
+    const result = validateContentBlocks(record[column], column);
+    next[column] = result.blocks;
+    issues.push(...result.issues);
+  });
+
+  OPTION_COLUMNS.forEach((column) => {
+    if (record[column] == null) return;
+    const result = validateOptions(record[column], column);
+    next[column] = result.options;
+    issues.push(...result.issues);
+  });
+
+  return {
+    question: next as T,
+    issues: issues.map((issue) => ({
+      ...issue,
+      questionId: (record.id as string) ?? null,
+      questionNumber:
+        (record.question_number as number) ??
+        (record.order_index as number) ??
+        null,
+    })),
+  };
+}
+
+/**
+ * Validate a loaded question list and log anything that would not render.
+ * The questions are always returned - bad blocks show a fallback instead
+ * of breaking the page.
+ */
+export function validateQuestionRows<T extends object>(
+  rows: T[],
+  source: string,
+): T[] {
+  const issues: QuestionContentIssue[] = [];
+  const questions = rows.map((row) => {
+    const result = validateQuestionContent(row);
+    issues.push(...result.issues);
+    return result.question;
+  });
+
+  if (issues.length > 0) {
+    console.warn(
+      `Invalid question content in ${source}:\n` +
+        issues.map(formatContentIssue).join("\n"),
+    );
+  }
+  return questions;
+}
+
+export function formatContentIssue(issue: QuestionContentIssue): string {
+  const question =
+    issue.questionNumber !== null
+      ? `Q${issue.questionNumber}`
+      : issue.questionId || "question";
+  return `  ${question} ${issue.path}: ${issue.message}`;
+}
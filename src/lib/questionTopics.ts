@@ -0,0 +1,174 @@
+// Question metadata - topic, skill and difficulty come from the questions
+// columns added in migration 004. Untagged rows fall back to keyword
+// matching on the question text and to their position in the exam.
+// ============================================
+
+// ============================================
+// TYPES
+// ============================================
+
+export type QuestionDifficulty = "easy" | "medium" | "hard";
+
+export interface TaggedQuestion {
+  question_text: string;
+  topic?: string | null;
+  skill?: string | null;
+  difficulty?: string | null;
+}
+
+export interface SkillBreakdown {
+  correct: number;
+  total: number;
+}
+
+export interface TopicBreakdown<T> {
+  correct: number;
+  total: number;
+  questions: T[];
+  skills: Record<string, SkillBreakdown>;
+}
+
+// ============================================
+// KEYWORD FALLBACK (untagged questions only)
+// ============================================
+
+// Topic categories for NAPLAN
+const TOPIC_MAPPING: Record<string, string> = {
+  money: "Number & Algebra",
+  calculation: "Number & Algebra",
+  pattern: "Number & Algebra",
+  fraction: "Number & Algebra",
+  decimal: "Number & Algebra",
+  percentage: "Number & Algebra",
+  ratio: "Number & Algebra",
+  place: "Number & Algebra",
+  multiply: "Number & Algebra",
+  divide: "Number & Algebra",
+  time: "Measurement & Geometry",
+  perimeter: "Measurement & Geometry",
+  area: "Measurement & Geometry",
+  volume: "Measurement & Geometry",
+  angle: "Measurement & Geometry",
+  shape: "Measurement & Geometry",
+  net: "Measurement & Geometry",
+  symmetry: "Measurement & Geometry",
+  transform: "Measurement & Geometry",
+  grid: "Measurement & Geometry",
+  map: "Measurement & Geometry",
+  graph: "Statistics & Probability",
+  data: "Statistics & Probability",
+  tally: "Statistics & Probability",
+  probability: "Statistics & Probability",
+  chance: "Statistics & Probability",
+  spinner: "Statistics & Probability",
+  average: "Statistics & Probability",
+  balance: "Number & Algebra",
+  equation: "Number & Algebra",
+  scale: "Measurement & Geometry",
+};
+
+function guessTopic(questionText: string): string {
+  const text = questionText.toLowerCase();
+  for (const [keyword, topicName] of Object.entries(TOPIC_MAPPING)) {
+    if (text.includes(keyword)) return topicName;
+  }
+  return "General";
+}
+
+// ============================================
+// METADATA LOOKUPS
+// ============================================
+
+export function getQuestionTopic(question: TaggedQuestion): string {
+  return question.topic?.trim() || guessTopic(question.question_text);
+}
+
+export function getQuestionSkill(question: TaggedQuestion): string | null {
+  return question.skill?.trim() || null;
+}
+
+/**
+ * Tagged difficulty, or the question's position for untagged rows
+ * (first third = easy, last third = hard)
+ */
+export function getQuestionDifficulty(
+  question: TaggedQuestion,
+  index: number,
+  total: number,
+): QuestionDifficulty {
+  const tagged = question.difficulty?.trim().toLowerCase();
+  if (tagged === "easy" || tagged === "medium" || tagged === "hard") {
+    return tagged;
+  }
+  return index < total * 0.33
+    ? "easy"
+    : index < total * 0.66
+      ? "medium"
+      : "hard";
+}
+
+// ============================================
+// ANALYSIS
+// ============================================
+
+export function analyzeTopics<T extends TaggedQuestion>(
+  results: Array<T & { isCorrect: boolean }>,
+): Record<string, TopicBreakdown<T & { isCorrect: boolean }>> {
+  const analysis: Record<
+    string,
+    TopicBreakdown<T & { isCorrect: boolean }>
+  > = {};
+
+  results.forEach((q) => {
+    const topic = getQuestionTopic(q);
+    if (!analysis[topic]) {
+      analysis[topic] = { correct: 0, total: 0, questions: [], skills: {} };
+    }
+    const entry = analysis[topic];
+    entry.total++;
+    entry.questions.push(q);
+    if (q.isCorrect) entry.correct++;
+
+    const skill = getQuestionSkill(q);
+    if (skill) {
+      if (!entry.skills[skill]) entry.skills[skill] = { correct: 0, total: 0 };
+      entry.skills[skill].total++;
+      if (q.isCorrect) entry.skills[skill].correct++;
+    }
+  });
+
+  return analysis;
+}
+
+export function analyzeDifficulty<T extends TaggedQuestion>(
+  results: Array<T & { isCorrect: boolean }>,
+): Record<QuestionDifficulty, SkillBreakdown> {
+  const analysis: Record<QuestionDifficulty, SkillBreakdown> = {
+    easy: { correct: 0, total: 0 },
+    medium: { correct: 0, total: 0 },
+    hard: { correct: 0, total: 0 },
+  };
+
+  results.forEach((q, index) => {
+    const difficulty = getQuestionDifficulty(q, index, results.length);
+    analysis[difficulty].total++;
+    if (q.isCorrect) analysis[difficulty].correct++;
+  });
+
+  return analysis;
+}
+
+/**
+ * Weakest skill within a topic, for drill-down recommendations
+ */
+export function getWeakestSkill(
+  skills: Record<string, SkillBreakdown>,
+): { skill: string; percentage: number } | null {
+  const ranked = Object.entries(skills)
+    .map(([skill, data]) => ({
+      skill,
+      percentage: Math.round((data.correct / data.total) * 100),
+    }))
+    .sort((a, b) => a.percentage - b.percentage);
+  return ranked[0] || null;
+}
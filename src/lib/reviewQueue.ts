@@ -0,0 +1,237 @@
+// Mistake review queue (migration 020) - wrong and skipped questions join
+// a per-student deck, rescheduled SM-2 style after every review answer
+// ============================================
+
+import { supabase } from "./supabase";
+import { PLAYER_QUESTION_COLUMNS } from "./grading";
+import { validateQuestionRows } from "./questionSchemas";
+import { fetchExamStimuli } from "./stimuli";
+import type { Stimulus } from "../types/question";
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReviewQuestion {
+  id: string;
+  exam_id: string;
+  question_type: string;
+  question_text: string;
+  options?: unknown;
+  options_data?: unknown;
+  match_targets?: unknown;
+  content?: unknown;
+  audio_path?: string | null;
+  dictation_text?: string | null;
+  points?: number;
+  hint?: string | null;
+  hint_content?: unknown;
+  topic?: string | null;
+  skill?: string | null;
+  stimulus_id?: string | null;
+}
+
+export interface ReviewItem {
+  id: string;
+  dueAt: string;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  question: ReviewQuestion;
+}
+
+export interface ReviewSession {
+  items: ReviewItem[];
+  stimuli: Record<string, Stimulus>;
+}
+
+export interface ReviewOutcome {
+  isCorrect: boolean;
+  credit: number;
+  // False for a practice-set question from an exam the student hasn't sat
+  answerReleased: boolean;
+  correctAnswer: string;
+  explanation: string | null;
+  answerExplanation: unknown;
+  blanks: unknown;
+  intervalDays: number;
+  dueAt: string;
+}
+
+// Items served per session
+export const REVIEW_SESSION_SIZE = 20;
+
+// "Due today" runs to local midnight, so the count on the dashboard
+// matches what a session serves
+export function getEndOfToday(): Date {
+  const end = new Date();
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+// ============================================
+// DUE ITEMS
+// ============================================
+
+export async function fetchDueReviewCount(userId: string): Promise<number> {
+  try {
+    const { count, error } = await supabase
+      .from("review_items")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .lte("due_at", getEndOfToday().toISOString());
+
+    if (error) {
+      console.error("Error fetching due review count:", error);
+      return 0;
+    }
+
+    return count || 0;
+  } catch (err) {
+    console.error("Error in fetchDueReviewCount:", err);
+    return 0;
+  }
+}
+
+/**
+ * The next items due today with their questions. Items whose question the
+ * student can no longer see are left out.
+ */
+export async function fetchReviewSession(
+  limit: number = REVIEW_SESSION_SIZE,
+): Promise<ReviewSession> {
+  try {
+    const { data, error } = await supabase.rpc("get_due_reviews", {
+      p_due_before: getEndOfToday().toISOString(),
+      p_limit: limit,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching due reviews:", error);
+      return { items: [], stimuli: {} };
+    }
+
+    const due = (data || []) as {
+      item_id: string;
+      question_id: string;
+      exam_id: string;
+      due_at: string;
+      interval_days: number;
+      repetitions: number;
+      lapses: number;
+      dictation_text: string | null;
+    }[];
+    if (due.length === 0) return { items: [], stimuli: {} };
+
+    const { data: questionsData, error: questionsError } = await supabase
+      .from("questions")
+      .select(PLAYER_QUESTION_COLUMNS)
+      .in(
+        "id",
+        due.map((row) => row.question_id),
+      );
+
+    if (questionsError) {
+      console.error("Error fetching review questions:", questionsError);
+      return { items: [], stimuli: {} };
+    }
+
+    const questions = new Map(
+      validateQuestionRows(
+        (questionsData as unknown as ReviewQuestion[]) || [],
+        "review queue",
+      ).map((q) => [q.id, q]),
+    );
+
+    const items = due.flatMap((row): ReviewItem[] => {
+      const question = questions.get(row.question_id);
+      if (!question) return [];
+      return [
+        {
+          id: row.item_id,
+          dueAt: row.due_at,
+          intervalDays: row.interval_days,
+          repetitions: row.repetitions,
+          lapses: row.lapses,
+          question: { ...question, dictation_text: row.dictation_text },
+        },
+      ];
+    });
+
+    // Passages are loaded per exam, only for exams that need one
+    const stimulusExams = [
+      ...new Set(
+        items
+          .filter((item) => item.question.stimulus_id)
+          .map((item) => item.question.exam_id),
+      ),
+    ];
+    const stimuli: Record<string, Stimulus> = {};
+    for (const examId of stimulusExams) {
+      Object.assign(stimuli, await fetchExamStimuli(examId));
+    }
+
+    return { items, stimuli };
+  } catch (err) {
+    console.error("Error in fetchReviewSession:", err);
+    return { items: [], stimuli: {} };
+  }
+}
+
+// ============================================
+// ANSWER
+// ============================================
+
+/**
+ * Grades the answer on the server and reschedules the item
+ */
+export async function answerReviewItem(
+  itemId: string,
+  answer: string,
+): Promise<ReviewOutcome | { error: string }> {
+  try {
+    const { data, error } = await supabase.rpc("answer_review_item", {
+      p_item_id: itemId,
+      p_answer: answer,
+    } as never);
+
+    if (error) {
+      console.error("Error answering review item:", error);
+      return { error: error.message || "Failed to check your answer" };
+    }
+
+    const result = data as {
+      is_correct?: boolean;
+      credit?: number;
+      answer_released?: boolean;
+      correct_answer?: string;
+      explanation?: string | null;
+      answer_explanation?: unknown;
+      blanks?: unknown;
+      interval_days?: number;
+      due_at?: string;
+    };
+    return {
+      isCorrect: result?.is_correct === true,
+      credit: Number(result?.credit) || 0,
+      answerReleased: result?.answer_released !== false,
+      correctAnswer: result?.correct_answer || "",
+      explanation: result?.explanation ?? null,
+      answerExplanation: result?.answer_explanation ?? null,
+      blanks: result?.blanks ?? null,
+      intervalDays: Number(result?.interval_days) || 1,
+      dueAt: result?.due_at || "",
+    };
+  } catch (err) {
+    console.error("Error in answerReviewItem:", err);
+    return { error: "Failed to check your answer" };
+  }
+}
+
+/**
+ * e.g. "tomorrow", "in 6 days"
+ */
+export function formatReviewInterval(days: number): string {
+  if (days <= 1) return "tomorrow";
+  return `in ${days} days`;
+}
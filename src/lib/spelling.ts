@@ -0,0 +1,126 @@
+// Spelling dictation (migration 017) - the word-in-sentence prompts the
+// player reads aloud, and misspellings grouped by the spelling pattern
+// tagged on each question
+// ============================================
+
+import { supabase } from "./supabase";
+
+// ============================================
+// SPELLING PATTERNS
+// ============================================
+
+// Suggested tags for questions.spelling_pattern; any other value is shown
+// with its dashes turned into spaces
+export const SPELLING_PATTERN_LABELS: Record<string, string> = {
+  "doubling-consonants": "Doubling consonants",
+  "silent-letters": "Silent letters",
+  "vowel-digraphs": "Vowel digraphs (ea, oa, ie...)",
+  "consonant-digraphs": "Consonant digraphs (ph, ch, gh...)",
+  "drop-e": "Dropping the final e",
+  "y-to-i": "Changing y to i",
+  suffixes: "Suffixes (-tion, -ous, -ful...)",
+  prefixes: "Prefixes (dis-, un-, mis-...)",
+  homophones: "Homophones",
+  "unstressed-vowels": "Unstressed vowels",
+  plurals: "Plurals",
+};
+
+export function getSpellingPatternLabel(pattern?: string | null): string {
+  if (!pattern) return "Other words";
+  const label = SPELLING_PATTERN_LABELS[pattern];
+  if (label) return label;
+  const spaced = pattern.replace(/[-_]+/g, " ").trim();
+  return spaced.charAt(0).toUpperCase() + spaced.slice(1);
+}
+
+// ============================================
+// PROMPTS
+// ============================================
+
+/**
+ * Text-to-speech prompts for an in-progress attempt, keyed by question id.
+ * They contain the word being tested, so they are not in the questions
+ * columns students can select.
+ */
+export async function fetchDictationPrompts(
+  attemptId: string,
+): Promise<Record<string, string>> {
+  try {
+    const { data, error } = await supabase.rpc("get_dictation_prompts", {
+      p_attempt_id: attemptId,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching dictation prompts:", error);
+      return {};
+    }
+
+    return Object.fromEntries(
+      ((data || []) as { question_id: string; dictation_text: string }[]).map(
+        (row) => [row.question_id, row.dictation_text],
+      ),
+    );
+  } catch (err) {
+    console.error("Error in fetchDictationPrompts:", err);
+    return {};
+  }
+}
+
+// ============================================
+// MISSPELLINGS
+// ============================================
+
+export interface Misspelling {
+  questionNumber: number;
+  word: string;
+  attempt: string;
+}
+
+export interface SpellingPatternSummary {
+  pattern: string | null;
+  label: string;
+  attempted: number;
+  misspellings: Misspelling[];
+}
+
+/**
+ * Dictation results grouped by spelling pattern, patterns with the most
+ * misspellings first. Skipped words count as misspelt.
+ */
+export function analyzeMisspellings(
+  results: {
+    questionType: string;
+    question_number: number;
+    spelling_pattern?: string | null;
+    correct_answer: string;
+    userAnswer: string;
+    isCorrect: boolean;
+  }[],
+): SpellingPatternSummary[] {
+  const groups = new Map<string, SpellingPatternSummary>();
+
+  results
+    .filter((r) => r.questionType === "dictation")
+    .forEach((r) => {
+      const key = r.spelling_pattern || "";
+      const group = groups.get(key) || {
+        pattern: r.spelling_pattern || null,
+        label: getSpellingPatternLabel(r.spelling_pattern),
+        attempted: 0,
+        misspellings: [],
+      };
+      group.attempted++;
+      if (!r.isCorrect) {
+        group.misspellings.push({
+          questionNumber: r.question_number,
+          word: r.correct_answer,
+          attempt: r.userAnswer.trim(),
+        });
+      }
+      groups.set(key, group);
+    });
+
+  return [...groups.values()].sort(
+    (a, b) => b.misspellings.length - a.misspellings.length,
+  );
+}
@@ -0,0 +1,99 @@
+// Shared stimulus passages (migration 015) - loaded once per exam and
+// shown beside every question that links to them
+// ============================================
+
+import { supabase } from "./supabase";
+import { validateContentBlocks } from "./questionSchemas";
+import type { ContentBlock, Stimulus, StimulusType } from "../types/question";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const STIMULUS_TYPE_LABELS: Record<StimulusType, string> = {
+  passage: "Passage",
+  poem: "Poem",
+  infographic: "Infographic",
+};
+
+// ============================================
+// FETCH
+// ============================================
+
+/**
+ * Stimuli for an exam keyed by id. Content is validated like question
+ * content - bad blocks are logged and render their fallback.
+ */
+export async function fetchExamStimuli(
+  examId: string,
+): Promise<Record<string, Stimulus>> {
+  try {
+    const { data, error } = await supabase
+      .from("stimuli")
+      .select("id, exam_id, title, stimulus_type, content, show_line_numbers")
+      .eq("exam_id", examId)
+      .order("created_at");
+
+    if (error) {
+      console.error("Error fetching stimuli:", error);
+      return {};
+    }
+
+    const stimuli: Record<string, Stimulus> = {};
+    ((data || []) as Record<string, unknown>[]).forEach((row) => {
+      const { blocks, issues } = validateContentBlocks(row.content);
+      if (issues.length > 0) {
+        console.warn(
+          `Invalid content in stimulus "${row.title}":\n` +
+            issues
+              .map((issue) => `  ${issue.path}: ${issue.message}`)
+              .join("\n"),
+        );
+      }
+      stimuli[row.id as string] = {
+        id: row.id as string,
+        exam_id: row.exam_id as string,
+        title: (row.title as string) || "",
+        stimulus_type: (row.stimulus_type as StimulusType) || "passage",
+        content: blocks as ContentBlock[],
+        show_line_numbers: row.show_line_numbers !== false,
+      };
+    });
+    return stimuli;
+  } catch (err) {
+    console.error("Error in fetchExamStimuli:", err);
+    return {};
+  }
+}
+
+// ============================================
+// LINKED QUESTIONS
+// ============================================
+
+/**
+ * Question numbers that use a stimulus, e.g. [3, 4, 5, 6]
+ */
+export function getLinkedQuestionNumbers(
+  stimulusId: string,
+  questions: { stimulus_id?: string | null }[],
+): number[] {
+  return questions.flatMap((q, i) =>
+    q.stimulus_id === stimulusId ? [i + 1] : [],
+  );
+}
+
+/**
+ * "Question 4", "Questions 3–6" or "Questions 1, 3 and 5"
+ */
+export function formatQuestionRange(numbers: number[]): string {
+  if (numbers.length === 0) return "";
+  if (numbers.length === 1) return `Question ${numbers[0]}`;
+
+  const consecutive = numbers.every(
+    (n, i) => i === 0 || n === numbers[i - 1] + 1,
+  );
+  if (consecutive) {
+    return `Questions ${numbers[0]}–${numbers[numbers.length - 1]}`;
+  }
+  return `Questions ${numbers.slice(0, -1).join(", ")} and ${numbers[numbers.length - 1]}`;
+}
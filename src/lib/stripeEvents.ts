@@ -0,0 +1,145 @@
+// Stripe event ledger (migration 027) - every webhook event stripe-webhook
+// received and how it went. Admins read it under RLS and replay events
+// through the replay-stripe-event edge function.
+// ============================================
+
+import { supabase } from "./supabase";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StripeEventStatus =
+  "processing" | "processed" | "ignored" | "failed";
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  stripe_created_at: string;
+  livemode: boolean;
+  status: StripeEventStatus;
+  attempts: number;
+  note: string | null;
+  received_at: string;
+  claimed_at: string;
+  processed_at: string | null;
+}
+
+export interface StripeEventFilters {
+  status: StripeEventStatus | "all";
+  type: string;
+}
+
+export interface ReplayResult {
+  eventId: string;
+  type: string;
+  claimed: boolean;
+  status?: "processed" | "ignored" | "failed";
+  note?: string;
+}
+
+export const STRIPE_EVENT_PAGE_SIZE = 50;
+
+// Must match MAX_EVENTS in replay-stripe-event
+export const MAX_REPLAY_EVENTS = 25;
+
+// The claim on an event in processing lapses after this (claim_stripe_event)
+const PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Processing for longer than the claim lasts - the handler died part way */
+export function isStuck(event: StripeEvent): boolean {
+  return (
+    event.status === "processing" &&
+    Date.now() - new Date(event.claimed_at).getTime() > PROCESSING_TIMEOUT_MS
+  );
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+/**
+ * Newest first, by when the event happened in Stripe. `before` is the
+ * stripe_created_at of the last event already shown, for the next page.
+ */
+export async function fetchStripeEvents(
+  filters: StripeEventFilters,
+  before?: string,
+): Promise<StripeEvent[]> {
+  try {
+    let query = supabase
+      .from("stripe_events")
+      .select(
+        "id, type, stripe_created_at, livemode, status, attempts, note, received_at, claimed_at, processed_at",
+      )
+      .order("stripe_created_at", { ascending: false })
+      .limit(STRIPE_EVENT_PAGE_SIZE);
+
+    if (filters.status !== "all") {
+      query = query.eq("status", filters.status);
+    }
+    if (filters.type.trim()) {
+      query = query.ilike("type", `%${filters.type.trim()}%`);
+    }
+    if (before) {
+      query = query.lt("stripe_created_at", before);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching Stripe events:", error);
+      return [];
+    }
+
+    return (data || []) as StripeEvent[];
+  } catch (err) {
+    console.error("Error in fetchStripeEvents:", err);
+    return [];
+  }
+}
+
+/** The event as Stripe sent it */
+export async function fetchStripeEventPayload(
+  eventId: string,
+): Promise<unknown | null> {
+  const { data, error } = await supabase
+    .from("stripe_events")
+    .select("payload")
+    .eq("id", eventId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching Stripe event payload:", error);
+    return null;
+  }
+
+  return (data as { payload: unknown } | null)?.payload ?? null;
+}
+
+/**
+ * Runs the events through the webhook's handlers again, oldest first.
+ * Ids missing from the ledger are fetched from Stripe.
+ */
+export async function replayStripeEvents(
+  eventIds: string[],
+): Promise<{ results: ReplayResult[] } | { error: string }> {
+  try {
+    const { data, error } = await supabase.functions.invoke(
+      "replay-stripe-event",
+      { body: { eventIds } },
+    );
+
+    if (error) {
+      console.error("replay-stripe-event error:", error);
+      // Non-2xx responses carry the function's own message
+      const details = await error.context?.json?.().catch(() => null);
+      return { error: details?.error || "Failed to replay events" };
+    }
+
+    return data as { results: ReplayResult[] };
+  } catch (err) {
+    console.error("Error in replayStripeEvents:", err);
+    return { error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,425 @@
+// Study plans (migration 022) - a Premium week-by-week plan of practice
+// sets, review sessions and mock exams leading up to a test date. Plans
+// are built here from the student's skill mastery and saved by the server,
+// which ticks items off as matching attempts complete.
+// ============================================
+
+import { supabase } from "./supabase";
+import { fetchPracticeBank } from "./practiceSets";
+import { fetchSkillMastery, getTopicMastery } from "./mastery";
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StudyPlanItemKind = "practice" | "review" | "mock";
+
+export interface StudyPlan {
+  id: string;
+  target_date: string;
+  year_level: number | null;
+  sessions_per_week: number;
+  replanned_at: string | null;
+  created_at: string;
+}
+
+export interface PlannedItem {
+  week_number: number;
+  week_start: string;
+  due_date: string;
+  kind: StudyPlanItemKind;
+  title: string;
+  subject: string | null;
+  topic: string | null;
+  exam_id: string | null;
+  target_count: number | null;
+}
+
+export interface StudyPlanItem extends PlannedItem {
+  id: string;
+  position: number;
+  completed_at: string | null;
+  attempt_id: string | null;
+}
+
+export interface StudyPlanOptions {
+  targetDate: string;
+  yearLevel: number | null;
+  sessionsPerWeek: number;
+}
+
+// A topic the plan can practise, with how well it is known (null when the
+// student hasn't answered any of its questions yet)
+export interface PlanTopic {
+  subject: string;
+  topic: string;
+  mastery: number | null;
+  observations: number;
+}
+
+export interface MockExam {
+  id: string;
+  title: string;
+  subject: string;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const STUDY_PLAN_KIND_LABELS: Record<StudyPlanItemKind, string> = {
+  practice: "Practice set",
+  review: "Review session",
+  mock: "Mock exam",
+};
+
+// The study_plans check in migration 022 allows 1-7
+export const STUDY_PLAN_SESSION_LIMITS = { min: 2, max: 6 };
+export const STUDY_PLAN_MAX_WEEKS = 26;
+
+const PRACTICE_SET_QUESTIONS = 15;
+const REVIEW_SESSION_ITEMS = 10;
+
+// Priority given to topics with no answers yet - about as urgent as a
+// topic at 40% mastery
+const UNTESTED_PRIORITY = 60;
+// How far a topic's priority drops once it has a session, so the weakest
+// topics come round again without crowding out the rest
+const PRIORITY_STEP = 35;
+
+// ============================================
+// DATES
+// ============================================
+// Plans work in local calendar days, as YYYY-MM-DD strings
+
+export function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  return toDateString(new Date(year, month - 1, day + days));
+}
+
+export function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  return Math.round(
+    (Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86_400_000,
+  );
+}
+
+// ============================================
+// PLANNING
+// ============================================
+
+/**
+ * Week-by-week items from today to the test date. Each week has a review
+ * session and practice sets on the most urgent topics; every second week
+ * and the final week end with a mock exam.
+ */
+export function buildStudyPlan(
+  options: StudyPlanOptions,
+  topics: PlanTopic[],
+  mockExams: MockExam[],
+  today: string = toDateString(new Date()),
+): PlannedItem[] {
+  const days = daysBetween(today, options.targetDate);
+  if (days <= 0) return [];
+
+  const weeks = Math.min(STUDY_PLAN_MAX_WEEKS, Math.ceil(days / 7));
+  const sessions = Math.min(
+    STUDY_PLAN_SESSION_LIMITS.max,
+    Math.max(STUDY_PLAN_SESSION_LIMITS.min, options.sessionsPerWeek),
+  );
+
+  const priorities = topics.map((topic) => ({
+    ...topic,
+    priority: topic.mastery === null ? UNTESTED_PRIORITY : 100 - topic.mastery,
+  }));
+  const nextTopic = () => {
+    const best = priorities.reduce<(typeof priorities)[number] | null>(
+      (top, topic) => (!top || topic.priority > top.priority ? topic : top),
+      null,
+    );
+    if (best) best.priority -= PRIORITY_STEP;
+    return best;
+  };
+
+  let mockIndex = 0;
+  const items: PlannedItem[] = [];
+
+  for (let week = 1; week <= weeks; week++) {
+    const weekStart = addDays(today, (week - 1) * 7);
+    const weekEnd = addDays(weekStart, 6);
+    const dueDate =
+      daysBetween(weekEnd, options.targetDate) < 0
+        ? options.targetDate
+        : weekEnd;
+    const isFinalWeek = week === weeks;
+    const hasMock =
+      mockIndex < mockExams.length && (isFinalWeek || week % 2 === 0);
+    const base = {
+      week_number: week,
+      week_start: weekStart,
+      due_date: dueDate,
+    };
+
+    // The final week is lighter - a review and the mock
+    const practiceCount = Math.max(
+      0,
+      sessions - 1 - (hasMock ? 1 : 0) - (isFinalWeek ? 1 : 0),
+    );
+    for (let i = 0; i < practiceCount; i++) {
+      const topic = nextTopic();
+      if (!topic) break;
+      items.push({
+        ...base,
+        kind: "practice",
+        title: `${topic.topic} practice set`,
+        subject: topic.subject,
+        topic: topic.topic,
+        exam_id: null,
+        target_count: PRACTICE_SET_QUESTIONS,
+      });
+    }
+
+    items.push({
+      ...base,
+      kind: "review",
+      title: "Review your mistakes",
+      subject: null,
+      topic: null,
+      exam_id: null,
+      target_count: REVIEW_SESSION_ITEMS,
+    });
+
+    if (hasMock) {
+      const exam = mockExams[mockIndex++];
+      items.push({
+        ...base,
+        kind: "mock",
+        title: exam.title,
+        subject: exam.subject,
+        topic: null,
+        exam_id: exam.id,
+        target_count: null,
+      });
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Open items whose week has passed
+ */
+export function getOverdueItems(
+  items: StudyPlanItem[],
+  today: string = toDateString(new Date()),
+): StudyPlanItem[] {
+  return items.filter(
+    (item) => !item.completed_at && daysBetween(item.due_date, today) > 0,
+  );
+}
+
+// ============================================
+// FETCH
+// ============================================
+
+/**
+ * What a plan can be built from: the bank's topics for the year level with
+ * the student's mastery of each, and catalogue exams to use as mocks
+ * (ones the student hasn't completed first)
+ */
+export async function fetchPlanInputs(
+  userId: string,
+  yearLevel: number | null,
+): Promise<{ topics: PlanTopic[]; mockExams: MockExam[] }> {
+  try {
+    let examsQuery = supabase
+      .from("exams")
+      .select("id, title, subject, year_level")
+      .eq("is_active", true)
+      .is("owner_id", null);
+    if (yearLevel !== null) {
+      examsQuery = examsQuery.eq("year_level", yearLevel);
+    }
+
+    const [bank, mastery, examsRes, attemptsRes] = await Promise.all([
+      fetchPracticeBank(),
+      fetchSkillMastery(userId),
+      examsQuery.order("title"),
+      supabase
+        .from("exam_attempts")
+        .select("exam_id")
+        .eq("user_id", userId)
+        .eq("status", "completed"),
+    ]);
+
+    const topicMastery = getTopicMastery(mastery);
+    const topics = new Map<string, PlanTopic>();
+    bank
+      .filter((entry) => yearLevel === null || entry.year_level === yearLevel)
+      .forEach((entry) => {
+        const key = `${entry.subject}\n${entry.topic}`;
+        if (topics.has(key)) return;
+        const known = topicMastery.find(
+          (t) =>
+            t.topic === entry.topic &&
+            t.subject.toLowerCase() === entry.subject.toLowerCase(),
+        );
+        topics.set(key, {
+          subject: entry.subject,
+          topic: entry.topic,
+          mastery: known ? known.mastery : null,
+          observations: known ? known.observations : 0,
+        });
+      });
+
+    if (examsRes.error) {
+      console.error("Error fetching mock exams:", examsRes.error);
+    }
+    const taken = new Set(
+      ((attemptsRes.data || []) as { exam_id: string }[]).map((a) => a.exam_id),
+    );
+    const mockExams = ((examsRes.data || []) as MockExam[])
+      .map((exam) => ({
+        id: exam.id,
+        title: exam.title,
+        subject: exam.subject,
+      }))
+      .sort((a, b) => Number(taken.has(a.id)) - Number(taken.has(b.id)));
+
+    return { topics: [...topics.values()], mockExams };
+  } catch (err) {
+    console.error("Error in fetchPlanInputs:", err);
+    return { topics: [], mockExams: [] };
+  }
+}
+
+export async function fetchActiveStudyPlan(
+  userId: string,
+): Promise<{ plan: StudyPlan; items: StudyPlanItem[] } | null> {
+  try {
+    const { data: plan, error } = await supabase
+      .from("study_plans")
+      .select(
+        "id, target_date, year_level, sessions_per_week, replanned_at, created_at",
+      )
+      .eq("user_id", userId)
+      .eq("status", "active")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching study plan:", error);
+      return null;
+    }
+    if (!plan) return null;
+
+    const { data: items, error: itemsError } = await supabase
+      .from("study_plan_items")
+      .select("*")
+      .eq("plan_id", (plan as StudyPlan).id)
+      .order("week_number")
+      .order("position");
+
+    if (itemsError) {
+      console.error("Error fetching study plan items:", itemsError);
+      return null;
+    }
+
+    return {
+      plan: plan as StudyPlan,
+      items: (items || []) as StudyPlanItem[],
+    };
+  } catch (err) {
+    console.error("Error in fetchActiveStudyPlan:", err);
+    return null;
+  }
+}
+
+// ============================================
+// SAVE
+// ============================================
+
+/**
+ * Starts a new plan (planId null) or replaces an active plan's open items
+ */
+export async function saveStudyPlan(
+  planId: string | null,
+  options: StudyPlanOptions,
+  items: PlannedItem[],
+): Promise<{ planId: string } | { error: string }> {
+  try {
+    const { data, error } = await supabase.rpc("save_study_plan", {
+      p_plan_id: planId,
+      p_target_date: options.targetDate,
+      p_year_level: options.yearLevel,
+      p_sessions_per_week: options.sessionsPerWeek,
+      p_items: items,
+    } as never);
+
+    if (error) {
+      console.error("Error saving study plan:", error);
+      return { error: error.message || "Failed to save study plan" };
+    }
+
+    return { planId: data as string };
+  } catch (err) {
+    console.error("Error in saveStudyPlan:", err);
+    return { error: "Failed to save study plan" };
+  }
+}
+
+/**
+ * Rebuilds the open part of a plan from today, keeping what is done. Mock
+ * exams already completed in the plan are not scheduled again.
+ */
+export async function replanStudyPlan(
+  userId: string,
+  plan: StudyPlan,
+  items: StudyPlanItem[],
+): Promise<{ planId: string } | { error: string }> {
+  const options: StudyPlanOptions = {
+    targetDate: plan.target_date,
+    yearLevel: plan.year_level,
+    sessionsPerWeek: plan.sessions_per_week,
+  };
+  const { topics, mockExams } = await fetchPlanInputs(userId, plan.year_level);
+  const doneMocks = new Set(
+    items
+      .filter((item) => item.kind === "mock" && item.completed_at)
+      .map((item) => item.exam_id),
+  );
+
+  const planned = buildStudyPlan(
+    options,
+    topics,
+    mockExams.filter((exam) => !doneMocks.has(exam.id)),
+  );
+  if (planned.length === 0) {
+    return { error: "Your test date has passed - start a new plan" };
+  }
+
+  // Week numbers carry on from the original plan
+  const weekOffset = Math.max(
+    0,
+    Math.floor(
+      daysBetween(
+        items[0]?.week_start || planned[0].week_start,
+        planned[0].week_start,
+      ) / 7,
+    ),
+  );
+  return saveStudyPlan(
+    plan.id,
+    options,
+    planned.map((item) => ({
+      ...item,
+      week_number: item.week_number + weekOffset,
+    })),
+  );
+}
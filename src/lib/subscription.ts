@@ -114,32 +114,91 @@ export async function createPortalSession(
 }
 
 // ============================================
-// CANCEL SUBSCRIPTION
+// CANCEL, REACTIVATE AND CHANGE PLAN
 // ============================================
+// These edge functions act on the signed-in user's own subscription.
+
+// What switching plans will charge (change-subscription-plan's preview)
+export interface PlanChangePreview {
+  planId: "monthly" | "yearly";
+  // Pass back to changePlan() so the charge matches the preview
+  prorationDate: number;
+  effectiveDate: string;
+  // In the smallest currency unit, e.g. cents
+  amountDue: number;
+  credit: number;
+  currency: string;
+  nextRenewal: string | null;
+  lines: { description: string; amount: number }[];
+}
 
-export async function cancelSubscription(
-  userId: string,
-): Promise<{ success: boolean; error?: string }> {
+async function invokeSubscriptionFunction<T>(
+  name: string,
+  body: Record<string, unknown>,
+  fallbackError: string,
+): Promise<T | { error: string }> {
   try {
-    const { data, error } = await supabase.functions.invoke(
-      "cancel-subscription",
-      {
-        body: { userId },
-      },
-    );
+    const { data, error } = await supabase.functions.invoke(name, { body });
 
     if (error) {
-      console.error("Cancel subscription error:", error);
-      return { success: false, error: "Failed to cancel subscription" };
+      console.error(`${name} error:`, error);
+      // Non-2xx responses carry the function's own message
+      const details = await error.context?.json?.().catch(() => null);
+      return { error: details?.error || fallbackError };
     }
 
-    return { success: true };
+    return data as T;
   } catch (err) {
-    console.error("Error canceling subscription:", err);
-    return { success: false, error: "An unexpected error occurred" };
+    console.error(`Error in ${name}:`, err);
+    return { error: "An unexpected error occurred" };
   }
 }
 
+/**
+ * Cancels at the end of the paid period - Premium stays until
+ * `effectiveDate`, and reactivateSubscription() can undo it until then.
+ */
+export async function cancelSubscription(): Promise<
+  { effectiveDate: string } | { error: string }
+> {
+  return invokeSubscriptionFunction(
+    "cancel-subscription",
+    {},
+    "Failed to cancel subscription",
+  );
+}
+
+export async function reactivateSubscription(): Promise<
+  { effectiveDate: string } | { error: string }
+> {
+  return invokeSubscriptionFunction(
+    "reactivate-subscription",
+    {},
+    "Failed to resume subscription",
+  );
+}
+
+export async function previewPlanChange(
+  planId: "monthly" | "yearly",
+): Promise<PlanChangePreview | { error: string }> {
+  return invokeSubscriptionFunction(
+    "change-subscription-plan",
+    { planId, preview: true },
+    "Failed to work out the plan change",
+  );
+}
+
+export async function changePlan(
+  planId: "monthly" | "yearly",
+  prorationDate: number,
+): Promise<{ effectiveDate: string; nextRenewal: string } | { error: string }> {
+  return invokeSubscriptionFunction(
+    "change-subscription-plan",
+    { planId, prorationDate },
+    "Failed to change plan",
+  );
+}
+
 // ============================================
 // CHECK PREMIUM ACCESS
 // ============================================
@@ -147,9 +206,30 @@ export async function cancelSubscription(
 export async function checkPremiumAccess(userId: string): Promise<boolean> {
   const subscription = await fetchUserSubscription(userId);
 
-  if (!subscription) return false;
+  if (
+    subscription?.status === "active" ||
+    subscription?.status === "trialing"
+  ) {
+    return true;
+  }
+
+  // Child profiles share their parent's subscription (migration 023), which
+  // the child can't read directly, and school seats count too (migration 026)
+  try {
+    const { data, error } = await supabase.rpc("has_premium_access", {
+      user_uuid: userId,
+    } as never);
 
-  return subscription.status === "active" || subscription.status === "trialing";
+    if (error) {
+      console.error("Error checking family premium access:", error);
+      return false;
+    }
+
+    return data === true;
+  } catch (err) {
+    console.error("Error in checkPremiumAccess:", err);
+    return false;
+  }
 }
 
 // ============================================
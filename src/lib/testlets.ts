@@ -0,0 +1,123 @@
+// Adaptive exams (migration 018) - testlets taken one at a time, with the
+// server choosing an easier or harder next testlet from the running score
+// ============================================
+
+import { supabase } from "./supabase";
+import type { Testlet, TestletLevel, TestletRoute } from "../types/question";
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const TESTLET_LEVEL_LABELS: Record<TestletLevel, string> = {
+  easier: "Easier",
+  standard: "Standard",
+  harder: "Harder",
+};
+
+// ============================================
+// FETCH
+// ============================================
+
+/**
+ * Testlets of an exam in stage order
+ */
+export async function fetchExamTestlets(examId: string): Promise<Testlet[]> {
+  try {
+    const { data, error } = await supabase
+      .from("testlets")
+      .select("id, exam_id, stage, label, level, weight, routing")
+      .eq("exam_id", examId)
+      .order("stage")
+      .order("created_at");
+
+    if (error) {
+      console.error("Error fetching testlets:", error);
+      return [];
+    }
+
+    return ((data || []) as Record<string, unknown>[]).map((row) => ({
+      id: row.id as string,
+      exam_id: row.exam_id as string,
+      stage: Number(row.stage) || 1,
+      label: (row.label as string) || "",
+      level: (row.level as TestletLevel) || "standard",
+      weight: Number(row.weight) || 1,
+      routing: Array.isArray(row.routing)
+        ? (row.routing as TestletRoute[])
+        : [],
+    }));
+  } catch (err) {
+    console.error("Error in fetchExamTestlets:", err);
+    return [];
+  }
+}
+
+// ============================================
+// ROUTING
+// ============================================
+
+export interface AdvanceResult {
+  testletPath: string[];
+  // No next testlet - submit the exam
+  finished: boolean;
+}
+
+/**
+ * Finish the current testlet and let the server route to the next one.
+ * Save the attempt's answers first - routing uses the stored answers.
+ */
+export async function advanceTestlet(
+  attemptId: string,
+  fromTestletId: string,
+): Promise<AdvanceResult | { error: string }> {
+  try {
+    const { data, error } = await supabase.rpc("advance_testlet", {
+      p_attempt_id: attemptId,
+      p_from_testlet_id: fromTestletId,
+    } as never);
+
+    if (error) {
+      console.error("Error advancing testlet:", error);
+      return { error: error.message || "Failed to start the next section" };
+    }
+
+    const result = data as {
+      testlet_path?: string[];
+      finished?: boolean;
+    };
+    return {
+      testletPath: result?.testlet_path || [],
+      finished: result?.finished === true,
+    };
+  } catch (err) {
+    console.error("Error in advanceTestlet:", err);
+    return { error: "Failed to start the next section" };
+  }
+}
+
+/**
+ * The testlets of a path in the order they were taken; unknown ids (a
+ * deleted testlet) are skipped
+ */
+export function getPathTestlets(
+  path: string[],
+  testlets: Testlet[],
+): Testlet[] {
+  return path.flatMap((id) => testlets.filter((t) => t.id === id));
+}
+
+/**
+ * e.g. "Stage 1 (Standard) → Stage 2 (Harder)"
+ */
+export function describeTestletPath(
+  path: string[],
+  testlets: Testlet[],
+): string {
+  return getPathTestlets(path, testlets)
+    .map(
+      (t) =>
+        `${t.label || `Stage ${t.stage}`} (${TESTLET_LEVEL_LABELS[t.level]})`,
+    )
+    .join(" → ");
+}
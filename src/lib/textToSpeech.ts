@@ -3,6 +3,7 @@
 // Uses Web Speech API (speechSynthesis)
 
 import type { ContentBlock, QuestionOption } from "../types/question";
+import { latexToSpeech } from "./latexMath";
 
 // ============================================
 // TEXT EXTRACTION
@@ -66,8 +67,8 @@ function extractTextFromBlock(block: ContentBlock): string | null {
       return `${block.numerator} over ${block.denominator}`;
 
     case "math":
-      // Try to make LaTeX readable
-      return convertLatexToSpeech(block.latex);
+      // Same parse tree as the on-screen MathML
+      return latexToSpeech(block.latex);
 
     case "number-line":
       return `A number line from ${block.min} to ${block.max}`;
@@ -121,24 +122,6 @@ function extractTextFromOption(option: QuestionOption): string | null {
   return null;
 }
 
-/**
- * Convert basic LaTeX to spoken text
- */
-function convertLatexToSpeech(latex: string): string {
-  return latex
-    .replace(/\\frac\{(\d+)\}\{(\d+)\}/g, "$1 over $2")
-    .replace(/\\times/g, "times")
-    .replace(/\\div/g, "divided by")
-    .replace(/\\pm/g, "plus or minus")
-    .replace(/\\sqrt\{([^}]+)\}/g, "square root of $1")
-    .replace(/\^2/g, " squared")
-    .replace(/\^3/g, " cubed")
-    .replace(/\^(\d+)/g, " to the power of $1")
-    .replace(/[{}\\]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
-}
-
 // ============================================
 // SPEECH SYNTHESIS
 // ============================================
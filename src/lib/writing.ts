@@ -0,0 +1,331 @@
+// NAPLAN Writing - extended responses and rubric marking (migration 016).
+// The response is stored as sanitised HTML in exam_attempts.answers and
+// marked afterwards by a parent or teacher against the 10 criteria below.
+// ============================================
+
+import { supabase } from "./supabase";
+
+// ============================================
+// RUBRIC
+// ============================================
+
+export interface WritingCriterion {
+  id: string;
+  label: string;
+  max: number;
+  description: string;
+}
+
+// Keep in step with writing_rubric() in migration 016
+export const WRITING_CRITERIA: WritingCriterion[] = [
+  {
+    id: "audience",
+    label: "Audience",
+    max: 6,
+    description: "Orients, engages and persuades the reader",
+  },
+  {
+    id: "text_structure",
+    label: "Text structure",
+    max: 4,
+    description: "Introduction, body and conclusion suit the purpose",
+  },
+  {
+    id: "ideas",
+    label: "Ideas",
+    max: 5,
+    description: "Selection, relevance and elaboration of ideas",
+  },
+  {
+    id: "persuasive_devices",
+    label: "Persuasive devices",
+    max: 4,
+    description: "Rhetorical questions, repetition, emotive language",
+  },
+  {
+    id: "vocabulary",
+    label: "Vocabulary",
+    max: 5,
+    description: "Range and precision of word choice",
+  },
+  {
+    id: "cohesion",
+    label: "Cohesion",
+    max: 4,
+    description: "Links between ideas with connectives and referring words",
+  },
+  {
+    id: "paragraphing",
+    label: "Paragraphing",
+    max: 3,
+    description: "Paragraphs group ideas and guide the reader",
+  },
+  {
+    id: "sentence_structure",
+    label: "Sentence structure",
+    max: 6,
+    description: "Correct, varied and effective sentences",
+  },
+  {
+    id: "punctuation",
+    label: "Punctuation",
+    max: 5,
+    description: "Sentence boundaries and other punctuation",
+  },
+  {
+    id: "spelling",
+    label: "Spelling",
+    max: 6,
+    description: "Accuracy, including difficult and challenging words",
+  },
+];
+
+export const WRITING_MAX_SCORE = WRITING_CRITERIA.reduce(
+  (sum, criterion) => sum + criterion.max,
+  0,
+);
+
+export type WritingScores = Record<string, number>;
+
+export interface WritingMark {
+  attempt_id: string;
+  question_id: string;
+  scores: WritingScores;
+  total: number;
+  max_total: number;
+  comment: string | null;
+  marked_by: string | null;
+  marked_at: string;
+}
+
+// ============================================
+// RESPONSE TEXT
+// ============================================
+
+// Formatting the editor can produce; everything else is unwrapped
+const ALLOWED_TAGS = new Set([
+  "P",
+  "DIV",
+  "BR",
+  "STRONG",
+  "B",
+  "EM",
+  "I",
+  "U",
+  "UL",
+  "OL",
+  "LI",
+]);
+
+/**
+ * Keep only simple formatting tags, with no attributes. Used on every
+ * edit in the player and again before showing a response to a marker.
+ */
+export function sanitizeWritingHtml(html: string): string {
+  if (!html || typeof DOMParser === "undefined") return "";
+
+  const doc = new DOMParser().parseFromString(html, "text/html");
+
+  const clean = (node: Node): Node[] => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return [document.createTextNode(node.textContent || "")];
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return [];
+
+    const element = node as Element;
+    if (["SCRIPT", "STYLE", "IFRAME", "OBJECT"].includes(element.tagName)) {
+      return [];
+    }
+
+    const children = Array.from(element.childNodes).flatMap(clean);
+    if (!ALLOWED_TAGS.has(element.tagName)) return children;
+
+    const copy = document.createElement(element.tagName.toLowerCase());
+    children.forEach((child) => copy.appendChild(child));
+    return [copy];
+  };
+
+  const container = document.createElement("div");
+  Array.from(doc.body.childNodes)
+    .flatMap(clean)
+    .forEach((node) => container.appendChild(node));
+  return container.innerHTML;
+}
+
+/**
+ * Plain text with a line break per paragraph
+ */
+export function writingToPlainText(html?: string | null): string {
+  if (!html) return "";
+  return html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li)>/gi, "\n")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function countWords(html?: string | null): number {
+  const text = writingToPlainText(html);
+  const words = text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu);
+  return words ? words.length : 0;
+}
+
+// ============================================
+// MARKS
+// ============================================
+
+export interface WritingResponse {
+  question_id: string;
+  question_number: number;
+  question_text: string;
+  content: unknown;
+  points: number;
+  answer: string | null;
+}
+
+/**
+ * The extended-response questions of a submitted attempt with what was
+ * written. Works for teachers too, who can't read the attempt itself.
+ */
+export async function fetchWritingResponses(
+  attemptId: string,
+): Promise<WritingResponse[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_writing_responses", {
+      p_attempt_id: attemptId,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching writing responses:", error);
+      return [];
+    }
+
+    return (data || []) as WritingResponse[];
+  } catch (err) {
+    console.error("Error in fetchWritingResponses:", err);
+    return [];
+  }
+}
+
+/**
+ * Rubric marks for an attempt keyed by question id. Readable by the
+ * student who took the attempt and by its markers.
+ */
+export async function fetchWritingMarks(
+  attemptId: string,
+): Promise<Map<string, WritingMark>> {
+  const marks = new Map<string, WritingMark>();
+
+  try {
+    const { data, error } = await supabase
+      .from("writing_marks")
+      .select("*")
+      .eq("attempt_id", attemptId);
+
+    if (error) {
+      console.error("Error fetching writing marks:", error);
+      return marks;
+    }
+
+    ((data || []) as WritingMark[]).forEach((row) => {
+      marks.set(row.question_id, row);
+    });
+  } catch (err) {
+    console.error("Error in fetchWritingMarks:", err);
+  }
+
+  return marks;
+}
+
+/**
+ * Whether the signed-in user may mark the attempt's writing - the student
+ * who took it never can.
+ */
+export async function canMarkAttempt(attemptId: string): Promise<boolean> {
+  try {
+    const { data, error } = await supabase.rpc("can_mark_attempt", {
+      p_attempt_id: attemptId,
+    } as never);
+
+    if (error) {
+      console.error("Error checking marking access:", error);
+      return false;
+    }
+
+    return data === true;
+  } catch (err) {
+    console.error("Error in canMarkAttempt:", err);
+    return false;
+  }
+}
+
+export interface WritingToMark {
+  attempt_id: string;
+  exam_id: string;
+  exam_title: string;
+  question_id: string;
+  question_number: number;
+  completed_at: string | null;
+  marked: boolean;
+}
+
+/**
+ * A student's writing the signed-in user can mark, newest first - for a
+ * parent, their child's.
+ */
+export async function fetchWritingToMark(
+  studentId: string,
+): Promise<WritingToMark[]> {
+  try {
+    const { data, error } = await supabase.rpc("get_writing_to_mark", {
+      p_student_id: studentId,
+    } as never);
+
+    if (error) {
+      console.error("Error fetching writing to mark:", error);
+      return [];
+    }
+
+    return (data || []) as WritingToMark[];
+  } catch (err) {
+    console.error("Error in fetchWritingToMark:", err);
+    return [];
+  }
+}
+
+/**
+ * Mark a response against the rubric. Replaces earlier marks and updates
+ * the attempt score.
+ */
+export async function markWritingResponse(
+  attemptId: string,
+  questionId: string,
+  scores: WritingScores,
+  comment: string,
+): Promise<{ percentage: number } | { error: string }> {
+  try {
+    const { data, error } = await supabase.rpc("mark_writing_response", {
+      p_attempt_id: attemptId,
+      p_question_id: questionId,
+      p_scores: scores,
+      p_comment: comment,
+    } as never);
+
+    if (error) {
+      console.error("Error marking writing:", error);
+      return { error: error.message || "Failed to save marks" };
+    }
+
+    return {
+      percentage: Number((data as { percentage?: number })?.percentage) || 0,
+    };
+  } catch (err) {
+    console.error("Error in markWritingResponse:", err);
+    return { error: "Failed to save marks" };
+  }
+}
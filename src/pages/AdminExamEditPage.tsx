@@ -0,0 +1,523 @@
+// src/pages/AdminExamEditPage.tsx
+// Admin exam editor - exam settings, the ordered question list, the
+// shared stimuli its questions link to and, for adaptive exams, testlets
+// ============================================
+
+import { useState, useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  ArrowLeft,
+  BookOpen,
+  ChevronUp,
+  ChevronDown,
+  Loader2,
+  Plus,
+  Save,
+  Trash2,
+} from "lucide-react";
+import {
+  EMPTY_EXAM,
+  createEmptyTestlet,
+  deleteExam,
+  deleteQuestion,
+  deleteTestlet,
+  fetchAdminExam,
+  fetchAdminQuestions,
+  renumberQuestions,
+  saveExam,
+  saveTestlet,
+  type AdminExam,
+  type AdminQuestion,
+  type AdminTestlet,
+} from "@/lib/admin";
+import { QUESTION_TYPE_LABELS } from "@/lib/questionAnswers";
+import {
+  STIMULUS_TYPE_LABELS,
+  fetchExamStimuli,
+  formatQuestionRange,
+  getLinkedQuestionNumbers,
+} from "@/lib/stimuli";
+import { fetchExamTestlets } from "@/lib/testlets";
+import {
+  getAdminExamRoute,
+  getAdminQuestionRoute,
+  getAdminStimulusRoute,
+} from "@/utils/routes";
+import { ROUTES } from "@/data/constants";
+import {
+  Checkbox,
+  Field,
+  NumberField,
+  Select,
+  TextArea,
+} from "@/components/admin/ContentBlockEditor";
+import { TestletEditor } from "@/components/admin/TestletEditor";
+import type { Stimulus } from "@/types/question";
+
+export default function AdminExamEditPage() {
+  const { examId = "new" } = useParams<{ examId: string }>();
+  const navigate = useNavigate();
+  const isNew = examId === "new";
+
+  const [exam, setExam] = useState<AdminExam>(EMPTY_EXAM);
+  const [questions, setQuestions] = useState<AdminQuestion[]>([]);
+  const [stimuli, setStimuli] = useState<Record<string, Stimulus>>({});
+  const [testlets, setTestlets] = useState<AdminTestlet[]>([]);
+  const [savingTestlet, setSavingTestlet] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(!isNew);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isNew) {
+      setExam(EMPTY_EXAM);
+      setQuestions([]);
+      setStimuli({});
+      setTestlets([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    Promise.all([
+      fetchAdminExam(examId),
+      fetchAdminQuestions(examId),
+      fetchExamStimuli(examId),
+      fetchExamTestlets(examId),
+    ]).then(([examData, questionData, stimulusData, testletData]) => {
+      if (examData) setExam(examData);
+      setQuestions(questionData);
+      setStimuli(stimulusData);
+      setTestlets(testletData);
+      setIsLoading(false);
+    });
+  }, [examId, isNew]);
+
+  const updateExam = (patch: Partial<AdminExam>) =>
+    setExam((prev) => ({ ...prev, ...patch }));
+
+  const handleSave = async () => {
+    if (!exam.id.trim() || !exam.title.trim()) {
+      setMessage("Exam id and title are required");
+      return;
+    }
+
+    setIsSaving(true);
+    const { error } = await saveExam({
+      ...exam,
+      id: exam.id.trim(),
+      total_questions: isNew ? exam.total_questions : questions.length,
+    });
+    setIsSaving(false);
+
+    if (error) {
+      setMessage(`Save failed: ${error}`);
+    } else if (isNew) {
+      navigate(getAdminExamRoute(exam.id.trim()), { replace: true });
+    } else {
+      setMessage("Saved");
+    }
+  };
+
+  const handleDeleteExam = async () => {
+    if (!window.confirm(`Delete "${exam.title}" and all its questions?`)) {
+      return;
+    }
+    const { error } = await deleteExam(exam.id);
+    if (error) {
+      setMessage(`Delete failed: ${error}`);
+    } else {
+      navigate(ROUTES.ADMIN);
+    }
+  };
+
+  const applyOrder = async (next: AdminQuestion[]) => {
+    setQuestions(next);
+    const { error } = await renumberQuestions(next);
+    if (error) {
+      setMessage(`Reorder failed: ${error}`);
+      return;
+    }
+    setQuestions(next.map((q, i) => ({ ...q, question_number: i + 1 })));
+  };
+
+  const moveQuestion = (from: number, to: number) => {
+    if (to < 0 || to >= questions.length) return;
+    const next = [...questions];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    applyOrder(next);
+  };
+
+  const handleDeleteQuestion = async (question: AdminQuestion) => {
+    if (!question.id) return;
+    if (!window.confirm(`Delete question ${question.question_number}?`)) {
+      return;
+    }
+    const { error } = await deleteQuestion(question.id);
+    if (error) {
+      setMessage(`Delete failed: ${error}`);
+      return;
+    }
+    applyOrder(questions.filter((q) => q.id !== question.id));
+  };
+
+  const updateTestlet = (index: number, testlet: AdminTestlet) =>
+    setTestlets((prev) => prev.map((t, i) => (i === index ? testlet : t)));
+
+  const addTestlet = () =>
+    setTestlets((prev) => [
+      ...prev,
+      createEmptyTestlet(
+        exam.id,
+        prev.length === 0 ? 1 : Math.max(...prev.map((t) => t.stage)) + 1,
+      ),
+    ]);
+
+  const handleSaveTestlet = async (index: number) => {
+    const testlet = testlets[index];
+    setSavingTestlet(index);
+    const { id, error } = await saveTestlet({
+      ...testlet,
+      routing: testlet.routing.filter((route) => route.next),
+    });
+    setSavingTestlet(null);
+
+    if (error || !id) {
+      setMessage(`Save failed: ${error}`);
+      return;
+    }
+    updateTestlet(index, { ...testlet, id });
+    setMessage("Testlet saved");
+  };
+
+  const handleDeleteTestlet = async (index: number) => {
+    const testlet = testlets[index];
+    if (testlet.id) {
+      if (!window.confirm("Delete this testlet? Its questions are kept.")) {
+        return;
+      }
+      const { error } = await deleteTestlet(testlet.id);
+      if (error) {
+        setMessage(`Delete failed: ${error}`);
+        return;
+      }
+      setQuestions((prev) =>
+        prev.map((q) =>
+          q.testlet_id === testlet.id ? { ...q, testlet_id: null } : q,
+        ),
+      );
+    }
+    setTestlets((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container-custom py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <Link
+            to={ROUTES.ADMIN}
+            className="flex items-center gap-2 text-gray-600 hover:text-indigo-600"
+          >
+            <ArrowLeft className="w-4 h-4" /> All exams
+          </Link>
+          <div className="flex items-center gap-2">
+            {message && (
+              <span className="text-sm text-gray-600">{message}</span>
+            )}
+            {!isNew && (
+              <button
+                onClick={handleDeleteExam}
+                className="flex items-center gap-2 px-4 py-2 text-red-600 rounded-xl hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" /> Delete
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl font-semibold hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isSaving ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              Save exam
+            </button>
+          </div>
+        </div>
+
+        {/* Exam settings */}
+        <div className="bg-white rounded-2xl shadow p-6 space-y-4">
+          <h2 className="text-xl font-black text-gray-900">
+            {isNew ? "New exam" : exam.title}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {isNew ? (
+              <Field
+                label="Exam id (e.g. naplan-y5-num-2017)"
+                value={exam.id}
+                onChange={(id) => updateExam({ id })}
+              />
+            ) : (
+              <div className="text-xs font-medium text-gray-600">
+                Exam id
+                <p className="mt-1 p-2 font-mono text-sm text-gray-900">
+                  {exam.id}
+                </p>
+              </div>
+            )}
+            <Field
+              label="Title"
+              value={exam.title}
+              onChange={(title) => updateExam({ title })}
+            />
+          </div>
+          <TextArea
+            label="Description"
+            value={exam.description || ""}
+            onChange={(description) =>
+              updateExam({ description: description || null })
+            }
+          />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Select
+              label="Exam type"
+              value={exam.exam_type}
+              options={["NAPLAN", "ICAS"]}
+              onChange={(exam_type) =>
+                updateExam({ exam_type: exam_type as AdminExam["exam_type"] })
+              }
+            />
+            <Field
+              label="Subject"
+              value={exam.subject}
+              onChange={(subject) => updateExam({ subject })}
+            />
+            <NumberField
+              label="Year level"
+              value={exam.year_level}
+              onChange={(year_level) =>
+                updateExam({ year_level: year_level ?? 5 })
+              }
+            />
+            <NumberField
+              label="Duration (minutes)"
+              value={exam.duration_minutes}
+              onChange={(duration_minutes) =>
+                updateExam({ duration_minutes: duration_minutes ?? 45 })
+              }
+            />
+            <Select
+              label="Difficulty"
+              value={exam.difficulty || ""}
+              options={["", "Easy", "Medium", "Hard"]}
+              onChange={(difficulty) =>
+                updateExam({
+                  difficulty: (difficulty || null) as AdminExam["difficulty"],
+                })
+              }
+            />
+            <Select
+              label="Violation policy"
+              value={exam.violation_policy}
+              options={["warn", "auto_submit"]}
+              onChange={(violation_policy) =>
+                updateExam({
+                  violation_policy:
+                    violation_policy as AdminExam["violation_policy"],
+                })
+              }
+            />
+            <NumberField
+              label="Max tab switches"
+              value={exam.max_tab_switches}
+              onChange={(max_tab_switches) =>
+                updateExam({ max_tab_switches: max_tab_switches ?? 3 })
+              }
+            />
+          </div>
+          <div className="flex flex-wrap gap-6">
+            <Checkbox
+              label="Active (visible to students)"
+              checked={exam.is_active}
+              onChange={(is_active) => updateExam({ is_active })}
+            />
+            <Checkbox
+              label="Free"
+              checked={exam.is_free}
+              onChange={(is_free) => updateExam({ is_free })}
+            />
+            <Checkbox
+              label="Allow pause"
+              checked={exam.allow_pause}
+              onChange={(allow_pause) => updateExam({ allow_pause })}
+            />
+            <Checkbox
+              label="Adaptive (testlets)"
+              checked={exam.is_adaptive}
+              onChange={(is_adaptive) => updateExam({ is_adaptive })}
+            />
+          </div>
+        </div>
+
+        {/* Questions */}
+        {!isNew && (
+          <div className="bg-white rounded-2xl shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-black text-gray-900">
+                Questions ({questions.length})
+              </h2>
+              <Link
+                to={getAdminQuestionRoute(exam.id, "new")}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-xl font-semibold hover:bg-indigo-100"
+              >
+                <Plus className="w-4 h-4" /> Add question
+              </Link>
+            </div>
+            <div className="divide-y">
+              {questions.map((question, index) => (
+                <div key={question.id} className="flex items-center gap-3 py-3">
+                  <span className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center font-bold text-sm shrink-0">
+                    {question.question_number}
+                  </span>
+                  <Link
+                    to={getAdminQuestionRoute(exam.id, question.id as string)}
+                    className="flex-1 min-w-0 hover:text-indigo-600"
+                  >
+                    <p className="truncate text-gray-900">
+                      {question.question_text.replace(/<[^>]*>/g, "") ||
+                        "(rich content)"}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {QUESTION_TYPE_LABELS[question.question_type]} ·{" "}
+                      {question.points} pt · {question.topic || "No topic"}
+                      {question.skill && ` · ${question.skill}`}
+                      {question.stimulus_id &&
+                        stimuli[question.stimulus_id] &&
+                        ` · ${stimuli[question.stimulus_id].title || "Stimulus"}`}
+                      {exam.is_adaptive &&
+                        !question.testlet_id &&
+                        " · ⚠️ No testlet"}
+                    </p>
+                  </Link>
+                  <button
+                    aria-label="Move up"
+                    disabled={index === 0}
+                    onClick={() => moveQuestion(index, index - 1)}
+                    className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  >
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    aria-label="Move down"
+                    disabled={index === questions.length - 1}
+                    onClick={() => moveQuestion(index, index + 1)}
+                    className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                  >
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    aria-label="Delete question"
+                    onClick={() => handleDeleteQuestion(question)}
+                    className="p-1 rounded hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Testlets */}
+        {!isNew && exam.is_adaptive && (
+          <div className="bg-white rounded-2xl shadow p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-xl font-black text-gray-900">
+                Testlets ({testlets.length})
+              </h2>
+              <button
+                onClick={addTestlet}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-xl font-semibold hover:bg-indigo-100"
+              >
+                <Plus className="w-4 h-4" /> Add testlet
+              </button>
+            </div>
+            <p className="text-sm text-gray-500 mb-4">
+              Everyone starts on stage 1. Save a testlet before routing to it,
+              and put every question in a testlet - questions without one are
+              never shown.
+            </p>
+            <div className="space-y-4">
+              {testlets.map((testlet, index) => (
+                <TestletEditor
+                  key={testlet.id || `new-${index}`}
+                  testlet={testlet}
+                  testlets={testlets}
+                  questionCount={
+                    questions.filter(
+                      (q) => testlet.id && q.testlet_id === testlet.id,
+                    ).length
+                  }
+                  isSaving={savingTestlet === index}
+                  onChange={(next) => updateTestlet(index, next)}
+                  onSave={() => handleSaveTestlet(index)}
+                  onDelete={() => handleDeleteTestlet(index)}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Stimuli */}
+        {!isNew && (
+          <div className="bg-white rounded-2xl shadow p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-black text-gray-900">
+                Stimuli ({Object.keys(stimuli).length})
+              </h2>
+              <Link
+                to={getAdminStimulusRoute(exam.id, "new")}
+                className="flex items-center gap-2 px-4 py-2 bg-indigo-50 text-indigo-700 rounded-xl font-semibold hover:bg-indigo-100"
+              >
+                <Plus className="w-4 h-4" /> Add stimulus
+              </Link>
+            </div>
+            <div className="divide-y">
+              {Object.values(stimuli).map((stimulus) => (
+                <Link
+                  key={stimulus.id}
+                  to={getAdminStimulusRoute(exam.id, stimulus.id)}
+                  className="flex items-center gap-3 py-3 hover:text-indigo-600"
+                >
+                  <BookOpen className="w-4 h-4 text-indigo-600 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate text-gray-900">
+                      {stimulus.title || "(untitled)"}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {STIMULUS_TYPE_LABELS[stimulus.stimulus_type]} ·{" "}
+                      {formatQuestionRange(
+                        getLinkedQuestionNumbers(stimulus.id, questions),
+                      ) || "No linked questions"}
+                    </p>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+// src/pages/AdminExamsPage.tsx
+// Admin console home - every exam, including inactive drafts
+// ============================================
+
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { Plus, Loader2, PenTool, ChevronRight, Receipt } from "lucide-react";
+import { fetchAdminExams, type AdminExam } from "@/lib/admin";
+import { ROUTES } from "@/data/constants";
+import { getAdminExamRoute } from "@/utils/routes";
+
+export default function AdminExamsPage() {
+  const [exams, setExams] = useState<AdminExam[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetchAdminExams().then((data) => {
+      setExams(data);
+      setIsLoading(false);
+    });
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container-custom py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-600 p-2 rounded-xl">
+              <PenTool className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-black text-gray-900">
+                Exam Authoring
+              </h1>
+              <p className="text-sm text-gray-500">
+                Create exams and edit questions without writing SQL
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <Link
+              to={ROUTES.ADMIN_STRIPE_EVENTS}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-xl font-semibold hover:bg-gray-100"
+            >
+              <Receipt className="w-4 h-4" /> Stripe events
+            </Link>
+            <Link
+              to={getAdminExamRoute("new")}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl font-semibold hover:bg-indigo-700"
+            >
+              <Plus className="w-4 h-4" /> New exam
+            </Link>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
+          </div>
+        ) : exams.length === 0 ? (
+          <p className="text-center text-gray-500 py-16">No exams yet.</p>
+        ) : (
+          <div className="bg-white rounded-2xl shadow divide-y">
+            {exams.map((exam) => (
+              <Link
+                key={exam.id}
+                to={getAdminExamRoute(exam.id)}
+                className="flex items-center gap-4 p-4 hover:bg-gray-50"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-semibold text-gray-900 truncate">
+                    {exam.title}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {exam.exam_type} · Year {exam.year_level} · {exam.subject} ·{" "}
+                    {exam.total_questions} questions · {exam.id}
+                  </p>
+                </div>
+                <span
+                  className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                    exam.is_active
+                      ? "bg-green-100 text-green-700"
+                      : "bg-gray-100 text-gray-500"
+                  }`}
+                >
+                  {exam.is_active ? "Active" : "Draft"}
+                </span>
+                <ChevronRight className="w-5 h-5 text-gray-400" />
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,372 @@
+// src/pages/AdminQuestionEditPage.tsx
+// Admin question editor - content blocks, options and answer key on the
+// left, a live preview rendered with the student widgets on the right
+// ============================================
+
+import { useState, useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Eye, Loader2, Save } from "lucide-react";
+import {
+  createEmptyQuestion,
+  fetchAdminExam,
+  fetchAdminQuestions,
+  saveQuestion,
+  type AdminExam,
+  type AdminQuestion,
+} from "@/lib/admin";
+import {
+  QUESTION_TYPE_LABELS,
+  formatCorrectAnswer,
+  numberBlanks,
+} from "@/lib/questionAnswers";
+import { OPTION_LETTERS } from "@/lib/questionContent";
+import { fetchExamStimuli } from "@/lib/stimuli";
+import { fetchExamTestlets } from "@/lib/testlets";
+import { WRITING_MAX_SCORE } from "@/lib/writing";
+import { getAdminExamRoute, getAdminQuestionRoute } from "@/utils/routes";
+import ContentBlockEditor, {
+  Field,
+  MediaUpload,
+  NumberField,
+  Select,
+  TextArea,
+} from "@/components/admin/ContentBlockEditor";
+import QuestionOptionsEditor from "@/components/admin/QuestionOptionsEditor";
+import { getTestletName } from "@/components/admin/TestletEditor";
+import { QuestionContentRenderer } from "@/components/exam/QuestionContentRenderer";
+import { StimulusPanel } from "@/components/exam/StimulusPanel";
+import {
+  BlankInput,
+  QuestionAnswerInput,
+} from "@/components/exam/QuestionAnswerInput";
+import type { QuestionType, Stimulus, Testlet } from "@/types/question";
+
+const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuestionType[];
+
+export default function AdminQuestionEditPage() {
+  const { examId = "", questionId = "new" } = useParams<{
+    examId: string;
+    questionId: string;
+  }>();
+  const navigate = useNavigate();
+  const isNew = questionId === "new";
+
+  const [exam, setExam] = useState<AdminExam | null>(null);
+  const [question, setQuestion] = useState<AdminQuestion>(() =>
+    createEmptyQuestion(examId, 1),
+  );
+  const [stimuli, setStimuli] = useState<Record<string, Stimulus>>({});
+  const [testlets, setTestlets] = useState<Testlet[]>([]);
+  const [previewAnswer, setPreviewAnswer] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([
+      fetchAdminExam(examId),
+      fetchAdminQuestions(examId),
+      fetchExamStimuli(examId),
+      fetchExamTestlets(examId),
+    ]).then(([examData, questions, stimulusData, testletData]) => {
+      setExam(examData);
+      setStimuli(stimulusData);
+      setTestlets(testletData);
+      const existing = questions.find((q) => q.id === questionId);
+      setQuestion(
+        existing || createEmptyQuestion(examId, questions.length + 1),
+      );
+      if (!isNew && !existing) setMessage("Question not found");
+      setPreviewAnswer("");
+      setIsLoading(false);
+    });
+  }, [examId, questionId, isNew]);
+
+  const update = (patch: Partial<AdminQuestion>) =>
+    setQuestion((prev) => ({ ...prev, ...patch }));
+
+  // Switching type invalidates the old key; choice types need options
+  const changeType = (question_type: QuestionType) => {
+    const needsOptions = ![
+      "short-answer",
+      "numeric",
+      "fill-in-blank",
+      "extended-response",
+      "dictation",
+    ].includes(question_type);
+    update({
+      question_type,
+      correct_answer: "",
+      // One point per rubric mark, so the score reads like NAPLAN's
+      ...(question_type === "extended-response" && {
+        points: WRITING_MAX_SCORE,
+      }),
+      options_data:
+        needsOptions && question.options_data.length === 0
+          ? OPTION_LETTERS.slice(0, 4).map((id) => ({ id, text: "" }))
+          : question.options_data,
+    });
+    setPreviewAnswer("");
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { id, error } = await saveQuestion(question);
+    setIsSaving(false);
+
+    if (error || !id) {
+      setMessage(`Save failed: ${error}`);
+      return;
+    }
+
+    setMessage("Saved");
+    if (isNew) {
+      navigate(getAdminQuestionRoute(examId, id), { replace: true });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const mediaFolder = exam
+    ? `year${exam.year_level}/${exam.subject.toLowerCase()}/${exam.id}`
+    : examId;
+  const previewQuestion = { ...question, id: question.id || "preview" };
+  const stimulus = question.stimulus_id
+    ? stimuli[question.stimulus_id]
+    : undefined;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container-custom py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <Link
+            to={getAdminExamRoute(examId)}
+            className="flex items-center gap-2 text-gray-600 hover:text-indigo-600"
+          >
+            <ArrowLeft className="w-4 h-4" /> {exam?.title || examId}
+          </Link>
+          <div className="flex items-center gap-2">
+            {message && (
+              <span className="text-sm text-gray-600">{message}</span>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl font-semibold hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isSaving ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              Save question
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+          {/* Editor */}
+          <div className="space-y-6">
+            <div className="bg-white rounded-2xl shadow p-6 space-y-4">
+              <h2 className="text-xl font-black text-gray-900">
+                Question {question.question_number}
+              </h2>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div className="col-span-2">
+                  <Select
+                    label="Question type"
+                    value={question.question_type}
+                    options={QUESTION_TYPES}
+                    onChange={(type) => changeType(type as QuestionType)}
+                  />
+                </div>
+                <NumberField
+                  label="Points"
+                  value={question.points}
+                  onChange={(points) => update({ points: points ?? 1 })}
+                />
+                <Select
+                  label="Difficulty"
+                  value={question.difficulty}
+                  options={["easy", "medium", "hard"]}
+                  onChange={(difficulty) =>
+                    update({
+                      difficulty: difficulty as AdminQuestion["difficulty"],
+                    })
+                  }
+                />
+                <div className="col-span-2">
+                  <Field
+                    label="Topic"
+                    value={question.topic || ""}
+                    onChange={(topic) => update({ topic: topic || null })}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Field
+                    label="Skill"
+                    value={question.skill || ""}
+                    onChange={(skill) => update({ skill: skill || null })}
+                  />
+                </div>
+              </div>
+              <Select
+                label="Stimulus (shared passage shown beside the question)"
+                value={question.stimulus_id || ""}
+                options={["", ...Object.keys(stimuli)]}
+                optionLabels={Object.fromEntries([
+                  ["", "None"],
+                  ...Object.values(stimuli).map((s) => [
+                    s.id,
+                    s.title || "(untitled)",
+                  ]),
+                ])}
+                onChange={(stimulus_id) =>
+                  update({ stimulus_id: stimulus_id || null })
+                }
+              />
+              {exam?.is_adaptive && (
+                <Select
+                  label="Testlet (adaptive section)"
+                  value={question.testlet_id || ""}
+                  options={["", ...testlets.map((t) => t.id)]}
+                  optionLabels={Object.fromEntries([
+                    ["", "None - not shown"],
+                    ...testlets.map((t) => [t.id, getTestletName(t)]),
+                  ])}
+                  onChange={(testlet_id) =>
+                    update({ testlet_id: testlet_id || null })
+                  }
+                />
+              )}
+              <TextArea
+                label="Question text (HTML; shown when there are no content blocks)"
+                value={question.question_text}
+                onChange={(question_text) => update({ question_text })}
+              />
+            </div>
+
+            <div className="bg-white rounded-2xl shadow p-6">
+              <h3 className="font-bold text-gray-900 mb-2">Content blocks</h3>
+              <ContentBlockEditor
+                blocks={question.content}
+                onChange={(content) => update({ content })}
+                mediaFolder={mediaFolder}
+              />
+            </div>
+
+            <div className="bg-white rounded-2xl shadow p-6">
+              <QuestionOptionsEditor
+                question={question}
+                onChange={update}
+                mediaFolder={mediaFolder}
+              />
+            </div>
+
+            <div className="bg-white rounded-2xl shadow p-6 space-y-4">
+              <h3 className="font-bold text-gray-900">Hint and explanation</h3>
+              <Field
+                label="Hint"
+                value={question.hint || ""}
+                onChange={(hint) => update({ hint: hint || null })}
+              />
+              <ContentBlockEditor
+                blocks={question.hint_content}
+                onChange={(hint_content) => update({ hint_content })}
+                mediaFolder={mediaFolder}
+              />
+              <TextArea
+                label="Explanation"
+                value={question.explanation || ""}
+                onChange={(explanation) =>
+                  update({ explanation: explanation || null })
+                }
+              />
+              <ContentBlockEditor
+                blocks={question.answer_explanation}
+                onChange={(answer_explanation) =>
+                  update({ answer_explanation })
+                }
+                mediaFolder={mediaFolder}
+              />
+            </div>
+
+            <div className="bg-white rounded-2xl shadow p-6 space-y-2">
+              <h3 className="font-bold text-gray-900">Audio</h3>
+              <MediaUpload
+                folder={`${mediaFolder}/audio`}
+                accept="audio/*"
+                current={question.audio_path}
+                onUploaded={({ path }) => update({ audio_path: path })}
+              />
+            </div>
+          </div>
+
+          {/* Live preview */}
+          <div className="bg-white rounded-2xl shadow p-6 xl:sticky xl:top-24">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="font-bold text-gray-900 flex items-center gap-2">
+                <Eye className="w-4 h-4" /> Student preview
+              </h3>
+              <span className="text-xs text-gray-500">
+                {QUESTION_TYPE_LABELS[question.question_type]}
+              </span>
+            </div>
+
+            {stimulus && (
+              <StimulusPanel stimulus={stimulus} className="max-h-80 mb-5" />
+            )}
+
+            {question.content.length > 0 ? (
+              <QuestionContentRenderer
+                blocks={question.content}
+                className="mb-5"
+                renderBlank={
+                  question.question_type === "fill-in-blank"
+                    ? (blankId) => (
+                        <BlankInput
+                          blankId={blankId}
+                          value={previewAnswer}
+                          onChange={setPreviewAnswer}
+                        />
+                      )
+                    : undefined
+                }
+              />
+            ) : (
+              <div
+                className="prose prose-lg max-w-none mb-5 question-content"
+                dangerouslySetInnerHTML={{
+                  __html:
+                    question.question_type === "fill-in-blank"
+                      ? numberBlanks(question.question_text)
+                      : question.question_text,
+                }}
+              />
+            )}
+
+            <QuestionAnswerInput
+              question={previewQuestion}
+              value={previewAnswer}
+              onChange={setPreviewAnswer}
+            />
+
+            <div className="mt-6 pt-4 border-t text-sm text-gray-600">
+              <span className="font-semibold">Answer key: </span>
+              {formatCorrectAnswer(question) || (
+                <span className="text-red-600">not set</span>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+// src/pages/AdminStimulusEditPage.tsx
+// Admin stimulus editor - a shared passage, poem or infographic with a
+// preview of the split-pane panel students see beside linked questions
+// ============================================
+
+import { useState, useEffect } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Eye, Loader2, Save, Trash2 } from "lucide-react";
+import {
+  createEmptyStimulus,
+  deleteStimulus,
+  fetchAdminExam,
+  fetchAdminQuestions,
+  saveStimulus,
+  type AdminExam,
+  type AdminQuestion,
+  type AdminStimulus,
+} from "@/lib/admin";
+import {
+  STIMULUS_TYPE_LABELS,
+  fetchExamStimuli,
+  formatQuestionRange,
+  getLinkedQuestionNumbers,
+} from "@/lib/stimuli";
+import { getAdminExamRoute, getAdminStimulusRoute } from "@/utils/routes";
+import ContentBlockEditor, {
+  Checkbox,
+  Field,
+  Select,
+} from "@/components/admin/ContentBlockEditor";
+import { StimulusPanel } from "@/components/exam/StimulusPanel";
+import type { StimulusType } from "@/types/question";
+
+const STIMULUS_TYPES = Object.keys(STIMULUS_TYPE_LABELS) as StimulusType[];
+
+export default function AdminStimulusEditPage() {
+  const { examId = "", stimulusId = "new" } = useParams<{
+    examId: string;
+    stimulusId: string;
+  }>();
+  const navigate = useNavigate();
+  const isNew = stimulusId === "new";
+
+  const [exam, setExam] = useState<AdminExam | null>(null);
+  const [stimulus, setStimulus] = useState<AdminStimulus>(() =>
+    createEmptyStimulus(examId),
+  );
+  const [questions, setQuestions] = useState<AdminQuestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([
+      fetchAdminExam(examId),
+      fetchExamStimuli(examId),
+      fetchAdminQuestions(examId),
+    ]).then(([examData, stimuli, questionData]) => {
+      setExam(examData);
+      setQuestions(questionData);
+      const existing = stimuli[stimulusId];
+      setStimulus(existing || createEmptyStimulus(examId));
+      if (!isNew && !existing) setMessage("Stimulus not found");
+      setIsLoading(false);
+    });
+  }, [examId, stimulusId, isNew]);
+
+  const update = (patch: Partial<AdminStimulus>) =>
+    setStimulus((prev) => ({ ...prev, ...patch }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const { id, error } = await saveStimulus(stimulus);
+    setIsSaving(false);
+
+    if (error || !id) {
+      setMessage(`Save failed: ${error}`);
+      return;
+    }
+
+    setMessage("Saved");
+    if (isNew) {
+      navigate(getAdminStimulusRoute(examId, id), { replace: true });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!stimulus.id) return;
+    if (
+      !window.confirm(
+        `Delete "${stimulus.title || "this stimulus"}"? Linked questions are kept.`,
+      )
+    ) {
+      return;
+    }
+    const { error } = await deleteStimulus(stimulus.id);
+    if (error) {
+      setMessage(`Delete failed: ${error}`);
+    } else {
+      navigate(getAdminExamRoute(examId));
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  const mediaFolder = exam
+    ? `year${exam.year_level}/${exam.subject.toLowerCase()}/${exam.id}/stimuli`
+    : examId;
+  const linkedLabel = stimulus.id
+    ? formatQuestionRange(getLinkedQuestionNumbers(stimulus.id, questions))
+    : "";
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container-custom py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <Link
+            to={getAdminExamRoute(examId)}
+            className="flex items-center gap-2 text-gray-600 hover:text-indigo-600"
+          >
+            <ArrowLeft className="w-4 h-4" /> {exam?.title || examId}
+          </Link>
+          <div className="flex items-center gap-2">
+            {message && (
+              <span className="text-sm text-gray-600">{message}</span>
+            )}
+            {stimulus.id && (
+              <button
+                onClick={handleDelete}
+                className="flex items-center gap-2 px-4 py-2 text-red-600 rounded-xl hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" /> Delete
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl font-semibold hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isSaving ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              Save stimulus
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+          {/* Editor */}
+          <div className="space-y-6">
+            <div className="bg-white rounded-2xl shadow p-6 space-y-4">
+              <h2 className="text-xl font-black text-gray-900">
+                {isNew ? "New stimulus" : stimulus.title || "Stimulus"}
+              </h2>
+              <div className="grid grid-cols-2 gap-4">
+                <Field
+                  label="Title"
+                  value={stimulus.title}
+                  onChange={(title) => update({ title })}
+                />
+                <Select
+                  label="Type"
+                  value={stimulus.stimulus_type}
+                  options={STIMULUS_TYPES}
+                  optionLabels={STIMULUS_TYPE_LABELS}
+                  onChange={(type) =>
+                    update({ stimulus_type: type as StimulusType })
+                  }
+                />
+              </div>
+              <Checkbox
+                label="Show line numbers (each line break in a text block is a new line)"
+                checked={stimulus.show_line_numbers}
+                onChange={(show_line_numbers) => update({ show_line_numbers })}
+              />
+              {linkedLabel && (
+                <p className="text-sm text-gray-600">Used by {linkedLabel}</p>
+              )}
+            </div>
+
+            <div className="bg-white rounded-2xl shadow p-6">
+              <h3 className="font-bold text-gray-900 mb-2">Content blocks</h3>
+              <ContentBlockEditor
+                blocks={stimulus.content}
+                onChange={(content) => update({ content })}
+                mediaFolder={mediaFolder}
+              />
+            </div>
+          </div>
+
+          {/* Live preview */}
+          <div className="xl:sticky xl:top-24 space-y-2">
+            <h3 className="font-bold text-gray-900 flex items-center gap-2">
+              <Eye className="w-4 h-4" /> Student preview
+            </h3>
+            <StimulusPanel
+              stimulus={{ ...stimulus, id: stimulus.id || "preview" }}
+              linkedLabel={linkedLabel}
+              className="h-[70vh]"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
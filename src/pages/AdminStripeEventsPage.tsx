@@ -0,0 +1,390 @@
+// src/pages/AdminStripeEventsPage.tsx
+// Stripe webhook events from the stripe_events ledger - how each one was
+// handled, with replay for the ones that failed or need redoing
+// ============================================
+
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import {
+  ArrowLeft,
+  Loader2,
+  Receipt,
+  RotateCcw,
+  AlertCircle,
+  ChevronDown,
+  ChevronUp,
+} from "lucide-react";
+import {
+  fetchStripeEvents,
+  fetchStripeEventPayload,
+  replayStripeEvents,
+  isStuck,
+  MAX_REPLAY_EVENTS,
+  STRIPE_EVENT_PAGE_SIZE,
+  type ReplayResult,
+  type StripeEvent,
+  type StripeEventFilters,
+} from "@/lib/stripeEvents";
+import { ROUTES } from "@/data/constants";
+
+const STATUS_OPTIONS: {
+  value: StripeEventFilters["status"];
+  label: string;
+}[] = [
+  { value: "all", label: "All" },
+  { value: "failed", label: "Failed" },
+  { value: "processing", label: "Processing" },
+  { value: "processed", label: "Processed" },
+  { value: "ignored", label: "Ignored" },
+];
+
+const STATUS_STYLES: Record<StripeEvent["status"], string> = {
+  processed: "bg-green-100 text-green-700",
+  ignored: "bg-gray-100 text-gray-500",
+  processing: "bg-amber-100 text-amber-700",
+  failed: "bg-red-100 text-red-700",
+};
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleString("en-AU", {
+    day: "numeric",
+    month: "short",
+    hour: "numeric",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+export default function AdminStripeEventsPage() {
+  const [filters, setFilters] = useState<StripeEventFilters>({
+    status: "all",
+    type: "",
+  });
+  const [events, setEvents] = useState<StripeEvent[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [payload, setPayload] = useState<unknown>(null);
+  const [missingIds, setMissingIds] = useState("");
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [results, setResults] = useState<ReplayResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEvents = useCallback(async () => {
+    setIsLoading(true);
+    const data = await fetchStripeEvents(filters);
+    setEvents(data);
+    setHasMore(data.length === STRIPE_EVENT_PAGE_SIZE);
+    setSelected([]);
+    setIsLoading(false);
+  }, [filters]);
+
+  useEffect(() => {
+    // Debounced so typing in the type filter doesn't query on every key
+    const timer = setTimeout(loadEvents, 300);
+    return () => clearTimeout(timer);
+  }, [loadEvents]);
+
+  const handleLoadMore = async () => {
+    const last = events[events.length - 1];
+    if (!last) return;
+
+    setIsLoadingMore(true);
+    const data = await fetchStripeEvents(filters, last.stripe_created_at);
+    setEvents((prev) => [...prev, ...data]);
+    setHasMore(data.length === STRIPE_EVENT_PAGE_SIZE);
+    setIsLoadingMore(false);
+  };
+
+  const handleToggleExpand = async (eventId: string) => {
+    if (expandedId === eventId) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(eventId);
+    setPayload(null);
+    setPayload(await fetchStripeEventPayload(eventId));
+  };
+
+  const toggleSelected = (eventId: string) => {
+    setSelected((prev) =>
+      prev.includes(eventId)
+        ? prev.filter((id) => id !== eventId)
+        : [...prev, eventId],
+    );
+  };
+
+  const replay = async (eventIds: string[]) => {
+    if (eventIds.length === 0) return;
+    if (eventIds.length > MAX_REPLAY_EVENTS) {
+      setError(`Replay up to ${MAX_REPLAY_EVENTS} events at a time`);
+      return;
+    }
+
+    setIsReplaying(true);
+    setError(null);
+    setResults(null);
+
+    const result = await replayStripeEvents(eventIds);
+
+    if ("error" in result) {
+      setError(result.error);
+    } else {
+      setResults(result.results);
+      setMissingIds("");
+      await loadEvents();
+    }
+    setIsReplaying(false);
+  };
+
+  const needsReplay = events.filter(
+    (event) => event.status === "failed" || isStuck(event),
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container-custom py-8 space-y-6">
+        <Link
+          to={ROUTES.ADMIN}
+          className="flex items-center gap-2 text-gray-600 hover:text-indigo-600"
+        >
+          <ArrowLeft className="w-4 h-4" /> All exams
+        </Link>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="bg-indigo-600 p-2 rounded-xl">
+              <Receipt className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-black text-gray-900">
+                Stripe Events
+              </h1>
+              <p className="text-sm text-gray-500">
+                Webhook deliveries and how each one was handled
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {needsReplay.length > 0 && (
+              <button
+                onClick={() => replay(needsReplay.map((event) => event.id))}
+                disabled={isReplaying}
+                className="flex items-center gap-2 px-4 py-2 border border-red-300 text-red-600 rounded-xl font-semibold hover:bg-red-50 disabled:opacity-50"
+              >
+                <RotateCcw className="w-4 h-4" /> Replay failed (
+                {needsReplay.length})
+              </button>
+            )}
+            <button
+              onClick={() => replay(selected)}
+              disabled={isReplaying || selected.length === 0}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl font-semibold hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isReplaying ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <RotateCcw className="w-4 h-4" />
+              )}
+              Replay selected
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {results && (
+          <div className="bg-white rounded-2xl shadow p-4">
+            <h2 className="font-bold text-gray-900 mb-2">Replay results</h2>
+            <ul className="space-y-1 text-sm">
+              {results.map((result) => (
+                <li key={result.eventId} className="flex items-center gap-2">
+                  <span className="font-mono text-gray-500">
+                    {result.eventId}
+                  </span>
+                  <span className="text-gray-700">{result.type}</span>
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                      result.status
+                        ? STATUS_STYLES[result.status]
+                        : STATUS_STYLES.processing
+                    }`}
+                  >
+                    {result.claimed ? result.status : "already running"}
+                  </span>
+                  {result.note && (
+                    <span className="text-gray-500">{result.note}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="bg-white rounded-2xl shadow p-4 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-xs font-semibold text-gray-500 mb-1">
+              Status
+            </label>
+            <div className="flex gap-1">
+              {STATUS_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() =>
+                    setFilters((prev) => ({ ...prev, status: option.value }))
+                  }
+                  className={`px-3 py-1.5 rounded-lg text-sm font-semibold ${
+                    filters.status === option.value
+                      ? "bg-indigo-600 text-white"
+                      : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex-1 min-w-[12rem]">
+            <label className="block text-xs font-semibold text-gray-500 mb-1">
+              Type
+            </label>
+            <input
+              type="text"
+              value={filters.type}
+              onChange={(e) =>
+                setFilters((prev) => ({ ...prev, type: e.target.value }))
+              }
+              placeholder="e.g. customer.subscription"
+              className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          <div className="flex-1 min-w-[16rem]">
+            <label className="block text-xs font-semibold text-gray-500 mb-1">
+              Events the webhook never received
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={missingIds}
+                onChange={(e) => setMissingIds(e.target.value)}
+                placeholder="evt_... (comma separated)"
+                className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm font-mono"
+              />
+              <button
+                onClick={() =>
+                  replay(
+                    missingIds
+                      .split(/[\s,]+/)
+                      .map((id) => id.trim())
+                      .filter(Boolean),
+                  )
+                }
+                disabled={isReplaying || !missingIds.trim()}
+                className="px-3 py-1.5 bg-gray-800 text-white rounded-lg text-sm font-semibold hover:bg-gray-900 disabled:opacity-50"
+              >
+                Fetch &amp; run
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-center text-gray-500 py-16">No events.</p>
+        ) : (
+          <div className="bg-white rounded-2xl shadow divide-y">
+            {events.map((event) => (
+              <div key={event.id}>
+                <div className="flex items-center gap-4 p-4">
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(event.id)}
+                    onChange={() => toggleSelected(event.id)}
+                    className="w-4 h-4"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-gray-900 truncate">
+                      {event.type}
+                      {!event.livemode && (
+                        <span className="ml-2 text-xs font-normal text-amber-600">
+                          test mode
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatTime(event.stripe_created_at)} · {event.id} ·{" "}
+                      {event.attempts} attempt{event.attempts === 1 ? "" : "s"}
+                    </p>
+                    {event.note && (
+                      <p
+                        className={`text-xs mt-1 ${
+                          event.status === "failed"
+                            ? "text-red-600"
+                            : "text-gray-500"
+                        }`}
+                      >
+                        {event.note}
+                      </p>
+                    )}
+                  </div>
+                  <span
+                    className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                      STATUS_STYLES[event.status]
+                    }`}
+                  >
+                    {isStuck(event) ? "stuck" : event.status}
+                  </span>
+                  <button
+                    onClick={() => handleToggleExpand(event.id)}
+                    className="p-1 text-gray-400 hover:text-indigo-600"
+                    aria-label="Show payload"
+                  >
+                    {expandedId === event.id ? (
+                      <ChevronUp className="w-5 h-5" />
+                    ) : (
+                      <ChevronDown className="w-5 h-5" />
+                    )}
+                  </button>
+                </div>
+                {expandedId === event.id && (
+                  <div className="px-4 pb-4">
+                    {payload === null ? (
+                      <Loader2 className="w-5 h-5 text-indigo-600 animate-spin" />
+                    ) : (
+                      <pre className="max-h-96 overflow-auto bg-gray-900 text-gray-100 text-xs rounded-xl p-4">
+                        {JSON.stringify(payload, null, 2)}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasMore && !isLoading && (
+          <div className="flex justify-center">
+            <button
+              onClick={handleLoadMore}
+              disabled={isLoadingMore}
+              className="flex items-center gap-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-xl font-semibold hover:bg-gray-100 disabled:opacity-50"
+            >
+              {isLoadingMore && <Loader2 className="w-4 h-4 animate-spin" />}
+              Load more
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,945 @@
+// src/pages/ClassPage.tsx
+// One class, for its teacher (migration 025) - the roster (join code and
+// CSV import), assignments with their dates and attempt limits, and the
+// gradebook: best score per student and assignment, how the class did on
+// each question, and the assignment's writing to mark.
+// ============================================
+
+import { useState, useEffect, useCallback } from "react";
+import { Link, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  AlertCircle,
+  Archive,
+  ArrowLeft,
+  BarChart3,
+  ClipboardList,
+  Loader2,
+  PenLine,
+  Plus,
+  Trash2,
+  Upload,
+  Users,
+  X,
+} from "lucide-react";
+import { useAuthStore } from "@/store";
+import { ROUTES } from "@/data/constants";
+import { formatDate } from "@/utils/helpers";
+import { getClassRoute, getWritingMarkingRoute } from "@/utils/routes";
+import {
+  cancelRosterInvite,
+  createAssignment,
+  deleteAssignment,
+  fetchAssignableExams,
+  fetchAssignmentQuestionStats,
+  fetchAssignmentWriting,
+  fetchClass,
+  fetchClassAssignments,
+  fetchClassGradebook,
+  fetchClassRoster,
+  getAssignmentStatus,
+  getStudentName,
+  importClassRoster,
+  parseRosterCsv,
+  removeClassMember,
+  setClassArchived,
+  type AssignableExam,
+  type AssignmentQuestionStat,
+  type AssignmentWriting,
+  type ClassAssignment,
+  type ClassStudent,
+  type GradebookEntry,
+  type RosterInvite,
+  type RosterRow,
+  type SchoolClass,
+} from "@/lib/classes";
+
+type Tab = "roster" | "assignments" | "gradebook";
+
+const TABS: { id: Tab; label: string; icon: typeof Users }[] = [
+  { id: "roster", label: "Roster", icon: Users },
+  { id: "assignments", label: "Assignments", icon: ClipboardList },
+  { id: "gradebook", label: "Gradebook", icon: BarChart3 },
+];
+
+// <input type="datetime-local"> works in local time without a zone
+function toLocalInputValue(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function scoreColor(percentage: number): string {
+  if (percentage >= 80) return "bg-green-100 text-green-700";
+  if (percentage >= 50) return "bg-yellow-100 text-yellow-700";
+  return "bg-red-100 text-red-700";
+}
+
+export default function ClassPage() {
+  const { classId = "" } = useParams<{ classId: string }>();
+  const { user } = useAuthStore();
+
+  const [schoolClass, setSchoolClass] = useState<SchoolClass | null>(null);
+  const [students, setStudents] = useState<ClassStudent[]>([]);
+  const [invites, setInvites] = useState<RosterInvite[]>([]);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
+  const [tab, setTab] = useState<Tab>("roster");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRoster = useCallback(async () => {
+    const roster = await fetchClassRoster(classId);
+    setStudents(roster.students);
+    setInvites(roster.invites);
+  }, [classId]);
+
+  const loadAssignments = useCallback(async () => {
+    setAssignments(await fetchClassAssignments(classId));
+  }, [classId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([fetchClass(classId), loadRoster(), loadAssignments()]).then(
+      ([found]) => {
+        setSchoolClass(found);
+        setIsLoading(false);
+      },
+    );
+  }, [classId, loadRoster, loadAssignments]);
+
+  const handleArchive = async () => {
+    if (!schoolClass) return;
+    setIsSaving(true);
+    setError(null);
+    const archived = !schoolClass.archived_at;
+    const result = await setClassArchived(schoolClass.id, archived);
+    if (!result.success) {
+      setError(result.error || "Failed to update the class");
+    } else {
+      setSchoolClass(await fetchClass(schoolClass.id));
+    }
+    setIsSaving(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!schoolClass || schoolClass.teacher_id !== user?.id) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl shadow-xl p-8 max-w-md w-full text-center">
+          <AlertCircle className="w-14 h-14 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-black text-gray-800 mb-2">
+            Class not found
+          </h1>
+          <p className="text-gray-600 mb-6">
+            Only the class's teacher can open this page.
+          </p>
+          <Link
+            to={ROUTES.CLASSES}
+            className="inline-block px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+          >
+            Back to classes
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 py-8">
+      <div className="container-custom space-y-6">
+        <Link
+          to={ROUTES.CLASSES}
+          className="inline-flex items-center gap-2 text-gray-600 hover:text-indigo-600 font-semibold"
+        >
+          <ArrowLeft className="w-5 h-5" />
+          All classes
+        </Link>
+
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-wrap items-end justify-between gap-4"
+        >
+          <div>
+            <h1 className="text-4xl font-black text-gray-800">
+              {schoolClass.name}
+            </h1>
+            <p className="text-gray-600 font-medium">
+              {[
+                schoolClass.subject,
+                schoolClass.year_level && `Year ${schoolClass.year_level}`,
+                `${students.length} student${students.length === 1 ? "" : "s"}`,
+              ]
+                .filter(Boolean)
+                .join(" · ")}
+              {schoolClass.archived_at &&
+                ` · Archived ${formatDate(schoolClass.archived_at)}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            {!schoolClass.archived_at && (
+              <div className="px-5 py-3 bg-white rounded-2xl shadow text-center">
+                <p className="text-xs font-bold text-gray-400 uppercase">
+                  Class code
+                </p>
+                <p className="text-2xl font-black font-mono tracking-widest text-indigo-600">
+                  {schoolClass.join_code}
+                </p>
+              </div>
+            )}
+            <button
+              onClick={handleArchive}
+              disabled={isSaving}
+              className="flex items-center gap-2 px-4 py-2 bg-white text-gray-600 rounded-xl shadow font-semibold hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Archive className="w-5 h-5" />
+              {schoolClass.archived_at ? "Restore" : "Archive"}
+            </button>
+          </div>
+        </motion.div>
+
+        <div className="flex flex-wrap gap-2">
+          {TABS.map((t) => {
+            const Icon = t.icon;
+            return (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-xl font-semibold transition ${
+                  tab === t.id
+                    ? "bg-indigo-500 text-white"
+                    : "bg-white text-gray-600 hover:bg-gray-100"
+                }`}
+              >
+                <Icon className="w-5 h-5" />
+                {t.label}
+              </button>
+            );
+          })}
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+            <AlertCircle className="w-5 h-5 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {tab === "roster" && (
+          <RosterTab
+            classId={schoolClass.id}
+            students={students}
+            invites={invites}
+            onChange={loadRoster}
+            onError={setError}
+          />
+        )}
+        {tab === "assignments" && (
+          <AssignmentsTab
+            classId={schoolClass.id}
+            assignments={assignments}
+            onChange={loadAssignments}
+            onError={setError}
+          />
+        )}
+        {tab === "gradebook" && (
+          <GradebookTab
+            classId={schoolClass.id}
+            students={students}
+            assignments={assignments}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// ROSTER
+// ============================================
+
+function RosterTab({
+  classId,
+  students,
+  invites,
+  onChange,
+  onError,
+}: {
+  classId: string;
+  students: ClassStudent[];
+  invites: RosterInvite[];
+  onChange: () => Promise<void>;
+  onError: (error: string | null) => void;
+}) {
+  const [csvRows, setCsvRows] = useState<RosterRow[]>([]);
+  const [csvErrors, setCsvErrors] = useState<string[]>([]);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const { rows, errors } = parseRosterCsv(await file.text());
+    setCsvRows(rows);
+    setCsvErrors(errors);
+    setImportNotice(null);
+  };
+
+  const handleImport = async () => {
+    setIsSaving(true);
+    onError(null);
+    const result = await importClassRoster(classId, csvRows);
+    if ("error" in result) {
+      onError(result.error);
+    } else {
+      setImportNotice(
+        `${result.invited} invited` +
+          (result.skipped ? `, ${result.skipped} skipped` : ""),
+      );
+      setCsvRows([]);
+      setCsvErrors([]);
+      await onChange();
+    }
+    setIsSaving(false);
+  };
+
+  const handleRemove = async (student: ClassStudent) => {
+    if (!window.confirm(`Remove ${getStudentName(student)} from this class?`)) {
+      return;
+    }
+    onError(null);
+    const result = await removeClassMember(classId, student.id);
+    if (!result.success) {
+      onError(result.error || "Failed to remove the student");
+    } else {
+      await onChange();
+    }
+  };
+
+  const handleCancelInvite = async (invite: RosterInvite) => {
+    onError(null);
+    const result = await cancelRosterInvite(classId, invite.email);
+    if (!result.success) {
+      onError(result.error || "Failed to cancel the invite");
+    } else {
+      await onChange();
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-white rounded-2xl shadow-lg p-6">
+        <h2 className="text-xl font-black text-gray-800 mb-4">Students</h2>
+        {students.length === 0 ? (
+          <p className="text-gray-500">
+            No students yet - share the class code or import a roster.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {students.map((student) => (
+              <div
+                key={student.id}
+                className="flex items-center justify-between gap-4 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-800 truncate">
+                    {getStudentName(student)}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {student.email}
+                    {student.year_level && ` · Year ${student.year_level}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemove(student)}
+                  className="p-2 text-red-600 rounded-xl hover:bg-red-50"
+                  aria-label={`Remove ${getStudentName(student)}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {invites.length > 0 && (
+          <>
+            <h3 className="font-bold text-gray-800 mt-6 mb-2">Invited</h3>
+            <div className="divide-y">
+              {invites.map((invite) => (
+                <div
+                  key={invite.email}
+                  className="flex items-center justify-between gap-4 py-2"
+                >
+                  <p className="text-gray-600 truncate">
+                    {invite.full_name && `${invite.full_name} · `}
+                    {invite.email}
+                  </p>
+                  <button
+                    onClick={() => handleCancelInvite(invite)}
+                    className="p-2 text-gray-400 rounded-xl hover:bg-gray-100"
+                    aria-label={`Cancel invite for ${invite.email}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4 h-fit">
+        <h2 className="text-xl font-black text-gray-800">Import a roster</h2>
+        <p className="text-sm text-gray-500">
+          A CSV with a name and an email per student, e.g. exported from your
+          school system. Each student is invited and joins once they accept -
+          straight away if they have an account, or after signing up with that
+          email.
+        </p>
+        <label className="flex items-center justify-center gap-2 px-4 py-3 border-2 border-dashed border-indigo-200 rounded-xl text-indigo-600 font-semibold cursor-pointer hover:bg-indigo-50">
+          <Upload className="w-5 h-5" />
+          Choose CSV file
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = "";
+            }}
+          />
+        </label>
+
+        {csvErrors.length > 0 && (
+          <ul className="text-sm text-red-600 space-y-1">
+            {csvErrors.slice(0, 5).map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+            {csvErrors.length > 5 && (
+              <li>and {csvErrors.length - 5} more lines</li>
+            )}
+          </ul>
+        )}
+
+        {csvRows.length > 0 && (
+          <button
+            onClick={handleImport}
+            disabled={isSaving}
+            className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+          >
+            {isSaving && <Loader2 className="w-5 h-5 animate-spin" />}
+            Import {csvRows.length} student{csvRows.length === 1 ? "" : "s"}
+          </button>
+        )}
+
+        {importNotice && (
+          <p className="text-sm text-green-600 font-semibold">{importNotice}</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// ASSIGNMENTS
+// ============================================
+
+function AssignmentsTab({
+  classId,
+  assignments,
+  onChange,
+  onError,
+}: {
+  classId: string;
+  assignments: ClassAssignment[];
+  onChange: () => Promise<void>;
+  onError: (error: string | null) => void;
+}) {
+  const { user } = useAuthStore();
+  const [exams, setExams] = useState<AssignableExam[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [examId, setExamId] = useState("");
+  const [opensAt, setOpensAt] = useState(() => toLocalInputValue(new Date()));
+  const [closesAt, setClosesAt] = useState("");
+  const [maxAttempts, setMaxAttempts] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!user || !showForm || exams.length > 0) return;
+    fetchAssignableExams(user.id).then(setExams);
+  }, [user, showForm, exams.length]);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    onError(null);
+    const result = await createAssignment(classId, {
+      examId,
+      opensAt: new Date(opensAt).toISOString(),
+      closesAt: closesAt ? new Date(closesAt).toISOString() : null,
+      maxAttempts,
+    });
+    if ("error" in result) {
+      onError(result.error);
+      setIsSaving(false);
+      return;
+    }
+
+    setExamId("");
+    setOpensAt(toLocalInputValue(new Date()));
+    setClosesAt("");
+    setMaxAttempts(null);
+    setShowForm(false);
+    await onChange();
+    setIsSaving(false);
+  };
+
+  const handleDelete = async (assignment: ClassAssignment) => {
+    if (
+      !window.confirm(
+        `Delete "${assignment.exam?.title || "this assignment"}"? Students' attempts are kept but drop out of the gradebook.`,
+      )
+    ) {
+      return;
+    }
+    onError(null);
+    const result = await deleteAssignment(assignment.id);
+    if (!result.success) {
+      onError(result.error || "Failed to delete the assignment");
+    } else {
+      await onChange();
+    }
+  };
+
+  const practiceSets = exams.filter((e) => e.owner_id);
+  const catalogue = exams.filter((e) => !e.owner_id);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h2 className="text-xl font-black text-gray-800">Assignments</h2>
+          {!showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+            >
+              <Plus className="w-5 h-5" />
+              Assign
+            </button>
+          )}
+        </div>
+
+        {assignments.length === 0 ? (
+          <p className="text-gray-500">Nothing assigned yet.</p>
+        ) : (
+          <div className="divide-y">
+            {assignments.map((assignment) => {
+              const status = getAssignmentStatus(assignment);
+              return (
+                <div
+                  key={assignment.id}
+                  className="flex items-center justify-between gap-4 py-3"
+                >
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-800 truncate">
+                      {assignment.exam?.title || "Exam"}{" "}
+                      <span className="text-sm font-medium text-gray-400 capitalize">
+                        ({status})
+                      </span>
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      Opens {formatDate(assignment.opens_at)}
+                      {assignment.closes_at &&
+                        ` · Closes ${formatDate(assignment.closes_at)}`}
+                      {" · "}
+                      {assignment.max_attempts === null
+                        ? "Unlimited attempts"
+                        : `${assignment.max_attempts} attempt${assignment.max_attempts === 1 ? "" : "s"}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(assignment)}
+                    className="p-2 text-red-600 rounded-xl hover:bg-red-50"
+                    aria-label="Delete assignment"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="bg-white rounded-2xl shadow-lg p-6 space-y-5 max-w-2xl">
+          <h2 className="text-xl font-black text-gray-800">New assignment</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block sm:col-span-2">
+              <span className="font-semibold text-gray-800">
+                Exam or practice set
+              </span>
+              <select
+                value={examId}
+                onChange={(e) => setExamId(e.target.value)}
+                className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none bg-white"
+              >
+                <option value="">
+                  {exams.length ? "Choose one" : "Loading..."}
+                </option>
+                {practiceSets.length > 0 && (
+                  <optgroup label="My practice sets">
+                    {practiceSets.map((exam) => (
+                      <option key={exam.id} value={exam.id}>
+                        {exam.title}
+                      </option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="Exams">
+                  {catalogue.map((exam) => (
+                    <option key={exam.id} value={exam.id}>
+                      {exam.subject} · Year {exam.year_level} · {exam.title}
+                    </option>
+                  ))}
+                </optgroup>
+              </select>
+            </label>
+            <label className="block">
+              <span className="font-semibold text-gray-800">Opens</span>
+              <input
+                type="datetime-local"
+                value={opensAt}
+                onChange={(e) => setOpensAt(e.target.value)}
+                className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+              />
+            </label>
+            <label className="block">
+              <span className="font-semibold text-gray-800">
+                Closes (optional)
+              </span>
+              <input
+                type="datetime-local"
+                value={closesAt}
+                min={opensAt}
+                onChange={(e) => setClosesAt(e.target.value)}
+                className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+              />
+            </label>
+            <label className="block">
+              <span className="font-semibold text-gray-800">
+                Attempts allowed
+              </span>
+              <select
+                value={maxAttempts ?? ""}
+                onChange={(e) =>
+                  setMaxAttempts(
+                    e.target.value === "" ? null : Number(e.target.value),
+                  )
+                }
+                className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none bg-white"
+              >
+                <option value="">Unlimited</option>
+                {[1, 2, 3, 5, 10].map((n) => (
+                  <option key={n} value={n}>
+                    {n}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex items-center justify-end gap-3 pt-4 border-t">
+            <button
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 text-gray-600 font-semibold"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={isSaving || !examId || !opensAt}
+              className="flex items-center gap-2 px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+            >
+              {isSaving ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <Plus className="w-5 h-5" />
+              )}
+              Assign
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// GRADEBOOK
+// ============================================
+
+function GradebookTab({
+  classId,
+  students,
+  assignments,
+}: {
+  classId: string;
+  students: ClassStudent[];
+  assignments: ClassAssignment[];
+}) {
+  const [entries, setEntries] = useState<GradebookEntry[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [questionStats, setQuestionStats] = useState<
+    AssignmentQuestionStat[] | null
+  >(null);
+  const [writing, setWriting] = useState<AssignmentWriting[]>([]);
+
+  useEffect(() => {
+    fetchClassGradebook(classId).then(setEntries);
+  }, [classId]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    setQuestionStats(null);
+    setWriting([]);
+    fetchAssignmentQuestionStats(selectedId).then(setQuestionStats);
+    fetchAssignmentWriting(selectedId).then(setWriting);
+  }, [selectedId]);
+
+  if (!entries) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-10 h-10 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (students.length === 0 || assignments.length === 0) {
+    return (
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <p className="text-gray-500">
+          The gradebook fills in once the class has students and assignments.
+        </p>
+      </div>
+    );
+  }
+
+  // Oldest assignment first, left to right
+  const columns = [...assignments].sort((a, b) =>
+    a.opens_at.localeCompare(b.opens_at),
+  );
+  const entryFor = (studentId: string, assignmentId: string) =>
+    entries.find(
+      (e) => e.student_id === studentId && e.assignment_id === assignmentId,
+    );
+  const average = (values: (number | null | undefined)[]) => {
+    const scored = values.filter((v): v is number => v != null);
+    return scored.length
+      ? Math.round(scored.reduce((sum, v) => sum + v, 0) / scored.length)
+      : null;
+  };
+  const selected = columns.find((a) => a.id === selectedId) || null;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-2xl shadow-lg p-6 overflow-x-auto">
+        <p className="text-sm text-gray-500 mb-4">
+          Best score per assignment, with attempts used. Pick an assignment to
+          see how the class did on each question.
+        </p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-2 pr-4 font-bold text-gray-700">
+                Student
+              </th>
+              {columns.map((assignment) => (
+                <th key={assignment.id} className="px-2 py-2 min-w-[7rem]">
+                  <button
+                    onClick={() => setSelectedId(assignment.id)}
+                    className={`font-bold text-left hover:text-indigo-600 ${
+                      selectedId === assignment.id
+                        ? "text-indigo-600"
+                        : "text-gray-700"
+                    }`}
+                  >
+                    {assignment.exam?.title || "Exam"}
+                  </button>
+                </th>
+              ))}
+              <th className="px-2 py-2 font-bold text-gray-700">Average</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {students.map((student) => {
+              const row = columns.map((a) => entryFor(student.id, a.id));
+              const rowAverage = average(row.map((e) => e?.best_percentage));
+              return (
+                <tr key={student.id}>
+                  <td className="py-2 pr-4 font-semibold text-gray-800 whitespace-nowrap">
+                    {getStudentName(student)}
+                  </td>
+                  {columns.map((assignment, i) => {
+                    const entry = row[i];
+                    return (
+                      <td key={assignment.id} className="px-2 py-2">
+                        {entry?.best_percentage != null ? (
+                          <span
+                            className={`inline-block px-2 py-1 rounded-lg font-bold ${scoreColor(entry.best_percentage)}`}
+                          >
+                            {Math.round(entry.best_percentage)}%
+                          </span>
+                        ) : (
+                          <span className="text-gray-300">-</span>
+                        )}
+                        {entry && entry.attempts > 0 && (
+                          <span className="ml-1 text-xs text-gray-400">
+                            {entry.attempts}
+                            {assignment.max_attempts !== null &&
+                              `/${assignment.max_attempts}`}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                  <td className="px-2 py-2 font-black text-gray-800">
+                    {rowAverage === null ? "-" : `${rowAverage}%`}
+                  </td>
+                </tr>
+              );
+            })}
+            <tr className="border-t-2">
+              <td className="py-2 pr-4 font-bold text-gray-700">
+                Class average
+              </td>
+              {columns.map((assignment) => {
+                const columnAverage = average(
+                  students.map(
+                    (s) => entryFor(s.id, assignment.id)?.best_percentage,
+                  ),
+                );
+                return (
+                  <td
+                    key={assignment.id}
+                    className="px-2 py-2 font-black text-gray-800"
+                  >
+                    {columnAverage === null ? "-" : `${columnAverage}%`}
+                  </td>
+                );
+              })}
+              <td />
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <h2 className="text-xl font-black text-gray-800 mb-4">
+            {selected.exam?.title || "Exam"} by question
+          </h2>
+          {!questionStats ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 text-indigo-500 animate-spin" />
+            </div>
+          ) : questionStats.every((q) => q.answered === 0) ? (
+            <p className="text-gray-500">No completed attempts yet.</p>
+          ) : (
+            <div className="divide-y">
+              {questionStats.map((question) => {
+                const correctRate = question.answered
+                  ? Math.round((question.correct / question.answered) * 100)
+                  : null;
+                return (
+                  <div
+                    key={question.question_id}
+                    className="flex items-center gap-4 py-3"
+                  >
+                    <span className="w-8 text-gray-400 font-bold">
+                      {question.question_number}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-gray-800 truncate">
+                        {question.question_text}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {question.topic && `${question.topic} · `}
+                        {question.correct} of {question.answered} correct
+                      </p>
+                    </div>
+                    <div className="w-32 h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-indigo-500"
+                        style={{ width: `${correctRate ?? 0}%` }}
+                      />
+                    </div>
+                    <span className="w-12 text-right font-black text-gray-800">
+                      {correctRate === null ? "-" : `${correctRate}%`}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {selected && writing.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <h2 className="flex items-center gap-2 text-xl font-black text-gray-800 mb-4">
+            <PenLine className="w-5 h-5" />
+            Writing to mark
+          </h2>
+          <div className="divide-y">
+            {writing.map((response) => {
+              const student = students.find(
+                (s) => s.id === response.student_id,
+              );
+              return (
+                <div
+                  key={`${response.attempt_id}-${response.question_id}`}
+                  className="flex items-center justify-between gap-4 py-3"
+                >
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-800 truncate">
+                      {student ? getStudentName(student) : "Former student"} ·
+                      Question {response.question_number}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {response.marked ? "Marked" : "Not marked yet"}
+                      {response.completed_at &&
+                        ` · ${formatDate(response.completed_at)}`}
+                    </p>
+                  </div>
+                  <Link
+                    to={getWritingMarkingRoute(
+                      response.exam_id,
+                      response.attempt_id,
+                      response.question_id,
+                    )}
+                    state={{ returnTo: getClassRoute(classId) }}
+                    className={`shrink-0 px-4 py-2 rounded-xl text-sm font-semibold ${
+                      response.marked
+                        ? "border-2 border-gray-200 text-gray-600 hover:bg-gray-50"
+                        : "bg-indigo-500 text-white hover:bg-indigo-600"
+                    }`}
+                  >
+                    {response.marked ? "Change marks" : "Mark"}
+                  </Link>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,541 @@
+// src/pages/ClassesPage.tsx
+// Classes (migration 025) - teachers see and create their classes;
+// students join one with a class code or by accepting a roster invite, and
+// see what's been assigned.
+// ============================================
+
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  AlertCircle,
+  Archive,
+  CalendarClock,
+  Check,
+  GraduationCap,
+  Loader2,
+  LogIn,
+  Plus,
+  Users,
+  X,
+} from "lucide-react";
+import { useAuthStore } from "@/store";
+import { SUBJECTS, YEAR_LEVELS } from "@/data/constants";
+import { formatDate } from "@/utils/helpers";
+import { getAssignmentStartRoute, getClassRoute } from "@/utils/routes";
+import {
+  CLASS_JOIN_CODE_LENGTH,
+  createClass,
+  fetchMyClassInvites,
+  fetchStudentAssignments,
+  fetchTeacherClasses,
+  getAssignmentStatus,
+  getAttemptsLeft,
+  joinClass,
+  respondToClassInvite,
+  type AssignmentStatus,
+  type ClassInvite,
+  type SchoolClass,
+  type StudentAssignment,
+  type TeacherClass,
+} from "@/lib/classes";
+
+const STATUS_STYLES: Record<AssignmentStatus, string> = {
+  open: "bg-green-100 text-green-700",
+  upcoming: "bg-yellow-100 text-yellow-700",
+  closed: "bg-gray-100 text-gray-500",
+};
+
+// Open first, then upcoming, then closed; soonest deadline first
+const STATUS_ORDER: Record<AssignmentStatus, number> = {
+  open: 0,
+  upcoming: 1,
+  closed: 2,
+};
+
+export default function ClassesPage() {
+  const { profile } = useAuthStore();
+
+  return profile?.role === "teacher" ? <TeacherClasses /> : <StudentClasses />;
+}
+
+// ============================================
+// TEACHER
+// ============================================
+
+function TeacherClasses() {
+  const { user } = useAuthStore();
+  const [classes, setClasses] = useState<TeacherClass[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+
+  // New class form
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [subject, setSubject] = useState("");
+  const [yearLevel, setYearLevel] = useState<number | null>(null);
+
+  const loadClasses = useCallback(async () => {
+    if (!user) return;
+    setClasses(await fetchTeacherClasses(user.id));
+  }, [user]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadClasses().finally(() => setIsLoading(false));
+  }, [loadClasses]);
+
+  const handleCreate = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    setError(null);
+
+    const result = await createClass(user.id, {
+      name,
+      subject: subject || null,
+      yearLevel,
+    });
+    if ("error" in result) {
+      setError(result.error);
+      setIsSaving(false);
+      return;
+    }
+
+    setName("");
+    setSubject("");
+    setYearLevel(null);
+    setShowForm(false);
+    await loadClasses();
+    setIsSaving(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const archivedCount = classes.filter((c) => c.archived_at).length;
+  const visible = classes.filter((c) => !!c.archived_at === showArchived);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 py-8">
+      <div className="container-custom space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-wrap items-end justify-between gap-4"
+        >
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <GraduationCap className="w-10 h-10 text-indigo-600" />
+              <h1 className="text-4xl font-black text-gray-800">My Classes</h1>
+            </div>
+            <p className="text-gray-600 font-medium">
+              Share a class code or import a roster, then set assignments.
+            </p>
+          </div>
+          {archivedCount > 0 && (
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="flex items-center gap-2 px-4 py-2 bg-white text-gray-600 rounded-xl shadow font-semibold hover:bg-gray-50"
+            >
+              <Archive className="w-5 h-5" />
+              {showArchived ? "Current classes" : `Archived (${archivedCount})`}
+            </button>
+          )}
+        </motion.div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+            <AlertCircle className="w-5 h-5 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {visible.map((schoolClass) => (
+            <Link
+              key={schoolClass.id}
+              to={getClassRoute(schoolClass.id)}
+              className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition"
+            >
+              <h2 className="text-xl font-black text-gray-800">
+                {schoolClass.name}
+              </h2>
+              <p className="text-sm text-gray-500">
+                {[
+                  schoolClass.subject,
+                  schoolClass.year_level && `Year ${schoolClass.year_level}`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ") || "No subject set"}
+              </p>
+              <div className="flex items-center justify-between mt-4">
+                <span className="flex items-center gap-1 text-gray-600 font-semibold">
+                  <Users className="w-4 h-4" />
+                  {schoolClass.studentCount} student
+                  {schoolClass.studentCount === 1 ? "" : "s"}
+                </span>
+                <span className="font-mono font-bold text-indigo-600 tracking-widest">
+                  {schoolClass.join_code}
+                </span>
+              </div>
+            </Link>
+          ))}
+
+          {!showArchived && !showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-indigo-200 rounded-2xl text-indigo-600 font-semibold hover:bg-indigo-50 min-h-[10rem]"
+            >
+              <Plus className="w-8 h-8" />
+              New class
+            </button>
+          )}
+        </div>
+
+        {showForm && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 space-y-5 max-w-2xl">
+            <h2 className="text-xl font-black text-gray-800">New class</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <label className="block sm:col-span-3">
+                <span className="font-semibold text-gray-800">Class name</span>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. 5B Maths"
+                  className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+                />
+              </label>
+              <label className="block sm:col-span-2">
+                <span className="font-semibold text-gray-800">Subject</span>
+                <select
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none bg-white"
+                >
+                  <option value="">Any subject</option>
+                  {SUBJECTS.map((s) => (
+                    <option key={s.id} value={s.name}>
+                      {s.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="font-semibold text-gray-800">Year level</span>
+                <select
+                  value={yearLevel ?? ""}
+                  onChange={(e) =>
+                    setYearLevel(
+                      e.target.value === "" ? null : Number(e.target.value),
+                    )
+                  }
+                  className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none bg-white"
+                >
+                  <option value="">Mixed</option>
+                  {YEAR_LEVELS.map((level) => (
+                    <option key={level.value} value={level.value}>
+                      {level.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="flex items-center justify-end gap-3 pt-4 border-t">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-gray-600 font-semibold"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={isSaving}
+                className="flex items-center gap-2 px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+              >
+                {isSaving ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Plus className="w-5 h-5" />
+                )}
+                Create class
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// STUDENT
+// ============================================
+
+function StudentClasses() {
+  const { user, profile } = useAuthStore();
+  const [classes, setClasses] = useState<SchoolClass[]>([]);
+  const [assignments, setAssignments] = useState<StudentAssignment[]>([]);
+  const [invites, setInvites] = useState<ClassInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isJoining, setIsJoining] = useState(false);
+  const [joinCode, setJoinCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAssignments = useCallback(async () => {
+    if (!user) return;
+    const [result, pending] = await Promise.all([
+      fetchStudentAssignments(user.id),
+      fetchMyClassInvites(),
+    ]);
+    setClasses(result.classes);
+    setAssignments(result.assignments);
+    setInvites(pending);
+  }, [user]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadAssignments().finally(() => setIsLoading(false));
+  }, [loadAssignments]);
+
+  const handleJoin = async () => {
+    setIsJoining(true);
+    setError(null);
+    const result = await joinClass(joinCode);
+    if ("error" in result) {
+      setError(result.error);
+    } else {
+      setJoinCode("");
+      await loadAssignments();
+    }
+    setIsJoining(false);
+  };
+
+  const handleInvite = async (invite: ClassInvite, accept: boolean) => {
+    setIsJoining(true);
+    setError(null);
+    const result = await respondToClassInvite(invite.class_id, accept);
+    if (!result.success) {
+      setError(result.error || "Failed to answer the invite");
+    } else {
+      await loadAssignments();
+    }
+    setIsJoining(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const now = new Date();
+  const sorted = [...assignments].sort((a, b) => {
+    const byStatus =
+      STATUS_ORDER[getAssignmentStatus(a, now)] -
+      STATUS_ORDER[getAssignmentStatus(b, now)];
+    if (byStatus !== 0) return byStatus;
+    return (a.closes_at || "9999").localeCompare(b.closes_at || "9999");
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 py-8">
+      <div className="container-custom space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <div className="flex items-center gap-3 mb-2">
+            <GraduationCap className="w-10 h-10 text-indigo-600" />
+            <h1 className="text-4xl font-black text-gray-800">My Classes</h1>
+          </div>
+          <p className="text-gray-600 font-medium">
+            {classes.length
+              ? classes.map((c) => c.name).join(" · ")
+              : "You're not in a class yet"}
+          </p>
+        </motion.div>
+
+        {profile?.teacher_requested_at && (
+          <div className="flex items-center gap-2 p-4 bg-yellow-50 border border-yellow-200 rounded-xl text-yellow-800 max-w-xl">
+            <AlertCircle className="w-5 h-5 shrink-0" />
+            Your teacher account is waiting for an admin to approve it. You can
+            create classes once it is.
+          </div>
+        )}
+
+        {/* Invites */}
+        {profile?.role === "student" && invites.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 max-w-xl">
+            <h2 className="text-xl font-black text-gray-800 mb-1">
+              Class invites
+            </h2>
+            <p className="text-gray-500 mb-4">
+              Your teacher will see your results for what they assign.
+            </p>
+            <div className="divide-y">
+              {invites.map((invite) => (
+                <div
+                  key={invite.class_id}
+                  className="flex items-center justify-between gap-4 py-3"
+                >
+                  <div className="min-w-0">
+                    <p className="font-semibold text-gray-800 truncate">
+                      {invite.class_name}
+                    </p>
+                    <p className="text-sm text-gray-500 truncate">
+                      {[
+                        invite.teacher_name,
+                        invite.subject,
+                        invite.year_level && `Year ${invite.year_level}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      onClick={() => handleInvite(invite, true)}
+                      disabled={isJoining}
+                      className="flex items-center gap-1 px-3 py-2 bg-indigo-500 text-white rounded-xl text-sm font-semibold hover:bg-indigo-600 disabled:opacity-50"
+                    >
+                      <Check className="w-4 h-4" />
+                      Join
+                    </button>
+                    <button
+                      onClick={() => handleInvite(invite, false)}
+                      disabled={isJoining}
+                      className="p-2 text-gray-400 rounded-xl hover:bg-gray-100 disabled:opacity-50"
+                      aria-label={`Decline invite to ${invite.class_name}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Join */}
+        {profile?.role === "student" && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 max-w-xl">
+            <h2 className="text-xl font-black text-gray-800 mb-1">
+              Join a class
+            </h2>
+            <p className="text-gray-500 mb-4">
+              Type the code your teacher gave you.
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                autoCapitalize="characters"
+                maxLength={CLASS_JOIN_CODE_LENGTH}
+                value={joinCode}
+                onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
+                placeholder="ABC123"
+                className="flex-1 min-w-0 px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none font-mono tracking-widest uppercase"
+              />
+              <button
+                onClick={handleJoin}
+                disabled={isJoining || !joinCode}
+                className="flex items-center gap-2 px-5 py-2 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+              >
+                {isJoining ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <LogIn className="w-5 h-5" />
+                )}
+                Join
+              </button>
+            </div>
+            {error && <p className="text-red-600 mt-3">{error}</p>}
+          </div>
+        )}
+
+        {/* Assignments */}
+        {classes.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <h2 className="text-xl font-black text-gray-800 mb-4">
+              Assignments
+            </h2>
+            {sorted.length === 0 ? (
+              <p className="text-gray-500">Nothing has been assigned yet.</p>
+            ) : (
+              <div className="divide-y">
+                {sorted.map((assignment) => {
+                  const status = getAssignmentStatus(assignment, now);
+                  const attemptsLeft = getAttemptsLeft(
+                    assignment,
+                    assignment.attemptsUsed,
+                  );
+                  const canStart = status === "open" && attemptsLeft !== 0;
+
+                  return (
+                    <div
+                      key={assignment.id}
+                      className="flex flex-wrap items-center justify-between gap-4 py-4"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold text-gray-800 truncate">
+                            {assignment.exam?.title || "Exam"}
+                          </p>
+                          <span
+                            className={`px-2 py-0.5 rounded-full text-xs font-bold capitalize ${STATUS_STYLES[status]}`}
+                          >
+                            {status}
+                          </span>
+                        </div>
+                        <p className="flex items-center gap-1 text-sm text-gray-500">
+                          <CalendarClock className="w-4 h-4" />
+                          {assignment.className} ·{" "}
+                          {status === "upcoming"
+                            ? `Opens ${formatDate(assignment.opens_at)}`
+                            : assignment.closes_at
+                              ? `${status === "closed" ? "Closed" : "Due"} ${formatDate(assignment.closes_at)}`
+                              : "No due date"}
+                          {attemptsLeft !== null &&
+                            ` · ${attemptsLeft} of ${assignment.max_attempts} attempts left`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-4">
+                        {assignment.bestPercentage !== null && (
+                          <span className="text-lg font-black text-indigo-600">
+                            {Math.round(assignment.bestPercentage)}%
+                          </span>
+                        )}
+                        {canStart && (
+                          <Link
+                            to={getAssignmentStartRoute(
+                              assignment.exam_id,
+                              assignment.id,
+                            )}
+                            className="px-4 py-2 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+                          >
+                            {assignment.attemptsUsed > 0
+                              ? "Try again"
+                              : "Start"}
+                          </Link>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Link } from "react-router-dom";
+import { Link, Navigate } from "react-router-dom";
 import { useAuthStore } from "@/store";
 import { ROUTES } from "@/data/constants";
 import { formatDate } from "@/utils/helpers";
@@ -8,6 +8,7 @@ import {
   type DashboardData,
   type RecentAttemptWithExam,
 } from "@/lib/dashboard";
+import { MASTERY_CONFIDENCE_LABELS } from "@/lib/mastery";
 import {
   BookOpen,
   Clock,
@@ -24,8 +25,10 @@ import {
   AlertCircle,
   RefreshCw,
   CheckCircle,
+  CalendarClock,
 } from "lucide-react";
 import { motion } from "framer-motion";
+import ProficiencyBadge from "@/components/ProficiencyBadge";
 
 export default function DashboardPage() {
   const { user, profile } = useAuthStore();
@@ -88,6 +91,16 @@ export default function DashboardPage() {
     }
   };
 
+  // Parents follow their children from the family page
+  if (profile?.role === "parent") {
+    return <Navigate to={ROUTES.FAMILY} replace />;
+  }
+
+  // Teachers start from their classes
+  if (profile?.role === "teacher") {
+    return <Navigate to={ROUTES.CLASSES} replace />;
+  }
+
   // Loading state
   if (isLoading) {
     return (
@@ -152,6 +165,7 @@ export default function DashboardPage() {
   const recentAttempts = dashboardData?.recentAttempts || [];
   const strongTopics = dashboardData?.strongTopics || [];
   const weakTopics = dashboardData?.weakTopics || [];
+  const dueReviewCount = dashboardData?.dueReviewCount || 0;
 
   // Check if user has any data
   const hasData = stats.totalExamsTaken > 0;
@@ -419,9 +433,15 @@ export default function DashboardPage() {
                         className="h-5 w-5 text-yellow-300"
                         fill="currentColor"
                       />
-                      <span className="font-bold text-white text-lg">
-                        {topic}
-                      </span>
+                      <div className="flex-1 min-w-0">
+                        <span className="font-bold text-white text-lg">
+                          {topic.topic}
+                        </span>
+                        <p className="text-white/80 text-sm font-semibold">
+                          {topic.mastery}% mastered ·{" "}
+                          {MASTERY_CONFIDENCE_LABELS[topic.confidence]}
+                        </p>
+                      </div>
                     </motion.div>
                   ))}
                 </div>
@@ -456,15 +476,60 @@ export default function DashboardPage() {
                       className="flex items-center space-x-3 bg-white/30 backdrop-blur-sm rounded-xl p-3"
                     >
                       <Zap className="h-5 w-5 text-yellow-300" />
-                      <span className="font-bold text-white text-lg">
-                        {topic}
-                      </span>
+                      <div className="flex-1 min-w-0">
+                        <span className="font-bold text-white text-lg">
+                          {topic.topic}
+                        </span>
+                        <p className="text-white/80 text-sm font-semibold">
+                          {topic.weakestSkill
+                            ? `Start with ${topic.weakestSkill.skill}`
+                            : `${topic.mastery}% mastered`}{" "}
+                          · {MASTERY_CONFIDENCE_LABELS[topic.confidence]}
+                        </p>
+                      </div>
                     </motion.div>
                   ))}
                 </div>
               )}
             </motion.div>
 
+            {/* Review Due Today */}
+            <motion.div
+              initial={{ x: 50, opacity: 0 }}
+              animate={{ x: 0, opacity: 1 }}
+              transition={{ delay: 0.65 }}
+              className="bg-gradient-to-br from-cyan-400 to-blue-400 rounded-3xl p-6 shadow-xl border-4 border-white"
+            >
+              <h3 className="font-black text-white text-2xl mb-4 flex items-center space-x-2">
+                <CalendarClock className="h-7 w-7" />
+                <span>Review Due Today</span>
+              </h3>
+              {dueReviewCount === 0 ? (
+                <p className="text-white/80 font-semibold">
+                  {hasData
+                    ? "All caught up! Missed questions come back here when they're due."
+                    : "Questions you miss in exams will come back here for review."}
+                </p>
+              ) : (
+                <>
+                  <p className="text-white font-bold text-lg mb-4">
+                    {dueReviewCount}{" "}
+                    {dueReviewCount === 1 ? "question" : "questions"} ready to
+                    practise again
+                  </p>
+                  <Link to={ROUTES.REVIEW}>
+                    <motion.button
+                      whileHover={{ scale: 1.05 }}
+                      whileTap={{ scale: 0.95 }}
+                      className="w-full py-4 bg-white text-blue-600 rounded-xl font-black text-lg shadow-lg hover:shadow-xl transition-all"
+                    >
+                      🔁 Start Review
+                    </motion.button>
+                  </Link>
+                </>
+              )}
+            </motion.div>
+
             {/* Quick Actions */}
             <motion.div
               initial={{ x: 50, opacity: 0 }}
@@ -495,6 +560,15 @@ export default function DashboardPage() {
                     📊 View All Results
                   </motion.button>
                 </Link>
+                <Link to={ROUTES.STUDY_PLAN}>
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    className="w-full py-4 bg-white/30 backdrop-blur-sm text-white rounded-xl font-bold text-lg border-4 border-white/50 hover:bg-white/40 transition-all"
+                  >
+                    📅 My Study Plan
+                  </motion.button>
+                </Link>
                 <Link to={ROUTES.PROFILE}>
                   <motion.button
                     whileHover={{ scale: 1.05 }}
@@ -678,6 +752,11 @@ function RecentExamCard({
               {attempt.exam.subject}
             </span>
           )}
+          {attempt.scaled && (
+            <span className="inline-block mt-2 ml-2">
+              <ProficiencyBadge result={attempt.scaled} size="sm" />
+            </span>
+          )}
         </div>
         <div
           className={`bg-gradient-to-r ${grade.color} px-4 py-2 rounded-xl shadow-lg`}
@@ -17,6 +17,16 @@ import {
 import { supabase } from "@/lib/supabase";
 import { useAuthStore } from "@/store";
 import { updateUserProgress } from "@/lib/dashboard";
+import { validateQuestionRows } from "@/lib/questionSchemas";
+import {
+  PLAYER_QUESTION_COLUMNS,
+  submitAttemptForGrading,
+} from "@/lib/grading";
+import {
+  type AttemptClock,
+  fetchAttemptClock,
+  getRemainingSeconds,
+} from "@/lib/examTimer";
 
 // ============================================
 // TYPES
@@ -29,8 +39,6 @@ interface Question {
   question_text: string;
   question_type: string;
   options: { id: string; text: string }[];
-  correct_answer: string;
-  explanation: string;
   points: number;
   image_url: string | null;
   hint: string | null;
@@ -86,6 +94,7 @@ export default function ExamPage() {
   );
   const [showHint, setShowHint] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState<number>(0);
+  const [clock, setClock] = useState<AttemptClock | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showSubmitModal, setShowSubmitModal] = useState(false);
@@ -136,7 +145,7 @@ export default function ExamPage() {
         // Fetch questions
         const { data: questionsData, error: questionsError } = await supabase
           .from("questions")
-          .select("*")
+          .select(PLAYER_QUESTION_COLUMNS)
           .eq("exam_id", examId)
           .order("question_number", { ascending: true });
 
@@ -153,7 +162,7 @@ export default function ExamPage() {
             typeof q.options === "string" ? JSON.parse(q.options) : q.options,
         }));
 
-        setQuestions(parsedQuestions);
+        setQuestions(validateQuestionRows(parsedQuestions, `exam ${examId}`));
 
         // Fetch attempt
         const { data: attemptData, error: attemptError } = await supabase
@@ -190,14 +199,15 @@ export default function ExamPage() {
           setFlaggedQuestions(new Set(typedAttemptData.flagged));
         }
 
-        // Calculate remaining time
-        const startTime = new Date(typedAttemptData.started_at).getTime();
-        const now = Date.now();
-        const elapsedSeconds = Math.floor((now - startTime) / 1000);
-        const totalSeconds = typedExamData.duration_minutes * 60;
-        const remaining = Math.max(0, totalSeconds - elapsedSeconds);
+        // Remaining time comes from the server-side deadline
+        const attemptClock = await fetchAttemptClock(attemptId);
+        if (attemptClock && attemptClock.status !== "in_progress") {
+          navigate(`/exam/${examId}/results/${attemptId}`, { replace: true });
+          return;
+        }
 
-        setTimeRemaining(remaining);
+        setClock(attemptClock);
+        setTimeRemaining(attemptClock ? getRemainingSeconds(attemptClock) : 0);
         setIsLoading(false);
       } catch (err) {
         console.error("Error loading exam:", err);
@@ -217,19 +227,17 @@ export default function ExamPage() {
     if (timeRemaining <= 0 || isLoading || !attempt) return;
 
     const timer = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 1) {
-          clearInterval(timer);
-          // Auto-submit when time runs out
-          handleSubmitExam();
-          return 0;
-        }
-        return prev - 1;
-      });
+      const remaining = clock ? getRemainingSeconds(clock) : 0;
+      setTimeRemaining(remaining);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        // Auto-submit when time runs out
+        handleSubmitExam();
+      }
     }, 1000);
 
     return () => clearInterval(timer);
-  }, [timeRemaining, isLoading, attempt]);
+  }, [timeRemaining, isLoading, attempt, clock]);
 
   // ============================================
   // AUTO-SAVE (answers + flagged)
@@ -333,39 +341,12 @@ export default function ExamPage() {
     setShowSubmitModal(false);
 
     try {
-      // Calculate score
-      let score = 0;
-      let totalPoints = 0;
-
-      questions.forEach((question) => {
-        totalPoints += question.points || 1;
-        const userAnswer = answers[question.id];
-        if (userAnswer && userAnswer === question.correct_answer) {
-          score += question.points || 1;
-        }
-      });
-
-      const percentage =
-        totalPoints > 0 ? Math.round((score / totalPoints) * 100) : 0;
-
-      // Calculate time spent
-      const startTime = attempt
-        ? new Date(attempt.started_at).getTime()
-        : Date.now();
-      const timeSpentSeconds = Math.floor((Date.now() - startTime) / 1000);
-
-      // Update attempt in database
+      // Persist the latest answers first - the server grades what is stored
       const { error: updateError } = await supabase
         .from("exam_attempts")
         .update({
-          status: "completed",
-          completed_at: new Date().toISOString(),
           answers: answers,
           flagged: Array.from(flaggedQuestions),
-          score: score,
-          total_points: totalPoints,
-          percentage: percentage,
-          time_spent_seconds: timeSpentSeconds,
         } as never)
         .eq("id", attemptId)
         .eq("user_id", user.id);
@@ -377,12 +358,27 @@ export default function ExamPage() {
         return;
       }
 
+      const graded = await submitAttemptForGrading(attemptId);
+      if ("error" in graded) {
+        setError("Failed to submit exam. Please try again.");
+        setIsSubmitting(false);
+        return;
+      }
+
+      const {
+        correct_count: correctCount,
+        question_count: questionCount,
+        percentage,
+        time_spent_seconds: timeSpentSeconds,
+      } = graded.result;
+
       // Update user progress
       await updateUserProgress(
         user.id,
         exam.id,
-        score,
-        totalPoints,
+        correctCount,
+        questionCount,
+        percentage,
         timeSpentSeconds,
       );
 
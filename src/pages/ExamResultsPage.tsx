@@ -38,8 +38,84 @@ import {
   Brain,
   Zap,
   Shield,
+  AlertTriangle,
+  PenLine,
+  GitBranch,
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
+import {
+  PLAYER_QUESTION_COLUMNS,
+  fetchAnswerKey,
+  fetchQuestionResults,
+} from "@/lib/grading";
+import {
+  getMatchTargets,
+  getQuestionOptions,
+  toContentBlocks,
+} from "@/lib/questionContent";
+import {
+  formatAnswer,
+  formatCorrectAnswer,
+  normalizeQuestionType,
+  parseAnswerList,
+} from "@/lib/questionAnswers";
+import {
+  QuestionContentRenderer,
+  QuestionOptionContent,
+} from "@/components/exam/QuestionContentRenderer";
+import {
+  type IntegritySummary,
+  type ViolationPolicy,
+  fetchViolations,
+  summarizeViolations,
+  VIOLATION_LABELS,
+} from "@/lib/integrity";
+import {
+  type AnswerChangeInsights,
+  type QuestionActivityMap,
+  analyzeAnswerChanges,
+  fetchAnswerHistory,
+} from "@/lib/questionActivity";
+import {
+  type ScoreScale,
+  PROFICIENCY_LABELS,
+  estimateScaledResult,
+  fetchScoreScale,
+} from "@/lib/naplanScale";
+import {
+  analyzeDifficulty,
+  analyzeTopics,
+  getQuestionSkill,
+  getWeakestSkill,
+} from "@/lib/questionTopics";
+import { validateQuestionRows } from "@/lib/questionSchemas";
+import {
+  type WritingMark,
+  WRITING_CRITERIA,
+  canMarkAttempt,
+  countWords,
+  fetchWritingMarks,
+  sanitizeWritingHtml,
+} from "@/lib/writing";
+import { getWritingMarkingRoute } from "@/utils/routes";
+import { analyzeMisspellings } from "@/lib/spelling";
+import {
+  type SkillMastery,
+  MASTERY_CONFIDENCE_LABELS,
+  fetchSkillMastery,
+  formatMasteryName,
+  rankTopicMastery,
+} from "@/lib/mastery";
+import {
+  TESTLET_LEVEL_LABELS,
+  fetchExamTestlets,
+  getPathTestlets,
+} from "@/lib/testlets";
+import type { Testlet } from "@/types/question";
+import type {
+  AttemptQuestionResult,
+  PlayerQuestionRow,
+} from "@/types/supabase";
 
 interface Question {
   id: string;
@@ -48,21 +124,32 @@ interface Question {
   options: unknown;
   correct_answer: string;
   explanation?: string;
+  answer_explanation?: unknown;
   points: number;
   question_number: number;
-  topic?: string;
-  difficulty?: string;
+  topic?: string | null;
+  skill?: string | null;
+  difficulty?: string | null;
+  content?: unknown;
+  options_data?: unknown;
+  match_targets?: unknown;
+  blanks?: unknown;
+  spelling_pattern?: string | null;
+  testlet_id?: string | null;
 }
 
 interface ExamAttempt {
   id: string;
   exam_id: string;
+  user_id: string;
   score: number;
+  total_points?: number | null;
+  percentage: number | null;
   answers: Record<string, string>;
   completed_at: string;
   time_taken: number;
-  tab_switches?: number;
-  violations?: Array<{ type: string; timestamp: string }>;
+  question_activity?: QuestionActivityMap | null;
+  testlet_path?: string[] | null;
 }
 
 interface Exam {
@@ -72,44 +159,12 @@ interface Exam {
   year_level: number;
   duration_minutes: number;
   total_marks: number;
+  violation_policy?: ViolationPolicy;
+  max_tab_switches?: number;
+  is_adaptive?: boolean;
 }
 
-// Topic categories for NAPLAN
-const TOPIC_MAPPING: Record<string, string> = {
-  money: "Number & Algebra",
-  calculation: "Number & Algebra",
-  pattern: "Number & Algebra",
-  fraction: "Number & Algebra",
-  decimal: "Number & Algebra",
-  percentage: "Number & Algebra",
-  ratio: "Number & Algebra",
-  place: "Number & Algebra",
-  multiply: "Number & Algebra",
-  divide: "Number & Algebra",
-  time: "Measurement & Geometry",
-  perimeter: "Measurement & Geometry",
-  area: "Measurement & Geometry",
-  volume: "Measurement & Geometry",
-  angle: "Measurement & Geometry",
-  shape: "Measurement & Geometry",
-  net: "Measurement & Geometry",
-  symmetry: "Measurement & Geometry",
-  transform: "Measurement & Geometry",
-  grid: "Measurement & Geometry",
-  map: "Measurement & Geometry",
-  graph: "Statistics & Probability",
-  data: "Statistics & Probability",
-  tally: "Statistics & Probability",
-  probability: "Statistics & Probability",
-  chance: "Statistics & Probability",
-  spinner: "Statistics & Probability",
-  average: "Statistics & Probability",
-  balance: "Number & Algebra",
-  equation: "Number & Algebra",
-  scale: "Measurement & Geometry",
-};
-
-// National average data (simulated)
+// National average data (simulated) - used when the exam has no score scale
 const NATIONAL_AVERAGES: Record<number, number> = {
   3: 65,
   5: 62,
@@ -123,8 +178,25 @@ export default function ExamResultsPage() {
   const [exam, setExam] = useState<Exam | null>(null);
   const [attempt, setAttempt] = useState<ExamAttempt | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [gradedResults, setGradedResults] = useState<
+    Map<string, AttemptQuestionResult>
+  >(new Map());
+  const [integrity, setIntegrity] = useState<IntegritySummary>(
+    summarizeViolations([]),
+  );
+  const [changeInsights, setChangeInsights] = useState<AnswerChangeInsights>(
+    analyzeAnswerChanges([]),
+  );
+  const [scoreScale, setScoreScale] = useState<ScoreScale | null>(null);
+  const [writingMarks, setWritingMarks] = useState<Map<string, WritingMark>>(
+    new Map(),
+  );
+  const [canMark, setCanMark] = useState(false);
+  const [pathTestlets, setPathTestlets] = useState<Testlet[]>([]);
+  const [mastery, setMastery] = useState<SkillMastery[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedQuestion, setExpandedQuestion] = useState<string | null>(null);
+  const [expandedTopic, setExpandedTopic] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<
     "overview" | "questions" | "analysis" | "improve"
   >("overview");
@@ -134,10 +206,28 @@ export default function ExamResultsPage() {
       if (!examId || !attemptId) return;
 
       try {
-        const [examRes, attemptRes, questionsRes]: [
+        const [
+          examRes,
+          attemptRes,
+          questionsRes,
+          answerKey,
+          results,
+          violations,
+          answerHistory,
+          scale,
+          marks,
+          mayMark,
+        ]: [
           { data: Exam | null; error: any },
           { data: ExamAttempt | null; error: any },
-          { data: Question[] | null; error: any }
+          { data: PlayerQuestionRow[] | null; error: any },
+          Awaited<ReturnType<typeof fetchAnswerKey>>,
+          Awaited<ReturnType<typeof fetchQuestionResults>>,
+          Awaited<ReturnType<typeof fetchViolations>>,
+          Awaited<ReturnType<typeof fetchAnswerHistory>>,
+          Awaited<ReturnType<typeof fetchScoreScale>>,
+          Awaited<ReturnType<typeof fetchWritingMarks>>,
+          boolean,
         ] = await Promise.all([
           supabase.from("exams").select("*").eq("id", examId).single(),
           supabase
@@ -147,14 +237,60 @@ export default function ExamResultsPage() {
             .single(),
           supabase
             .from("questions")
-            .select("*")
+            .select(PLAYER_QUESTION_COLUMNS)
             .eq("exam_id", examId)
-            .order("question_number"),
+            .order("question_number")
+            .overrideTypes<PlayerQuestionRow[], { merge: false }>(),
+          fetchAnswerKey(attemptId),
+          fetchQuestionResults(attemptId),
+          fetchViolations(attemptId),
+          fetchAnswerHistory(attemptId),
+          fetchScoreScale(examId),
+          fetchWritingMarks(attemptId),
+          canMarkAttempt(attemptId),
         ]);
 
         if (examRes.data) setExam(examRes.data as Exam);
         if (attemptRes.data) setAttempt(attemptRes.data as ExamAttempt);
-        if (questionsRes.data) setQuestions(questionsRes.data as Question[]);
+        // An adaptive attempt only saw the testlets on its path
+        const path = attemptRes.data?.testlet_path || [];
+        const isAdaptive = !!examRes.data?.is_adaptive && path.length > 0;
+        if (isAdaptive) {
+          setPathTestlets(
+            getPathTestlets(path, await fetchExamTestlets(examId)),
+          );
+        }
+        if (questionsRes.data) {
+          // Answer key columns are only released for completed attempts
+          setQuestions(
+            validateQuestionRows(questionsRes.data, `exam ${examId}`)
+              .filter(
+                (q) =>
+                  !isAdaptive ||
+                  (!!q.testlet_id && path.includes(q.testlet_id)),
+              )
+              .map((q) => {
+                const key = answerKey.get(q.id);
+                return {
+                  ...q,
+                  correct_answer: key?.correct_answer ?? "",
+                  explanation: key?.explanation ?? undefined,
+                  answer_explanation: key?.answer_explanation ?? undefined,
+                  blanks: key?.blanks ?? undefined,
+                };
+              }),
+          );
+        }
+        setGradedResults(results);
+        setIntegrity(summarizeViolations(violations));
+        setChangeInsights(analyzeAnswerChanges(answerHistory));
+        setScoreScale(scale);
+        setWritingMarks(marks);
+        setCanMark(mayMark);
+        // Estimates across all practice, not just this attempt
+        if (attemptRes.data) {
+          setMastery(await fetchSkillMastery(attemptRes.data.user_id));
+        }
       } catch (error) {
         console.error("Error fetching results:", error);
       } finally {
@@ -194,7 +330,7 @@ export default function ExamResultsPage() {
   }
 
   // Calculate statistics
-  const score = attempt.score;
+  const score = attempt.percentage ?? attempt.score;
   const totalQuestions = questions.length;
 
   let correctCount = 0;
@@ -203,21 +339,57 @@ export default function ExamResultsPage() {
 
   const questionResults = questions.map((q) => {
     const userAnswer = attempt.answers[q.id] || "";
-    const isCorrect =
-      userAnswer &&
-      q.correct_answer &&
-      userAnswer.trim().toLowerCase() === q.correct_answer.trim().toLowerCase();
+    // Prefer the server's grading; fall back for attempts graded before it existed
+    const graded = gradedResults.get(q.id);
+    const isCorrect = graded
+      ? graded.is_correct
+      : userAnswer &&
+        q.correct_answer &&
+        userAnswer.trim().toLowerCase() ===
+          q.correct_answer.trim().toLowerCase();
     const isSkipped = !userAnswer;
 
     if (isCorrect) correctCount++;
     else if (isSkipped) skippedCount++;
     else incorrectCount++;
 
+    const activity = attempt.question_activity?.[q.id];
+    const questionType = normalizeQuestionType(q.question_type);
+    const matchTargets = getMatchTargets(q);
+    // Multiple-select and matching can earn part of the marks
+    const partialCredit =
+      graded && !graded.is_correct && graded.points_awarded > 0
+        ? `${+graded.points_awarded.toFixed(2)}/${graded.points_possible}`
+        : null;
+    // Extended responses score 0 until marked against the writing rubric
+    const writingMark = writingMarks.get(q.id) ?? null;
+    const awaitingMarking =
+      questionType === "extended-response" && !isSkipped && !writingMark;
+
     return {
       ...q,
       userAnswer,
+      writingMark,
+      awaitingMarking,
       isCorrect: !!isCorrect,
       isSkipped,
+      questionType,
+      partialCredit,
+      timeSpent: activity ? Math.round(activity.time_spent_seconds) : null,
+      visits: activity?.visits ?? 0,
+      selectedIds:
+        questionType === "multiple-select"
+          ? parseAnswerList(userAnswer)
+          : [userAnswer],
+      correctIds:
+        questionType === "multiple-select"
+          ? parseAnswerList(q.correct_answer)
+          : [q.correct_answer],
+      displayAnswer:
+        questionType === "extended-response"
+          ? `${countWords(userAnswer)} words`
+          : formatAnswer({ ...q, match_targets: matchTargets }, userAnswer),
+      displayCorrect: formatCorrectAnswer({ ...q, match_targets: matchTargets }),
     };
   });
 
@@ -238,57 +410,40 @@ export default function ExamResultsPage() {
   };
 
   const gradeInfo = getGrade(score);
-  const nationalAverage = NATIONAL_AVERAGES[exam.year_level] || 60;
-  const comparisonToAvg = score - nationalAverage;
-
-  // Topic-based analysis
-  const topicAnalysis: Record<
-    string,
-    { correct: number; total: number; questions: typeof questionResults }
-  > = {};
-
-  questionResults.forEach((q) => {
-    // Determine topic from question text
-    const text = q.question_text.toLowerCase();
-    let topic = "General";
-
-    for (const [keyword, topicName] of Object.entries(TOPIC_MAPPING)) {
-      if (text.includes(keyword)) {
-        topic = topicName;
-        break;
-      }
-    }
+  // Estimated NAPLAN scaled score / band / proficiency (migration 012)
+  const scaled = scoreScale
+    ? estimateScaledResult(scoreScale, attempt.score, attempt.total_points)
+    : null;
+  const nationalAverage =
+    scaled?.nationalMean ?? NATIONAL_AVERAGES[exam.year_level] ?? 60;
+  const comparisonToAvg = scaled?.nationalMean
+    ? scaled.scaledScore - scaled.nationalMean
+    : score - nationalAverage;
+  const comparisonUnit = scaled?.nationalMean ? "" : "%";
 
-    if (!topicAnalysis[topic]) {
-      topicAnalysis[topic] = { correct: 0, total: 0, questions: [] };
-    }
-    topicAnalysis[topic].total++;
-    topicAnalysis[topic].questions.push(q);
-    if (q.isCorrect) topicAnalysis[topic].correct++;
-  });
+  // Topic / skill analysis from question metadata (keyword fallback)
+  const topicAnalysis = analyzeTopics(questionResults);
 
-  // Difficulty analysis (based on question position - early = easier)
-  const difficultyAnalysis = {
-    easy: { correct: 0, total: 0 },
-    medium: { correct: 0, total: 0 },
-    hard: { correct: 0, total: 0 },
-  };
+  // Difficulty analysis from tagged difficulty (position fallback)
+  const difficultyAnalysis = analyzeDifficulty(questionResults);
 
-  questionResults.forEach((q, index) => {
-    const difficulty =
-      index < totalQuestions * 0.33
-        ? "easy"
-        : index < totalQuestions * 0.66
-          ? "medium"
-          : "hard";
-    difficultyAnalysis[difficulty].total++;
-    if (q.isCorrect) difficultyAnalysis[difficulty].correct++;
-  });
+  // Dictation misspellings by the spelling pattern tagged on each word
+  const spellingAnalysis = analyzeMisspellings(questionResults);
 
   // Time analysis
   const examDuration = exam.duration_minutes * 60;
   const timeUsed = examDuration - (attempt.time_taken || 0);
-  const timePerQuestion = Math.round(timeUsed / totalQuestions);
+  // Real dwell times when the player recorded them (migration 010)
+  const trackedTimes = questionResults
+    .map((q) => q.timeSpent)
+    .filter((t): t is number => t !== null);
+  const timePerQuestion =
+    trackedTimes.length > 0
+      ? Math.round(
+          trackedTimes.reduce((sum, t) => sum + t, 0) / trackedTimes.length,
+        )
+      : Math.round(timeUsed / totalQuestions);
+  const maxTimeSpent = Math.max(1, ...trackedTimes);
   const formatDuration = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -309,18 +464,36 @@ export default function ExamResultsPage() {
       .map(([topic, data]) => ({
         topic,
         percentage: Math.round((data.correct / data.total) * 100),
+        weakestSkill: getWeakestSkill(data.skills),
       }))
       .sort((a, b) => a.percentage - b.percentage);
 
     if (sortedTopics.length > 0 && sortedTopics[0].percentage < 60) {
+      const { topic, percentage, weakestSkill } = sortedTopics[0];
       recs.push({
         icon: <Target className="w-5 h-5" />,
-        title: `Focus on ${sortedTopics[0].topic}`,
-        description: `You scored ${sortedTopics[0].percentage}% in this area. Practice more questions in this topic.`,
+        title: `Focus on ${topic}`,
+        description:
+          weakestSkill && weakestSkill.percentage < 60
+            ? `You scored ${percentage}% in this area, and ${weakestSkill.percentage}% on ${weakestSkill.skill}. Start with ${weakestSkill.skill} questions.`
+            : `You scored ${percentage}% in this area. Practice more questions in this topic.`,
         priority: "high",
       });
     }
 
+    // Weakest area across all practice, from the mastery estimates
+    const masteryFocus = rankTopicMastery(mastery, 1).weakTopics[0];
+    if (masteryFocus && masteryFocus.topic !== sortedTopics[0]?.topic) {
+      const target = masteryFocus.weakestSkill || masteryFocus;
+      const confidence = MASTERY_CONFIDENCE_LABELS[target.confidence];
+      recs.push({
+        icon: <Brain className="w-5 h-5" />,
+        title: `Keep practising ${formatMasteryName(target)}`,
+        description: `Across all your practice we estimate ${target.mastery}% mastery here (${confidence.toLowerCase()}, from ${target.observations} questions).`,
+        priority: target.confidence === "high" ? "high" : "medium",
+      });
+    }
+
     // Check if too many skipped
     if (skippedCount > totalQuestions * 0.1) {
       recs.push({
@@ -348,11 +521,11 @@ export default function ExamResultsPage() {
     }
 
     // Tab switches warning
-    if (attempt.tab_switches && attempt.tab_switches > 2) {
+    if (integrity.tabSwitches > 2) {
       recs.push({
         icon: <Shield className="w-5 h-5" />,
         title: "Stay Focused",
-        description: `You switched tabs ${attempt.tab_switches} times. Try to stay focused during exams.`,
+        description: `You switched tabs ${integrity.tabSwitches} times. Try to stay focused during exams.`,
         priority: "medium",
       });
     }
@@ -384,26 +557,6 @@ export default function ExamResultsPage() {
 
   const recommendations = getRecommendations();
 
-  // Parse options helper
-  const parseOptions = (options: unknown): string[] => {
-    if (!options) return [];
-    if (Array.isArray(options))
-      return options.map((o) =>
-        typeof o === "string" ? o : o?.text || o?.value || "",
-      );
-    if (typeof options === "string") {
-      try {
-        const p = JSON.parse(options);
-        return Array.isArray(p) ? parseOptions(p) : [options];
-      } catch {
-        return options.includes(",")
-          ? options.split(",").map((s) => s.trim())
-          : [options];
-      }
-    }
-    return [];
-  };
-
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -478,19 +631,38 @@ export default function ExamResultsPage() {
                 </div>
               </div>
 
-              <div>
-                <div className="flex items-center gap-3 mb-2">
-                  <span className="text-6xl font-bold">{gradeInfo.grade}</span>
-                  <span className="text-4xl">{gradeInfo.emoji}</span>
+              {scaled ? (
+                <div>
+                  <p className="text-white/70 text-sm uppercase tracking-wide mb-1">
+                    Estimated NAPLAN result
+                  </p>
+                  <p className="text-4xl font-bold mb-1">
+                    {scaled.proficiency
+                      ? PROFICIENCY_LABELS[scaled.proficiency]
+                      : `Scaled score ${scaled.scaledScore}`}
+                  </p>
+                  <p className="text-white/80 text-lg">
+                    {scaled.band !== null && `Band ${scaled.band} • `}
+                    Scaled score {scaled.scaledScore}
+                  </p>
                 </div>
-                <p className="text-white/80 text-lg">
-                  {score >= 80
-                    ? "Excellent work!"
-                    : score >= 60
-                      ? "Good effort!"
-                      : "Keep practicing!"}
-                </p>
-              </div>
+              ) : (
+                <div>
+                  <div className="flex items-center gap-3 mb-2">
+                    <span className="text-6xl font-bold">
+                      {gradeInfo.grade}
+                    </span>
+                    <span className="text-4xl">{gradeInfo.emoji}</span>
+                  </div>
+                  <p className="text-white/80 text-lg">
+                    {score >= 80
+                      ? "Excellent work!"
+                      : score >= 60
+                        ? "Good effort!"
+                        : "Keep practicing!"}
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Quick Stats */}
@@ -526,7 +698,8 @@ export default function ExamResultsPage() {
                 <div>
                   <p className="font-medium">Compared to National Average</p>
                   <p className="text-white/70 text-sm">
-                    Year {exam.year_level} NAPLAN Average: {nationalAverage}%
+                    Year {exam.year_level} NAPLAN Average: {nationalAverage}
+                    {comparisonUnit}
                   </p>
                 </div>
               </div>
@@ -540,7 +713,8 @@ export default function ExamResultsPage() {
                 )}
                 <span className="font-bold">
                   {comparisonToAvg >= 0 ? "+" : ""}
-                  {comparisonToAvg}%
+                  {comparisonToAvg}
+                  {comparisonUnit}
                 </span>
                 <span className="text-white/70">
                   {comparisonToAvg >= 0 ? "above" : "below"} average
@@ -607,18 +781,33 @@ export default function ExamResultsPage() {
                   const percentage = Math.round(
                     (data.correct / data.total) * 100,
                   );
+                  const skills = Object.entries(data.skills);
                   return (
                     <div key={topic}>
-                      <div className="flex justify-between text-sm mb-1">
-                        <span className="text-gray-700 font-medium">
+                      <button
+                        onClick={() =>
+                          setExpandedTopic(
+                            expandedTopic === topic ? null : topic,
+                          )
+                        }
+                        disabled={skills.length === 0}
+                        className="w-full flex justify-between text-sm mb-1"
+                      >
+                        <span className="text-gray-700 font-medium flex items-center gap-1">
                           {topic}
+                          {skills.length > 0 &&
+                            (expandedTopic === topic ? (
+                              <ChevronUp className="w-4 h-4 text-gray-400" />
+                            ) : (
+                              <ChevronDown className="w-4 h-4 text-gray-400" />
+                            ))}
                         </span>
                         <span
                           className={`font-semibold ${percentage >= 70 ? "text-green-600" : percentage >= 50 ? "text-yellow-600" : "text-red-600"}`}
                         >
                           {percentage}% ({data.correct}/{data.total})
                         </span>
-                      </div>
+                      </button>
                       <div className="h-3 bg-gray-100 rounded-full overflow-hidden">
                         <motion.div
                           initial={{ width: 0 }}
@@ -633,6 +822,35 @@ export default function ExamResultsPage() {
                           }`}
                         />
                       </div>
+                      {expandedTopic === topic && (
+                        <div className="mt-2 ml-4 space-y-1">
+                          {skills.map(([skill, skillData]) => {
+                            const skillPercentage = Math.round(
+                              (skillData.correct / skillData.total) * 100,
+                            );
+                            return (
+                              <div
+                                key={skill}
+                                className="flex justify-between text-xs text-gray-600"
+                              >
+                                <span>{skill}</span>
+                                <span
+                                  className={
+                                    skillPercentage >= 70
+                                      ? "text-green-600"
+                                      : skillPercentage >= 50
+                                        ? "text-yellow-600"
+                                        : "text-red-600"
+                                  }
+                                >
+                                  {skillPercentage}% ({skillData.correct}/
+                                  {skillData.total})
+                                </span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      )}
                     </div>
                   );
                 })}
@@ -746,46 +964,164 @@ export default function ExamResultsPage() {
               <div className="space-y-3">
                 <div
                   className={`flex items-center justify-between p-3 rounded-lg ${
-                    (attempt.tab_switches || 0) === 0
-                      ? "bg-green-50"
-                      : "bg-yellow-50"
+                    integrity.tabSwitches === 0 ? "bg-green-50" : "bg-yellow-50"
                   }`}
                 >
                   <span className="text-gray-700">Tab Switches</span>
                   <span
                     className={`font-semibold ${
-                      (attempt.tab_switches || 0) === 0
+                      integrity.tabSwitches === 0
                         ? "text-green-600"
                         : "text-yellow-600"
                     }`}
                   >
-                    {attempt.tab_switches || 0}
+                    {integrity.tabSwitches}
+                    {exam.violation_policy === "auto_submit" &&
+                      ` / ${exam.max_tab_switches}`}
                   </span>
                 </div>
+                {integrity.timeAwaySeconds > 0 && (
+                  <div className="flex items-center justify-between p-3 rounded-lg bg-yellow-50">
+                    <span className="text-gray-700">Time Away From Exam</span>
+                    <span className="font-semibold text-yellow-600">
+                      {formatDuration(integrity.timeAwaySeconds)}
+                    </span>
+                  </div>
+                )}
                 <div
                   className={`flex items-center justify-between p-3 rounded-lg ${
-                    (attempt.violations?.length || 0) === 0
+                    integrity.total - integrity.tabSwitches === 0
                       ? "bg-green-50"
                       : "bg-red-50"
                   }`}
                 >
-                  <span className="text-gray-700">Violations Detected</span>
+                  <span className="text-gray-700">
+                    Copy / Paste / Right-click
+                  </span>
                   <span
                     className={`font-semibold ${
-                      (attempt.violations?.length || 0) === 0
+                      integrity.total - integrity.tabSwitches === 0
                         ? "text-green-600"
                         : "text-red-600"
                     }`}
                   >
-                    {attempt.violations?.length || 0}
+                    {integrity.total - integrity.tabSwitches}
                   </span>
                 </div>
+                {exam.violation_policy === "auto_submit" &&
+                  exam.max_tab_switches !== undefined &&
+                  integrity.tabSwitches >= exam.max_tab_switches && (
+                    <div className="flex items-center gap-2 p-3 rounded-lg bg-red-50 text-sm text-red-700">
+                      <AlertTriangle className="w-4 h-4 shrink-0" />
+                      Submitted automatically after{" "}
+                      {exam.max_tab_switches} tab switches
+                    </div>
+                  )}
+                {integrity.timeline.length > 0 && (
+                  <div className="border rounded-lg p-3">
+                    <p className="text-sm font-medium text-gray-700 mb-2">
+                      Timeline
+                    </p>
+                    <ul className="space-y-1.5 max-h-48 overflow-y-auto">
+                      {integrity.timeline.map((v) => {
+                        const questionIndex = questions.findIndex(
+                          (q) => q.id === v.question_id,
+                        );
+                        return (
+                          <li
+                            key={v.id}
+                            className="flex items-center justify-between text-sm text-gray-600"
+                          >
+                            <span>
+                              {VIOLATION_LABELS[v.violation_type]}
+                              {questionIndex >= 0 && ` (Q${questionIndex + 1})`}
+                              {v.ended_at &&
+                                ` • away ${formatDuration(
+                                  Math.round(
+                                    (new Date(v.ended_at).getTime() -
+                                      new Date(v.occurred_at).getTime()) /
+                                      1000,
+                                  ),
+                                )}`}
+                            </span>
+                            <span className="text-gray-400">
+                              {new Date(v.occurred_at).toLocaleTimeString()}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                )}
                 <div className="flex items-center justify-between p-3 rounded-lg bg-green-50">
                   <span className="text-gray-700">Exam Completed</span>
                   <CheckCircle className="w-5 h-5 text-green-600" />
                 </div>
               </div>
             </motion.div>
+
+            {/* Adaptive Path */}
+            {pathTestlets.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.4 }}
+                className="bg-white rounded-xl p-6 shadow-sm lg:col-span-2"
+              >
+                <h3 className="font-semibold text-lg text-gray-800 mb-4 flex items-center gap-2">
+                  <GitBranch className="w-5 h-5 text-indigo-600" />
+                  Adaptive Path
+                </h3>
+                <div className="flex flex-wrap items-center gap-2">
+                  {pathTestlets.map((testlet, index) => {
+                    const sectionResults = questionResults.filter(
+                      (q) => q.testlet_id === testlet.id,
+                    );
+                    const sectionCorrect = sectionResults.filter(
+                      (q) => q.isCorrect,
+                    ).length;
+                    return (
+                      <div
+                        key={testlet.id}
+                        className="flex items-center gap-2"
+                      >
+                        {index > 0 && (
+                          <ArrowRight className="w-4 h-4 text-gray-400" />
+                        )}
+                        <div
+                          className={`rounded-lg px-4 py-3 border-2 ${
+                            testlet.level === "harder"
+                              ? "border-purple-200 bg-purple-50"
+                              : testlet.level === "easier"
+                                ? "border-sky-200 bg-sky-50"
+                                : "border-gray-200 bg-gray-50"
+                          }`}
+                        >
+                          <p className="font-semibold text-gray-800">
+                            {testlet.label || `Section ${index + 1}`}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {TESTLET_LEVEL_LABELS[testlet.level]}
+                            {testlet.weight !== 1 && ` · ×${testlet.weight}`}
+                            {" · "}
+                            {sectionCorrect}/{sectionResults.length} correct
+                          </p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                <p className="text-sm text-gray-500 mt-4">
+                  Each section was chosen from the score so far. Harder
+                  sections are worth more, so the score is out of the best
+                  possible path
+                  {attempt.total_points
+                    ? ` (${+attempt.total_points.toFixed(2)} points)`
+                    : ""}
+                  .
+                </p>
+              </motion.div>
+            )}
           </div>
         )}
 
@@ -839,16 +1175,26 @@ export default function ExamResultsPage() {
                       <div className="text-left">
                         <p className="font-medium text-gray-800">
                           Question {index + 1}
+                          {getQuestionSkill(q) && (
+                            <span className="ml-2 px-2 py-0.5 bg-indigo-50 text-indigo-600 rounded-full text-xs font-normal">
+                              {getQuestionSkill(q)}
+                            </span>
+                          )}
                         </p>
                         <p className="text-sm text-gray-500">
                           {q.isCorrect
                             ? "✓ Correct"
                             : q.isSkipped
                               ? "○ Skipped"
-                              : "✗ Incorrect"}
+                              : q.awaitingMarking
+                                ? "✍️ Awaiting marking"
+                              : q.partialCredit
+                                ? `◐ Partly correct (${q.partialCredit})`
+                                : "✗ Incorrect"}
                           {q.userAnswer &&
                             !q.isSkipped &&
-                            ` • Your answer: ${q.userAnswer}`}
+                            ` • Your answer: ${q.displayAnswer}`}
+                          {q.timeSpent !== null && ` • ${q.timeSpent}s`}
                         </p>
                       </div>
                     </div>
@@ -867,21 +1213,29 @@ export default function ExamResultsPage() {
                     >
                       <div className="bg-gray-50 rounded-lg p-4 mb-4">
                         <p className="text-sm text-gray-500 mb-2">Question:</p>
-                        <div
-                          className="prose prose-sm max-w-none"
-                          dangerouslySetInnerHTML={{ __html: q.question_text }}
-                        />
+                        {toContentBlocks(q.content).length > 0 ? (
+                          <QuestionContentRenderer
+                            blocks={toContentBlocks(q.content)}
+                          />
+                        ) : (
+                          <div
+                            className="prose prose-sm max-w-none"
+                            dangerouslySetInnerHTML={{ __html: q.question_text }}
+                          />
+                        )}
                       </div>
 
-                      {q.question_type === "multiple_choice" && (
+                      {(q.questionType === "multiple-choice" ||
+                        q.questionType === "multiple-select") && (
                         <div className="space-y-2 mb-4">
-                          {parseOptions(q.options).map((opt, i) => {
-                            const letter = ["A", "B", "C", "D", "E", "F"][i];
-                            const isUserAnswer = q.userAnswer === letter;
-                            const isCorrectAnswer = q.correct_answer === letter;
+                          {getQuestionOptions(q).map((opt) => {
+                            const letter = opt.id;
+                            const isUserAnswer = q.selectedIds.includes(letter);
+                            const isCorrectAnswer =
+                              q.correctIds.includes(letter);
                             return (
                               <div
-                                key={i}
+                                key={letter}
                                 className={`p-3 rounded-lg border-2 flex items-center gap-3 ${
                                   isCorrectAnswer
                                     ? "border-green-500 bg-green-50"
@@ -901,9 +1255,9 @@ export default function ExamResultsPage() {
                                 >
                                   {letter}
                                 </span>
-                                <span
+                                <QuestionOptionContent
+                                  option={opt}
                                   className="flex-1"
-                                  dangerouslySetInnerHTML={{ __html: opt }}
                                 />
                                 {isCorrectAnswer && (
                                   <CheckCircle className="w-5 h-5 text-green-600" />
@@ -917,7 +1271,77 @@ export default function ExamResultsPage() {
                         </div>
                       )}
 
-                      {q.question_type === "short_answer" && (
+                      {q.questionType === "extended-response" && (
+                        <div className="mb-4 space-y-3">
+                          <div className="p-3 rounded-lg bg-white border border-gray-200">
+                            <p className="text-sm text-gray-500 mb-2">
+                              Your writing ({q.displayAnswer}):
+                            </p>
+                            {q.userAnswer ? (
+                              <div
+                                className="text-gray-800 leading-relaxed [&_p]:mb-2 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6"
+                                dangerouslySetInnerHTML={{
+                                  __html: sanitizeWritingHtml(q.userAnswer),
+                                }}
+                              />
+                            ) : (
+                              <p className="text-gray-500 italic">(No answer)</p>
+                            )}
+                          </div>
+
+                          {q.writingMark ? (
+                            <div className="p-3 rounded-lg bg-indigo-50 border border-indigo-200">
+                              <p className="text-sm font-medium text-indigo-800 mb-2">
+                                Rubric: {q.writingMark.total} /{" "}
+                                {q.writingMark.max_total}
+                              </p>
+                              <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                                {WRITING_CRITERIA.map((criterion) => (
+                                  <div
+                                    key={criterion.id}
+                                    className="flex justify-between"
+                                  >
+                                    <span className="text-gray-600">
+                                      {criterion.label}
+                                    </span>
+                                    <span className="font-medium text-gray-800">
+                                      {q.writingMark?.scores[criterion.id] ?? 0}{" "}
+                                      / {criterion.max}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                              {q.writingMark.comment && (
+                                <p className="mt-2 text-sm text-indigo-700">
+                                  {q.writingMark.comment}
+                                </p>
+                              )}
+                            </div>
+                          ) : (
+                            q.awaitingMarking && (
+                              <p className="text-sm text-gray-600">
+                                This response hasn't been marked yet. A parent
+                                or teacher marks it against the 10 NAPLAN
+                                writing criteria.
+                              </p>
+                            )
+                          )}
+
+                          {q.userAnswer && canMark && (
+                            <Link
+                              to={getWritingMarkingRoute(exam.id, attempt.id, q.id)}
+                              className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg text-sm font-medium hover:bg-indigo-700"
+                            >
+                              <PenLine className="w-4 h-4" />
+                              {q.writingMark ? "Change marks" : "Mark this response"}
+                            </Link>
+                          )}
+                        </div>
+                      )}
+
+                      {q.questionType !== "multiple-choice" &&
+                        q.questionType !== "multiple-select" &&
+                        q.questionType !== "extended-response" && (
                         <div className="mb-4 space-y-2">
                           <div
                             className={`p-3 rounded-lg ${q.isCorrect ? "bg-green-50 border border-green-200" : "bg-red-50 border border-red-200"}`}
@@ -928,7 +1352,7 @@ export default function ExamResultsPage() {
                             <p
                               className={`font-medium ${q.isCorrect ? "text-green-700" : "text-red-700"}`}
                             >
-                              {q.userAnswer || "(No answer)"}
+                              {q.displayAnswer || "(No answer)"}
                             </p>
                           </div>
                           <div className="p-3 rounded-lg bg-green-50 border border-green-200">
@@ -936,21 +1360,32 @@ export default function ExamResultsPage() {
                               Correct answer:
                             </p>
                             <p className="font-medium text-green-700">
-                              {q.correct_answer}
+                              {q.displayCorrect}
                             </p>
                           </div>
                         </div>
                       )}
 
-                      {q.explanation && (
+                      {toContentBlocks(q.answer_explanation).length > 0 ? (
                         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                          <p className="text-sm font-medium text-blue-800 mb-1 flex items-center gap-2">
+                          <p className="text-sm font-medium text-blue-800 mb-2 flex items-center gap-2">
                             <Lightbulb className="w-4 h-4" /> Explanation
                           </p>
-                          <p className="text-sm text-blue-700">
-                            {q.explanation}
-                          </p>
+                          <QuestionContentRenderer
+                            blocks={toContentBlocks(q.answer_explanation)}
+                          />
                         </div>
+                      ) : (
+                        q.explanation && (
+                          <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                            <p className="text-sm font-medium text-blue-800 mb-1 flex items-center gap-2">
+                              <Lightbulb className="w-4 h-4" /> Explanation
+                            </p>
+                            <p className="text-sm text-blue-700">
+                              {q.explanation}
+                            </p>
+                          </div>
+                        )
                       )}
                     </motion.div>
                   )}
@@ -1043,6 +1478,120 @@ export default function ExamResultsPage() {
               </div>
             </motion.div>
 
+            {/* Pacing */}
+            {trackedTimes.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.15 }}
+                className="bg-white rounded-xl p-6 shadow-sm"
+              >
+                <h3 className="font-semibold text-lg text-gray-800 mb-1 flex items-center gap-2">
+                  <Clock className="w-5 h-5 text-indigo-600" /> Pacing
+                </h3>
+                <p className="text-sm text-gray-500 mb-4">
+                  Time on each question • average {timePerQuestion}s
+                </p>
+                <div className="relative flex items-end gap-1 h-48 overflow-x-auto pb-4">
+                  {questionResults.map((q, index) => (
+                    <div
+                      key={q.id}
+                      className={`w-4 min-w-[16px] rounded-t hover:opacity-80 ${
+                        q.isCorrect
+                          ? "bg-green-500"
+                          : q.isSkipped
+                            ? "bg-yellow-400"
+                            : "bg-red-500"
+                      }`}
+                      style={{
+                        height: `${Math.max(2, ((q.timeSpent ?? 0) / maxTimeSpent) * 100)}%`,
+                      }}
+                      title={`Q${index + 1}: ${q.timeSpent ?? 0}s, ${q.visits} visit${q.visits === 1 ? "" : "s"}`}
+                    />
+                  ))}
+                  <div
+                    className="absolute left-0 right-0 border-t-2 border-dashed border-indigo-400 pointer-events-none"
+                    style={{
+                      bottom: `calc(${(timePerQuestion / maxTimeSpent) * 100}% * 0.92 + 1rem)`,
+                    }}
+                  />
+                </div>
+                {(() => {
+                  const slowest = [...questionResults]
+                    .map((q, index) => ({ ...q, index }))
+                    .filter((q) => q.timeSpent !== null)
+                    .sort((a, b) => (b.timeSpent ?? 0) - (a.timeSpent ?? 0))
+                    .slice(0, 3);
+                  return (
+                    <p className="text-sm text-gray-600 mt-2">
+                      Longest:{" "}
+                      {slowest
+                        .map(
+                          (q) =>
+                            `Q${q.index + 1} (${formatDuration(q.timeSpent ?? 0)})`,
+                        )
+                        .join(", ")}
+                    </p>
+                  );
+                })()}
+              </motion.div>
+            )}
+
+            {/* Answer Changes */}
+            {changeInsights.totalChanges > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.15 }}
+                className="bg-white rounded-xl p-6 shadow-sm"
+              >
+                <h3 className="font-semibold text-lg text-gray-800 mb-4 flex items-center gap-2">
+                  <RotateCcw className="w-5 h-5 text-indigo-600" /> Answer
+                  Changes
+                </h3>
+                <div className="grid grid-cols-3 gap-3 mb-4">
+                  <div className="bg-green-50 rounded-lg p-3 text-center">
+                    <p className="text-2xl font-bold text-green-600">
+                      {changeInsights.wrongToRight.length}
+                    </p>
+                    <p className="text-xs text-gray-500">Wrong → Right</p>
+                  </div>
+                  <div className="bg-red-50 rounded-lg p-3 text-center">
+                    <p className="text-2xl font-bold text-red-600">
+                      {changeInsights.rightToWrong.length}
+                    </p>
+                    <p className="text-xs text-gray-500">Right → Wrong</p>
+                  </div>
+                  <div className="bg-gray-50 rounded-lg p-3 text-center">
+                    <p className="text-2xl font-bold text-gray-600">
+                      {changeInsights.wrongToWrong.length}
+                    </p>
+                    <p className="text-xs text-gray-500">Wrong → Wrong</p>
+                  </div>
+                </div>
+                {changeInsights.rightToWrong.length > 0 ? (
+                  <div className="flex items-start gap-2 p-3 bg-red-50 rounded-lg text-sm text-red-700">
+                    <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                    <span>
+                      You changed a correct answer on{" "}
+                      {changeInsights.rightToWrong
+                        .map(
+                          (id) =>
+                            `Q${questions.findIndex((q) => q.id === id) + 1}`,
+                        )
+                        .join(", ")}
+                      . Trust your first answer unless you find a clear
+                      mistake.
+                    </span>
+                  </div>
+                ) : (
+                  <p className="text-sm text-green-600">
+                    None of your changes lost marks.
+                  </p>
+                )}
+              </motion.div>
+            )}
+
             {/* Strengths */}
             <motion.div
               initial={{ opacity: 0, y: 20 }}
@@ -1106,6 +1655,11 @@ export default function ExamResultsPage() {
                           {Math.round((data.correct / data.total) * 100)}%
                           correct - needs practice
                         </p>
+                        {Object.keys(data.skills).length > 0 && (
+                          <p className="text-xs text-red-500 mt-0.5">
+                            Weakest skill: {getWeakestSkill(data.skills)?.skill}
+                          </p>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -1118,6 +1672,65 @@ export default function ExamResultsPage() {
                 )}
               </div>
             </motion.div>
+
+            {/* Spelling Patterns */}
+            {spellingAnalysis.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.4 }}
+                className="bg-white rounded-xl p-6 shadow-sm lg:col-span-2"
+              >
+                <h3 className="font-semibold text-lg text-gray-800 mb-4 flex items-center gap-2">
+                  <FileText className="w-5 h-5 text-indigo-500" /> Spelling
+                  Patterns
+                </h3>
+                <div className="space-y-3">
+                  {spellingAnalysis.map((group) => (
+                    <div
+                      key={group.pattern || "other"}
+                      className={`p-3 rounded-lg ${group.misspellings.length > 0 ? "bg-red-50" : "bg-green-50"}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <p
+                          className={`font-medium ${group.misspellings.length > 0 ? "text-red-800" : "text-green-800"}`}
+                        >
+                          {group.label}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {group.attempted - group.misspellings.length}/
+                          {group.attempted} spelt correctly
+                        </p>
+                      </div>
+                      {group.misspellings.length > 0 && (
+                        <ul className="mt-2 space-y-1 text-sm">
+                          {group.misspellings.map((m) => (
+                            <li key={m.questionNumber} className="text-red-700">
+                              Q{m.questionNumber}:{" "}
+                              <span className="font-semibold">{m.word}</span>
+                              {m.attempt ? (
+                                <span className="text-red-500">
+                                  {" "}
+                                  - you wrote{" "}
+                                  <span className="line-through">
+                                    {m.attempt}
+                                  </span>
+                                </span>
+                              ) : (
+                                <span className="text-red-500">
+                                  {" "}
+                                  - skipped
+                                </span>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </motion.div>
+            )}
           </div>
         )}
 
@@ -1,5 +1,10 @@
 import { useState, useEffect } from "react";
-import { useParams, useNavigate, Link } from "react-router-dom";
+import {
+  useParams,
+  useNavigate,
+  useSearchParams,
+  Link,
+} from "react-router-dom";
 import { motion } from "framer-motion";
 import {
   BookOpen,
@@ -30,10 +35,14 @@ interface ExamAttempt {
   total_points: number;
   percentage: number | null;
   time_spent_seconds: number | null;
+  // Set when started from a class assignment (migration 025)
+  assignment_id?: string | null;
 }
 
 export default function ExamStartPage() {
   const { examId } = useParams<{ examId: string }>();
+  const [searchParams] = useSearchParams();
+  const assignmentId = searchParams.get("assignment");
   const navigate = useNavigate();
   const { user } = useAuthStore();
 
@@ -71,7 +80,7 @@ export default function ExamStartPage() {
         // Fetch question count
         const { count, error: countError } = await supabase
           .from("questions")
-          .select("*", { count: "exact", head: true })
+          .select("id", { count: "exact", head: true })
           .eq("exam_id", examId);
 
         if (!countError && count !== null) {
@@ -112,6 +121,8 @@ export default function ExamStartPage() {
         total_points: exam.total_questions,
         percentage: null,
         time_spent_seconds: null,
+        // The server checks the assignment's dates and attempt limit
+        assignment_id: assignmentId,
       };
 
       const { data: attempt, error: attemptError } = (await supabase
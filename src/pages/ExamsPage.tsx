@@ -14,9 +14,11 @@ import {
   ChevronRight,
   Loader2,
   X,
+  Sparkles,
 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useAuthStore } from "@/store";
+import { ROUTES } from "@/data/constants";
 
 // Define constants inline to ensure unique keys
 const EXAM_TYPES = [
@@ -88,6 +90,8 @@ export default function ExamsPage() {
           .from("exams")
           .select("*")
           .eq("is_active", true)
+          // Personal practice sets live on the practice builder page
+          .is("owner_id", null)
           .order("year_level", { ascending: true })
           .order("title", { ascending: true });
 
@@ -241,9 +245,18 @@ export default function ExamsPage() {
               Browse Exams 📚
             </h1>
           </div>
-          <p className="text-gray-600 font-medium ml-15">
-            Choose an exam and start practicing! You've got this! 💪
-          </p>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-gray-600 font-medium ml-15">
+              Choose an exam and start practicing! You've got this! 💪
+            </p>
+            <Link
+              to={ROUTES.PRACTICE_BUILDER}
+              className="flex items-center gap-2 px-4 py-2 bg-white text-indigo-600 rounded-xl font-semibold shadow hover:bg-indigo-50"
+            >
+              <Sparkles className="w-4 h-4" />
+              Build a practice set
+            </Link>
+          </div>
         </motion.div>
 
         {/* Search and Filter Bar */}
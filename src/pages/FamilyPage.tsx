@@ -0,0 +1,684 @@
+// src/pages/FamilyPage.tsx
+// Family account - a parent adds up to three child profiles (each logs in
+// with a username and PIN) and follows each child's progress. Parents can
+// look but not change anything - attempts belong to the child's own login -
+// apart from marking their children's writing.
+// ============================================
+
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  AlertCircle,
+  Award,
+  BookOpen,
+  Clock,
+  Eye,
+  FileText,
+  KeyRound,
+  Loader2,
+  PenLine,
+  Plus,
+  RefreshCw,
+  Trash2,
+  TrendingDown,
+  TrendingUp,
+  Users,
+} from "lucide-react";
+import { useAuthStore, useFamilyStore } from "@/store";
+import { ROUTES, YEAR_LEVELS } from "@/data/constants";
+import { formatDate } from "@/utils/helpers";
+import { getProgressReportRoute, getWritingMarkingRoute } from "@/utils/routes";
+import { fetchDashboardData, type DashboardData } from "@/lib/dashboard";
+import { fetchWritingToMark, type WritingToMark } from "@/lib/writing";
+import { MASTERY_CONFIDENCE_LABELS, formatMasteryName } from "@/lib/mastery";
+import {
+  CHILD_PIN_LENGTH,
+  MAX_CHILD_PROFILES,
+  becomeParentAccount,
+  createChildProfile,
+  getChildName,
+  removeChildProfile,
+  resetChildPin,
+  type ChildProfile,
+} from "@/lib/family";
+
+function formatStudyTime(seconds: number): string {
+  if (seconds < 3600) return `${Math.round(seconds / 60)}m`;
+  const hours = Math.floor(seconds / 3600);
+  const mins = Math.round((seconds % 3600) / 60);
+  return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+}
+
+export default function FamilyPage() {
+  const { user, profile, refreshProfile } = useAuthStore();
+  const { children, activeChildId, loadChildren, setActiveChild } =
+    useFamilyStore();
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // New child form
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [fullName, setFullName] = useState("");
+  const [username, setUsername] = useState("");
+  const [pin, setPin] = useState("");
+  const [yearLevel, setYearLevel] = useState<number | null>(null);
+
+  // PIN change
+  const [pinChildId, setPinChildId] = useState<string | null>(null);
+  const [newPin, setNewPin] = useState("");
+  const [pinChanged, setPinChanged] = useState<string | null>(null);
+
+  const isParent = profile?.role === "parent";
+  const activeChild = children.find((c) => c.id === activeChildId) || null;
+
+  useEffect(() => {
+    if (!user) return;
+    if (!isParent) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    loadChildren(user.id).finally(() => setIsLoading(false));
+  }, [user, isParent, loadChildren]);
+
+  const handleBecomeParent = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    setError(null);
+    const result = await becomeParentAccount(user.id);
+    if (!result.success) {
+      setError(result.error || "Failed to set up a family account");
+    } else {
+      await refreshProfile();
+    }
+    setIsSaving(false);
+  };
+
+  const handleAddChild = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    setError(null);
+
+    const result = await createChildProfile({
+      fullName,
+      username,
+      pin,
+      yearLevel,
+    });
+    if ("error" in result) {
+      setError(result.error);
+      setIsSaving(false);
+      return;
+    }
+
+    setFullName("");
+    setUsername("");
+    setPin("");
+    setYearLevel(null);
+    setShowAddForm(false);
+    await loadChildren(user.id);
+    setIsSaving(false);
+  };
+
+  const handleChangePin = async (child: ChildProfile) => {
+    setIsSaving(true);
+    setError(null);
+    const result = await resetChildPin(child.id, newPin);
+    if ("error" in result) {
+      setError(result.error);
+    } else {
+      setPinChildId(null);
+      setNewPin("");
+      setPinChanged(child.id);
+    }
+    setIsSaving(false);
+  };
+
+  const handleRemove = async (child: ChildProfile) => {
+    if (!user) return;
+    if (
+      !window.confirm(
+        `Remove ${getChildName(child)}? Their login, exams and progress will be deleted.`,
+      )
+    ) {
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    const result = await removeChildProfile(child.id);
+    if ("error" in result) {
+      setError(result.error);
+    } else {
+      await loadChildren(user.id);
+    }
+    setIsSaving(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isParent) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl shadow-xl p-8 max-w-md w-full text-center">
+          <Users className="w-14 h-14 text-indigo-500 mx-auto mb-4" />
+          {profile?.parent_id ? (
+            <>
+              <h1 className="text-2xl font-black text-gray-800 mb-2">
+                You're part of a family
+              </h1>
+              <p className="text-gray-600 mb-6">
+                Your parent looks after your profile and your PIN.
+              </p>
+              <Link
+                to={ROUTES.DASHBOARD}
+                className="inline-block px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+              >
+                Back to Dashboard
+              </Link>
+            </>
+          ) : (
+            <>
+              <h1 className="text-2xl font-black text-gray-800 mb-2">
+                Set up a family account
+              </h1>
+              <p className="text-gray-600 mb-6">
+                Turn this account into a parent account and add up to{" "}
+                {MAX_CHILD_PROFILES} children. Each child logs in with a
+                username and PIN, and shares your Premium subscription.
+              </p>
+              {error && <p className="text-red-600 mb-4">{error}</p>}
+              <button
+                onClick={handleBecomeParent}
+                disabled={isSaving}
+                className="inline-flex items-center gap-2 px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+              >
+                {isSaving && <Loader2 className="w-5 h-5 animate-spin" />}
+                Make this a parent account
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 py-8">
+      <div className="container-custom space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <div className="flex items-center gap-3 mb-2">
+            <Users className="w-10 h-10 text-indigo-600" />
+            <h1 className="text-4xl font-black text-gray-800">My Family</h1>
+          </div>
+          <p className="text-gray-600 font-medium">
+            {children.length} of {MAX_CHILD_PROFILES} child profiles
+          </p>
+        </motion.div>
+
+        {/* Child tabs */}
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setActiveChild(null)}
+            className={`px-4 py-2 rounded-xl font-semibold transition ${
+              !activeChild
+                ? "bg-indigo-500 text-white"
+                : "bg-white text-gray-600 hover:bg-gray-100"
+            }`}
+          >
+            Family
+          </button>
+          {children.map((child) => (
+            <button
+              key={child.id}
+              onClick={() => setActiveChild(child.id)}
+              className={`px-4 py-2 rounded-xl font-semibold transition ${
+                activeChild?.id === child.id
+                  ? "bg-indigo-500 text-white"
+                  : "bg-white text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              {getChildName(child)}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+            <AlertCircle className="w-5 h-5 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {activeChild ? (
+          <ChildProgress child={activeChild} />
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {children.map((child) => (
+                <div
+                  key={child.id}
+                  className="bg-white rounded-2xl shadow-lg p-6 space-y-4"
+                >
+                  <div>
+                    <h2 className="text-xl font-black text-gray-800">
+                      {child.full_name || child.username}
+                    </h2>
+                    <p className="text-sm text-gray-500">
+                      Username{" "}
+                      <span className="font-mono">{child.username}</span>
+                      {child.year_level && ` · Year ${child.year_level}`}
+                    </p>
+                  </div>
+
+                  {pinChildId === child.id ? (
+                    <div className="flex gap-2">
+                      <input
+                        type="password"
+                        inputMode="numeric"
+                        maxLength={CHILD_PIN_LENGTH}
+                        value={newPin}
+                        onChange={(e) =>
+                          setNewPin(e.target.value.replace(/\D/g, ""))
+                        }
+                        placeholder={`New ${CHILD_PIN_LENGTH}-digit PIN`}
+                        className="flex-1 min-w-0 px-3 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+                      />
+                      <button
+                        onClick={() => handleChangePin(child)}
+                        disabled={isSaving}
+                        className="px-3 py-2 bg-indigo-500 text-white rounded-xl text-sm font-semibold hover:bg-indigo-600 disabled:opacity-50"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  ) : (
+                    pinChanged === child.id && (
+                      <p className="text-sm text-green-600 font-semibold">
+                        PIN changed
+                      </p>
+                    )
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      onClick={() => setActiveChild(child.id)}
+                      className="flex items-center gap-1 px-3 py-2 bg-indigo-500 text-white rounded-xl text-sm font-semibold hover:bg-indigo-600"
+                    >
+                      <Eye className="w-4 h-4" />
+                      Progress
+                    </button>
+                    <button
+                      onClick={() => {
+                        setPinChildId(
+                          pinChildId === child.id ? null : child.id,
+                        );
+                        setNewPin("");
+                        setPinChanged(null);
+                      }}
+                      className="flex items-center gap-1 px-3 py-2 border-2 border-gray-200 text-gray-600 rounded-xl text-sm font-semibold hover:bg-gray-50"
+                    >
+                      <KeyRound className="w-4 h-4" />
+                      PIN
+                    </button>
+                    <button
+                      onClick={() => handleRemove(child)}
+                      disabled={isSaving}
+                      className="flex items-center gap-1 px-3 py-2 text-red-600 rounded-xl text-sm font-semibold hover:bg-red-50 disabled:opacity-50"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Remove
+                    </button>
+                  </div>
+                </div>
+              ))}
+
+              {children.length < MAX_CHILD_PROFILES && !showAddForm && (
+                <button
+                  onClick={() => setShowAddForm(true)}
+                  className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-indigo-200 rounded-2xl text-indigo-600 font-semibold hover:bg-indigo-50 min-h-[10rem]"
+                >
+                  <Plus className="w-8 h-8" />
+                  Add a child
+                </button>
+              )}
+            </div>
+
+            {showAddForm && (
+              <div className="bg-white rounded-2xl shadow-lg p-6 space-y-5 max-w-2xl">
+                <h2 className="text-xl font-black text-gray-800">
+                  Add a child
+                </h2>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <label className="block">
+                    <span className="font-semibold text-gray-800">Name</span>
+                    <input
+                      type="text"
+                      value={fullName}
+                      onChange={(e) => setFullName(e.target.value)}
+                      className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="font-semibold text-gray-800">
+                      Year level
+                    </span>
+                    <select
+                      value={yearLevel ?? ""}
+                      onChange={(e) =>
+                        setYearLevel(
+                          e.target.value === "" ? null : Number(e.target.value),
+                        )
+                      }
+                      className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none bg-white"
+                    >
+                      <option value="">Select a year</option>
+                      {YEAR_LEVELS.map((level) => (
+                        <option key={level.value} value={level.value}>
+                          {level.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="font-semibold text-gray-800">
+                      Username
+                    </span>
+                    <input
+                      type="text"
+                      autoCapitalize="none"
+                      value={username}
+                      onChange={(e) =>
+                        setUsername(e.target.value.toLowerCase())
+                      }
+                      placeholder="e.g. sam_k"
+                      className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="font-semibold text-gray-800">
+                      {CHILD_PIN_LENGTH}-digit PIN
+                    </span>
+                    <input
+                      type="password"
+                      inputMode="numeric"
+                      maxLength={CHILD_PIN_LENGTH}
+                      value={pin}
+                      onChange={(e) =>
+                        setPin(e.target.value.replace(/\D/g, ""))
+                      }
+                      className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+                    />
+                  </label>
+                </div>
+                <p className="text-sm text-gray-500">
+                  Your child logs in with this username and PIN on the
+                  &quot;Username &amp; PIN&quot; tab - no email needed.
+                </p>
+                <div className="flex items-center justify-end gap-3 pt-4 border-t">
+                  <button
+                    onClick={() => setShowAddForm(false)}
+                    className="px-4 py-2 text-gray-600 font-semibold"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleAddChild}
+                    disabled={isSaving}
+                    className="flex items-center gap-2 px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+                  >
+                    {isSaving ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Plus className="w-5 h-5" />
+                    )}
+                    Add child
+                  </button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// CHILD PROGRESS
+// ============================================
+// Read through the parent policies in migration 023
+
+function ChildProgress({ child }: { child: ChildProfile }) {
+  const [data, setData] = useState<DashboardData | null>(null);
+  const [writing, setWriting] = useState<WritingToMark[]>([]);
+
+  useEffect(() => {
+    setData(null);
+    setWriting([]);
+    fetchDashboardData(child.id).then(setData);
+    fetchWritingToMark(child.id).then(setWriting);
+  }, [child.id]);
+
+  if (!data) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-10 h-10 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  const { stats } = data;
+  const name = getChildName(child);
+
+  return (
+    <div className="space-y-6">
+      {data.error && (
+        <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          {data.error}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Link
+          to={getProgressReportRoute(child.id)}
+          className="flex items-center gap-2 px-4 py-2 bg-white text-indigo-600 rounded-xl shadow font-semibold hover:bg-indigo-50"
+        >
+          <FileText className="w-5 h-5" />
+          Weekly report
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          {
+            icon: BookOpen,
+            label: "Exams completed",
+            value: stats.completedExams,
+          },
+          {
+            icon: TrendingUp,
+            label: "Average score",
+            value: stats.completedExams ? `${stats.averageScore}%` : "-",
+          },
+          {
+            icon: Award,
+            label: "Best score",
+            value: stats.completedExams ? `${stats.bestScore}%` : "-",
+          },
+          {
+            icon: Clock,
+            label: "Time studied",
+            value: formatStudyTime(stats.totalTimeSpent),
+          },
+        ].map((stat) => {
+          const Icon = stat.icon;
+          return (
+            <div
+              key={stat.label}
+              className="bg-white rounded-2xl shadow-lg p-5"
+            >
+              <Icon className="w-6 h-6 text-indigo-500 mb-2" />
+              <p className="text-2xl font-black text-gray-800">{stat.value}</p>
+              <p className="text-sm text-gray-500">{stat.label}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      {data.dueReviewCount > 0 && (
+        <div className="flex items-center gap-2 p-4 bg-yellow-50 border border-yellow-200 rounded-xl text-yellow-800">
+          <RefreshCw className="w-5 h-5 shrink-0" />
+          {name} has {data.dueReviewCount} missed question
+          {data.dueReviewCount === 1 ? "" : "s"} due for review today.
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {[
+          {
+            title: "Strengths",
+            icon: TrendingUp,
+            color: "text-green-600",
+            topics: data.strongTopics,
+            empty: `No strong topics yet - ${name} needs a few more exams.`,
+          },
+          {
+            title: "Needs practice",
+            icon: TrendingDown,
+            color: "text-orange-600",
+            topics: data.weakTopics,
+            empty: "Nothing stands out as weak so far.",
+          },
+        ].map((group) => {
+          const Icon = group.icon;
+          return (
+            <div
+              key={group.title}
+              className="bg-white rounded-2xl shadow-lg p-6"
+            >
+              <h2
+                className={`flex items-center gap-2 text-xl font-black mb-4 ${group.color}`}
+              >
+                <Icon className="w-5 h-5" />
+                {group.title}
+              </h2>
+              {group.topics.length === 0 ? (
+                <p className="text-gray-500">{group.empty}</p>
+              ) : (
+                <div className="space-y-3">
+                  {group.topics.map((topic) => (
+                    <div
+                      key={`${topic.subject}-${topic.topic}`}
+                      className="flex items-center justify-between gap-4"
+                    >
+                      <div className="min-w-0">
+                        <p className="font-semibold text-gray-800 truncate">
+                          {formatMasteryName(topic)}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {topic.subject} ·{" "}
+                          {MASTERY_CONFIDENCE_LABELS[topic.confidence]}
+                          {topic.weakestSkill &&
+                            ` · weakest: ${topic.weakestSkill.skill}`}
+                        </p>
+                      </div>
+                      <span className="font-black text-gray-800">
+                        {topic.mastery}%
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6">
+        <h2 className="text-xl font-black text-gray-800 mb-4">Recent exams</h2>
+        {data.recentAttempts.length === 0 ? (
+          <p className="text-gray-500">{name} hasn't finished an exam yet.</p>
+        ) : (
+          <div className="divide-y">
+            {data.recentAttempts.map((attempt) => (
+              <div
+                key={attempt.id}
+                className="flex items-center justify-between gap-4 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-800 truncate">
+                    {attempt.exam?.title || "Exam"}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {attempt.exam?.subject}
+                    {attempt.completed_at &&
+                      ` · ${formatDate(attempt.completed_at)}`}
+                  </p>
+                </div>
+                <span className="text-lg font-black text-indigo-600">
+                  {Math.round(attempt.percentage || 0)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {writing.length > 0 && (
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <h2 className="flex items-center gap-2 text-xl font-black text-gray-800 mb-4">
+            <PenLine className="w-5 h-5" />
+            Writing to mark
+          </h2>
+          <div className="divide-y">
+            {writing.map((response) => (
+              <div
+                key={`${response.attempt_id}-${response.question_id}`}
+                className="flex items-center justify-between gap-4 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-800 truncate">
+                    {response.exam_title} · Question {response.question_number}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {response.marked ? "Marked" : "Not marked yet"}
+                    {response.completed_at &&
+                      ` · ${formatDate(response.completed_at)}`}
+                  </p>
+                </div>
+                <Link
+                  to={getWritingMarkingRoute(
+                    response.exam_id,
+                    response.attempt_id,
+                    response.question_id,
+                  )}
+                  state={{ returnTo: ROUTES.FAMILY }}
+                  className={`shrink-0 px-4 py-2 rounded-xl text-sm font-semibold ${
+                    response.marked
+                      ? "border-2 border-gray-200 text-gray-600 hover:bg-gray-50"
+                      : "bg-indigo-500 text-white hover:bg-indigo-600"
+                  }`}
+                >
+                  {response.marked ? "Change marks" : "Mark"}
+                </Link>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
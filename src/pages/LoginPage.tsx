@@ -15,16 +15,20 @@ import {
   Mail,
   Lock,
   Sparkles,
+  User,
 } from "lucide-react";
 import { ROUTES } from "@/data/constants";
 import { supabase } from "@/lib/supabase";
 import { useAuthStore } from "@/store";
+import { CHILD_PIN_LENGTH, childLoginEmail } from "@/lib/family";
 
 export default function LoginPage() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { user, setUser, setSession } = useAuthStore();
 
+  // Children of a family account log in with a username and PIN
+  const [loginMode, setLoginMode] = useState<"email" | "username">("email");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
@@ -49,13 +53,19 @@ export default function LoginPage() {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const isChildLogin = loginMode === "username";
+
     // Basic validation
     if (!email.trim()) {
-      setError("Please enter your email");
+      setError(
+        isChildLogin ? "Please enter your username" : "Please enter your email",
+      );
       return;
     }
     if (!password) {
-      setError("Please enter your password");
+      setError(
+        isChildLogin ? "Please enter your PIN" : "Please enter your password",
+      );
       return;
     }
 
@@ -65,7 +75,7 @@ export default function LoginPage() {
     try {
       const { data, error: signInError } =
         await supabase.auth.signInWithPassword({
-          email: email.trim(),
+          email: isChildLogin ? childLoginEmail(email) : email.trim(),
           password: password,
         });
 
@@ -74,7 +84,11 @@ export default function LoginPage() {
 
         // User-friendly error messages
         if (signInError.message.includes("Invalid login credentials")) {
-          setError("Invalid email or password. Please try again.");
+          setError(
+            isChildLogin
+              ? "Invalid username or PIN. Please try again."
+              : "Invalid email or password. Please try again.",
+          );
         } else if (signInError.message.includes("Email not confirmed")) {
           setError(
             "Please verify your email before logging in. Check your inbox!",
@@ -214,20 +228,55 @@ export default function LoginPage() {
           </motion.div>
         )}
 
+        {/* Login Mode */}
+        <div className="grid grid-cols-2 gap-2 bg-gray-100 rounded-xl p-1 mb-5">
+          {(
+            [
+              { value: "email", label: "📧 Email" },
+              { value: "username", label: "🎒 Username & PIN" },
+            ] as const
+          ).map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => {
+                setLoginMode(option.value);
+                setEmail("");
+                setPassword("");
+                setError(null);
+              }}
+              className={`py-2 rounded-lg font-bold text-sm transition-all ${
+                loginMode === option.value
+                  ? "bg-white text-indigo-600 shadow"
+                  : "text-gray-500 hover:text-gray-700"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
         {/* Login Form */}
         <form onSubmit={handleSubmit} className="space-y-5">
           {/* Email */}
           <div>
             <label className="block text-sm font-bold text-gray-700 mb-2">
-              Email Address 📧
+              {loginMode === "email" ? "Email Address 📧" : "Username 🎒"}
             </label>
             <div className="relative">
-              <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+              {loginMode === "email" ? (
+                <Mail className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+              ) : (
+                <User className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
+              )}
               <input
-                type="email"
+                type={loginMode === "email" ? "email" : "text"}
+                autoCapitalize="none"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
-                placeholder="your@email.com"
+                placeholder={
+                  loginMode === "email" ? "your@email.com" : "your username"
+                }
                 className="w-full pl-12 pr-4 py-3 rounded-xl border-2 border-gray-200 font-semibold transition-all focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
               />
             </div>
@@ -236,7 +285,7 @@ export default function LoginPage() {
           {/* Password */}
           <div>
             <label className="block text-sm font-bold text-gray-700 mb-2">
-              Password 🔒
+              {loginMode === "email" ? "Password 🔒" : "PIN 🔒"}
             </label>
             <div className="relative">
               <Lock className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-400" />
@@ -244,7 +293,13 @@ export default function LoginPage() {
                 type={showPassword ? "text" : "password"}
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
-                placeholder="Enter your password"
+                inputMode={loginMode === "email" ? undefined : "numeric"}
+                maxLength={loginMode === "email" ? undefined : CHILD_PIN_LENGTH}
+                placeholder={
+                  loginMode === "email"
+                    ? "Enter your password"
+                    : `Your ${CHILD_PIN_LENGTH}-digit PIN`
+                }
                 className="w-full pl-12 pr-12 py-3 rounded-xl border-2 border-gray-200 font-semibold transition-all focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
               />
               <button
@@ -263,12 +318,18 @@ export default function LoginPage() {
 
           {/* Forgot Password Link */}
           <div className="text-right">
-            <Link
-              to={ROUTES.FORGOT_PASSWORD}
-              className="text-sm text-indigo-600 hover:text-indigo-700 font-semibold"
-            >
-              Forgot password?
-            </Link>
+            {loginMode === "email" ? (
+              <Link
+                to={ROUTES.FORGOT_PASSWORD}
+                className="text-sm text-indigo-600 hover:text-indigo-700 font-semibold"
+              >
+                Forgot password?
+              </Link>
+            ) : (
+              <p className="text-sm text-gray-500 font-semibold">
+                Forgot your PIN? Ask your parent to reset it.
+              </p>
+            )}
           </div>
 
           {/* Submit Button */}
@@ -0,0 +1,788 @@
+// src/pages/OrganisationPage.tsx
+// One organisation, for its org admins (migration 026) - offer Premium
+// seats by email and revoke them, see how the seat holders are using
+// them, and manage who else can do that.
+// ============================================
+
+import { useState, useEffect, useCallback } from "react";
+import { Link, useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  AlertCircle,
+  ArrowLeft,
+  BarChart3,
+  Building2,
+  Loader2,
+  Plus,
+  ShieldCheck,
+  Trash2,
+  UserMinus,
+  Users,
+  X,
+} from "lucide-react";
+import { useAuthStore } from "@/store";
+import { ROUTES } from "@/data/constants";
+import { formatDate } from "@/utils/helpers";
+import {
+  cancelAdminInvite,
+  cancelSeatInvite,
+  fetchAdminInvites,
+  fetchOrganisation,
+  fetchOrganisationAdmins,
+  fetchOrganisationSeats,
+  fetchOrganisationUsage,
+  fetchSeatInvites,
+  getPersonName,
+  inviteOrganisationAdmin,
+  inviteToSeats,
+  isLicenceCurrent,
+  parseEmailList,
+  removeOrganisationAdmin,
+  revokeSeat,
+  updateSeatLimit,
+  USAGE_PERIODS,
+  type AdminInvite,
+  type Organisation,
+  type OrganisationAdmin,
+  type OrganisationSeat,
+  type OrganisationUsage,
+  type SeatInvite,
+  type SeatInviteResult,
+} from "@/lib/organisations";
+
+type Tab = "seats" | "usage" | "admins";
+
+const TABS: { id: Tab; label: string; icon: typeof Users }[] = [
+  { id: "seats", label: "Seats", icon: Users },
+  { id: "usage", label: "Usage", icon: BarChart3 },
+  { id: "admins", label: "Admins", icon: ShieldCheck },
+];
+
+function formatStudyTime(seconds: number): string {
+  const mins = Math.round(seconds / 60);
+  if (mins < 60) return `${mins} min`;
+  const hours = Math.floor(mins / 60);
+  return mins % 60 ? `${hours} h ${mins % 60} min` : `${hours} h`;
+}
+
+export default function OrganisationPage() {
+  const { organisationId = "" } = useParams<{ organisationId: string }>();
+  const { user, profile } = useAuthStore();
+  const isPlatformAdmin = profile?.role === "admin";
+
+  const [organisation, setOrganisation] = useState<Organisation | null>(null);
+  const [seats, setSeats] = useState<OrganisationSeat[]>([]);
+  const [invites, setInvites] = useState<SeatInvite[]>([]);
+  const [admins, setAdmins] = useState<OrganisationAdmin[]>([]);
+  const [adminInvites, setAdminInvites] = useState<AdminInvite[]>([]);
+  const [tab, setTab] = useState<Tab>("seats");
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Seat limit, for platform admins
+  const [editingLimit, setEditingLimit] = useState(false);
+  const [seatLimit, setSeatLimit] = useState(0);
+
+  const loadOrganisation = useCallback(async () => {
+    const found = await fetchOrganisation(organisationId);
+    setOrganisation(found);
+    setSeatLimit(found?.seat_limit ?? 0);
+  }, [organisationId]);
+
+  const loadSeats = useCallback(async () => {
+    const [held, offered] = await Promise.all([
+      fetchOrganisationSeats(organisationId),
+      fetchSeatInvites(organisationId),
+    ]);
+    setSeats(held);
+    setInvites(offered);
+  }, [organisationId]);
+
+  const loadAdmins = useCallback(async () => {
+    const [current, invited] = await Promise.all([
+      fetchOrganisationAdmins(organisationId),
+      fetchAdminInvites(organisationId),
+    ]);
+    setAdmins(current);
+    setAdminInvites(invited);
+  }, [organisationId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([loadOrganisation(), loadSeats(), loadAdmins()]).finally(() =>
+      setIsLoading(false),
+    );
+  }, [loadOrganisation, loadSeats, loadAdmins]);
+
+  const handleSaveLimit = async () => {
+    if (!organisation) return;
+    setError(null);
+    const result = await updateSeatLimit(organisation.id, seatLimit);
+    if (!result.success) {
+      setError(result.error || "Failed to update the seat limit");
+      return;
+    }
+    setEditingLimit(false);
+    await loadOrganisation();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  // Seat holders can read the organisation too, but only its admins
+  // manage it
+  const canManage =
+    isPlatformAdmin || admins.some((admin) => admin.user_id === user?.id);
+
+  if (!organisation || !canManage) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl shadow-xl p-8 max-w-md w-full text-center">
+          <AlertCircle className="w-14 h-14 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-black text-gray-800 mb-2">
+            Organisation not found
+          </h1>
+          <p className="text-gray-600 mb-6">
+            Only the organisation's admins can manage its seats.
+          </p>
+          <Link
+            to={ROUTES.DASHBOARD}
+            className="inline-block px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+          >
+            Back to dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const licenceCurrent = isLicenceCurrent(organisation);
+  // Open invites hold a seat until they're answered
+  const seatsLeft = Math.max(
+    0,
+    organisation.seat_limit - seats.length - invites.length,
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 py-8">
+      <div className="container-custom space-y-6">
+        {isPlatformAdmin && (
+          <Link
+            to={ROUTES.ORGANISATIONS}
+            className="inline-flex items-center gap-2 text-gray-600 hover:text-indigo-600 font-semibold"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            All organisations
+          </Link>
+        )}
+
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-wrap items-end justify-between gap-4"
+        >
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <Building2 className="w-10 h-10 text-indigo-600" />
+              <h1 className="text-4xl font-black text-gray-800">
+                {organisation.name}
+              </h1>
+            </div>
+            <p
+              className={`font-semibold ${
+                licenceCurrent ? "text-green-600" : "text-red-600"
+              }`}
+            >
+              {licenceCurrent
+                ? organisation.current_period_end
+                  ? `Premium licence until ${formatDate(organisation.current_period_end)}`
+                  : "Premium licence"
+                : "Licence lapsed - seat holders don't have Premium until it's renewed"}
+            </p>
+          </div>
+
+          <div className="px-5 py-3 bg-white rounded-2xl shadow min-w-[14rem]">
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-xs font-bold text-gray-400 uppercase">
+                Seats used
+              </p>
+              {isPlatformAdmin && !editingLimit && (
+                <button
+                  onClick={() => setEditingLimit(true)}
+                  className="text-xs font-semibold text-indigo-600 hover:underline"
+                >
+                  Change
+                </button>
+              )}
+            </div>
+            {editingLimit ? (
+              <div className="flex items-center gap-2 mt-1">
+                <input
+                  type="number"
+                  min={0}
+                  value={seatLimit}
+                  onChange={(e) => setSeatLimit(Number(e.target.value))}
+                  className="w-24 px-3 py-1 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+                />
+                <button
+                  onClick={handleSaveLimit}
+                  className="px-3 py-1 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+                >
+                  Save
+                </button>
+              </div>
+            ) : (
+              <p className="text-2xl font-black text-gray-800">
+                {seats.length}{" "}
+                <span className="text-base font-semibold text-gray-400">
+                  of {organisation.seat_limit}
+                </span>
+              </p>
+            )}
+            <div className="mt-2 h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${
+                  seats.length > organisation.seat_limit
+                    ? "bg-red-500"
+                    : "bg-indigo-500"
+                }`}
+                style={{
+                  width: `${
+                    organisation.seat_limit
+                      ? Math.min(
+                          100,
+                          (seats.length / organisation.seat_limit) * 100,
+                        )
+                      : 100
+                  }%`,
+                }}
+              />
+            </div>
+          </div>
+        </motion.div>
+
+        <div className="flex flex-wrap gap-2">
+          {TABS.map((t) => {
+            const Icon = t.icon;
+            return (
+              <button
+                key={t.id}
+                onClick={() => setTab(t.id)}
+                className={`flex items-center gap-2 px-4 py-2 rounded-xl font-semibold transition ${
+                  tab === t.id
+                    ? "bg-indigo-500 text-white"
+                    : "bg-white text-gray-600 hover:bg-gray-100"
+                }`}
+              >
+                <Icon className="w-5 h-5" />
+                {t.label}
+              </button>
+            );
+          })}
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+            <AlertCircle className="w-5 h-5 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {tab === "seats" && (
+          <SeatsTab
+            organisationId={organisation.id}
+            seats={seats}
+            invites={invites}
+            seatsLeft={seatsLeft}
+            onChange={loadSeats}
+            onError={setError}
+          />
+        )}
+        {tab === "usage" && <UsageTab organisationId={organisation.id} />}
+        {tab === "admins" && (
+          <AdminsTab
+            organisationId={organisation.id}
+            admins={admins}
+            invites={adminInvites}
+            onChange={loadAdmins}
+            onError={setError}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// SEATS
+// ============================================
+
+function SeatsTab({
+  organisationId,
+  seats,
+  invites,
+  seatsLeft,
+  onChange,
+  onError,
+}: {
+  organisationId: string;
+  seats: OrganisationSeat[];
+  invites: SeatInvite[];
+  seatsLeft: number;
+  onChange: () => Promise<void>;
+  onError: (error: string | null) => void;
+}) {
+  const [emailText, setEmailText] = useState("");
+  const [result, setResult] = useState<SeatInviteResult | null>(null);
+  const [invalid, setInvalid] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleInvite = async () => {
+    const parsed = parseEmailList(emailText);
+    setInvalid(parsed.invalid);
+    setResult(null);
+    if (parsed.emails.length === 0) return;
+
+    setIsSaving(true);
+    onError(null);
+    const invited = await inviteToSeats(organisationId, parsed.emails);
+    if ("error" in invited) {
+      onError(invited.error);
+    } else {
+      setResult(invited);
+      // Keep the emails that still need sorting out
+      setEmailText(invited.no_seat.join("\n"));
+      await onChange();
+    }
+    setIsSaving(false);
+  };
+
+  const handleRevoke = async (seat: OrganisationSeat) => {
+    if (
+      !window.confirm(
+        `Take the seat back from ${getPersonName(seat)}? They keep their work but lose Premium unless they subscribe themselves.`,
+      )
+    ) {
+      return;
+    }
+    onError(null);
+    const revoked = await revokeSeat(seat.id);
+    if (!revoked.success) {
+      onError(revoked.error || "Failed to revoke the seat");
+    } else {
+      await onChange();
+    }
+  };
+
+  const handleCancelInvite = async (invite: SeatInvite) => {
+    onError(null);
+    const cancelled = await cancelSeatInvite(organisationId, invite.email);
+    if (!cancelled.success) {
+      onError(cancelled.error || "Failed to cancel the invite");
+    } else {
+      await onChange();
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-white rounded-2xl shadow-lg p-6">
+        <h2 className="text-xl font-black text-gray-800 mb-4">Seat holders</h2>
+        {seats.length === 0 ? (
+          <p className="text-gray-500">No one has taken a seat yet.</p>
+        ) : (
+          <div className="divide-y">
+            {seats.map((seat) => (
+              <div
+                key={seat.id}
+                className="flex items-center justify-between gap-4 py-3"
+              >
+                <div className="min-w-0">
+                  <p className="font-semibold text-gray-800 truncate">
+                    {getPersonName(seat)}
+                  </p>
+                  <p className="text-sm text-gray-500 truncate">
+                    {seat.email} · since {formatDate(seat.assigned_at)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRevoke(seat)}
+                  className="p-2 text-red-600 rounded-xl hover:bg-red-50"
+                  aria-label={`Revoke seat from ${getPersonName(seat)}`}
+                >
+                  <UserMinus className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {invites.length > 0 && (
+          <>
+            <h3 className="font-bold text-gray-800 mt-6 mb-2">Invited</h3>
+            <div className="divide-y">
+              {invites.map((invite) => (
+                <div
+                  key={invite.email}
+                  className="flex items-center justify-between gap-4 py-2"
+                >
+                  <p className="text-gray-600 truncate">
+                    {invite.email} · {formatDate(invite.created_at)}
+                  </p>
+                  <button
+                    onClick={() => handleCancelInvite(invite)}
+                    className="p-2 text-gray-400 rounded-xl hover:bg-gray-100"
+                    aria-label={`Cancel invite for ${invite.email}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4 h-fit">
+        <h2 className="text-xl font-black text-gray-800">Offer seats</h2>
+        <p className="text-sm text-gray-500">
+          Paste the emails of students or staff, one per line. Each person takes
+          their seat by accepting the invite on their profile - straight away if
+          they have an account, or after signing up with that email. {seatsLeft}{" "}
+          seat{seatsLeft === 1 ? "" : "s"} left.
+        </p>
+        <textarea
+          value={emailText}
+          onChange={(e) => setEmailText(e.target.value)}
+          rows={6}
+          placeholder={"student1@school.edu.au\nstudent2@school.edu.au"}
+          className="w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none font-mono text-sm"
+        />
+        <button
+          onClick={handleInvite}
+          disabled={isSaving || !emailText.trim()}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+        >
+          {isSaving ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <Plus className="w-5 h-5" />
+          )}
+          Send invites
+        </button>
+
+        {invalid.length > 0 && (
+          <p className="text-sm text-red-600">
+            Not emails: {invalid.slice(0, 5).join(", ")}
+            {invalid.length > 5 && ` and ${invalid.length - 5} more`}
+          </p>
+        )}
+        {result && (
+          <div className="text-sm space-y-1">
+            <p className="text-green-600 font-semibold">
+              {result.invited} invited
+            </p>
+            {result.already_seated.length > 0 && (
+              <p className="text-gray-500">
+                {result.already_seated.length} already had a seat
+              </p>
+            )}
+            {result.no_seat.length > 0 && (
+              <p className="text-red-600">
+                Out of seats for: {result.no_seat.join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// USAGE
+// ============================================
+
+function UsageTab({ organisationId }: { organisationId: string }) {
+  const [days, setDays] = useState<number>(30);
+  const [usage, setUsage] = useState<OrganisationUsage | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUsage(null);
+    setError(null);
+    fetchOrganisationUsage(organisationId, days).then((result) => {
+      if ("error" in result) {
+        setError(result.error);
+      } else {
+        setUsage(result);
+      }
+    });
+  }, [organisationId, days]);
+
+  if (error) {
+    return (
+      <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+        <AlertCircle className="w-5 h-5 shrink-0" />
+        {error}
+      </div>
+    );
+  }
+
+  if (!usage) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-10 h-10 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-gray-600 font-medium">
+          Current seat holders, last {usage.days} days
+        </p>
+        <div className="flex gap-2">
+          {USAGE_PERIODS.map((period) => (
+            <button
+              key={period}
+              onClick={() => setDays(period)}
+              className={`px-3 py-1 rounded-xl font-semibold transition ${
+                days === period
+                  ? "bg-indigo-500 text-white"
+                  : "bg-white text-gray-600 hover:bg-gray-100"
+              }`}
+            >
+              {period} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          {
+            label: "Active seat holders",
+            value: `${usage.active_users} of ${usage.seats_used}`,
+          },
+          { label: "Exams completed", value: usage.exams_completed },
+          {
+            label: "Average score",
+            value:
+              usage.average_score === null ? "-" : `${usage.average_score}%`,
+          },
+          {
+            label: "Time studied",
+            value: formatStudyTime(usage.time_spent_seconds),
+          },
+        ].map((stat) => (
+          <div
+            key={stat.label}
+            className="bg-white rounded-2xl shadow-lg p-5 text-center"
+          >
+            <p className="text-2xl font-black text-gray-800">{stat.value}</p>
+            <p className="text-sm text-gray-500">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6 overflow-x-auto">
+        {usage.members.length === 0 ? (
+          <p className="text-gray-500">No one has taken a seat yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left">
+                <th className="py-2 pr-4 font-bold text-gray-700">Name</th>
+                <th className="px-2 py-2 font-bold text-gray-700">Exams</th>
+                <th className="px-2 py-2 font-bold text-gray-700">Average</th>
+                <th className="px-2 py-2 font-bold text-gray-700">
+                  Time studied
+                </th>
+                <th className="px-2 py-2 font-bold text-gray-700">
+                  Last active
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {usage.members.map((member) => (
+                <tr key={member.seat_id}>
+                  <td className="py-2 pr-4">
+                    <p className="font-semibold text-gray-800">{member.name}</p>
+                    <p className="text-xs text-gray-500">{member.email}</p>
+                  </td>
+                  <td className="px-2 py-2 font-semibold text-gray-800">
+                    {member.exams_completed}
+                  </td>
+                  <td className="px-2 py-2 font-semibold text-gray-800">
+                    {member.average_score === null
+                      ? "-"
+                      : `${member.average_score}%`}
+                  </td>
+                  <td className="px-2 py-2 text-gray-600">
+                    {formatStudyTime(member.time_spent_seconds)}
+                  </td>
+                  <td className="px-2 py-2 text-gray-600">
+                    {member.last_active_at
+                      ? formatDate(member.last_active_at)
+                      : "Not yet"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================
+// ADMINS
+// ============================================
+
+function AdminsTab({
+  organisationId,
+  admins,
+  invites,
+  onChange,
+  onError,
+}: {
+  organisationId: string;
+  admins: OrganisationAdmin[];
+  invites: AdminInvite[];
+  onChange: () => Promise<void>;
+  onError: (error: string | null) => void;
+}) {
+  const { user } = useAuthStore();
+  const [email, setEmail] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleInvite = async () => {
+    setIsSaving(true);
+    onError(null);
+    const result = await inviteOrganisationAdmin(organisationId, email);
+    if (!result.success) {
+      onError(result.error || "Failed to send the invite");
+    } else {
+      setEmail("");
+      await onChange();
+    }
+    setIsSaving(false);
+  };
+
+  const handleCancelInvite = async (invite: AdminInvite) => {
+    onError(null);
+    const cancelled = await cancelAdminInvite(organisationId, invite.email);
+    if (!cancelled.success) {
+      onError(cancelled.error || "Failed to cancel the invite");
+    } else {
+      await onChange();
+    }
+  };
+
+  const handleRemove = async (admin: OrganisationAdmin) => {
+    if (!window.confirm(`Remove ${admin.name} as an admin?`)) {
+      return;
+    }
+    onError(null);
+    const result = await removeOrganisationAdmin(organisationId, admin.user_id);
+    if (!result.success) {
+      onError(result.error || "Failed to remove the admin");
+    } else {
+      await onChange();
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-2 bg-white rounded-2xl shadow-lg p-6">
+        <h2 className="text-xl font-black text-gray-800 mb-4">Org admins</h2>
+        <div className="divide-y">
+          {admins.map((admin) => (
+            <div
+              key={admin.user_id}
+              className="flex items-center justify-between gap-4 py-3"
+            >
+              <div className="min-w-0">
+                <p className="font-semibold text-gray-800 truncate">
+                  {admin.name}
+                  {admin.user_id === user?.id && " (you)"}
+                </p>
+                <p className="text-sm text-gray-500 truncate">{admin.email}</p>
+              </div>
+              {admin.user_id !== user?.id && (
+                <button
+                  onClick={() => handleRemove(admin)}
+                  className="p-2 text-red-600 rounded-xl hover:bg-red-50"
+                  aria-label={`Remove ${admin.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {invites.length > 0 && (
+          <>
+            <h3 className="font-bold text-gray-800 mt-6 mb-2">Invited</h3>
+            <div className="divide-y">
+              {invites.map((invite) => (
+                <div
+                  key={invite.email}
+                  className="flex items-center justify-between gap-4 py-2"
+                >
+                  <p className="text-gray-600 truncate">
+                    {invite.email} · {formatDate(invite.created_at)}
+                  </p>
+                  <button
+                    onClick={() => handleCancelInvite(invite)}
+                    className="p-2 text-gray-400 rounded-xl hover:bg-gray-100"
+                    aria-label={`Cancel invite for ${invite.email}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-lg p-6 space-y-4 h-fit">
+        <h2 className="text-xl font-black text-gray-800">Invite an admin</h2>
+        <p className="text-sm text-gray-500">
+          Admins offer and revoke seats and see usage. They don't need a seat
+          themselves. They become an admin by accepting the invite on the School
+          Seats page, after signing in with this email.
+        </p>
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="colleague@school.edu.au"
+          className="w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+        />
+        <button
+          onClick={handleInvite}
+          disabled={isSaving || !email.trim()}
+          className="w-full flex items-center justify-center gap-2 px-4 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+        >
+          {isSaving ? (
+            <Loader2 className="w-5 h-5 animate-spin" />
+          ) : (
+            <Plus className="w-5 h-5" />
+          )}
+          Send invite
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,297 @@
+// src/pages/OrganisationsPage.tsx
+// Organisations (migration 026) - the schools an org admin hands out
+// Premium seats for, and invites to become one. Platform admins see every
+// organisation and set up new ones.
+// ============================================
+
+import { useState, useEffect, useCallback } from "react";
+import { Link, Navigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  AlertCircle,
+  Building2,
+  Loader2,
+  Plus,
+  ShieldCheck,
+  Users,
+} from "lucide-react";
+import { useAuthStore } from "@/store";
+import { ROUTES } from "@/data/constants";
+import { formatDate } from "@/utils/helpers";
+import { getOrganisationRoute } from "@/utils/routes";
+import {
+  createOrganisation,
+  fetchManagedOrganisations,
+  fetchMyAdminInvites,
+  isLicenceCurrent,
+  respondToAdminInvite,
+  type ManagedOrganisation,
+  type MyAdminInvite,
+} from "@/lib/organisations";
+
+export default function OrganisationsPage() {
+  const { user, profile } = useAuthStore();
+  const isPlatformAdmin = profile?.role === "admin";
+
+  const [organisations, setOrganisations] = useState<ManagedOrganisation[]>([]);
+  const [invites, setInvites] = useState<MyAdminInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // New organisation form
+  const [showForm, setShowForm] = useState(false);
+  const [name, setName] = useState("");
+  const [seatLimit, setSeatLimit] = useState(30);
+  const [adminEmail, setAdminEmail] = useState("");
+
+  const loadOrganisations = useCallback(async () => {
+    if (!user) return;
+    const [managed, invited] = await Promise.all([
+      fetchManagedOrganisations(user.id, isPlatformAdmin),
+      fetchMyAdminInvites(),
+    ]);
+    setOrganisations(managed);
+    setInvites(invited);
+  }, [user, isPlatformAdmin]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    loadOrganisations().finally(() => setIsLoading(false));
+  }, [loadOrganisations]);
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    const result = await createOrganisation(name, seatLimit, adminEmail);
+    if ("error" in result) {
+      setError(result.error);
+      setIsSaving(false);
+      return;
+    }
+
+    setName("");
+    setSeatLimit(30);
+    setAdminEmail("");
+    setShowForm(false);
+    await loadOrganisations();
+    setIsSaving(false);
+  };
+
+  const handleInvite = async (invite: MyAdminInvite, accept: boolean) => {
+    setIsSaving(true);
+    setError(null);
+
+    const result = await respondToAdminInvite(invite.organisation_id, accept);
+    if (!result.success) {
+      setError(result.error || "Failed to answer the invite");
+    } else {
+      await loadOrganisations();
+    }
+    setIsSaving(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  // Most org admins look after one school
+  if (!isPlatformAdmin && organisations.length === 1 && invites.length === 0) {
+    return <Navigate to={getOrganisationRoute(organisations[0].id)} replace />;
+  }
+
+  if (!isPlatformAdmin && organisations.length === 0 && invites.length === 0) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl shadow-xl p-8 max-w-md w-full text-center">
+          <Building2 className="w-14 h-14 text-indigo-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-black text-gray-800 mb-2">
+            No organisations
+          </h1>
+          <p className="text-gray-600 mb-6">
+            Schools can buy Premium seats for their students and staff. Once
+            your school has a licence, its admins manage the seats here.
+          </p>
+          <Link
+            to={ROUTES.DASHBOARD}
+            className="inline-block px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+          >
+            Back to dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 py-8">
+      <div className="container-custom space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <div className="flex items-center gap-3 mb-2">
+            <Building2 className="w-10 h-10 text-indigo-600" />
+            <h1 className="text-4xl font-black text-gray-800">Organisations</h1>
+          </div>
+          <p className="text-gray-600 font-medium">
+            Premium seat licences for schools.
+          </p>
+        </motion.div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+            <AlertCircle className="w-5 h-5 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {invites.map((invite) => (
+          <div
+            key={invite.organisation_id}
+            className="bg-indigo-50 border-2 border-indigo-200 rounded-2xl p-6 space-y-3"
+          >
+            <p className="flex items-center gap-2 font-bold text-indigo-800">
+              <ShieldCheck className="w-5 h-5 shrink-0" />
+              {invite.organisation_name} has invited you to be an admin
+            </p>
+            <p className="text-sm text-indigo-700">
+              Admins offer and revoke the school's Premium seats and see how
+              seat holders are practising. The other admins will see your name
+              and email.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleInvite(invite, true)}
+                disabled={isSaving}
+                className="px-4 py-2 rounded-xl font-semibold bg-indigo-500 text-white hover:bg-indigo-600 disabled:opacity-50"
+              >
+                Accept
+              </button>
+              <button
+                onClick={() => handleInvite(invite, false)}
+                disabled={isSaving}
+                className="px-4 py-2 rounded-xl font-semibold text-gray-600 hover:bg-gray-100 disabled:opacity-50"
+              >
+                Decline
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+          {organisations.map((organisation) => (
+            <Link
+              key={organisation.id}
+              to={getOrganisationRoute(organisation.id)}
+              className="bg-white rounded-2xl shadow-lg p-6 hover:shadow-xl transition"
+            >
+              <h2 className="text-xl font-black text-gray-800">
+                {organisation.name}
+              </h2>
+              <p
+                className={`text-sm font-semibold ${
+                  isLicenceCurrent(organisation)
+                    ? "text-green-600"
+                    : "text-red-600"
+                }`}
+              >
+                {isLicenceCurrent(organisation)
+                  ? organisation.current_period_end
+                    ? `Licensed until ${formatDate(organisation.current_period_end)}`
+                    : "Licensed"
+                  : "Licence lapsed"}
+              </p>
+              <div className="flex items-center gap-1 mt-4 text-gray-600 font-semibold">
+                <Users className="w-4 h-4" />
+                {organisation.seatsUsed} of {organisation.seat_limit} seats used
+              </div>
+            </Link>
+          ))}
+
+          {isPlatformAdmin && !showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed border-indigo-200 rounded-2xl text-indigo-600 font-semibold hover:bg-indigo-50 min-h-[10rem]"
+            >
+              <Plus className="w-8 h-8" />
+              New organisation
+            </button>
+          )}
+        </div>
+
+        {showForm && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 space-y-5 max-w-2xl">
+            <h2 className="text-xl font-black text-gray-800">
+              New organisation
+            </h2>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <label className="block sm:col-span-2">
+                <span className="font-semibold text-gray-800">Name</span>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Springfield Primary School"
+                  className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+                />
+              </label>
+              <label className="block">
+                <span className="font-semibold text-gray-800">Seats</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={seatLimit}
+                  onChange={(e) => setSeatLimit(Number(e.target.value))}
+                  className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+                />
+              </label>
+              <label className="block sm:col-span-3">
+                <span className="font-semibold text-gray-800">
+                  First org admin's email
+                </span>
+                <input
+                  type="email"
+                  value={adminEmail}
+                  onChange={(e) => setAdminEmail(e.target.value)}
+                  placeholder="They accept the invite once signed in"
+                  className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+                />
+              </label>
+            </div>
+            <p className="text-sm text-gray-500">
+              For a licence billed through Stripe, put this organisation's ID in
+              the subscription's <code>organisation_id</code> metadata - seats
+              and status then follow the subscription.
+            </p>
+            <div className="flex items-center justify-end gap-3 pt-4 border-t">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-gray-600 font-semibold"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={isSaving || !name.trim() || !adminEmail.trim()}
+                className="flex items-center gap-2 px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+              >
+                {isSaving ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Plus className="w-5 h-5" />
+                )}
+                Create organisation
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,443 @@
+// src/pages/PracticeBuilderPage.tsx
+// Premium practice-set builder - choose topics, skills, difficulty, year
+// level, length and time limit; the set is saved as a personal exam and
+// started from ExamStartPage like any other
+// ============================================
+
+import { useState, useEffect, useMemo } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  Clock,
+  Crown,
+  Layers,
+  ListChecks,
+  Loader2,
+  Sparkles,
+  Target,
+} from "lucide-react";
+import { useAuthStore } from "@/store";
+import { ROUTES } from "@/data/constants";
+import { getExamStartRoute } from "@/utils/routes";
+import { checkPremiumAccess } from "@/lib/subscription";
+import {
+  PRACTICE_DURATION_LIMITS,
+  PRACTICE_QUESTION_LIMITS,
+  countMatchingQuestions,
+  createPracticeSet,
+  fetchMyPracticeSets,
+  fetchPracticeBank,
+  type PracticeBankEntry,
+  type PracticeSet,
+} from "@/lib/practiceSets";
+
+const DIFFICULTIES = [
+  { value: "", label: "Any" },
+  { value: "easy", label: "Easy" },
+  { value: "medium", label: "Medium" },
+  { value: "hard", label: "Hard" },
+];
+
+const chipClass = (selected: boolean) =>
+  `px-3 py-1.5 rounded-full text-sm font-semibold border-2 transition-colors ${
+    selected
+      ? "border-indigo-500 bg-indigo-500 text-white"
+      : "border-gray-200 text-gray-700 hover:border-indigo-300"
+  }`;
+
+const toggle = (list: string[], value: string) =>
+  list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+export default function PracticeBuilderPage() {
+  const { user } = useAuthStore();
+  const navigate = useNavigate();
+  // Study plan items link here with ?subject=&topic=
+  const [searchParams] = useSearchParams();
+
+  const [isPremium, setIsPremium] = useState(false);
+  const [bank, setBank] = useState<PracticeBankEntry[]>([]);
+  const [practiceSets, setPracticeSets] = useState<PracticeSet[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Builder choices
+  const [title, setTitle] = useState("");
+  const [subject, setSubject] = useState("");
+  const [yearLevel, setYearLevel] = useState<number | null>(null);
+  const [topics, setTopics] = useState<string[]>([]);
+  const [skills, setSkills] = useState<string[]>([]);
+  const [difficulty, setDifficulty] = useState("");
+  const [questionCount, setQuestionCount] = useState(20);
+  const [durationMinutes, setDurationMinutes] = useState(30);
+
+  useEffect(() => {
+    if (!user) return;
+    setIsLoading(true);
+    Promise.all([
+      checkPremiumAccess(user.id),
+      fetchPracticeBank(),
+      fetchMyPracticeSets(user.id),
+    ]).then(([premium, bankData, sets]) => {
+      setIsPremium(premium);
+      setBank(bankData);
+      setPracticeSets(sets);
+      const wanted = searchParams.get("subject");
+      const topic = searchParams.get("topic");
+      if (wanted && bankData.some((entry) => entry.subject === wanted)) {
+        setSubject(wanted);
+        if (
+          topic &&
+          bankData.some((e) => e.subject === wanted && e.topic === topic)
+        ) {
+          setTopics([topic]);
+          setTitle(`${topic} practice`);
+        }
+      } else if (bankData.length > 0) {
+        setSubject(bankData[0].subject);
+      }
+      setIsLoading(false);
+    });
+  }, [user]);
+
+  // Each choice narrows the ones after it
+  const subjects = useMemo(
+    () => [...new Set(bank.map((entry) => entry.subject))],
+    [bank],
+  );
+  const subjectEntries = bank.filter((entry) => entry.subject === subject);
+  const yearLevels = [
+    ...new Set(subjectEntries.map((entry) => entry.year_level)),
+  ].sort((a, b) => a - b);
+  const yearEntries = subjectEntries.filter(
+    (entry) => yearLevel === null || entry.year_level === yearLevel,
+  );
+  const topicCounts = yearEntries.reduce<Record<string, number>>(
+    (counts, entry) => {
+      counts[entry.topic] = (counts[entry.topic] || 0) + entry.question_count;
+      return counts;
+    },
+    {},
+  );
+  const skillOptions = [
+    ...new Set(
+      yearEntries
+        .filter((entry) => topics.includes(entry.topic) && entry.skill)
+        .map((entry) => entry.skill as string),
+    ),
+  ].sort();
+
+  const available = countMatchingQuestions(bank, {
+    subject,
+    yearLevel,
+    topics,
+    skills,
+    difficulty,
+  });
+  const maxQuestions = Math.min(PRACTICE_QUESTION_LIMITS.max, available);
+
+  const chooseSubject = (value: string) => {
+    setSubject(value);
+    setYearLevel(null);
+    setTopics([]);
+    setSkills([]);
+  };
+
+  const chooseYearLevel = (value: number | null) => {
+    setYearLevel(value);
+    setTopics([]);
+    setSkills([]);
+  };
+
+  const toggleTopic = (topic: string) => {
+    const next = toggle(topics, topic);
+    setTopics(next);
+    // Drop skills that belonged only to the removed topic
+    setSkills((prev) =>
+      prev.filter((skill) =>
+        yearEntries.some(
+          (entry) => entry.skill === skill && next.includes(entry.topic),
+        ),
+      ),
+    );
+  };
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    const result = await createPracticeSet({
+      title,
+      subject,
+      yearLevel,
+      topics,
+      skills,
+      difficulty,
+      questionCount: Math.min(questionCount, maxQuestions),
+      durationMinutes,
+    });
+    setIsCreating(false);
+
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+    navigate(getExamStartRoute(result.examId));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isPremium) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl shadow-xl p-8 max-w-md w-full text-center">
+          <Crown className="w-14 h-14 text-yellow-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-black text-gray-800 mb-2">
+            Build your own practice sets
+          </h1>
+          <p className="text-gray-600 mb-6">
+            Premium members can mix questions from every exam by topic, skill
+            and difficulty, with their own length and time limit.
+          </p>
+          <Link
+            to={ROUTES.PRICING}
+            className="inline-block px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+          >
+            Upgrade to Premium
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 py-8">
+      <div className="container-custom space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+        >
+          <div className="flex items-center gap-3 mb-2">
+            <Sparkles className="w-10 h-10 text-indigo-600" />
+            <h1 className="text-4xl font-black text-gray-800">
+              Practice Set Builder
+            </h1>
+          </div>
+          <p className="text-gray-600 font-medium">
+            Pick what to practise and we'll pull questions from every exam -
+            apart from ones set as class assignments that are still open.
+            Answers show for the exams you've already sat.
+          </p>
+        </motion.div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-start">
+          {/* Choices */}
+          <div className="lg:col-span-2 bg-white rounded-2xl shadow-lg p-6 space-y-6">
+            <label className="block">
+              <span className="font-semibold text-gray-800">Name</span>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder={`Practice set - ${subject}`}
+                className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+              />
+            </label>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block">
+                <span className="font-semibold text-gray-800">Subject</span>
+                <select
+                  value={subject}
+                  onChange={(e) => chooseSubject(e.target.value)}
+                  className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none bg-white"
+                >
+                  {subjects.map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="block">
+                <span className="font-semibold text-gray-800">Year level</span>
+                <select
+                  value={yearLevel ?? ""}
+                  onChange={(e) =>
+                    chooseYearLevel(
+                      e.target.value === "" ? null : Number(e.target.value),
+                    )
+                  }
+                  className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none bg-white"
+                >
+                  <option value="">Any year</option>
+                  {yearLevels.map((value) => (
+                    <option key={value} value={value}>
+                      Year {value}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div>
+              <p className="font-semibold text-gray-800 mb-2 flex items-center gap-2">
+                <Target className="w-4 h-4 text-indigo-500" /> Topics
+                <span className="text-sm font-normal text-gray-500">
+                  (none chosen = all)
+                </span>
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(topicCounts).map(([topic, count]) => (
+                  <button
+                    key={topic}
+                    onClick={() => toggleTopic(topic)}
+                    className={chipClass(topics.includes(topic))}
+                  >
+                    {topic} · {count}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {skillOptions.length > 0 && (
+              <div>
+                <p className="font-semibold text-gray-800 mb-2 flex items-center gap-2">
+                  <Layers className="w-4 h-4 text-indigo-500" /> Skills
+                  <span className="text-sm font-normal text-gray-500">
+                    (none chosen = all)
+                  </span>
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {skillOptions.map((skill) => (
+                    <button
+                      key={skill}
+                      onClick={() => setSkills((prev) => toggle(prev, skill))}
+                      className={chipClass(skills.includes(skill))}
+                    >
+                      {skill}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div>
+              <p className="font-semibold text-gray-800 mb-2">Difficulty</p>
+              <div className="flex flex-wrap gap-2">
+                {DIFFICULTIES.map((option) => (
+                  <button
+                    key={option.value}
+                    onClick={() => setDifficulty(option.value)}
+                    className={chipClass(difficulty === option.value)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+              <label className="block">
+                <span className="font-semibold text-gray-800 flex items-center gap-2">
+                  <ListChecks className="w-4 h-4 text-indigo-500" /> Questions:{" "}
+                  {Math.min(questionCount, maxQuestions)}
+                </span>
+                <input
+                  type="range"
+                  min={PRACTICE_QUESTION_LIMITS.min}
+                  max={Math.max(PRACTICE_QUESTION_LIMITS.min, maxQuestions)}
+                  value={Math.min(questionCount, maxQuestions)}
+                  onChange={(e) => setQuestionCount(Number(e.target.value))}
+                  disabled={maxQuestions < PRACTICE_QUESTION_LIMITS.min}
+                  className="mt-2 w-full accent-indigo-500"
+                />
+              </label>
+              <label className="block">
+                <span className="font-semibold text-gray-800 flex items-center gap-2">
+                  <Clock className="w-4 h-4 text-indigo-500" /> Time limit:{" "}
+                  {durationMinutes} min
+                </span>
+                <input
+                  type="range"
+                  min={PRACTICE_DURATION_LIMITS.min}
+                  max={PRACTICE_DURATION_LIMITS.max}
+                  step={5}
+                  value={durationMinutes}
+                  onChange={(e) => setDurationMinutes(Number(e.target.value))}
+                  className="mt-2 w-full accent-indigo-500"
+                />
+              </label>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t">
+              <p className="text-sm text-gray-600">
+                {available} matching{" "}
+                {available === 1 ? "question" : "questions"}
+                {available < PRACTICE_QUESTION_LIMITS.min &&
+                  ` - choose more topics to reach ${PRACTICE_QUESTION_LIMITS.min}`}
+              </p>
+              <div className="flex items-center gap-3">
+                {error && <span className="text-sm text-red-600">{error}</span>}
+                <button
+                  onClick={handleCreate}
+                  disabled={
+                    isCreating || available < PRACTICE_QUESTION_LIMITS.min
+                  }
+                  className="flex items-center gap-2 px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+                >
+                  {isCreating ? (
+                    <Loader2 className="w-5 h-5 animate-spin" />
+                  ) : (
+                    <Sparkles className="w-5 h-5" />
+                  )}
+                  Create practice set
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* Saved sets */}
+          <div className="bg-white rounded-2xl shadow-lg p-6">
+            <h2 className="text-xl font-black text-gray-800 mb-4">
+              My practice sets
+            </h2>
+            {practiceSets.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Sets you create are saved here to take again.
+              </p>
+            ) : (
+              <div className="divide-y">
+                {practiceSets.map((set) => (
+                  <Link
+                    key={set.id}
+                    to={getExamStartRoute(set.id)}
+                    className="block py-3 hover:text-indigo-600"
+                  >
+                    <p className="font-semibold text-gray-800 truncate">
+                      {set.title}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Year {set.year_level} · {set.total_questions} questions ·{" "}
+                      {set.duration_minutes} min
+                    </p>
+                    {set.description && (
+                      <p className="text-xs text-gray-400 truncate">
+                        {set.description}
+                      </p>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -25,6 +25,7 @@ import {
   createCheckoutSession,
   getFreeExamsRemaining,
 } from "@/lib/subscription";
+import { fetchSeatOrganisation, type Organisation } from "@/lib/organisations";
 
 export default function PricingPage() {
   const navigate = useNavigate();
@@ -32,6 +33,9 @@ export default function PricingPage() {
   const [isLoading, setIsLoading] = useState<string | null>(null);
   const [currentPlan, setCurrentPlan] = useState<string>("free");
   const [freeExamsLeft, setFreeExamsLeft] = useState<number>(5);
+  const [seatOrganisation, setSeatOrganisation] = useState<Organisation | null>(
+    null,
+  );
   const [billingInterval, setBillingInterval] = useState<"month" | "year">(
     "year",
   );
@@ -48,6 +52,9 @@ export default function PricingPage() {
 
       const remaining = await getFreeExamsRemaining(user.id);
       setFreeExamsLeft(remaining);
+
+      // Premium from a school seat (migration 026)
+      setSeatOrganisation(await fetchSeatOrganisation(user.id));
     }
 
     loadSubscription();
@@ -238,6 +245,24 @@ export default function PricingPage() {
           </motion.div>
         )}
 
+        {/* School seat */}
+        {isAuthenticated && seatOrganisation && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="max-w-md mx-auto mb-8"
+          >
+            <div className="bg-gradient-to-r from-green-500/20 to-emerald-500/20 border border-green-500/30 rounded-2xl p-4 text-center">
+              <p className="text-green-300 font-bold">
+                🏫 You have Premium through {seatOrganisation.name}
+              </p>
+              <p className="text-green-200/70 text-sm mt-1">
+                No need to subscribe while you hold a seat.
+              </p>
+            </div>
+          </motion.div>
+        )}
+
         {/* Pricing Cards */}
         <div className="grid md:grid-cols-3 gap-8 max-w-6xl mx-auto mb-16">
           {displayPlans.map((plan, index) => (
@@ -27,6 +27,7 @@ import {
   type ProfileUpdateFormData,
 } from "@/lib/validations";
 import { fetchProfileStats, type ProfileStats } from "@/lib/dashboard";
+import SubscriptionPanel from "@/components/SubscriptionPanel";
 
 export default function ProfilePage() {
   const { user, profile, refreshProfile } = useAuthStore();
@@ -613,6 +614,11 @@ export default function ProfilePage() {
               </form>
             </div>
 
+            {/* Subscription - child profiles share their parent's */}
+            {user && !profile?.parent_id && (
+              <SubscriptionPanel userId={user.id} />
+            )}
+
             {/* Danger Zone */}
             <motion.div
               initial={{ opacity: 0 }}
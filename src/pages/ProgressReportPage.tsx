@@ -0,0 +1,342 @@
+// src/pages/ProgressReportPage.tsx
+// Printable weekly progress report (migration 024) - the week the Monday
+// email covers, for parents to print or save as a PDF. Opened from the
+// email's link or the family page; ?week=YYYY-MM-DD picks the week.
+// ============================================
+
+import { useState, useEffect } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import {
+  AlertCircle,
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Crown,
+  Loader2,
+  Printer,
+  ShieldAlert,
+} from "lucide-react";
+import { ROUTES } from "@/data/constants";
+import { checkPremiumAccess } from "@/lib/subscription";
+import {
+  fetchWeeklyReport,
+  getReportSkillName,
+  nextReportWeek,
+  previousReportWeek,
+  type WeeklyReport,
+} from "@/lib/parentReports";
+
+// Report dates are Melbourne calendar days
+function formatReportDay(date: string): string {
+  const value = date.length === 10 ? `${date}T12:00:00+10:00` : date;
+  return new Date(value).toLocaleDateString("en-AU", {
+    timeZone: "Australia/Melbourne",
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+}
+
+function formatStudyTime(seconds: number): string {
+  const mins = Math.round(seconds / 60);
+  if (mins < 60) return `${mins} min`;
+  const hours = Math.floor(mins / 60);
+  return mins % 60 ? `${hours} h ${mins % 60} min` : `${hours} h`;
+}
+
+export default function ProgressReportPage() {
+  const { studentId = "" } = useParams<{ studentId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const week = searchParams.get("week");
+
+  const [report, setReport] = useState<WeeklyReport | null>(null);
+  const [isPremium, setIsPremium] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setError(null);
+
+    // Reports are Premium - the student's own or their parent's
+    checkPremiumAccess(studentId).then(async (premium) => {
+      setIsPremium(premium);
+      if (premium) {
+        const result = await fetchWeeklyReport(studentId, week);
+        if ("error" in result) {
+          setError(result.error);
+          setReport(null);
+        } else {
+          setReport(result);
+        }
+      }
+      setIsLoading(false);
+    });
+  }, [studentId, week]);
+
+  const showWeek = (weekStart: string) => {
+    setSearchParams({ week: weekStart });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isPremium) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl shadow-xl p-8 max-w-md w-full text-center">
+          <Crown className="w-14 h-14 text-yellow-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-black text-gray-800 mb-2">
+            Weekly progress reports
+          </h1>
+          <p className="text-gray-600 mb-6">
+            Premium members with a linked parent account get a progress report
+            emailed to that parent every Monday, with a printable copy here.
+          </p>
+          <Link
+            to={ROUTES.PRICING}
+            className="inline-block px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+          >
+            Upgrade to Premium
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl shadow-xl p-8 max-w-md w-full text-center">
+          <AlertCircle className="w-14 h-14 text-red-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-black text-gray-800 mb-2">
+            Report not available
+          </h1>
+          <p className="text-gray-600 mb-6">
+            {error || "This report couldn't be loaded."}
+          </p>
+          <Link
+            to={ROUTES.DASHBOARD}
+            className="inline-block px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+          >
+            Back to dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { integrity } = report;
+  const previousScored = report.score_trend
+    .slice(0, -1)
+    .filter((w) => w.average_score !== null)
+    .pop();
+  const change =
+    report.average_score !== null && previousScored?.average_score != null
+      ? report.average_score - previousScored.average_score
+      : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 py-8 print:bg-none print:bg-white print:py-0">
+      <div className="container-custom max-w-4xl space-y-6">
+        {/* Controls */}
+        <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+          <Link
+            to={ROUTES.FAMILY}
+            className="flex items-center gap-2 text-gray-600 hover:text-indigo-600 font-semibold"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            Back
+          </Link>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => showWeek(previousReportWeek(report.week_start))}
+              className="p-2 bg-white rounded-xl shadow hover:bg-indigo-50"
+              aria-label="Previous week"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => showWeek(nextReportWeek(report.week_start))}
+              className="p-2 bg-white rounded-xl shadow hover:bg-indigo-50"
+              aria-label="Next week"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => window.print()}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+            >
+              <Printer className="w-5 h-5" />
+              Print
+            </button>
+          </div>
+        </div>
+
+        {/* Report */}
+        <div className="bg-white rounded-2xl shadow-lg p-8 space-y-8 print:shadow-none print:p-0">
+          <div>
+            <p className="text-sm font-semibold text-indigo-600 uppercase tracking-wide">
+              Weekly progress report
+            </p>
+            <h1 className="text-3xl font-black text-gray-800">
+              {report.student.name}
+              {report.student.year_level &&
+                ` · Year ${report.student.year_level}`}
+            </h1>
+            <p className="text-gray-500">
+              {formatReportDay(report.week_start)} –{" "}
+              {formatReportDay(report.week_end)}
+            </p>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            {[
+              { label: "Exams taken", value: report.exams_taken },
+              {
+                label: "Average score",
+                value:
+                  report.average_score === null
+                    ? "-"
+                    : `${report.average_score}%`,
+              },
+              {
+                label: "Time studied",
+                value: formatStudyTime(report.time_studied_seconds),
+              },
+            ].map((stat) => (
+              <div
+                key={stat.label}
+                className="p-4 bg-indigo-50 rounded-xl text-center"
+              >
+                <p className="text-2xl font-black text-gray-800">
+                  {stat.value}
+                </p>
+                <p className="text-sm text-gray-500">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+
+          <section>
+            <h2 className="text-xl font-black text-gray-800 mb-3">Exams</h2>
+            {report.exams.length === 0 ? (
+              <p className="text-gray-500">No exams this week.</p>
+            ) : (
+              <div className="divide-y">
+                {report.exams.map((exam) => (
+                  <div
+                    key={exam.attempt_id}
+                    className="flex items-center justify-between gap-4 py-3"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-800">
+                        {exam.title}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {exam.subject} · {formatReportDay(exam.completed_at)} ·{" "}
+                        {formatStudyTime(exam.time_spent_seconds)}
+                        {exam.flags > 0 &&
+                          ` · ${exam.flags} flag${exam.flags === 1 ? "" : "s"}`}
+                      </p>
+                    </div>
+                    <span className="text-lg font-black text-indigo-600">
+                      {exam.percentage === null
+                        ? "-"
+                        : `${Math.round(exam.percentage)}%`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h2 className="text-xl font-black text-gray-800 mb-1">
+              Score trend
+            </h2>
+            {change !== null && (
+              <p className="text-gray-600 mb-3">
+                {change === 0
+                  ? "Same average as the week before"
+                  : `${change > 0 ? "Up" : "Down"} ${Math.abs(change)} points on the week before`}
+              </p>
+            )}
+            <div className="flex items-end gap-6 h-40 mt-3">
+              {report.score_trend.map((w) => (
+                <div
+                  key={w.week_start}
+                  className="flex-1 flex flex-col items-center justify-end h-full"
+                >
+                  <span className="text-sm font-semibold text-gray-700">
+                    {w.average_score === null ? "-" : `${w.average_score}%`}
+                  </span>
+                  <div
+                    className="w-full max-w-[3rem] bg-indigo-500 rounded-t-md my-1 print:border print:border-indigo-500"
+                    style={{ height: `${Math.max(2, w.average_score ?? 0)}%` }}
+                  />
+                  <span className="text-xs text-gray-500">
+                    {formatReportDay(w.week_start)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <h2 className="text-xl font-black text-gray-800 mb-3">
+              Skills to work on
+            </h2>
+            {report.weakest_skills.length === 0 ? (
+              <p className="text-gray-500">Not enough answers yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {report.weakest_skills.map((skill) => (
+                  <div
+                    key={`${skill.subject}-${skill.topic}-${skill.skill}`}
+                    className="flex items-center justify-between gap-4"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-800">
+                        {getReportSkillName(skill)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {skill.subject} · {skill.observations} answers
+                      </p>
+                    </div>
+                    <span className="font-black text-orange-600">
+                      {skill.mastery}%
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h2 className="flex items-center gap-2 text-xl font-black text-gray-800 mb-3">
+              <ShieldAlert className="w-5 h-5 text-gray-500" />
+              Integrity flags
+            </h2>
+            {integrity.total === 0 ? (
+              <p className="text-gray-500">None this week.</p>
+            ) : (
+              <p className="text-gray-700">
+                {integrity.total} flag{integrity.total === 1 ? "" : "s"} in{" "}
+                {integrity.attempts_flagged} exam
+                {integrity.attempts_flagged === 1 ? "" : "s"}:{" "}
+                {integrity.tab_switches} tab switches (
+                {formatStudyTime(integrity.time_away_seconds)} away),{" "}
+                {integrity.copy_paste} copy/paste, {integrity.other} other.
+              </p>
+            )}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,7 @@ import {
 } from "lucide-react";
 import { ROUTES } from "@/data/constants";
 import { signUp, signInWithGoogle } from "@/lib/auth";
+import { MAX_CHILD_PROFILES } from "@/lib/family";
 import {
   signUpSchema,
   type SignUpFormData,
@@ -28,6 +29,9 @@ export default function RegisterPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [signupSuccess, setSignupSuccess] = useState(false);
   const [serverError, setServerError] = useState<string | null>(null);
+  const [accountType, setAccountType] = useState<
+    "student" | "parent" | "teacher"
+  >("student");
 
   const {
     register,
@@ -58,7 +62,10 @@ export default function RegisterPage() {
       email: data.email,
       password: data.password,
       fullName: data.fullName,
-      yearLevel: data.yearLevel,
+      // Parents add their children's year levels to each child profile;
+      // teachers set one per class
+      yearLevel: accountType === "student" ? data.yearLevel : undefined,
+      accountType,
     });
 
     setIsLoading(false);
@@ -192,6 +199,43 @@ export default function RegisterPage() {
 
         {/* Signup Form */}
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+          {/* Account Type */}
+          <div className="grid grid-cols-3 gap-2 bg-gray-100 rounded-xl p-1">
+            {(
+              [
+                { value: "student", label: "🎒 I'm a student" },
+                { value: "parent", label: "👪 I'm a parent" },
+                { value: "teacher", label: "🍎 I'm a teacher" },
+              ] as const
+            ).map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setAccountType(option.value)}
+                className={`py-2 rounded-lg font-bold text-sm transition-all ${
+                  accountType === option.value
+                    ? "bg-white text-primary-600 shadow"
+                    : "text-gray-500 hover:text-gray-700"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          {accountType === "parent" && (
+            <p className="text-sm text-gray-500 font-medium -mt-2">
+              You'll add up to {MAX_CHILD_PROFILES} children after signing up.
+              They log in with a username and PIN - no email needed.
+            </p>
+          )}
+          {accountType === "teacher" && (
+            <p className="text-sm text-gray-500 font-medium -mt-2">
+              An admin approves teacher accounts before you can create classes.
+              Students join with a class code, or you can invite them from a CSV
+              roster.
+            </p>
+          )}
+
           {/* Full Name */}
           <div>
             <label className="block text-sm font-bold text-gray-700 mb-2">
@@ -237,22 +281,24 @@ export default function RegisterPage() {
           </div>
 
           {/* Year Level */}
-          <div>
-            <label className="block text-sm font-bold text-gray-700 mb-2">
-              Year Level 📚 (Optional)
-            </label>
-            <select
-              {...register("yearLevel", { valueAsNumber: true })}
-              className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 font-semibold transition-all focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
-            >
-              <option value="">Select your year</option>
-              {[2, 3, 4, 5, 6, 7, 8, 9].map((year) => (
-                <option key={year} value={year}>
-                  Year {year}
-                </option>
-              ))}
-            </select>
-          </div>
+          {accountType === "student" && (
+            <div>
+              <label className="block text-sm font-bold text-gray-700 mb-2">
+                Year Level 📚 (Optional)
+              </label>
+              <select
+                {...register("yearLevel", { valueAsNumber: true })}
+                className="w-full px-4 py-3 rounded-xl border-2 border-gray-200 font-semibold transition-all focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+              >
+                <option value="">Select your year</option>
+                {[2, 3, 4, 5, 6, 7, 8, 9].map((year) => (
+                  <option key={year} value={year}>
+                    Year {year}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
 
           {/* Password */}
           <div>
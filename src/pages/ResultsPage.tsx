@@ -23,6 +23,12 @@ import {
 import { useAuthStore } from "@/store";
 import { supabase } from "@/lib/supabase";
 import { ROUTES } from "@/data/constants";
+import {
+  type ScoreScale,
+  estimateScaledResult,
+  fetchScoreScales,
+} from "@/lib/naplanScale";
+import ProficiencyBadge from "@/components/ProficiencyBadge";
 
 // ============================================
 // TYPES
@@ -97,6 +103,9 @@ function normalizeExamData(
 export default function ResultsPage() {
   const { user } = useAuthStore();
   const [attempts, setAttempts] = useState<ExamAttemptWithExam[]>([]);
+  const [scoreScales, setScoreScales] = useState<Map<string, ScoreScale>>(
+    new Map(),
+  );
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -170,6 +179,14 @@ export default function ResultsPage() {
     fetchAttempts();
   }, [user?.id]);
 
+  // NAPLAN score scales for the exams in the history
+  useEffect(() => {
+    const examIds = attempts
+      .filter((a) => a.status === "completed")
+      .map((a) => a.exam_id);
+    fetchScoreScales(examIds).then(setScoreScales);
+  }, [attempts]);
+
   // Calculate stats from real data
   const stats: ResultsStats = useMemo(() => {
     const completed = attempts.filter((a) => a.status === "completed");
@@ -643,6 +660,7 @@ export default function ResultsPage() {
               <ResultCard
                 key={attempt.id}
                 attempt={attempt}
+                scoreScale={scoreScales.get(attempt.exam_id)}
                 index={index}
                 formatTime={formatTime}
                 formatDate={formatDate}
@@ -724,12 +742,14 @@ function EmptyState({
 
 function ResultCard({
   attempt,
+  scoreScale,
   index,
   formatTime,
   formatDate,
   formatSubject,
 }: {
   attempt: ExamAttemptWithExam;
+  scoreScale?: ScoreScale;
   index: number;
   formatTime: (seconds: number) => string;
   formatDate: (dateStr: string) => string;
@@ -737,6 +757,14 @@ function ResultCard({
 }) {
   const percentage = attempt.percentage || 0;
   const isCompleted = attempt.status === "completed";
+  const scaled =
+    isCompleted && scoreScale
+      ? estimateScaledResult(
+          scoreScale,
+          attempt.score || 0,
+          attempt.total_points,
+        )
+      : null;
 
   const getGradeBadge = (pct: number) => {
     if (pct >= 90)
@@ -821,6 +849,7 @@ function ResultCard({
                   >
                     {statusBadge.text}
                   </span>
+                  {scaled && <ProficiencyBadge result={scaled} />}
                   {attempt.flagged && attempt.flagged.length > 0 && (
                     <span className="px-3 py-1 bg-orange-100 text-orange-700 rounded-full font-semibold flex items-center space-x-1">
                       <Star className="w-3 h-3" />
@@ -0,0 +1,350 @@
+// src/pages/ReviewSessionPage.tsx
+// Mistake review session - re-presents the questions due today from the
+// student's review deck one at a time. Each answer is graded on the
+// server, the explanation is shown, and the item is rescheduled.
+// ============================================
+
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  ArrowRight,
+  CalendarClock,
+  CheckCircle,
+  Lightbulb,
+  Loader2,
+  RefreshCw,
+  Trophy,
+  XCircle,
+} from "lucide-react";
+import { useAuthStore } from "@/store";
+import { ROUTES } from "@/data/constants";
+import {
+  answerReviewItem,
+  fetchReviewSession,
+  formatReviewInterval,
+  type ReviewItem,
+  type ReviewOutcome,
+} from "@/lib/reviewQueue";
+import { getMatchTargets, toContentBlocks } from "@/lib/questionContent";
+import {
+  formatCorrectAnswer,
+  normalizeQuestionType,
+  numberBlanks,
+  QUESTION_TYPE_LABELS,
+} from "@/lib/questionAnswers";
+import { QuestionContentRenderer } from "@/components/exam/QuestionContentRenderer";
+import { StimulusPanel } from "@/components/exam/StimulusPanel";
+import {
+  BlankInput,
+  QuestionAnswerInput,
+} from "@/components/exam/QuestionAnswerInput";
+import type { Stimulus } from "@/types/question";
+
+export default function ReviewSessionPage() {
+  const { user } = useAuthStore();
+
+  const [items, setItems] = useState<ReviewItem[]>([]);
+  const [stimuli, setStimuli] = useState<Record<string, Stimulus>>({});
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answer, setAnswer] = useState("");
+  const [outcome, setOutcome] = useState<ReviewOutcome | null>(null);
+  const [correctCount, setCorrectCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isChecking, setIsChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSession = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const session = await fetchReviewSession();
+    setItems(session.items);
+    setStimuli(session.stimuli);
+    setCurrentIndex(0);
+    setAnswer("");
+    setOutcome(null);
+    setCorrectCount(0);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) {
+      setIsLoading(false);
+      return;
+    }
+    loadSession();
+  }, [user?.id, loadSession]);
+
+  const currentItem = items[currentIndex];
+  const isFinished = items.length > 0 && currentIndex >= items.length;
+
+  const handleCheck = async () => {
+    if (!currentItem || outcome) return;
+
+    setIsChecking(true);
+    setError(null);
+    const result = await answerReviewItem(currentItem.id, answer);
+    setIsChecking(false);
+
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+    setOutcome(result);
+    if (result.isCorrect) setCorrectCount((count) => count + 1);
+  };
+
+  const handleNext = () => {
+    setCurrentIndex((index) => index + 1);
+    setAnswer("");
+    setOutcome(null);
+    setError(null);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  // Nothing due, or the session is done
+  if (!currentItem) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl shadow-xl p-8 max-w-md w-full text-center">
+          <Trophy className="w-14 h-14 text-yellow-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-black text-gray-800 mb-2">
+            {isFinished ? "Review complete!" : "Nothing to review today"}
+          </h1>
+          <p className="text-gray-600 mb-6">
+            {isFinished
+              ? `You got ${correctCount} of ${items.length} right. Each question will come back when it's due again.`
+              : "Questions you get wrong in exams appear here, spaced out so they stick."}
+          </p>
+          <div className="flex flex-col gap-3">
+            {isFinished && (
+              <button
+                onClick={loadSession}
+                className="flex items-center justify-center gap-2 px-6 py-3 border-2 border-indigo-200 text-indigo-600 rounded-xl font-semibold hover:bg-indigo-50"
+              >
+                <RefreshCw className="w-5 h-5" />
+                Check for more
+              </button>
+            )}
+            <Link
+              to={ROUTES.DASHBOARD}
+              className="inline-block px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+            >
+              Back to Dashboard
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const question = currentItem.question;
+  const questionType = normalizeQuestionType(question.question_type);
+  const contentBlocks = toContentBlocks(question.content);
+  const stimulus = question.stimulus_id
+    ? stimuli[question.stimulus_id]
+    : undefined;
+  const explanationBlocks = outcome
+    ? toContentBlocks(outcome.answerExplanation)
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 py-8">
+      <div className="container-custom space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex items-center justify-between"
+        >
+          <div className="flex items-center gap-3">
+            <CalendarClock className="w-10 h-10 text-indigo-600" />
+            <h1 className="text-4xl font-black text-gray-800">Review</h1>
+          </div>
+          <span className="text-gray-600 font-semibold">
+            {currentIndex + 1} of {items.length}
+          </span>
+        </motion.div>
+
+        <div className="w-full bg-white rounded-full h-2 overflow-hidden">
+          <div
+            className="bg-indigo-500 h-2 transition-all"
+            style={{ width: `${(currentIndex / items.length) * 100}%` }}
+          />
+        </div>
+
+        <div className="flex gap-4 items-start">
+          {stimulus && (
+            <StimulusPanel
+              key={stimulus.id}
+              stimulus={stimulus}
+              className="w-1/2 max-h-[70vh]"
+            />
+          )}
+
+          <motion.div
+            key={currentItem.id}
+            initial={{ opacity: 0, x: 20 }}
+            animate={{ opacity: 1, x: 0 }}
+            className="flex-1 min-w-0 bg-white rounded-2xl shadow-lg p-6 space-y-5"
+          >
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <span className="bg-indigo-100 text-indigo-700 px-2.5 py-1 rounded-full font-bold">
+                {QUESTION_TYPE_LABELS[questionType]}
+              </span>
+              {question.topic && <span>{question.topic}</span>}
+              {currentItem.lapses > 0 && (
+                <span className="text-orange-600">
+                  Missed {currentItem.lapses}{" "}
+                  {currentItem.lapses === 1 ? "time" : "times"} in review
+                </span>
+              )}
+            </div>
+
+            {contentBlocks.length > 0 ? (
+              <QuestionContentRenderer
+                blocks={contentBlocks}
+                renderBlank={
+                  questionType === "fill-in-blank"
+                    ? (blankId) => (
+                        <BlankInput
+                          blankId={blankId}
+                          value={answer}
+                          onChange={outcome ? () => {} : setAnswer}
+                        />
+                      )
+                    : undefined
+                }
+              />
+            ) : (
+              <div
+                className="prose prose-lg max-w-none question-content"
+                dangerouslySetInnerHTML={{
+                  __html:
+                    questionType === "fill-in-blank"
+                      ? numberBlanks(question.question_text)
+                      : question.question_text,
+                }}
+              />
+            )}
+
+            {/* Locked once checked - the schedule is already updated */}
+            <div className={outcome ? "pointer-events-none opacity-75" : ""}>
+              <QuestionAnswerInput
+                question={question}
+                value={answer}
+                onChange={setAnswer}
+              />
+            </div>
+
+            {error && (
+              <p className="text-sm text-red-600 font-medium">{error}</p>
+            )}
+
+            {outcome && (
+              <motion.div
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="space-y-3"
+              >
+                <div
+                  className={`flex items-start gap-3 rounded-lg p-4 border ${
+                    outcome.isCorrect
+                      ? "bg-green-50 border-green-200"
+                      : "bg-red-50 border-red-200"
+                  }`}
+                >
+                  {outcome.isCorrect ? (
+                    <CheckCircle className="w-6 h-6 text-green-600 shrink-0" />
+                  ) : (
+                    <XCircle className="w-6 h-6 text-red-600 shrink-0" />
+                  )}
+                  <div>
+                    <p
+                      className={`font-bold ${outcome.isCorrect ? "text-green-800" : "text-red-800"}`}
+                    >
+                      {outcome.isCorrect
+                        ? "Correct!"
+                        : outcome.credit > 0
+                          ? "Partly right"
+                          : "Not quite"}
+                    </p>
+                    {!outcome.isCorrect && !outcome.answerReleased && (
+                      <p className="text-sm text-gray-700">
+                        You'll see the answer once you've sat the exam this
+                        question comes from.
+                      </p>
+                    )}
+                    {!outcome.isCorrect && outcome.answerReleased && (
+                      <p className="text-sm text-gray-700">
+                        Correct answer:{" "}
+                        <span className="font-medium text-green-700">
+                          {formatCorrectAnswer({
+                            question_type: question.question_type,
+                            correct_answer: outcome.correctAnswer,
+                            blanks: outcome.blanks,
+                            match_targets: getMatchTargets(question),
+                          })}
+                        </span>
+                      </p>
+                    )}
+                    <p className="text-sm text-gray-500 mt-1">
+                      Next review {formatReviewInterval(outcome.intervalDays)}
+                    </p>
+                  </div>
+                </div>
+
+                {explanationBlocks.length > 0 ? (
+                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                    <p className="text-sm font-medium text-blue-800 mb-2 flex items-center gap-2">
+                      <Lightbulb className="w-4 h-4" /> Explanation
+                    </p>
+                    <QuestionContentRenderer blocks={explanationBlocks} />
+                  </div>
+                ) : (
+                  outcome.explanation && (
+                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                      <p className="text-sm font-medium text-blue-800 mb-1 flex items-center gap-2">
+                        <Lightbulb className="w-4 h-4" /> Explanation
+                      </p>
+                      <p className="text-sm text-blue-700">
+                        {outcome.explanation}
+                      </p>
+                    </div>
+                  )
+                )}
+              </motion.div>
+            )}
+
+            <div className="flex justify-end pt-2 border-t">
+              {outcome ? (
+                <button
+                  onClick={handleNext}
+                  className="flex items-center gap-2 px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+                >
+                  {currentIndex + 1 < items.length ? "Next" : "Finish"}
+                  <ArrowRight className="w-5 h-5" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleCheck}
+                  disabled={isChecking}
+                  className="flex items-center gap-2 px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+                >
+                  {isChecking && <Loader2 className="w-5 h-5 animate-spin" />}
+                  {answer ? "Check answer" : "I don't know"}
+                </button>
+              )}
+            </div>
+          </motion.div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,420 @@
+// src/pages/StudyPlanPage.tsx
+// Premium study plan - pick a test date and how many sessions a week, and
+// get a week-by-week plan of practice sets, review sessions and mock
+// exams built from the student's skill mastery. Items tick off as the
+// matching attempts complete; a plan that falls behind is re-planned.
+// ============================================
+
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  AlertCircle,
+  BookOpen,
+  CalendarDays,
+  CalendarClock,
+  CheckCircle,
+  Circle,
+  Crown,
+  FileText,
+  Loader2,
+  RefreshCw,
+  Sparkles,
+} from "lucide-react";
+import { useAuthStore } from "@/store";
+import { ROUTES, YEAR_LEVELS } from "@/data/constants";
+import { formatDate } from "@/utils/helpers";
+import { getExamStartRoute, getPracticeBuilderRoute } from "@/utils/routes";
+import { checkPremiumAccess } from "@/lib/subscription";
+import {
+  STUDY_PLAN_KIND_LABELS,
+  STUDY_PLAN_SESSION_LIMITS,
+  addDays,
+  buildStudyPlan,
+  daysBetween,
+  fetchActiveStudyPlan,
+  fetchPlanInputs,
+  getOverdueItems,
+  replanStudyPlan,
+  saveStudyPlan,
+  toDateString,
+  type StudyPlan,
+  type StudyPlanItem,
+  type StudyPlanItemKind,
+} from "@/lib/studyPlan";
+
+const KIND_ICONS: Record<StudyPlanItemKind, JSX.Element> = {
+  practice: <BookOpen className="w-5 h-5" />,
+  review: <RefreshCw className="w-5 h-5" />,
+  mock: <FileText className="w-5 h-5" />,
+};
+
+function getItemLink(item: StudyPlanItem): string {
+  switch (item.kind) {
+    case "practice":
+      return item.subject
+        ? getPracticeBuilderRoute(item.subject, item.topic)
+        : ROUTES.PRACTICE_BUILDER;
+    case "review":
+      return ROUTES.REVIEW;
+    case "mock":
+      return item.exam_id ? getExamStartRoute(item.exam_id) : ROUTES.EXAMS;
+  }
+}
+
+export default function StudyPlanPage() {
+  const { user, profile } = useAuthStore();
+
+  const [isPremium, setIsPremium] = useState(false);
+  const [plan, setPlan] = useState<StudyPlan | null>(null);
+  const [items, setItems] = useState<StudyPlanItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [replanNotice, setReplanNotice] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = toDateString(new Date());
+
+  // New plan choices
+  const [targetDate, setTargetDate] = useState(addDays(today, 56));
+  const [yearLevel, setYearLevel] = useState<number | null>(
+    profile?.year_level ?? null,
+  );
+  const [sessionsPerWeek, setSessionsPerWeek] = useState(3);
+
+  const loadPlan = useCallback(async () => {
+    if (!user) return;
+    const current = await fetchActiveStudyPlan(user.id);
+
+    // Behind schedule - rebuild the open items from today
+    if (
+      current &&
+      daysBetween(today, current.plan.target_date) > 0 &&
+      getOverdueItems(current.items, today).length > 0
+    ) {
+      const result = await replanStudyPlan(
+        user.id,
+        current.plan,
+        current.items,
+      );
+      if ("error" in result) {
+        setError(result.error);
+      } else {
+        setReplanNotice(true);
+        const replanned = await fetchActiveStudyPlan(user.id);
+        setPlan(replanned?.plan ?? null);
+        setItems(replanned?.items ?? []);
+        return;
+      }
+    }
+
+    setPlan(current?.plan ?? null);
+    setItems(current?.items ?? []);
+  }, [user, today]);
+
+  useEffect(() => {
+    if (!user) return;
+    setIsLoading(true);
+    checkPremiumAccess(user.id).then(async (premium) => {
+      setIsPremium(premium);
+      if (premium) await loadPlan();
+      setIsLoading(false);
+    });
+  }, [user, loadPlan]);
+
+  useEffect(() => {
+    if (profile?.year_level && yearLevel === null) {
+      setYearLevel(profile.year_level);
+    }
+  }, [profile?.year_level, yearLevel]);
+
+  const handleCreate = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    setError(null);
+
+    const options = { targetDate, yearLevel, sessionsPerWeek };
+    const { topics, mockExams } = await fetchPlanInputs(user.id, yearLevel);
+    const planned = buildStudyPlan(options, topics, mockExams, today);
+    if (planned.length === 0) {
+      setError("Choose a test date after today");
+      setIsSaving(false);
+      return;
+    }
+
+    const result = await saveStudyPlan(null, options, planned);
+    if ("error" in result) {
+      setError(result.error);
+      setIsSaving(false);
+      return;
+    }
+
+    setReplanNotice(false);
+    setShowForm(false);
+    await loadPlan();
+    setIsSaving(false);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-12 h-12 text-indigo-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isPremium) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 flex items-center justify-center p-4">
+        <div className="bg-white rounded-3xl shadow-xl p-8 max-w-md w-full text-center">
+          <Crown className="w-14 h-14 text-yellow-500 mx-auto mb-4" />
+          <h1 className="text-2xl font-black text-gray-800 mb-2">
+            Get a personalised study plan
+          </h1>
+          <p className="text-gray-600 mb-6">
+            Premium members get a week-by-week plan to their test date, built
+            around the topics they need most.
+          </p>
+          <Link
+            to={ROUTES.PRICING}
+            className="inline-block px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600"
+          >
+            Upgrade to Premium
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const planFinished = !!plan && daysBetween(today, plan.target_date) <= 0;
+  const completedCount = items.filter((item) => item.completed_at).length;
+  const weeks = [...new Set(items.map((item) => item.week_number))].sort(
+    (a, b) => a - b,
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-purple-50 to-pink-50 py-8">
+      <div className="container-custom space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-wrap items-end justify-between gap-4"
+        >
+          <div>
+            <div className="flex items-center gap-3 mb-2">
+              <CalendarDays className="w-10 h-10 text-indigo-600" />
+              <h1 className="text-4xl font-black text-gray-800">Study Plan</h1>
+            </div>
+            <p className="text-gray-600 font-medium">
+              {plan
+                ? `Test day ${formatDate(plan.target_date)} · ${Math.max(0, daysBetween(today, plan.target_date))} days to go`
+                : "A week-by-week plan to your test date."}
+            </p>
+          </div>
+          {plan && !showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="px-4 py-2 border-2 border-indigo-200 text-indigo-600 rounded-xl font-semibold hover:bg-indigo-50"
+            >
+              Start a new plan
+            </button>
+          )}
+        </motion.div>
+
+        {error && (
+          <div className="flex items-center gap-2 p-4 bg-red-50 border border-red-200 rounded-xl text-red-700">
+            <AlertCircle className="w-5 h-5 shrink-0" />
+            {error}
+          </div>
+        )}
+
+        {replanNotice && (
+          <div className="flex items-center gap-2 p-4 bg-yellow-50 border border-yellow-200 rounded-xl text-yellow-800">
+            <CalendarClock className="w-5 h-5 shrink-0" />
+            Some sessions slipped past their week, so we've re-planned the weeks
+            ahead. Everything you've done is kept.
+          </div>
+        )}
+
+        {(!plan || showForm || planFinished) && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 space-y-5 max-w-2xl">
+            <h2 className="text-xl font-black text-gray-800">
+              {planFinished
+                ? "Test day has passed - plan the next one"
+                : "Plan your study"}
+            </h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className="block">
+                <span className="font-semibold text-gray-800">Test date</span>
+                <input
+                  type="date"
+                  value={targetDate}
+                  min={addDays(today, 1)}
+                  onChange={(e) => setTargetDate(e.target.value)}
+                  className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none"
+                />
+              </label>
+              <label className="block">
+                <span className="font-semibold text-gray-800">Year level</span>
+                <select
+                  value={yearLevel ?? ""}
+                  onChange={(e) =>
+                    setYearLevel(
+                      e.target.value === "" ? null : Number(e.target.value),
+                    )
+                  }
+                  className="mt-1 w-full px-4 py-2 rounded-xl border-2 border-gray-200 focus:border-indigo-400 focus:outline-none bg-white"
+                >
+                  <option value="">Any year</option>
+                  {YEAR_LEVELS.map((level) => (
+                    <option key={level.value} value={level.value}>
+                      {level.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <label className="block">
+              <span className="font-semibold text-gray-800">
+                Sessions a week: {sessionsPerWeek}
+              </span>
+              <input
+                type="range"
+                min={STUDY_PLAN_SESSION_LIMITS.min}
+                max={STUDY_PLAN_SESSION_LIMITS.max}
+                value={sessionsPerWeek}
+                onChange={(e) => setSessionsPerWeek(Number(e.target.value))}
+                className="mt-2 w-full accent-indigo-500"
+              />
+            </label>
+            <div className="flex items-center justify-end gap-3 pt-4 border-t">
+              {plan && showForm && (
+                <button
+                  onClick={() => setShowForm(false)}
+                  className="px-4 py-2 text-gray-600 font-semibold"
+                >
+                  Cancel
+                </button>
+              )}
+              <button
+                onClick={handleCreate}
+                disabled={isSaving || !targetDate}
+                className="flex items-center gap-2 px-6 py-3 bg-indigo-500 text-white rounded-xl font-semibold hover:bg-indigo-600 disabled:opacity-50"
+              >
+                {isSaving ? (
+                  <Loader2 className="w-5 h-5 animate-spin" />
+                ) : (
+                  <Sparkles className="w-5 h-5" />
+                )}
+                Build my plan
+              </button>
+            </div>
+          </div>
+        )}
+
+        {plan && items.length > 0 && (
+          <>
+            <div className="bg-white rounded-2xl shadow-lg p-6">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-semibold text-gray-800">
+                  {completedCount} of {items.length} done
+                </span>
+                <span className="text-sm text-gray-500">
+                  {Math.round((completedCount / items.length) * 100)}%
+                </span>
+              </div>
+              <div className="w-full bg-gray-100 rounded-full h-3 overflow-hidden">
+                <div
+                  className="bg-gradient-to-r from-indigo-500 to-purple-500 h-3 transition-all"
+                  style={{
+                    width: `${(completedCount / items.length) * 100}%`,
+                  }}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {weeks.map((week) => {
+                const weekItems = items.filter(
+                  (item) => item.week_number === week,
+                );
+                const weekStart = weekItems.reduce(
+                  (first, item) =>
+                    item.week_start < first ? item.week_start : first,
+                  weekItems[0].week_start,
+                );
+                const isCurrent =
+                  daysBetween(weekStart, today) >= 0 &&
+                  weekItems.some(
+                    (item) => daysBetween(today, item.due_date) >= 0,
+                  );
+                return (
+                  <div
+                    key={week}
+                    className={`bg-white rounded-2xl shadow-lg p-6 ${isCurrent ? "ring-4 ring-indigo-200" : ""}`}
+                  >
+                    <div className="flex items-center justify-between mb-4">
+                      <h2 className="text-xl font-black text-gray-800">
+                        Week {week}
+                        {isCurrent && (
+                          <span className="ml-2 text-sm font-semibold text-indigo-600">
+                            This week
+                          </span>
+                        )}
+                      </h2>
+                      <span className="text-sm text-gray-500">
+                        From {formatDate(weekStart)}
+                      </span>
+                    </div>
+                    <div className="divide-y">
+                      {weekItems.map((item) => (
+                        <div
+                          key={item.id}
+                          className="flex items-center gap-4 py-3"
+                        >
+                          {item.completed_at ? (
+                            <CheckCircle className="w-6 h-6 text-green-500 shrink-0" />
+                          ) : (
+                            <Circle className="w-6 h-6 text-gray-300 shrink-0" />
+                          )}
+                          <div className="p-2 rounded-lg bg-indigo-50 text-indigo-600">
+                            {KIND_ICONS[item.kind]}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p
+                              className={`font-semibold truncate ${item.completed_at ? "text-gray-400 line-through" : "text-gray-800"}`}
+                            >
+                              {item.title}
+                            </p>
+                            <p className="text-sm text-gray-500">
+                              {STUDY_PLAN_KIND_LABELS[item.kind]}
+                              {item.target_count &&
+                                ` · ${item.target_count} ${item.kind === "review" ? "reviews" : "questions"}`}
+                              {" · "}
+                              {item.completed_at
+                                ? `Done ${formatDate(item.completed_at)}`
+                                : `By ${formatDate(item.due_date)}`}
+                            </p>
+                          </div>
+                          {!item.completed_at && (
+                            <Link
+                              to={getItemLink(item)}
+                              className="px-4 py-2 bg-indigo-500 text-white rounded-xl text-sm font-semibold hover:bg-indigo-600"
+                            >
+                              Start
+                            </Link>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
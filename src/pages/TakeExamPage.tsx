@@ -2,7 +2,7 @@
 // Fixed version with anti-cheating, accessibility, and proper TypeScript types
 // ============================================
 
-import { useState, useEffect, useCallback, useRef } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -17,19 +17,79 @@ import {
   Save,
   Accessibility,
   Shield,
+  Pause,
+  Play,
+  Lightbulb,
+  ArrowRightCircle,
 } from "lucide-react";
 import { supabase } from "../lib/supabase";
+import {
+  PLAYER_QUESTION_COLUMNS,
+  submitAttemptForGrading,
+} from "../lib/grading";
+import {
+  type AttemptClock,
+  fetchAttemptClock,
+  getRemainingSeconds,
+  isDeadlineError,
+  pauseAttempt,
+  resumeAttempt,
+} from "../lib/examTimer";
+import { getQuestionOptions, toContentBlocks } from "../lib/questionContent";
+import { validateQuestionRows } from "../lib/questionSchemas";
+import {
+  normalizeQuestionType,
+  numberBlanks,
+  QUESTION_TYPE_LABELS,
+} from "../lib/questionAnswers";
+import {
+  fetchExamStimuli,
+  formatQuestionRange,
+  getLinkedQuestionNumbers,
+} from "../lib/stimuli";
+import { fetchDictationPrompts } from "../lib/spelling";
+import { advanceTestlet, fetchExamTestlets } from "../lib/testlets";
+import { QuestionContentRenderer } from "../components/exam/QuestionContentRenderer";
+import { StimulusPanel } from "../components/exam/StimulusPanel";
+import {
+  BlankInput,
+  QuestionAnswerInput,
+} from "../components/exam/QuestionAnswerInput";
+import {
+  type ViolationPolicy,
+  type ViolationType,
+  endViolation,
+  fetchViolations,
+  recordViolation,
+  summarizeViolations,
+} from "../lib/integrity";
+import {
+  type QuestionActivityMap,
+  recordAnswerChange,
+  recordTimeSpent,
+  recordVisit,
+} from "../lib/questionActivity";
 import { useAuthStore } from "../store/authstore";
+import type { Stimulus, Testlet } from "../types/question";
 
 interface Question {
   id: string;
   question_text: string;
   question_type: string;
   options: string[] | { id: string; text: string }[] | null;
-  correct_answer: string;
   points: number;
   question_number?: number;
   order_index?: number;
+  // Rich content (migration 004) - legacy rows only have question_text
+  content?: unknown;
+  options_data?: unknown;
+  match_targets?: unknown;
+  hint?: string | null;
+  hint_content?: unknown;
+  stimulus_id?: string | null;
+  audio_path?: string | null;
+  dictation_text?: string | null;
+  testlet_id?: string | null;
 }
 
 interface Exam {
@@ -39,6 +99,10 @@ interface Exam {
   exam_type: string;
   duration_minutes: number;
   total_marks: number;
+  allow_pause?: boolean;
+  violation_policy?: ViolationPolicy;
+  max_tab_switches?: number;
+  is_adaptive?: boolean;
 }
 
 interface ExamAttempt {
@@ -47,37 +111,41 @@ interface ExamAttempt {
   user_id: string;
   answers: Record<string, string> | null;
   flagged: string[] | null;
+  question_activity?: QuestionActivityMap | null;
+  testlet_path?: string[] | null;
   time_remaining?: number;
   score?: number;
   status?: string;
 }
 
-interface ViolationLog {
-  type: string;
-  timestamp: string;
-}
-
 export default function TakeExamPage() {
   const { examId, attemptId } = useParams();
   const navigate = useNavigate();
   const { user } = useAuthStore();
 
   // Core state
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [examQuestions, setExamQuestions] = useState<Question[]>([]);
+  const [stimuli, setStimuli] = useState<Record<string, Stimulus>>({});
   const [currentIndex, setCurrentIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<string, string>>({});
   const [flagged, setFlagged] = useState<Set<string>>(new Set());
   const [timeRemaining, setTimeRemaining] = useState(3000);
   const [loading, setLoading] = useState(true);
   const [examTitle, setExamTitle] = useState("");
-  const [examDuration, setExamDuration] = useState(50);
+  const [allowPause, setAllowPause] = useState(false);
+  const [clock, setClock] = useState<AttemptClock | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [showSubmitModal, setShowSubmitModal] = useState(false);
-  const [shortAnswer, setShortAnswer] = useState("");
+  const [showHint, setShowHint] = useState(false);
+
+  // Adaptive exams - the testlets taken so far, the last one is current
+  const [testlets, setTestlets] = useState<Testlet[]>([]);
+  const [testletPath, setTestletPath] = useState<string[]>([]);
+  const [advancing, setAdvancing] = useState(false);
 
   // Anti-cheating state
   const [tabSwitchCount, setTabSwitchCount] = useState(0);
-  const [violations, setViolations] = useState<ViolationLog[]>([]);
+  const [tabSwitchLimit, setTabSwitchLimit] = useState<number | null>(null);
   const [showWarning, setShowWarning] = useState(false);
   const [warningMessage, setWarningMessage] = useState("");
 
@@ -87,6 +155,16 @@ export default function TakeExamPage() {
   );
   const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const hasLoadedRef = useRef(false);
+  const timeUpRef = useRef(false);
+  const handleSubmitRef = useRef<() => void>(() => {});
+  const awayViolationRef = useRef<string | null>(null);
+  const currentQuestionIdRef = useRef<string | undefined>(undefined);
+  // Passage scroll positions, kept while moving between linked questions
+  const stimulusScrollRef = useRef<Record<string, number>>({});
+
+  // Per-question activity - kept in refs so time tracking doesn't re-render
+  const activityRef = useRef<QuestionActivityMap>({});
+  const dwellRef = useRef<{ questionId: string; since: number } | null>(null);
 
   // Accessibility state
   const [accessibilityMode, setAccessibilityMode] = useState(false);
@@ -96,35 +174,89 @@ export default function TakeExamPage() {
   const [highContrast, setHighContrast] = useState(false);
   const [showAccessibilityPanel, setShowAccessibilityPanel] = useState(false);
 
+  // An adaptive exam shows one testlet (section) at a time
+  const isAdaptive = testletPath.length > 0;
+  const currentTestletId = testletPath[testletPath.length - 1];
+  const currentTestlet = testlets.find((t) => t.id === currentTestletId);
+  const hasNextSection = !!currentTestlet && currentTestlet.routing.length > 0;
+  const questions = useMemo(
+    () =>
+      isAdaptive
+        ? examQuestions.filter((q) => q.testlet_id === currentTestletId)
+        : examQuestions,
+    [examQuestions, isAdaptive, currentTestletId],
+  );
+  // Question numbers carry on from the finished sections
+  const numberOffset = useMemo(
+    () =>
+      examQuestions.filter(
+        (q) => q.testlet_id && testletPath.slice(0, -1).includes(q.testlet_id),
+      ).length,
+    [examQuestions, testletPath],
+  );
+
   const currentQuestion = questions[currentIndex];
   const totalQuestions = questions.length;
-  const answeredCount = Object.keys(answers).length;
+  const answeredCount = questions.filter((q) => answers[q.id]).length;
+  currentQuestionIdRef.current = currentQuestion?.id;
+  const isPaused = !!clock?.paused_at;
 
   // ============================================
   // ANTI-CHEATING MEASURES
   // ============================================
 
-  const logViolation = useCallback((type: string) => {
-    setViolations((prev) => [
-      ...prev,
-      { type, timestamp: new Date().toISOString() },
-    ]);
-    if (type === "tab_switch") setTabSwitchCount((prev) => prev + 1);
-
-    const messages: Record<string, string> = {
-      tab_switch: "⚠️ Tab switch detected!",
-      copy: "⚠️ Copying not allowed.",
-      paste: "⚠️ Pasting not allowed.",
-      right_click: "⚠️ Right-click disabled.",
-    };
-    setWarningMessage(messages[type] || "⚠️ Activity detected.");
-    setShowWarning(true);
-    setTimeout(() => setShowWarning(false), 3000);
-  }, []);
+  const logViolation = useCallback(
+    (type: ViolationType) => {
+      if (type === "tab_switch") setTabSwitchCount((prev) => prev + 1);
+
+      const messages: Record<string, string> = {
+        tab_switch: "⚠️ Tab switch detected!",
+        copy: "⚠️ Copying not allowed.",
+        paste: "⚠️ Pasting not allowed.",
+        right_click: "⚠️ Right-click disabled.",
+      };
+      setWarningMessage(messages[type] || "⚠️ Activity detected.");
+      setShowWarning(true);
+      setTimeout(() => setShowWarning(false), 3000);
+
+      if (!attemptId) return;
+
+      // Appended live so the log survives a device change; the server
+      // applies the exam's policy and may submit the attempt
+      recordViolation(attemptId, type, currentQuestionIdRef.current).then(
+        (result) => {
+          if (!result) return;
+          setTabSwitchCount(result.tab_switches);
+          if (type === "tab_switch") {
+            awayViolationRef.current = result.violation_id;
+          }
+
+          if (result.action === "auto_submitted") {
+            timeUpRef.current = true;
+            navigate(`/exam/${examId}/results/${attemptId}`, {
+              replace: true,
+            });
+          } else if (result.policy === "auto_submit" && type === "tab_switch") {
+            const left = result.max_tab_switches - result.tab_switches;
+            setWarningMessage(
+              `⚠️ Tab switch detected! The exam will be submitted after ${left} more.`,
+            );
+          }
+        },
+      );
+    },
+    [attemptId, examId, navigate],
+  );
 
   useEffect(() => {
     const handler = () => {
-      if (document.hidden) logViolation("tab_switch");
+      if (document.hidden) {
+        logViolation("tab_switch");
+      } else if (awayViolationRef.current) {
+        // Back on the exam - close the switch so time away is recorded
+        endViolation(awayViolationRef.current);
+        awayViolationRef.current = null;
+      }
     };
     document.addEventListener("visibilitychange", handler);
     return () => document.removeEventListener("visibilitychange", handler);
@@ -145,7 +277,13 @@ export default function TakeExamPage() {
               : "other",
         );
       }
-      if (accessibilityMode) {
+      // Arrow and number keys belong to the field being typed in
+      const target = e.target as HTMLElement | null;
+      const isTyping =
+        !!target &&
+        (target.isContentEditable ||
+          ["INPUT", "TEXTAREA"].includes(target.tagName));
+      if (accessibilityMode && !isTyping) {
         if (e.key === "ArrowRight" && currentIndex < totalQuestions - 1)
           setCurrentIndex((p) => p + 1);
         else if (e.key === "ArrowLeft" && currentIndex > 0)
@@ -153,9 +291,13 @@ export default function TakeExamPage() {
         else if (
           e.key >= "1" &&
           e.key <= "4" &&
-          currentQuestion?.question_type === "multiple_choice"
+          currentQuestion &&
+          normalizeQuestionType(currentQuestion.question_type) ===
+            "multiple-choice"
         ) {
-          handleAnswerSelect(["A", "B", "C", "D"][parseInt(e.key) - 1]);
+          const option =
+            getQuestionOptions(currentQuestion)[parseInt(e.key) - 1];
+          if (option) handleAnswerChange(option.id);
         }
       }
     };
@@ -195,33 +337,70 @@ export default function TakeExamPage() {
     };
   }, [logViolation]);
 
+  // ============================================
+  // QUESTION ACTIVITY (time per question, visits)
+  // ============================================
+
+  // Adds the time since the current question was opened to its total
+  const flushDwell = useCallback(() => {
+    const dwell = dwellRef.current;
+    if (!dwell) return;
+    const now = Date.now();
+    activityRef.current = recordTimeSpent(
+      activityRef.current,
+      dwell.questionId,
+      (now - dwell.since) / 1000,
+    );
+    dwell.since = now;
+  }, []);
+
+  useEffect(() => {
+    if (loading || !currentQuestion) return;
+    activityRef.current = recordVisit(activityRef.current, currentQuestion.id);
+  }, [loading, currentQuestion?.id]);
+
+  // The clock doesn't run on a question while the exam is paused
+  useEffect(() => {
+    flushDwell();
+    dwellRef.current =
+      !loading && currentQuestion && !isPaused
+        ? { questionId: currentQuestion.id, since: Date.now() }
+        : null;
+  }, [loading, currentQuestion?.id, isPaused, flushDwell]);
+
   // ============================================
   // AUTO-SAVE
   // ============================================
 
-  const saveProgress = useCallback(async () => {
-    if (!attemptId || !hasLoadedRef.current) return;
+  const saveProgress = useCallback(async (): Promise<boolean> => {
+    if (!attemptId || !hasLoadedRef.current) return false;
     setSaveStatus("saving");
+    flushDwell();
     try {
       const { error } = await supabase
         .from("exam_attempts")
         .update({
           answers: answers,
           flagged: Array.from(flagged),
+          question_activity: activityRef.current,
         } as never)
         .eq("id", attemptId!);
 
       if (error) {
         console.error("Save error:", error);
         setSaveStatus("error");
-      } else {
-        setSaveStatus("saved");
+        // The server closed the attempt - hand in what was saved
+        if (isDeadlineError(error)) handleSubmitRef.current();
+        return false;
       }
+      setSaveStatus("saved");
+      return true;
     } catch (error) {
       console.error("Save exception:", error);
       setSaveStatus("error");
+      return false;
     }
-  }, [attemptId, answers, flagged]);
+  }, [attemptId, answers, flagged, flushDwell]);
 
   useEffect(() => {
     if (!hasLoadedRef.current) return;
@@ -255,13 +434,17 @@ export default function TakeExamPage() {
         const exam = examData as Exam;
         if (exam) {
           setExamTitle(exam.title);
-          setExamDuration(exam.duration_minutes);
-          setTimeRemaining(exam.duration_minutes * 60);
+          setAllowPause(!!exam.allow_pause);
+          setTabSwitchLimit(
+            exam.violation_policy === "auto_submit"
+              ? (exam.max_tab_switches ?? null)
+              : null,
+          );
         }
 
         const { data: questionsData, error: questionsError } = await supabase
           .from("questions")
-          .select("*")
+          .select(PLAYER_QUESTION_COLUMNS)
           .eq("exam_id", examId)
           .order("question_number");
 
@@ -270,7 +453,27 @@ export default function TakeExamPage() {
           return;
         }
 
-        setQuestions((questionsData as Question[]) || []);
+        let loadedQuestions = validateQuestionRows(
+          (questionsData as unknown as Question[]) || [],
+          `exam ${examId}`,
+        );
+        // Spelling prompts say the word, so they come from the server only
+        // while the attempt is running
+        if (
+          loadedQuestions.some(
+            (q) => normalizeQuestionType(q.question_type) === "dictation",
+          )
+        ) {
+          const prompts = await fetchDictationPrompts(attemptId);
+          loadedQuestions = loadedQuestions.map((q) => ({
+            ...q,
+            dictation_text: prompts[q.id] ?? null,
+          }));
+        }
+        setExamQuestions(loadedQuestions);
+        if (loadedQuestions.some((q) => q.stimulus_id)) {
+          setStimuli(await fetchExamStimuli(examId));
+        }
 
         const { data: attemptData, error: attemptError } = await supabase
           .from("exam_attempts")
@@ -290,8 +493,32 @@ export default function TakeExamPage() {
           if (attempt.flagged && Array.isArray(attempt.flagged)) {
             setFlagged(new Set(attempt.flagged));
           }
+          if (attempt.question_activity) {
+            activityRef.current = attempt.question_activity;
+          }
+          // Attempts started before the exam became adaptive have no path
+          // and show every question
+          if (exam?.is_adaptive && attempt.testlet_path?.length) {
+            setTestlets(await fetchExamTestlets(examId));
+            setTestletPath(attempt.testlet_path);
+          }
         }
 
+        // The deadline is kept on the server, so reloading resumes the clock
+        const attemptClock = await fetchAttemptClock(attemptId);
+        if (attemptClock && attemptClock.status !== "in_progress") {
+          navigate(`/exam/${examId}/results/${attemptId}`, { replace: true });
+          return;
+        }
+        if (attemptClock) {
+          setClock(attemptClock);
+          setTimeRemaining(getRemainingSeconds(attemptClock));
+        }
+
+        // Carry earlier tab switches over a reload
+        const priorViolations = await fetchViolations(attemptId);
+        setTabSwitchCount(summarizeViolations(priorViolations).tabSwitches);
+
         hasLoadedRef.current = true;
       } catch (error) {
         console.error("Fetch error:", error);
@@ -301,27 +528,26 @@ export default function TakeExamPage() {
     };
 
     fetchExamData();
-  }, [examId, attemptId]);
+  }, [examId, attemptId, navigate]);
 
   useEffect(() => {
-    if (currentQuestion?.question_type === "short_answer") {
-      setShortAnswer(answers[currentQuestion.id] || "");
-    }
-  }, [currentIndex, currentQuestion, answers]);
+    setShowHint(false);
+  }, [currentIndex]);
 
   useEffect(() => {
-    if (loading || timeRemaining <= 0) return;
-    const timer = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 1) {
-          handleSubmit();
-          return 0;
-        }
-        return prev - 1;
-      });
-    }, 1000);
+    if (loading || !clock) return;
+    const tick = () => {
+      const remaining = getRemainingSeconds(clock);
+      setTimeRemaining(remaining);
+      if (remaining <= 0 && !clock.paused_at && !timeUpRef.current) {
+        timeUpRef.current = true;
+        handleSubmitRef.current();
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
     return () => clearInterval(timer);
-  }, [loading, timeRemaining]);
+  }, [loading, clock]);
 
   // ============================================
   // HANDLERS
@@ -330,27 +556,27 @@ export default function TakeExamPage() {
   const formatTime = (s: number) =>
     `${Math.floor(s / 60)}:${(s % 60).toString().padStart(2, "0")}`;
 
-  const parseOptions = (options: Question["options"]): string[] => {
-    if (!options) return [];
-    if (Array.isArray(options)) {
-      return options.map((o) => {
-        if (typeof o === "string") return o;
-        if (typeof o === "object" && o !== null && "text" in o) return o.text;
-        return String(o);
-      });
+  // Every widget hands back the serialised answer; "" clears the question
+  const handleAnswerChange = (answer: string) => {
+    if (!currentQuestion) return;
+    // A writing response changes on every keystroke - it isn't an answer
+    // change worth replaying
+    if (
+      normalizeQuestionType(currentQuestion.question_type) !==
+      "extended-response"
+    ) {
+      activityRef.current = recordAnswerChange(
+        activityRef.current,
+        currentQuestion.id,
+        answer,
+      );
     }
-    return [];
-  };
-
-  const handleAnswerSelect = (answer: string) => {
-    if (currentQuestion)
-      setAnswers((prev) => ({ ...prev, [currentQuestion.id]: answer }));
-  };
-
-  const handleShortAnswer = (value: string) => {
-    setShortAnswer(value);
-    if (currentQuestion)
-      setAnswers((prev) => ({ ...prev, [currentQuestion.id]: value }));
+    setAnswers((prev) => {
+      const next = { ...prev };
+      if (answer) next[currentQuestion.id] = answer;
+      else delete next[currentQuestion.id];
+      return next;
+    });
   };
 
   const toggleFlag = () => {
@@ -371,49 +597,35 @@ export default function TakeExamPage() {
     if (submitting) return;
     setSubmitting(true);
 
-    try {
-      let total = 0,
-        earned = 0;
-      questions.forEach((q) => {
-        total += q.points || 1;
-        const userAnswer = answers[q.id] || "";
-        const isCorrect =
-          userAnswer &&
-          q.correct_answer &&
-          userAnswer.trim().toLowerCase() ===
-            q.correct_answer.trim().toLowerCase();
-        if (isCorrect) earned += q.points || 1;
-      });
-      const score = total > 0 ? Math.round((earned / total) * 100) : 0;
+    flushDwell();
 
+    try {
+      // Persist the latest answers first - the server grades what is stored
       const { error } = await supabase
         .from("exam_attempts")
         .update({
           answers: answers,
           flagged: Array.from(flagged),
-          score: score,
-          completed_at: new Date().toISOString(),
-          status: "completed",
+          question_activity: activityRef.current,
         } as never)
         .eq("id", attemptId!);
 
-      if (error) {
+      // Past the deadline the server keeps the last autosave and grades that
+      if (error && !isDeadlineError(error)) {
         console.error("Submit error:", error);
         alert("Failed to submit: " + error.message);
         return;
       }
 
-      localStorage.setItem(
-        `exam_${attemptId}_violations`,
-        JSON.stringify(violations),
-      );
-      localStorage.setItem(
-        `exam_${attemptId}_tab_switches`,
-        String(tabSwitchCount),
-      );
+      const graded = await submitAttemptForGrading(attemptId!);
+      if ("error" in graded) {
+        alert("Failed to submit: " + graded.error);
+        return;
+      }
+
       localStorage.setItem(
         `exam_${attemptId}_time_used`,
-        String(examDuration * 60 - timeRemaining),
+        String(graded.result.time_spent_seconds),
       );
 
       navigate(`/exam/${examId}/results/${attemptId}`);
@@ -426,6 +638,47 @@ export default function TakeExamPage() {
     }
   };
 
+  handleSubmitRef.current = handleSubmit;
+
+  // Routing reads the stored answers, so save before asking for the next
+  // testlet. There's no way back to a finished section.
+  const handleNextSection = async () => {
+    if (!attemptId || !currentTestletId || advancing) return;
+    setAdvancing(true);
+
+    if (saveTimeoutRef.current) clearTimeout(saveTimeoutRef.current);
+    const saved = await saveProgress();
+    if (!saved) {
+      setAdvancing(false);
+      setShowSubmitModal(false);
+      alert("Couldn't save your answers. Please try again.");
+      return;
+    }
+
+    const result = await advanceTestlet(attemptId, currentTestletId);
+    setAdvancing(false);
+    setShowSubmitModal(false);
+
+    if ("error" in result) {
+      alert(result.error);
+      return;
+    }
+    if (result.finished) {
+      handleSubmit();
+      return;
+    }
+    setTestletPath(result.testletPath);
+    setCurrentIndex(0);
+  };
+
+  const togglePause = async () => {
+    if (!attemptId || !clock) return;
+    const next = clock.paused_at
+      ? await resumeAttempt(attemptId)
+      : await pauseAttempt(attemptId);
+    if (next) setClock(next);
+  };
+
   const getStatus = (id: string) => {
     if (currentQuestion?.id === id) return "current";
     if (flagged.has(id) && answers[id]) return "flagged-answered";
@@ -476,8 +729,13 @@ export default function TakeExamPage() {
       </div>
     );
 
-  const options = parseOptions(currentQuestion.options);
-  const letters = ["A", "B", "C", "D", "E", "F"];
+  const questionType = normalizeQuestionType(currentQuestion.question_type);
+  const contentBlocks = toContentBlocks(currentQuestion.content);
+  const hintBlocks = toContentBlocks(currentQuestion.hint_content);
+  const hasHint = hintBlocks.length > 0 || !!currentQuestion.hint;
+  const currentStimulus = currentQuestion.stimulus_id
+    ? stimuli[currentQuestion.stimulus_id]
+    : undefined;
 
   return (
     <div
@@ -497,6 +755,7 @@ export default function TakeExamPage() {
             {tabSwitchCount > 0 && (
               <span className="ml-3 bg-red-700 px-2 py-0.5 rounded text-sm">
                 Switches: {tabSwitchCount}
+                {tabSwitchLimit !== null && ` / ${tabSwitchLimit}`}
               </span>
             )}
           </motion.div>
@@ -566,6 +825,26 @@ export default function TakeExamPage() {
             {formatTime(timeRemaining)}
           </div>
 
+          {allowPause && (
+            <button
+              onClick={togglePause}
+              title={isPaused ? "Resume exam" : "Pause exam"}
+              className={`w-9 h-9 rounded-full flex items-center justify-center transition ${
+                isPaused
+                  ? "bg-green-600 text-white"
+                  : highContrast
+                    ? "bg-gray-700 text-gray-300"
+                    : "bg-gray-100 text-gray-600"
+              }`}
+            >
+              {isPaused ? (
+                <Play className="w-5 h-5" />
+              ) : (
+                <Pause className="w-5 h-5" />
+              )}
+            </button>
+          )}
+
           <button
             onClick={() => setShowAccessibilityPanel(!showAccessibilityPanel)}
             className={`w-9 h-9 rounded-full flex items-center justify-center transition ${
@@ -668,6 +947,11 @@ export default function TakeExamPage() {
           <div
             className={`text-sm font-medium ${highContrast ? "text-white" : "text-gray-700"} mb-1`}
           >
+            {isAdaptive && (
+              <span className="block text-xs text-indigo-600">
+                Section {testletPath.length}
+              </span>
+            )}
             Q {currentIndex + 1}/{totalQuestions}
           </div>
           <div className="flex gap-2 text-xs mb-3">
@@ -682,7 +966,7 @@ export default function TakeExamPage() {
                   onClick={() => goTo(i)}
                   className={`w-7 h-7 rounded text-xs font-semibold transition ${statusColor(getStatus(q.id))}`}
                 >
-                  {i + 1}
+                  {numberOffset + i + 1}
                 </button>
               ))}
             </div>
@@ -707,104 +991,129 @@ export default function TakeExamPage() {
 
         {/* Question Area */}
         <main className="flex-1 flex flex-col min-h-0 p-4">
-          <div
-            className={`flex-1 ${highContrast ? "bg-gray-900" : "bg-white"} rounded-xl shadow-sm border overflow-y-auto`}
-          >
-            <div className="p-5 max-w-4xl mx-auto">
-              <div className="flex items-center justify-between mb-4">
-                <div className="flex items-center gap-2">
-                  <span
-                    className={`${highContrast ? "bg-indigo-500 text-white" : "bg-indigo-100 text-indigo-700"} px-2.5 py-1 rounded-full font-bold text-sm`}
-                  >
-                    Q{currentIndex + 1}
-                  </span>
-                  <span
-                    className={`text-sm ${highContrast ? "text-gray-400" : "text-gray-500"}`}
-                  >
-                    {currentQuestion.question_type === "short_answer"
-                      ? "📝 Type answer"
-                      : "🔘 Choose one"}
-                  </span>
-                </div>
-                <button
-                  onClick={toggleFlag}
-                  className={`flex items-center gap-1 px-2.5 py-1 rounded-full text-sm transition ${
-                    flagged.has(currentQuestion.id)
-                      ? "bg-orange-100 text-orange-600"
-                      : highContrast
-                        ? "bg-gray-700 text-gray-300"
-                        : "bg-gray-100 text-gray-600"
-                  }`}
-                >
-                  <Flag className="w-3.5 h-3.5" />
-                  {flagged.has(currentQuestion.id) ? "Flagged" : "Flag"}
-                </button>
-              </div>
-
-              <div
-                className={`prose prose-lg max-w-none mb-5 question-content ${highContrast ? "prose-invert" : ""}`}
-                dangerouslySetInnerHTML={{
-                  __html: currentQuestion.question_text,
-                }}
+          <div className="flex-1 flex gap-3 min-h-0">
+            {/* Shared passage - keyed so it stays mounted across linked questions */}
+            {currentStimulus && (
+              <StimulusPanel
+                key={currentStimulus.id}
+                stimulus={currentStimulus}
+                linkedLabel={formatQuestionRange(
+                  getLinkedQuestionNumbers(currentStimulus.id, questions).map(
+                    (n) => numberOffset + n,
+                  ),
+                )}
+                scrollPositions={stimulusScrollRef}
+                highContrast={highContrast}
+                className="w-1/2"
               />
-
-              {currentQuestion.question_type === "short_answer" ? (
-                <div className="space-y-2">
-                  <label
-                    className={`block ${highContrast ? "text-gray-300" : "text-gray-700"} font-medium text-sm`}
-                  >
-                    Your Answer:
-                  </label>
-                  <input
-                    type="text"
-                    value={shortAnswer}
-                    onChange={(e) => handleShortAnswer(e.target.value)}
-                    placeholder="Type here..."
-                    className={`w-full max-w-md p-3 border-2 rounded-lg outline-none ${highContrast ? "bg-gray-800 border-gray-600 text-white" : "border-gray-200 focus:border-indigo-500"}`}
-                  />
-                  {answers[currentQuestion.id] && (
-                    <p className="text-green-600 text-sm flex items-center gap-1">
-                      <CheckCircle className="w-4 h-4" />
-                      Saved
-                    </p>
-                  )}
-                </div>
-              ) : (
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-2.5">
-                  {options.map((opt, i) => {
-                    const val = letters[i];
-                    const sel = answers[currentQuestion.id] === val;
-                    return (
+            )}
+            <div
+              className={`flex-1 min-w-0 ${highContrast ? "bg-gray-900" : "bg-white"} rounded-xl shadow-sm border overflow-y-auto`}
+            >
+              <div className="p-5 max-w-4xl mx-auto">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center gap-2">
+                    <span
+                      className={`${highContrast ? "bg-indigo-500 text-white" : "bg-indigo-100 text-indigo-700"} px-2.5 py-1 rounded-full font-bold text-sm`}
+                    >
+                      Q{numberOffset + currentIndex + 1}
+                    </span>
+                    <span
+                      className={`text-sm ${highContrast ? "text-gray-400" : "text-gray-500"}`}
+                    >
+                      {QUESTION_TYPE_LABELS[questionType]}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {hasHint && (
                       <button
-                        key={i}
-                        onClick={() => handleAnswerSelect(val)}
-                        className={`p-3 rounded-lg border-2 text-left transition flex items-start gap-2.5 ${
-                          sel
-                            ? highContrast
-                              ? "border-indigo-400 bg-indigo-900/50"
-                              : "border-indigo-500 bg-indigo-50"
+                        onClick={() => setShowHint((prev) => !prev)}
+                        className={`flex items-center gap-1 px-2.5 py-1 rounded-full text-sm transition ${
+                          showHint
+                            ? "bg-yellow-100 text-yellow-700"
                             : highContrast
-                              ? "border-gray-700 bg-gray-800"
-                              : "border-gray-200 hover:border-indigo-300"
+                              ? "bg-gray-700 text-gray-300"
+                              : "bg-gray-100 text-gray-600"
                         }`}
                       >
-                        <span
-                          className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm shrink-0 ${sel ? "bg-indigo-600 text-white" : highContrast ? "bg-gray-700 text-gray-300" : "bg-gray-100"}`}
-                        >
-                          {val}
-                        </span>
-                        <span
-                          className={`flex-1 pt-0.5 ${sel ? (highContrast ? "text-indigo-300" : "text-indigo-700") : highContrast ? "text-gray-300" : "text-gray-700"}`}
-                          dangerouslySetInnerHTML={{ __html: opt }}
-                        />
-                        {sel && (
-                          <CheckCircle className="w-5 h-5 text-indigo-500 shrink-0" />
-                        )}
+                        <Lightbulb className="w-3.5 h-3.5" />
+                        Hint
                       </button>
-                    );
-                  })}
+                    )}
+                    <button
+                      onClick={toggleFlag}
+                      className={`flex items-center gap-1 px-2.5 py-1 rounded-full text-sm transition ${
+                        flagged.has(currentQuestion.id)
+                          ? "bg-orange-100 text-orange-600"
+                          : highContrast
+                            ? "bg-gray-700 text-gray-300"
+                            : "bg-gray-100 text-gray-600"
+                      }`}
+                    >
+                      <Flag className="w-3.5 h-3.5" />
+                      {flagged.has(currentQuestion.id) ? "Flagged" : "Flag"}
+                    </button>
+                  </div>
                 </div>
-              )}
+
+                {contentBlocks.length > 0 ? (
+                  <QuestionContentRenderer
+                    blocks={contentBlocks}
+                    className={`mb-5 ${highContrast ? "bg-white rounded-lg p-3" : ""}`}
+                    renderBlank={
+                      questionType === "fill-in-blank"
+                        ? (blankId) => (
+                            <BlankInput
+                              blankId={blankId}
+                              value={answers[currentQuestion.id] || ""}
+                              onChange={handleAnswerChange}
+                            />
+                          )
+                        : undefined
+                    }
+                  />
+                ) : (
+                  <div
+                    className={`prose prose-lg max-w-none mb-5 question-content ${highContrast ? "prose-invert" : ""}`}
+                    dangerouslySetInnerHTML={{
+                      __html:
+                        questionType === "fill-in-blank"
+                          ? numberBlanks(currentQuestion.question_text)
+                          : currentQuestion.question_text,
+                    }}
+                  />
+                )}
+
+                {showHint && hasHint && (
+                  <div className="mb-5 p-3 rounded-lg bg-yellow-50 border border-yellow-200 flex items-start gap-2">
+                    <Lightbulb className="w-4 h-4 text-yellow-600 shrink-0 mt-1" />
+                    {hintBlocks.length > 0 ? (
+                      <QuestionContentRenderer blocks={hintBlocks} />
+                    ) : (
+                      <p className="text-sm text-yellow-800">
+                        {currentQuestion.hint}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <QuestionAnswerInput
+                  question={currentQuestion}
+                  value={answers[currentQuestion.id] || ""}
+                  onChange={handleAnswerChange}
+                  highContrast={highContrast}
+                />
+
+                {questionType === "extended-response" && (
+                  <p
+                    className={`mt-2 text-sm ${highContrast ? "text-gray-400" : "text-gray-500"}`}
+                  >
+                    Plan, write and edit your response -{" "}
+                    {formatTime(timeRemaining)} left. Your writing saves as you
+                    go.
+                  </p>
+                )}
+              </div>
             </div>
           </div>
 
@@ -833,13 +1142,23 @@ export default function TakeExamPage() {
               {answeredCount}/{totalQuestions}
             </span>
             {currentIndex === totalQuestions - 1 ? (
-              <button
-                onClick={() => setShowSubmitModal(true)}
-                className="flex items-center gap-1.5 px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700"
-              >
-                <Send className="w-4 h-4" />
-                Submit
-              </button>
+              hasNextSection ? (
+                <button
+                  onClick={() => setShowSubmitModal(true)}
+                  className="flex items-center gap-1.5 px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700"
+                >
+                  Next section
+                  <ArrowRightCircle className="w-4 h-4" />
+                </button>
+              ) : (
+                <button
+                  onClick={() => setShowSubmitModal(true)}
+                  className="flex items-center gap-1.5 px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700"
+                >
+                  <Send className="w-4 h-4" />
+                  Submit
+                </button>
+              )
             ) : (
               <button
                 onClick={() => goTo(currentIndex + 1)}
@@ -853,6 +1172,29 @@ export default function TakeExamPage() {
         </main>
       </div>
 
+      {/* Paused Overlay - questions stay hidden while the clock is stopped */}
+      {isPaused && (
+        <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-40 p-4">
+          <div
+            className={`${highContrast ? "bg-gray-900 text-white" : "bg-white"} rounded-xl p-6 max-w-xs w-full text-center`}
+          >
+            <Pause className="w-10 h-10 mx-auto mb-3 text-blue-600" />
+            <h3 className="text-lg font-bold mb-1">Exam paused</h3>
+            <p
+              className={`text-sm mb-4 ${highContrast ? "text-gray-400" : "text-gray-500"}`}
+            >
+              {formatTime(timeRemaining)} remaining
+            </p>
+            <button
+              onClick={togglePause}
+              className="w-full py-2 bg-green-600 text-white rounded-lg font-medium flex items-center justify-center gap-2"
+            >
+              <Play className="w-4 h-4" /> Resume
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Submit Modal */}
       <AnimatePresence>
         {showSubmitModal && (
@@ -877,7 +1219,7 @@ export default function TakeExamPage() {
                 <h3
                   className={`text-lg font-bold mb-2 ${highContrast ? "text-white" : ""}`}
                 >
-                  Submit?
+                  {hasNextSection ? "Finish this section?" : "Submit?"}
                 </h3>
                 <p
                   className={`${highContrast ? "text-gray-400" : "text-gray-600"} text-sm mb-3`}
@@ -888,6 +1230,11 @@ export default function TakeExamPage() {
                       ⚠️ {totalQuestions - answeredCount} unanswered
                     </span>
                   )}
+                  {hasNextSection && (
+                    <span className="block mt-1">
+                      You can't come back to these questions.
+                    </span>
+                  )}
                 </p>
                 {tabSwitchCount > 0 && (
                   <p className="text-red-500 text-xs mb-3">
@@ -901,13 +1248,23 @@ export default function TakeExamPage() {
                   >
                     Review
                   </button>
-                  <button
-                    onClick={handleSubmit}
-                    disabled={submitting}
-                    className="flex-1 py-2 bg-green-600 text-white rounded-lg font-medium disabled:opacity-50"
-                  >
-                    {submitting ? "..." : "Submit"}
-                  </button>
+                  {hasNextSection ? (
+                    <button
+                      onClick={handleNextSection}
+                      disabled={advancing || submitting}
+                      className="flex-1 py-2 bg-indigo-600 text-white rounded-lg font-medium disabled:opacity-50"
+                    >
+                      {advancing || submitting ? "..." : "Continue"}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleSubmit}
+                      disabled={submitting}
+                      className="flex-1 py-2 bg-green-600 text-white rounded-lg font-medium disabled:opacity-50"
+                    >
+                      {submitting ? "..." : "Submit"}
+                    </button>
+                  )}
                 </div>
               </div>
             </motion.div>
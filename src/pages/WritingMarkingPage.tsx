@@ -0,0 +1,258 @@
+// src/pages/WritingMarkingPage.tsx
+// Mark an extended-response (NAPLAN Writing) answer against the 10 rubric
+// criteria. Opened from the results page, the family page or a class
+// gradebook by whoever can_mark_attempt() allows - never the student who
+// wrote it.
+// ============================================
+
+import { useState, useEffect, useMemo } from "react";
+import { Link, useLocation, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Loader2, PenLine, Save } from "lucide-react";
+import {
+  WRITING_CRITERIA,
+  WRITING_MAX_SCORE,
+  countWords,
+  fetchWritingMarks,
+  fetchWritingResponses,
+  markWritingResponse,
+  sanitizeWritingHtml,
+  type WritingResponse,
+  type WritingScores,
+} from "@/lib/writing";
+import { toContentBlocks } from "@/lib/questionContent";
+import { getExamResultsRoute } from "@/utils/routes";
+import { QuestionContentRenderer } from "@/components/exam/QuestionContentRenderer";
+
+export default function WritingMarkingPage() {
+  const {
+    examId = "",
+    attemptId = "",
+    questionId = "",
+  } = useParams<{ examId: string; attemptId: string; questionId: string }>();
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Back to the page marking was started from, else the attempt's results
+  const returnTo =
+    (location.state as { returnTo?: string } | null)?.returnTo ||
+    getExamResultsRoute(examId, attemptId);
+
+  const [response, setResponse] = useState<WritingResponse | null>(null);
+  const [scores, setScores] = useState<WritingScores>({});
+  const [comment, setComment] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    setIsLoading(true);
+    Promise.all([
+      fetchWritingResponses(attemptId),
+      fetchWritingMarks(attemptId),
+    ]).then(([responses, marks]) => {
+      setResponse(responses.find((r) => r.question_id === questionId) || null);
+      const mark = marks.get(questionId);
+      setScores(mark?.scores || {});
+      setComment(mark?.comment || "");
+      setIsLoading(false);
+    });
+  }, [attemptId, questionId]);
+
+  const responseHtml = useMemo(
+    () => sanitizeWritingHtml(response?.answer || ""),
+    [response],
+  );
+
+  const total = WRITING_CRITERIA.reduce(
+    (sum, criterion) => sum + (scores[criterion.id] ?? 0),
+    0,
+  );
+  const isComplete = WRITING_CRITERIA.every(
+    (criterion) => scores[criterion.id] !== undefined,
+  );
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const result = await markWritingResponse(
+      attemptId,
+      questionId,
+      scores,
+      comment,
+    );
+    setIsSaving(false);
+
+    if ("error" in result) {
+      setMessage(`Save failed: ${result.error}`);
+      return;
+    }
+    navigate(returnTo);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="w-8 h-8 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!response) {
+    return (
+      <div className="container-custom py-16 text-center space-y-4">
+        <p className="text-gray-600">
+          This writing task can't be marked - the test may not be submitted yet,
+          or you don't have access to it.
+        </p>
+        <Link
+          to={returnTo}
+          className="text-indigo-600 font-semibold hover:underline"
+        >
+          Go back
+        </Link>
+      </div>
+    );
+  }
+
+  const contentBlocks = toContentBlocks(response.content);
+  const words = countWords(responseHtml);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="container-custom py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <Link
+            to={returnTo}
+            className="flex items-center gap-2 text-gray-600 hover:text-indigo-600"
+          >
+            <ArrowLeft className="w-4 h-4" /> Back
+          </Link>
+          <div className="flex items-center gap-2">
+            {message && <span className="text-sm text-red-600">{message}</span>}
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !isComplete}
+              className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-xl font-semibold hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {isSaving ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4" />
+              )}
+              Save marks
+            </button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+          {/* Prompt and response */}
+          <div className="space-y-6">
+            <div className="bg-white rounded-2xl shadow p-6">
+              <h2 className="text-sm font-semibold text-gray-500 mb-3">
+                Question {response.question_number} - writing prompt
+              </h2>
+              {contentBlocks.length > 0 ? (
+                <QuestionContentRenderer blocks={contentBlocks} />
+              ) : (
+                <div
+                  className="prose max-w-none"
+                  dangerouslySetInnerHTML={{ __html: response.question_text }}
+                />
+              )}
+            </div>
+
+            <div className="bg-white rounded-2xl shadow p-6">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="font-bold text-gray-900 flex items-center gap-2">
+                  <PenLine className="w-4 h-4" /> Response
+                </h2>
+                <span className="text-sm text-gray-500">
+                  {words} {words === 1 ? "word" : "words"}
+                </span>
+              </div>
+              {responseHtml ? (
+                <div
+                  className="leading-relaxed text-gray-800 [&_p]:mb-3 [&_ul]:list-disc [&_ol]:list-decimal [&_ul]:pl-6 [&_ol]:pl-6"
+                  dangerouslySetInnerHTML={{ __html: responseHtml }}
+                />
+              ) : (
+                <p className="text-gray-500 italic">Nothing was written.</p>
+              )}
+            </div>
+          </div>
+
+          {/* Rubric */}
+          <div className="bg-white rounded-2xl shadow p-6 space-y-5 xl:sticky xl:top-24">
+            <div className="flex items-baseline justify-between">
+              <h2 className="text-xl font-black text-gray-900">Rubric</h2>
+              <span className="text-lg font-bold text-indigo-600">
+                {total} / {WRITING_MAX_SCORE}
+              </span>
+            </div>
+
+            {WRITING_CRITERIA.map((criterion) => (
+              <div key={criterion.id}>
+                <div className="flex items-baseline justify-between">
+                  <span className="font-semibold text-gray-900">
+                    {criterion.label}
+                  </span>
+                  <span className="text-xs text-gray-500">
+                    out of {criterion.max}
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 mb-1.5">
+                  {criterion.description}
+                </p>
+                <div
+                  role="radiogroup"
+                  aria-label={criterion.label}
+                  className="flex gap-1.5"
+                >
+                  {Array.from({ length: criterion.max + 1 }, (_, score) => {
+                    const selected = scores[criterion.id] === score;
+                    return (
+                      <button
+                        key={score}
+                        role="radio"
+                        aria-checked={selected}
+                        onClick={() =>
+                          setScores((prev) => ({
+                            ...prev,
+                            [criterion.id]: score,
+                          }))
+                        }
+                        className={`w-9 h-9 rounded-lg border-2 font-bold text-sm transition ${
+                          selected
+                            ? "border-indigo-500 bg-indigo-600 text-white"
+                            : "border-gray-200 text-gray-700 hover:border-indigo-300"
+                        }`}
+                      >
+                        {score}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+
+            <label className="block">
+              <span className="font-semibold text-gray-900">Comment</span>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={3}
+                placeholder="What went well and what to work on next"
+                className="mt-1 w-full p-3 border-2 border-gray-200 rounded-lg outline-none focus:border-indigo-500"
+              />
+            </label>
+
+            {!isComplete && (
+              <p className="text-sm text-gray-500">
+                Give every criterion a score to save.
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
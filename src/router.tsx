@@ -6,6 +6,7 @@
 import { createBrowserRouter, Navigate } from "react-router-dom";
 import RootLayout from "@/components/layout/RootLayout";
 import ProtectedLayout from "@/components/layout/ProtectedLayout";
+import AdminLayout from "@/components/layout/AdminLayout";
 
 // Public Pages
 import HomePage from "@/pages/HomePage";
@@ -18,13 +19,30 @@ import AuthCallbackPage from "@/pages/AuthCallbackPage"; // NEW: OAuth callback
 // Protected Pages
 import DashboardPage from "@/pages/DashboardPage";
 import ExamsPage from "@/pages/ExamsPage";
+import PracticeBuilderPage from "@/pages/PracticeBuilderPage";
+import ReviewSessionPage from "@/pages/ReviewSessionPage";
+import StudyPlanPage from "@/pages/StudyPlanPage";
+import FamilyPage from "@/pages/FamilyPage";
+import ProgressReportPage from "@/pages/ProgressReportPage";
+import ClassesPage from "@/pages/ClassesPage";
+import ClassPage from "@/pages/ClassPage";
+import OrganisationsPage from "@/pages/OrganisationsPage";
+import OrganisationPage from "@/pages/OrganisationPage";
 import ExamStartPage from "@/pages/ExamStartPage";
 import TakeExamPage from "@/pages/TakeExamPage";
 import ExamResultsPage from "@/pages/ExamResultsPage";
+import WritingMarkingPage from "@/pages/WritingMarkingPage";
 import ResultsPage from "@/pages/ResultsPage";
 import ProfilePage from "@/pages/ProfilePage";
 import SubscriptionSuccessPage from "@/pages/SubscriptionSuccessPage";
 
+// Admin Pages
+import AdminExamsPage from "@/pages/AdminExamsPage";
+import AdminExamEditPage from "@/pages/AdminExamEditPage";
+import AdminQuestionEditPage from "@/pages/AdminQuestionEditPage";
+import AdminStimulusEditPage from "@/pages/AdminStimulusEditPage";
+import AdminStripeEventsPage from "@/pages/AdminStripeEventsPage";
+
 export const router = createBrowserRouter([
   {
     path: "/",
@@ -73,6 +91,42 @@ export const router = createBrowserRouter([
             path: "exams",
             element: <ExamsPage />,
           },
+          {
+            path: "practice",
+            element: <PracticeBuilderPage />,
+          },
+          {
+            path: "review",
+            element: <ReviewSessionPage />,
+          },
+          {
+            path: "study-plan",
+            element: <StudyPlanPage />,
+          },
+          {
+            path: "family",
+            element: <FamilyPage />,
+          },
+          {
+            path: "report/:studentId",
+            element: <ProgressReportPage />,
+          },
+          {
+            path: "classes",
+            element: <ClassesPage />,
+          },
+          {
+            path: "classes/:classId",
+            element: <ClassPage />,
+          },
+          {
+            path: "organisations",
+            element: <OrganisationsPage />,
+          },
+          {
+            path: "organisations/:organisationId",
+            element: <OrganisationPage />,
+          },
           {
             path: "exam/:examId/start",
             element: <ExamStartPage />,
@@ -85,6 +139,10 @@ export const router = createBrowserRouter([
             path: "exam/:examId/results/:attemptId",
             element: <ExamResultsPage />,
           },
+          {
+            path: "exam/:examId/results/:attemptId/writing/:questionId",
+            element: <WritingMarkingPage />,
+          },
           {
             path: "results",
             element: <ResultsPage />,
@@ -97,6 +155,35 @@ export const router = createBrowserRouter([
             path: "subscription/success",
             element: <SubscriptionSuccessPage />,
           },
+
+          // ============================================
+          // ADMIN ROUTES
+          // ============================================
+          {
+            element: <AdminLayout />,
+            children: [
+              {
+                path: "admin",
+                element: <AdminExamsPage />,
+              },
+              {
+                path: "admin/exams/:examId",
+                element: <AdminExamEditPage />,
+              },
+              {
+                path: "admin/exams/:examId/questions/:questionId",
+                element: <AdminQuestionEditPage />,
+              },
+              {
+                path: "admin/exams/:examId/stimuli/:stimulusId",
+                element: <AdminStimulusEditPage />,
+              },
+              {
+                path: "admin/stripe-events",
+                element: <AdminStripeEventsPage />,
+              },
+            ],
+          },
         ],
       },
 
@@ -8,6 +8,7 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import type { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/lib/supabase";
+import { fetchChildProfiles, type ChildProfile } from "@/lib/family";
 
 // ============================================
 // TYPES
@@ -22,6 +23,12 @@ interface UserProfile {
   year_level?: number;
   school_name?: string;
   parent_email?: string;
+  role?: "student" | "admin" | "parent" | "teacher";
+  // Child profiles of a parent account (migration 023)
+  parent_id?: string | null;
+  username?: string | null;
+  // Signed up as a teacher, waiting for an admin (migration 025)
+  teacher_requested_at?: string | null;
   created_at?: string;
   updated_at?: string;
 }
@@ -168,6 +175,7 @@ export const useAuthStore = create<AuthState>()(
       logout: async () => {
         try {
           await supabase.auth.signOut();
+          useFamilyStore.getState().reset();
           set({
             user: null,
             session: null,
@@ -298,6 +306,48 @@ export const useAuthStore = create<AuthState>()(
   ),
 );
 
+// ============================================
+// FAMILY STORE
+// ============================================
+// A parent account's children and which one the parent is looking at
+// (null for the family overview)
+
+interface FamilyState {
+  children: ChildProfile[];
+  activeChildId: string | null;
+  loadChildren: (parentId: string) => Promise<void>;
+  setActiveChild: (childId: string | null) => void;
+  reset: () => void;
+}
+
+export const useFamilyStore = create<FamilyState>()(
+  persist(
+    (set, get) => ({
+      children: [],
+      activeChildId: null,
+
+      loadChildren: async (parentId: string) => {
+        const children = await fetchChildProfiles(parentId);
+        const { activeChildId } = get();
+        set({
+          children,
+          activeChildId: children.some((c) => c.id === activeChildId)
+            ? activeChildId
+            : null,
+        });
+      },
+
+      setActiveChild: (activeChildId) => set({ activeChildId }),
+
+      reset: () => set({ children: [], activeChildId: null }),
+    }),
+    {
+      name: "family-storage",
+      partialize: (state) => ({ activeChildId: state.activeChildId }),
+    },
+  ),
+);
+
 // ============================================
 // UI STORE
 // ============================================
@@ -36,9 +36,12 @@ export interface TextBlock extends BaseContentBlock {
 }
 
 // Image block - for photos, diagrams, illustrations
+// Either a public url or a bucket/path in private storage
 export interface ImageBlock extends BaseContentBlock {
   type: "image";
-  url: string;
+  url?: string;
+  bucket?: string;
+  path?: string;
   alt: string;
   width?: number;
   height?: number;
@@ -202,7 +205,9 @@ export type QuestionType =
   | "numeric"
   | "fill-in-blank"
   | "drag-drop"
-  | "matching";
+  | "matching"
+  | "extended-response"
+  | "dictation";
 
 export interface RichQuestion {
   id: string;
@@ -233,8 +238,66 @@ export interface RichQuestion {
   // For numeric answers
   numeric_tolerance?: number;
 
-  // For fill-in-blank
-  blanks?: { id: string; correct: string }[];
+  // For fill-in-blank - placed in the text with {{blank:<id>}}
+  blanks?: { id: string; correct: string; accept?: string[] }[];
+
+  // For matching - right-hand items paired with the options
+  match_targets?: QuestionOption[];
+
+  // Shared passage shown beside the question (reading comprehension)
+  stimulus_id?: string | null;
+
+  // For dictation - recorded prompt, or the text read by TTS instead
+  audio_path?: string | null;
+  dictation_text?: string | null;
+  spelling_pattern?: string | null;
+
+  // Adaptive exams - the testlet (section) the question belongs to
+  testlet_id?: string | null;
+}
+
+// ============================================
+// STIMULUS TYPES
+// ============================================
+
+export type StimulusType = "passage" | "poem" | "infographic";
+
+// A passage, poem or infographic that several questions refer to
+export interface Stimulus {
+  id: string;
+  exam_id: string;
+  title: string;
+  stimulus_type: StimulusType;
+  content: ContentBlock[];
+  // Numbers the lines of text blocks - each "\n" starts a new line
+  show_line_numbers: boolean;
+}
+
+// ============================================
+// TESTLET TYPES
+// ============================================
+
+export type TestletLevel = "easier" | "standard" | "harder";
+
+// Where a student goes after a testlet: the rule with the highest
+// min_percent at or below their running score wins, or the lowest rule if
+// the score is below them all
+export interface TestletRoute {
+  min_percent: number;
+  next: string;
+}
+
+// A section of an adaptive exam
+export interface Testlet {
+  id: string;
+  exam_id: string;
+  stage: number;
+  label: string;
+  level: TestletLevel;
+  // Multiplies the points of the testlet's questions
+  weight: number;
+  // Empty on the last stage
+  routing: TestletRoute[];
 }
 
 // ============================================
@@ -22,6 +22,11 @@ export interface Database {
           year_level: number | null;
           school_name: string | null;
           parent_email: string | null;
+          extra_time_percent: number;
+          role: "student" | "admin" | "parent" | "teacher";
+          parent_id: string | null;
+          username: string | null;
+          teacher_requested_at: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -34,6 +39,9 @@ export interface Database {
           year_level?: number | null;
           school_name?: string | null;
           parent_email?: string | null;
+          role?: "student" | "admin" | "parent" | "teacher";
+          parent_id?: string | null;
+          username?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -46,6 +54,9 @@ export interface Database {
           year_level?: number | null;
           school_name?: string | null;
           parent_email?: string | null;
+          role?: "student" | "admin" | "parent" | "teacher";
+          parent_id?: string | null;
+          username?: string | null;
           updated_at?: string;
         };
       };
@@ -62,6 +73,11 @@ export interface Database {
           difficulty: "Easy" | "Medium" | "Hard" | null;
           is_free: boolean;
           is_active: boolean;
+          allow_pause: boolean;
+          violation_policy: "warn" | "auto_submit";
+          max_tab_switches: number;
+          is_adaptive: boolean;
+          owner_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -77,6 +93,11 @@ export interface Database {
           difficulty?: "Easy" | "Medium" | "Hard" | null;
           is_free?: boolean;
           is_active?: boolean;
+          allow_pause?: boolean;
+          violation_policy?: "warn" | "auto_submit";
+          max_tab_switches?: number;
+          is_adaptive?: boolean;
+          owner_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -91,6 +112,10 @@ export interface Database {
           difficulty?: "Easy" | "Medium" | "Hard" | null;
           is_free?: boolean;
           is_active?: boolean;
+          allow_pause?: boolean;
+          violation_policy?: "warn" | "auto_submit";
+          max_tab_switches?: number;
+          is_adaptive?: boolean;
           updated_at?: string;
         };
       };
@@ -110,6 +135,11 @@ export interface Database {
           explanation: string | null;
           points: number;
           image_url: string | null;
+          stimulus_id: string | null;
+          dictation_text: string | null;
+          spelling_pattern: string | null;
+          testlet_id: string | null;
+          source_question_id: string | null;
           created_at: string;
         };
         Insert: {
@@ -127,6 +157,11 @@ export interface Database {
           explanation?: string | null;
           points?: number;
           image_url?: string | null;
+          stimulus_id?: string | null;
+          dictation_text?: string | null;
+          spelling_pattern?: string | null;
+          testlet_id?: string | null;
+          source_question_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -143,6 +178,10 @@ export interface Database {
           explanation?: string | null;
           points?: number;
           image_url?: string | null;
+          stimulus_id?: string | null;
+          dictation_text?: string | null;
+          spelling_pattern?: string | null;
+          testlet_id?: string | null;
         };
       };
       exam_attempts: {
@@ -158,12 +197,23 @@ export interface Database {
           percentage: number | null;
           status: "in_progress" | "completed" | "abandoned";
           answers: Json | null;
+          flagged: Json | null;
+          graded_at: string | null;
+          duration_seconds: number | null;
+          extension_seconds: number;
+          deadline_at: string | null;
+          paused_at: string | null;
+          paused_intervals: Json;
+          question_activity: Json;
+          testlet_path: string[];
+          assignment_id: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           user_id: string;
           exam_id: string;
+          assignment_id?: string | null;
           started_at?: string;
           completed_at?: string | null;
           time_spent_seconds?: number | null;
@@ -172,6 +222,8 @@ export interface Database {
           percentage?: number | null;
           status?: "in_progress" | "completed" | "abandoned";
           answers?: Json | null;
+          flagged?: Json | null;
+          question_activity?: Json;
           created_at?: string;
         };
         Update: {
@@ -184,8 +236,545 @@ export interface Database {
           percentage?: number | null;
           status?: "in_progress" | "completed" | "abandoned";
           answers?: Json | null;
+          flagged?: Json | null;
+          question_activity?: Json;
         };
       };
+      attempt_question_results: {
+        Row: {
+          id: string;
+          attempt_id: string;
+          question_id: string;
+          answer: string | null;
+          is_correct: boolean;
+          points_awarded: number;
+          points_possible: number;
+          graded_at: string;
+        };
+        Insert: {
+          id?: string;
+          attempt_id: string;
+          question_id: string;
+          answer?: string | null;
+          is_correct?: boolean;
+          points_awarded?: number;
+          points_possible?: number;
+          graded_at?: string;
+        };
+        Update: {
+          answer?: string | null;
+          is_correct?: boolean;
+          points_awarded?: number;
+          points_possible?: number;
+          graded_at?: string;
+        };
+      };
+      review_items: {
+        Row: {
+          id: string;
+          user_id: string;
+          question_id: string;
+          ease_factor: number;
+          interval_days: number;
+          repetitions: number;
+          lapses: number;
+          due_at: string;
+          last_reviewed_at: string | null;
+          source_attempt_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          question_id: string;
+          ease_factor?: number;
+          interval_days?: number;
+          repetitions?: number;
+          lapses?: number;
+          due_at?: string;
+          last_reviewed_at?: string | null;
+          source_attempt_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          ease_factor?: number;
+          interval_days?: number;
+          repetitions?: number;
+          lapses?: number;
+          due_at?: string;
+          last_reviewed_at?: string | null;
+          source_attempt_id?: string | null;
+        };
+      };
+      skill_mastery: {
+        Row: {
+          id: string;
+          user_id: string;
+          subject: string;
+          topic: string;
+          skill: string;
+          p_mastery: number;
+          observations: number;
+          correct_credit: number;
+          last_practiced_at: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          subject: string;
+          topic: string;
+          skill?: string;
+          p_mastery: number;
+          observations?: number;
+          correct_credit?: number;
+          last_practiced_at?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          p_mastery?: number;
+          observations?: number;
+          correct_credit?: number;
+          last_practiced_at?: string | null;
+          updated_at?: string;
+        };
+      };
+      study_plans: {
+        Row: {
+          id: string;
+          user_id: string;
+          target_date: string;
+          year_level: number | null;
+          sessions_per_week: number;
+          status: "active" | "archived";
+          replanned_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          target_date: string;
+          year_level?: number | null;
+          sessions_per_week?: number;
+          status?: "active" | "archived";
+          replanned_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          target_date?: string;
+          year_level?: number | null;
+          sessions_per_week?: number;
+          status?: "active" | "archived";
+          replanned_at?: string | null;
+        };
+      };
+      study_plan_items: {
+        Row: {
+          id: string;
+          plan_id: string;
+          week_number: number;
+          week_start: string;
+          due_date: string;
+          kind: "practice" | "review" | "mock";
+          title: string;
+          subject: string | null;
+          topic: string | null;
+          exam_id: string | null;
+          target_count: number | null;
+          position: number;
+          completed_at: string | null;
+          attempt_id: string | null;
+        };
+        Insert: {
+          id?: string;
+          plan_id: string;
+          week_number: number;
+          week_start: string;
+          due_date: string;
+          kind: "practice" | "review" | "mock";
+          title: string;
+          subject?: string | null;
+          topic?: string | null;
+          exam_id?: string | null;
+          target_count?: number | null;
+          position?: number;
+          completed_at?: string | null;
+          attempt_id?: string | null;
+        };
+        Update: {
+          completed_at?: string | null;
+          attempt_id?: string | null;
+        };
+      };
+      parent_report_deliveries: {
+        Row: {
+          id: string;
+          student_id: string;
+          week_start: string;
+          recipient: string;
+          status: "sent" | "failed";
+          error: string | null;
+          sent_at: string;
+        };
+        Insert: {
+          id?: string;
+          student_id: string;
+          week_start: string;
+          recipient: string;
+          status: "sent" | "failed";
+          error?: string | null;
+          sent_at?: string;
+        };
+        Update: {
+          status?: "sent" | "failed";
+          error?: string | null;
+          sent_at?: string;
+        };
+      };
+      classes: {
+        Row: {
+          id: string;
+          teacher_id: string;
+          name: string;
+          subject: string | null;
+          year_level: number | null;
+          join_code: string;
+          archived_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          teacher_id: string;
+          name: string;
+          subject?: string | null;
+          year_level?: number | null;
+          join_code?: string;
+          archived_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          name?: string;
+          subject?: string | null;
+          year_level?: number | null;
+          archived_at?: string | null;
+        };
+      };
+      class_members: {
+        Row: {
+          class_id: string;
+          student_id: string;
+          joined_at: string;
+        };
+        Insert: {
+          class_id: string;
+          student_id: string;
+          joined_at?: string;
+        };
+        Update: Record<string, never>;
+      };
+      class_roster_invites: {
+        Row: {
+          class_id: string;
+          email: string;
+          full_name: string | null;
+          created_at: string;
+        };
+        Insert: {
+          class_id: string;
+          email: string;
+          full_name?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          full_name?: string | null;
+        };
+      };
+      class_assignments: {
+        Row: {
+          id: string;
+          class_id: string;
+          exam_id: string;
+          opens_at: string;
+          closes_at: string | null;
+          max_attempts: number | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          class_id: string;
+          exam_id: string;
+          opens_at?: string;
+          closes_at?: string | null;
+          max_attempts?: number | null;
+          created_at?: string;
+        };
+        Update: {
+          opens_at?: string;
+          closes_at?: string | null;
+          max_attempts?: number | null;
+        };
+      };
+      organisations: {
+        Row: {
+          id: string;
+          name: string;
+          seat_limit: number;
+          status: "active" | "trialing" | "past_due" | "canceled" | "unpaid";
+          current_period_end: string | null;
+          stripe_customer_id: string | null;
+          stripe_subscription_id: string | null;
+          stripe_synced_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          seat_limit: number;
+          status?: "active" | "trialing" | "past_due" | "canceled" | "unpaid";
+          current_period_end?: string | null;
+          stripe_customer_id?: string | null;
+          stripe_subscription_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          seat_limit?: number;
+          status?: "active" | "trialing" | "past_due" | "canceled" | "unpaid";
+          current_period_end?: string | null;
+          stripe_customer_id?: string | null;
+          stripe_subscription_id?: string | null;
+          updated_at?: string;
+        };
+      };
+      organisation_admins: {
+        Row: {
+          organisation_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          organisation_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          organisation_id?: string;
+          user_id?: string;
+        };
+      };
+      organisation_seats: {
+        Row: {
+          id: string;
+          organisation_id: string;
+          user_id: string;
+          assigned_by: string | null;
+          assigned_at: string;
+          revoked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          organisation_id: string;
+          user_id: string;
+          assigned_by?: string | null;
+          assigned_at?: string;
+          revoked_at?: string | null;
+        };
+        Update: {
+          revoked_at?: string | null;
+        };
+      };
+      organisation_admin_invites: {
+        Row: {
+          organisation_id: string;
+          email: string;
+          invited_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          organisation_id: string;
+          email: string;
+          invited_by?: string | null;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+      };
+      organisation_seat_invites: {
+        Row: {
+          organisation_id: string;
+          email: string;
+          invited_by: string | null;
+          created_at: string;
+        };
+        Insert: {
+          organisation_id: string;
+          email: string;
+          invited_by?: string | null;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+      };
+      stripe_events: {
+        Row: {
+          id: string;
+          type: string;
+          stripe_created_at: string;
+          livemode: boolean;
+          payload: Json;
+          status: "processing" | "processed" | "ignored" | "failed";
+          attempts: number;
+          note: string | null;
+          received_at: string;
+          claimed_at: string;
+          processed_at: string | null;
+        };
+        // Written only through claim_stripe_event() and the edge functions
+        Insert: never;
+        Update: never;
+      };
+      exam_violations: {
+        Row: {
+          id: string;
+          attempt_id: string;
+          user_id: string;
+          violation_type:
+            | "tab_switch"
+            | "copy"
+            | "paste"
+            | "right_click"
+            | "other";
+          occurred_at: string;
+          ended_at: string | null;
+          question_id: string | null;
+          details: Json;
+        };
+        Insert: {
+          id?: string;
+          attempt_id: string;
+          user_id: string;
+          violation_type:
+            | "tab_switch"
+            | "copy"
+            | "paste"
+            | "right_click"
+            | "other";
+          occurred_at?: string;
+          ended_at?: string | null;
+          question_id?: string | null;
+          details?: Json;
+        };
+        Update: {
+          ended_at?: string | null;
+        };
+      };
+      exam_score_scales: {
+        Row: {
+          exam_id: string;
+          raw_to_scaled: Json;
+          band_cutoffs: Json;
+          proficiency_cutoffs: Json;
+          national_mean_scaled: number | null;
+          source: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          exam_id: string;
+          raw_to_scaled: Json;
+          band_cutoffs?: Json;
+          proficiency_cutoffs?: Json;
+          national_mean_scaled?: number | null;
+          source?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          raw_to_scaled?: Json;
+          band_cutoffs?: Json;
+          proficiency_cutoffs?: Json;
+          national_mean_scaled?: number | null;
+          source?: string | null;
+          updated_at?: string;
+        };
+      };
+      stimuli: {
+        Row: {
+          id: string;
+          exam_id: string;
+          title: string;
+          stimulus_type: "passage" | "poem" | "infographic";
+          content: Json;
+          show_line_numbers: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          exam_id: string;
+          title?: string;
+          stimulus_type?: "passage" | "poem" | "infographic";
+          content?: Json;
+          show_line_numbers?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          title?: string;
+          stimulus_type?: "passage" | "poem" | "infographic";
+          content?: Json;
+          show_line_numbers?: boolean;
+          updated_at?: string;
+        };
+      };
+      testlets: {
+        Row: {
+          id: string;
+          exam_id: string;
+          stage: number;
+          label: string;
+          level: "easier" | "standard" | "harder";
+          weight: number;
+          routing: Json;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          exam_id: string;
+          stage?: number;
+          label?: string;
+          level?: "easier" | "standard" | "harder";
+          weight?: number;
+          routing?: Json;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          stage?: number;
+          label?: string;
+          level?: "easier" | "standard" | "harder";
+          weight?: number;
+          routing?: Json;
+          updated_at?: string;
+        };
+      };
+      writing_marks: {
+        Row: {
+          id: string;
+          attempt_id: string;
+          question_id: string;
+          scores: Json;
+          total: number;
+          max_total: number;
+          comment: string | null;
+          marked_by: string | null;
+          marked_at: string;
+        };
+        // Written only by mark_writing_response()
+        Insert: never;
+        Update: never;
+      };
       user_progress: {
         Row: {
           id: string;
@@ -287,7 +876,301 @@ export interface Database {
       [_ in never]: never;
     };
     Functions: {
-      [_ in never]: never;
+      grade_exam_attempt: {
+        Args: { p_attempt_id: string };
+        Returns: Json;
+      };
+      get_attempt_answer_key: {
+        Args: { p_attempt_id: string };
+        Returns: {
+          question_id: string;
+          correct_answer: string;
+          explanation: string | null;
+          answer_explanation: Json | null;
+          blanks: Json | null;
+        }[];
+      };
+      get_attempt_answer_history: {
+        Args: { p_attempt_id: string };
+        Returns: {
+          question_id: string;
+          change_index: number;
+          answer: string;
+          changed_at: string;
+          credit: number;
+        }[];
+      };
+      admin_get_exam_questions: {
+        Args: { p_exam_id: string };
+        Returns: Database["public"]["Tables"]["questions"]["Row"][];
+      };
+      admin_question_content_issues: {
+        Args: { p_exam_id?: string | null };
+        Returns: {
+          exam_id: string;
+          question_number: number;
+          question_id: string;
+          issue: string;
+        }[];
+      };
+      get_attempt_clock: {
+        Args: { p_attempt_id: string };
+        Returns: Json;
+      };
+      pause_exam_attempt: {
+        Args: { p_attempt_id: string };
+        Returns: Json;
+      };
+      resume_exam_attempt: {
+        Args: { p_attempt_id: string };
+        Returns: Json;
+      };
+      log_exam_violation: {
+        Args: {
+          p_attempt_id: string;
+          p_type: string;
+          p_question_id?: string | null;
+          p_details?: Json;
+        };
+        Returns: Json;
+      };
+      end_exam_violation: {
+        Args: { p_violation_id: string };
+        Returns: undefined;
+      };
+      get_dictation_prompts: {
+        Args: { p_attempt_id: string };
+        Returns: { question_id: string; dictation_text: string }[];
+      };
+      get_writing_responses: {
+        Args: { p_attempt_id: string };
+        Returns: {
+          question_id: string;
+          question_number: number;
+          question_text: string;
+          content: Json | null;
+          points: number;
+          answer: string | null;
+        }[];
+      };
+      mark_writing_response: {
+        Args: {
+          p_attempt_id: string;
+          p_question_id: string;
+          p_scores: Json;
+          p_comment?: string | null;
+        };
+        Returns: Json;
+      };
+      can_mark_attempt: {
+        Args: { p_attempt_id: string };
+        Returns: boolean;
+      };
+      advance_testlet: {
+        Args: { p_attempt_id: string; p_from_testlet_id: string };
+        Returns: Json;
+      };
+      get_practice_bank: {
+        Args: Record<string, never>;
+        Returns: {
+          subject: string;
+          year_level: number;
+          topic: string;
+          skill: string | null;
+          difficulty: string | null;
+          question_count: number;
+        }[];
+      };
+      create_practice_set: {
+        Args: {
+          p_title: string;
+          p_subject: string;
+          p_year_level: number | null;
+          p_topics: string[];
+          p_skills: string[];
+          p_difficulty: string;
+          p_question_count: number;
+          p_duration_minutes: number;
+        };
+        Returns: string;
+      };
+      get_due_reviews: {
+        Args: { p_due_before?: string; p_limit?: number };
+        Returns: {
+          item_id: string;
+          question_id: string;
+          exam_id: string;
+          due_at: string;
+          interval_days: number;
+          repetitions: number;
+          lapses: number;
+          dictation_text: string | null;
+        }[];
+      };
+      answer_review_item: {
+        Args: { p_item_id: string; p_answer: string };
+        Returns: Json;
+      };
+      rebuild_skill_mastery: {
+        Args: { p_user_id?: string | null };
+        Returns: number;
+      };
+      save_study_plan: {
+        Args: {
+          p_plan_id: string | null;
+          p_target_date: string;
+          p_year_level: number | null;
+          p_sessions_per_week: number;
+          p_items: Json;
+        };
+        Returns: string;
+      };
+      has_premium_access: {
+        Args: { user_uuid: string };
+        Returns: boolean;
+      };
+      is_parent_of: {
+        Args: { p_child_id: string };
+        Returns: boolean;
+      };
+      get_writing_to_mark: {
+        Args: { p_student_id: string };
+        Returns: {
+          attempt_id: string;
+          exam_id: string;
+          exam_title: string;
+          question_id: string;
+          question_number: number;
+          completed_at: string | null;
+          marked: boolean;
+        }[];
+      };
+      report_week_start: {
+        Args: { p_date?: string | null };
+        Returns: string;
+      };
+      get_weekly_report: {
+        Args: { p_student_id: string; p_week_start?: string | null };
+        Returns: Json;
+      };
+      join_class: {
+        Args: { p_join_code: string };
+        Returns: string;
+      };
+      import_class_roster: {
+        Args: { p_class_id: string; p_students: Json };
+        Returns: Json;
+      };
+      get_my_class_invites: {
+        Args: Record<string, never>;
+        Returns: {
+          class_id: string;
+          class_name: string;
+          subject: string | null;
+          year_level: number | null;
+          teacher_name: string | null;
+          invited_at: string;
+        }[];
+      };
+      respond_to_class_invite: {
+        Args: { p_class_id: string; p_accept: boolean };
+        Returns: undefined;
+      };
+      get_class_students: {
+        Args: { p_class_id: string };
+        Returns: {
+          id: string;
+          email: string;
+          full_name: string | null;
+          display_name: string | null;
+          year_level: number | null;
+          joined_at: string;
+        }[];
+      };
+      get_class_gradebook: {
+        Args: { p_class_id: string };
+        Returns: {
+          student_id: string;
+          assignment_id: string;
+          attempts: number;
+          completed: number;
+          best_percentage: number | null;
+          latest_percentage: number | null;
+          last_completed_at: string | null;
+        }[];
+      };
+      get_assignment_question_stats: {
+        Args: { p_assignment_id: string };
+        Returns: {
+          question_id: string;
+          question_number: number;
+          question_text: string;
+          topic: string | null;
+          answered: number;
+          correct: number;
+          average_credit: number | null;
+        }[];
+      };
+      get_assignment_writing: {
+        Args: { p_assignment_id: string };
+        Returns: {
+          attempt_id: string;
+          student_id: string;
+          exam_id: string;
+          question_id: string;
+          question_number: number;
+          completed_at: string | null;
+          marked: boolean;
+        }[];
+      };
+      create_organisation: {
+        Args: { p_name: string; p_seat_limit: number; p_admin_email: string };
+        Returns: string;
+      };
+      invite_organisation_admin: {
+        Args: { p_organisation_id: string; p_email: string };
+        Returns: undefined;
+      };
+      get_organisation_admins: {
+        Args: { p_organisation_id: string };
+        Returns: { user_id: string; name: string; email: string }[];
+      };
+      get_my_organisation_admin_invites: {
+        Args: Record<string, never>;
+        Returns: {
+          organisation_id: string;
+          organisation_name: string;
+          invited_at: string;
+        }[];
+      };
+      respond_to_organisation_admin_invite: {
+        Args: { p_organisation_id: string; p_accept: boolean };
+        Returns: undefined;
+      };
+      invite_organisation_seats: {
+        Args: { p_organisation_id: string; p_emails: string[] };
+        Returns: Json;
+      };
+      get_my_seat_invites: {
+        Args: Record<string, never>;
+        Returns: {
+          organisation_id: string;
+          organisation_name: string;
+          invited_at: string;
+        }[];
+      };
+      respond_to_seat_invite: {
+        Args: { p_organisation_id: string; p_accept: boolean };
+        Returns: undefined;
+      };
+      revoke_organisation_seat: {
+        Args: { p_seat_id: string };
+        Returns: undefined;
+      };
+      get_organisation_usage: {
+        Args: { p_organisation_id: string; p_days?: number };
+        Returns: Json;
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -304,6 +1187,34 @@ export type UserProgress = Database["public"]["Tables"]["user_progress"]["Row"];
 export type Achievement = Database["public"]["Tables"]["achievements"]["Row"];
 export type UserAchievement =
   Database["public"]["Tables"]["user_achievements"]["Row"];
+export type AttemptQuestionResult =
+  Database["public"]["Tables"]["attempt_question_results"]["Row"];
+
+// A questions row as selected with PLAYER_QUESTION_COLUMNS (lib/grading.ts) -
+// everything but the answer key columns
+export interface PlayerQuestionRow {
+  id: string;
+  exam_id: string;
+  question_number: number;
+  question_text: string;
+  question_type: string;
+  options: Json | null;
+  points: number;
+  image_url: string | null;
+  hint: string | null;
+  content: Json;
+  options_data: Json;
+  match_targets: Json;
+  hint_content: Json;
+  difficulty: string | null;
+  topic: string | null;
+  skill: string | null;
+  numeric_tolerance: number | null;
+  audio_path: string | null;
+  stimulus_id: string | null;
+  spelling_pattern: string | null;
+  testlet_id: string | null;
+}
 
 // Insert types
 export type NewUserProfile =
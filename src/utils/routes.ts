@@ -40,6 +40,124 @@ export function getExamResultsRoute(examId: string, attemptId: string): string {
   );
 }
 
+/**
+ * Generate practice builder route with a subject and topic preselected
+ * @param subject - The subject to build from
+ * @param topic - Optional topic to practise
+ * @returns Route string like "/practice?subject=Numeracy&topic=Fractions"
+ */
+export function getPracticeBuilderRoute(
+  subject: string,
+  topic?: string | null,
+): string {
+  const params = new URLSearchParams({ subject });
+  if (topic) params.set("topic", topic);
+  return `${ROUTES.PRACTICE_BUILDER}?${params.toString()}`;
+}
+
+/**
+ * Generate teacher class route
+ * @param classId - The class ID
+ * @returns Route string like "/classes/abc123"
+ */
+export function getClassRoute(classId: string): string {
+  return ROUTES.CLASS.replace(":classId", classId);
+}
+
+/**
+ * Generate organisation seat management route
+ * @param organisationId - The organisation ID
+ * @returns Route string like "/organisations/abc123"
+ */
+export function getOrganisationRoute(organisationId: string): string {
+  return ROUTES.ORGANISATION.replace(":organisationId", organisationId);
+}
+
+/**
+ * Generate exam start route for a class assignment
+ * @param examId - The assigned exam ID
+ * @param assignmentId - The assignment ID
+ * @returns Route string like "/exam/abc123/start?assignment=def456"
+ */
+export function getAssignmentStartRoute(
+  examId: string,
+  assignmentId: string,
+): string {
+  return `${getExamStartRoute(examId)}?assignment=${assignmentId}`;
+}
+
+/**
+ * Generate printable weekly progress report route
+ * @param studentId - The student's user ID
+ * @param weekStart - Optional Monday of the week (YYYY-MM-DD), defaults to last week
+ * @returns Route string like "/report/abc123?week=2025-03-03"
+ */
+export function getProgressReportRoute(
+  studentId: string,
+  weekStart?: string | null,
+): string {
+  const route = ROUTES.PROGRESS_REPORT.replace(":studentId", studentId);
+  return weekStart ? `${route}?week=${weekStart}` : route;
+}
+
+/**
+ * Generate writing marking route
+ * @param examId - The exam ID
+ * @param attemptId - The attempt ID
+ * @param questionId - The extended-response question ID
+ * @returns Route string like "/exam/abc123/results/def456/writing/ghi789"
+ */
+export function getWritingMarkingRoute(
+  examId: string,
+  attemptId: string,
+  questionId: string,
+): string {
+  return ROUTES.WRITING_MARKING.replace(":examId", examId)
+    .replace(":attemptId", attemptId)
+    .replace(":questionId", questionId);
+}
+
+/**
+ * Generate admin exam editor route
+ * @param examId - The exam ID, or "new"
+ * @returns Route string like "/admin/exams/abc123"
+ */
+export function getAdminExamRoute(examId: string): string {
+  return ROUTES.ADMIN_EXAM.replace(":examId", examId);
+}
+
+/**
+ * Generate admin question editor route
+ * @param examId - The exam ID
+ * @param questionId - The question ID, or "new"
+ * @returns Route string like "/admin/exams/abc123/questions/def456"
+ */
+export function getAdminQuestionRoute(
+  examId: string,
+  questionId: string,
+): string {
+  return ROUTES.ADMIN_QUESTION.replace(":examId", examId).replace(
+    ":questionId",
+    questionId,
+  );
+}
+
+/**
+ * Generate admin stimulus editor route
+ * @param examId - The exam ID
+ * @param stimulusId - The stimulus ID, or "new"
+ * @returns Route string like "/admin/exams/abc123/stimuli/def456"
+ */
+export function getAdminStimulusRoute(
+  examId: string,
+  stimulusId: string,
+): string {
+  return ROUTES.ADMIN_STIMULUS.replace(":examId", examId).replace(
+    ":stimulusId",
+    stimulusId,
+  );
+}
+
 /**
  * Type-safe route parameters
  */
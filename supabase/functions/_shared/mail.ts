@@ -0,0 +1,127 @@
+// Shared mail sending for edge functions
+//
+// MAIL_PROVIDER picks how mail goes out:
+//   smtp    (default) any SMTP server - SMTP_HOST, SMTP_PORT, SMTP_USERNAME,
+//           SMTP_PASSWORD, SMTP_TLS. With no SMTP_HOST it sends to the local
+//           Inbucket from `supabase start` (smtp_port in config.toml), so
+//           mail can be checked at http://localhost:54324
+//   resend  the Resend API - RESEND_API_KEY
+// MAIL_FROM is the sender for both.
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface MailProvider {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "EduAssess <reports@eduassess.local>";
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+export function createSmtpProvider(options: {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+  tls: boolean;
+  from: string;
+}): MailProvider {
+  return {
+    name: "smtp",
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: options.hostname,
+          port: options.port,
+          tls: options.tls,
+          auth:
+            options.username && options.password
+              ? { username: options.username, password: options.password }
+              : undefined,
+        },
+      });
+
+      try {
+        await client.send({
+          from: options.from,
+          to: message.to,
+          subject: message.subject,
+          content: message.text,
+          html: message.html,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+export function createResendProvider(options: {
+  apiKey: string;
+  from: string;
+}): MailProvider {
+  return {
+    name: "resend",
+    async send(message) {
+      const res = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${options.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: options.from,
+          to: [message.to],
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+        }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`Resend error ${res.status}: ${await res.text()}`);
+      }
+    },
+  };
+}
+
+// ============================================
+// CONFIGURED PROVIDER
+// ============================================
+
+export function getMailProvider(): MailProvider {
+  const from = Deno.env.get("MAIL_FROM") || DEFAULT_FROM;
+  const provider = Deno.env.get("MAIL_PROVIDER") || "smtp";
+
+  if (provider === "resend") {
+    const apiKey = Deno.env.get("RESEND_API_KEY");
+    if (!apiKey) {
+      throw new Error("RESEND_API_KEY is not set");
+    }
+    return createResendProvider({ apiKey, from });
+  }
+
+  if (provider === "smtp") {
+    return createSmtpProvider({
+      // The edge runtime runs in Docker, next to the local Inbucket
+      hostname: Deno.env.get("SMTP_HOST") || "host.docker.internal",
+      port: Number(Deno.env.get("SMTP_PORT") || 54325),
+      username: Deno.env.get("SMTP_USERNAME"),
+      password: Deno.env.get("SMTP_PASSWORD"),
+      tls: Deno.env.get("SMTP_TLS") === "true",
+      from,
+    });
+  }
+
+  throw new Error(`Unknown MAIL_PROVIDER "${provider}"`);
+}
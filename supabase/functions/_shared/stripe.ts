@@ -0,0 +1,140 @@
+// Shared Stripe helpers for the subscription edge functions
+//
+// Plain form-encoded fetches against the Stripe API, as in
+// create-checkout-session. Needs STRIPE_SECRET_KEY; plan changes also need
+// STRIPE_MONTHLY_PRICE_ID and STRIPE_YEARLY_PRICE_ID - the same prices as
+// the app's VITE_STRIPE_MONTHLY_PRICE_ID / VITE_STRIPE_YEARLY_PRICE_ID.
+
+export const stripeBaseUrl = "https://api.stripe.com/v1";
+
+export type PlanId = "monthly" | "yearly";
+
+export class StripeRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+  }
+}
+
+export async function stripeRequest(
+  stripeKey: string,
+  method: "GET" | "POST" | "DELETE",
+  path: string,
+  params: Record<string, string> = {},
+): Promise<any> {
+  const query = new URLSearchParams(params);
+  const url =
+    method !== "POST" && query.toString()
+      ? `${stripeBaseUrl}${path}?${query}`
+      : `${stripeBaseUrl}${path}`;
+
+  const res = await fetch(url, {
+    method,
+    headers: {
+      Authorization: `Bearer ${stripeKey}`,
+      ...(method === "POST"
+        ? { "Content-Type": "application/x-www-form-urlencoded" }
+        : {}),
+    },
+    body: method === "POST" ? query : undefined,
+  });
+
+  const data = await res.json();
+  if (!res.ok) {
+    throw new StripeRequestError(
+      data.error?.message || "Stripe request failed",
+      res.status,
+    );
+  }
+
+  return data;
+}
+
+// ============================================
+// PLANS
+// ============================================
+
+export function getPlanPriceId(planId: PlanId): string | undefined {
+  return Deno.env.get(
+    planId === "yearly" ? "STRIPE_YEARLY_PRICE_ID" : "STRIPE_MONTHLY_PRICE_ID",
+  );
+}
+
+// Falls back to the price ID naming stripe-webhook has always relied on
+export function getPlanIdForPrice(priceId: string | undefined): PlanId {
+  if (priceId && priceId === Deno.env.get("STRIPE_YEARLY_PRICE_ID")) {
+    return "yearly";
+  }
+  if (priceId && priceId === Deno.env.get("STRIPE_MONTHLY_PRICE_ID")) {
+    return "monthly";
+  }
+  return priceId?.includes("yearly") ? "yearly" : "monthly";
+}
+
+/**
+ * The user_subscriptions columns a Stripe subscription decides, the same
+ * way stripe-webhook writes them - so the app shows a change straight away
+ * instead of waiting for the webhook. syncedAt is when the subscription
+ * looked like this (migration 027): now for one just read from Stripe, the
+ * event's created time for one from a webhook payload.
+ */
+export function toSubscriptionRow(
+  subscription: any,
+  syncedAt = new Date().toISOString(),
+) {
+  return {
+    stripe_subscription_id: subscription.id,
+    plan_id: getPlanIdForPrice(subscription.items.data[0]?.price.id),
+    status: subscription.status,
+    current_period_start: new Date(
+      subscription.current_period_start * 1000,
+    ).toISOString(),
+    current_period_end: new Date(
+      subscription.current_period_end * 1000,
+    ).toISOString(),
+    cancel_at_period_end: subscription.cancel_at_period_end,
+    stripe_synced_at: syncedAt,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+// ============================================
+// CALLER
+// ============================================
+
+/**
+ * The signed-in caller's user_subscriptions row, from the request's access
+ * token. Functions act on the caller's own subscription only.
+ */
+export async function getCallerSubscription(
+  supabase: any,
+  req: Request,
+): Promise<
+  { userId: string; subscription: any } | { error: string; status: number }
+> {
+  const token = (req.headers.get("Authorization") || "").replace(
+    /^Bearer\s+/i,
+    "",
+  );
+  const {
+    data: { user },
+  } = await supabase.auth.getUser(token);
+
+  if (!user) {
+    return { error: "Not signed in", status: 401 };
+  }
+
+  const { data: subscription } = await supabase
+    .from("user_subscriptions")
+    .select("*")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (!subscription?.stripe_subscription_id) {
+    return { error: "You don't have a subscription", status: 404 };
+  }
+
+  return { userId: user.id, subscription };
+}
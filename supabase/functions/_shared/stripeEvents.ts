@@ -0,0 +1,468 @@
+// Stripe event handling, shared by stripe-webhook and replay-stripe-event
+//
+// Every event goes through the stripe_events ledger (migration 027):
+// runStripeEvent() claims it, acts on it and records how it went, so an
+// event Stripe delivers twice is only acted on once. Handlers that write an
+// event's own payload skip rows already holding newer state
+// (stripe_synced_at); the ones that read the subscription back from Stripe
+// write what is true now, whatever order the events arrived in.
+// The trial reminder needs the mail settings from _shared/mail.ts, and
+// APP_URL for its link.
+
+import { getMailProvider } from "./mail.ts";
+import { stripeRequest, toSubscriptionRow } from "./stripe.ts";
+
+export interface EventOutcome {
+  status: "processed" | "ignored";
+  // Why an event was ignored
+  note?: string;
+}
+
+export interface EventRun {
+  eventId: string;
+  type: string;
+  // False when the event was already handled, or is being handled now
+  claimed: boolean;
+  status?: "processed" | "ignored" | "failed";
+  note?: string;
+}
+
+function errorMessage(error: any): string {
+  return error?.message || String(error);
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+/**
+ * Claims the event in stripe_events, handles it and records the outcome.
+ * A handler error is recorded against the event rather than thrown - the
+ * caller decides whether Stripe should retry. force re-runs an event that
+ * was already processed or ignored (admin replay).
+ */
+export async function runStripeEvent(
+  supabase: any,
+  stripeKey: string,
+  event: any,
+  force = false,
+): Promise<EventRun> {
+  const { data: claimed, error: claimError } = await supabase.rpc(
+    "claim_stripe_event",
+    { p_event: event, p_force: force },
+  );
+  if (claimError) throw claimError;
+
+  if (!claimed) {
+    return { eventId: event.id, type: event.type, claimed: false };
+  }
+
+  let outcome: EventOutcome | { status: "failed"; note: string };
+  try {
+    outcome = await handleStripeEvent(supabase, stripeKey, event);
+  } catch (error) {
+    console.error(`Error handling Stripe event ${event.id}:`, error);
+    outcome = { status: "failed", note: errorMessage(error) };
+  }
+
+  // Left in processing if this fails, which can be claimed again later
+  const { error } = await supabase
+    .from("stripe_events")
+    .update({
+      status: outcome.status,
+      note: outcome.note ?? null,
+      processed_at:
+        outcome.status === "failed" ? null : new Date().toISOString(),
+    })
+    .eq("id", event.id);
+
+  if (error) {
+    console.error("Error recording Stripe event:", error);
+  }
+
+  return { eventId: event.id, type: event.type, claimed: true, ...outcome };
+}
+
+async function handleStripeEvent(
+  supabase: any,
+  stripeKey: string,
+  event: any,
+): Promise<EventOutcome> {
+  const object = event.data.object;
+  const eventTime = new Date(event.created * 1000).toISOString();
+
+  switch (event.type) {
+    case "checkout.session.completed":
+      return handleCheckoutCompleted(supabase, stripeKey, object);
+
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+      return syncSubscription(supabase, object, eventTime);
+
+    case "customer.subscription.deleted":
+      return handleSubscriptionDeleted(supabase, object, eventTime);
+
+    case "customer.subscription.trial_will_end":
+      return handleTrialWillEnd(supabase, object);
+
+    case "invoice.paid":
+      return handleInvoicePaid(supabase, stripeKey, object);
+
+    case "invoice.payment_failed":
+      return handlePaymentFailed(supabase, object, eventTime);
+
+    case "charge.refunded":
+      return handleChargeRefunded(supabase, stripeKey, object);
+
+    default:
+      return { status: "ignored", note: "Unhandled event type" };
+  }
+}
+
+// ============================================
+// WRITES
+// ============================================
+
+async function findSubscriptionUser(
+  supabase: any,
+  customerId: string,
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("user_subscriptions")
+    .select("user_id")
+    .eq("stripe_customer_id", customerId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.user_id ?? null;
+}
+
+// Applies the update only if the row doesn't already hold newer state. When
+// nothing was updated, a second read tells a missing row from a stale event.
+async function updateIfNewer(
+  supabase: any,
+  table: "user_subscriptions" | "organisations",
+  column: string,
+  value: string,
+  row: Record<string, unknown> & { stripe_synced_at: string },
+): Promise<EventOutcome> {
+  const { data, error } = await supabase
+    .from(table)
+    .update(row)
+    .eq(column, value)
+    .or(
+      `stripe_synced_at.is.null,stripe_synced_at.lte."${row.stripe_synced_at}"`,
+    )
+    .select(column);
+
+  if (error) throw error;
+  if (data.length) return { status: "processed" };
+
+  const { data: existing, error: existingError } = await supabase
+    .from(table)
+    .select("stripe_synced_at")
+    .eq(column, value)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+
+  if (!existing) {
+    console.warn(`Stripe event for a missing ${table} row: ${column}=${value}`);
+    return {
+      status: "ignored",
+      note: `No ${table} row with ${column} ${value}`,
+    };
+  }
+
+  return {
+    status: "ignored",
+    note: `Older than the ${table} row's state (synced ${existing.stripe_synced_at})`,
+  };
+}
+
+// School licences (migration 026): set up in Stripe with
+// metadata.organisation_id on the subscription, one unit per seat
+const ORGANISATION_STATUSES = [
+  "active",
+  "trialing",
+  "past_due",
+  "canceled",
+  "unpaid",
+];
+
+function syncOrganisation(
+  supabase: any,
+  subscription: any,
+  syncedAt: string,
+): Promise<EventOutcome> {
+  const status = ORGANISATION_STATUSES.includes(subscription.status)
+    ? subscription.status
+    : "unpaid";
+
+  return updateIfNewer(
+    supabase,
+    "organisations",
+    "id",
+    subscription.metadata.organisation_id,
+    {
+      stripe_customer_id: subscription.customer,
+      stripe_subscription_id: subscription.id,
+      seat_limit: subscription.items.data[0]?.quantity ?? 0,
+      status,
+      current_period_end: new Date(
+        subscription.current_period_end * 1000,
+      ).toISOString(),
+      stripe_synced_at: syncedAt,
+    },
+  );
+}
+
+async function syncSubscription(
+  supabase: any,
+  subscription: any,
+  syncedAt: string,
+): Promise<EventOutcome> {
+  if (subscription.metadata?.organisation_id) {
+    return syncOrganisation(supabase, subscription, syncedAt);
+  }
+
+  const userId = await findSubscriptionUser(supabase, subscription.customer);
+  if (!userId) {
+    return { status: "ignored", note: "No user for this customer" };
+  }
+
+  return updateIfNewer(
+    supabase,
+    "user_subscriptions",
+    "user_id",
+    userId,
+    toSubscriptionRow(subscription, syncedAt),
+  );
+}
+
+// ============================================
+// HANDLERS
+// ============================================
+
+async function handleCheckoutCompleted(
+  supabase: any,
+  stripeKey: string,
+  session: any,
+): Promise<EventOutcome> {
+  if (!session.subscription) {
+    return { status: "ignored", note: "Not a subscription checkout" };
+  }
+
+  const customer = await stripeRequest(
+    stripeKey,
+    "GET",
+    `/customers/${session.customer}`,
+  );
+  const userId = customer.metadata?.supabase_user_id;
+
+  if (!userId) {
+    return { status: "ignored", note: "No user ID in customer metadata" };
+  }
+
+  // Read back rather than taken from the session, so it is current even if
+  // later subscription events were handled first
+  const subscription = await stripeRequest(
+    stripeKey,
+    "GET",
+    `/subscriptions/${session.subscription}`,
+  );
+
+  const { error } = await supabase.from("user_subscriptions").upsert(
+    {
+      user_id: userId,
+      stripe_customer_id: session.customer,
+      ...toSubscriptionRow(subscription),
+    },
+    { onConflict: "user_id" },
+  );
+
+  if (error) throw error;
+  return { status: "processed" };
+}
+
+async function handleSubscriptionDeleted(
+  supabase: any,
+  subscription: any,
+  syncedAt: string,
+): Promise<EventOutcome> {
+  if (subscription.metadata?.organisation_id) {
+    return syncOrganisation(
+      supabase,
+      { ...subscription, status: "canceled" },
+      syncedAt,
+    );
+  }
+
+  const userId = await findSubscriptionUser(supabase, subscription.customer);
+  if (!userId) {
+    return { status: "ignored", note: "No user for this customer" };
+  }
+
+  return updateIfNewer(supabase, "user_subscriptions", "user_id", userId, {
+    status: "canceled",
+    plan_id: "free",
+    cancel_at_period_end: false,
+    stripe_synced_at: syncedAt,
+    updated_at: new Date().toISOString(),
+  });
+}
+
+// A paid invoice can end past_due or start a new period - the subscription
+// is read back to pick up either
+async function handleInvoicePaid(
+  supabase: any,
+  stripeKey: string,
+  invoice: any,
+): Promise<EventOutcome> {
+  if (!invoice.subscription) {
+    return { status: "ignored", note: "Not a subscription invoice" };
+  }
+
+  const subscription = await stripeRequest(
+    stripeKey,
+    "GET",
+    `/subscriptions/${invoice.subscription}`,
+  );
+
+  return syncSubscription(supabase, subscription, new Date().toISOString());
+}
+
+async function handlePaymentFailed(
+  supabase: any,
+  invoice: any,
+  syncedAt: string,
+): Promise<EventOutcome> {
+  const userId = await findSubscriptionUser(supabase, invoice.customer);
+  if (!userId) {
+    return { status: "ignored", note: "No user for this customer" };
+  }
+
+  return updateIfNewer(supabase, "user_subscriptions", "user_id", userId, {
+    status: "past_due",
+    stripe_synced_at: syncedAt,
+    updated_at: new Date().toISOString(),
+  });
+}
+
+// A refund doesn't end Premium by itself - a goodwill refund keeps the
+// subscription. The subscription is read back so the row matches whatever
+// was done alongside the refund in Stripe; a cancellation is picked up here
+// or by customer.subscription.deleted, and cancel-subscription is the way
+// to end one from the app.
+async function handleChargeRefunded(
+  supabase: any,
+  stripeKey: string,
+  charge: any,
+): Promise<EventOutcome> {
+  if (!charge.invoice) {
+    return { status: "ignored", note: "Not a subscription payment" };
+  }
+
+  const invoice = await stripeRequest(
+    stripeKey,
+    "GET",
+    `/invoices/${charge.invoice}`,
+  );
+  if (!invoice.subscription) {
+    return { status: "ignored", note: "Not a subscription payment" };
+  }
+
+  const subscription = await stripeRequest(
+    stripeKey,
+    "GET",
+    `/subscriptions/${invoice.subscription}`,
+  );
+
+  return subscription.status === "canceled"
+    ? handleSubscriptionDeleted(
+        supabase,
+        subscription,
+        new Date().toISOString(),
+      )
+    : syncSubscription(supabase, subscription, new Date().toISOString());
+}
+
+// Stripe sends this three days before a trial ends
+async function handleTrialWillEnd(
+  supabase: any,
+  subscription: any,
+): Promise<EventOutcome> {
+  if (subscription.metadata?.organisation_id) {
+    return { status: "ignored", note: "School licence" };
+  }
+
+  const userId = await findSubscriptionUser(supabase, subscription.customer);
+  if (!userId || !subscription.trial_end) {
+    return { status: "ignored", note: "No user for this customer" };
+  }
+
+  const { data: profile, error } = await supabase
+    .from("user_profiles")
+    .select("email")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!profile?.email) {
+    return { status: "ignored", note: "No email address" };
+  }
+
+  const appUrl = Deno.env.get("APP_URL");
+
+  await getMailProvider().send({
+    to: profile.email,
+    ...renderTrialEndingEmail(
+      new Date(subscription.trial_end * 1000),
+      subscription.cancel_at_period_end,
+      appUrl ? `${appUrl}/profile` : null,
+    ),
+  });
+
+  return { status: "processed" };
+}
+
+function renderTrialEndingEmail(
+  trialEnd: Date,
+  cancelling: boolean,
+  profileUrl: string | null,
+): { subject: string; html: string; text: string } {
+  const date = trialEnd.toLocaleDateString("en-AU", {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+  });
+  const subject = `Your EduAssess Premium trial ends on ${date}`;
+  const message = cancelling
+    ? `Your Premium trial ends on ${date}. You've cancelled, so you won't be charged and your account goes back to the free plan.`
+    : `Your Premium trial ends on ${date}. Your subscription starts then and your card will be charged for the first period.`;
+  const action = cancelling
+    ? "Changed your mind? You can resume your subscription from your profile."
+    : "You can switch plans or cancel from your profile before then.";
+
+  const text = [message, "", action, profileUrl ? `\n${profileUrl}` : null]
+    .filter((line) => line !== null)
+    .join("\n");
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f3ff;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+    <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:16px;padding:24px;">
+      <h1 style="margin:0 0 16px;font-size:22px;">Your trial ends on ${date}</h1>
+      <p style="margin:0 0 12px;">${message}</p>
+      <p style="margin:0 0 20px;color:#6b7280;">${action}</p>
+      ${
+        profileUrl
+          ? `<p style="margin:0;"><a href="${profileUrl}" style="display:inline-block;padding:10px 20px;background:#6366f1;color:#ffffff;border-radius:10px;text-decoration:none;font-weight:bold;">Manage your subscription</a></p>`
+          : ""
+      }
+    </div>
+  </body>
+</html>`;
+
+  return { subject, html, text };
+}
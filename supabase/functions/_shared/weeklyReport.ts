@@ -0,0 +1,213 @@
+// Weekly parent report email (migration 024)
+//
+// Renders get_weekly_report() as an email. The app's printable report
+// (src/pages/ProgressReportPage.tsx) shows the same data - keep the two
+// in step, and WeeklyReport in step with src/lib/parentReports.ts.
+
+export interface WeeklyReport {
+  student: {
+    id: string;
+    name: string;
+    year_level: number | null;
+    has_parent_account: boolean;
+  };
+  week_start: string;
+  week_end: string;
+  exams_taken: number;
+  average_score: number | null;
+  time_studied_seconds: number;
+  exams: {
+    attempt_id: string;
+    exam_id: string;
+    title: string;
+    subject: string;
+    percentage: number | null;
+    completed_at: string;
+    time_spent_seconds: number;
+    flags: number;
+  }[];
+  score_trend: {
+    week_start: string;
+    exams: number;
+    average_score: number | null;
+  }[];
+  weakest_skills: {
+    subject: string;
+    topic: string;
+    skill: string | null;
+    mastery: number;
+    observations: number;
+  }[];
+  integrity: {
+    total: number;
+    tab_switches: number;
+    copy_paste: number;
+    other: number;
+    time_away_seconds: number;
+    attempts_flagged: number;
+  };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Report weeks are Melbourne weeks (report_week_start() in migration 024)
+const REPORT_TIME_ZONE = "Australia/Melbourne";
+
+// Takes a report date (YYYY-MM-DD) or a timestamp
+function formatDay(date: string): string {
+  const value = date.length === 10 ? `${date}T12:00:00+10:00` : date;
+  return new Date(value).toLocaleDateString("en-AU", {
+    timeZone: REPORT_TIME_ZONE,
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+}
+
+function formatMinutes(seconds: number): string {
+  const mins = Math.round(seconds / 60);
+  if (mins < 60) return `${mins} min`;
+  const hours = Math.floor(mins / 60);
+  return mins % 60 ? `${hours} h ${mins % 60} min` : `${hours} h`;
+}
+
+function skillName(skill: WeeklyReport["weakest_skills"][number]): string {
+  return skill.skill ? `${skill.topic} › ${skill.skill}` : skill.topic;
+}
+
+function trendSummary(report: WeeklyReport): string | null {
+  const scored = report.score_trend.filter((w) => w.average_score !== null);
+  if (scored.length < 2 || report.average_score === null) return null;
+  const previous = scored[scored.length - 2].average_score as number;
+  const change = report.average_score - previous;
+  if (change === 0) return "Same average as the week before";
+  return `${change > 0 ? "Up" : "Down"} ${Math.abs(change)} points on the week before`;
+}
+
+export function renderWeeklyReportEmail(
+  report: WeeklyReport,
+  reportUrl: string | null,
+): { subject: string; html: string; text: string } {
+  const name = report.student.name;
+  const week = `${formatDay(report.week_start)} – ${formatDay(report.week_end)}`;
+  const subject = `${name}'s week on EduAssess (${week})`;
+  const trend = trendSummary(report);
+  const { integrity } = report;
+
+  // Plain text version
+  const text = [
+    `${name}'s week: ${week}`,
+    "",
+    `Exams taken: ${report.exams_taken}`,
+    `Average score: ${report.average_score === null ? "-" : `${report.average_score}%`}`,
+    trend,
+    `Time studied: ${formatMinutes(report.time_studied_seconds)}`,
+    "",
+    ...report.exams.map(
+      (e) =>
+        `- ${e.title} (${e.subject}): ${e.percentage === null ? "-" : `${Math.round(e.percentage)}%`}`,
+    ),
+    "",
+    "Score trend:",
+    ...report.score_trend.map(
+      (w) =>
+        `- Week of ${formatDay(w.week_start)}: ${w.average_score === null ? "no exams" : `${w.average_score}% over ${w.exams} exam${w.exams === 1 ? "" : "s"}`}`,
+    ),
+    "",
+    "Skills to work on:",
+    ...(report.weakest_skills.length
+      ? report.weakest_skills.map(
+          (s) => `- ${skillName(s)} (${s.subject}): ${s.mastery}%`,
+        )
+      : ["- Not enough answers yet"]),
+    "",
+    integrity.total
+      ? `Integrity flags: ${integrity.total} (${integrity.tab_switches} tab switches, ${integrity.copy_paste} copy/paste) in ${integrity.attempts_flagged} exam${integrity.attempts_flagged === 1 ? "" : "s"}`
+      : "Integrity flags: none",
+    reportUrl ? `\nPrintable report: ${reportUrl}` : null,
+  ]
+    .filter((line) => line !== null)
+    .join("\n");
+
+  const cell = "padding:8px 12px;border-bottom:1px solid #e5e7eb;";
+  const examRows = report.exams.length
+    ? report.exams
+        .map(
+          (e) => `<tr>
+            <td style="${cell}">${escapeHtml(e.title)}<br><span style="color:#6b7280;font-size:12px;">${escapeHtml(e.subject)} · ${formatDay(e.completed_at)}${e.flags ? ` · ⚠️ ${e.flags} flag${e.flags === 1 ? "" : "s"}` : ""}</span></td>
+            <td style="${cell}text-align:right;font-weight:bold;">${e.percentage === null ? "-" : `${Math.round(e.percentage)}%`}</td>
+          </tr>`,
+        )
+        .join("")
+    : `<tr><td style="${cell}color:#6b7280;" colspan="2">No exams this week</td></tr>`;
+
+  const trendBars = report.score_trend
+    .map(
+      (
+        w,
+      ) => `<td style="vertical-align:bottom;text-align:center;padding:0 6px;">
+          <div style="font-size:12px;color:#374151;">${w.average_score === null ? "-" : `${w.average_score}%`}</div>
+          <div style="width:32px;margin:4px auto;background:#6366f1;border-radius:4px 4px 0 0;height:${Math.max(4, Math.round((w.average_score ?? 0) * 0.8))}px;"></div>
+          <div style="font-size:11px;color:#6b7280;">${formatDay(w.week_start)}</div>
+        </td>`,
+    )
+    .join("");
+
+  const skillRows = report.weakest_skills.length
+    ? report.weakest_skills
+        .map(
+          (s) =>
+            `<li>${escapeHtml(skillName(s))} <span style="color:#6b7280;">(${escapeHtml(s.subject)})</span> – ${s.mastery}%</li>`,
+        )
+        .join("")
+    : "<li>Not enough answers yet</li>";
+
+  const html = `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f5f3ff;font-family:Arial,Helvetica,sans-serif;color:#1f2937;">
+    <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:16px;padding:24px;">
+      <h1 style="margin:0 0 4px;font-size:22px;">${escapeHtml(name)}'s week</h1>
+      <p style="margin:0 0 20px;color:#6b7280;">${week}</p>
+
+      <table style="width:100%;border-collapse:collapse;margin-bottom:20px;">
+        <tr>
+          <td style="text-align:center;"><div style="font-size:24px;font-weight:bold;">${report.exams_taken}</div><div style="color:#6b7280;font-size:12px;">exams taken</div></td>
+          <td style="text-align:center;"><div style="font-size:24px;font-weight:bold;">${report.average_score === null ? "-" : `${report.average_score}%`}</div><div style="color:#6b7280;font-size:12px;">average score</div></td>
+          <td style="text-align:center;"><div style="font-size:24px;font-weight:bold;">${formatMinutes(report.time_studied_seconds)}</div><div style="color:#6b7280;font-size:12px;">time studied</div></td>
+        </tr>
+      </table>
+
+      <h2 style="font-size:16px;margin:0 0 8px;">Exams</h2>
+      <table style="width:100%;border-collapse:collapse;margin-bottom:20px;">${examRows}</table>
+
+      <h2 style="font-size:16px;margin:0 0 8px;">Score trend</h2>
+      ${trend ? `<p style="margin:0 0 8px;color:#374151;">${trend}</p>` : ""}
+      <table style="margin-bottom:20px;"><tr>${trendBars}</tr></table>
+
+      <h2 style="font-size:16px;margin:0 0 8px;">Skills to work on</h2>
+      <ul style="margin:0 0 20px;padding-left:20px;">${skillRows}</ul>
+
+      <h2 style="font-size:16px;margin:0 0 8px;">Integrity flags</h2>
+      <p style="margin:0 0 20px;">${
+        integrity.total
+          ? `${integrity.total} flag${integrity.total === 1 ? "" : "s"} in ${integrity.attempts_flagged} exam${integrity.attempts_flagged === 1 ? "" : "s"}: ${integrity.tab_switches} tab switches (${formatMinutes(integrity.time_away_seconds)} away), ${integrity.copy_paste} copy/paste, ${integrity.other} other.`
+          : "None this week 👍"
+      }</p>
+
+      ${
+        reportUrl
+          ? `<p style="margin:0;"><a href="${escapeHtml(reportUrl)}" style="display:inline-block;padding:10px 20px;background:#6366f1;color:#ffffff;border-radius:10px;text-decoration:none;font-weight:bold;">Open the printable report</a></p>`
+          : ""
+      }
+    </div>
+  </body>
+</html>`;
+
+  return { subject, html, text };
+}
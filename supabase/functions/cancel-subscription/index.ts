@@ -0,0 +1,86 @@
+// Supabase Edge Function: cancel-subscription
+// Deploy with: supabase functions deploy cancel-subscription
+//
+// Cancels the caller's subscription at the end of the period they've paid
+// for - Premium stays until then, and reactivate-subscription can undo it.
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getCallerSubscription,
+  stripeRequest,
+  StripeRequestError,
+  toSubscriptionRow,
+} from "../_shared/stripe.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!stripeKey || !supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Missing environment variables" }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const caller = await getCallerSubscription(supabase, req);
+    if ("error" in caller) {
+      return jsonResponse({ error: caller.error }, caller.status);
+    }
+
+    const { userId, subscription: current } = caller;
+
+    if (!["active", "trialing", "past_due"].includes(current.status)) {
+      return jsonResponse(
+        { error: "Your subscription has already ended" },
+        409,
+      );
+    }
+
+    const subscription = await stripeRequest(
+      stripeKey,
+      "POST",
+      `/subscriptions/${current.stripe_subscription_id}`,
+      { cancel_at_period_end: "true" },
+    );
+
+    await supabase
+      .from("user_subscriptions")
+      .update(toSubscriptionRow(subscription))
+      .eq("user_id", userId);
+
+    return jsonResponse({
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+      // Premium until then
+      effectiveDate: new Date(
+        subscription.current_period_end * 1000,
+      ).toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof StripeRequestError) {
+      return jsonResponse({ error: error.message }, 502);
+    }
+    const message =
+      error instanceof Error ? error.message : "Internal server error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
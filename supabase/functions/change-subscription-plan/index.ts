@@ -0,0 +1,196 @@
+// Supabase Edge Function: change-subscription-plan
+// Deploy with: supabase functions deploy change-subscription-plan
+//
+// Switches the caller between the monthly and yearly plans. Changing the
+// billing interval takes effect straight away: Stripe credits the unused
+// time on the old plan, starts a new period on the new one and invoices
+// the difference at once (any credit left over pays future invoices).
+//
+// Body: { planId: "monthly" | "yearly", preview?: boolean,
+//         prorationDate?: number }
+//   preview        returns what the switch will charge, without changing
+//                  anything
+//   prorationDate  the one the preview returned, so the charge matches
+//                  what the user was shown
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  getCallerSubscription,
+  getPlanIdForPrice,
+  getPlanPriceId,
+  stripeRequest,
+  StripeRequestError,
+  toSubscriptionRow,
+  type PlanId,
+} from "../_shared/stripe.ts";
+
+// Long enough to read the preview and confirm
+const MAX_PRORATION_AGE_SECONDS = 60 * 60;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!stripeKey || !supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Missing environment variables" }, 500);
+    }
+
+    const body = await req.json();
+    const planId = body.planId as PlanId;
+
+    if (planId !== "monthly" && planId !== "yearly") {
+      return jsonResponse({ error: "Choose the monthly or yearly plan" }, 400);
+    }
+
+    const priceId = getPlanPriceId(planId);
+    if (!priceId) {
+      return jsonResponse({ error: "Plan prices aren't configured" }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const caller = await getCallerSubscription(supabase, req);
+    if ("error" in caller) {
+      return jsonResponse({ error: caller.error }, caller.status);
+    }
+
+    const { userId, subscription: current } = caller;
+
+    if (!["active", "trialing"].includes(current.status)) {
+      return jsonResponse(
+        { error: "Only an active subscription can switch plans" },
+        409,
+      );
+    }
+    if (current.cancel_at_period_end) {
+      return jsonResponse(
+        { error: "Resume your subscription before switching plans" },
+        409,
+      );
+    }
+
+    const subscription = await stripeRequest(
+      stripeKey,
+      "GET",
+      `/subscriptions/${current.stripe_subscription_id}`,
+    );
+    const item = subscription.items.data[0];
+
+    if (!item || item.price.id === priceId) {
+      return jsonResponse({ error: "You're already on this plan" }, 409);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const requested = Number(body.prorationDate);
+    const prorationDate =
+      !body.preview &&
+      Number.isInteger(requested) &&
+      requested <= now &&
+      now - requested <= MAX_PRORATION_AGE_SECONDS
+        ? requested
+        : now;
+
+    // ============================================
+    // PREVIEW
+    // ============================================
+
+    if (body.preview) {
+      const invoice = await stripeRequest(
+        stripeKey,
+        "GET",
+        "/invoices/upcoming",
+        {
+          customer: subscription.customer,
+          subscription: subscription.id,
+          "subscription_items[0][id]": item.id,
+          "subscription_items[0][price]": priceId,
+          subscription_proration_behavior: "always_invoice",
+          subscription_proration_date: String(prorationDate),
+        },
+      );
+
+      const lines = (invoice.lines?.data || []) as any[];
+      const newPeriod = lines.find((line) => !line.proration)?.period;
+
+      return jsonResponse({
+        planId,
+        prorationDate,
+        effectiveDate: new Date(prorationDate * 1000).toISOString(),
+        amountDue: invoice.amount_due,
+        // Left over when the unused time is worth more than the new plan
+        credit: Math.max(0, -invoice.total),
+        currency: invoice.currency,
+        nextRenewal: newPeriod
+          ? new Date(newPeriod.end * 1000).toISOString()
+          : null,
+        lines: lines.map((line) => ({
+          description: line.description,
+          amount: line.amount,
+        })),
+      });
+    }
+
+    // ============================================
+    // CHANGE
+    // ============================================
+
+    // pending_if_incomplete leaves the plan as it was if the charge fails
+    const updated = await stripeRequest(
+      stripeKey,
+      "POST",
+      `/subscriptions/${subscription.id}`,
+      {
+        "items[0][id]": item.id,
+        "items[0][price]": priceId,
+        proration_behavior: "always_invoice",
+        proration_date: String(prorationDate),
+        payment_behavior: "pending_if_incomplete",
+      },
+    );
+
+    if (updated.pending_update) {
+      return jsonResponse(
+        { error: "The payment didn't go through, so your plan hasn't changed" },
+        402,
+      );
+    }
+
+    await supabase
+      .from("user_subscriptions")
+      .update(toSubscriptionRow(updated))
+      .eq("user_id", userId);
+
+    return jsonResponse({
+      planId: getPlanIdForPrice(updated.items.data[0]?.price.id),
+      effectiveDate: new Date(prorationDate * 1000).toISOString(),
+      nextRenewal: new Date(updated.current_period_end * 1000).toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof StripeRequestError) {
+      return jsonResponse({ error: error.message }, 502);
+    }
+    const message =
+      error instanceof Error ? error.message : "Internal server error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,211 @@
+// Supabase Edge Function: manage-child-account
+// Deploy with: supabase functions deploy manage-child-account
+//
+// Creates, re-PINs and removes child logins for a parent account
+// (migration 023). Children sign in with a username and PIN, so their auth
+// user gets an address under CHILD_LOGIN_DOMAIN and the PIN as password -
+// keep both in step with src/lib/family.ts.
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const CHILD_LOGIN_DOMAIN = "children.eduassess.local";
+const MAX_CHILD_PROFILES = 3;
+const USERNAME_PATTERN = /^[a-z0-9_]{3,20}$/;
+const PIN_PATTERN = /^\d{6}$/;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Missing environment variables" }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The caller is whoever the request's access token belongs to
+    const token = (req.headers.get("Authorization") || "").replace(
+      /^Bearer\s+/i,
+      "",
+    );
+    const {
+      data: { user },
+    } = await supabase.auth.getUser(token);
+
+    if (!user) {
+      return jsonResponse({ error: "Not signed in" }, 401);
+    }
+
+    const { data: parent } = await supabase
+      .from("user_profiles")
+      .select("id, email, role")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    if (parent?.role !== "parent") {
+      return jsonResponse({ error: "Only parent accounts can do this" }, 403);
+    }
+
+    const body = await req.json();
+    const { action } = body;
+
+    // ============================================
+    // CREATE
+    // ============================================
+
+    if (action === "create") {
+      const username = String(body.username || "")
+        .trim()
+        .toLowerCase();
+      const pin = String(body.pin || "");
+      const fullName = String(body.fullName || "").trim();
+      const yearLevel = body.yearLevel ? Number(body.yearLevel) : null;
+
+      if (!fullName) {
+        return jsonResponse({ error: "Please enter your child's name" }, 400);
+      }
+      if (!USERNAME_PATTERN.test(username)) {
+        return jsonResponse(
+          {
+            error:
+              "Usernames are 3-20 lowercase letters, numbers or underscores",
+          },
+          400,
+        );
+      }
+      if (!PIN_PATTERN.test(pin)) {
+        return jsonResponse({ error: "The PIN must be 6 digits" }, 400);
+      }
+
+      const { count } = await supabase
+        .from("user_profiles")
+        .select("id", { count: "exact", head: true })
+        .eq("parent_id", parent.id);
+
+      if ((count || 0) >= MAX_CHILD_PROFILES) {
+        return jsonResponse(
+          {
+            error: `A family can have up to ${MAX_CHILD_PROFILES} child profiles`,
+          },
+          400,
+        );
+      }
+
+      const { data: taken } = await supabase
+        .from("user_profiles")
+        .select("id")
+        .eq("username", username)
+        .maybeSingle();
+
+      if (taken) {
+        return jsonResponse({ error: "That username is taken" }, 409);
+      }
+
+      const email = `${username}@${CHILD_LOGIN_DOMAIN}`;
+      const { data: created, error: createError } =
+        await supabase.auth.admin.createUser({
+          email,
+          password: pin,
+          email_confirm: true,
+          user_metadata: {
+            full_name: fullName,
+            year_level: yearLevel,
+            account_type: "child",
+          },
+        });
+
+      if (createError || !created.user) {
+        return jsonResponse(
+          { error: createError?.message || "Failed to create child login" },
+          400,
+        );
+      }
+
+      const { error: profileError } = await supabase
+        .from("user_profiles")
+        .upsert({
+          id: created.user.id,
+          email,
+          full_name: fullName,
+          year_level: yearLevel,
+          parent_email: parent.email,
+          parent_id: parent.id,
+          username,
+        });
+
+      if (profileError) {
+        // Don't leave a login behind without its profile
+        await supabase.auth.admin.deleteUser(created.user.id);
+        return jsonResponse({ error: profileError.message }, 400);
+      }
+
+      return jsonResponse({ childId: created.user.id });
+    }
+
+    // ============================================
+    // RESET PIN / REMOVE
+    // ============================================
+
+    const { data: child } = await supabase
+      .from("user_profiles")
+      .select("id")
+      .eq("id", body.childId || "")
+      .eq("parent_id", parent.id)
+      .maybeSingle();
+
+    if (!child) {
+      return jsonResponse({ error: "Child profile not found" }, 404);
+    }
+
+    if (action === "reset-pin") {
+      const pin = String(body.pin || "");
+      if (!PIN_PATTERN.test(pin)) {
+        return jsonResponse({ error: "The PIN must be 6 digits" }, 400);
+      }
+
+      const { error } = await supabase.auth.admin.updateUserById(child.id, {
+        password: pin,
+      });
+      if (error) {
+        return jsonResponse({ error: error.message }, 400);
+      }
+
+      return jsonResponse({ childId: child.id });
+    }
+
+    if (action === "remove") {
+      // Deleting the login removes the child's attempts and progress too
+      const { error } = await supabase.auth.admin.deleteUser(child.id);
+      if (error) {
+        return jsonResponse({ error: error.message }, 400);
+      }
+
+      return jsonResponse({ childId: child.id });
+    }
+
+    return jsonResponse({ error: "Unknown action" }, 400);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Internal server error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,119 @@
+// Supabase Edge Function: replay-stripe-event
+// Deploy with: supabase functions deploy replay-stripe-event
+//
+// Admin tool for the stripe_events ledger (migration 027): runs events
+// through the webhook's handlers again - ones that failed, or that were
+// processed and need redoing. An event id that isn't in the ledger (the
+// webhook never got it) is fetched from Stripe, which keeps events for 30
+// days. Events run oldest first, and the usual checks still apply, so a
+// replay never puts back state older than what is stored.
+//
+// Body: { eventIds: string[] }
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { stripeRequest, StripeRequestError } from "../_shared/stripe.ts";
+import { runStripeEvent, type EventRun } from "../_shared/stripeEvents.ts";
+
+const MAX_EVENTS = 25;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!stripeKey || !supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Missing environment variables" }, 500);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const token = (req.headers.get("Authorization") || "").replace(
+      /^Bearer\s+/i,
+      "",
+    );
+    const {
+      data: { user },
+    } = await supabase.auth.getUser(token);
+
+    if (!user) {
+      return jsonResponse({ error: "Not signed in" }, 401);
+    }
+
+    const { data: caller } = await supabase
+      .from("user_profiles")
+      .select("role")
+      .eq("id", user.id)
+      .maybeSingle();
+
+    if (caller?.role !== "admin") {
+      return jsonResponse({ error: "Only admins can replay events" }, 403);
+    }
+
+    const body = await req.json();
+    const eventIds: string[] = Array.isArray(body.eventIds)
+      ? [...new Set<string>(body.eventIds)].filter(
+          (id) => typeof id === "string" && id.startsWith("evt_"),
+        )
+      : [];
+
+    if (eventIds.length === 0) {
+      return jsonResponse({ error: "Choose the events to replay" }, 400);
+    }
+    if (eventIds.length > MAX_EVENTS) {
+      return jsonResponse(
+        { error: `Replay up to ${MAX_EVENTS} events at a time` },
+        400,
+      );
+    }
+
+    const { data: stored, error: storedError } = await supabase
+      .from("stripe_events")
+      .select("id, payload")
+      .in("id", eventIds);
+
+    if (storedError) throw storedError;
+
+    const events = (stored || []).map((row: any) => row.payload);
+    for (const id of eventIds) {
+      if (!events.some((event: any) => event.id === id)) {
+        events.push(await stripeRequest(stripeKey, "GET", `/events/${id}`));
+      }
+    }
+
+    events.sort((a: any, b: any) => a.created - b.created);
+
+    // One at a time, in the order they happened
+    const results: EventRun[] = [];
+    for (const event of events) {
+      results.push(await runStripeEvent(supabase, stripeKey, event, true));
+    }
+
+    return jsonResponse({ results });
+  } catch (error) {
+    if (error instanceof StripeRequestError) {
+      return jsonResponse({ error: error.message }, 502);
+    }
+    const message =
+      error instanceof Error ? error.message : "Internal server error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,130 @@
+// Supabase Edge Function: send-weekly-reports
+// Deploy with: supabase functions deploy send-weekly-reports
+//
+// Emails last week's progress report to each Premium student's linked
+// parent account (migration 024). pg_cron calls it every Monday morning
+// with the service role key. Mail goes through the provider set up in
+// _shared/mail.ts; APP_URL is used for the printable report link.
+//
+// Body (all optional): { weekStart: "YYYY-MM-DD", studentId: "<uuid>" }
+// to send one week or one student again, e.g. when testing locally.
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getMailProvider } from "../_shared/mail.ts";
+import {
+  renderWeeklyReportEmail,
+  type WeeklyReport,
+} from "../_shared/weeklyReport.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const appUrl = Deno.env.get("APP_URL");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      return jsonResponse({ error: "Missing environment variables" }, 500);
+    }
+
+    // Only the scheduler (or someone holding the service role key)
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const mail = getMailProvider();
+
+    const { data: weekStart, error: weekError } = await supabase.rpc(
+      "report_week_start",
+      { p_date: body.weekStart ?? null },
+    );
+    if (weekError) throw weekError;
+
+    const { data: recipients, error: recipientsError } = await supabase.rpc(
+      "get_weekly_report_recipients",
+      { p_week_start: weekStart },
+    );
+    if (recipientsError) throw recipientsError;
+
+    const selected = (
+      (recipients || []) as { student_id: string; recipient: string }[]
+    ).filter((r) => !body.studentId || r.student_id === body.studentId);
+
+    let sent = 0;
+    const failures: { studentId: string; error: string }[] = [];
+
+    // One at a time - a weekly batch doesn't need to hurry, and it keeps
+    // within mail provider rate limits
+    for (const recipient of selected) {
+      let status: "sent" | "failed" = "sent";
+      let errorMessage: string | null = null;
+
+      try {
+        const { data: report, error: reportError } = await supabase.rpc(
+          "get_weekly_report",
+          { p_student_id: recipient.student_id, p_week_start: weekStart },
+        );
+        if (reportError) throw reportError;
+
+        const weekly = report as WeeklyReport;
+        // Every recipient is a parent account, so can sign in to see it
+        const reportUrl = appUrl
+          ? `${appUrl}/report/${weekly.student.id}?week=${weekly.week_start}`
+          : null;
+
+        await mail.send({
+          to: recipient.recipient,
+          ...renderWeeklyReportEmail(weekly, reportUrl),
+        });
+        sent++;
+      } catch (error) {
+        status = "failed";
+        errorMessage = error instanceof Error ? error.message : String(error);
+        failures.push({ studentId: recipient.student_id, error: errorMessage });
+      }
+
+      await supabase.from("parent_report_deliveries").upsert(
+        {
+          student_id: recipient.student_id,
+          week_start: weekStart,
+          recipient: recipient.recipient,
+          status,
+          error: errorMessage,
+          sent_at: new Date().toISOString(),
+        },
+        { onConflict: "student_id,week_start" },
+      );
+    }
+
+    return jsonResponse({
+      weekStart,
+      provider: mail.name,
+      sent,
+      failed: failures.length,
+      failures,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Internal server error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -1,8 +1,14 @@
 // Supabase Edge Function: stripe-webhook
 // Deploy with: supabase functions deploy stripe-webhook
+//
+// Verifies the signature and hands the event to _shared/stripeEvents.ts,
+// which records it in the stripe_events ledger (migration 027) and acts on
+// it once. A failed event gets a 500 so Stripe retries it; a redelivery of
+// one already handled is acknowledged without acting again.
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { runStripeEvent } from "../_shared/stripeEvents.ts";
 
 serve(async (req: Request) => {
   if (req.method !== "POST") {
@@ -66,156 +72,26 @@ serve(async (req: Request) => {
   const event = JSON.parse(body);
   const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-  console.log(`Stripe webhook received: ${event.type}`);
+  console.log(`Stripe webhook received: ${event.type} (${event.id})`);
 
-  switch (event.type) {
-    case "checkout.session.completed":
-      await handleCheckoutCompleted(supabase, stripeKey, event.data.object);
-      break;
-
-    case "customer.subscription.created":
-    case "customer.subscription.updated":
-      await handleSubscriptionUpdated(supabase, event.data.object);
-      break;
-
-    case "customer.subscription.deleted":
-      await handleSubscriptionDeleted(supabase, event.data.object);
-      break;
-
-    case "invoice.payment_failed":
-      await handlePaymentFailed(supabase, event.data.object);
-      break;
-
-    default:
-      console.log("Unhandled event type:", event.type);
+  let run;
+  try {
+    run = await runStripeEvent(supabase, stripeKey, event);
+  } catch (error) {
+    // The ledger couldn't be reached - nothing was done, so let Stripe retry
+    console.error("Error recording Stripe event:", error);
+    return new Response("Could not record event", { status: 500 });
   }
 
-  return new Response(JSON.stringify({ received: true }), {
-    status: 200,
-    headers: { "Content-Type": "application/json" },
-  });
-});
-
-// ======================================================
-// HANDLER FUNCTIONS
-// ======================================================
-
-async function handleCheckoutCompleted(
-  supabase: any,
-  stripeKey: string,
-  session: any,
-) {
-  const customerId = session.customer;
-  const subscriptionId = session.subscription;
-
-  const customerRes = await fetch(
-    `https://api.stripe.com/v1/customers/${customerId}`,
-    { headers: { Authorization: `Bearer ${stripeKey}` } },
-  );
-  const customer = await customerRes.json();
-  const userId = customer.metadata?.supabase_user_id;
-
-  if (!userId) {
-    console.error("No user ID found in customer metadata");
-    return;
+  if (run.status === "failed") {
+    return new Response(`Event failed: ${run.note}`, { status: 500 });
   }
 
-  const subRes = await fetch(
-    `https://api.stripe.com/v1/subscriptions/${subscriptionId}`,
-    { headers: { Authorization: `Bearer ${stripeKey}` } },
+  return new Response(
+    JSON.stringify({ received: true, duplicate: !run.claimed }),
+    {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    },
   );
-  const subscription = await subRes.json();
-
-  const priceId = subscription.items.data[0]?.price.id;
-  const planId = priceId?.includes("yearly") ? "yearly" : "monthly";
-
-  await supabase.from("user_subscriptions").upsert({
-    user_id: userId,
-    stripe_customer_id: customerId,
-    stripe_subscription_id: subscriptionId,
-    plan_id: planId,
-    status: subscription.status,
-    current_period_start: new Date(
-      subscription.current_period_start * 1000,
-    ).toISOString(),
-    current_period_end: new Date(
-      subscription.current_period_end * 1000,
-    ).toISOString(),
-    cancel_at_period_end: subscription.cancel_at_period_end,
-    updated_at: new Date().toISOString(),
-  });
-}
-
-async function handleSubscriptionUpdated(supabase: any, subscription: any) {
-  const customerId = subscription.customer;
-
-  const { data } = await supabase
-    .from("user_subscriptions")
-    .select("user_id")
-    .eq("stripe_customer_id", customerId)
-    .maybeSingle();
-
-  if (!data) return;
-
-  const priceId = subscription.items.data[0]?.price.id;
-  const planId = priceId?.includes("yearly") ? "yearly" : "monthly";
-
-  await supabase
-    .from("user_subscriptions")
-    .update({
-      stripe_subscription_id: subscription.id,
-      plan_id: planId,
-      status: subscription.status,
-      current_period_start: new Date(
-        subscription.current_period_start * 1000,
-      ).toISOString(),
-      current_period_end: new Date(
-        subscription.current_period_end * 1000,
-      ).toISOString(),
-      cancel_at_period_end: subscription.cancel_at_period_end,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("user_id", data.user_id);
-}
-
-async function handleSubscriptionDeleted(supabase: any, subscription: any) {
-  const customerId = subscription.customer;
-
-  const { data } = await supabase
-    .from("user_subscriptions")
-    .select("user_id")
-    .eq("stripe_customer_id", customerId)
-    .maybeSingle();
-
-  if (!data) return;
-
-  await supabase
-    .from("user_subscriptions")
-    .update({
-      status: "canceled",
-      plan_id: "free",
-      cancel_at_period_end: false,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("user_id", data.user_id);
-}
-
-async function handlePaymentFailed(supabase: any, invoice: any) {
-  const customerId = invoice.customer;
-
-  const { data } = await supabase
-    .from("user_subscriptions")
-    .select("user_id")
-    .eq("stripe_customer_id", customerId)
-    .maybeSingle();
-
-  if (!data) return;
-
-  await supabase
-    .from("user_subscriptions")
-    .update({
-      status: "past_due",
-      updated_at: new Date().toISOString(),
-    })
-    .eq("user_id", data.user_id);
-}
+});
@@ -0,0 +1,312 @@
+-- Migration: Server-side grading and answer key protection
+-- Run this in Supabase SQL Editor after 005_audio_private_media.sql
+-- ============================================
+--
+-- Before this migration the browser computed the score and wrote
+-- score / percentage / status straight into exam_attempts, and every
+-- questions row (including correct_answer) was readable by students.
+--
+-- After this migration:
+--   * grade_exam_attempt(attempt_id) grades the stored answers, records
+--     per-question correctness and locks the attempt
+--   * students can no longer SELECT correct_answer / explanation columns
+--   * get_attempt_answer_key(attempt_id) reveals answers only for the
+--     caller's own completed attempts
+
+-- 1. Columns used by the grader
+ALTER TABLE exam_attempts
+ADD COLUMN IF NOT EXISTS flagged JSONB DEFAULT '[]'::jsonb,
+ADD COLUMN IF NOT EXISTS graded_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN exam_attempts.graded_at IS 'Set by grade_exam_attempt(); attempts with a graded_at are locked';
+
+-- ============================================
+-- 2. PER-QUESTION RESULTS
+-- ============================================
+-- No FK to questions: re-seeding an exam deletes and re-inserts its
+-- questions, and graded history must survive that.
+
+CREATE TABLE IF NOT EXISTS attempt_question_results (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  attempt_id UUID NOT NULL REFERENCES exam_attempts(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL,
+  answer TEXT,
+  is_correct BOOLEAN NOT NULL DEFAULT FALSE,
+  points_awarded NUMERIC NOT NULL DEFAULT 0,
+  points_possible NUMERIC NOT NULL DEFAULT 1,
+  graded_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(attempt_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_attempt_question_results_attempt ON attempt_question_results(attempt_id);
+CREATE INDEX IF NOT EXISTS idx_attempt_question_results_question ON attempt_question_results(question_id);
+
+ALTER TABLE attempt_question_results ENABLE ROW LEVEL SECURITY;
+
+-- Students can read results for their own attempts; only the grader writes
+CREATE POLICY "Users can view own question results"
+  ON attempt_question_results
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM exam_attempts ea
+      WHERE ea.id = attempt_question_results.attempt_id
+        AND ea.user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- 3. HIDE THE ANSWER KEY FROM CLIENTS
+-- ============================================
+-- Column-level privileges: every questions column except the answer key
+-- stays readable. Built from information_schema so columns added by
+-- earlier migrations (content, audio_path, ...) are picked up.
+
+DO $$
+DECLARE
+  v_columns TEXT;
+BEGIN
+  SELECT string_agg(quote_ident(column_name), ', ')
+  INTO v_columns
+  FROM information_schema.columns
+  WHERE table_schema = 'public'
+    AND table_name = 'questions'
+    AND column_name NOT IN ('correct_answer', 'explanation', 'answer_explanation');
+
+  EXECUTE 'REVOKE SELECT ON questions FROM anon, authenticated';
+  EXECUTE format('GRANT SELECT (%s) ON questions TO anon, authenticated', v_columns);
+END $$;
+
+-- ============================================
+-- 4. LOCK GRADED COLUMNS
+-- ============================================
+-- Clients may only create in-progress attempts and update answers/flags.
+-- Score, status and timing columns are written by grade_exam_attempt(),
+-- which sets eduassess.grading for the duration of its transaction.
+
+CREATE OR REPLACE FUNCTION protect_exam_attempt_grading()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role'
+     OR current_setting('eduassess.grading', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'in_progress';
+    NEW.started_at := NOW();
+    NEW.completed_at := NULL;
+    NEW.score := NULL;
+    NEW.percentage := NULL;
+    NEW.time_spent_seconds := NULL;
+    NEW.graded_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'in_progress' OR OLD.graded_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Exam attempt % is locked', OLD.id
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.score IS DISTINCT FROM OLD.score
+     OR NEW.percentage IS DISTINCT FROM OLD.percentage
+     OR NEW.total_points IS DISTINCT FROM OLD.total_points
+     OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+     OR NEW.time_spent_seconds IS DISTINCT FROM OLD.time_spent_seconds
+     OR NEW.started_at IS DISTINCT FROM OLD.started_at
+     OR NEW.graded_at IS DISTINCT FROM OLD.graded_at
+     OR NEW.user_id IS DISTINCT FROM OLD.user_id
+     OR NEW.exam_id IS DISTINCT FROM OLD.exam_id THEN
+    RAISE EXCEPTION 'Graded columns can only be written by grade_exam_attempt()'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_protect_exam_attempt_grading ON exam_attempts;
+CREATE TRIGGER trigger_protect_exam_attempt_grading
+  BEFORE INSERT OR UPDATE ON exam_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_exam_attempt_grading();
+
+-- ============================================
+-- 5. FUNCTION: Grade a single question
+-- ============================================
+-- Returns the fraction of the question's points earned (0..1).
+
+CREATE OR REPLACE FUNCTION grade_question(
+  p_question questions,
+  p_answer TEXT
+)
+RETURNS NUMERIC AS $$
+BEGIN
+  IF p_answer IS NULL OR btrim(p_answer) = '' OR p_question.correct_answer IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF lower(btrim(p_answer)) = lower(btrim(p_question.correct_answer)) THEN
+    RETURN 1;
+  END IF;
+
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================
+-- 6. FUNCTION: Grade and lock an attempt
+-- ============================================
+
+CREATE OR REPLACE FUNCTION grade_exam_attempt(p_attempt_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_attempt exam_attempts%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_answer TEXT;
+  v_credit NUMERIC;
+  v_points NUMERIC;
+  v_score NUMERIC := 0;
+  v_total NUMERIC := 0;
+  v_correct INTEGER := 0;
+  v_count INTEGER := 0;
+  v_percentage INTEGER;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM exam_attempts
+  WHERE id = p_attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exam attempt % not found', p_attempt_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF auth.role() <> 'service_role' AND v_attempt.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Not allowed to grade exam attempt %', p_attempt_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  -- Already graded: return the stored result so a double submit is harmless
+  IF v_attempt.graded_at IS NOT NULL OR v_attempt.status <> 'in_progress' THEN
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE is_correct)
+    INTO v_count, v_correct
+    FROM attempt_question_results
+    WHERE attempt_id = p_attempt_id;
+
+    RETURN jsonb_build_object(
+      'attempt_id', v_attempt.id,
+      'score', v_attempt.score,
+      'total_points', v_attempt.total_points,
+      'percentage', v_attempt.percentage,
+      'correct_count', v_correct,
+      'question_count', v_count,
+      'time_spent_seconds', v_attempt.time_spent_seconds,
+      'already_graded', true
+    );
+  END IF;
+
+  PERFORM set_config('eduassess.grading', 'on', true);
+
+  FOR v_question IN
+    SELECT * FROM questions
+    WHERE exam_id = v_attempt.exam_id
+    ORDER BY question_number
+  LOOP
+    v_answer := v_attempt.answers ->> v_question.id::text;
+    v_points := COALESCE(v_question.points, 1);
+    v_credit := grade_question(v_question, v_answer);
+
+    v_total := v_total + v_points;
+    v_score := v_score + v_points * v_credit;
+    v_count := v_count + 1;
+    IF v_credit >= 1 THEN
+      v_correct := v_correct + 1;
+    END IF;
+
+    INSERT INTO attempt_question_results (
+      attempt_id, question_id, answer, is_correct, points_awarded, points_possible
+    ) VALUES (
+      p_attempt_id, v_question.id, v_answer, v_credit >= 1, v_points * v_credit, v_points
+    )
+    ON CONFLICT (attempt_id, question_id) DO UPDATE SET
+      answer = EXCLUDED.answer,
+      is_correct = EXCLUDED.is_correct,
+      points_awarded = EXCLUDED.points_awarded,
+      points_possible = EXCLUDED.points_possible,
+      graded_at = NOW();
+  END LOOP;
+
+  v_percentage := CASE WHEN v_total > 0 THEN ROUND(v_score / v_total * 100) ELSE 0 END;
+
+  UPDATE exam_attempts
+  SET status = 'completed',
+      completed_at = NOW(),
+      graded_at = NOW(),
+      score = v_score,
+      total_points = v_total,
+      percentage = v_percentage,
+      time_spent_seconds = GREATEST(0, EXTRACT(EPOCH FROM (NOW() - started_at))::INTEGER)
+  WHERE id = p_attempt_id
+  RETURNING * INTO v_attempt;
+
+  RETURN jsonb_build_object(
+    'attempt_id', v_attempt.id,
+    'score', v_attempt.score,
+    'total_points', v_attempt.total_points,
+    'percentage', v_attempt.percentage,
+    'correct_count', v_correct,
+    'question_count', v_count,
+    'time_spent_seconds', v_attempt.time_spent_seconds,
+    'already_graded', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION grade_exam_attempt(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION grade_exam_attempt(UUID) TO authenticated;
+
+-- ============================================
+-- 7. FUNCTION: Answer key for a completed attempt
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_attempt_answer_key(p_attempt_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  correct_answer TEXT,
+  explanation TEXT,
+  answer_explanation JSONB
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM exam_attempts ea
+    WHERE ea.id = p_attempt_id
+      AND ea.status = 'completed'
+      AND (ea.user_id = auth.uid() OR auth.role() = 'service_role')
+  ) THEN
+    RAISE EXCEPTION 'Answer key is only available for your completed attempts'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.correct_answer, q.explanation, q.answer_explanation
+  FROM questions q
+  JOIN exam_attempts ea ON ea.exam_id = q.exam_id
+  WHERE ea.id = p_attempt_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_attempt_answer_key(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_attempt_answer_key(UUID) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- As a student (authenticated role) this should fail with
+-- "permission denied for table questions":
+--   SELECT correct_answer FROM questions LIMIT 1;
+--
+-- And this should fail with "Graded columns can only be written...":
+--   UPDATE exam_attempts SET score = 100 WHERE id = '<your-attempt-id>';
@@ -0,0 +1,448 @@
+-- Migration: Server-authoritative exam timing
+-- Run this in Supabase SQL Editor after 006_server_side_grading.sql
+-- ============================================
+--
+-- The exam clock now lives on exam_attempts:
+--   started_at         set by the server when the attempt is created
+--   duration_seconds   exam duration at the time the attempt started
+--   extension_seconds  accommodations (extra time) granted to the student
+--   deadline_at        started_at + duration + extension + paused time
+--   paused_at          set while the attempt is paused
+--   paused_intervals   [{ "paused_at": ..., "resumed_at": ... }, ...]
+--
+-- The client only displays deadline_at. Answer saves after the deadline
+-- are rejected, and expired attempts are graded automatically.
+
+-- 1. Timing columns
+ALTER TABLE exam_attempts
+ADD COLUMN IF NOT EXISTS duration_seconds INTEGER,
+ADD COLUMN IF NOT EXISTS extension_seconds INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS deadline_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS paused_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS paused_intervals JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_exam_attempts_deadline
+  ON exam_attempts(deadline_at)
+  WHERE status = 'in_progress';
+
+-- 2. Accommodations: extra time as a percentage of the exam duration
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS extra_time_percent INTEGER NOT NULL DEFAULT 0
+  CHECK (extra_time_percent BETWEEN 0 AND 100);
+
+COMMENT ON COLUMN user_profiles.extra_time_percent IS 'Adjustment for students with disability: extra exam time as % of duration';
+
+-- 3. Exams may allow supervised pauses (off by default, like the real test)
+ALTER TABLE exams
+ADD COLUMN IF NOT EXISTS allow_pause BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Seconds of grace for saves that were in flight when the clock ran out
+CREATE OR REPLACE FUNCTION exam_deadline_grace_seconds()
+RETURNS INTEGER AS $$
+  SELECT 5;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- 4. SET THE DEADLINE ON INSERT
+-- ============================================
+
+CREATE OR REPLACE FUNCTION set_exam_attempt_deadline()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_duration_minutes INTEGER;
+  v_extra_percent INTEGER;
+BEGIN
+  SELECT duration_minutes INTO v_duration_minutes
+  FROM exams
+  WHERE id = NEW.exam_id;
+
+  SELECT extra_time_percent INTO v_extra_percent
+  FROM user_profiles
+  WHERE id = NEW.user_id;
+
+  NEW.started_at := COALESCE(NEW.started_at, NOW());
+  NEW.duration_seconds := COALESCE(v_duration_minutes, 50) * 60;
+  NEW.extension_seconds := (NEW.duration_seconds * COALESCE(v_extra_percent, 0)) / 100;
+  NEW.deadline_at := NEW.started_at
+    + make_interval(secs => NEW.duration_seconds + NEW.extension_seconds);
+  NEW.paused_at := NULL;
+  NEW.paused_intervals := '[]'::jsonb;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Fires after trigger_protect_exam_attempt_grading (triggers run in name order)
+DROP TRIGGER IF EXISTS trigger_set_exam_attempt_deadline ON exam_attempts;
+CREATE TRIGGER trigger_set_exam_attempt_deadline
+  BEFORE INSERT ON exam_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION set_exam_attempt_deadline();
+
+-- Backfill in-progress attempts created before this migration
+SELECT set_config('eduassess.grading', 'on', false);
+
+UPDATE exam_attempts ea
+SET duration_seconds = e.duration_minutes * 60,
+    deadline_at = ea.started_at + make_interval(secs => e.duration_minutes * 60)
+FROM exams e
+WHERE e.id = ea.exam_id
+  AND ea.status = 'in_progress'
+  AND ea.deadline_at IS NULL;
+
+SELECT set_config('eduassess.grading', 'off', false);
+
+-- ============================================
+-- 5. LOCK TIMING COLUMNS AND ENFORCE THE DEADLINE
+-- ============================================
+-- Replaces the 006 version: timing columns join the protected set, and
+-- answer saves are rejected once the deadline has passed or while paused.
+
+CREATE OR REPLACE FUNCTION protect_exam_attempt_grading()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() = 'service_role'
+     OR current_setting('eduassess.grading', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'in_progress';
+    NEW.started_at := NOW();
+    NEW.completed_at := NULL;
+    NEW.score := NULL;
+    NEW.percentage := NULL;
+    NEW.time_spent_seconds := NULL;
+    NEW.graded_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'in_progress' OR OLD.graded_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Exam attempt % is locked', OLD.id
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.score IS DISTINCT FROM OLD.score
+     OR NEW.percentage IS DISTINCT FROM OLD.percentage
+     OR NEW.total_points IS DISTINCT FROM OLD.total_points
+     OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+     OR NEW.time_spent_seconds IS DISTINCT FROM OLD.time_spent_seconds
+     OR NEW.started_at IS DISTINCT FROM OLD.started_at
+     OR NEW.graded_at IS DISTINCT FROM OLD.graded_at
+     OR NEW.user_id IS DISTINCT FROM OLD.user_id
+     OR NEW.exam_id IS DISTINCT FROM OLD.exam_id
+     OR NEW.duration_seconds IS DISTINCT FROM OLD.duration_seconds
+     OR NEW.extension_seconds IS DISTINCT FROM OLD.extension_seconds
+     OR NEW.deadline_at IS DISTINCT FROM OLD.deadline_at
+     OR NEW.paused_at IS DISTINCT FROM OLD.paused_at
+     OR NEW.paused_intervals IS DISTINCT FROM OLD.paused_intervals THEN
+    RAISE EXCEPTION 'Graded columns can only be written by grade_exam_attempt()'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Exam attempt % is paused', OLD.id
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF OLD.deadline_at IS NOT NULL
+     AND NOW() > OLD.deadline_at + make_interval(secs => exam_deadline_grace_seconds()) THEN
+    RAISE EXCEPTION 'Time is up for exam attempt %', OLD.id
+      USING ERRCODE = '42501', HINT = 'deadline_passed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- 6. GRADING: split the auth check from the grader
+-- ============================================
+-- finalize_exam_attempt() does the grading with no caller check so the
+-- expiry job can use it. grade_exam_attempt() remains the client entry
+-- point and keeps its ownership check.
+
+CREATE OR REPLACE FUNCTION finalize_exam_attempt(p_attempt_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_attempt exam_attempts%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_answer TEXT;
+  v_credit NUMERIC;
+  v_points NUMERIC;
+  v_score NUMERIC := 0;
+  v_total NUMERIC := 0;
+  v_correct INTEGER := 0;
+  v_count INTEGER := 0;
+  v_percentage INTEGER;
+  v_ended_at TIMESTAMPTZ;
+  v_paused_seconds INTEGER;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM exam_attempts
+  WHERE id = p_attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exam attempt % not found', p_attempt_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Already graded: return the stored result so a double submit is harmless
+  IF v_attempt.graded_at IS NOT NULL OR v_attempt.status <> 'in_progress' THEN
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE is_correct)
+    INTO v_count, v_correct
+    FROM attempt_question_results
+    WHERE attempt_id = p_attempt_id;
+
+    RETURN jsonb_build_object(
+      'attempt_id', v_attempt.id,
+      'score', v_attempt.score,
+      'total_points', v_attempt.total_points,
+      'percentage', v_attempt.percentage,
+      'correct_count', v_correct,
+      'question_count', v_count,
+      'time_spent_seconds', v_attempt.time_spent_seconds,
+      'already_graded', true
+    );
+  END IF;
+
+  PERFORM set_config('eduassess.grading', 'on', true);
+
+  FOR v_question IN
+    SELECT * FROM questions
+    WHERE exam_id = v_attempt.exam_id
+    ORDER BY question_number
+  LOOP
+    v_answer := v_attempt.answers ->> v_question.id::text;
+    v_points := COALESCE(v_question.points, 1);
+    v_credit := grade_question(v_question, v_answer);
+
+    v_total := v_total + v_points;
+    v_score := v_score + v_points * v_credit;
+    v_count := v_count + 1;
+    IF v_credit >= 1 THEN
+      v_correct := v_correct + 1;
+    END IF;
+
+    INSERT INTO attempt_question_results (
+      attempt_id, question_id, answer, is_correct, points_awarded, points_possible
+    ) VALUES (
+      p_attempt_id, v_question.id, v_answer, v_credit >= 1, v_points * v_credit, v_points
+    )
+    ON CONFLICT (attempt_id, question_id) DO UPDATE SET
+      answer = EXCLUDED.answer,
+      is_correct = EXCLUDED.is_correct,
+      points_awarded = EXCLUDED.points_awarded,
+      points_possible = EXCLUDED.points_possible,
+      graded_at = NOW();
+  END LOOP;
+
+  v_percentage := CASE WHEN v_total > 0 THEN ROUND(v_score / v_total * 100) ELSE 0 END;
+
+  -- Time spent excludes pauses and never runs past the deadline
+  v_ended_at := LEAST(NOW(), COALESCE(v_attempt.paused_at, NOW()), COALESCE(v_attempt.deadline_at, NOW()));
+  SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (
+           (p ->> 'resumed_at')::timestamptz - (p ->> 'paused_at')::timestamptz
+         ))), 0)::INTEGER
+  INTO v_paused_seconds
+  FROM jsonb_array_elements(v_attempt.paused_intervals) p;
+
+  UPDATE exam_attempts
+  SET status = 'completed',
+      completed_at = NOW(),
+      graded_at = NOW(),
+      paused_at = NULL,
+      score = v_score,
+      total_points = v_total,
+      percentage = v_percentage,
+      time_spent_seconds = GREATEST(
+        0,
+        EXTRACT(EPOCH FROM (v_ended_at - started_at))::INTEGER - v_paused_seconds
+      )
+  WHERE id = p_attempt_id
+  RETURNING * INTO v_attempt;
+
+  RETURN jsonb_build_object(
+    'attempt_id', v_attempt.id,
+    'score', v_attempt.score,
+    'total_points', v_attempt.total_points,
+    'percentage', v_attempt.percentage,
+    'correct_count', v_correct,
+    'question_count', v_count,
+    'time_spent_seconds', v_attempt.time_spent_seconds,
+    'already_graded', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION finalize_exam_attempt(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION grade_exam_attempt(p_attempt_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role' AND NOT EXISTS (
+    SELECT 1 FROM exam_attempts
+    WHERE id = p_attempt_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to grade exam attempt %', p_attempt_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN finalize_exam_attempt(p_attempt_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 7. FUNCTION: Clock for the player
+-- ============================================
+-- Returns the server's view of the attempt clock. An attempt whose
+-- deadline has passed is finalised here, so a student reloading after
+-- time ran out lands on graded results even without the cron job.
+
+CREATE OR REPLACE FUNCTION get_attempt_clock(p_attempt_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_attempt exam_attempts%ROWTYPE;
+  v_remaining INTEGER;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM exam_attempts
+  WHERE id = p_attempt_id
+    AND (user_id = auth.uid() OR auth.role() = 'service_role');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exam attempt % not found', p_attempt_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_attempt.status = 'in_progress'
+     AND v_attempt.paused_at IS NULL
+     AND v_attempt.deadline_at IS NOT NULL
+     AND NOW() > v_attempt.deadline_at + make_interval(secs => exam_deadline_grace_seconds()) THEN
+    PERFORM finalize_exam_attempt(p_attempt_id);
+    SELECT * INTO v_attempt FROM exam_attempts WHERE id = p_attempt_id;
+  END IF;
+
+  v_remaining := GREATEST(0, EXTRACT(EPOCH FROM (
+    v_attempt.deadline_at - COALESCE(v_attempt.paused_at, NOW())
+  ))::INTEGER);
+
+  RETURN jsonb_build_object(
+    'attempt_id', v_attempt.id,
+    'status', v_attempt.status,
+    'server_now', NOW(),
+    'started_at', v_attempt.started_at,
+    'deadline_at', v_attempt.deadline_at,
+    'paused_at', v_attempt.paused_at,
+    'duration_seconds', v_attempt.duration_seconds,
+    'extension_seconds', v_attempt.extension_seconds,
+    'remaining_seconds', CASE WHEN v_attempt.status = 'in_progress' THEN v_remaining ELSE 0 END
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_attempt_clock(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_attempt_clock(UUID) TO authenticated;
+
+-- ============================================
+-- 8. FUNCTIONS: Pause / resume (exams with allow_pause only)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION pause_exam_attempt(p_attempt_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+  PERFORM set_config('eduassess.grading', 'on', true);
+
+  UPDATE exam_attempts ea
+  SET paused_at = NOW()
+  FROM exams e
+  WHERE ea.id = p_attempt_id
+    AND e.id = ea.exam_id
+    AND e.allow_pause
+    AND ea.user_id = auth.uid()
+    AND ea.status = 'in_progress'
+    AND ea.paused_at IS NULL
+    AND NOW() < ea.deadline_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exam attempt % cannot be paused', p_attempt_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN get_attempt_clock(p_attempt_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resume_exam_attempt(p_attempt_id UUID)
+RETURNS JSONB AS $$
+BEGIN
+  PERFORM set_config('eduassess.grading', 'on', true);
+
+  -- The deadline moves out by exactly the time spent paused
+  UPDATE exam_attempts
+  SET deadline_at = deadline_at + (NOW() - paused_at),
+      paused_intervals = paused_intervals || jsonb_build_array(
+        jsonb_build_object('paused_at', paused_at, 'resumed_at', NOW())
+      ),
+      paused_at = NULL
+  WHERE id = p_attempt_id
+    AND user_id = auth.uid()
+    AND status = 'in_progress'
+    AND paused_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exam attempt % is not paused', p_attempt_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN get_attempt_clock(p_attempt_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION pause_exam_attempt(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION resume_exam_attempt(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION pause_exam_attempt(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION resume_exam_attempt(UUID) TO authenticated;
+
+-- ============================================
+-- 9. AUTO-FINALISE EXPIRED ATTEMPTS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION finalize_expired_attempts()
+RETURNS INTEGER AS $$
+DECLARE
+  v_attempt_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_attempt_id IN
+    SELECT id FROM exam_attempts
+    WHERE status = 'in_progress'
+      AND paused_at IS NULL
+      AND deadline_at IS NOT NULL
+      AND NOW() > deadline_at + make_interval(secs => exam_deadline_grace_seconds())
+  LOOP
+    PERFORM finalize_exam_attempt(v_attempt_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION finalize_expired_attempts() FROM PUBLIC, anon, authenticated;
+
+-- Schedule every minute when pg_cron is enabled
+-- (Dashboard > Database > Extensions > pg_cron)
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'finalize-expired-attempts';
+    PERFORM cron.schedule(
+      'finalize-expired-attempts',
+      '* * * * *',
+      'SELECT finalize_expired_attempts()'
+    );
+  END IF;
+END $$;
@@ -0,0 +1,275 @@
+-- Migration: Grading rules for every question type
+-- Run this in Supabase SQL Editor after 007_exam_attempt_timing.sql
+-- ============================================
+--
+-- question_type may now be any RichQuestion type (underscored legacy
+-- spellings such as multiple_choice are still accepted):
+--
+--   type             answer stored in exam_attempts.answers   credit
+--   ---------------  ---------------------------------------  -----------------
+--   multiple-choice  "B"                                      all or nothing
+--   short-answer     "190"                                    all or nothing
+--   multiple-select  '["A","C"]'                              partial
+--   numeric          "1.9"  (within numeric_tolerance)        all or nothing
+--   fill-in-blank    '{"b1":"cat","b2":"mat"}'                all or nothing
+--   drag-drop        '["C","A","B"]'  (options in order)      all or nothing
+--   matching         '{"A":"t2","B":"t1"}'                    partial
+--
+-- correct_answer uses the same format as the answer. Fill-in-blank keys
+-- live in the new blanks column instead.
+
+-- 1. Columns for the new types
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS blanks JSONB,
+ADD COLUMN IF NOT EXISTS match_targets JSONB;
+
+COMMENT ON COLUMN questions.blanks IS 'fill-in-blank answer key: [{ "id": "b1", "correct": "cat", "accept": ["kitten"] }]. Blanks are placed with {{blank:b1}} in the question text';
+COMMENT ON COLUMN questions.match_targets IS 'matching: right-hand items [{ "id": "t1", "text": "..." }] paired with the options';
+
+-- match_targets is shown to students; blanks is part of the answer key
+-- and stays hidden (see the column grants in migration 006)
+GRANT SELECT (match_targets) ON questions TO anon, authenticated;
+
+-- ============================================
+-- 2. ANSWER PARSING HELPERS
+-- ============================================
+
+CREATE OR REPLACE FUNCTION normalize_answer(p_value TEXT)
+RETURNS TEXT AS $$
+  SELECT lower(btrim(regexp_replace(COALESCE(p_value, ''), '\s+', ' ', 'g')));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- JSON array ('["A","C"]') or comma separated list ('A, C')
+CREATE OR REPLACE FUNCTION parse_answer_list(p_value TEXT)
+RETURNS TEXT[] AS $$
+DECLARE
+  v_json JSONB;
+BEGIN
+  IF p_value IS NULL OR btrim(p_value) = '' THEN
+    RETURN ARRAY[]::TEXT[];
+  END IF;
+
+  BEGIN
+    v_json := p_value::jsonb;
+  EXCEPTION WHEN others THEN
+    v_json := NULL;
+  END;
+
+  IF v_json IS NOT NULL AND jsonb_typeof(v_json) = 'array' THEN
+    RETURN ARRAY(
+      SELECT normalize_answer(value)
+      FROM jsonb_array_elements_text(v_json) WITH ORDINALITY AS t(value, ord)
+      ORDER BY ord
+    );
+  END IF;
+
+  RETURN ARRAY(
+    SELECT normalize_answer(value)
+    FROM unnest(string_to_array(p_value, ',')) WITH ORDINALITY AS t(value, ord)
+    WHERE btrim(value) <> ''
+    ORDER BY ord
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- JSON object ('{"A":"t2"}'), or NULL when the value is not one
+CREATE OR REPLACE FUNCTION parse_answer_map(p_value TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_json JSONB;
+BEGIN
+  BEGIN
+    v_json := p_value::jsonb;
+  EXCEPTION WHEN others THEN
+    RETURN NULL;
+  END;
+
+  IF jsonb_typeof(v_json) <> 'object' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_json;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Numbers as students type them: '1,250', '$1.90', ' 3.5 '
+CREATE OR REPLACE FUNCTION parse_answer_numeric(p_value TEXT)
+RETURNS NUMERIC AS $$
+BEGIN
+  RETURN regexp_replace(COALESCE(p_value, ''), '[\s,$]', '', 'g')::NUMERIC;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================
+-- 3. FUNCTION: Grade a single question
+-- ============================================
+-- Replaces the 006 version. Still returns the fraction of the question's
+-- points earned (0..1), which grade_exam_attempt() multiplies by points.
+
+CREATE OR REPLACE FUNCTION grade_question(
+  p_question questions,
+  p_answer TEXT
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_type TEXT;
+  v_expected TEXT[];
+  v_given TEXT[];
+  v_hits INTEGER;
+  v_wrong INTEGER;
+  v_key JSONB;
+  v_map JSONB;
+  v_blank JSONB;
+  v_total INTEGER;
+  v_matched INTEGER;
+  v_number NUMERIC;
+  v_correct_number NUMERIC;
+BEGIN
+  IF p_answer IS NULL OR btrim(p_answer) = '' THEN
+    RETURN 0;
+  END IF;
+
+  v_type := replace(lower(COALESCE(p_question.question_type, 'multiple-choice')), '_', '-');
+
+  CASE v_type
+    -- Partial credit: (correct picks - wrong picks) / number of correct options
+    WHEN 'multiple-select' THEN
+      v_expected := parse_answer_list(p_question.correct_answer);
+      v_given := ARRAY(SELECT DISTINCT unnest(parse_answer_list(p_answer)));
+
+      IF cardinality(v_expected) = 0 THEN
+        RETURN 0;
+      END IF;
+
+      SELECT COUNT(*) FILTER (WHERE g = ANY(v_expected)),
+             COUNT(*) FILTER (WHERE NOT g = ANY(v_expected))
+      INTO v_hits, v_wrong
+      FROM unnest(v_given) AS g;
+
+      RETURN GREATEST(0, ROUND((v_hits - v_wrong)::NUMERIC / cardinality(v_expected), 4));
+
+    WHEN 'numeric' THEN
+      v_number := parse_answer_numeric(p_answer);
+      v_correct_number := parse_answer_numeric(p_question.correct_answer);
+
+      IF v_number IS NULL OR v_correct_number IS NULL THEN
+        RETURN 0;
+      END IF;
+
+      IF abs(v_number - v_correct_number) <= COALESCE(p_question.numeric_tolerance, 0) THEN
+        RETURN 1;
+      END IF;
+      RETURN 0;
+
+    -- Every blank must match its answer (or one of its accepted spellings)
+    WHEN 'fill-in-blank' THEN
+      v_map := parse_answer_map(p_answer);
+      IF v_map IS NULL
+         OR p_question.blanks IS NULL
+         OR jsonb_typeof(p_question.blanks) <> 'array'
+         OR jsonb_array_length(p_question.blanks) = 0 THEN
+        RETURN 0;
+      END IF;
+
+      FOR v_blank IN SELECT * FROM jsonb_array_elements(p_question.blanks)
+      LOOP
+        IF NOT (
+          normalize_answer(v_map ->> (v_blank ->> 'id')) = normalize_answer(v_blank ->> 'correct')
+          OR normalize_answer(v_map ->> (v_blank ->> 'id')) IN (
+            SELECT normalize_answer(value)
+            FROM jsonb_array_elements_text(COALESCE(v_blank -> 'accept', '[]'::jsonb))
+          )
+        ) THEN
+          RETURN 0;
+        END IF;
+      END LOOP;
+      RETURN 1;
+
+    -- Options in the exact order
+    WHEN 'drag-drop' THEN
+      v_expected := parse_answer_list(p_question.correct_answer);
+      v_given := parse_answer_list(p_answer);
+
+      IF cardinality(v_expected) > 0 AND v_given = v_expected THEN
+        RETURN 1;
+      END IF;
+      RETURN 0;
+
+    -- Partial credit: correctly paired options / number of pairs
+    WHEN 'matching' THEN
+      v_key := parse_answer_map(p_question.correct_answer);
+      v_map := parse_answer_map(p_answer);
+
+      IF v_key IS NULL OR v_map IS NULL THEN
+        RETURN 0;
+      END IF;
+
+      SELECT COUNT(*),
+             COUNT(*) FILTER (WHERE normalize_answer(v_map ->> k.key) = normalize_answer(k.value))
+      INTO v_total, v_matched
+      FROM jsonb_each_text(v_key) AS k;
+
+      IF v_total = 0 THEN
+        RETURN 0;
+      END IF;
+      RETURN ROUND(v_matched::NUMERIC / v_total, 4);
+
+    -- multiple-choice, true-false, short-answer and legacy rows
+    ELSE
+      IF p_question.correct_answer IS NULL THEN
+        RETURN 0;
+      END IF;
+
+      IF normalize_answer(p_answer) = normalize_answer(p_question.correct_answer) THEN
+        RETURN 1;
+      END IF;
+      RETURN 0;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================
+-- 4. FUNCTION: Answer key now includes blanks
+-- ============================================
+-- The return type changes, so the 006 version has to be dropped first.
+
+DROP FUNCTION IF EXISTS get_attempt_answer_key(UUID);
+
+CREATE OR REPLACE FUNCTION get_attempt_answer_key(p_attempt_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  correct_answer TEXT,
+  explanation TEXT,
+  answer_explanation JSONB,
+  blanks JSONB
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM exam_attempts ea
+    WHERE ea.id = p_attempt_id
+      AND ea.status = 'completed'
+      AND (ea.user_id = auth.uid() OR auth.role() = 'service_role')
+  ) THEN
+    RAISE EXCEPTION 'Answer key is only available for your completed attempts'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.correct_answer, q.explanation, q.answer_explanation, q.blanks
+  FROM questions q
+  JOIN exam_attempts ea ON ea.exam_id = q.exam_id
+  WHERE ea.id = p_attempt_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_attempt_answer_key(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_attempt_answer_key(UUID) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Partial credit for a multiple-select question (expect a value 0..1):
+--   SELECT grade_question(q, '["A","C"]')
+--   FROM questions q WHERE q.question_type = 'multiple-select' LIMIT 1;
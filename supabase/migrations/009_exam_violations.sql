@@ -0,0 +1,135 @@
+-- Migration: Exam integrity - violation log and per-exam policies
+-- Run this in Supabase SQL Editor after 008_question_types.sql
+-- ============================================
+--
+-- The player used to keep tab switches / copy / paste / right-clicks in
+-- localStorage only. They are now appended live to exam_violations, and
+-- each exam chooses what happens after too many tab switches:
+--
+--   violation_policy = 'warn'         show a warning only (default)
+--   violation_policy = 'auto_submit'  grade the attempt once the student
+--                                     reaches max_tab_switches
+
+-- 1. Per-exam policy
+ALTER TABLE exams
+ADD COLUMN IF NOT EXISTS violation_policy TEXT NOT NULL DEFAULT 'warn'
+  CHECK (violation_policy IN ('warn', 'auto_submit')),
+ADD COLUMN IF NOT EXISTS max_tab_switches INTEGER NOT NULL DEFAULT 3
+  CHECK (max_tab_switches > 0);
+
+-- ============================================
+-- 2. VIOLATIONS TABLE
+-- ============================================
+-- ended_at is set when the student comes back to the tab, so
+-- ended_at - occurred_at is the time spent away. Both use server time.
+
+CREATE TABLE IF NOT EXISTS exam_violations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  attempt_id UUID NOT NULL REFERENCES exam_attempts(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  violation_type TEXT NOT NULL
+    CHECK (violation_type IN ('tab_switch', 'copy', 'paste', 'right_click', 'other')),
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ended_at TIMESTAMPTZ,
+  question_id UUID,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb
+);
+
+CREATE INDEX IF NOT EXISTS idx_exam_violations_attempt ON exam_violations(attempt_id, occurred_at);
+
+ALTER TABLE exam_violations ENABLE ROW LEVEL SECURITY;
+
+-- Students read their own log; writes go through log_exam_violation()
+CREATE POLICY "Users can view own exam violations"
+  ON exam_violations
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- 3. FUNCTION: Log a violation and apply the exam policy
+-- ============================================
+-- Returns { violation_id, tab_switches, max_tab_switches, policy, action }
+-- where action is 'warn' or 'auto_submitted'.
+
+CREATE OR REPLACE FUNCTION log_exam_violation(
+  p_attempt_id UUID,
+  p_type TEXT,
+  p_question_id UUID DEFAULT NULL,
+  p_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_attempt exam_attempts%ROWTYPE;
+  v_exam exams%ROWTYPE;
+  v_violation_id UUID;
+  v_tab_switches INTEGER;
+  v_action TEXT := 'warn';
+BEGIN
+  SELECT * INTO v_attempt
+  FROM exam_attempts
+  WHERE id = p_attempt_id
+    AND user_id = auth.uid()
+    AND status = 'in_progress';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exam attempt % is not in progress', p_attempt_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_exam FROM exams WHERE id = v_attempt.exam_id;
+
+  INSERT INTO exam_violations (attempt_id, user_id, violation_type, question_id, details)
+  VALUES (p_attempt_id, v_attempt.user_id, p_type, p_question_id, COALESCE(p_details, '{}'::jsonb))
+  RETURNING id INTO v_violation_id;
+
+  SELECT COUNT(*) INTO v_tab_switches
+  FROM exam_violations
+  WHERE attempt_id = p_attempt_id
+    AND violation_type = 'tab_switch';
+
+  IF v_exam.violation_policy = 'auto_submit'
+     AND p_type = 'tab_switch'
+     AND v_tab_switches >= v_exam.max_tab_switches THEN
+    PERFORM finalize_exam_attempt(p_attempt_id);
+    v_action := 'auto_submitted';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'violation_id', v_violation_id,
+    'tab_switches', v_tab_switches,
+    'max_tab_switches', v_exam.max_tab_switches,
+    'policy', v_exam.violation_policy,
+    'action', v_action
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION log_exam_violation(UUID, TEXT, UUID, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION log_exam_violation(UUID, TEXT, UUID, JSONB) TO authenticated;
+
+-- ============================================
+-- 4. FUNCTION: Student returned to the exam tab
+-- ============================================
+-- Still allowed after an auto-submit so the time away is recorded.
+
+CREATE OR REPLACE FUNCTION end_exam_violation(p_violation_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE exam_violations
+  SET ended_at = NOW()
+  WHERE id = p_violation_id
+    AND user_id = auth.uid()
+    AND ended_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION end_exam_violation(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION end_exam_violation(UUID) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Violations for an attempt, with time away in seconds:
+--   SELECT violation_type, occurred_at,
+--          EXTRACT(EPOCH FROM (ended_at - occurred_at)) AS away_seconds
+--   FROM exam_violations WHERE attempt_id = '<attempt-id>' ORDER BY occurred_at;
@@ -0,0 +1,69 @@
+-- Migration: Per-question time tracking and answer-change history
+-- Run this in Supabase SQL Editor after 009_exam_violations.sql
+-- ============================================
+--
+-- The player saves question_activity alongside answers:
+--
+--   {
+--     "<question_id>": {
+--       "time_spent_seconds": 42,
+--       "visits": 3,
+--       "changes": [
+--         { "answer": "B", "at": "2026-01-01T10:00:05Z" },
+--         { "answer": "C", "at": "2026-01-01T10:03:12Z" }
+--       ]
+--     }
+--   }
+--
+-- The last change is the submitted answer. Earlier changes are graded on
+-- request by get_attempt_answer_history() so the results page can point
+-- out correct answers that were changed to wrong ones.
+
+-- 1. Activity column (written by the player like answers/flagged)
+ALTER TABLE exam_attempts
+ADD COLUMN IF NOT EXISTS question_activity JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- ============================================
+-- 2. FUNCTION: Graded answer history for a completed attempt
+-- ============================================
+-- Same access rule as get_attempt_answer_key(): only the student's own
+-- completed attempts, since grading old answers reveals the key.
+
+CREATE OR REPLACE FUNCTION get_attempt_answer_history(p_attempt_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  change_index INTEGER,
+  answer TEXT,
+  changed_at TIMESTAMPTZ,
+  credit NUMERIC
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM exam_attempts ea
+    WHERE ea.id = p_attempt_id
+      AND ea.status = 'completed'
+      AND (ea.user_id = auth.uid() OR auth.role() = 'service_role')
+  ) THEN
+    RAISE EXCEPTION 'Answer history is only available for your completed attempts'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    c.ord::INTEGER - 1,
+    c.value ->> 'answer',
+    (c.value ->> 'at')::TIMESTAMPTZ,
+    grade_question(q, c.value ->> 'answer')
+  FROM exam_attempts ea
+  JOIN questions q ON q.exam_id = ea.exam_id
+  CROSS JOIN LATERAL jsonb_array_elements(
+    COALESCE(ea.question_activity -> q.id::text -> 'changes', '[]'::jsonb)
+  ) WITH ORDINALITY AS c(value, ord)
+  WHERE ea.id = p_attempt_id
+  ORDER BY q.question_number, c.ord;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_attempt_answer_history(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_attempt_answer_history(UUID) TO authenticated;
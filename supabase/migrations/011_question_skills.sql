@@ -0,0 +1,77 @@
+-- Migration: Skill tags and normalised difficulty for question analysis
+-- Run this in Supabase SQL Editor after 010_question_activity.sql
+-- ============================================
+--
+-- ExamResultsPage and the dashboard group results by questions.topic and
+-- drill down by questions.skill (both from migration 004). The 2016 Year 5
+-- Numeracy seed only set topic, so its skills are backfilled here.
+-- Untagged questions still fall back to keyword matching in the app.
+
+-- 1. Difficulty is compared case-insensitively by the app; store lowercase
+UPDATE questions
+SET difficulty = lower(trim(difficulty))
+WHERE difficulty IS NOT NULL
+  AND difficulty <> lower(trim(difficulty));
+
+CREATE INDEX IF NOT EXISTS idx_questions_topic_skill ON questions(topic, skill);
+
+-- ============================================
+-- 2. BACKFILL SKILLS: NAPLAN Year 5 Numeracy 2016
+-- ============================================
+-- Keyed by order_index, so re-running after a re-seed is safe.
+
+UPDATE questions q
+SET skill = s.skill
+FROM (VALUES
+  (1, 'Money'),
+  (2, 'Data interpretation'),
+  (3, 'Number ranges'),
+  (4, '3D shapes and nets'),
+  (5, 'Balance equations'),
+  (6, 'Place value'),
+  (7, 'Multiplication'),
+  (8, 'Area'),
+  (9, 'Mental computation'),
+  (10, 'Grid coordinates'),
+  (11, 'Number patterns'),
+  (12, 'Data interpretation'),
+  (13, 'Angles'),
+  (14, 'Data interpretation'),
+  (15, 'Capacity'),
+  (16, 'Money'),
+  (17, 'Area'),
+  (18, 'Mass'),
+  (19, 'Money'),
+  (20, 'Chance'),
+  (21, 'Perimeter'),
+  (22, 'Data interpretation'),
+  (23, 'Symmetry'),
+  (24, 'Number patterns'),
+  (25, 'Time'),
+  (26, 'Place value'),
+  (27, 'Fractions'),
+  (28, 'Inverse operations'),
+  (29, 'Fractions'),
+  (30, 'Data interpretation'),
+  (31, 'Logical reasoning'),
+  (32, 'Division'),
+  (33, 'Length'),
+  (34, 'Transformations'),
+  (35, 'Number patterns'),
+  (36, 'Multi-step problems'),
+  (37, 'Decimals'),
+  (38, 'Perimeter'),
+  (39, 'Percentages'),
+  (40, 'Ratio')
+) AS s(order_index, skill)
+WHERE q.exam_id = 'naplan-y5-num-2016'
+  AND q.order_index = s.order_index
+  AND q.skill IS NULL;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Skills per topic for the seeded exam:
+--   SELECT topic, skill, COUNT(*) FROM questions
+--   WHERE exam_id = 'naplan-y5-num-2016'
+--   GROUP BY topic, skill ORDER BY topic, skill;
@@ -0,0 +1,89 @@
+-- Migration: NAPLAN scaled scores, bands and proficiency levels per exam
+-- Run this in Supabase SQL Editor after 011_question_skills.sql
+-- ============================================
+--
+-- Each exam can have one score scale that converts the raw mark to an
+-- estimated NAPLAN scaled score, and the scaled score to a band (pre-2023
+-- reports) and a proficiency level (2023+ reports):
+--
+--   raw_to_scaled        [[raw, scaled], ...] anchor points, sorted by raw;
+--                        the app interpolates linearly between them
+--   band_cutoffs         [{ "band": 6, "min_scaled": 478 }, ...]
+--   proficiency_cutoffs  [{ "level": "strong", "min_scaled": 493 }, ...]
+--                        levels: exceeding, strong, developing, needs_support
+--
+-- Exams without a scale keep the percentage-based grade on results pages.
+
+-- ============================================
+-- 1. SCORE SCALES TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS exam_score_scales (
+  exam_id TEXT PRIMARY KEY REFERENCES exams(id) ON DELETE CASCADE,
+  raw_to_scaled JSONB NOT NULL
+    CHECK (jsonb_typeof(raw_to_scaled) = 'array' AND jsonb_array_length(raw_to_scaled) >= 2),
+  band_cutoffs JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(band_cutoffs) = 'array'),
+  proficiency_cutoffs JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(proficiency_cutoffs) = 'array'),
+  national_mean_scaled INTEGER,
+  source TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE exam_score_scales ENABLE ROW LEVEL SECURITY;
+
+-- Scales are reference data: anyone who can see the exam can read them
+CREATE POLICY "Score scales are viewable by everyone"
+  ON exam_score_scales
+  FOR SELECT
+  USING (true);
+
+-- ============================================
+-- 2. SEED: NAPLAN Year 5 Numeracy 2016
+-- ============================================
+-- Estimated from the published 2016 equating tables (40 marks). Band
+-- cut points are the fixed NAPLAN scale; proficiency cut points are the
+-- 2023 Year 5 numeracy standards applied to the same scale.
+
+INSERT INTO exam_score_scales (
+  exam_id,
+  raw_to_scaled,
+  band_cutoffs,
+  proficiency_cutoffs,
+  national_mean_scaled,
+  source
+) VALUES (
+  'naplan-y5-num-2016',
+  '[[0, 230], [5, 340], [10, 398], [15, 440], [20, 478], [25, 515], [30, 556], [35, 610], [38, 660], [40, 720]]',
+  '[
+    { "band": 3, "min_scaled": 0 },
+    { "band": 4, "min_scaled": 374 },
+    { "band": 5, "min_scaled": 426 },
+    { "band": 6, "min_scaled": 478 },
+    { "band": 7, "min_scaled": 530 },
+    { "band": 8, "min_scaled": 582 }
+  ]',
+  '[
+    { "level": "needs_support", "min_scaled": 0 },
+    { "level": "developing", "min_scaled": 418 },
+    { "level": "strong", "min_scaled": 493 },
+    { "level": "exceeding", "min_scaled": 583 }
+  ]',
+  493,
+  'Estimated from NAPLAN 2016 Year 5 Numeracy equating'
+) ON CONFLICT (exam_id) DO UPDATE SET
+  raw_to_scaled = EXCLUDED.raw_to_scaled,
+  band_cutoffs = EXCLUDED.band_cutoffs,
+  proficiency_cutoffs = EXCLUDED.proficiency_cutoffs,
+  national_mean_scaled = EXCLUDED.national_mean_scaled,
+  source = EXCLUDED.source,
+  updated_at = NOW();
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Exams with a score scale:
+--   SELECT e.title, s.national_mean_scaled, jsonb_array_length(s.raw_to_scaled) AS anchors
+--   FROM exam_score_scales s JOIN exams e ON e.id = s.exam_id;
@@ -0,0 +1,153 @@
+-- Migration: Admin role and question authoring permissions
+-- Run this in Supabase SQL Editor after 012_naplan_score_scales.sql
+-- ============================================
+--
+-- The /admin console writes exams and questions directly through RLS and
+-- reads the answer key through admin_get_exam_questions(), since the key
+-- columns stay hidden from the authenticated role (migration 006).
+--
+-- Make someone an admin from the SQL Editor:
+--   UPDATE user_profiles SET role = 'admin' WHERE email = 'teacher@example.com';
+
+-- 1. Role on the profile
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS role TEXT NOT NULL DEFAULT 'student'
+  CHECK (role IN ('student', 'admin'));
+
+-- ============================================
+-- 2. FUNCTION: Is the current user an admin?
+-- ============================================
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = auth.uid() AND role = 'admin'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_admin() TO authenticated;
+
+-- ============================================
+-- 3. PROTECT ROLE AND ACCOMMODATIONS
+-- ============================================
+-- "Users can update own profile" would otherwise let a student promote
+-- themselves or give themselves extra exam time. Requests without a user
+-- (SQL Editor, service role) are trusted.
+
+CREATE OR REPLACE FUNCTION protect_user_profile_privileges()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+     OR NEW.extra_time_percent IS DISTINCT FROM OLD.extra_time_percent THEN
+    RAISE EXCEPTION 'Only an admin can change role or extra time'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_user_profile_privileges ON user_profiles;
+CREATE TRIGGER protect_user_profile_privileges
+  BEFORE UPDATE ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION protect_user_profile_privileges();
+
+-- New profiles always start as students
+CREATE OR REPLACE FUNCTION default_user_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    NEW.role := 'student';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS default_user_profile_role ON user_profiles;
+CREATE TRIGGER default_user_profile_role
+  BEFORE INSERT ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION default_user_profile_role();
+
+-- ============================================
+-- 4. ADMIN POLICIES: EXAMS, QUESTIONS, SCORE SCALES
+-- ============================================
+
+DROP POLICY IF EXISTS "Admins can manage exams" ON exams;
+CREATE POLICY "Admins can manage exams"
+  ON exams
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins can manage questions" ON questions;
+CREATE POLICY "Admins can manage questions"
+  ON questions
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins can manage score scales" ON exam_score_scales;
+CREATE POLICY "Admins can manage score scales"
+  ON exam_score_scales
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- ============================================
+-- 5. FUNCTION: Full question rows for the editor
+-- ============================================
+-- Includes the answer key columns hidden by migration 006.
+
+CREATE OR REPLACE FUNCTION admin_get_exam_questions(p_exam_id TEXT)
+RETURNS SETOF questions AS $$
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM questions
+  WHERE exam_id = p_exam_id
+  ORDER BY question_number;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION admin_get_exam_questions(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_get_exam_questions(TEXT) TO authenticated;
+
+-- ============================================
+-- 6. STORAGE: Admin uploads to question-media
+-- ============================================
+-- Replaces the commented-out policy in migration 005.
+
+DROP POLICY IF EXISTS "Admins can upload question media" ON storage.objects;
+CREATE POLICY "Admins can upload question media"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'question-media' AND is_admin());
+
+DROP POLICY IF EXISTS "Admins can update question media" ON storage.objects;
+CREATE POLICY "Admins can update question media"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'question-media' AND is_admin());
+
+DROP POLICY IF EXISTS "Admins can delete question media" ON storage.objects;
+CREATE POLICY "Admins can delete question media"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'question-media' AND is_admin());
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- As a student this should fail with "Admin access required":
+--   SELECT * FROM admin_get_exam_questions('naplan-y5-num-2016');
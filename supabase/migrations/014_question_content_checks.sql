@@ -0,0 +1,188 @@
+-- Migration: SQL check for question content JSON
+-- Run this in Supabase SQL Editor after 013_admin_authoring.sql
+-- ============================================
+--
+-- The app validates content blocks with the zod schemas in
+-- src/lib/questionSchemas.ts. These functions apply the same required-field
+-- rules inside the database, so a seed can be checked right after it is
+-- loaded into a staging project (before the app ever renders it):
+--
+--   SELECT * FROM admin_question_content_issues('naplan-y5-num-2016');
+--
+-- Seed files can also be checked without a database:
+--   npm run validate:content -- supabase/migrations/my_seed.sql
+--
+-- Keep the per-type rules below in step with questionSchemas.ts.
+
+-- ============================================
+-- 1. HELPER: numbers (numeric strings are coerced by the app)
+-- ============================================
+
+CREATE OR REPLACE FUNCTION is_json_number(p_value JSONB)
+RETURNS BOOLEAN AS $$
+  SELECT p_value IS NOT NULL AND (
+    jsonb_typeof(p_value) = 'number'
+    OR (jsonb_typeof(p_value) = 'string'
+        AND p_value #>> '{}' ~ '^\s*-?[0-9]+(\.[0-9]+)?\s*$')
+  );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- 2. FUNCTION: Problems in one content block array
+-- ============================================
+
+CREATE OR REPLACE FUNCTION content_block_issues(p_blocks JSONB, p_path TEXT)
+RETURNS SETOF TEXT AS $$
+DECLARE
+  v_block JSONB;
+  v_index INTEGER := 0;
+  v_path TEXT;
+  v_key TEXT;
+  v_required TEXT[];
+BEGIN
+  IF p_blocks IS NULL OR p_blocks = 'null'::jsonb THEN
+    RETURN;
+  END IF;
+
+  IF jsonb_typeof(p_blocks) <> 'array' THEN
+    RETURN NEXT p_path || ': expected an array of content blocks';
+    RETURN;
+  END IF;
+
+  FOR v_block IN SELECT * FROM jsonb_array_elements(p_blocks) LOOP
+    v_path := p_path || '[' || v_index || ']';
+    v_index := v_index + 1;
+
+    IF jsonb_typeof(v_block) <> 'object' THEN
+      RETURN NEXT v_path || ': expected an object';
+      CONTINUE;
+    END IF;
+
+    -- Required string fields
+    v_required := CASE v_block->>'type'
+      WHEN 'text' THEN ARRAY['content']
+      WHEN 'math' THEN ARRAY['latex']
+      WHEN 'chart' THEN ARRAY['chartType']
+      WHEN 'shape' THEN ARRAY['shapeType']
+      ELSE ARRAY[]::TEXT[]
+    END;
+    FOREACH v_key IN ARRAY v_required LOOP
+      IF jsonb_typeof(v_block->v_key) IS DISTINCT FROM 'string' THEN
+        RETURN NEXT v_path || '.' || v_key || ': expected a string';
+      END IF;
+    END LOOP;
+
+    -- Required number fields
+    v_required := CASE v_block->>'type'
+      WHEN 'grid' THEN ARRAY['rows', 'cols']
+      WHEN 'number-line' THEN ARRAY['min', 'max']
+      WHEN 'tally' THEN ARRAY['count']
+      WHEN 'clock' THEN ARRAY['hours', 'minutes']
+      WHEN 'money' THEN ARRAY['amount']
+      WHEN 'fraction' THEN ARRAY['numerator', 'denominator']
+      ELSE ARRAY[]::TEXT[]
+    END;
+    FOREACH v_key IN ARRAY v_required LOOP
+      IF NOT is_json_number(v_block->v_key) THEN
+        RETURN NEXT v_path || '.' || v_key || ': expected a number';
+      END IF;
+    END LOOP;
+
+    CASE v_block->>'type'
+      WHEN 'image' THEN
+        IF v_block->>'url' IS NULL
+           AND (v_block->>'bucket' IS NULL OR v_block->>'path' IS NULL) THEN
+          RETURN NEXT v_path || ': image needs a url or a bucket and path';
+        END IF;
+      WHEN 'table' THEN
+        IF jsonb_typeof(v_block->'rows') IS DISTINCT FROM 'array' THEN
+          RETURN NEXT v_path || '.rows: expected an array';
+        END IF;
+      WHEN 'chart' THEN
+        IF jsonb_typeof(v_block#>'{data,labels}') IS DISTINCT FROM 'array'
+           OR jsonb_typeof(v_block#>'{data,values}') IS DISTINCT FROM 'array' THEN
+          RETURN NEXT v_path || '.data: expected labels and values arrays';
+        ELSIF jsonb_array_length(v_block#>'{data,labels}')
+              <> jsonb_array_length(v_block#>'{data,values}') THEN
+          RETURN NEXT v_path || '.data: chart needs one value per label';
+        END IF;
+      WHEN 'fraction' THEN
+        IF is_json_number(v_block->'denominator')
+           AND (v_block->>'denominator')::NUMERIC = 0 THEN
+          RETURN NEXT v_path || '.denominator: cannot be 0';
+        END IF;
+      WHEN 'text', 'math', 'grid', 'number-line', 'shape', 'tally',
+           'clock', 'money', 'spacer' THEN
+        NULL;
+      ELSE
+        RETURN NEXT v_path || '.type: unknown content block type '
+          || COALESCE(quote_literal(v_block->>'type'), 'NULL');
+    END CASE;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================
+-- 3. FUNCTION: Problems across an exam's questions
+-- ============================================
+-- Reads answer_explanation, which is hidden from students (migration 006),
+-- so it is limited to admins and the SQL Editor.
+
+CREATE OR REPLACE FUNCTION admin_question_content_issues(
+  p_exam_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  exam_id TEXT,
+  question_number INTEGER,
+  question_id UUID,
+  issue TEXT
+) AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    RAISE EXCEPTION 'Admin access required' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.exam_id, q.question_number, q.id, problems.issue
+  FROM questions q
+  CROSS JOIN LATERAL (
+    SELECT content_block_issues(q.content, 'content') AS issue
+    UNION ALL
+    SELECT content_block_issues(q.hint_content, 'hint_content')
+    UNION ALL
+    SELECT content_block_issues(q.answer_explanation, 'answer_explanation')
+    UNION ALL
+    SELECT content_block_issues(
+      opt.value->'content',
+      'options_data[' || (opt.ordinality - 1) || '].content'
+    )
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(q.options_data) = 'array'
+        THEN q.options_data ELSE '[]'::jsonb END
+    ) WITH ORDINALITY AS opt(value, ordinality)
+    UNION ALL
+    SELECT content_block_issues(
+      target.value->'content',
+      'match_targets[' || (target.ordinality - 1) || '].content'
+    )
+    FROM jsonb_array_elements(
+      CASE WHEN jsonb_typeof(q.match_targets) = 'array'
+        THEN q.match_targets ELSE '[]'::jsonb END
+    ) WITH ORDINALITY AS target(value, ordinality)
+  ) AS problems
+  WHERE p_exam_id IS NULL OR q.exam_id = p_exam_id
+  ORDER BY q.exam_id, q.question_number;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION admin_question_content_issues(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION admin_question_content_issues(TEXT) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Should return one row per broken field (no rows = all content renders):
+--   SELECT * FROM admin_question_content_issues();
+--
+--   SELECT content_block_issues('[{"type": "fraction", "numerator": "3"}]', 'content');
+--   -> content[0].denominator: expected a number
@@ -0,0 +1,96 @@
+-- Migration: Shared stimulus passages for reading comprehension
+-- Run this in Supabase SQL Editor after 014_question_content_checks.sql
+-- ============================================
+--
+-- A stimulus is a passage, poem or infographic made of content blocks
+-- (same JSON as questions.content) that several questions refer to. The
+-- player shows it in a split pane beside each linked question.
+--
+--   stimulus_type       passage | poem | infographic
+--   show_line_numbers   number the lines of text blocks; each "\n" in a
+--                       text block's content starts a new line
+--
+-- Link a question:
+--   UPDATE questions SET stimulus_id = '<stimulus uuid>'
+--   WHERE exam_id = 'naplan-y7-read-2016' AND question_number BETWEEN 1 AND 6;
+
+-- ============================================
+-- 1. STIMULI TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS stimuli (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id TEXT NOT NULL REFERENCES exams(id) ON DELETE CASCADE,
+  title TEXT NOT NULL DEFAULT '',
+  stimulus_type TEXT NOT NULL DEFAULT 'passage'
+    CHECK (stimulus_type IN ('passage', 'poem', 'infographic')),
+  content JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(content) = 'array'),
+  show_line_numbers BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stimuli_exam ON stimuli(exam_id);
+
+ALTER TABLE stimuli ENABLE ROW LEVEL SECURITY;
+
+-- Stimuli hold no answers: anyone who can see the exam can read them
+DROP POLICY IF EXISTS "Stimuli are viewable by everyone" ON stimuli;
+CREATE POLICY "Stimuli are viewable by everyone"
+  ON stimuli
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage stimuli" ON stimuli;
+CREATE POLICY "Admins can manage stimuli"
+  ON stimuli
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- ============================================
+-- 2. QUESTION LINK
+-- ============================================
+
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS stimulus_id UUID REFERENCES stimuli(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_questions_stimulus ON questions(stimulus_id);
+
+-- Students need the link to load the passage (see the column grants in
+-- migration 006)
+GRANT SELECT (stimulus_id) ON questions TO anon, authenticated;
+
+-- A question may only use a stimulus from its own exam
+CREATE OR REPLACE FUNCTION check_question_stimulus_exam()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.stimulus_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM stimuli
+    WHERE id = NEW.stimulus_id AND exam_id = NEW.exam_id
+  ) THEN
+    RAISE EXCEPTION 'Stimulus % does not belong to exam %',
+      NEW.stimulus_id, NEW.exam_id
+      USING ERRCODE = '23503';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_question_stimulus_exam ON questions;
+CREATE TRIGGER check_question_stimulus_exam
+  BEFORE INSERT OR UPDATE OF stimulus_id, exam_id ON questions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_question_stimulus_exam();
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Stimuli with the questions that use them:
+--   SELECT s.exam_id, s.title, array_agg(q.question_number ORDER BY q.question_number)
+--   FROM stimuli s LEFT JOIN questions q ON q.stimulus_id = s.id
+--   GROUP BY s.id;
+--
+-- Stimulus content problems (same rules as migration 014):
+--   SELECT s.title, content_block_issues(s.content, 'content') FROM stimuli s;
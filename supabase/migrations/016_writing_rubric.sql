@@ -0,0 +1,280 @@
+-- Migration: NAPLAN Writing - extended responses marked against the rubric
+-- Run this in Supabase SQL Editor after 015_stimuli.sql
+-- ============================================
+--
+-- extended-response questions are answered with a piece of writing (HTML
+-- from the player's editor, stored in exam_attempts.answers like any other
+-- answer). grade_question() cannot mark them - they have no correct_answer,
+-- so they earn 0 when the attempt is submitted - and are marked afterwards
+-- against the 10 NAPLAN writing criteria:
+--
+--   criterion            max     criterion            max
+--   -------------------  ---     -------------------  ---
+--   audience              6      cohesion              4
+--   text_structure        4      paragraphing          3
+--   ideas                 5      sentence_structure    6
+--   persuasive_devices    4      punctuation           5
+--   vocabulary            5      spelling              6
+--                                                     ---
+--                                              total  48
+--
+-- mark_writing_response() stores the marks and rescales them onto the
+-- question's points (give writing prompts 48 points so the raw score
+-- matches the rubric), then recomputes the attempt's score.
+--
+-- Keep the criteria in step with WRITING_CRITERIA in src/lib/writing.ts.
+
+-- ============================================
+-- 1. FUNCTION: Rubric maxima
+-- ============================================
+
+CREATE OR REPLACE FUNCTION writing_rubric()
+RETURNS JSONB AS $$
+  SELECT '{
+    "audience": 6,
+    "text_structure": 4,
+    "ideas": 5,
+    "persuasive_devices": 4,
+    "vocabulary": 5,
+    "cohesion": 4,
+    "paragraphing": 3,
+    "sentence_structure": 6,
+    "punctuation": 5,
+    "spelling": 6
+  }'::jsonb;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ============================================
+-- 2. WRITING MARKS TABLE
+-- ============================================
+-- No FK to questions, for the same reason as attempt_question_results
+-- (migration 006): re-seeding an exam must not delete marked work.
+
+CREATE TABLE IF NOT EXISTS writing_marks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  attempt_id UUID NOT NULL REFERENCES exam_attempts(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL,
+  scores JSONB NOT NULL,
+  total INTEGER NOT NULL,
+  max_total INTEGER NOT NULL,
+  comment TEXT,
+  marked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  marked_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(attempt_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_writing_marks_attempt ON writing_marks(attempt_id);
+
+ALTER TABLE writing_marks ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- 3. FUNCTION: Who may mark an attempt
+-- ============================================
+-- Admins only for now. Never the student who took the attempt - marks
+-- rewrite the attempt's score, so they could mark themselves up. Extend
+-- this function when other marker roles are added.
+
+CREATE OR REPLACE FUNCTION can_mark_attempt(p_attempt_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT is_admin();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION can_mark_attempt(UUID) TO authenticated;
+
+-- Marks are written only by mark_writing_response()
+DROP POLICY IF EXISTS "Markers can view writing marks" ON writing_marks;
+CREATE POLICY "Markers can view writing marks"
+  ON writing_marks
+  FOR SELECT
+  USING (can_mark_attempt(attempt_id));
+
+DROP POLICY IF EXISTS "Students can view own writing marks" ON writing_marks;
+CREATE POLICY "Students can view own writing marks"
+  ON writing_marks
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM exam_attempts
+      WHERE id = writing_marks.attempt_id AND user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- 4. FUNCTION: Mark a response
+-- ============================================
+-- p_scores: { "audience": 4, "text_structure": 3, ... } - every criterion,
+-- each a whole number from 0 to its maximum. Marking again replaces the
+-- previous marks.
+
+CREATE OR REPLACE FUNCTION mark_writing_response(
+  p_attempt_id UUID,
+  p_question_id UUID,
+  p_scores JSONB,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_attempt exam_attempts%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_criterion RECORD;
+  v_score INTEGER;
+  v_total INTEGER := 0;
+  v_max_total INTEGER := 0;
+  v_points NUMERIC;
+  v_attempt_score NUMERIC;
+  v_attempt_total NUMERIC;
+BEGIN
+  IF auth.role() IS DISTINCT FROM 'service_role'
+     AND NOT can_mark_attempt(p_attempt_id) THEN
+    RAISE EXCEPTION 'Not allowed to mark exam attempt %', p_attempt_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_attempt
+  FROM exam_attempts
+  WHERE id = p_attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_attempt.graded_at IS NULL THEN
+    RAISE EXCEPTION 'Exam attempt % has not been submitted', p_attempt_id
+      USING ERRCODE = '55000';
+  END IF;
+
+  SELECT * INTO v_question
+  FROM questions
+  WHERE id = p_question_id AND exam_id = v_attempt.exam_id;
+
+  IF NOT FOUND
+     OR replace(lower(v_question.question_type), '_', '-') <> 'extended-response' THEN
+    RAISE EXCEPTION 'Question % is not a writing task in this attempt', p_question_id
+      USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_criterion IN
+    SELECT key, value::INTEGER AS max FROM jsonb_each_text(writing_rubric())
+  LOOP
+    IF jsonb_typeof(p_scores -> v_criterion.key) IS DISTINCT FROM 'number' THEN
+      RAISE EXCEPTION 'Missing score for %', v_criterion.key
+        USING ERRCODE = '22023';
+    END IF;
+
+    v_score := (p_scores ->> v_criterion.key)::NUMERIC;
+    IF v_score::NUMERIC <> (p_scores ->> v_criterion.key)::NUMERIC
+       OR v_score < 0 OR v_score > v_criterion.max THEN
+      RAISE EXCEPTION '% must be a whole number from 0 to %',
+        v_criterion.key, v_criterion.max
+        USING ERRCODE = '22023';
+    END IF;
+
+    v_total := v_total + v_score;
+    v_max_total := v_max_total + v_criterion.max;
+  END LOOP;
+
+  INSERT INTO writing_marks (
+    attempt_id, question_id, scores, total, max_total, comment, marked_by
+  ) VALUES (
+    p_attempt_id, p_question_id,
+    (SELECT jsonb_object_agg(key, p_scores -> key) FROM jsonb_object_keys(writing_rubric()) AS key),
+    v_total, v_max_total, NULLIF(btrim(p_comment), ''), auth.uid()
+  )
+  ON CONFLICT (attempt_id, question_id) DO UPDATE SET
+    scores = EXCLUDED.scores,
+    total = EXCLUDED.total,
+    max_total = EXCLUDED.max_total,
+    comment = EXCLUDED.comment,
+    marked_by = EXCLUDED.marked_by,
+    marked_at = NOW();
+
+  -- Rescale onto the question's points and refresh the attempt score
+  PERFORM set_config('eduassess.grading', 'on', true);
+
+  v_points := COALESCE(v_question.points, 1);
+
+  INSERT INTO attempt_question_results (
+    attempt_id, question_id, answer, is_correct, points_awarded, points_possible
+  ) VALUES (
+    p_attempt_id, p_question_id, v_attempt.answers ->> p_question_id::text,
+    v_total = v_max_total, ROUND(v_points * v_total / v_max_total, 4), v_points
+  )
+  ON CONFLICT (attempt_id, question_id) DO UPDATE SET
+    is_correct = EXCLUDED.is_correct,
+    points_awarded = EXCLUDED.points_awarded,
+    points_possible = EXCLUDED.points_possible,
+    graded_at = NOW();
+
+  SELECT COALESCE(SUM(points_awarded), 0), COALESCE(SUM(points_possible), 0)
+  INTO v_attempt_score, v_attempt_total
+  FROM attempt_question_results
+  WHERE attempt_id = p_attempt_id;
+
+  UPDATE exam_attempts
+  SET score = v_attempt_score,
+      percentage = CASE WHEN v_attempt_total > 0
+        THEN ROUND(v_attempt_score / v_attempt_total * 100) ELSE 0 END
+  WHERE id = p_attempt_id
+  RETURNING * INTO v_attempt;
+
+  RETURN jsonb_build_object(
+    'total', v_total,
+    'max_total', v_max_total,
+    'score', v_attempt.score,
+    'total_points', v_attempt.total_points,
+    'percentage', v_attempt.percentage
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION mark_writing_response(UUID, UUID, JSONB, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mark_writing_response(UUID, UUID, JSONB, TEXT) TO authenticated;
+
+-- ============================================
+-- 5. FUNCTION: Responses to mark
+-- ============================================
+-- Teachers can't read other families' exam_attempts rows, so the marking
+-- page loads the writing through this function.
+
+CREATE OR REPLACE FUNCTION get_writing_responses(p_attempt_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  question_number INTEGER,
+  question_text TEXT,
+  content JSONB,
+  points NUMERIC,
+  answer TEXT
+) AS $$
+BEGIN
+  IF NOT can_mark_attempt(p_attempt_id) THEN
+    RAISE EXCEPTION 'Not allowed to mark exam attempt %', p_attempt_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.question_number, q.question_text, q.content,
+         COALESCE(q.points, 1)::NUMERIC, ea.answers ->> q.id::text
+  FROM exam_attempts ea
+  JOIN questions q ON q.exam_id = ea.exam_id
+  WHERE ea.id = p_attempt_id
+    AND ea.graded_at IS NOT NULL
+    AND replace(lower(q.question_type), '_', '-') = 'extended-response'
+  ORDER BY q.question_number;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_writing_responses(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_writing_responses(UUID) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Should equal 48:
+--   SELECT SUM(value::INTEGER) FROM jsonb_each_text(writing_rubric());
+--
+-- Responses waiting to be marked:
+--   SELECT ea.id, q.question_number
+--   FROM exam_attempts ea
+--   JOIN questions q ON q.exam_id = ea.exam_id
+--   LEFT JOIN writing_marks wm ON wm.attempt_id = ea.id AND wm.question_id = q.id
+--   WHERE ea.graded_at IS NOT NULL
+--     AND q.question_type = 'extended-response'
+--     AND wm.id IS NULL;
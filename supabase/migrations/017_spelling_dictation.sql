@@ -0,0 +1,225 @@
+-- Migration: Spelling dictation questions
+-- Run this in Supabase SQL Editor after 016_writing_rubric.sql
+-- ============================================
+--
+-- A dictation question plays a word-in-sentence prompt ("beautiful. The
+-- garden looked beautiful in spring. beautiful.") and the student types
+-- the spelling:
+--
+--   audio_path        recorded prompt (migration 005) - preferred
+--   dictation_text    what text-to-speech reads when there is no recording
+--   correct_answer    the word, graded exactly
+--   spelling_pattern  e.g. 'doubling-consonants', 'silent-letters' - the
+--                     results page groups misspellings by it
+--
+-- dictation_text contains the answer, so like correct_answer it is hidden
+-- by the column grants (migration 006). The player loads it through
+-- get_dictation_prompts() while the attempt is in progress. Prefer a
+-- recording for high-stakes use: the fallback text still reaches the
+-- browser.
+
+-- ============================================
+-- 1. COLUMNS
+-- ============================================
+
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS dictation_text TEXT,
+ADD COLUMN IF NOT EXISTS spelling_pattern TEXT;
+
+COMMENT ON COLUMN questions.dictation_text IS 'dictation: word-in-sentence prompt read by text-to-speech when there is no audio_path';
+COMMENT ON COLUMN questions.spelling_pattern IS 'dictation: spelling pattern the word tests, e.g. doubling-consonants';
+
+-- The pattern is shown on the results page like topic and skill
+GRANT SELECT (spelling_pattern) ON questions TO anon, authenticated;
+
+-- ============================================
+-- 2. FUNCTION: Prompts for the player
+-- ============================================
+
+CREATE OR REPLACE FUNCTION get_dictation_prompts(p_attempt_id UUID)
+RETURNS TABLE (question_id UUID, dictation_text TEXT) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM exam_attempts
+    WHERE id = p_attempt_id
+      AND user_id = auth.uid()
+      AND status = 'in_progress'
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.dictation_text
+  FROM questions q
+  JOIN exam_attempts ea ON ea.exam_id = q.exam_id
+  WHERE ea.id = p_attempt_id
+    AND q.dictation_text IS NOT NULL
+    AND replace(lower(q.question_type), '_', '-') = 'dictation';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_dictation_prompts(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_dictation_prompts(UUID) TO authenticated;
+
+-- ============================================
+-- 3. FUNCTION: Grade a single question
+-- ============================================
+-- Replaces the 008 version, adding dictation. Still returns the fraction
+-- of the question's points earned (0..1).
+
+CREATE OR REPLACE FUNCTION grade_question(
+  p_question questions,
+  p_answer TEXT
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_type TEXT;
+  v_expected TEXT[];
+  v_given TEXT[];
+  v_hits INTEGER;
+  v_wrong INTEGER;
+  v_key JSONB;
+  v_map JSONB;
+  v_blank JSONB;
+  v_total INTEGER;
+  v_matched INTEGER;
+  v_number NUMERIC;
+  v_correct_number NUMERIC;
+  v_correct BOOLEAN;
+BEGIN
+  IF p_answer IS NULL OR btrim(p_answer) = '' THEN
+    RETURN 0;
+  END IF;
+
+  v_type := replace(lower(COALESCE(p_question.question_type, 'multiple-choice')), '_', '-');
+
+  CASE v_type
+    -- Partial credit: (correct picks - wrong picks) / number of correct options
+    WHEN 'multiple-select' THEN
+      v_expected := parse_answer_list(p_question.correct_answer);
+      v_given := ARRAY(SELECT DISTINCT unnest(parse_answer_list(p_answer)));
+
+      IF cardinality(v_expected) = 0 THEN
+        RETURN 0;
+      END IF;
+
+      SELECT COUNT(*) FILTER (WHERE g = ANY(v_expected)),
+             COUNT(*) FILTER (WHERE NOT g = ANY(v_expected))
+      INTO v_hits, v_wrong
+      FROM unnest(v_given) AS g;
+
+      RETURN GREATEST(0, ROUND((v_hits - v_wrong)::NUMERIC / cardinality(v_expected), 4));
+
+    WHEN 'numeric' THEN
+      v_number := parse_answer_numeric(p_answer);
+      v_correct_number := parse_answer_numeric(p_question.correct_answer);
+
+      IF v_number IS NULL OR v_correct_number IS NULL THEN
+        RETURN 0;
+      END IF;
+
+      IF abs(v_number - v_correct_number) <= COALESCE(p_question.numeric_tolerance, 0) THEN
+        RETURN 1;
+      END IF;
+      RETURN 0;
+
+    -- Every blank must match its answer (or one of its accepted spellings)
+    WHEN 'fill-in-blank' THEN
+      v_map := parse_answer_map(p_answer);
+      IF v_map IS NULL
+         OR p_question.blanks IS NULL
+         OR jsonb_typeof(p_question.blanks) <> 'array'
+         OR jsonb_array_length(p_question.blanks) = 0 THEN
+        RETURN 0;
+      END IF;
+
+      FOR v_blank IN SELECT * FROM jsonb_array_elements(p_question.blanks)
+      LOOP
+        IF NOT (
+          normalize_answer(v_map ->> (v_blank ->> 'id')) = normalize_answer(v_blank ->> 'correct')
+          OR normalize_answer(v_map ->> (v_blank ->> 'id')) IN (
+            SELECT normalize_answer(value)
+            FROM jsonb_array_elements_text(COALESCE(v_blank -> 'accept', '[]'::jsonb))
+          )
+        ) THEN
+          RETURN 0;
+        END IF;
+      END LOOP;
+      RETURN 1;
+
+    -- Options in the exact order
+    WHEN 'drag-drop' THEN
+      v_expected := parse_answer_list(p_question.correct_answer);
+      v_given := parse_answer_list(p_answer);
+
+      IF cardinality(v_expected) > 0 AND v_given = v_expected THEN
+        RETURN 1;
+      END IF;
+      RETURN 0;
+
+    -- Partial credit: correctly paired options / number of pairs
+    WHEN 'matching' THEN
+      v_key := parse_answer_map(p_question.correct_answer);
+      v_map := parse_answer_map(p_answer);
+
+      IF v_key IS NULL OR v_map IS NULL THEN
+        RETURN 0;
+      END IF;
+
+      SELECT COUNT(*),
+             COUNT(*) FILTER (WHERE normalize_answer(v_map ->> k.key) = normalize_answer(k.value))
+      INTO v_total, v_matched
+      FROM jsonb_each_text(v_key) AS k;
+
+      IF v_total = 0 THEN
+        RETURN 0;
+      END IF;
+      RETURN ROUND(v_matched::NUMERIC / v_total, 4);
+
+    -- Spelling is exact: only surrounding spaces are forgiven, and case
+    -- only matters when the word has capitals (proper nouns)
+    WHEN 'dictation' THEN
+      IF p_question.correct_answer IS NULL OR btrim(p_question.correct_answer) = '' THEN
+        RETURN 0;
+      END IF;
+
+      IF p_question.correct_answer = lower(p_question.correct_answer) THEN
+        v_correct := lower(btrim(p_answer)) = btrim(p_question.correct_answer);
+      ELSE
+        v_correct := btrim(p_answer) = btrim(p_question.correct_answer);
+      END IF;
+
+      IF v_correct THEN
+        RETURN 1;
+      END IF;
+      RETURN 0;
+
+    -- multiple-choice, true-false, short-answer and legacy rows
+    ELSE
+      IF p_question.correct_answer IS NULL THEN
+        RETURN 0;
+      END IF;
+
+      IF normalize_answer(p_answer) = normalize_answer(p_question.correct_answer) THEN
+        RETURN 1;
+      END IF;
+      RETURN 0;
+  END CASE;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- For a dictation question whose answer is 'beautiful', expect 1, 1, 0:
+--   SELECT grade_question(q, 'beautiful'),
+--          grade_question(q, ' Beautiful '),
+--          grade_question(q, 'beutiful')
+--   FROM questions q
+--   WHERE q.question_type = 'dictation' AND q.correct_answer = 'beautiful'
+--   LIMIT 1;
+--
+-- Dictation questions with nothing to play:
+--   SELECT exam_id, question_number FROM questions
+--   WHERE question_type = 'dictation'
+--     AND audio_path IS NULL AND dictation_text IS NULL;
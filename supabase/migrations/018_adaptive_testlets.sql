@@ -0,0 +1,499 @@
+-- Migration: Adaptive (multistage) exams built from testlets
+-- Run this in Supabase SQL Editor after 017_spelling_dictation.sql
+-- ============================================
+--
+-- Like NAPLAN Online, an adaptive exam is split into testlets. Every
+-- student starts on the stage 1 testlet; when they finish a testlet the
+-- server looks at their running score and routes them to an easier or
+-- harder testlet for the next stage. Students can't go back to a finished
+-- testlet.
+--
+--   testlets.routing   [{ "min_percent": 70, "next": "<testlet uuid>" },
+--                       { "min_percent": 0,  "next": "<testlet uuid>" }]
+--                      the rule with the highest min_percent at or below
+--                      the running percentage wins (below them all, the
+--                      lowest rule); [] ends the exam
+--   testlets.weight    multiplies the points of the testlet's questions,
+--                      so a harder path can earn more
+--
+-- Scoring: points are weighted by their testlet, and total_points is the
+-- most the best path could earn. Acing the easier path therefore scores
+-- below acing the harder one, and the NAPLAN scale (migration 012) sees
+-- the path-adjusted score.
+--
+-- Only questions on the student's path are graded. In an adaptive exam
+-- every question should belong to a testlet; questions without one are
+-- never shown. Writing tasks (migration 016) are not supported in
+-- adaptive exams.
+
+-- ============================================
+-- 1. EXAM FLAG AND TESTLETS TABLE
+-- ============================================
+
+ALTER TABLE exams
+ADD COLUMN IF NOT EXISTS is_adaptive BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS testlets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  exam_id TEXT NOT NULL REFERENCES exams(id) ON DELETE CASCADE,
+  stage INTEGER NOT NULL DEFAULT 1 CHECK (stage >= 1),
+  label TEXT NOT NULL DEFAULT '',
+  level TEXT NOT NULL DEFAULT 'standard'
+    CHECK (level IN ('easier', 'standard', 'harder')),
+  weight NUMERIC NOT NULL DEFAULT 1 CHECK (weight > 0),
+  routing JSONB NOT NULL DEFAULT '[]'::jsonb
+    CHECK (jsonb_typeof(routing) = 'array'),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_testlets_exam ON testlets(exam_id, stage);
+
+-- One starting testlet per exam
+CREATE UNIQUE INDEX IF NOT EXISTS idx_testlets_exam_start
+  ON testlets(exam_id) WHERE stage = 1;
+
+ALTER TABLE testlets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Testlets are viewable by everyone" ON testlets;
+CREATE POLICY "Testlets are viewable by everyone"
+  ON testlets
+  FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can manage testlets" ON testlets;
+CREATE POLICY "Admins can manage testlets"
+  ON testlets
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- ============================================
+-- 2. QUESTION LINK
+-- ============================================
+
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS testlet_id UUID REFERENCES testlets(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_questions_testlet ON questions(testlet_id);
+
+-- The player shows one testlet at a time (see the column grants in
+-- migration 006)
+GRANT SELECT (testlet_id) ON questions TO anon, authenticated;
+
+-- A question may only join a testlet of its own exam
+CREATE OR REPLACE FUNCTION check_question_testlet_exam()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.testlet_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM testlets
+    WHERE id = NEW.testlet_id AND exam_id = NEW.exam_id
+  ) THEN
+    RAISE EXCEPTION 'Testlet % does not belong to exam %',
+      NEW.testlet_id, NEW.exam_id
+      USING ERRCODE = '23503';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_question_testlet_exam ON questions;
+CREATE TRIGGER check_question_testlet_exam
+  BEFORE INSERT OR UPDATE OF testlet_id, exam_id ON questions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_question_testlet_exam();
+
+-- ============================================
+-- 3. ATTEMPT PATH
+-- ============================================
+-- testlet_path lists the testlets taken so far; the last one is current.
+-- Only advance_testlet() may extend it, and answers to finished testlets
+-- are frozen.
+
+ALTER TABLE exam_attempts
+ADD COLUMN IF NOT EXISTS testlet_path UUID[] NOT NULL DEFAULT '{}';
+
+CREATE OR REPLACE FUNCTION protect_exam_attempt_testlets()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_finished UUID[];
+  v_question_id TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.testlet_path := COALESCE(ARRAY(
+      SELECT t.id FROM testlets t
+      JOIN exams e ON e.id = t.exam_id
+      WHERE t.exam_id = NEW.exam_id AND t.stage = 1 AND e.is_adaptive
+    ), '{}');
+    RETURN NEW;
+  END IF;
+
+  IF auth.role() = 'service_role'
+     OR current_setting('eduassess.grading', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.testlet_path IS DISTINCT FROM OLD.testlet_path THEN
+    RAISE EXCEPTION 'The testlet path can only be changed by advance_testlet()'
+      USING ERRCODE = '42501';
+  END IF;
+
+  v_finished := OLD.testlet_path[1:cardinality(OLD.testlet_path) - 1];
+  IF cardinality(v_finished) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_question_id IN
+    SELECT id::text FROM questions WHERE testlet_id = ANY(v_finished)
+  LOOP
+    IF OLD.answers ? v_question_id THEN
+      NEW.answers := jsonb_set(
+        COALESCE(NEW.answers, '{}'::jsonb),
+        ARRAY[v_question_id],
+        OLD.answers -> v_question_id
+      );
+    ELSE
+      NEW.answers := NEW.answers - v_question_id;
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_protect_exam_attempt_testlets ON exam_attempts;
+CREATE TRIGGER trigger_protect_exam_attempt_testlets
+  BEFORE INSERT OR UPDATE ON exam_attempts
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_exam_attempt_testlets();
+
+-- ============================================
+-- 4. FUNCTIONS: Weighted points
+-- ============================================
+
+-- Weighted points available in one testlet
+CREATE OR REPLACE FUNCTION testlet_points(p_testlet_id UUID)
+RETURNS NUMERIC AS $$
+  SELECT COALESCE(SUM(COALESCE(q.points, 1)), 0) * t.weight
+  FROM testlets t
+  LEFT JOIN questions q ON q.testlet_id = t.id
+  WHERE t.id = p_testlet_id
+  GROUP BY t.weight;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- The most any path through an adaptive exam can earn
+CREATE OR REPLACE FUNCTION adaptive_max_points(p_exam_id TEXT)
+RETURNS NUMERIC AS $$
+  WITH RECURSIVE paths (testlet_id, total, depth) AS (
+    SELECT id, testlet_points(id), 1
+    FROM testlets
+    WHERE exam_id = p_exam_id AND stage = 1
+
+    UNION ALL
+
+    SELECT (r ->> 'next')::uuid, p.total + testlet_points((r ->> 'next')::uuid), p.depth + 1
+    FROM paths p
+    JOIN testlets t ON t.id = p.testlet_id
+    CROSS JOIN jsonb_array_elements(t.routing) r
+    -- Guards against a routing loop
+    WHERE p.depth < 20
+      AND EXISTS (SELECT 1 FROM testlets n WHERE n.id = (r ->> 'next')::uuid)
+  )
+  SELECT COALESCE(MAX(total), 0) FROM paths;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Running weighted percentage over the testlets taken so far
+CREATE OR REPLACE FUNCTION testlet_running_percent(
+  p_attempt exam_attempts
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_question questions%ROWTYPE;
+  v_weight NUMERIC;
+  v_score NUMERIC := 0;
+  v_total NUMERIC := 0;
+BEGIN
+  FOR v_question IN
+    SELECT * FROM questions
+    WHERE testlet_id = ANY(p_attempt.testlet_path)
+  LOOP
+    SELECT weight INTO v_weight FROM testlets WHERE id = v_question.testlet_id;
+    v_total := v_total + COALESCE(v_question.points, 1) * v_weight;
+    v_score := v_score + COALESCE(v_question.points, 1) * v_weight
+      * grade_question(v_question, p_attempt.answers ->> v_question.id::text);
+  END LOOP;
+
+  IF v_total = 0 THEN
+    RETURN 0;
+  END IF;
+  RETURN ROUND(v_score / v_total * 100, 2);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Grades answers, so only advance_testlet() may call it
+REVOKE ALL ON FUNCTION testlet_running_percent(exam_attempts) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 5. FUNCTION: Finish a testlet and route to the next
+-- ============================================
+-- p_from_testlet_id is the testlet the player just finished, so a repeated
+-- call can't skip a stage. Save the answers before calling.
+--
+-- Only the path comes back, never the running score: the score is worked
+-- out on a real advance, which locks the finished testlet's answers, so
+-- calling this can't be used to check an answer. Whether the exam ends
+-- depends only on the testlet's routing, not on the score.
+
+CREATE OR REPLACE FUNCTION advance_testlet(
+  p_attempt_id UUID,
+  p_from_testlet_id UUID
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_attempt exam_attempts%ROWTYPE;
+  v_current UUID;
+  v_routing JSONB;
+  v_percent NUMERIC;
+  v_next UUID;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM exam_attempts
+  WHERE id = p_attempt_id
+    AND (user_id = auth.uid() OR auth.role() = 'service_role')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not allowed to continue exam attempt %', p_attempt_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_attempt.status <> 'in_progress' OR v_attempt.graded_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Exam attempt % is locked', p_attempt_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_attempt.paused_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Exam attempt % is paused', p_attempt_id
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_attempt.deadline_at IS NOT NULL
+     AND NOW() > v_attempt.deadline_at + make_interval(secs => exam_deadline_grace_seconds()) THEN
+    RAISE EXCEPTION 'Time is up for exam attempt %', p_attempt_id
+      USING ERRCODE = '42501', HINT = 'deadline_passed';
+  END IF;
+
+  v_current := v_attempt.testlet_path[cardinality(v_attempt.testlet_path)];
+
+  -- Already moved on (double click, second tab): report where we are
+  IF v_current IS DISTINCT FROM p_from_testlet_id THEN
+    RETURN jsonb_build_object(
+      'testlet_path', to_jsonb(v_attempt.testlet_path),
+      'finished', false
+    );
+  END IF;
+
+  SELECT routing INTO v_routing FROM testlets WHERE id = v_current;
+
+  IF jsonb_array_length(COALESCE(v_routing, '[]'::jsonb)) > 0 THEN
+    v_percent := testlet_running_percent(v_attempt);
+  END IF;
+
+  SELECT rule.next INTO v_next
+  FROM (
+    SELECT (r ->> 'next')::uuid AS next,
+           COALESCE((r ->> 'min_percent')::NUMERIC, 0) AS min_percent
+    FROM jsonb_array_elements(COALESCE(v_routing, '[]'::jsonb)) r
+  ) rule
+  WHERE EXISTS (
+    SELECT 1 FROM testlets t
+    WHERE t.id = rule.next AND t.exam_id = v_attempt.exam_id
+  )
+  ORDER BY
+    rule.min_percent <= v_percent DESC,
+    CASE WHEN rule.min_percent <= v_percent
+      THEN rule.min_percent ELSE -rule.min_percent END DESC
+  LIMIT 1;
+
+  IF v_next IS NULL THEN
+    RETURN jsonb_build_object(
+      'testlet_path', to_jsonb(v_attempt.testlet_path),
+      'finished', true
+    );
+  END IF;
+
+  PERFORM set_config('eduassess.grading', 'on', true);
+
+  UPDATE exam_attempts
+  SET testlet_path = array_append(testlet_path, v_next)
+  WHERE id = p_attempt_id
+  RETURNING * INTO v_attempt;
+
+  RETURN jsonb_build_object(
+    'testlet_path', to_jsonb(v_attempt.testlet_path),
+    'finished', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION advance_testlet(UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION advance_testlet(UUID, UUID) TO authenticated;
+
+-- ============================================
+-- 6. GRADING: only the path, weighted
+-- ============================================
+-- Replaces the 007 version. Non-adaptive exams grade exactly as before.
+
+CREATE OR REPLACE FUNCTION finalize_exam_attempt(p_attempt_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_attempt exam_attempts%ROWTYPE;
+  v_question questions%ROWTYPE;
+  v_answer TEXT;
+  v_credit NUMERIC;
+  v_points NUMERIC;
+  v_score NUMERIC := 0;
+  v_total NUMERIC := 0;
+  v_correct INTEGER := 0;
+  v_count INTEGER := 0;
+  v_percentage INTEGER;
+  v_ended_at TIMESTAMPTZ;
+  v_paused_seconds INTEGER;
+  v_adaptive BOOLEAN;
+  v_weight NUMERIC;
+BEGIN
+  SELECT * INTO v_attempt
+  FROM exam_attempts
+  WHERE id = p_attempt_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Exam attempt % not found', p_attempt_id
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Already graded: return the stored result so a double submit is harmless
+  IF v_attempt.graded_at IS NOT NULL OR v_attempt.status <> 'in_progress' THEN
+    SELECT COUNT(*), COUNT(*) FILTER (WHERE is_correct)
+    INTO v_count, v_correct
+    FROM attempt_question_results
+    WHERE attempt_id = p_attempt_id;
+
+    RETURN jsonb_build_object(
+      'attempt_id', v_attempt.id,
+      'score', v_attempt.score,
+      'total_points', v_attempt.total_points,
+      'percentage', v_attempt.percentage,
+      'correct_count', v_correct,
+      'question_count', v_count,
+      'time_spent_seconds', v_attempt.time_spent_seconds,
+      'already_graded', true
+    );
+  END IF;
+
+  PERFORM set_config('eduassess.grading', 'on', true);
+
+  -- Attempts started before the exam became adaptive have no path and are
+  -- graded as a plain exam
+  SELECT COALESCE(is_adaptive, false) AND cardinality(v_attempt.testlet_path) > 0
+  INTO v_adaptive
+  FROM exams WHERE id = v_attempt.exam_id;
+
+  FOR v_question IN
+    SELECT * FROM questions
+    WHERE exam_id = v_attempt.exam_id
+      AND (NOT v_adaptive OR testlet_id = ANY(v_attempt.testlet_path))
+    ORDER BY question_number
+  LOOP
+    v_answer := v_attempt.answers ->> v_question.id::text;
+    v_weight := 1;
+    IF v_adaptive THEN
+      SELECT weight INTO v_weight FROM testlets WHERE id = v_question.testlet_id;
+    END IF;
+    v_points := COALESCE(v_question.points, 1) * v_weight;
+    v_credit := grade_question(v_question, v_answer);
+
+    v_total := v_total + v_points;
+    v_score := v_score + v_points * v_credit;
+    v_count := v_count + 1;
+    IF v_credit >= 1 THEN
+      v_correct := v_correct + 1;
+    END IF;
+
+    INSERT INTO attempt_question_results (
+      attempt_id, question_id, answer, is_correct, points_awarded, points_possible
+    ) VALUES (
+      p_attempt_id, v_question.id, v_answer, v_credit >= 1, v_points * v_credit, v_points
+    )
+    ON CONFLICT (attempt_id, question_id) DO UPDATE SET
+      answer = EXCLUDED.answer,
+      is_correct = EXCLUDED.is_correct,
+      points_awarded = EXCLUDED.points_awarded,
+      points_possible = EXCLUDED.points_possible,
+      graded_at = NOW();
+  END LOOP;
+
+  -- Out of the best path's points, so an easier path can't reach 100%
+  IF v_adaptive THEN
+    v_total := GREATEST(v_total, adaptive_max_points(v_attempt.exam_id));
+  END IF;
+
+  v_percentage := CASE WHEN v_total > 0 THEN ROUND(v_score / v_total * 100) ELSE 0 END;
+
+  -- Time spent excludes pauses and never runs past the deadline
+  v_ended_at := LEAST(NOW(), COALESCE(v_attempt.paused_at, NOW()), COALESCE(v_attempt.deadline_at, NOW()));
+  SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (
+           (p ->> 'resumed_at')::timestamptz - (p ->> 'paused_at')::timestamptz
+         ))), 0)::INTEGER
+  INTO v_paused_seconds
+  FROM jsonb_array_elements(v_attempt.paused_intervals) p;
+
+  UPDATE exam_attempts
+  SET status = 'completed',
+      completed_at = NOW(),
+      graded_at = NOW(),
+      paused_at = NULL,
+      score = v_score,
+      total_points = v_total,
+      percentage = v_percentage,
+      time_spent_seconds = GREATEST(
+        0,
+        EXTRACT(EPOCH FROM (v_ended_at - started_at))::INTEGER - v_paused_seconds
+      )
+  WHERE id = p_attempt_id
+  RETURNING * INTO v_attempt;
+
+  RETURN jsonb_build_object(
+    'attempt_id', v_attempt.id,
+    'score', v_attempt.score,
+    'total_points', v_attempt.total_points,
+    'percentage', v_attempt.percentage,
+    'correct_count', v_correct,
+    'question_count', v_count,
+    'time_spent_seconds', v_attempt.time_spent_seconds,
+    'already_graded', false
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION finalize_exam_attempt(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Routing graph of an adaptive exam:
+--   SELECT t.stage, t.label, t.level, t.weight, testlet_points(t.id),
+--          r ->> 'min_percent' AS min_percent, n.label AS next
+--   FROM testlets t
+--   LEFT JOIN LATERAL jsonb_array_elements(t.routing) r ON true
+--   LEFT JOIN testlets n ON n.id = (r ->> 'next')::uuid
+--   WHERE t.exam_id = 'naplan-y5-num-adaptive'
+--   ORDER BY t.stage, t.label;
+--
+-- Best possible score (total_points of every graded attempt):
+--   SELECT adaptive_max_points('naplan-y5-num-adaptive');
+--
+-- Questions of an adaptive exam that no student can reach:
+--   SELECT q.question_number FROM questions q
+--   JOIN exams e ON e.id = q.exam_id
+--   WHERE e.is_adaptive AND q.testlet_id IS NULL;
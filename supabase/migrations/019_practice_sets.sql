@@ -0,0 +1,302 @@
+-- Migration: Custom practice sets drawn from the question bank
+-- Run this in Supabase SQL Editor after 018_adaptive_testlets.sql
+-- ============================================
+--
+-- Premium users build a practice set by choosing subject, year level,
+-- topics, skills, difficulty, question count and time limit.
+-- create_practice_set() picks matching questions at random and copies them
+-- into a personal exam (exams.owner_id), so the set is started, taken,
+-- graded and reviewed exactly like any other exam. Copies keep a link to
+-- the bank question in questions.source_question_id.
+--
+-- The bank is every topic-tagged question of an active catalogue exam,
+-- except writing tasks (they need marking) and questions that rely on a
+-- shared stimulus (migration 015) - the passage isn't copied.
+--
+-- Copies carry the bank's answer key, so a practice attempt only releases
+-- the answers to questions from exams the student has completed themselves
+-- (exam_answers_released()). The rest are graded, but their answers stay
+-- hidden until the student sits the exam they come from.
+--
+-- Personal exams are private to their owner and left out of the
+-- catalogue (ExamsPage filters owner_id IS NULL).
+
+-- ============================================
+-- 1. FUNCTION: Premium check without a subscription row
+-- ============================================
+-- The original has_premium_access() returned NULL for users who never
+-- subscribed, so `NOT (has_premium_access(...) OR is_admin())` guards let
+-- them through. Same check, but always a boolean.
+
+CREATE OR REPLACE FUNCTION has_premium_access(user_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN COALESCE((
+    SELECT status IN ('active', 'trialing')
+    FROM user_subscriptions
+    WHERE user_id = user_uuid
+  ), false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 2. COLUMNS
+-- ============================================
+
+ALTER TABLE exams
+ADD COLUMN IF NOT EXISTS owner_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_exams_owner ON exams(owner_id)
+  WHERE owner_id IS NOT NULL;
+
+ALTER TABLE questions
+ADD COLUMN IF NOT EXISTS source_question_id UUID REFERENCES questions(id) ON DELETE SET NULL;
+
+GRANT SELECT (source_question_id) ON questions TO anon, authenticated;
+
+-- ============================================
+-- 3. PRIVACY
+-- ============================================
+-- Restrictive, so they narrow whatever SELECT policies the exams and
+-- questions tables already have
+
+CREATE OR REPLACE FUNCTION can_view_exam(p_exam_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM exams
+    WHERE id = p_exam_id
+      AND owner_id IS NOT NULL
+      AND owner_id IS DISTINCT FROM auth.uid()
+  ) OR is_admin();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION can_view_exam(TEXT) TO anon, authenticated;
+
+DROP POLICY IF EXISTS "Personal exams are private" ON exams;
+CREATE POLICY "Personal exams are private"
+  ON exams
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (owner_id IS NULL OR owner_id = auth.uid() OR is_admin());
+
+DROP POLICY IF EXISTS "Personal exam questions are private" ON questions;
+CREATE POLICY "Personal exam questions are private"
+  ON questions
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (can_view_exam(exam_id));
+
+-- ============================================
+-- 4. FUNCTION: The bank
+-- ============================================
+
+CREATE OR REPLACE FUNCTION practice_question_pool()
+RETURNS SETOF questions AS $$
+  SELECT q.*
+  FROM questions q
+  JOIN exams e ON e.id = q.exam_id
+  WHERE e.owner_id IS NULL
+    AND e.is_active
+    AND q.topic IS NOT NULL AND btrim(q.topic) <> ''
+    AND q.stimulus_id IS NULL
+    AND replace(lower(q.question_type), '_', '-') <> 'extended-response';
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION practice_question_pool() FROM PUBLIC, anon, authenticated;
+
+-- What the builder can offer: question counts per subject, year level,
+-- topic, skill and difficulty
+CREATE OR REPLACE FUNCTION get_practice_bank()
+RETURNS TABLE (
+  subject TEXT,
+  year_level INTEGER,
+  topic TEXT,
+  skill TEXT,
+  difficulty TEXT,
+  question_count BIGINT
+) AS $$
+  SELECT e.subject, e.year_level, p.topic, p.skill, lower(p.difficulty), COUNT(*)
+  FROM practice_question_pool() p
+  JOIN exams e ON e.id = p.exam_id
+  GROUP BY e.subject, e.year_level, p.topic, p.skill, lower(p.difficulty)
+  ORDER BY e.subject, e.year_level, p.topic, p.skill;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_practice_bank() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_practice_bank() TO authenticated;
+
+-- ============================================
+-- 5. FUNCTION: Build a practice set
+-- ============================================
+-- Empty or NULL filters match everything. Returns the new exam's id.
+
+CREATE OR REPLACE FUNCTION create_practice_set(
+  p_title TEXT,
+  p_subject TEXT,
+  p_year_level INTEGER,
+  p_topics TEXT[],
+  p_skills TEXT[],
+  p_difficulty TEXT,
+  p_question_count INTEGER,
+  p_duration_minutes INTEGER
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_exam_id TEXT;
+  v_ids UUID[];
+  v_count INTEGER;
+  v_exam_type TEXT;
+  v_subject TEXT;
+  v_year_level INTEGER;
+BEGIN
+  IF auth.uid() IS NULL
+     OR NOT (COALESCE(has_premium_access(auth.uid()), false) OR is_admin()) THEN
+    RAISE EXCEPTION 'Practice sets are a Premium feature'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF p_question_count IS NULL OR p_question_count NOT BETWEEN 5 AND 50 THEN
+    RAISE EXCEPTION 'Choose between 5 and 50 questions'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_duration_minutes IS NULL OR p_duration_minutes NOT BETWEEN 5 AND 120 THEN
+    RAISE EXCEPTION 'Choose a time limit between 5 and 120 minutes'
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT array_agg(id) INTO v_ids
+  FROM (
+    SELECT p.id
+    FROM practice_question_pool() p
+    JOIN exams e ON e.id = p.exam_id
+    WHERE (NULLIF(btrim(p_subject), '') IS NULL OR lower(e.subject) = lower(btrim(p_subject)))
+      AND (p_year_level IS NULL OR e.year_level = p_year_level)
+      AND (COALESCE(cardinality(p_topics), 0) = 0 OR p.topic = ANY(p_topics))
+      AND (COALESCE(cardinality(p_skills), 0) = 0 OR p.skill = ANY(p_skills))
+      AND (NULLIF(btrim(p_difficulty), '') IS NULL OR lower(p.difficulty) = lower(btrim(p_difficulty)))
+    ORDER BY random()
+    LIMIT p_question_count
+  ) picked;
+
+  v_count := COALESCE(cardinality(v_ids), 0);
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'No questions match these choices'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The set takes the most common type, subject and year of its questions
+  SELECT e.exam_type INTO v_exam_type
+  FROM questions q JOIN exams e ON e.id = q.exam_id
+  WHERE q.id = ANY(v_ids) GROUP BY e.exam_type ORDER BY COUNT(*) DESC LIMIT 1;
+  SELECT e.subject INTO v_subject
+  FROM questions q JOIN exams e ON e.id = q.exam_id
+  WHERE q.id = ANY(v_ids) GROUP BY e.subject ORDER BY COUNT(*) DESC LIMIT 1;
+  SELECT e.year_level INTO v_year_level
+  FROM questions q JOIN exams e ON e.id = q.exam_id
+  WHERE q.id = ANY(v_ids) GROUP BY e.year_level ORDER BY COUNT(*) DESC LIMIT 1;
+
+  v_exam_id := 'practice-' || left(replace(gen_random_uuid()::text, '-', ''), 12);
+
+  INSERT INTO exams (
+    id, title, description, exam_type, subject, year_level,
+    duration_minutes, total_questions, is_free, is_active, owner_id
+  ) VALUES (
+    v_exam_id,
+    COALESCE(NULLIF(btrim(p_title), ''), 'Practice set - ' || v_subject),
+    COALESCE(
+      'Topics: ' || NULLIF(array_to_string(p_topics, ', '), ''),
+      'Mixed topics'
+    ),
+    v_exam_type, v_subject, v_year_level,
+    p_duration_minutes, v_count, false, true, auth.uid()
+  );
+
+  -- Copy every column, so the answer key and content come along
+  INSERT INTO questions
+  SELECT (jsonb_populate_record(
+    NULL::questions,
+    to_jsonb(picked) || jsonb_build_object(
+      'id', gen_random_uuid(),
+      'exam_id', v_exam_id,
+      'question_number', picked.n,
+      'testlet_id', NULL,
+      'source_question_id', picked.id,
+      'created_at', NOW()
+    )
+  )).*
+  FROM (
+    SELECT q.*, ROW_NUMBER() OVER (ORDER BY random()) AS n
+    FROM questions q
+    WHERE q.id = ANY(v_ids)
+  ) picked;
+
+  RETURN v_exam_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION create_practice_set(TEXT, TEXT, INTEGER, TEXT[], TEXT[], TEXT, INTEGER, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION create_practice_set(TEXT, TEXT, INTEGER, TEXT[], TEXT[], TEXT, INTEGER, INTEGER) TO authenticated;
+
+-- ============================================
+-- 6. FUNCTIONS: Answer keys of copied questions
+-- ============================================
+
+-- Whether the student may see the answers to an exam's questions outside
+-- their own attempt of it: they have completed it
+CREATE OR REPLACE FUNCTION exam_answers_released(p_exam_id TEXT, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM exam_attempts
+    WHERE exam_id = p_exam_id
+      AND user_id = p_user_id
+      AND status = 'completed'
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION exam_answers_released(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Replaces the 008 version: a copied question's answer only comes with the
+-- key once the bank exam it was copied from is released to the student
+CREATE OR REPLACE FUNCTION get_attempt_answer_key(p_attempt_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  correct_answer TEXT,
+  explanation TEXT,
+  answer_explanation JSONB,
+  blanks JSONB
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM exam_attempts ea
+    WHERE ea.id = p_attempt_id
+      AND ea.status = 'completed'
+      AND (ea.user_id = auth.uid() OR auth.role() = 'service_role')
+  ) THEN
+    RAISE EXCEPTION 'Answer key is only available for your completed attempts'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.correct_answer, q.explanation, q.answer_explanation, q.blanks
+  FROM questions q
+  JOIN exam_attempts ea ON ea.exam_id = q.exam_id
+  LEFT JOIN questions src ON src.id = q.source_question_id
+  WHERE ea.id = p_attempt_id
+    AND (src.id IS NULL OR exam_answers_released(src.exam_id, ea.user_id));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_attempt_answer_key(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_attempt_answer_key(UUID) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- The bank by topic:
+--   SELECT subject, year_level, topic, SUM(question_count)
+--   FROM get_practice_bank() GROUP BY 1, 2, 3 ORDER BY 1, 2, 3;
+--
+-- Practice sets built so far:
+--   SELECT e.id, e.title, e.owner_id, e.total_questions, e.created_at
+--   FROM exams e WHERE e.owner_id IS NOT NULL ORDER BY e.created_at DESC;
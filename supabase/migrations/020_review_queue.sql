@@ -0,0 +1,280 @@
+-- Migration: Mistake review queue
+-- Run this in Supabase SQL Editor after 019_practice_sets.sql
+-- ============================================
+--
+-- Every question a student gets wrong or skips joins their review deck.
+-- The deck is scheduled SM-2 style: each item keeps an ease factor and an
+-- interval, and every review answer grades the recall quality
+--
+--   5  correct            interval 1 day, then 6, then interval x ease
+--   3  partly correct     same, but the ease drops
+--   1  wrong or skipped   back to 1 day, and the ease drops further
+--
+-- Ease never falls below 1.3. Items are added when an attempt is graded
+-- (a trigger on attempt_question_results); getting the same question wrong
+-- in a later attempt makes the item due again straight away.
+--
+-- Practice-set questions are copies (migration 019), so items point at the
+-- bank question they were copied from where it still exists - the same
+-- question missed in two sets is one item. Extended responses are marked
+-- by a teacher and never join the deck.
+
+-- ============================================
+-- 1. TABLE: review_items
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS review_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  ease_factor NUMERIC NOT NULL DEFAULT 2.5,
+  interval_days INTEGER NOT NULL DEFAULT 0,
+  repetitions INTEGER NOT NULL DEFAULT 0,
+  lapses INTEGER NOT NULL DEFAULT 0,
+  due_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_reviewed_at TIMESTAMPTZ,
+  -- The attempt that last added the question to the deck
+  source_attempt_id UUID REFERENCES exam_attempts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(user_id, question_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_items_user_due ON review_items(user_id, due_at);
+
+ALTER TABLE review_items ENABLE ROW LEVEL SECURITY;
+
+-- Students read their own deck; the schedule only changes through
+-- answer_review_item()
+DROP POLICY IF EXISTS "Users can view own review items" ON review_items;
+CREATE POLICY "Users can view own review items"
+  ON review_items
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+-- ============================================
+-- 2. TRIGGER: Add mistakes to the deck
+-- ============================================
+
+-- The bank question a practice-set copy came from, or the question itself
+CREATE OR REPLACE FUNCTION review_question_id(p_question_id UUID)
+RETURNS UUID AS $$
+  SELECT COALESCE(src.id, q.id)
+  FROM questions q
+  LEFT JOIN questions src ON src.id = q.source_question_id
+  WHERE q.id = p_question_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION review_question_id(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION add_mistake_to_review_deck()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_user_id UUID;
+  v_question_id UUID;
+BEGIN
+  IF NEW.is_correct THEN
+    RETURN NEW;
+  END IF;
+
+  -- Re-grading the same attempt leaves the schedule alone
+  IF TG_OP = 'UPDATE' AND NOT OLD.is_correct THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM questions
+    WHERE id = NEW.question_id
+      AND replace(lower(question_type), '_', '-') = 'extended-response'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT user_id INTO v_user_id FROM exam_attempts WHERE id = NEW.attempt_id;
+  v_question_id := review_question_id(NEW.question_id);
+
+  -- Results outlive re-seeded questions (migration 006); those can't be reviewed
+  IF v_user_id IS NULL OR v_question_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO review_items (user_id, question_id, source_attempt_id)
+  VALUES (v_user_id, v_question_id, NEW.attempt_id)
+  ON CONFLICT (user_id, question_id) DO UPDATE SET
+    repetitions = 0,
+    interval_days = 0,
+    due_at = LEAST(review_items.due_at, NOW()),
+    source_attempt_id = EXCLUDED.source_attempt_id
+  WHERE review_items.source_attempt_id IS DISTINCT FROM EXCLUDED.source_attempt_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION add_mistake_to_review_deck() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS add_mistake_to_review_deck ON attempt_question_results;
+CREATE TRIGGER add_mistake_to_review_deck
+  AFTER INSERT OR UPDATE OF is_correct ON attempt_question_results
+  FOR EACH ROW
+  EXECUTE FUNCTION add_mistake_to_review_deck();
+
+-- ============================================
+-- 3. BACKFILL: Mistakes from graded attempts
+-- ============================================
+-- Oldest first, so each item remembers the latest attempt it was missed in
+
+INSERT INTO review_items (user_id, question_id, source_attempt_id, created_at)
+SELECT DISTINCT ON (ea.user_id, review_question_id(aqr.question_id))
+  ea.user_id,
+  review_question_id(aqr.question_id),
+  ea.id,
+  aqr.graded_at
+FROM attempt_question_results aqr
+JOIN exam_attempts ea ON ea.id = aqr.attempt_id
+JOIN questions q ON q.id = aqr.question_id
+WHERE NOT aqr.is_correct
+  AND ea.user_id IS NOT NULL
+  AND replace(lower(q.question_type), '_', '-') <> 'extended-response'
+ORDER BY ea.user_id, review_question_id(aqr.question_id), aqr.graded_at DESC
+ON CONFLICT (user_id, question_id) DO NOTHING;
+
+-- ============================================
+-- 4. FUNCTION: Items due for review
+-- ============================================
+-- dictation_text is hidden from students (migration 017), but a spelling
+-- item can't be reviewed without its prompt.
+
+CREATE OR REPLACE FUNCTION get_due_reviews(
+  p_due_before TIMESTAMPTZ DEFAULT NOW(),
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  item_id UUID,
+  question_id UUID,
+  exam_id TEXT,
+  due_at TIMESTAMPTZ,
+  interval_days INTEGER,
+  repetitions INTEGER,
+  lapses INTEGER,
+  dictation_text TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT ri.id, q.id, q.exam_id, ri.due_at, ri.interval_days, ri.repetitions,
+         ri.lapses,
+         CASE WHEN replace(lower(q.question_type), '_', '-') = 'dictation'
+              THEN q.dictation_text END
+  FROM review_items ri
+  JOIN questions q ON q.id = ri.question_id
+  WHERE ri.user_id = auth.uid()
+    AND ri.due_at <= p_due_before
+  ORDER BY ri.due_at, ri.created_at
+  LIMIT GREATEST(1, LEAST(COALESCE(p_limit, 20), 100));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_due_reviews(TIMESTAMPTZ, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_due_reviews(TIMESTAMPTZ, INTEGER) TO authenticated;
+
+-- ============================================
+-- 5. FUNCTION: Answer a review item
+-- ============================================
+-- Grades the answer with grade_question() (migration 017), reschedules the
+-- item and returns the answer key so the student sees the explanation -
+-- as long as the question's exam is released to them (migration 019). A
+-- mistake from a practice set is still graded before they have sat the
+-- exam it was copied from, just without the answer.
+
+CREATE OR REPLACE FUNCTION answer_review_item(
+  p_item_id UUID,
+  p_answer TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_item review_items;
+  v_question questions;
+  v_credit NUMERIC;
+  v_quality INTEGER;
+  v_ease NUMERIC;
+  v_interval INTEGER;
+  v_repetitions INTEGER;
+  v_lapses INTEGER;
+  v_due_at TIMESTAMPTZ;
+  v_released BOOLEAN;
+BEGIN
+  SELECT * INTO v_item
+  FROM review_items
+  WHERE id = p_item_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Review item not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_question FROM questions WHERE id = v_item.question_id;
+
+  v_credit := grade_question(v_question, p_answer);
+  v_quality := CASE
+    WHEN v_credit >= 1 THEN 5
+    WHEN v_credit > 0 THEN 3
+    ELSE 1
+  END;
+
+  v_ease := v_item.ease_factor;
+  v_repetitions := v_item.repetitions;
+  v_lapses := v_item.lapses;
+
+  IF v_quality >= 3 THEN
+    v_interval := CASE v_repetitions
+      WHEN 0 THEN 1
+      WHEN 1 THEN 6
+      ELSE GREATEST(1, ROUND(v_item.interval_days * v_ease))::INTEGER
+    END;
+    v_repetitions := v_repetitions + 1;
+  ELSE
+    v_interval := 1;
+    v_repetitions := 0;
+    v_lapses := v_lapses + 1;
+  END IF;
+
+  v_ease := GREATEST(1.3, v_ease + 0.1 - (5 - v_quality) * (0.08 + (5 - v_quality) * 0.02));
+  v_due_at := NOW() + make_interval(days => v_interval);
+  v_released := exam_answers_released(v_question.exam_id, auth.uid());
+
+  UPDATE review_items
+  SET ease_factor = v_ease,
+      interval_days = v_interval,
+      repetitions = v_repetitions,
+      lapses = v_lapses,
+      due_at = v_due_at,
+      last_reviewed_at = NOW()
+  WHERE id = v_item.id;
+
+  RETURN jsonb_build_object(
+    'is_correct', v_credit >= 1,
+    'credit', v_credit,
+    'answer_released', v_released,
+    'correct_answer', CASE WHEN v_released THEN v_question.correct_answer END,
+    'explanation', CASE WHEN v_released THEN v_question.explanation END,
+    'answer_explanation', CASE WHEN v_released THEN v_question.answer_explanation END,
+    'blanks', CASE WHEN v_released THEN v_question.blanks END,
+    'interval_days', v_interval,
+    'due_at', v_due_at
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION answer_review_item(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION answer_review_item(UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Deck sizes and what is due today:
+--   SELECT user_id, COUNT(*) AS items,
+--          COUNT(*) FILTER (WHERE due_at <= date_trunc('day', NOW()) + INTERVAL '1 day') AS due_today
+--   FROM review_items GROUP BY user_id;
+--
+-- As a student, the next session:
+--   SELECT * FROM get_due_reviews(NOW(), 20);
@@ -0,0 +1,239 @@
+-- Migration: Skill mastery
+-- Run this in Supabase SQL Editor after 020_review_queue.sql
+-- ============================================
+--
+-- A per-student mastery estimate for every topic and skill, updated from
+-- each graded question. Strong / weak topics used to come from subject
+-- averages in user_progress, which lumped a whole subject together.
+--
+-- The estimate is Bayesian knowledge tracing (BKT): p_mastery is the
+-- probability the student knows the skill. Each answer updates it
+--
+--   correct   p(1 - slip) / (p(1 - slip) + (1 - p) guess)
+--   wrong     p slip / (p slip + (1 - p)(1 - guess))
+--
+-- (partial credit blends the two), then learning from the question moves
+-- it on by (1 - p) x transit. Guessing depends on the question type - a
+-- multiple-choice question is easier to guess than a typed answer.
+--
+-- Rows are kept per topic (skill = '') and per topic + skill. Questions
+-- without a topic tag and extended responses are not counted. How sure we
+-- are is the number of observations - see MASTERY_CONFIDENCE in
+-- src/lib/mastery.ts.
+
+-- ============================================
+-- 1. TABLE: skill_mastery
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS skill_mastery (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subject TEXT NOT NULL,
+  topic TEXT NOT NULL,
+  -- '' is the topic as a whole
+  skill TEXT NOT NULL DEFAULT '',
+  p_mastery NUMERIC NOT NULL,
+  observations INTEGER NOT NULL DEFAULT 0,
+  -- Sum of the credit earned, for "x of y correct"
+  correct_credit NUMERIC NOT NULL DEFAULT 0,
+  last_practiced_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(user_id, subject, topic, skill)
+);
+
+CREATE INDEX IF NOT EXISTS idx_skill_mastery_user ON skill_mastery(user_id);
+
+ALTER TABLE skill_mastery ENABLE ROW LEVEL SECURITY;
+
+-- Students read their own estimates; only grading writes them
+DROP POLICY IF EXISTS "Users can view own skill mastery" ON skill_mastery;
+CREATE POLICY "Users can view own skill mastery"
+  ON skill_mastery
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+-- ============================================
+-- 2. FUNCTION: One BKT step
+-- ============================================
+-- Prior for a new skill 0.3, slip 0.1, transit 0.1
+
+CREATE OR REPLACE FUNCTION bkt_update(
+  p_prior NUMERIC,
+  p_credit NUMERIC,
+  p_question_type TEXT
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_slip CONSTANT NUMERIC := 0.1;
+  v_transit CONSTANT NUMERIC := 0.1;
+  v_guess NUMERIC;
+  v_credit NUMERIC := LEAST(1, GREATEST(0, COALESCE(p_credit, 0)));
+  v_if_correct NUMERIC;
+  v_if_wrong NUMERIC;
+  v_posterior NUMERIC;
+BEGIN
+  v_guess := CASE replace(lower(COALESCE(p_question_type, 'multiple-choice')), '_', '-')
+    WHEN 'multiple-choice' THEN 0.25
+    WHEN 'multiple-select' THEN 0.1
+    WHEN 'drag-drop' THEN 0.1
+    WHEN 'matching' THEN 0.1
+    ELSE 0.05
+  END;
+
+  v_if_correct := p_prior * (1 - v_slip)
+    / (p_prior * (1 - v_slip) + (1 - p_prior) * v_guess);
+  v_if_wrong := p_prior * v_slip
+    / (p_prior * v_slip + (1 - p_prior) * (1 - v_guess));
+  v_posterior := v_credit * v_if_correct + (1 - v_credit) * v_if_wrong;
+
+  RETURN ROUND(v_posterior + (1 - v_posterior) * v_transit, 4);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- ============================================
+-- 3. FUNCTION: Apply a graded question
+-- ============================================
+
+CREATE OR REPLACE FUNCTION apply_mastery_result(
+  p_user_id UUID,
+  p_question_id UUID,
+  p_points_awarded NUMERIC,
+  p_points_possible NUMERIC,
+  p_graded_at TIMESTAMPTZ
+)
+RETURNS VOID AS $$
+DECLARE
+  v_question RECORD;
+  v_credit NUMERIC;
+  v_skill TEXT;
+BEGIN
+  SELECT q.question_type, btrim(q.topic) AS topic, NULLIF(btrim(q.skill), '') AS skill,
+         e.subject
+  INTO v_question
+  FROM questions q
+  JOIN exams e ON e.id = q.exam_id
+  WHERE q.id = p_question_id;
+
+  IF NOT FOUND
+     OR v_question.topic IS NULL OR v_question.topic = ''
+     OR replace(lower(v_question.question_type), '_', '-') = 'extended-response' THEN
+    RETURN;
+  END IF;
+
+  v_credit := CASE WHEN p_points_possible > 0
+    THEN p_points_awarded / p_points_possible ELSE 0 END;
+
+  FOREACH v_skill IN ARRAY ARRAY['', v_question.skill] LOOP
+    CONTINUE WHEN v_skill IS NULL;
+
+    INSERT INTO skill_mastery (
+      user_id, subject, topic, skill, p_mastery, observations, correct_credit,
+      last_practiced_at
+    ) VALUES (
+      p_user_id, v_question.subject, v_question.topic, v_skill,
+      bkt_update(0.3, v_credit, v_question.question_type), 1, v_credit,
+      p_graded_at
+    )
+    ON CONFLICT (user_id, subject, topic, skill) DO UPDATE SET
+      p_mastery = bkt_update(skill_mastery.p_mastery, v_credit, v_question.question_type),
+      observations = skill_mastery.observations + 1,
+      correct_credit = skill_mastery.correct_credit + v_credit,
+      last_practiced_at = GREATEST(skill_mastery.last_practiced_at, EXCLUDED.last_practiced_at),
+      updated_at = NOW();
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION apply_mastery_result(UUID, UUID, NUMERIC, NUMERIC, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 4. TRIGGER: Update mastery as questions are graded
+-- ============================================
+-- Inserts only - re-grading an attempt rewrites its rows and would count
+-- the same answers twice. rebuild_skill_mastery() replays history when
+-- results are corrected.
+
+CREATE OR REPLACE FUNCTION update_skill_mastery_from_result()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_user_id UUID;
+BEGIN
+  SELECT user_id INTO v_user_id FROM exam_attempts WHERE id = NEW.attempt_id;
+
+  IF v_user_id IS NOT NULL THEN
+    PERFORM apply_mastery_result(
+      v_user_id, NEW.question_id, NEW.points_awarded, NEW.points_possible,
+      COALESCE(NEW.graded_at, NOW())
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION update_skill_mastery_from_result() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS update_skill_mastery_from_result ON attempt_question_results;
+CREATE TRIGGER update_skill_mastery_from_result
+  AFTER INSERT ON attempt_question_results
+  FOR EACH ROW
+  EXECUTE FUNCTION update_skill_mastery_from_result();
+
+-- ============================================
+-- 5. FUNCTION: Rebuild from graded history
+-- ============================================
+-- Replays every graded question in the order it was answered. NULL
+-- rebuilds every student. Admins and the service role only.
+
+CREATE OR REPLACE FUNCTION rebuild_skill_mastery(p_user_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  v_result RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT (is_admin() OR auth.role() = 'service_role' OR auth.uid() IS NULL) THEN
+    RAISE EXCEPTION 'Only admins can rebuild skill mastery' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM skill_mastery WHERE p_user_id IS NULL OR user_id = p_user_id;
+
+  FOR v_result IN
+    SELECT ea.user_id, aqr.question_id, aqr.points_awarded, aqr.points_possible,
+           aqr.graded_at
+    FROM attempt_question_results aqr
+    JOIN exam_attempts ea ON ea.id = aqr.attempt_id
+    WHERE ea.user_id IS NOT NULL
+      AND (p_user_id IS NULL OR ea.user_id = p_user_id)
+    ORDER BY COALESCE(ea.completed_at, aqr.graded_at), aqr.graded_at, aqr.id
+  LOOP
+    PERFORM apply_mastery_result(
+      v_result.user_id, v_result.question_id, v_result.points_awarded,
+      v_result.points_possible, v_result.graded_at
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION rebuild_skill_mastery(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION rebuild_skill_mastery(UUID) TO authenticated;
+
+-- ============================================
+-- 6. BACKFILL
+-- ============================================
+
+SELECT rebuild_skill_mastery(NULL);
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- A student's topics, most mastered first:
+--   SELECT topic, skill, ROUND(p_mastery * 100) AS mastery, observations
+--   FROM skill_mastery WHERE user_id = '<user id>'
+--   ORDER BY skill = '' DESC, p_mastery DESC;
+--
+-- BKT step sanity check (a correct multiple-choice answer from the prior):
+--   SELECT bkt_update(0.3, 1, 'multiple-choice');  -- about 0.65
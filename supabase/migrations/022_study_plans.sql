@@ -0,0 +1,271 @@
+-- Migration: Personalised study plans
+-- Run this in Supabase SQL Editor after 021_skill_mastery.sql
+-- ============================================
+--
+-- A Premium study plan runs week by week up to a target test date. Each
+-- week holds plan items:
+--
+--   practice  a practice set (migration 019) on one topic
+--   review    a session from the review deck (migration 020)
+--   mock      a full catalogue exam
+--
+-- The app builds the items from the student's year level and skill
+-- mastery (migration 021) - see buildStudyPlan() in src/lib/studyPlan.ts -
+-- and saves them with save_study_plan(). Items tick themselves off:
+--
+--   practice / mock  when an attempt that matches completes (trigger on
+--                    exam_attempts)
+--   review           when enough review items have been answered since
+--                    the week started (trigger on review_items)
+--
+-- Re-planning keeps completed items and replaces the open ones.
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS study_plans (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  target_date DATE NOT NULL,
+  year_level INTEGER,
+  sessions_per_week INTEGER NOT NULL DEFAULT 3 CHECK (sessions_per_week BETWEEN 1 AND 7),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived')),
+  replanned_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One active plan per student
+CREATE UNIQUE INDEX IF NOT EXISTS idx_study_plans_one_active
+  ON study_plans(user_id) WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS study_plan_items (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  plan_id UUID NOT NULL REFERENCES study_plans(id) ON DELETE CASCADE,
+  week_number INTEGER NOT NULL,
+  week_start DATE NOT NULL,
+  due_date DATE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('practice', 'review', 'mock')),
+  title TEXT NOT NULL,
+  subject TEXT,
+  topic TEXT,
+  -- mock: the exam to take
+  exam_id TEXT REFERENCES exams(id) ON DELETE SET NULL,
+  -- practice: questions in the set; review: items to answer
+  target_count INTEGER,
+  position INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMPTZ,
+  attempt_id UUID REFERENCES exam_attempts(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_study_plan_items_plan ON study_plan_items(plan_id, due_date);
+
+ALTER TABLE study_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE study_plan_items ENABLE ROW LEVEL SECURITY;
+
+-- Students read their own plans; changes go through save_study_plan()
+-- and the completion triggers
+DROP POLICY IF EXISTS "Users can view own study plans" ON study_plans;
+CREATE POLICY "Users can view own study plans"
+  ON study_plans
+  FOR SELECT
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view own study plan items" ON study_plan_items;
+CREATE POLICY "Users can view own study plan items"
+  ON study_plan_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM study_plans sp
+      WHERE sp.id = study_plan_items.plan_id
+        AND sp.user_id = auth.uid()
+    )
+  );
+
+-- ============================================
+-- 2. FUNCTION: Save a plan
+-- ============================================
+-- p_plan_id NULL starts a new plan (archiving the current one); otherwise
+-- the plan's open items are replaced. p_items is an array of
+-- {week_number, week_start, due_date, kind, title, subject, topic,
+--  exam_id, target_count}.
+
+CREATE OR REPLACE FUNCTION save_study_plan(
+  p_plan_id UUID,
+  p_target_date DATE,
+  p_year_level INTEGER,
+  p_sessions_per_week INTEGER,
+  p_items JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+  v_plan_id UUID := p_plan_id;
+BEGIN
+  IF NOT (has_premium_access(auth.uid()) OR is_admin()) THEN
+    RAISE EXCEPTION 'Study plans are a Premium feature' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_target_date <= CURRENT_DATE THEN
+    RAISE EXCEPTION 'The test date must be in the future' USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(p_items) IS DISTINCT FROM 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'A study plan needs at least one item' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_plan_id IS NULL THEN
+    UPDATE study_plans SET status = 'archived'
+    WHERE user_id = auth.uid() AND status = 'active';
+
+    INSERT INTO study_plans (user_id, target_date, year_level, sessions_per_week)
+    VALUES (auth.uid(), p_target_date, p_year_level, p_sessions_per_week)
+    RETURNING id INTO v_plan_id;
+  ELSE
+    UPDATE study_plans
+    SET target_date = p_target_date,
+        year_level = p_year_level,
+        sessions_per_week = p_sessions_per_week,
+        replanned_at = NOW()
+    WHERE id = v_plan_id AND user_id = auth.uid() AND status = 'active';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Study plan not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    DELETE FROM study_plan_items
+    WHERE plan_id = v_plan_id AND completed_at IS NULL;
+  END IF;
+
+  INSERT INTO study_plan_items (
+    plan_id, week_number, week_start, due_date, kind, title, subject, topic,
+    exam_id, target_count, position
+  )
+  SELECT v_plan_id, item.week_number, item.week_start, item.due_date, item.kind,
+         item.title, item.subject, item.topic, item.exam_id, item.target_count,
+         (item_row.n - 1)::INTEGER
+  FROM jsonb_array_elements(p_items) WITH ORDINALITY AS item_row(value, n)
+  CROSS JOIN LATERAL jsonb_to_record(item_row.value) AS item(
+    week_number INTEGER,
+    week_start DATE,
+    due_date DATE,
+    kind TEXT,
+    title TEXT,
+    subject TEXT,
+    topic TEXT,
+    exam_id TEXT,
+    target_count INTEGER
+  );
+
+  RETURN v_plan_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION save_study_plan(UUID, DATE, INTEGER, INTEGER, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION save_study_plan(UUID, DATE, INTEGER, INTEGER, JSONB) TO authenticated;
+
+-- ============================================
+-- 3. TRIGGER: Tick off practice and mock items
+-- ============================================
+-- A mock item matches its exam. A practice item matches any completed exam
+-- in its subject with a question on its topic - a practice set from the
+-- builder, or a catalogue exam. The earliest open match is ticked off.
+
+CREATE OR REPLACE FUNCTION complete_study_plan_item_for_attempt()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_item_id UUID;
+BEGIN
+  SELECT spi.id INTO v_item_id
+  FROM study_plan_items spi
+  JOIN study_plans sp ON sp.id = spi.plan_id
+  JOIN exams e ON e.id = NEW.exam_id
+  WHERE sp.user_id = NEW.user_id
+    AND sp.status = 'active'
+    AND spi.completed_at IS NULL
+    AND (
+      (spi.kind = 'mock' AND spi.exam_id = NEW.exam_id)
+      OR (
+        spi.kind = 'practice'
+        AND lower(e.subject) = lower(spi.subject)
+        AND EXISTS (
+          SELECT 1 FROM questions q
+          WHERE q.exam_id = NEW.exam_id
+            AND (spi.topic IS NULL OR btrim(q.topic) = spi.topic)
+        )
+      )
+    )
+  ORDER BY spi.kind = 'mock' DESC, spi.due_date, spi.position
+  LIMIT 1;
+
+  IF v_item_id IS NOT NULL THEN
+    UPDATE study_plan_items
+    SET completed_at = NOW(), attempt_id = NEW.id
+    WHERE id = v_item_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION complete_study_plan_item_for_attempt() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS complete_study_plan_item_for_attempt ON exam_attempts;
+CREATE TRIGGER complete_study_plan_item_for_attempt
+  AFTER UPDATE OF status ON exam_attempts
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed')
+  EXECUTE FUNCTION complete_study_plan_item_for_attempt();
+
+-- ============================================
+-- 4. TRIGGER: Tick off review items
+-- ============================================
+-- Counts deck items reviewed since the plan item's week started (each
+-- deck item once, by its last review).
+
+CREATE OR REPLACE FUNCTION complete_study_plan_review()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_item study_plan_items;
+BEGIN
+  SELECT spi.* INTO v_item
+  FROM study_plan_items spi
+  JOIN study_plans sp ON sp.id = spi.plan_id
+  WHERE sp.user_id = NEW.user_id
+    AND sp.status = 'active'
+    AND spi.kind = 'review'
+    AND spi.completed_at IS NULL
+    AND spi.week_start <= CURRENT_DATE
+  ORDER BY spi.due_date, spi.position
+  LIMIT 1;
+
+  IF FOUND AND (
+    SELECT COUNT(*) FROM review_items
+    WHERE user_id = NEW.user_id
+      AND last_reviewed_at >= v_item.week_start
+  ) >= COALESCE(v_item.target_count, 1) THEN
+    UPDATE study_plan_items SET completed_at = NOW() WHERE id = v_item.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION complete_study_plan_review() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS complete_study_plan_review ON review_items;
+CREATE TRIGGER complete_study_plan_review
+  AFTER UPDATE OF last_reviewed_at ON review_items
+  FOR EACH ROW
+  EXECUTE FUNCTION complete_study_plan_review();
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Active plans and how far along they are:
+--   SELECT sp.user_id, sp.target_date,
+--          COUNT(*) FILTER (WHERE spi.completed_at IS NOT NULL) AS done,
+--          COUNT(*) AS items,
+--          COUNT(*) FILTER (WHERE spi.completed_at IS NULL AND spi.due_date < CURRENT_DATE) AS overdue
+--   FROM study_plans sp JOIN study_plan_items spi ON spi.plan_id = sp.id
+--   WHERE sp.status = 'active' GROUP BY sp.id;
@@ -0,0 +1,322 @@
+-- Migration: Parent accounts and child profiles
+-- Run this in Supabase SQL Editor after 022_study_plans.sql
+-- ============================================
+--
+-- A parent account owns up to three child profiles. Each child is a full
+-- login of their own, so attempts, mastery and review decks stay per child,
+-- but children sign in with a username and a 6-digit PIN instead of an
+-- email. The manage-child-account edge function creates the auth user with
+-- an address under CHILD_LOGIN_DOMAIN (src/lib/family.ts) and the PIN as
+-- the password.
+--
+--   role 'parent'    set at sign-up (account_type 'parent' in the user
+--                    metadata) or by a student switching their own account
+--   parent_id        the owning parent, on child profiles
+--   username         the child's login name
+--
+-- Children share their parent's subscription. Parents can read everything
+-- their children do but only SELECT policies are added - attempts and
+-- results are still written by the child's own session. The one thing a
+-- parent writes is rubric marks for their children's writing, through
+-- mark_writing_response() (migration 016).
+
+-- ============================================
+-- 1. PROFILE COLUMNS
+-- ============================================
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+ALTER TABLE user_profiles
+ADD CONSTRAINT user_profiles_role_check
+  CHECK (role IN ('student', 'admin', 'parent'));
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS username TEXT UNIQUE
+  CHECK (username ~ '^[a-z0-9_]{3,20}$');
+
+CREATE INDEX IF NOT EXISTS idx_user_profiles_parent ON user_profiles(parent_id);
+
+-- ============================================
+-- 2. FUNCTION: Is the current user this student's parent?
+-- ============================================
+
+CREATE OR REPLACE FUNCTION is_parent_of(p_child_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE id = p_child_id AND parent_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_parent_of(UUID) TO authenticated;
+
+-- ============================================
+-- 3. PROTECT ROLE, ACCOMMODATIONS AND FAMILY LINKS
+-- ============================================
+-- As in migration 013, plus: a student who isn't a child profile may turn
+-- their own account into a parent account, and only trusted requests (the
+-- edge function, SQL Editor) link children or set usernames.
+
+CREATE OR REPLACE FUNCTION protect_user_profile_privileges()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND NOT (OLD.role = 'student' AND NEW.role = 'parent' AND OLD.parent_id IS NULL) THEN
+    RAISE EXCEPTION 'Only an admin can change role or extra time'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.extra_time_percent IS DISTINCT FROM OLD.extra_time_percent THEN
+    RAISE EXCEPTION 'Only an admin can change role or extra time'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.parent_id IS DISTINCT FROM OLD.parent_id
+     OR NEW.username IS DISTINCT FROM OLD.username THEN
+    RAISE EXCEPTION 'Child profiles are managed from the parent account'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- New profiles start as students, or parents when they signed up as one
+CREATE OR REPLACE FUNCTION default_user_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    NEW.role := 'student';
+    NEW.parent_id := NULL;
+    NEW.username := NULL;
+  END IF;
+
+  IF NEW.role = 'student' AND NEW.parent_id IS NULL AND EXISTS (
+    SELECT 1 FROM auth.users
+    WHERE id = NEW.id AND raw_user_meta_data->>'account_type' = 'parent'
+  ) THEN
+    NEW.role := 'parent';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 4. TRIGGER: Child profile limit
+-- ============================================
+-- Keep in step with MAX_CHILD_PROFILES in src/lib/family.ts
+
+CREATE OR REPLACE FUNCTION check_child_profile_limit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = NEW.parent_id AND role = 'parent'
+  ) THEN
+    RAISE EXCEPTION 'Child profiles must belong to a parent account'
+      USING ERRCODE = '23514';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM user_profiles
+    WHERE parent_id = NEW.parent_id AND id <> NEW.id
+  ) >= 3 THEN
+    RAISE EXCEPTION 'A family can have up to 3 child profiles'
+      USING ERRCODE = '23514';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION check_child_profile_limit() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS check_child_profile_limit ON user_profiles;
+CREATE TRIGGER check_child_profile_limit
+  BEFORE INSERT OR UPDATE OF parent_id ON user_profiles
+  FOR EACH ROW EXECUTE FUNCTION check_child_profile_limit();
+
+-- ============================================
+-- 5. FUNCTION: Premium shared with children
+-- ============================================
+-- A child has Premium when they or their parent subscribe.
+
+CREATE OR REPLACE FUNCTION has_premium_access(user_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM user_subscriptions
+    WHERE status IN ('active', 'trialing')
+      AND user_id IN (
+        SELECT user_uuid
+        UNION ALL
+        SELECT parent_id FROM user_profiles
+        WHERE id = user_uuid AND parent_id IS NOT NULL
+      )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION has_premium_access(UUID) TO authenticated;
+
+-- ============================================
+-- 6. PARENT READ POLICIES
+-- ============================================
+-- Read-only: no INSERT / UPDATE / DELETE policies are added for parents.
+
+DROP POLICY IF EXISTS "Parents can view child profiles" ON user_profiles;
+CREATE POLICY "Parents can view child profiles"
+  ON user_profiles
+  FOR SELECT
+  USING (parent_id = auth.uid());
+
+DROP POLICY IF EXISTS "Parents can view child attempts" ON exam_attempts;
+CREATE POLICY "Parents can view child attempts"
+  ON exam_attempts
+  FOR SELECT
+  USING (is_parent_of(user_id));
+
+DROP POLICY IF EXISTS "Parents can view child question results" ON attempt_question_results;
+CREATE POLICY "Parents can view child question results"
+  ON attempt_question_results
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM exam_attempts ea
+      WHERE ea.id = attempt_question_results.attempt_id
+        AND is_parent_of(ea.user_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Parents can view child progress" ON user_progress;
+CREATE POLICY "Parents can view child progress"
+  ON user_progress
+  FOR SELECT
+  USING (is_parent_of(user_id));
+
+DROP POLICY IF EXISTS "Parents can view child exam violations" ON exam_violations;
+CREATE POLICY "Parents can view child exam violations"
+  ON exam_violations
+  FOR SELECT
+  USING (is_parent_of(user_id));
+
+DROP POLICY IF EXISTS "Parents can view child skill mastery" ON skill_mastery;
+CREATE POLICY "Parents can view child skill mastery"
+  ON skill_mastery
+  FOR SELECT
+  USING (is_parent_of(user_id));
+
+DROP POLICY IF EXISTS "Parents can view child review items" ON review_items;
+CREATE POLICY "Parents can view child review items"
+  ON review_items
+  FOR SELECT
+  USING (is_parent_of(user_id));
+
+DROP POLICY IF EXISTS "Parents can view child study plans" ON study_plans;
+CREATE POLICY "Parents can view child study plans"
+  ON study_plans
+  FOR SELECT
+  USING (is_parent_of(user_id));
+
+DROP POLICY IF EXISTS "Parents can view child study plan items" ON study_plan_items;
+CREATE POLICY "Parents can view child study plan items"
+  ON study_plan_items
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM study_plans sp
+      WHERE sp.id = study_plan_items.plan_id
+        AND is_parent_of(sp.user_id)
+    )
+  );
+
+-- ============================================
+-- 7. CHILDREN'S PRACTICE SETS
+-- ============================================
+-- Practice sets are private to their owner (migration 019); a parent can
+-- also see their children's, so those attempts show up with their titles.
+
+CREATE OR REPLACE FUNCTION can_view_exam(p_exam_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM exams
+    WHERE id = p_exam_id
+      AND owner_id IS NOT NULL
+      AND owner_id IS DISTINCT FROM auth.uid()
+      AND NOT is_parent_of(owner_id)
+  ) OR is_admin();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Personal exams are private" ON exams;
+CREATE POLICY "Personal exams are private"
+  ON exams
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (owner_id IS NULL OR owner_id = auth.uid() OR is_parent_of(owner_id) OR is_admin());
+
+-- ============================================
+-- 8. MARKING CHILDREN'S WRITING
+-- ============================================
+-- Replaces the 016 version: a parent can mark their children's writing.
+-- The child still can't mark their own.
+
+CREATE OR REPLACE FUNCTION can_mark_attempt(p_attempt_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT is_admin() OR EXISTS (
+    SELECT 1 FROM exam_attempts
+    WHERE id = p_attempt_id
+      AND is_parent_of(user_id)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- A student's graded extended responses the caller can mark, newest first,
+-- with whether each has been marked yet. Feeds the family page.
+CREATE OR REPLACE FUNCTION get_writing_to_mark(p_student_id UUID)
+RETURNS TABLE (
+  attempt_id UUID,
+  exam_id TEXT,
+  exam_title TEXT,
+  question_id UUID,
+  question_number INTEGER,
+  completed_at TIMESTAMPTZ,
+  marked BOOLEAN
+) AS $$
+  SELECT ea.id, e.id, e.title, q.id, q.question_number, ea.completed_at,
+         EXISTS (
+           SELECT 1 FROM writing_marks wm
+           WHERE wm.attempt_id = ea.id AND wm.question_id = q.id
+         )
+  FROM exam_attempts ea
+  JOIN exams e ON e.id = ea.exam_id
+  JOIN questions q ON q.exam_id = ea.exam_id
+  WHERE ea.user_id = p_student_id
+    AND ea.graded_at IS NOT NULL
+    AND replace(lower(q.question_type), '_', '-') = 'extended-response'
+    AND can_mark_attempt(ea.id)
+  ORDER BY ea.completed_at DESC, q.question_number;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_writing_to_mark(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_writing_to_mark(UUID) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Families and their children:
+--   SELECT p.email AS parent, c.username, c.full_name, c.year_level
+--   FROM user_profiles p JOIN user_profiles c ON c.parent_id = p.id
+--   WHERE p.role = 'parent' ORDER BY p.email, c.username;
+--
+-- As a parent (authenticated role) this should update 0 rows:
+--   UPDATE exam_attempts SET percentage = 100 WHERE user_id = '<child id>';
+--
+-- As a parent this should be true, and false as the child:
+--   SELECT can_mark_attempt('<child attempt id>');
@@ -0,0 +1,309 @@
+-- Migration: Weekly parent progress reports
+-- Run this in Supabase SQL Editor after 023_parent_accounts.sql
+-- ============================================
+--
+-- "Parent progress reports" is a Premium feature. Every Monday morning the
+-- send-weekly-reports edge function emails each Premium student's week to
+-- their linked parent account (migration 023), at the address that account
+-- confirmed when signing up. The profile's parent_email is never used: the
+-- student can change it, which would send their report anywhere.
+--
+--   exams taken      completed attempts with their scores
+--   score trend      average score for the last four weeks
+--   weakest skills   lowest skill mastery (migration 021)
+--   time studied     time spent in completed attempts
+--   integrity flags  exam_violations (migration 009) logged in the week
+--
+-- The report itself comes from get_weekly_report(), which the printable
+-- report page in the app uses too. Weeks run Monday to Sunday in
+-- Australia/Melbourne time.
+--
+-- The schedule (section 5) is only set up when pg_cron and pg_net are
+-- enabled (Dashboard > Database > Extensions); run this migration again
+-- after enabling them. The job reads two Vault secrets to call the
+-- function, and no migration creates them - add them once per project
+-- before the first Monday, or every run fails:
+--   SELECT vault.create_secret('https://<project ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+-- Running this migration without them only raises a notice.
+
+-- ============================================
+-- 1. FUNCTION: Start of a report week
+-- ============================================
+-- The Monday of the week p_date falls in; with no date, the last full week.
+
+CREATE OR REPLACE FUNCTION report_week_start(p_date DATE DEFAULT NULL)
+RETURNS DATE AS $$
+  SELECT CASE
+    WHEN p_date IS NOT NULL THEN date_trunc('week', p_date)::date
+    ELSE (date_trunc('week', NOW() AT TIME ZONE 'Australia/Melbourne') - INTERVAL '7 days')::date
+  END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- ============================================
+-- 2. FUNCTION: A student's week
+-- ============================================
+-- The student, their parent and admins can read a report; so can the
+-- service role, which sends them.
+
+CREATE OR REPLACE FUNCTION get_weekly_report(
+  p_student_id UUID,
+  p_week_start DATE DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_week_start DATE := report_week_start(p_week_start);
+  v_from TIMESTAMPTZ;
+  v_to TIMESTAMPTZ;
+  v_student RECORD;
+  v_exams JSONB;
+  v_trend JSONB;
+  v_skills JSONB;
+  v_integrity JSONB;
+  v_summary RECORD;
+BEGIN
+  IF NOT (
+    auth.uid() IS NULL
+    OR auth.role() = 'service_role'
+    OR auth.uid() = p_student_id
+    OR is_parent_of(p_student_id)
+    OR is_admin()
+  ) THEN
+    RAISE EXCEPTION 'Report not available' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id, COALESCE(display_name, full_name, username, email) AS name,
+         year_level, parent_id
+  INTO v_student
+  FROM user_profiles
+  WHERE id = p_student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_from := v_week_start::timestamp AT TIME ZONE 'Australia/Melbourne';
+  v_to := (v_week_start + 7)::timestamp AT TIME ZONE 'Australia/Melbourne';
+
+  -- Exams completed in the week, with any violations logged in them
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'attempt_id', ea.id,
+           'exam_id', ea.exam_id,
+           'title', e.title,
+           'subject', e.subject,
+           'percentage', ea.percentage,
+           'completed_at', ea.completed_at,
+           'time_spent_seconds', COALESCE(ea.time_spent_seconds, 0),
+           'flags', (SELECT COUNT(*) FROM exam_violations v WHERE v.attempt_id = ea.id)
+         ) ORDER BY ea.completed_at), '[]'::jsonb)
+  INTO v_exams
+  FROM exam_attempts ea
+  JOIN exams e ON e.id = ea.exam_id
+  WHERE ea.user_id = p_student_id
+    AND ea.status = 'completed'
+    AND ea.completed_at >= v_from AND ea.completed_at < v_to;
+
+  SELECT COUNT(*) AS exams_taken,
+         ROUND(AVG(ea.percentage)) AS average_score,
+         COALESCE(SUM(ea.time_spent_seconds), 0) AS time_studied_seconds
+  INTO v_summary
+  FROM exam_attempts ea
+  WHERE ea.user_id = p_student_id
+    AND ea.status = 'completed'
+    AND ea.completed_at >= v_from AND ea.completed_at < v_to;
+
+  -- Average score for this week and the three before it, oldest first
+  SELECT jsonb_agg(jsonb_build_object(
+           'week_start', w.week_start,
+           'exams', w.exams,
+           'average_score', w.average_score
+         ) ORDER BY w.week_start)
+  INTO v_trend
+  FROM (
+    SELECT weeks.week_start,
+           COUNT(ea.id) AS exams,
+           ROUND(AVG(ea.percentage)) AS average_score
+    FROM (
+      SELECT v_week_start - 7 * n AS week_start FROM generate_series(0, 3) AS n
+    ) AS weeks
+    LEFT JOIN exam_attempts ea
+      ON ea.user_id = p_student_id
+     AND ea.status = 'completed'
+     AND ea.completed_at >= weeks.week_start::timestamp AT TIME ZONE 'Australia/Melbourne'
+     AND ea.completed_at < (weeks.week_start + 7)::timestamp AT TIME ZONE 'Australia/Melbourne'
+    GROUP BY weeks.week_start
+  ) AS w;
+
+  -- Least mastered skills with enough answers to go on; topics count as a
+  -- skill when none of their questions are tagged with one
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+           'subject', s.subject,
+           'topic', s.topic,
+           'skill', NULLIF(s.skill, ''),
+           'mastery', ROUND(s.p_mastery * 100),
+           'observations', s.observations
+         ) ORDER BY s.p_mastery), '[]'::jsonb)
+  INTO v_skills
+  FROM (
+    SELECT sm.*
+    FROM skill_mastery sm
+    WHERE sm.user_id = p_student_id
+      AND sm.observations >= 3
+      AND (
+        sm.skill <> ''
+        OR NOT EXISTS (
+          SELECT 1 FROM skill_mastery tagged
+          WHERE tagged.user_id = sm.user_id
+            AND tagged.subject = sm.subject
+            AND tagged.topic = sm.topic
+            AND tagged.skill <> ''
+        )
+      )
+    ORDER BY sm.p_mastery
+    LIMIT 3
+  ) AS s;
+
+  SELECT jsonb_build_object(
+           'total', COUNT(*),
+           'tab_switches', COUNT(*) FILTER (WHERE v.violation_type = 'tab_switch'),
+           'copy_paste', COUNT(*) FILTER (WHERE v.violation_type IN ('copy', 'paste')),
+           'other', COUNT(*) FILTER (WHERE v.violation_type IN ('right_click', 'other')),
+           'time_away_seconds', COALESCE(ROUND(EXTRACT(EPOCH FROM SUM(v.ended_at - v.occurred_at)
+             FILTER (WHERE v.violation_type = 'tab_switch'))), 0),
+           'attempts_flagged', COUNT(DISTINCT v.attempt_id)
+         )
+  INTO v_integrity
+  FROM exam_violations v
+  WHERE v.user_id = p_student_id
+    AND v.occurred_at >= v_from AND v.occurred_at < v_to;
+
+  RETURN jsonb_build_object(
+    'student', jsonb_build_object(
+      'id', v_student.id,
+      'name', v_student.name,
+      'year_level', v_student.year_level,
+      'has_parent_account', v_student.parent_id IS NOT NULL
+    ),
+    'week_start', v_week_start,
+    'week_end', v_week_start + 6,
+    'exams_taken', v_summary.exams_taken,
+    'average_score', v_summary.average_score,
+    'time_studied_seconds', v_summary.time_studied_seconds,
+    'exams', v_exams,
+    'score_trend', COALESCE(v_trend, '[]'::jsonb),
+    'weakest_skills', v_skills,
+    'integrity', v_integrity
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_weekly_report(UUID, DATE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_weekly_report(UUID, DATE) TO authenticated;
+
+-- ============================================
+-- 3. TABLE: Sent reports
+-- ============================================
+-- One row per student and week, so a retried job doesn't email twice.
+
+CREATE TABLE IF NOT EXISTS parent_report_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL,
+  recipient TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  sent_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(student_id, week_start)
+);
+
+ALTER TABLE parent_report_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Written by the edge function with the service role
+DROP POLICY IF EXISTS "Admins can view report deliveries" ON parent_report_deliveries;
+CREATE POLICY "Admins can view report deliveries"
+  ON parent_report_deliveries
+  FOR SELECT
+  USING (is_admin());
+
+-- ============================================
+-- 4. FUNCTION: Who gets a report this week
+-- ============================================
+-- Premium students (their own or a parent's subscription) with a linked
+-- parent account whose email is confirmed, and no report sent yet for the
+-- week. recipient is the parent account's email. Failed sends are retried.
+
+CREATE OR REPLACE FUNCTION get_weekly_report_recipients(p_week_start DATE)
+RETURNS TABLE (student_id UUID, recipient TEXT) AS $$
+  SELECT up.id, u.email::text
+  FROM user_profiles up
+  JOIN auth.users u ON u.id = up.parent_id
+  WHERE u.email IS NOT NULL
+    AND u.email_confirmed_at IS NOT NULL
+    AND up.role = 'student'
+    AND has_premium_access(up.id)
+    AND NOT EXISTS (
+      SELECT 1 FROM parent_report_deliveries d
+      WHERE d.student_id = up.id
+        AND d.week_start = p_week_start
+        AND d.status = 'sent'
+    )
+  ORDER BY up.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_weekly_report_recipients(DATE) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- 5. SCHEDULE
+-- ============================================
+-- Sunday 21:00 UTC is Monday morning in Melbourne (7am or 8am with
+-- daylight saving). Scheduled when pg_cron and pg_net are enabled.
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+     AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'weekly-parent-reports';
+    PERFORM cron.schedule(
+      'weekly-parent-reports',
+      '0 21 * * 0',
+      $job$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+          || '/functions/v1/send-weekly-reports',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      );
+      $job$
+    );
+
+    IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'supabase_vault') THEN
+      RAISE NOTICE 'weekly-parent-reports needs the project_url and service_role_key Vault secrets (see the top of this migration)';
+    ELSIF (SELECT COUNT(*) FROM vault.secrets
+           WHERE name IN ('project_url', 'service_role_key')) < 2 THEN
+      RAISE NOTICE 'weekly-parent-reports needs the project_url and service_role_key Vault secrets (see the top of this migration)';
+    END IF;
+  END IF;
+END $$;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Last week's report for a student:
+--   SELECT jsonb_pretty(get_weekly_report('<student id>'));
+--
+-- Recent sends:
+--   SELECT week_start, status, COUNT(*) FROM parent_report_deliveries
+--   GROUP BY week_start, status ORDER BY week_start DESC;
+--
+-- The schedule, and the secrets it needs (two rows):
+--   SELECT jobname, schedule, active FROM cron.job WHERE jobname = 'weekly-parent-reports';
+--   SELECT name FROM vault.secrets WHERE name IN ('project_url', 'service_role_key');
+--
+-- How the last runs went:
+--   SELECT d.status, d.return_message, d.start_time
+--   FROM cron.job_run_details d JOIN cron.job j ON j.jobid = d.jobid
+--   WHERE j.jobname = 'weekly-parent-reports' ORDER BY d.start_time DESC LIMIT 5;
@@ -0,0 +1,846 @@
+-- Migration: Teacher classes, rosters and assignments
+-- Run this in Supabase SQL Editor after 024_parent_reports.sql
+-- ============================================
+--
+-- Teachers run classes. Students get into a class two ways:
+--
+--   join code      the student types the class's code (join_class())
+--   roster import  the teacher uploads a CSV of names and emails
+--                  (import_class_roster()); every row is kept as an invite
+--                  that the student with that email accepts or declines
+--                  (respond_to_class_invite()), now or after signing up
+--
+-- Either way the student chooses to join. The import reports the same
+-- thing whether or not an email has an account, so it can't be used to
+-- find out who uses the app.
+--
+-- A class assignment sets a catalogue exam or one of the teacher's own
+-- practice sets (migration 019) with an open date, an optional close date
+-- and an optional attempt limit. Students start it like any exam, with the
+-- attempt tagged by exam_attempts.assignment_id; a trigger enforces the
+-- window and the limit.
+--
+-- Until an assignment closes, or the student has used up its attempts,
+-- its exam is held: the student can only start it through the assignment,
+-- its answers stay out of their results and review deck
+-- (exam_answers_released(), migration 019), and its questions stay out of
+-- their practice sets. Otherwise one attempt's answer key would help with
+-- the next.
+--
+--   role 'teacher'  set only by an admin. Signing up as a teacher
+--                   (account_type 'teacher' in the user metadata) makes a
+--                   student account with teacher_requested_at set, for an
+--                   admin to check and approve
+--
+-- Teachers see their students' names, emails and year levels
+-- (get_class_students()) and the attempts made for their assignments -
+-- nothing else a student does. The gradebook comes from
+-- get_class_gradebook() and get_assignment_question_stats(), and teachers
+-- mark the writing in their assignments' attempts.
+
+-- ============================================
+-- 1. TEACHER ROLE
+-- ============================================
+
+ALTER TABLE user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+ALTER TABLE user_profiles
+ADD CONSTRAINT user_profiles_role_check
+  CHECK (role IN ('student', 'admin', 'parent', 'teacher'));
+
+ALTER TABLE user_profiles
+ADD COLUMN IF NOT EXISTS teacher_requested_at TIMESTAMPTZ;
+
+-- As in migration 023, plus recording teacher sign-ups as requests
+CREATE OR REPLACE FUNCTION default_user_profile_role()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_account_type TEXT;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT is_admin() THEN
+    NEW.role := 'student';
+    NEW.parent_id := NULL;
+    NEW.username := NULL;
+  END IF;
+
+  IF NEW.role = 'student' AND NEW.parent_id IS NULL THEN
+    SELECT raw_user_meta_data->>'account_type' INTO v_account_type
+    FROM auth.users
+    WHERE id = NEW.id;
+
+    IF v_account_type = 'parent' THEN
+      NEW.role := 'parent';
+    ELSIF v_account_type = 'teacher' THEN
+      NEW.teacher_requested_at := NOW();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================
+-- 2. TABLES
+-- ============================================
+
+-- Six characters without look-alikes (no 0/O, 1/I/L)
+CREATE OR REPLACE FUNCTION generate_class_join_code()
+RETURNS TEXT AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code TEXT;
+BEGIN
+  LOOP
+    SELECT string_agg(substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::int, 1), '')
+    INTO v_code
+    FROM generate_series(1, 6);
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM classes WHERE join_code = v_code);
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+CREATE TABLE IF NOT EXISTS classes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  subject TEXT,
+  year_level INTEGER,
+  join_code TEXT NOT NULL UNIQUE DEFAULT generate_class_join_code(),
+  archived_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_classes_teacher ON classes(teacher_id);
+
+CREATE TABLE IF NOT EXISTS class_members (
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  joined_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (class_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_members_student ON class_members(student_id);
+
+-- Roster rows waiting for the student to accept
+CREATE TABLE IF NOT EXISTS class_roster_invites (
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(btrim(email))),
+  full_name TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (class_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_roster_invites_email ON class_roster_invites(email);
+
+CREATE TABLE IF NOT EXISTS class_assignments (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  exam_id TEXT NOT NULL REFERENCES exams(id) ON DELETE CASCADE,
+  opens_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- NULL stays open
+  closes_at TIMESTAMPTZ,
+  -- NULL is unlimited
+  max_attempts INTEGER CHECK (max_attempts BETWEEN 1 AND 20),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CHECK (closes_at IS NULL OR closes_at > opens_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_class_assignments_class ON class_assignments(class_id);
+
+ALTER TABLE exam_attempts
+ADD COLUMN IF NOT EXISTS assignment_id UUID REFERENCES class_assignments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_exam_attempts_assignment ON exam_attempts(assignment_id)
+  WHERE assignment_id IS NOT NULL;
+
+-- ============================================
+-- 3. FUNCTIONS: Who is in which class
+-- ============================================
+-- SECURITY DEFINER so policies on classes and class_members can refer to
+-- each other without recursing.
+
+CREATE OR REPLACE FUNCTION is_teacher()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'teacher'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_class_teacher(p_class_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM classes WHERE id = p_class_id AND teacher_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION is_class_member(p_class_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM class_members
+    WHERE class_id = p_class_id AND student_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION teaches_assignment(p_assignment_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM class_assignments ca
+    JOIN classes c ON c.id = ca.class_id
+    WHERE ca.id = p_assignment_id AND c.teacher_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_teacher() TO authenticated;
+GRANT EXECUTE ON FUNCTION is_class_teacher(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_class_member(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION teaches_assignment(UUID) TO authenticated;
+
+-- ============================================
+-- 4. RLS POLICIES
+-- ============================================
+
+ALTER TABLE classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_roster_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE class_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Classes: teachers manage their own, members can see theirs
+DROP POLICY IF EXISTS "Teachers manage own classes" ON classes;
+CREATE POLICY "Teachers manage own classes"
+  ON classes
+  FOR ALL
+  USING (teacher_id = auth.uid())
+  WITH CHECK (teacher_id = auth.uid() AND is_teacher());
+
+DROP POLICY IF EXISTS "Members can view their classes" ON classes;
+CREATE POLICY "Members can view their classes"
+  ON classes
+  FOR SELECT
+  USING (is_class_member(id) OR is_admin());
+
+-- Members: added by join_class() / respond_to_class_invite(); the teacher
+-- can remove anyone and a student can leave
+DROP POLICY IF EXISTS "Teachers and members can view class members" ON class_members;
+CREATE POLICY "Teachers and members can view class members"
+  ON class_members
+  FOR SELECT
+  USING (student_id = auth.uid() OR is_class_teacher(class_id) OR is_admin());
+
+DROP POLICY IF EXISTS "Teachers and members can remove class members" ON class_members;
+CREATE POLICY "Teachers and members can remove class members"
+  ON class_members
+  FOR DELETE
+  USING (student_id = auth.uid() OR is_class_teacher(class_id));
+
+DROP POLICY IF EXISTS "Teachers can view roster invites" ON class_roster_invites;
+CREATE POLICY "Teachers can view roster invites"
+  ON class_roster_invites
+  FOR SELECT
+  USING (is_class_teacher(class_id));
+
+DROP POLICY IF EXISTS "Teachers can cancel roster invites" ON class_roster_invites;
+CREATE POLICY "Teachers can cancel roster invites"
+  ON class_roster_invites
+  FOR DELETE
+  USING (is_class_teacher(class_id));
+
+-- Assignments: only exams the teacher can see themselves
+DROP POLICY IF EXISTS "Teachers manage class assignments" ON class_assignments;
+CREATE POLICY "Teachers manage class assignments"
+  ON class_assignments
+  FOR ALL
+  USING (is_class_teacher(class_id))
+  WITH CHECK (is_class_teacher(class_id) AND can_view_exam(exam_id));
+
+DROP POLICY IF EXISTS "Members can view class assignments" ON class_assignments;
+CREATE POLICY "Members can view class assignments"
+  ON class_assignments
+  FOR SELECT
+  USING (is_class_member(class_id) OR is_admin());
+
+-- Teachers read their students' assignment attempts. Profiles aren't
+-- opened up - get_class_students() returns the few columns a roster needs.
+DROP POLICY IF EXISTS "Teachers can view assignment attempts" ON exam_attempts;
+CREATE POLICY "Teachers can view assignment attempts"
+  ON exam_attempts
+  FOR SELECT
+  USING (assignment_id IS NOT NULL AND teaches_assignment(assignment_id));
+
+DROP POLICY IF EXISTS "Teachers can view assignment question results" ON attempt_question_results;
+CREATE POLICY "Teachers can view assignment question results"
+  ON attempt_question_results
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM exam_attempts ea
+      WHERE ea.id = attempt_question_results.attempt_id
+        AND ea.assignment_id IS NOT NULL
+        AND teaches_assignment(ea.assignment_id)
+    )
+  );
+
+-- The proctoring log (migration 009), to mark an assignment attempt in
+-- context
+DROP POLICY IF EXISTS "Teachers can view assignment exam violations" ON exam_violations;
+CREATE POLICY "Teachers can view assignment exam violations"
+  ON exam_violations
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM exam_attempts ea
+      WHERE ea.id = exam_violations.attempt_id
+        AND ea.assignment_id IS NOT NULL
+        AND teaches_assignment(ea.assignment_id)
+    )
+  );
+
+-- ============================================
+-- 5. ASSIGNED PRACTICE SETS
+-- ============================================
+-- A teacher's practice set is private (migration 019) except to students
+-- in a class it's assigned to.
+
+CREATE OR REPLACE FUNCTION can_view_exam(p_exam_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM exams
+    WHERE id = p_exam_id
+      AND owner_id IS NOT NULL
+      AND owner_id IS DISTINCT FROM auth.uid()
+      AND NOT is_parent_of(owner_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM class_assignments ca
+        JOIN class_members cm ON cm.class_id = ca.class_id
+        WHERE ca.exam_id = p_exam_id AND cm.student_id = auth.uid()
+      )
+  ) OR is_admin();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Personal exams are private" ON exams;
+CREATE POLICY "Personal exams are private"
+  ON exams
+  AS RESTRICTIVE
+  FOR SELECT
+  USING (owner_id IS NULL OR can_view_exam(id));
+
+-- ============================================
+-- 6. TRIGGER: Assignment window and attempt limit
+-- ============================================
+
+-- Whether the exam is held for the student: it's set in one of their
+-- classes, the assignment hasn't closed, and they still have an attempt
+-- left or are in the middle of their last one
+CREATE OR REPLACE FUNCTION exam_in_open_assignment(p_exam_id TEXT, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM class_assignments ca
+    JOIN class_members cm ON cm.class_id = ca.class_id
+    WHERE ca.exam_id = p_exam_id
+      AND cm.student_id = p_user_id
+      AND (ca.closes_at IS NULL OR ca.closes_at > NOW())
+      AND (
+        ca.max_attempts IS NULL
+        OR (
+          SELECT COUNT(*) FILTER (WHERE ea.status = 'in_progress') > 0
+                 OR COUNT(*) < ca.max_attempts
+          FROM exam_attempts ea
+          WHERE ea.assignment_id = ca.id AND ea.user_id = p_user_id
+        )
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION exam_in_open_assignment(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION check_assignment_attempt()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_assignment class_assignments%ROWTYPE;
+  v_attempts INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.assignment_id IS DISTINCT FROM OLD.assignment_id AND auth.uid() IS NOT NULL THEN
+      RAISE EXCEPTION 'An attempt''s assignment cannot be changed'
+        USING ERRCODE = '42501';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assignment_id IS NULL THEN
+    IF exam_in_open_assignment(NEW.exam_id, NEW.user_id) THEN
+      RAISE EXCEPTION 'This exam is set for one of your classes - start it from the assignment'
+        USING ERRCODE = '23514';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Locked so two tabs can't both take the last attempt
+  SELECT * INTO v_assignment
+  FROM class_assignments
+  WHERE id = NEW.assignment_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_assignment.exam_id <> NEW.exam_id THEN
+    RAISE EXCEPTION 'Assignment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM class_members
+    WHERE class_id = v_assignment.class_id AND student_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'This assignment is for another class' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOW() < v_assignment.opens_at THEN
+    RAISE EXCEPTION 'This assignment hasn''t opened yet' USING ERRCODE = '23514';
+  END IF;
+
+  IF v_assignment.closes_at IS NOT NULL AND NOW() >= v_assignment.closes_at THEN
+    RAISE EXCEPTION 'This assignment has closed' USING ERRCODE = '23514';
+  END IF;
+
+  IF v_assignment.max_attempts IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_attempts
+    FROM exam_attempts
+    WHERE assignment_id = NEW.assignment_id AND user_id = NEW.user_id;
+
+    IF v_attempts >= v_assignment.max_attempts THEN
+      RAISE EXCEPTION 'No attempts left for this assignment' USING ERRCODE = '23514';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION check_assignment_attempt() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS check_assignment_attempt ON exam_attempts;
+CREATE TRIGGER check_assignment_attempt
+  BEFORE INSERT OR UPDATE OF assignment_id ON exam_attempts
+  FOR EACH ROW EXECUTE FUNCTION check_assignment_attempt();
+
+-- ============================================
+-- 7. FUNCTION: Join a class by code
+-- ============================================
+
+CREATE OR REPLACE FUNCTION join_class(p_join_code TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_class_id UUID;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'student'
+  ) THEN
+    RAISE EXCEPTION 'Only student accounts can join a class'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_class_id
+  FROM classes
+  WHERE join_code = upper(btrim(p_join_code))
+    AND archived_at IS NULL;
+
+  IF v_class_id IS NULL THEN
+    RAISE EXCEPTION 'No class has that code' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO class_members (class_id, student_id)
+  VALUES (v_class_id, auth.uid())
+  ON CONFLICT DO NOTHING;
+
+  RETURN v_class_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION join_class(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION join_class(TEXT) TO authenticated;
+
+-- ============================================
+-- 8. FUNCTION: Import a CSV roster
+-- ============================================
+-- p_students is [{ "email": ..., "full_name": ... }] - the app parses the
+-- CSV (parseRosterCsv() in src/lib/classes.ts). Every row with an email
+-- becomes an invite, account or not. Returns how many rows were invited and
+-- skipped (not an email).
+
+CREATE OR REPLACE FUNCTION import_class_roster(p_class_id UUID, p_students JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_row JSONB;
+  v_email TEXT;
+  v_invited INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  IF NOT is_class_teacher(p_class_id) THEN
+    RAISE EXCEPTION 'Class not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF jsonb_typeof(p_students) <> 'array' OR jsonb_array_length(p_students) > 500 THEN
+    RAISE EXCEPTION 'Import up to 500 students at a time' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(p_students)
+  LOOP
+    v_email := lower(btrim(v_row->>'email'));
+
+    IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO class_roster_invites (class_id, email, full_name)
+    VALUES (p_class_id, v_email, NULLIF(btrim(v_row->>'full_name'), ''))
+    ON CONFLICT (class_id, email) DO UPDATE SET full_name = EXCLUDED.full_name;
+    v_invited := v_invited + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'invited', v_invited,
+    'skipped', v_skipped
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION import_class_roster(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION import_class_roster(UUID, JSONB) TO authenticated;
+
+-- ============================================
+-- 9. FUNCTIONS: Answering a roster invite
+-- ============================================
+-- An invite is for whoever signs in with a confirmed account at its email.
+-- Students can't read classes they aren't in, so the invites come with the
+-- class and teacher names.
+
+CREATE OR REPLACE FUNCTION get_my_class_invites()
+RETURNS TABLE (
+  class_id UUID,
+  class_name TEXT,
+  subject TEXT,
+  year_level INTEGER,
+  teacher_name TEXT,
+  invited_at TIMESTAMPTZ
+) AS $$
+  SELECT c.id, c.name, c.subject, c.year_level,
+         COALESCE(t.display_name, t.full_name), i.created_at
+  FROM auth.users u
+  JOIN class_roster_invites i ON i.email = lower(u.email)
+  JOIN classes c ON c.id = i.class_id
+  LEFT JOIN user_profiles t ON t.id = c.teacher_id
+  WHERE u.id = auth.uid()
+    AND u.email_confirmed_at IS NOT NULL
+    AND c.archived_at IS NULL
+  ORDER BY i.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_my_class_invites() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_my_class_invites() TO authenticated;
+
+-- Accepting joins the class; either answer uses up the invite
+CREATE OR REPLACE FUNCTION respond_to_class_invite(p_class_id UUID, p_accept BOOLEAN)
+RETURNS VOID AS $$
+DECLARE
+  v_email TEXT;
+BEGIN
+  SELECT lower(email) INTO v_email
+  FROM auth.users
+  WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+
+  DELETE FROM class_roster_invites
+  WHERE class_id = p_class_id AND email = v_email;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT p_accept THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'student'
+  ) THEN
+    RAISE EXCEPTION 'Only student accounts can join a class'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM classes WHERE id = p_class_id AND archived_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This class has been archived' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO class_members (class_id, student_id)
+  VALUES (p_class_id, auth.uid())
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION respond_to_class_invite(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION respond_to_class_invite(UUID, BOOLEAN) TO authenticated;
+
+-- ============================================
+-- 10. FUNCTIONS: Gradebook
+-- ============================================
+
+-- The class's students, for the roster and gradebook
+CREATE OR REPLACE FUNCTION get_class_students(p_class_id UUID)
+RETURNS TABLE (
+  id UUID,
+  email TEXT,
+  full_name TEXT,
+  display_name TEXT,
+  year_level INTEGER,
+  joined_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT (is_class_teacher(p_class_id) OR is_admin()) THEN
+    RAISE EXCEPTION 'Class not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT up.id, up.email::text, up.full_name::text, up.display_name::text,
+         up.year_level::int, cm.joined_at
+  FROM class_members cm
+  JOIN user_profiles up ON up.id = cm.student_id
+  WHERE cm.class_id = p_class_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_class_students(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_class_students(UUID) TO authenticated;
+
+-- One row per student and assignment in the class
+CREATE OR REPLACE FUNCTION get_class_gradebook(p_class_id UUID)
+RETURNS TABLE (
+  student_id UUID,
+  assignment_id UUID,
+  attempts INTEGER,
+  completed INTEGER,
+  best_percentage NUMERIC,
+  latest_percentage NUMERIC,
+  last_completed_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF NOT (is_class_teacher(p_class_id) OR is_admin()) THEN
+    RAISE EXCEPTION 'Class not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT cm.student_id,
+         ca.id,
+         COUNT(ea.id)::int,
+         (COUNT(ea.id) FILTER (WHERE ea.status = 'completed'))::int,
+         (MAX(ea.percentage) FILTER (WHERE ea.status = 'completed'))::numeric,
+         ((array_agg(ea.percentage ORDER BY ea.completed_at DESC)
+           FILTER (WHERE ea.status = 'completed'))[1])::numeric,
+         MAX(ea.completed_at)
+  FROM class_members cm
+  JOIN class_assignments ca ON ca.class_id = cm.class_id
+  LEFT JOIN exam_attempts ea
+    ON ea.assignment_id = ca.id AND ea.user_id = cm.student_id
+  WHERE cm.class_id = p_class_id
+  GROUP BY cm.student_id, ca.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_class_gradebook(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_class_gradebook(UUID) TO authenticated;
+
+-- How the class did on each question of an assignment, over every
+-- completed attempt
+CREATE OR REPLACE FUNCTION get_assignment_question_stats(p_assignment_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  question_number INTEGER,
+  question_text TEXT,
+  topic TEXT,
+  answered INTEGER,
+  correct INTEGER,
+  average_credit NUMERIC
+) AS $$
+BEGIN
+  IF NOT (teaches_assignment(p_assignment_id) OR is_admin()) THEN
+    RAISE EXCEPTION 'Assignment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id,
+         q.question_number::int,
+         q.question_text::text,
+         q.topic::text,
+         COUNT(r.id)::int,
+         (COUNT(r.id) FILTER (WHERE r.is_correct))::int,
+         ROUND(AVG(r.points_awarded / NULLIF(r.points_possible, 0)) * 100)
+  FROM class_assignments ca
+  JOIN questions q ON q.exam_id = ca.exam_id
+  LEFT JOIN (
+    attempt_question_results r
+    JOIN exam_attempts ea
+      ON ea.id = r.attempt_id
+     AND ea.assignment_id = p_assignment_id
+     AND ea.status = 'completed'
+  ) ON r.question_id = q.id
+  WHERE ca.id = p_assignment_id
+  GROUP BY q.id
+  ORDER BY q.question_number;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_assignment_question_stats(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_assignment_question_stats(UUID) TO authenticated;
+
+-- ============================================
+-- 11. MARKING ASSIGNMENT WRITING
+-- ============================================
+-- Replaces the 023 version: the teacher of an assignment can also mark the
+-- writing in attempts made for it - not the student's other attempts.
+
+CREATE OR REPLACE FUNCTION can_mark_attempt(p_attempt_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT is_admin() OR EXISTS (
+    SELECT 1 FROM exam_attempts
+    WHERE id = p_attempt_id
+      AND (
+        is_parent_of(user_id)
+        OR (assignment_id IS NOT NULL AND teaches_assignment(assignment_id))
+      )
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The extended responses in an assignment's graded attempts, newest first,
+-- with whether each has been marked yet
+CREATE OR REPLACE FUNCTION get_assignment_writing(p_assignment_id UUID)
+RETURNS TABLE (
+  attempt_id UUID,
+  student_id UUID,
+  exam_id TEXT,
+  question_id UUID,
+  question_number INTEGER,
+  completed_at TIMESTAMPTZ,
+  marked BOOLEAN
+) AS $$
+BEGIN
+  IF NOT (teaches_assignment(p_assignment_id) OR is_admin()) THEN
+    RAISE EXCEPTION 'Assignment not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT ea.id, ea.user_id, ea.exam_id::text, q.id, q.question_number::int,
+         ea.completed_at,
+         EXISTS (
+           SELECT 1 FROM writing_marks wm
+           WHERE wm.attempt_id = ea.id AND wm.question_id = q.id
+         )
+  FROM exam_attempts ea
+  JOIN questions q ON q.exam_id = ea.exam_id
+  WHERE ea.assignment_id = p_assignment_id
+    AND ea.graded_at IS NOT NULL
+    AND replace(lower(q.question_type), '_', '-') = 'extended-response'
+  ORDER BY ea.completed_at DESC, q.question_number;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_assignment_writing(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_assignment_writing(UUID) TO authenticated;
+
+-- ============================================
+-- 12. ANSWER KEYS OF HELD EXAMS
+-- ============================================
+
+-- Replaces the 019 version: an exam held by an open assignment isn't
+-- released, even after the student has completed it
+CREATE OR REPLACE FUNCTION exam_answers_released(p_exam_id TEXT, p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM exam_attempts
+    WHERE exam_id = p_exam_id
+      AND user_id = p_user_id
+      AND status = 'completed'
+  ) AND NOT exam_in_open_assignment(p_exam_id, p_user_id);
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION exam_answers_released(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Replaces the 019 version: the attempt's own exam has to be released too,
+-- so a completed attempt of a held exam - or of a practice set a teacher
+-- assigned - shows no answers until the hold ends
+CREATE OR REPLACE FUNCTION get_attempt_answer_key(p_attempt_id UUID)
+RETURNS TABLE (
+  question_id UUID,
+  correct_answer TEXT,
+  explanation TEXT,
+  answer_explanation JSONB,
+  blanks JSONB
+) AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM exam_attempts ea
+    WHERE ea.id = p_attempt_id
+      AND ea.status = 'completed'
+      AND (ea.user_id = auth.uid() OR auth.role() = 'service_role')
+  ) THEN
+    RAISE EXCEPTION 'Answer key is only available for your completed attempts'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.correct_answer, q.explanation, q.answer_explanation, q.blanks
+  FROM questions q
+  JOIN exam_attempts ea ON ea.exam_id = q.exam_id
+  LEFT JOIN questions src ON src.id = q.source_question_id
+  WHERE ea.id = p_attempt_id
+    AND exam_answers_released(ea.exam_id, ea.user_id)
+    AND (src.id IS NULL OR exam_answers_released(src.exam_id, ea.user_id));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_attempt_answer_key(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_attempt_answer_key(UUID) TO authenticated;
+
+-- Replaces the 019 version: held exams are left out of the bank as well
+CREATE OR REPLACE FUNCTION practice_question_pool()
+RETURNS SETOF questions AS $$
+  SELECT q.*
+  FROM questions q
+  JOIN exams e ON e.id = q.exam_id
+  WHERE e.owner_id IS NULL
+    AND e.is_active
+    AND q.topic IS NOT NULL AND btrim(q.topic) <> ''
+    AND q.stimulus_id IS NULL
+    AND replace(lower(q.question_type), '_', '-') <> 'extended-response'
+    AND NOT exam_in_open_assignment(e.id, auth.uid());
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION practice_question_pool() FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Teacher sign-ups waiting for approval, and approving one:
+--   SELECT id, email, full_name, teacher_requested_at FROM user_profiles
+--   WHERE teacher_requested_at IS NOT NULL AND role = 'student'
+--   ORDER BY teacher_requested_at;
+--
+--   UPDATE user_profiles SET role = 'teacher' WHERE id = '<user id>';
+--
+-- Classes with their size:
+--   SELECT c.name, c.join_code, up.email AS teacher, COUNT(cm.student_id) AS students
+--   FROM classes c
+--   JOIN user_profiles up ON up.id = c.teacher_id
+--   LEFT JOIN class_members cm ON cm.class_id = c.id
+--   GROUP BY c.id, up.email ORDER BY c.created_at DESC;
+--
+-- As a student past the attempt limit this should fail with
+-- 'No attempts left for this assignment':
+--   INSERT INTO exam_attempts (user_id, exam_id, assignment_id, status)
+--   VALUES (auth.uid(), '<exam id>', '<assignment id>', 'in_progress');
+--
+-- As a student with attempts left on an open assignment, this should be
+-- empty for a completed attempt of its exam:
+--   SELECT * FROM get_attempt_answer_key('<attempt id>');
@@ -0,0 +1,681 @@
+-- Migration: Organisation licensing with seats
+-- Run this in Supabase SQL Editor after 025_teacher_classes.sql
+-- ============================================
+--
+-- Schools buy Premium as a pool of seats instead of one subscription per
+-- student. An organisation has a seat limit and a licence status; its org
+-- admins offer seats by email and take them back. A seat is only taken
+-- when the person accepts the invite, since it lets the org admins see
+-- their name, email and practice in the usage report. Org admins join the
+-- same way: they're invited by email and accept, and invites never show
+-- whether an email has an account.
+--
+--   organisations        the licence - seat_limit, status and the end of
+--                        the paid period. Created by platform admins
+--                        (create_organisation()); when the school pays
+--                        through Stripe, the subscription's
+--                        metadata.organisation_id lets stripe-webhook keep
+--                        seat_limit (the quantity) and status in step
+--   organisation_admins  who manages the seats
+--   organisation_admin_invites
+--                        admins invited and not yet answered, by email
+--   organisation_seat_invites
+--                        seats offered and not yet answered, by email
+--   organisation_seats   one row per seat accepted; revoking stamps
+--                        revoked_at so usage history is kept
+--
+-- has_premium_access() now also says yes for anyone holding a seat in an
+-- organisation whose licence is current. Lowering seat_limit below the
+-- seats in use keeps the existing seats - it only stops new ones.
+-- get_organisation_usage() is the per-organisation usage report.
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS organisations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  seat_limit INTEGER NOT NULL CHECK (seat_limit >= 0),
+  -- Same values as user_subscriptions.status
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'trialing', 'past_due', 'canceled', 'unpaid')),
+  -- NULL never lapses (e.g. invoiced without an end date)
+  current_period_end TIMESTAMPTZ,
+  stripe_customer_id TEXT UNIQUE,
+  stripe_subscription_id TEXT UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS trigger_update_organisation_timestamp ON organisations;
+CREATE TRIGGER trigger_update_organisation_timestamp
+  BEFORE UPDATE ON organisations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_subscription_updated_at();
+
+CREATE TABLE IF NOT EXISTS organisation_admins (
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (organisation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organisation_admins_user ON organisation_admins(user_id);
+
+CREATE TABLE IF NOT EXISTS organisation_admin_invites (
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(btrim(email))),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (organisation_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organisation_admin_invites_email
+  ON organisation_admin_invites(email);
+
+CREATE TABLE IF NOT EXISTS organisation_seats (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  assigned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  assigned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ
+);
+
+-- One live seat per person per organisation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_organisation_seats_active
+  ON organisation_seats(organisation_id, user_id)
+  WHERE revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_organisation_seats_user
+  ON organisation_seats(user_id)
+  WHERE revoked_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS organisation_seat_invites (
+  organisation_id UUID NOT NULL REFERENCES organisations(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(btrim(email))),
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (organisation_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organisation_seat_invites_email
+  ON organisation_seat_invites(email);
+
+-- ============================================
+-- 2. FUNCTIONS: Who manages which organisation
+-- ============================================
+-- SECURITY DEFINER so policies can refer to each other without recursing.
+
+CREATE OR REPLACE FUNCTION is_organisation_admin(p_organisation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organisation_admins
+    WHERE organisation_id = p_organisation_id AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Does the current user manage an organisation this user has a seat in?
+CREATE OR REPLACE FUNCTION is_organisation_admin_of(p_user_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organisation_seats s
+    JOIN organisation_admins oa ON oa.organisation_id = s.organisation_id
+    WHERE s.user_id = p_user_id
+      AND s.revoked_at IS NULL
+      AND oa.user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION holds_organisation_seat(p_organisation_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organisation_seats
+    WHERE organisation_id = p_organisation_id
+      AND user_id = auth.uid()
+      AND revoked_at IS NULL
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION is_organisation_admin(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_organisation_admin_of(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION holds_organisation_seat(UUID) TO authenticated;
+
+-- ============================================
+-- 3. RLS POLICIES
+-- ============================================
+-- Seats and admins change only through the functions below; platform
+-- admins can also edit organisations directly (seat_limit, status).
+
+ALTER TABLE organisations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organisation_admins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organisation_admin_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organisation_seats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE organisation_seat_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their organisations" ON organisations;
+CREATE POLICY "Members can view their organisations"
+  ON organisations
+  FOR SELECT
+  USING (
+    is_organisation_admin(id) OR holds_organisation_seat(id) OR is_admin()
+  );
+
+DROP POLICY IF EXISTS "Admins can manage organisations" ON organisations;
+CREATE POLICY "Admins can manage organisations"
+  ON organisations
+  FOR ALL
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Org admins can view org admins" ON organisation_admins;
+CREATE POLICY "Org admins can view org admins"
+  ON organisation_admins
+  FOR SELECT
+  USING (is_organisation_admin(organisation_id) OR is_admin());
+
+-- Anyone but yourself, so an organisation isn't left without an admin by
+-- accident
+DROP POLICY IF EXISTS "Org admins can remove other org admins" ON organisation_admins;
+CREATE POLICY "Org admins can remove other org admins"
+  ON organisation_admins
+  FOR DELETE
+  USING (
+    (is_organisation_admin(organisation_id) AND user_id <> auth.uid())
+    OR is_admin()
+  );
+
+DROP POLICY IF EXISTS "Org admins can view admin invites" ON organisation_admin_invites;
+CREATE POLICY "Org admins can view admin invites"
+  ON organisation_admin_invites
+  FOR SELECT
+  USING (is_organisation_admin(organisation_id) OR is_admin());
+
+DROP POLICY IF EXISTS "Org admins can cancel admin invites" ON organisation_admin_invites;
+CREATE POLICY "Org admins can cancel admin invites"
+  ON organisation_admin_invites
+  FOR DELETE
+  USING (is_organisation_admin(organisation_id) OR is_admin());
+
+DROP POLICY IF EXISTS "Users and org admins can view seats" ON organisation_seats;
+CREATE POLICY "Users and org admins can view seats"
+  ON organisation_seats
+  FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR is_organisation_admin(organisation_id)
+    OR is_admin()
+  );
+
+DROP POLICY IF EXISTS "Org admins can view seat invites" ON organisation_seat_invites;
+CREATE POLICY "Org admins can view seat invites"
+  ON organisation_seat_invites
+  FOR SELECT
+  USING (is_organisation_admin(organisation_id) OR is_admin());
+
+DROP POLICY IF EXISTS "Org admins can cancel seat invites" ON organisation_seat_invites;
+CREATE POLICY "Org admins can cancel seat invites"
+  ON organisation_seat_invites
+  FOR DELETE
+  USING (is_organisation_admin(organisation_id) OR is_admin());
+
+DROP POLICY IF EXISTS "Org admins can view seat holders" ON user_profiles;
+CREATE POLICY "Org admins can view seat holders"
+  ON user_profiles
+  FOR SELECT
+  USING (is_organisation_admin_of(id));
+
+-- ============================================
+-- 4. FUNCTION: Premium from a seat or a subscription
+-- ============================================
+-- As in migration 023 (own or parent's subscription), plus a seat in an
+-- organisation whose licence is current. Seats are personal - a parent's
+-- seat doesn't cover their children.
+--
+-- A signed-in user can only ask about themselves or their children, or
+-- anyone if they're an admin - otherwise the answer is false, so it can't
+-- be used to find out who is Premium or holds a seat. The service role and
+-- SQL Editor (no auth.uid()) can ask about anyone, as the weekly report
+-- recipients (migration 024) do.
+
+CREATE OR REPLACE FUNCTION has_premium_access(user_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND user_uuid IS DISTINCT FROM auth.uid()
+     AND NOT is_parent_of(user_uuid)
+     AND NOT is_admin() THEN
+    RETURN FALSE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1 FROM user_subscriptions
+    WHERE status IN ('active', 'trialing')
+      AND user_id IN (
+        SELECT user_uuid
+        UNION ALL
+        SELECT parent_id FROM user_profiles
+        WHERE id = user_uuid AND parent_id IS NOT NULL
+      )
+  ) OR EXISTS (
+    SELECT 1 FROM organisation_seats s
+    JOIN organisations o ON o.id = s.organisation_id
+    WHERE s.user_id = user_uuid
+      AND s.revoked_at IS NULL
+      AND o.status IN ('active', 'trialing')
+      AND (o.current_period_end IS NULL OR o.current_period_end > NOW())
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION has_premium_access(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION has_premium_access(UUID) TO authenticated;
+
+-- ============================================
+-- 5. FUNCTIONS: Organisations and org admins
+-- ============================================
+-- Admins are invited by email, account or not, and the call says the same
+-- thing either way. The person with that email accepts or declines
+-- (respond_to_organisation_admin_invite()).
+
+-- Org admins and platform admins. Re-inviting keeps the first invite.
+CREATE OR REPLACE FUNCTION invite_organisation_admin(
+  p_organisation_id UUID,
+  p_email TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_email TEXT := lower(btrim(p_email));
+BEGIN
+  IF NOT (is_organisation_admin(p_organisation_id) OR is_admin()) THEN
+    RAISE EXCEPTION 'Organisation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter an email address' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO organisation_admin_invites (organisation_id, email, invited_by)
+  VALUES (p_organisation_id, v_email, auth.uid())
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION invite_organisation_admin(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION invite_organisation_admin(UUID, TEXT) TO authenticated;
+
+-- Platform admins only. The first org admin is invited like any other.
+CREATE OR REPLACE FUNCTION create_organisation(
+  p_name TEXT,
+  p_seat_limit INTEGER,
+  p_admin_email TEXT
+)
+RETURNS UUID AS $$
+DECLARE
+  v_organisation_id UUID;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Only admins can create organisations'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO organisations (name, seat_limit)
+  VALUES (btrim(p_name), p_seat_limit)
+  RETURNING id INTO v_organisation_id;
+
+  PERFORM invite_organisation_admin(v_organisation_id, p_admin_email);
+
+  RETURN v_organisation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION create_organisation(TEXT, INTEGER, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_organisation(TEXT, INTEGER, TEXT) TO authenticated;
+
+-- The organisation's admins - just a name and email each
+CREATE OR REPLACE FUNCTION get_organisation_admins(p_organisation_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  name TEXT,
+  email TEXT
+) AS $$
+BEGIN
+  IF NOT (is_organisation_admin(p_organisation_id) OR is_admin()) THEN
+    RAISE EXCEPTION 'Organisation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT oa.user_id,
+         coalesce(up.display_name, up.full_name, up.email)::text,
+         up.email::text
+  FROM organisation_admins oa
+  JOIN user_profiles up ON up.id = oa.user_id
+  WHERE oa.organisation_id = p_organisation_id
+  ORDER BY 2;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_organisation_admins(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_organisation_admins(UUID) TO authenticated;
+
+-- Admin invites to the caller's confirmed email
+CREATE OR REPLACE FUNCTION get_my_organisation_admin_invites()
+RETURNS TABLE (
+  organisation_id UUID,
+  organisation_name TEXT,
+  invited_at TIMESTAMPTZ
+) AS $$
+  SELECT o.id, o.name, i.created_at
+  FROM auth.users u
+  JOIN organisation_admin_invites i ON i.email = lower(u.email)
+  JOIN organisations o ON o.id = i.organisation_id
+  WHERE u.id = auth.uid()
+    AND u.email_confirmed_at IS NOT NULL
+  ORDER BY i.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_my_organisation_admin_invites() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_my_organisation_admin_invites() TO authenticated;
+
+-- Accepting makes the caller an org admin; either answer uses up the invite
+CREATE OR REPLACE FUNCTION respond_to_organisation_admin_invite(
+  p_organisation_id UUID,
+  p_accept BOOLEAN
+)
+RETURNS VOID AS $$
+DECLARE
+  v_email TEXT;
+BEGIN
+  SELECT lower(email) INTO v_email
+  FROM auth.users
+  WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+
+  DELETE FROM organisation_admin_invites
+  WHERE organisation_id = p_organisation_id AND email = v_email;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_accept THEN
+    INSERT INTO organisation_admins (organisation_id, user_id)
+    VALUES (p_organisation_id, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION respond_to_organisation_admin_invite(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION respond_to_organisation_admin_invite(UUID, BOOLEAN) TO authenticated;
+
+-- ============================================
+-- 6. FUNCTIONS: Offer and revoke seats
+-- ============================================
+-- Seats are offered by email. Every email gets an invite, account or not,
+-- so the result doesn't show who uses the app; the person with that email
+-- accepts or declines it (respond_to_seat_invite()). Open invites hold a
+-- seat until they're answered or cancelled. Returns how many were invited,
+-- and the emails that already hold a seat here or didn't fit in the seats
+-- left.
+
+CREATE OR REPLACE FUNCTION invite_organisation_seats(
+  p_organisation_id UUID,
+  p_emails TEXT[]
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_seat_limit INTEGER;
+  v_seats_taken INTEGER;
+  v_email TEXT;
+  v_invited INTEGER := 0;
+  v_already_seated TEXT[] := '{}';
+  v_no_seat TEXT[] := '{}';
+BEGIN
+  IF NOT (is_organisation_admin(p_organisation_id) OR is_admin()) THEN
+    RAISE EXCEPTION 'Organisation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF coalesce(array_length(p_emails, 1), 0) > 500 THEN
+    RAISE EXCEPTION 'Invite up to 500 people at a time' USING ERRCODE = '22023';
+  END IF;
+
+  -- Locked so two admins can't both hand out the last seat
+  SELECT seat_limit INTO v_seat_limit
+  FROM organisations
+  WHERE id = p_organisation_id
+  FOR UPDATE;
+
+  SELECT (SELECT COUNT(*) FROM organisation_seats
+          WHERE organisation_id = p_organisation_id AND revoked_at IS NULL)
+       + (SELECT COUNT(*) FROM organisation_seat_invites
+          WHERE organisation_id = p_organisation_id)
+  INTO v_seats_taken;
+
+  FOR v_email IN
+    SELECT DISTINCT lower(btrim(e)) FROM unnest(p_emails) AS e
+    WHERE btrim(e) <> ''
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM organisation_seats s
+      JOIN user_profiles up ON up.id = s.user_id
+      WHERE s.organisation_id = p_organisation_id
+        AND s.revoked_at IS NULL
+        AND lower(up.email) = v_email
+    ) THEN
+      v_already_seated := v_already_seated || v_email;
+    ELSIF EXISTS (
+      SELECT 1 FROM organisation_seat_invites
+      WHERE organisation_id = p_organisation_id AND email = v_email
+    ) THEN
+      -- Invited already; counts as invited without taking another seat
+      v_invited := v_invited + 1;
+    ELSIF v_seats_taken >= v_seat_limit THEN
+      v_no_seat := v_no_seat || v_email;
+    ELSE
+      INSERT INTO organisation_seat_invites (organisation_id, email, invited_by)
+      VALUES (p_organisation_id, v_email, auth.uid());
+      v_seats_taken := v_seats_taken + 1;
+      v_invited := v_invited + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'invited', v_invited,
+    'already_seated', to_jsonb(v_already_seated),
+    'no_seat', to_jsonb(v_no_seat)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION invite_organisation_seats(UUID, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION invite_organisation_seats(UUID, TEXT[]) TO authenticated;
+
+-- Seat invites to the caller's confirmed email. Invitees can't read the
+-- organisation yet, so its name comes along.
+CREATE OR REPLACE FUNCTION get_my_seat_invites()
+RETURNS TABLE (
+  organisation_id UUID,
+  organisation_name TEXT,
+  invited_at TIMESTAMPTZ
+) AS $$
+  SELECT o.id, o.name, i.created_at
+  FROM auth.users u
+  JOIN organisation_seat_invites i ON i.email = lower(u.email)
+  JOIN organisations o ON o.id = i.organisation_id
+  WHERE u.id = auth.uid()
+    AND u.email_confirmed_at IS NOT NULL
+  ORDER BY i.created_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_my_seat_invites() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_my_seat_invites() TO authenticated;
+
+-- Accepting takes the seat, and with it agrees to the organisation's admins
+-- seeing the usage report; either answer uses up the invite
+CREATE OR REPLACE FUNCTION respond_to_seat_invite(
+  p_organisation_id UUID,
+  p_accept BOOLEAN
+)
+RETURNS VOID AS $$
+DECLARE
+  v_email TEXT;
+  v_invited_by UUID;
+BEGIN
+  SELECT lower(email) INTO v_email
+  FROM auth.users
+  WHERE id = auth.uid() AND email_confirmed_at IS NOT NULL;
+
+  DELETE FROM organisation_seat_invites
+  WHERE organisation_id = p_organisation_id AND email = v_email
+  RETURNING invited_by INTO v_invited_by;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT p_accept THEN
+    RETURN;
+  END IF;
+
+  -- The seat limit may have been lowered since the invite was sent
+  PERFORM 1 FROM organisations WHERE id = p_organisation_id FOR UPDATE;
+
+  IF (SELECT COUNT(*) FROM organisation_seats
+      WHERE organisation_id = p_organisation_id AND revoked_at IS NULL)
+     >= (SELECT seat_limit FROM organisations WHERE id = p_organisation_id) THEN
+    RAISE EXCEPTION 'No seats left - ask the organisation to free one'
+      USING ERRCODE = '23514';
+  END IF;
+
+  INSERT INTO organisation_seats (organisation_id, user_id, assigned_by)
+  VALUES (p_organisation_id, auth.uid(), v_invited_by)
+  ON CONFLICT DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION respond_to_seat_invite(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION respond_to_seat_invite(UUID, BOOLEAN) TO authenticated;
+
+CREATE OR REPLACE FUNCTION revoke_organisation_seat(p_seat_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_organisation_id UUID;
+BEGIN
+  SELECT organisation_id INTO v_organisation_id
+  FROM organisation_seats
+  WHERE id = p_seat_id AND revoked_at IS NULL;
+
+  IF v_organisation_id IS NULL
+     OR NOT (is_organisation_admin(v_organisation_id) OR is_admin()) THEN
+    RAISE EXCEPTION 'Seat not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE organisation_seats
+  SET revoked_at = NOW()
+  WHERE id = p_seat_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION revoke_organisation_seat(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION revoke_organisation_seat(UUID) TO authenticated;
+
+-- ============================================
+-- 7. FUNCTION: Usage report
+-- ============================================
+-- Over the last p_days: exams completed, average score and time studied
+-- by the current seat holders, plus one row per seat holder. Only what
+-- they did while holding the seat counts. Seat holders agreed to this
+-- report when they accepted the seat.
+
+CREATE OR REPLACE FUNCTION get_organisation_usage(
+  p_organisation_id UUID,
+  p_days INTEGER DEFAULT 30
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_since TIMESTAMPTZ := NOW() - make_interval(days => greatest(1, least(p_days, 366)));
+  v_organisation organisations%ROWTYPE;
+  v_members JSONB;
+BEGIN
+  IF NOT (is_organisation_admin(p_organisation_id) OR is_admin()) THEN
+    RAISE EXCEPTION 'Organisation not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO v_organisation FROM organisations WHERE id = p_organisation_id;
+
+  SELECT coalesce(jsonb_agg(to_jsonb(m) ORDER BY m.exams_completed DESC, m.name), '[]'::jsonb)
+  INTO v_members
+  FROM (
+    SELECT s.id AS seat_id,
+           s.user_id,
+           coalesce(up.display_name, up.full_name, up.email) AS name,
+           up.email,
+           s.assigned_at,
+           MAX(ea.completed_at) AS last_active_at,
+           COUNT(ea.id)::int AS exams_completed,
+           ROUND(AVG(ea.percentage))::int AS average_score,
+           coalesce(SUM(ea.time_spent_seconds), 0)::int AS time_spent_seconds
+    FROM organisation_seats s
+    JOIN user_profiles up ON up.id = s.user_id
+    LEFT JOIN exam_attempts ea
+      ON ea.user_id = s.user_id
+     AND ea.status = 'completed'
+     AND ea.completed_at >= greatest(v_since, s.assigned_at)
+    WHERE s.organisation_id = p_organisation_id
+      AND s.revoked_at IS NULL
+    GROUP BY s.id, up.id
+  ) m;
+
+  RETURN jsonb_build_object(
+    'organisation_id', v_organisation.id,
+    'name', v_organisation.name,
+    'days', greatest(1, least(p_days, 366)),
+    'seat_limit', v_organisation.seat_limit,
+    'seats_used', jsonb_array_length(v_members),
+    'active_users', (
+      SELECT COUNT(*) FROM jsonb_array_elements(v_members) m
+      WHERE (m->>'exams_completed')::int > 0
+    ),
+    'exams_completed', (
+      SELECT coalesce(SUM((m->>'exams_completed')::int), 0)
+      FROM jsonb_array_elements(v_members) m
+    ),
+    'average_score', (
+      SELECT ROUND(AVG(ea.percentage))::int
+      FROM organisation_seats s
+      JOIN exam_attempts ea
+        ON ea.user_id = s.user_id
+       AND ea.status = 'completed'
+       AND ea.completed_at >= greatest(v_since, s.assigned_at)
+      WHERE s.organisation_id = p_organisation_id
+        AND s.revoked_at IS NULL
+    ),
+    'time_spent_seconds', (
+      SELECT coalesce(SUM((m->>'time_spent_seconds')::int), 0)
+      FROM jsonb_array_elements(v_members) m
+    ),
+    'members', v_members
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION get_organisation_usage(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_organisation_usage(UUID, INTEGER) TO authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Organisations with their seats in use:
+--   SELECT o.name, o.status, o.seat_limit,
+--          COUNT(s.id) FILTER (WHERE s.revoked_at IS NULL) AS seats_used
+--   FROM organisations o
+--   LEFT JOIN organisation_seats s ON s.organisation_id = o.id
+--   GROUP BY o.id ORDER BY o.created_at DESC;
+--
+-- A seat holder without a subscription should now be Premium (from the SQL
+-- Editor; signed in as someone else it's false):
+--   SELECT has_premium_access('<seat holder user id>');
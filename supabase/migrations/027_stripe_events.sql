@@ -0,0 +1,124 @@
+-- Migration: Stripe event ledger
+-- Run this in Supabase SQL Editor after 026_organisations.sql
+-- ============================================
+--
+-- stripe-webhook used to act on every delivery with no record of what it
+-- had already handled. Stripe retries deliveries and doesn't promise their
+-- order (customer.subscription.updated can land before
+-- checkout.session.completed), so a retry ran twice and a late event could
+-- put back state that was already out of date.
+--
+--   stripe_events     one row per Stripe event id, with the payload. The
+--                     webhook claims the row before acting on it, so a
+--                     redelivered event that was handled does nothing;
+--                     failed events keep their error for replay-stripe-event
+--   stripe_synced_at  on user_subscriptions and organisations - when the
+--                     Stripe state in the row was true: the event's created
+--                     time, or the moment a subscription function read it
+--                     from Stripe. Writes carrying older state are skipped.
+--
+-- Only the service role writes the ledger; admins can read it.
+
+-- ============================================
+-- 1. TABLES
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS stripe_events (
+  -- Stripe's event id (evt_...)
+  id TEXT PRIMARY KEY,
+  type TEXT NOT NULL,
+  -- event.created - the order the events happened in
+  stripe_created_at TIMESTAMPTZ NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT FALSE,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'processed', 'ignored', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  -- Why an event was ignored, or what went wrong
+  note TEXT,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  claimed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_created
+  ON stripe_events(stripe_created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status
+  ON stripe_events(status)
+  WHERE status IN ('processing', 'failed');
+
+ALTER TABLE user_subscriptions
+  ADD COLUMN IF NOT EXISTS stripe_synced_at TIMESTAMPTZ;
+
+ALTER TABLE organisations
+  ADD COLUMN IF NOT EXISTS stripe_synced_at TIMESTAMPTZ;
+
+-- ============================================
+-- 2. RLS POLICIES
+-- ============================================
+
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view stripe events" ON stripe_events;
+CREATE POLICY "Admins can view stripe events"
+  ON stripe_events FOR SELECT
+  USING (is_admin());
+
+-- ============================================
+-- 3. FUNCTIONS: Claiming an event
+-- ============================================
+-- Records the event and claims it for processing in one statement, so two
+-- deliveries of the same event can't both act on it. A new event, a failed
+-- one, or one stuck in processing (the function died part way) can be
+-- claimed; a processed or ignored one only with p_force, which
+-- replay-stripe-event uses. Returns whether the caller got the claim.
+
+CREATE OR REPLACE FUNCTION claim_stripe_event(
+  p_event JSONB,
+  p_force BOOLEAN DEFAULT FALSE
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_claimed BOOLEAN;
+BEGIN
+  IF p_event->>'id' IS NULL OR p_event->>'type' IS NULL THEN
+    RAISE EXCEPTION 'Not a Stripe event' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO stripe_events (id, type, stripe_created_at, livemode, payload)
+  VALUES (
+    p_event->>'id',
+    p_event->>'type',
+    to_timestamp((p_event->>'created')::BIGINT),
+    coalesce((p_event->>'livemode')::BOOLEAN, FALSE),
+    p_event
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET status = 'processing',
+        attempts = stripe_events.attempts + 1,
+        note = NULL,
+        claimed_at = NOW()
+    WHERE stripe_events.status = 'failed'
+      OR (stripe_events.status = 'processing'
+          AND stripe_events.claimed_at < NOW() - INTERVAL '5 minutes')
+      OR (p_force AND stripe_events.status <> 'processing')
+  RETURNING TRUE INTO v_claimed;
+
+  RETURN coalesce(v_claimed, FALSE);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION claim_stripe_event(JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- VERIFICATION
+-- ============================================
+-- Recent events and how they went:
+--   SELECT id, type, stripe_created_at, status, attempts, note
+--   FROM stripe_events ORDER BY stripe_created_at DESC LIMIT 20;
+--
+-- Events that need a replay:
+--   SELECT id, type, note FROM stripe_events
+--   WHERE status = 'failed'
+--      OR (status = 'processing' AND claimed_at < NOW() - INTERVAL '5 minutes');